@@ -39,6 +39,7 @@ vi.mock('@/lib/supabase/server', () => ({
 vi.mock('@/lib/config/razorpayPlans', () => ({
   getPlanId: vi.fn(),
   getPlanPrice: vi.fn(),
+  getTrialDays: vi.fn(() => 0),
 }));
 
 vi.mock('@/lib/schemas/razorpaySubscription', () => ({
@@ -0,0 +1,75 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { ArrowLeft } from 'lucide-react';
+import { useSession } from '@/hooks/useSession';
+import { Footer } from '@/components/layout/Footer';
+import BillingDetailsForm from '@/components/subscription/BillingDetailsForm';
+import InvoiceHistory from '@/components/subscription/InvoiceHistory';
+
+/**
+ * Billing History Page
+ *
+ * GST invoices for every payment, with PDF downloads, and the billing details
+ * printed on them.
+ */
+export default function BillingPage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useSession();
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      const returnUrl = encodeURIComponent('/billing');
+      router.push(`/login?redirect=${returnUrl}`);
+    }
+  }, [user, authLoading, router]);
+
+  if (authLoading || !user) {
+    return (
+      <div className="bg-background flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="border-primary mx-auto mb-4 h-12 w-12 animate-spin rounded-full border-b-2"></div>
+          <p className="text-text-secondary">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-background min-h-screen">
+      <div className="mx-auto max-w-7xl px-4 py-6 pb-20 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="mb-8 flex items-center space-x-4"
+        >
+          <Link
+            href="/subscription"
+            className="text-text-secondary hover:text-foreground p-2 transition-colors"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div>
+            <h1 className="text-foreground text-3xl font-bold">Billing History</h1>
+            <p className="text-text-secondary mt-1">Download GST invoices for your payments</p>
+          </div>
+        </motion.div>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2">
+            <InvoiceHistory />
+          </div>
+          <div>
+            <BillingDetailsForm />
+          </div>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
@@ -14,6 +14,10 @@ import {
   Presentation,
   Wand2,
   Edit,
+  History,
+  Package,
+  GalleryHorizontalEnd,
+  ListChecks,
 } from 'lucide-react';
 import Link from 'next/link';
 import Image from 'next/image';
@@ -21,8 +25,18 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { RenameDialog } from '@/components/ui/RenameDialog';
 import { VisualJSONEditor } from '@/components/modals/VisualJSONEditor';
 import { InteractiveBlueprintDashboard } from '@/components/features/blueprints/InteractiveBlueprintDashboard';
+import { BlueprintVersionHistory } from '@/components/features/blueprints/BlueprintVersionHistory';
+import { ShareLinksDialog } from '@/components/features/blueprints/ShareLinksDialog';
+import { LmsExportDialog } from '@/components/features/blueprints/LmsExportDialog';
+import type { BlueprintVersionSummary } from '@/lib/services/blueprintVersionService';
 import { getSupabaseBrowserClient } from '@/lib/supabase/client';
+import {
+  WorkspaceService,
+  canEditWithRole,
+  type WorkspaceRole,
+} from '@/lib/services/workspaceService';
 import { createBrowserBlueprintService } from '@/lib/db/blueprints.client';
+import { useBlueprintStore } from '@/store/blueprintStore';
 import { useRouter } from 'next/navigation';
 // Removed Ollama imports - using Claude-based validation
 // import { parseAndValidateBlueprintJSON } from '@/lib/ollama/blueprintValidation';
@@ -62,7 +76,7 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
   const [renamingBlueprint, setRenamingBlueprint] = useState(false);
-  const [isGeneratingShare, setIsGeneratingShare] = useState(false);
+  const [isShareLinksOpen, setIsShareLinksOpen] = useState(false);
   const [showSuccessToast, setShowSuccessToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
   const [isExporting, setIsExporting] = useState(false);
@@ -71,6 +85,14 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
   const [isShareButtonHovered, setIsShareButtonHovered] = useState(false);
   const [isDownloadButtonHovered, setIsDownloadButtonHovered] = useState(false);
   const [isPresentButtonHovered, setIsPresentButtonHovered] = useState(false);
+  const [isHistoryButtonHovered, setIsHistoryButtonHovered] = useState(false);
+  const [isLmsButtonHovered, setIsLmsButtonHovered] = useState(false);
+  const [isLmsExportOpen, setIsLmsExportOpen] = useState(false);
+  const [isPlanButtonHovered, setIsPlanButtonHovered] = useState(false);
+  const [isSlidesButtonHovered, setIsSlidesButtonHovered] = useState(false);
+  const customReports = useBlueprintStore((state) => state.customReports);
+  const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState(false);
+  const [workspaceRole, setWorkspaceRole] = useState<WorkspaceRole | null>(null);
 
   // JSON Editor Modal State for Executive Summary
   const [isExecutiveSummaryEditorOpen, setIsExecutiveSummaryEditorOpen] = useState(false);
@@ -99,13 +121,15 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
           .from('blueprint_generator')
           .select('id, user_id, blueprint_markdown, blueprint_json, title, created_at')
           .eq('id', id)
-          .eq('user_id', currentUser.id)
           .single();
 
         if (fetchError || !blueprintData) {
           setError(true);
         } else {
           setData(blueprintData as BlueprintData);
+          setWorkspaceRole(
+            await WorkspaceService.getBlueprintRole(supabase, blueprintData.id, currentUser.id)
+          );
         }
       } catch (err) {
         console.error('Error loading blueprint:', err);
@@ -148,16 +172,21 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
       throw new Error('User not authenticated or no blueprint data');
     }
 
+    if (!canEditWithRole(workspaceRole)) {
+      throw new Error('Viewers cannot edit this blueprint');
+    }
+
     try {
       const supabase = getSupabaseBrowserClient();
 
-      const { error: updateError } = await supabase
+      const { data: updated, error: updateError } = await supabase
         .from('blueprint_generator')
         .update({ blueprint_markdown: newMarkdown })
         .eq('id', data.id)
-        .eq('user_id', user.id);
+        .select('id');
 
       if (updateError) throw updateError;
+      if (!updated?.length) throw new Error('You no longer have access to edit this blueprint');
 
       // Update local state
       setData((prev) => {
@@ -172,40 +201,6 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
     }
   };
 
-  const handleShareBlueprint = async () => {
-    if (!data?.id || isGeneratingShare) return;
-
-    setIsGeneratingShare(true);
-
-    try {
-      const response = await fetch('/api/blueprints/share/generate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ blueprintId: data.id }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to generate share link');
-      }
-
-      const result = await response.json();
-
-      if (result.success && result.shareUrl) {
-        // Copy to clipboard
-        await navigator.clipboard.writeText(result.shareUrl);
-        showToast('Share link copied to clipboard');
-      } else {
-        showToast('Failed to generate share link');
-      }
-    } catch (error) {
-      console.error('Error generating share link:', error);
-      showToast(error instanceof Error ? error.message : 'Failed to generate share link');
-    } finally {
-      setIsGeneratingShare(false);
-    }
-  };
-
   const showToast = (message: string) => {
     setToastMessage(message);
     setShowSuccessToast(true);
@@ -257,6 +252,17 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
     }
   };
 
+  const handleVersionRestored = (version: BlueprintVersionSummary | null) => {
+    if (!version) {
+      showToast('The blueprint already matches this version');
+      return;
+    }
+
+    showToast(`Restored as version ${version.versionNumber}`);
+    // Reload to render the restored content
+    window.location.reload();
+  };
+
   const _handleExportPDF = async () => {
     if (!data) return;
 
@@ -382,6 +388,40 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
     return normalized;
   }, [blueprintData, blueprintTitle, data?.created_at]);
 
+  const handleExportSlides = async () => {
+    if (!normalizedBlueprint) return;
+
+    setIsExporting(true);
+    showToast('Building PowerPoint deck...');
+
+    try {
+      const { buildBlueprintPresentation, selectDeckTheme, PPTX_MIME_TYPE } = await import(
+        '@/lib/export/presentation'
+      );
+
+      const deck = await buildBlueprintPresentation(normalizedBlueprint, {
+        title: blueprintTitle,
+        theme: selectDeckTheme(customReports),
+      });
+
+      const url = URL.createObjectURL(new Blob([new Uint8Array(deck)], { type: PPTX_MIME_TYPE }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${blueprintTitle.replace(/[^a-zA-Z0-9\s-_]/g, '').replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pptx`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      showToast('PowerPoint deck downloaded successfully');
+    } catch (error) {
+      console.error('PowerPoint export error:', error);
+      showToast('PowerPoint export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   if (loading) {
     return (
       <main className="bg-background flex min-h-screen w-full items-center justify-center p-4">
@@ -540,10 +580,10 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
 
                   {/* Animated Share Button */}
                   <motion.button
-                    onClick={handleShareBlueprint}
+                    onClick={() => setIsShareLinksOpen(true)}
                     onHoverStart={() => setIsShareButtonHovered(true)}
                     onHoverEnd={() => setIsShareButtonHovered(false)}
-                    disabled={isGeneratingShare || !data}
+                    disabled={!data}
                     className="bg-primary hover:bg-primary/90 relative flex items-center overflow-hidden rounded-full shadow-lg transition-colors disabled:cursor-not-allowed disabled:opacity-50"
                     initial={{ width: '40px', height: '40px' }}
                     animate={{
@@ -563,16 +603,12 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
                       }}
                       transition={{ duration: 0.3 }}
                     >
-                      {isGeneratingShare ? (
-                        <Loader2 className="h-5 w-5 animate-spin text-black" strokeWidth={2.5} />
-                      ) : (
-                        <Share2 className="h-5 w-5 text-black" strokeWidth={2.5} />
-                      )}
+                      <Share2 className="h-5 w-5 text-black" strokeWidth={2.5} />
                     </motion.div>
 
                     {/* Text - Animated */}
                     <AnimatePresence>
-                      {isShareButtonHovered && !isGeneratingShare && (
+                      {isShareButtonHovered && (
                         <motion.span
                           initial={{ opacity: 0, x: -10 }}
                           animate={{ opacity: 1, x: 0 }}
@@ -586,6 +622,48 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
                     </AnimatePresence>
                   </motion.button>
 
+                  {/* Animated Version History Button */}
+                  <motion.button
+                    onClick={() => setIsVersionHistoryOpen(true)}
+                    onHoverStart={() => setIsHistoryButtonHovered(true)}
+                    onHoverEnd={() => setIsHistoryButtonHovered(false)}
+                    className="bg-primary hover:bg-primary/90 relative flex items-center overflow-hidden rounded-full shadow-lg transition-colors"
+                    initial={{ width: '40px', height: '40px' }}
+                    animate={{
+                      width: isHistoryButtonHovered ? '170px' : '40px',
+                    }}
+                    transition={{
+                      duration: 0.3,
+                      ease: [0.4, 0, 0.2, 1],
+                    }}
+                  >
+                    {/* Icon Container - Always Visible */}
+                    <motion.div
+                      className="absolute top-0 left-0 flex h-10 w-10 flex-shrink-0 items-center justify-center"
+                      animate={{
+                        rotate: isHistoryButtonHovered ? -45 : 0,
+                      }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      <History className="h-5 w-5 text-black" strokeWidth={2.5} />
+                    </motion.div>
+
+                    {/* Text - Animated */}
+                    <AnimatePresence>
+                      {isHistoryButtonHovered && (
+                        <motion.span
+                          initial={{ opacity: 0, x: -10 }}
+                          animate={{ opacity: 1, x: 0 }}
+                          exit={{ opacity: 0, x: -10 }}
+                          transition={{ duration: 0.2, delay: 0.05 }}
+                          className="pr-4 pl-10 text-sm font-semibold whitespace-nowrap text-black"
+                        >
+                          Version History
+                        </motion.span>
+                      )}
+                    </AnimatePresence>
+                  </motion.button>
+
                   {/* Animated Present Button - Placeholder */}
                   <motion.button
                     onClick={() => showToast('Presentation mode coming soon!')}
@@ -675,6 +753,135 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
                     </AnimatePresence>
                   </motion.button>
 
+                  {/* Animated Slides Export Button */}
+                  <motion.button
+                    onClick={handleExportSlides}
+                    onHoverStart={() => setIsSlidesButtonHovered(true)}
+                    onHoverEnd={() => setIsSlidesButtonHovered(false)}
+                    disabled={isExporting || !normalizedBlueprint}
+                    className="bg-primary hover:bg-primary/90 relative flex items-center overflow-hidden rounded-full shadow-lg transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+                    initial={{ width: '40px', height: '40px' }}
+                    animate={{
+                      width: isSlidesButtonHovered ? '170px' : '40px',
+                    }}
+                    transition={{
+                      duration: 0.3,
+                      ease: [0.4, 0, 0.2, 1],
+                    }}
+                  >
+                    {/* Icon Container - Always Visible */}
+                    <motion.div
+                      className="absolute top-0 left-0 flex h-10 w-10 flex-shrink-0 items-center justify-center"
+                      animate={{
+                        scale: isSlidesButtonHovered ? 1.1 : 1,
+                      }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      <GalleryHorizontalEnd className="h-5 w-5 text-black" strokeWidth={2.5} />
+                    </motion.div>
+
+                    {/* Text - Animated */}
+                    <AnimatePresence>
+                      {isSlidesButtonHovered && !isExporting && (
+                        <motion.span
+                          initial={{ opacity: 0, x: -10 }}
+                          animate={{ opacity: 1, x: 0 }}
+                          exit={{ opacity: 0, x: -10 }}
+                          transition={{ duration: 0.2, delay: 0.05 }}
+                          className="pr-4 pl-10 text-sm font-semibold whitespace-nowrap text-black"
+                        >
+                          Download Slides
+                        </motion.span>
+                      )}
+                    </AnimatePresence>
+                  </motion.button>
+
+                  {/* Animated LMS Export Button */}
+                  <motion.button
+                    onClick={() => setIsLmsExportOpen(true)}
+                    onHoverStart={() => setIsLmsButtonHovered(true)}
+                    onHoverEnd={() => setIsLmsButtonHovered(false)}
+                    disabled={!normalizedBlueprint}
+                    className="bg-primary hover:bg-primary/90 relative flex items-center overflow-hidden rounded-full shadow-lg transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+                    initial={{ width: '40px', height: '40px' }}
+                    animate={{
+                      width: isLmsButtonHovered ? '160px' : '40px',
+                    }}
+                    transition={{
+                      duration: 0.3,
+                      ease: [0.4, 0, 0.2, 1],
+                    }}
+                  >
+                    {/* Icon Container - Always Visible */}
+                    <motion.div
+                      className="absolute top-0 left-0 flex h-10 w-10 flex-shrink-0 items-center justify-center"
+                      animate={{
+                        scale: isLmsButtonHovered ? 1.1 : 1,
+                      }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      <Package className="h-5 w-5 text-black" strokeWidth={2.5} />
+                    </motion.div>
+
+                    {/* Text - Animated */}
+                    <AnimatePresence>
+                      {isLmsButtonHovered && (
+                        <motion.span
+                          initial={{ opacity: 0, x: -10 }}
+                          animate={{ opacity: 1, x: 0 }}
+                          exit={{ opacity: 0, x: -10 }}
+                          transition={{ duration: 0.2, delay: 0.05 }}
+                          className="pr-4 pl-10 text-sm font-semibold whitespace-nowrap text-black"
+                        >
+                          Export to LMS
+                        </motion.span>
+                      )}
+                    </AnimatePresence>
+                  </motion.button>
+
+                  {/* Animated Implementation Plan Button */}
+                  <motion.button
+                    onClick={() => router.push(`/blueprint/${blueprintId}/plan`)}
+                    onHoverStart={() => setIsPlanButtonHovered(true)}
+                    onHoverEnd={() => setIsPlanButtonHovered(false)}
+                    disabled={!normalizedBlueprint}
+                    className="bg-primary hover:bg-primary/90 relative flex items-center overflow-hidden rounded-full shadow-lg transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+                    initial={{ width: '40px', height: '40px' }}
+                    animate={{
+                      width: isPlanButtonHovered ? '200px' : '40px',
+                    }}
+                    transition={{
+                      duration: 0.3,
+                      ease: [0.4, 0, 0.2, 1],
+                    }}
+                  >
+                    {/* Icon Container - Always Visible */}
+                    <motion.div
+                      className="absolute top-0 left-0 flex h-10 w-10 flex-shrink-0 items-center justify-center"
+                      animate={{
+                        scale: isPlanButtonHovered ? 1.1 : 1,
+                      }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      <ListChecks className="h-5 w-5 text-black" strokeWidth={2.5} />
+                    </motion.div>
+
+                    {/* Text - Animated */}
+                    <AnimatePresence>
+                      {isPlanButtonHovered && (
+                        <motion.span
+                          initial={{ opacity: 0, x: -10 }}
+                          animate={{ opacity: 1, x: 0 }}
+                          exit={{ opacity: 0, x: -10 }}
+                          transition={{ duration: 0.2, delay: 0.05 }}
+                          className="pr-4 pl-10 text-sm font-semibold whitespace-nowrap text-black"
+                        >
+                          Track Implementation
+                        </motion.span>
+                      )}
+                    </AnimatePresence>
+                  </motion.button>
+
                   {/* Animated Create New Blueprint Button */}
                   <motion.button
                     onClick={() => window.open('https://polaris.smartslate.io', '_blank')}
@@ -882,6 +1089,30 @@ export default function BlueprintPage({ params }: PageProps): React.JSX.Element
           maxLength={100}
         />
 
+        {/* Version History Dialog */}
+        <BlueprintVersionHistory
+          isOpen={isVersionHistoryOpen}
+          onClose={() => setIsVersionHistoryOpen(false)}
+          blueprintId={blueprintId}
+          onRestored={handleVersionRestored}
+        />
+
+        {/* Share Links Dialog */}
+        <ShareLinksDialog
+          isOpen={isShareLinksOpen}
+          onClose={() => setIsShareLinksOpen(false)}
+          blueprintId={blueprintId}
+          onCopied={showToast}
+        />
+
+        {/* LMS Export Dialog */}
+        <LmsExportDialog
+          isOpen={isLmsExportOpen}
+          onClose={() => setIsLmsExportOpen(false)}
+          blueprintId={blueprintId}
+          onExported={showToast}
+        />
+
         {/* Visual JSON Editor Modal for Executive Summary */}
         <VisualJSONEditor
           isOpen={isExecutiveSummaryEditorOpen}
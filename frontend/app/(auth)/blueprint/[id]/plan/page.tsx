@@ -0,0 +1,69 @@
+'use client';
+
+import { use } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, ListChecks } from 'lucide-react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { ImplementationPlanTracker } from '@/components/features/blueprints/ImplementationPlanTracker';
+import { cn } from '@/lib/utils';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Implementation Plan Page
+ * Tasks, owners and hours for rolling out a blueprint, with progress charts
+ */
+function ImplementationPlanContent({ blueprintId }: { blueprintId: string }) {
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-6 pb-20 sm:px-6 lg:px-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="mb-8"
+      >
+        <Link
+          href={`/blueprint/${blueprintId}`}
+          className={cn(
+            'mb-4 inline-flex items-center gap-2',
+            'text-text-secondary hover:text-primary',
+            'transition-colors duration-200',
+            'text-caption font-medium',
+            'focus-visible:ring-primary focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:outline-none',
+            'rounded-lg px-2 py-1'
+          )}
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Blueprint
+        </Link>
+
+        <div className="mb-2 flex items-center gap-4">
+          <div className="bg-primary/10 border-primary/30 flex h-12 w-12 items-center justify-center rounded-xl border">
+            <ListChecks className="text-primary h-6 w-6" />
+          </div>
+          <div>
+            <h1 className="text-display text-foreground font-bold">Implementation Plan</h1>
+            <p className="text-body text-text-secondary mt-1">
+              Track who is doing what, by when, and how the rollout is tracking against plan
+            </p>
+          </div>
+        </div>
+      </motion.div>
+
+      <ImplementationPlanTracker blueprintId={blueprintId} />
+    </div>
+  );
+}
+
+export default function ImplementationPlanPage({ params }: PageProps) {
+  const { id } = use(params);
+
+  return (
+    <ProtectedRoute>
+      <ImplementationPlanContent blueprintId={id} />
+    </ProtectedRoute>
+  );
+}
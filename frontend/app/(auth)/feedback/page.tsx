@@ -0,0 +1,65 @@
+'use client';
+
+import { Suspense } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, MessageSquare } from 'lucide-react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { MyReports } from '@/components/feedback/MyReports';
+import { cn } from '@/lib/utils';
+
+/**
+ * My Reports Page
+ * Feedback the user has sent, with replies and status updates
+ */
+function FeedbackContent() {
+  return (
+    <div className="mx-auto max-w-4xl px-4 py-6 pb-20 sm:px-6 lg:px-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="mb-8"
+      >
+        <Link
+          href="/dashboard"
+          className={cn(
+            'mb-4 inline-flex items-center gap-2',
+            'text-text-secondary hover:text-primary',
+            'transition-colors duration-200',
+            'text-caption font-medium',
+            'focus-visible:ring-primary focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:outline-none',
+            'rounded-lg px-2 py-1'
+          )}
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Dashboard
+        </Link>
+
+        <div className="mb-2 flex items-center gap-4">
+          <div className="bg-primary/10 border-primary/30 flex h-12 w-12 items-center justify-center rounded-xl border">
+            <MessageSquare className="text-primary h-6 w-6" />
+          </div>
+          <div>
+            <h1 className="text-display text-foreground font-bold">My Reports</h1>
+            <p className="text-body text-text-secondary mt-1">
+              Feedback you&apos;ve sent and what we&apos;ve done about it
+            </p>
+          </div>
+        </div>
+      </motion.div>
+
+      <Suspense fallback={null}>
+        <MyReports />
+      </Suspense>
+    </div>
+  );
+}
+
+export default function FeedbackPage() {
+  return (
+    <ProtectedRoute>
+      <FeedbackContent />
+    </ProtectedRoute>
+  );
+}
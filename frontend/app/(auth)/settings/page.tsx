@@ -10,6 +10,7 @@ import { UsageDetailPanel } from '@/components/settings/UsageDetailPanel';
 import { PreferencesSettings } from '@/components/settings/PreferencesSettings';
 import { NotificationsSettings } from '@/components/settings/NotificationsSettings';
 import { SecuritySettings } from '@/components/settings/SecuritySettings';
+import { WorkspaceSettings } from '@/components/settings/WorkspaceSettings';
 import { cn } from '@/lib/utils';
 
 /**
@@ -66,6 +67,7 @@ function SettingsContent() {
         <ProfileSection />
         <SubscriptionSection />
         <UsageDetailPanel />
+        <WorkspaceSettings />
         <PreferencesSettings />
         <NotificationsSettings />
         <SecuritySettings />
@@ -128,6 +128,9 @@ const staticQuestionnaireSchema = z.object({
         amount: z.number().min(0).optional(),
       })
       .optional(),
+    content_strategy: z.enum(['scratch', 'adapt', 'license', 'curate', 'hybrid']).optional(),
+    // Ids of course materials uploaded for adapt/hybrid strategies
+    existing_materials: z.array(z.string()).optional(),
   }),
 });
 
@@ -165,6 +168,8 @@ const defaultValues: StaticQuestionnaireFormData = {
       currency: 'USD',
       amount: 0,
     },
+    content_strategy: 'scratch',
+    existing_materials: [],
   },
 };
 
@@ -836,7 +841,7 @@ function StaticWizardContent(): React.JSX.Element {
       case 2:
         return <OrganizationDetailsSection />;
       case 3:
-        return <LearningGapSection />;
+        return <LearningGapSection blueprintId={blueprintId} />;
       default:
         return null;
     }
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { useSession } from '@/hooks/useSession';
 import { getSupabaseBrowserClient } from '@/lib/supabase/client';
 import SubscriptionManagementContent from '@/components/subscription/SubscriptionManagementContent';
+import { readSubscriptionSeats } from '@/lib/services/planChangeService';
 import type { SubscriptionManagementPageProps } from '@/types/subscription';
 
 /**
@@ -86,6 +87,14 @@ export default function SubscriptionManagementPage() {
             renewalAmount: activeSubscription.plan_amount,
             billingCycle: activeSubscription.plan_period as any,
             remainingCount: activeSubscription.remaining_count,
+            seats: readSubscriptionSeats(activeSubscription.metadata) ?? 1,
+            pendingPlanChange: activeSubscription.pending_plan_change
+              ? {
+                  tier: activeSubscription.pending_plan_change.tier,
+                  seats: activeSubscription.pending_plan_change.seats,
+                  effectiveAt: activeSubscription.pending_plan_change.effective_at,
+                }
+              : null,
           };
         }
 
@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { AlertCircle, Users } from 'lucide-react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+
+/**
+ * WorkspaceJoinContent - Accepts the invitation token from the invite link
+ * and sends the new member to the dashboard
+ */
+function WorkspaceJoinContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [error, setError] = useState<string | null>(null);
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (attempted.current) return;
+    attempted.current = true;
+
+    if (!token) {
+      setError('This invitation link is missing its token.');
+      return;
+    }
+
+    const accept = async () => {
+      try {
+        const response = await fetch('/api/workspaces/invitations/accept', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          setError(result.error || 'Failed to accept invitation');
+          return;
+        }
+
+        router.replace('/dashboard');
+      } catch {
+        setError('Failed to accept invitation');
+      }
+    };
+
+    accept();
+  }, [token, router]);
+
+  return (
+    <div className="mx-auto flex min-h-[60vh] max-w-md items-center px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="glass-card w-full rounded-2xl border border-white/10 p-8 text-center"
+      >
+        <div className="bg-primary/20 mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-xl">
+          {error ? (
+            <AlertCircle className="text-error h-6 w-6" />
+          ) : (
+            <Users className="text-primary h-6 w-6" />
+          )}
+        </div>
+        <h1 className="font-heading text-xl font-bold text-white">
+          {error ? 'Unable to join workspace' : 'Joining workspace...'}
+        </h1>
+        {error ? (
+          <>
+            <p className="text-text-secondary mt-2 text-sm">{error}</p>
+            <Link
+              href="/dashboard"
+              className="text-primary mt-6 inline-block text-sm font-medium hover:underline"
+            >
+              Back to Dashboard
+            </Link>
+          </>
+        ) : (
+          <div className="border-primary/20 border-t-primary mx-auto mt-6 h-6 w-6 animate-spin rounded-full border-2" />
+        )}
+      </motion.div>
+    </div>
+  );
+}
+
+export default function WorkspaceJoinPage() {
+  return (
+    <ProtectedRoute>
+      <WorkspaceJoinContent />
+    </ProtectedRoute>
+  );
+}
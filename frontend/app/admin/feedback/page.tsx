@@ -0,0 +1,21 @@
+import { FeedbackTriageBoard } from '@/components/admin/feedback/FeedbackTriageBoard';
+
+/**
+ * Admin Feedback Triage Page
+ * User reports by status, with assignment, replies and internal notes
+ */
+export default function FeedbackTriagePage() {
+  return (
+    <div className="min-h-screen w-full bg-[#020C1B] text-[rgb(224,224,224)]">
+      <div className="mx-auto max-w-7xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Feedback Triage</h1>
+          <p className="text-white/60">
+            Assign, prioritize and respond to reports submitted from the feedback widget
+          </p>
+        </div>
+        <FeedbackTriageBoard />
+      </div>
+    </div>
+  );
+}
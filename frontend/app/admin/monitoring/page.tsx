@@ -0,0 +1,13 @@
+import MonitoringDashboard from '@/components/admin/monitoring/MonitoringDashboard';
+
+/**
+ * Admin Monitoring Page
+ * Service health, errors, alerts and the AI provider cascade
+ */
+export default function MonitoringPage() {
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <MonitoringDashboard />
+    </div>
+  );
+}
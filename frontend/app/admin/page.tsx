@@ -14,6 +14,8 @@ import {
   Clock,
   BarChart3,
   Bell,
+  MessageSquare,
+  Star,
 } from 'lucide-react';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { useAuth } from '@/contexts/AuthContext';
@@ -185,6 +187,42 @@ export default function AdminDashboardPage() {
       iconColor: 'text-purple-400',
       glowColor: 'hover:shadow-purple-500/20',
     },
+    {
+      title: 'System Monitoring',
+      description: 'Service health, errors and AI provider circuit breakers',
+      icon: Activity,
+      href: '/admin/monitoring',
+      gradient: 'from-teal-500/20 to-teal-600/20',
+      iconColor: 'text-teal-400',
+      glowColor: 'hover:shadow-teal-500/20',
+    },
+    {
+      title: 'Feedback Triage',
+      description: 'Assign, prioritize and respond to user feedback',
+      icon: MessageSquare,
+      href: '/admin/feedback',
+      gradient: 'from-pink-500/20 to-pink-600/20',
+      iconColor: 'text-pink-400',
+      glowColor: 'hover:shadow-pink-500/20',
+    },
+    {
+      title: 'Section Ratings',
+      description: 'How users rate generated blueprint sections',
+      icon: Star,
+      href: '/admin/section-ratings',
+      gradient: 'from-yellow-500/20 to-yellow-600/20',
+      iconColor: 'text-yellow-400',
+      glowColor: 'hover:shadow-yellow-500/20',
+    },
+    {
+      title: 'Single Sign-On',
+      description: 'SAML and OIDC connections for enterprise domains',
+      icon: Shield,
+      href: '/admin/sso',
+      gradient: 'from-sky-500/20 to-sky-600/20',
+      iconColor: 'text-sky-400',
+      glowColor: 'hover:shadow-sky-500/20',
+    },
     {
       title: 'Reports',
       description: 'Generate and download system reports',
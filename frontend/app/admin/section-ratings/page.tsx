@@ -0,0 +1,21 @@
+import { SectionRatingsDashboard } from '@/components/admin/ratings/SectionRatingsDashboard';
+
+/**
+ * Admin Section Ratings Page
+ * How users rate each blueprint section type, per prompt version
+ */
+export default function SectionRatingsPage() {
+  return (
+    <div className="min-h-screen w-full bg-[#020C1B] text-[rgb(224,224,224)]">
+      <div className="mx-auto max-w-7xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Section Ratings</h1>
+          <p className="text-white/60">
+            User ratings of generated blueprint sections and the guidance they feed into generation
+          </p>
+        </div>
+        <SectionRatingsDashboard />
+      </div>
+    </div>
+  );
+}
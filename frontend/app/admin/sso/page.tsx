@@ -0,0 +1,21 @@
+import { SsoConnectionsManager } from '@/components/admin/sso/SsoConnectionsManager';
+
+/**
+ * Admin Single Sign-On Page
+ * SAML and OIDC connections for enterprise email domains
+ */
+export default function SsoPage() {
+  return (
+    <div className="min-h-screen w-full bg-[#020C1B] text-[rgb(224,224,224)]">
+      <div className="mx-auto max-w-7xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Single Sign-On</h1>
+          <p className="text-white/60">
+            Identity provider connections for enterprise domains and how their users are provisioned
+          </p>
+        </div>
+        <SsoConnectionsManager />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * Data Export Download Endpoint
+ * Redirects the owner of a ready, unexpired export to a short-lived signed
+ * URL for the archive.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServerSession } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { DataExportService } from '@/lib/services/dataExportService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/account/data-export/[id]/download
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const { id: exportId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const admin = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const { url, status } = await DataExportService.createDownloadUrl(
+      admin,
+      exportId,
+      session.user.id
+    );
+
+    if (!status) {
+      return NextResponse.json({ success: false, error: 'Export not found' }, { status: 404 });
+    }
+
+    if (status === 'expired') {
+      return NextResponse.json(
+        { success: false, error: 'This export has expired. Request a new one.' },
+        { status: 410 }
+      );
+    }
+
+    if (!url) {
+      return NextResponse.json(
+        { success: false, error: 'This export is not ready yet' },
+        { status: 409 }
+      );
+    }
+
+    logger.info('account.data_export.downloaded', 'Data export downloaded', {
+      userId: session.user.id,
+      exportId,
+    });
+
+    return NextResponse.redirect(url);
+  } catch (error) {
+    logger.error('account.data_export.download_error', 'Failed to download data export', {
+      exportId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to download data export' },
+      { status: 500 }
+    );
+  }
+}
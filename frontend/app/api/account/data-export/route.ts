@@ -0,0 +1,108 @@
+/**
+ * Personal Data Export API Endpoint
+ * Returns the caller's latest data export and requests a new one. The
+ * archive is built after the response is sent; poll GET until it is ready,
+ * then download it from /api/account/data-export/[id]/download.
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  DataExportService,
+  runDataExport,
+  type DataExport,
+} from '@/lib/services/dataExportService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+// The archive is built in after() once the 202 response is sent
+export const maxDuration = 300;
+
+const RequestExportSchema = z.object({
+  reason: z.enum(['user_request', 'account_deletion']).default('user_request'),
+});
+
+interface DataExportResponse {
+  success: boolean;
+  dataExport?: DataExport | null;
+  error?: string;
+}
+
+/**
+ * GET /api/account/data-export
+ */
+export async function GET(): Promise<NextResponse<DataExportResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = (await getSupabaseServerClient()) as unknown as SupabaseClient;
+    const dataExport = await DataExportService.getLatest(supabase, session.user.id);
+
+    return NextResponse.json({ success: true, dataExport });
+  } catch (error) {
+    logger.error('account.data_export.fetch_error', 'Failed to load data export', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load data export' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/account/data-export
+ * Body: { reason?: 'user_request' | 'account_deletion' }
+ */
+export async function POST(req: NextRequest): Promise<NextResponse<DataExportResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const parseResult = RequestExportSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parseResult.success) {
+      return NextResponse.json({ success: false, error: 'Invalid export reason' }, { status: 400 });
+    }
+
+    const supabase = (await getSupabaseServerClient()) as unknown as SupabaseClient;
+    const { dataExport, created } = await DataExportService.request(
+      supabase,
+      userId,
+      parseResult.data.reason
+    );
+
+    if (created) {
+      after(() => runDataExport(dataExport.id));
+
+      logger.info('account.data_export.requested', 'Data export requested', {
+        userId,
+        exportId: dataExport.id,
+        reason: dataExport.reason,
+      });
+    }
+
+    return NextResponse.json({ success: true, dataExport }, { status: 202 });
+  } catch (error) {
+    logger.error('account.data_export.request_error', 'Failed to request data export', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to request data export' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,16 +9,24 @@
  * - Validates confirmation token
  * - Deletes all user data via cascade
  * - Revokes all sessions
+ *
+ * With `exportFirst`, the personal data export archive is prepared before
+ * anything is deleted: the route answers 202 until the archive is ready, and
+ * the client confirms again once the user has downloaded it.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { getSupabaseServerClient } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { DataExportService, runDataExport } from '@/lib/services/dataExportService';
 import type { Database } from '@/types/supabase';
 
 export const dynamic = 'force-dynamic';
 
 interface DeleteAccountRequest {
   confirmationText: string;
+  exportFirst?: boolean;
 }
 
 export async function POST(request: NextRequest) {
@@ -47,6 +55,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Prepare the data export archive first when asked
+    if (body.exportFirst) {
+      const exportClient = supabase as unknown as SupabaseClient;
+      let dataExport = await DataExportService.getLatest(exportClient, userId);
+
+      if (dataExport?.status !== 'ready') {
+        if (dataExport?.status !== 'queued' && dataExport?.status !== 'running') {
+          const requested = await DataExportService.request(
+            exportClient,
+            userId,
+            'account_deletion'
+          );
+          if (requested.created) {
+            after(() => runDataExport(requested.dataExport.id));
+          }
+          dataExport = requested.dataExport;
+        }
+
+        return NextResponse.json(
+          {
+            success: false,
+            exportPending: true,
+            dataExport,
+            message:
+              'Your data export is being prepared. Download it, then confirm the deletion again.',
+          },
+          { status: 202 }
+        );
+      }
+    }
+
     // Log the deletion attempt (before deleting the user)
     console.log(
       `[ACCOUNT DELETION] User ${userId} (${session.user.email}) requested account deletion`
@@ -77,6 +116,17 @@ export async function POST(request: NextRequest) {
       // Continue deletion even if blueprint cleanup fails
     }
 
+    // Remove data export archives; their rows go with the auth user
+    try {
+      await DataExportService.removeArchives(
+        getSupabaseAdminClient() as unknown as SupabaseClient,
+        userId
+      );
+    } catch (archiveError) {
+      console.error('[DATA EXPORT CLEANUP ERROR]', archiveError);
+      // Continue deletion; archives expire and are unreachable without the account
+    }
+
     // Delete auth user (Supabase Admin API)
     const { error: deleteUserError } = await supabase.auth.admin.deleteUser(userId);
 
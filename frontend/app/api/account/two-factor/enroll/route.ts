@@ -0,0 +1,60 @@
+/**
+ * Two-Factor Enrollment API Endpoint
+ * Starts TOTP enrollment and returns the QR code and secret for the user's
+ * authenticator app. The factor stays unverified until a code is confirmed
+ * through /api/account/two-factor/verify.
+ */
+
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { TwoFactorService, type TotpEnrollment } from '@/lib/services/twoFactorService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const TOTP_ISSUER = 'SmartSlate Polaris';
+
+interface EnrollResponse {
+  success: boolean;
+  enrollment?: TotpEnrollment;
+  error?: string;
+}
+
+/**
+ * POST /api/account/two-factor/enroll
+ */
+export async function POST(): Promise<NextResponse<EnrollResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = (await getSupabaseServerClient()) as unknown as SupabaseClient;
+    const enrollment = await TwoFactorService.enroll(supabase, TOTP_ISSUER);
+
+    logger.info('account.two_factor.enroll_started', 'Two-factor enrollment started', {
+      userId: session.user.id,
+      factorId: enrollment.factorId,
+    });
+
+    return NextResponse.json({ success: true, enrollment });
+  } catch (error) {
+    const message = (error as Error).message;
+    logger.error('account.two_factor.enroll_error', 'Failed to start two-factor enrollment', {
+      error: message,
+    });
+
+    if (message === 'Two-factor authentication is already enabled') {
+      return NextResponse.json({ success: false, error: message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to start two-factor enrollment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Two-Factor Recovery API Endpoint
+ * Signs in with a recovery code when the authenticator app is lost. The code
+ * is used up and the user's factor removed, so the session no longer needs a
+ * second factor; they are asked to set up two-factor again from settings.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { TwoFactorService } from '@/lib/services/twoFactorService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const RecoverSchema = z.object({
+  code: z.string().trim().min(1).max(50),
+});
+
+interface RecoverResponse {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * POST /api/account/two-factor/recover
+ * Body: { code }
+ */
+export async function POST(req: NextRequest): Promise<NextResponse<RecoverResponse>> {
+  try {
+    const { session } = await getServerSession({ allowPendingTwoFactor: true });
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const parseResult = RecoverSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Enter one of your recovery codes' },
+        { status: 400 }
+      );
+    }
+
+    const admin = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const used = await TwoFactorService.consumeRecoveryCode(admin, userId, parseResult.data.code);
+    if (!used) {
+      logger.warn('account.two_factor.invalid_recovery_code', 'Invalid recovery code', { userId });
+      return NextResponse.json(
+        { success: false, error: 'That recovery code is incorrect or already used' },
+        { status: 400 }
+      );
+    }
+
+    await TwoFactorService.resetFactors(admin, userId);
+
+    // Pick up the removed factor so the session stops asking for a code
+    const supabase = await getSupabaseServerClient();
+    await supabase.auth.refreshSession();
+
+    logger.info('account.two_factor.recovered', 'Signed in with a recovery code', { userId });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('account.two_factor.recover_error', 'Failed to use recovery code', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to use recovery code' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Recovery Codes API Endpoint
+ * Replaces the caller's recovery codes; the old ones stop working. Needs a
+ * session verified with the second factor.
+ */
+
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { getAssuranceLevel } from '@/lib/auth/twoFactor';
+import { TwoFactorService } from '@/lib/services/twoFactorService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+interface RecoveryCodesResponse {
+  success: boolean;
+  recoveryCodes?: string[];
+  error?: string;
+}
+
+/**
+ * POST /api/account/two-factor/recovery-codes
+ */
+export async function POST(): Promise<NextResponse<RecoveryCodesResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const supabase = (await getSupabaseServerClient()) as unknown as SupabaseClient;
+
+    const { currentLevel } = await getAssuranceLevel(supabase);
+    if (currentLevel !== 'aal2') {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is not enabled' },
+        { status: 403 }
+      );
+    }
+
+    const admin = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const recoveryCodes = await TwoFactorService.replaceRecoveryCodes(admin, userId);
+
+    logger.info('account.two_factor.recovery_codes_replaced', 'Recovery codes regenerated', {
+      userId,
+    });
+
+    return NextResponse.json({ success: true, recoveryCodes });
+  } catch (error) {
+    logger.error('account.two_factor.recovery_codes_error', 'Failed to regenerate codes', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create recovery codes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Two-Factor Authentication API Endpoint
+ * Returns the caller's TOTP status (with remaining recovery codes and any
+ * workspaces that require it) and turns two-factor off. Turning it off needs
+ * a session verified with the second factor and is refused while a workspace
+ * requires it.
+ */
+
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { getAssuranceLevel } from '@/lib/auth/twoFactor';
+import { TwoFactorService, type TwoFactorStatus } from '@/lib/services/twoFactorService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+interface TwoFactorResponse {
+  success: boolean;
+  status?: TwoFactorStatus;
+  error?: string;
+}
+
+/**
+ * GET /api/account/two-factor
+ */
+export async function GET(): Promise<NextResponse<TwoFactorResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = (await getSupabaseServerClient()) as unknown as SupabaseClient;
+    const admin = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const status = await TwoFactorService.getStatus(supabase, admin, session.user.id);
+
+    return NextResponse.json({ success: true, status });
+  } catch (error) {
+    logger.error('account.two_factor.status_error', 'Failed to load two-factor status', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load two-factor status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/account/two-factor
+ */
+export async function DELETE(): Promise<NextResponse<TwoFactorResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const supabase = (await getSupabaseServerClient()) as unknown as SupabaseClient;
+
+    const { currentLevel } = await getAssuranceLevel(supabase);
+    if (currentLevel !== 'aal2') {
+      return NextResponse.json(
+        { success: false, error: 'Sign in with your authenticator code to turn off two-factor' },
+        { status: 403 }
+      );
+    }
+
+    const requiredBy = await TwoFactorService.listRequiringWorkspaces(supabase);
+    if (requiredBy.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Two-factor authentication is required by ${requiredBy
+            .map((workspace) => workspace.name)
+            .join(', ')}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const admin = getSupabaseAdminClient() as unknown as SupabaseClient;
+    await TwoFactorService.disable(supabase, admin, userId);
+
+    logger.info('account.two_factor.disabled', 'Two-factor authentication disabled', { userId });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('account.two_factor.disable_error', 'Failed to disable two-factor', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to disable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Two-Factor Verification API Endpoint
+ * Checks a code from the authenticator app and upgrades the session to aal2.
+ * Used both to confirm a new enrollment, which also issues the recovery
+ * codes, and for the code step at sign in.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { TwoFactorService } from '@/lib/services/twoFactorService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const VerifySchema = z.object({
+  // Omitted at sign in, where the user's only verified factor is used
+  factorId: z.string().uuid().optional(),
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/),
+});
+
+interface VerifyResponse {
+  success: boolean;
+  recoveryCodes?: string[];
+  error?: string;
+}
+
+/**
+ * POST /api/account/two-factor/verify
+ * Body: { factorId?, code }
+ */
+export async function POST(req: NextRequest): Promise<NextResponse<VerifyResponse>> {
+  try {
+    const { session } = await getServerSession({ allowPendingTwoFactor: true });
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const parseResult = VerifySchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Enter the 6-digit code from your authenticator app' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = (await getSupabaseServerClient()) as unknown as SupabaseClient;
+    const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+    if (factorsError) {
+      throw factorsError;
+    }
+
+    const factor = parseResult.data.factorId
+      ? factors.all.find((f) => f.id === parseResult.data.factorId)
+      : factors.totp[0];
+    if (!factor) {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is not set up' },
+        { status: 404 }
+      );
+    }
+
+    const verified = await TwoFactorService.verifyCode(supabase, factor.id, parseResult.data.code);
+    if (!verified) {
+      logger.warn('account.two_factor.invalid_code', 'Invalid two-factor code', { userId });
+      return NextResponse.json(
+        { success: false, error: 'That code is incorrect or has expired' },
+        { status: 400 }
+      );
+    }
+
+    if (factor.status === 'verified') {
+      return NextResponse.json({ success: true });
+    }
+
+    const admin = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const recoveryCodes = await TwoFactorService.replaceRecoveryCodes(admin, userId);
+
+    logger.info('account.two_factor.enabled', 'Two-factor authentication enabled', {
+      userId,
+      factorId: factor.id,
+    });
+
+    return NextResponse.json({ success: true, recoveryCodes });
+  } catch (error) {
+    logger.error('account.two_factor.verify_error', 'Failed to verify two-factor code', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify two-factor code' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { CouponService } from '@/lib/services/couponService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/coupons/[id]/redemptions
+ * Who redeemed a coupon, on which plan and subscription, and for how much
+ * Requires admin/developer role
+ *
+ * Query Parameters:
+ * - limit: Page size (default: 50, max: 200)
+ * - offset: Rows to skip (default: 0)
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+
+    const { redemptions, total } = await CouponService.listRedemptions(
+      getSupabaseAdminClient() as unknown as SupabaseClient,
+      id,
+      { limit, offset }
+    );
+
+    return NextResponse.json({ redemptions, total, limit, offset });
+  } catch (error) {
+    console.error('Error fetching coupon redemptions:', error);
+    return NextResponse.json({ error: 'Failed to fetch coupon redemptions' }, { status: 500 });
+  }
+}
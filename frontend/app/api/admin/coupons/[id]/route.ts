@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { validateCouponUpdate } from '@/lib/schemas/razorpaySubscription';
+import { CouponService } from '@/lib/services/couponService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/admin/coupons/[id]
+ * Deactivate a coupon or change its limits, expiry and eligible plans
+ * Requires admin/developer role
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const parseResult = validateCouponUpdate(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid coupon update', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const coupon = await CouponService.update(
+      getSupabaseAdminClient() as unknown as SupabaseClient,
+      id,
+      parseResult.data
+    );
+    if (!coupon) {
+      return NextResponse.json({ error: 'Coupon not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ coupon });
+  } catch (error) {
+    console.error('Error updating coupon:', error);
+    return NextResponse.json({ error: 'Failed to update coupon' }, { status: 500 });
+  }
+}
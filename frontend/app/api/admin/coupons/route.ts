@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { validateCouponInput } from '@/lib/schemas/razorpaySubscription';
+import { CouponService } from '@/lib/services/couponService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/coupons
+ * All coupons with their redemption counts
+ * Requires admin/developer role
+ */
+export async function GET() {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const coupons = await CouponService.list(getSupabaseAdminClient() as unknown as SupabaseClient);
+
+    return NextResponse.json({ coupons });
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    return NextResponse.json({ error: 'Failed to fetch coupons' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/coupons
+ * Create a coupon. Discounts need a matching offer created in the Razorpay
+ * dashboard; trial-only coupons do not.
+ * Requires admin/developer role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin || !adminCheck.user) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const parseResult = validateCouponInput(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid coupon', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const coupon = await CouponService.create(
+      getSupabaseAdminClient() as unknown as SupabaseClient,
+      parseResult.data,
+      adminCheck.user.id
+    );
+
+    return NextResponse.json({ coupon }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating coupon:', error);
+    const message = error instanceof Error ? error.message : 'Failed to create coupon';
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('already exists') ? 409 : 500 }
+    );
+  }
+}
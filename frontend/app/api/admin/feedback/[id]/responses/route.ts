@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { createResponseRequestSchema } from '@/lib/schemas/feedback';
+import { FeedbackService, notifyFeedbackReporter } from '@/lib/services/feedbackService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/feedback/[id]/responses
+ * Body: { response, response_type?: 'comment' | 'internal_note' }
+ * Internal notes stay on the triage board; comments are shown to the reporter,
+ * who is notified.
+ * Requires admin/developer role
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin || !adminCheck.user) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const parseResult = createResponseRequestSchema.safeParse(await request.json());
+    if (!parseResult.success || parseResult.data.response_type === 'status_change') {
+      return NextResponse.json(
+        {
+          error: 'Invalid response',
+          details: parseResult.success ? undefined : parseResult.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const feedback = await FeedbackService.getForTriage(supabase, id);
+    if (!feedback) {
+      return NextResponse.json({ error: 'Feedback not found' }, { status: 404 });
+    }
+
+    const response = await FeedbackService.addResponse(
+      supabase,
+      id,
+      adminCheck.user.id,
+      parseResult.data
+    );
+
+    if (!response.is_internal) {
+      await notifyFeedbackReporter(supabase, feedback, {
+        status: null,
+        message: response.response,
+      });
+    }
+
+    return NextResponse.json({ response }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding feedback response:', error);
+    return NextResponse.json({ error: 'Failed to add response' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { triageFeedbackRequestSchema } from '@/lib/schemas/feedback';
+import { FeedbackService, notifyFeedbackReporter } from '@/lib/services/feedbackService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/feedback/[id]
+ * A submission with reporter details, every response including internal
+ * notes, and its status history
+ * Requires admin/developer role
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const feedback = await FeedbackService.getForTriage(
+      getSupabaseAdminClient() as unknown as SupabaseClient,
+      id
+    );
+    if (!feedback) {
+      return NextResponse.json({ error: 'Feedback not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ feedback });
+  } catch (error) {
+    console.error('Error fetching feedback:', error);
+    return NextResponse.json({ error: 'Failed to fetch feedback' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/feedback/[id]
+ * Change status, priority or assignee. The reporter is notified of status
+ * changes, with the optional message.
+ * Requires admin/developer role
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin || !adminCheck.user) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const parseResult = triageFeedbackRequestSchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid feedback update', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const result = await FeedbackService.triage(supabase, id, adminCheck.user.id, parseResult.data);
+    if (!result) {
+      return NextResponse.json({ error: 'Feedback not found' }, { status: 404 });
+    }
+
+    if (result.statusChanged) {
+      await notifyFeedbackReporter(supabase, result.submission, {
+        status: result.submission.status,
+        message: parseResult.data.message || null,
+      });
+    }
+
+    const feedback = await FeedbackService.getForTriage(supabase, id);
+
+    return NextResponse.json({ feedback });
+  } catch (error) {
+    console.error('Error updating feedback:', error);
+    return NextResponse.json({ error: 'Failed to update feedback' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { feedbackStatusSchema } from '@/lib/schemas/feedback';
+import { FeedbackService } from '@/lib/services/feedbackService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/feedback?status=open&assignedTo=<id>|unassigned&typeId=<id>&search=text
+ * Submissions for the triage board, plus the staff they can be assigned to
+ * and the feedback types for filtering
+ * Requires admin/developer role
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = feedbackStatusSchema.safeParse(searchParams.get('status'));
+
+    const supabase = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const [feedback, assignees, types] = await Promise.all([
+      FeedbackService.listForTriage(supabase, {
+        status: status.success ? status.data : undefined,
+        assignedTo: searchParams.get('assignedTo') || undefined,
+        feedbackTypeId: searchParams.get('typeId') || undefined,
+        search: searchParams.get('search') || undefined,
+      }),
+      FeedbackService.listAssignees(supabase),
+      FeedbackService.listTypes(supabase),
+    ]);
+
+    return NextResponse.json({ feedback, assignees, types });
+  } catch (error) {
+    console.error('Error fetching feedback for triage:', error);
+    return NextResponse.json({ error: 'Failed to fetch feedback' }, { status: 500 });
+  }
+}
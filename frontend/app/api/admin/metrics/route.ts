@@ -1,13 +1,55 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { getSupabaseServerClient } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
 import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { LlmUsageService } from '@/lib/services/llmUsageService';
+
+const DEFAULT_LLM_USAGE_DAYS = 30;
+const TOP_LLM_USERS = 20;
+
+/**
+ * LLM token and cost aggregates over the last `days` days: totals, per tier
+ * (with the plan price for a margin check) and the most expensive users
+ */
+async function getLlmUsageMetrics(days: number) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const users = await LlmUsageService.getUsageByUser(
+    getSupabaseAdminClient() as unknown as SupabaseClient,
+    { since }
+  );
+
+  const costInr = users.reduce((sum, user) => sum + user.costInr, 0);
+  const blueprintCount = users.reduce((sum, user) => sum + user.blueprintCount, 0);
+
+  return {
+    windowDays: days,
+    since: since.toISOString(),
+    totals: {
+      userCount: users.length,
+      callCount: users.reduce((sum, user) => sum + user.callCount, 0),
+      blueprintCount,
+      inputTokens: users.reduce((sum, user) => sum + user.inputTokens, 0),
+      outputTokens: users.reduce((sum, user) => sum + user.outputTokens, 0),
+      costUsd: Math.round(users.reduce((sum, user) => sum + user.costUsd, 0) * 10000) / 10000,
+      costInr: Math.round(costInr * 100) / 100,
+      costPerBlueprintInr:
+        blueprintCount > 0 ? Math.round((costInr / blueprintCount) * 100) / 100 : 0,
+    },
+    byTier: LlmUsageService.summarizeByTier(users, days),
+    byUser: [...users].sort((a, b) => b.costInr - a.costInr).slice(0, TOP_LLM_USERS),
+  };
+}
 
 /**
  * GET /api/admin/metrics
  * Fetch system-wide metrics for admin dashboard
  * Requires admin/developer role
+ *
+ * Query Parameters:
+ * - days: Window for LLM usage aggregates (default: 30, max: 365)
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     // Check admin access
     const adminCheck = await checkAdminAccess();
@@ -37,11 +79,24 @@ export async function GET() {
       .select('*', { count: 'exact', head: true })
       .gte('created_at', new Date(new Date().setHours(0, 0, 0, 0)).toISOString());
 
+    const requestedDays = parseInt(request.nextUrl.searchParams.get('days') || '', 10);
+    const days =
+      Number.isFinite(requestedDays) && requestedDays > 0
+        ? Math.min(requestedDays, 365)
+        : DEFAULT_LLM_USAGE_DAYS;
+
+    // Cost data is optional for the dashboard; keep the other metrics if it fails
+    const llmUsage = await getLlmUsageMetrics(days).catch((error) => {
+      console.error('Error fetching LLM usage metrics:', error);
+      return null;
+    });
+
     return NextResponse.json({
       totalUsers: totalUsers || 0,
       activeUsers: activeUsers || 0,
       totalBlueprints: totalBlueprints || 0,
       blueprintsToday: blueprintsToday || 0,
+      llmUsage,
     });
   } catch (error) {
     console.error('Error fetching admin metrics:', error);
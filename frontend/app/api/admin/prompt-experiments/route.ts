@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { PROMPT_REGISTRY } from '@/lib/prompts/registry';
+import { getPromptExperiments } from '@/lib/prompts/experiments';
+import { PromptRunService } from '@/lib/services/promptRunService';
+
+const DEFAULT_WINDOW_DAYS = 30;
+
+/**
+ * GET /api/admin/prompt-experiments
+ * Registered prompt versions, configured experiments and per-version outcomes
+ * (validation failure rate, truncation repairs, user ratings)
+ * Requires admin/developer role
+ *
+ * Query Parameters:
+ * - promptId: Only this prompt
+ * - experimentId: Only runs in this experiment
+ * - days: Window for run stats (default: 30, max: 365)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const requestedDays = parseInt(params.get('days') || '', 10);
+    const days =
+      Number.isFinite(requestedDays) && requestedDays > 0
+        ? Math.min(requestedDays, 365)
+        : DEFAULT_WINDOW_DAYS;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const stats = await PromptRunService.getRunStats(
+      getSupabaseAdminClient() as unknown as SupabaseClient,
+      {
+        promptId: params.get('promptId') || undefined,
+        experimentId: params.get('experimentId') || undefined,
+        since,
+      }
+    );
+
+    const prompts = Object.values(PROMPT_REGISTRY).map((definition) => ({
+      id: definition.id,
+      description: definition.description,
+      defaultVersion: definition.defaultVersion,
+      versions: definition.versions.map(({ version, description }) => ({ version, description })),
+    }));
+
+    return NextResponse.json({
+      windowDays: days,
+      since: since.toISOString(),
+      prompts,
+      experiments: getPromptExperiments(),
+      stats,
+    });
+  } catch (error) {
+    console.error('Error fetching prompt experiments:', error);
+    return NextResponse.json({ error: 'Failed to fetch prompt experiments' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { SectionRatingService, loadSectionGuidance } from '@/lib/services/sectionRatingService';
+
+const DEFAULT_WINDOW_DAYS = 30;
+
+/**
+ * GET /api/admin/section-ratings
+ * Section ratings by section type, with a breakdown per blueprint prompt
+ * version, and the negative guidance currently fed into generation
+ * Requires admin/developer role
+ *
+ * Query Parameters:
+ * - days: Window for rating stats (default: 30, max: 365)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const requestedDays = parseInt(request.nextUrl.searchParams.get('days') || '', 10);
+    const days =
+      Number.isFinite(requestedDays) && requestedDays > 0
+        ? Math.min(requestedDays, 365)
+        : DEFAULT_WINDOW_DAYS;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const supabase = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const [sections, guidance] = await Promise.all([
+      SectionRatingService.getStats(supabase, since),
+      loadSectionGuidance({}, supabase),
+    ]);
+
+    return NextResponse.json({
+      windowDays: days,
+      since: since.toISOString(),
+      sections,
+      guidance,
+    });
+  } catch (error) {
+    console.error('Error fetching section ratings:', error);
+    return NextResponse.json({ error: 'Failed to fetch section ratings' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { SsoService, ssoConnectionUpdateSchema } from '@/lib/services/ssoService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/admin/sso/[id]
+ * Change an SSO connection, e.g. turn enforcement or the connection off.
+ * Leave out oidcClientSecret to keep the stored secret.
+ * Requires admin/developer role
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const parseResult = ssoConnectionUpdateSchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid SSO connection update', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const connection = await SsoService.update(
+      getSupabaseAdminClient() as unknown as SupabaseClient,
+      id,
+      parseResult.data
+    );
+    if (!connection) {
+      return NextResponse.json({ error: 'SSO connection not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ connection });
+  } catch (error) {
+    logger.error('admin.sso.update_error', 'Failed to update SSO connection', {
+      error: (error as Error).message,
+    });
+    const message = error instanceof Error ? error.message : 'Failed to update SSO connection';
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('already has') ? 409 : 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/sso/[id]
+ * Remove an SSO connection. Its users keep their accounts and can reset a
+ * password to sign in without SSO.
+ * Requires admin/developer role
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const removed = await SsoService.remove(
+      getSupabaseAdminClient() as unknown as SupabaseClient,
+      id
+    );
+    if (!removed) {
+      return NextResponse.json({ error: 'SSO connection not found' }, { status: 404 });
+    }
+
+    logger.info('admin.sso.deleted', 'SSO connection deleted', {
+      adminUserId: adminCheck.user?.id,
+      connectionId: id,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('admin.sso.delete_error', 'Failed to delete SSO connection', {
+      error: (error as Error).message,
+    });
+    return NextResponse.json({ error: 'Failed to delete SSO connection' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { SsoService, ssoConnectionInputSchema } from '@/lib/services/ssoService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/sso
+ * All SSO connections (without OIDC client secrets)
+ * Requires admin/developer role
+ */
+export async function GET() {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const connections = await SsoService.list(
+      getSupabaseAdminClient() as unknown as SupabaseClient
+    );
+
+    return NextResponse.json({ connections });
+  } catch (error) {
+    logger.error('admin.sso.list_error', 'Failed to fetch SSO connections', {
+      error: (error as Error).message,
+    });
+    return NextResponse.json({ error: 'Failed to fetch SSO connections' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/sso
+ * Create an SSO connection for an email domain. SAML connections reference a
+ * provider registered with `supabase sso add`; OIDC connections hold the
+ * client registered with the IdP.
+ * Requires admin/developer role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin || !adminCheck.user) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const parseResult = ssoConnectionInputSchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid SSO connection', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const connection = await SsoService.create(
+      getSupabaseAdminClient() as unknown as SupabaseClient,
+      parseResult.data,
+      adminCheck.user.id
+    );
+
+    logger.info('admin.sso.created', 'SSO connection created', {
+      adminUserId: adminCheck.user.id,
+      connectionId: connection.id,
+      protocol: connection.protocol,
+      domain: connection.domain,
+    });
+
+    return NextResponse.json({ connection }, { status: 201 });
+  } catch (error) {
+    logger.error('admin.sso.create_error', 'Failed to create SSO connection', {
+      error: (error as Error).message,
+    });
+    const message = error instanceof Error ? error.message : 'Failed to create SSO connection';
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('already has') ? 409 : 500 }
+    );
+  }
+}
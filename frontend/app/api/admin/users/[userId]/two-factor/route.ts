@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { checkAdminAccess } from '@/lib/auth/adminAuth';
+import { TwoFactorService } from '@/lib/services/twoFactorService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+/**
+ * GET /api/admin/users/[userId]/two-factor
+ * Whether the user has two-factor authentication and how many recovery codes
+ * they have left
+ * Requires admin/developer role
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const { userId } = await params;
+    const supabase = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const [enabled, recoveryCodesRemaining] = await Promise.all([
+      TwoFactorService.isEnabledForUser(supabase, userId),
+      TwoFactorService.countRecoveryCodes(supabase, userId),
+    ]);
+
+    return NextResponse.json({ enabled, recoveryCodesRemaining });
+  } catch (error) {
+    logger.error('admin.two_factor.status_error', 'Failed to fetch two-factor status', {
+      error: (error as Error).message,
+    });
+    return NextResponse.json({ error: 'Failed to fetch two-factor status' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/users/[userId]/two-factor
+ * Remove the user's second factor and recovery codes, for users locked out
+ * of their authenticator app. They sign in with their password and set up
+ * two-factor again.
+ * Requires admin/developer role
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+
+  try {
+    const adminCheck = await checkAdminAccess();
+    if (!adminCheck.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 });
+    }
+
+    const supabase = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const removed = await TwoFactorService.resetFactors(supabase, userId);
+
+    logger.info('admin.two_factor.reset', 'Two-factor authentication reset', {
+      adminUserId: adminCheck.user?.id,
+      targetUserId: userId,
+      removedFactors: removed,
+    });
+
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    logger.error('admin.two_factor.reset_error', 'Failed to reset two-factor authentication', {
+      targetUserId: userId,
+      error: (error as Error).message,
+    });
+    return NextResponse.json(
+      { error: 'Failed to reset two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth/adminAuth';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { LlmUsageService, type UserLlmUsage } from '@/lib/services/llmUsageService';
 
 /**
  * Admin API: List and search users
@@ -15,6 +17,8 @@ import { getSupabaseAdminClient } from '@/lib/supabase/admin';
  * - limit: Results per page (default: 50, max: 100)
  * - sortBy: Sort field (email, created_at, etc.)
  * - sortOrder: Sort order (asc, desc)
+ *
+ * Each user includes `llm_usage`: all-time LLM cost (INR) and cost per blueprint
  */
 export async function GET(request: NextRequest) {
   try {
@@ -161,7 +165,32 @@ export async function GET(request: NextRequest) {
 
     // Apply pagination
     const totalCount = filteredUsers.length;
-    const paginatedUsers = filteredUsers.slice(offset, offset + limit);
+    const pageUsers = filteredUsers.slice(offset, offset + limit);
+
+    // All-time LLM cost for the users on this page
+    let usageByUser = new Map<string, UserLlmUsage>();
+    if (pageUsers.length > 0) {
+      try {
+        const usage = await LlmUsageService.getUsageByUser(supabase as unknown as SupabaseClient, {
+          userIds: pageUsers.map((u) => u.user_id),
+        });
+        usageByUser = new Map(usage.map((u) => [u.userId, u]));
+      } catch (usageError) {
+        console.error('[Admin Users API] Error fetching LLM usage:', usageError);
+      }
+    }
+
+    const paginatedUsers = pageUsers.map((u) => {
+      const usage = usageByUser.get(u.user_id);
+      return {
+        ...u,
+        llm_usage: {
+          total_cost_inr: usage?.costInr ?? 0,
+          cost_per_blueprint_inr: usage?.costPerBlueprintInr ?? 0,
+          blueprint_count: usage?.blueprintCount ?? 0,
+        },
+      };
+    });
 
     console.log('[Admin Users API] Final result:', {
       totalUsersBeforeFilter: allUsers.length,
@@ -0,0 +1,46 @@
+/**
+ * SSO Discovery API Endpoint
+ * Tells the login form whether an email's domain signs in through SSO, and
+ * whether password sign-in is blocked for it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { SsoService } from '@/lib/services/ssoService';
+
+export const dynamic = 'force-dynamic';
+
+interface DiscoverResponse {
+  sso: boolean;
+  enforced: boolean;
+  name?: string;
+}
+
+/**
+ * GET /api/auth/sso/discover?email=
+ */
+export async function GET(req: NextRequest): Promise<NextResponse<DiscoverResponse>> {
+  const email = req.nextUrl.searchParams.get('email') ?? '';
+
+  try {
+    const connection = await SsoService.findByEmail(
+      getSupabaseAdminClient() as unknown as SupabaseClient,
+      email
+    );
+
+    if (!connection) {
+      return NextResponse.json({ sso: false, enforced: false });
+    }
+
+    return NextResponse.json({
+      sso: true,
+      enforced: connection.enforceSso,
+      name: connection.displayName,
+    });
+  } catch (error) {
+    console.error('Error discovering SSO connection:', error);
+    // Fall back to password sign-in; the token hook still enforces SSO
+    return NextResponse.json({ sso: false, enforced: false });
+  }
+}
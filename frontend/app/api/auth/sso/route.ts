@@ -0,0 +1,109 @@
+/**
+ * SSO Sign-In API Endpoint
+ * Starts SP-initiated single sign-on for the connection that owns the
+ * email's domain. SAML goes through Supabase Auth's SSO provider; OIDC runs
+ * the authorization code flow with PKCE against the IdP. Both come back to
+ * /auth/callback.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseServerClient } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { SsoService } from '@/lib/services/ssoService';
+import {
+  OIDC_LOGIN_COOKIE,
+  OIDC_LOGIN_COOKIE_MAX_AGE,
+  buildAuthorizationUrl,
+  createCodeChallenge,
+  createRandomToken,
+  discoverOidcProvider,
+  type OidcLoginState,
+} from '@/lib/auth/oidc';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('auth');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/sso?email=&redirect=
+ * Redirects to the identity provider, or back to /login with an error code
+ */
+export async function GET(req: NextRequest) {
+  const { origin, searchParams } = req.nextUrl;
+  const email = searchParams.get('email') ?? '';
+  const redirect = searchParams.get('redirect');
+
+  const loginUrl = new URL('/login', origin);
+  const fail = (error: string) => {
+    loginUrl.searchParams.set('error', error);
+    if (redirect) loginUrl.searchParams.set('redirect', redirect);
+    return NextResponse.redirect(loginUrl);
+  };
+
+  try {
+    const admin = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const connection = await SsoService.findByEmail(admin, email);
+    if (!connection) {
+      return fail('sso_not_configured');
+    }
+
+    const callbackUrl = new URL('/auth/callback', origin);
+
+    if (connection.protocol === 'saml') {
+      if (redirect) callbackUrl.searchParams.set('redirect', redirect);
+
+      const supabase = await getSupabaseServerClient();
+      const { data, error } = await supabase.auth.signInWithSSO({
+        providerId: connection.samlProviderId!,
+        options: { redirectTo: callbackUrl.toString() },
+      });
+
+      if (error || !data?.url) {
+        logger.error('sso.saml.start_failed', 'Could not start SAML sign-in', {
+          connectionId: connection.id,
+          error: error?.message,
+        });
+        return fail('sso_failed');
+      }
+
+      return NextResponse.redirect(data.url);
+    }
+
+    const metadata = await discoverOidcProvider(connection.oidcIssuer!);
+    const loginState: OidcLoginState = {
+      connectionId: connection.id,
+      state: createRandomToken(),
+      nonce: createRandomToken(),
+      codeVerifier: createRandomToken(48),
+      redirect,
+    };
+
+    const response = NextResponse.redirect(
+      buildAuthorizationUrl(metadata, {
+        clientId: connection.oidcClientId!,
+        redirectUri: callbackUrl.toString(),
+        scopes: connection.oidcScopes,
+        state: loginState.state,
+        nonce: loginState.nonce,
+        codeChallenge: createCodeChallenge(loginState.codeVerifier),
+        loginHint: email,
+      })
+    );
+    response.cookies.set(OIDC_LOGIN_COOKIE, JSON.stringify(loginState), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/auth/callback',
+      maxAge: OIDC_LOGIN_COOKIE_MAX_AGE,
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('sso.start_failed', 'Could not start SSO sign-in', {
+      error: (error as Error).message,
+    });
+    return fail('sso_failed');
+  }
+}
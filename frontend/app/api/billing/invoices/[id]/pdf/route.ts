@@ -0,0 +1,61 @@
+/**
+ * Invoice PDF API Endpoint
+ * Renders one of the caller's GST invoices as a PDF download.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { InvoiceService } from '@/lib/services/invoiceService';
+import { InvoicePDFGenerator } from '@/lib/export/pdfGenerator';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/billing/invoices/[id]/pdf
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const { id: invoiceId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const invoice = await InvoiceService.getForUser(supabase, session.user.id, invoiceId);
+
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const pdf = new InvoicePDFGenerator().generateInvoicePDF(invoice);
+    const filename = `${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`;
+
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    logger.error('billing.invoice_pdf_error', 'Failed to render invoice PDF', {
+      invoiceId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to render invoice' },
+      { status: 500 }
+    );
+  }
+}
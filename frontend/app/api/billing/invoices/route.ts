@@ -0,0 +1,50 @@
+/**
+ * Invoices API Endpoint
+ * Lists the caller's GST invoices, newest first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { InvoiceService, type Invoice } from '@/lib/services/invoiceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+interface InvoiceListResponse {
+  success: boolean;
+  invoices?: Invoice[];
+  total?: number;
+  error?: string;
+}
+
+/**
+ * GET /api/billing/invoices?limit=20&offset=0
+ */
+export async function GET(req: NextRequest): Promise<NextResponse<InvoiceListResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') ?? '20', 10) || 20, 1), 100);
+    const offset = Math.max(parseInt(searchParams.get('offset') ?? '0', 10) || 0, 0);
+
+    const supabase = await getSupabaseServerClient();
+    const { invoices, total } = await InvoiceService.listForUser(supabase, session.user.id, {
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({ success: true, invoices, total });
+  } catch (error) {
+    logger.error('billing.invoices_error', 'Failed to list invoices', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json({ success: false, error: 'Failed to load invoices' }, { status: 500 });
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Billing Profile API Endpoint
+ * Reads and updates the billing details printed on the caller's tax invoices:
+ * legal name, GSTIN, address and GST state. Invoices already issued keep the
+ * details they were issued with.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { InvoiceService, type BillingProfile } from '@/lib/services/invoiceService';
+import { GST_STATE_CODES, isValidGstin } from '@/lib/config/gst';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const BillingProfileSchema = z
+  .object({
+    legalName: z.string().trim().min(1).max(200).nullable(),
+    gstin: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .refine(isValidGstin, 'Invalid GSTIN')
+      .nullable()
+      .or(z.literal('').transform(() => null)),
+    address: z
+      .object({
+        line1: z.string().trim().min(1).max(200),
+        line2: z.string().trim().max(200).nullable().optional(),
+        city: z.string().trim().min(1).max(100),
+        postalCode: z
+          .string()
+          .trim()
+          .regex(/^[1-9][0-9]{5}$/, 'Invalid PIN code'),
+      })
+      .nullable(),
+    stateCode: z
+      .string()
+      .refine((code) => code in GST_STATE_CODES, 'Unknown state code')
+      .nullable(),
+  })
+  .refine((profile) => !profile.gstin || profile.legalName, {
+    message: 'Legal name is required with a GSTIN',
+    path: ['legalName'],
+  });
+
+interface BillingProfileResponse {
+  success: boolean;
+  profile?: BillingProfile;
+  error?: string;
+}
+
+/**
+ * GET /api/billing/profile
+ */
+export async function GET(): Promise<NextResponse<BillingProfileResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const profile = await InvoiceService.getBillingProfile(supabase, session.user.id);
+
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    logger.error('billing.profile_error', 'Failed to load billing profile', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load billing profile' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/billing/profile
+ */
+export async function PUT(req: NextRequest): Promise<NextResponse<BillingProfileResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parseResult = BillingProfileSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid request: ${parseResult.error.issues.map((issue) => issue.message).join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const profile = await InvoiceService.updateBillingProfile(
+      supabase,
+      session.user.id,
+      parseResult.data
+    );
+
+    logger.info('billing.profile_updated', 'Billing profile updated', {
+      userId: session.user.id,
+      registered: Boolean(profile.gstin),
+      stateCode: profile.stateCode,
+    });
+
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    logger.error('billing.profile_update_error', 'Failed to update billing profile', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update billing profile' },
+      { status: 500 }
+    );
+  }
+}
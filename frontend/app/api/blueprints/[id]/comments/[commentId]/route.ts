@@ -0,0 +1,167 @@
+/**
+ * Blueprint Comment API Endpoint
+ * Edits a comment (author only), resolves or reopens a thread (any
+ * collaborator), and deletes a comment (author, or an editor/owner).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { BlueprintCommentService, resolveMentions } from '@/lib/services/blueprintCommentService';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const UpdateCommentSchema = z.union([
+  z.object({ body: z.string().trim().min(1).max(5000) }),
+  z.object({ resolved: z.boolean() }),
+]);
+
+interface CommentResponse {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * PATCH /api/blueprints/[id]/comments/[commentId]
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+): Promise<NextResponse<CommentResponse>> {
+  const { id: blueprintId, commentId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const parseResult = UpdateCommentSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request: provide body or resolved' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const comment = await BlueprintCommentService.getComment(supabase, blueprintId, commentId);
+    if (!comment) {
+      return NextResponse.json({ success: false, error: 'Comment not found' }, { status: 404 });
+    }
+
+    if ('resolved' in parseResult.data) {
+      if (comment.parentId) {
+        return NextResponse.json(
+          { success: false, error: 'Only a thread can be resolved, not a reply' },
+          { status: 400 }
+        );
+      }
+
+      await BlueprintCommentService.setResolved(supabase, commentId, parseResult.data.resolved);
+
+      logger.info('blueprints.comments.resolved', 'Blueprint comment thread updated', {
+        userId,
+        blueprintId,
+        commentId,
+        resolved: parseResult.data.resolved,
+      });
+
+      return NextResponse.json({ success: true });
+    }
+
+    if (comment.authorId !== userId) {
+      return NextResponse.json(
+        { success: false, error: 'Only the author can edit a comment' },
+        { status: 403 }
+      );
+    }
+
+    const collaborators = await BlueprintCommentService.listCollaborators(supabase, blueprintId);
+    const mentions = resolveMentions(parseResult.data.body, collaborators).filter(
+      (id) => id !== userId
+    );
+
+    await BlueprintCommentService.updateComment(
+      supabase,
+      commentId,
+      parseResult.data.body,
+      mentions
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('blueprints.comments.update_error', 'Failed to update blueprint comment', {
+      blueprintId,
+      commentId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update comment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/blueprints/[id]/comments/[commentId]
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+): Promise<NextResponse<CommentResponse>> {
+  const { id: blueprintId, commentId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const supabase = await getSupabaseServerClient();
+
+    const comment = await BlueprintCommentService.getComment(supabase, blueprintId, commentId);
+    if (!comment) {
+      return NextResponse.json({ success: false, error: 'Comment not found' }, { status: 404 });
+    }
+
+    if (comment.authorId !== userId) {
+      const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, userId);
+      if (!canEditWithRole(role)) {
+        return NextResponse.json(
+          { success: false, error: 'You do not have permission to delete this comment' },
+          { status: 403 }
+        );
+      }
+    }
+
+    await BlueprintCommentService.deleteComment(supabase, commentId);
+
+    logger.info('blueprints.comments.deleted', 'Blueprint comment deleted', {
+      userId,
+      blueprintId,
+      commentId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('blueprints.comments.delete_error', 'Failed to delete blueprint comment', {
+      blueprintId,
+      commentId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete comment' },
+      { status: 500 }
+    );
+  }
+}
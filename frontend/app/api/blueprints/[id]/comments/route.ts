@@ -0,0 +1,161 @@
+/**
+ * Blueprint Comments API Endpoint
+ * Lists comment threads on a blueprint and adds comments or replies.
+ * Anyone who can see the blueprint (creator or workspace member, including
+ * viewers) can comment; @mentions are resolved against those collaborators.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  BlueprintCommentService,
+  resolveMentions,
+  type BlueprintCollaborator,
+  type BlueprintComment,
+  type BlueprintCommentThread,
+} from '@/lib/services/blueprintCommentService';
+import { WorkspaceService, type WorkspaceRole } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const CreateCommentSchema = z.object({
+  sectionId: z.string().trim().min(1).max(100),
+  body: z.string().trim().min(1).max(5000),
+  parentId: z.string().uuid().nullish(),
+});
+
+interface CommentListResponse {
+  success: boolean;
+  threads?: BlueprintCommentThread[];
+  collaborators?: BlueprintCollaborator[];
+  shareComments?: boolean;
+  role?: WorkspaceRole;
+  currentUserId?: string;
+  error?: string;
+}
+
+interface CommentCreateResponse {
+  success: boolean;
+  comment?: BlueprintComment;
+  error?: string;
+}
+
+/**
+ * GET /api/blueprints/[id]/comments
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<CommentListResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    const collaborators = await BlueprintCommentService.listCollaborators(supabase, blueprintId);
+    const [threads, shareComments] = await Promise.all([
+      BlueprintCommentService.listThreads(supabase, blueprintId, collaborators),
+      BlueprintCommentService.getShareComments(supabase, blueprintId),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      threads,
+      collaborators,
+      shareComments,
+      role,
+      currentUserId: session.user.id,
+    });
+  } catch (error) {
+    logger.error('blueprints.comments.list_error', 'Failed to list blueprint comments', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json({ success: false, error: 'Failed to load comments' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/blueprints/[id]/comments
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<CommentCreateResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const parseResult = CreateCommentSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request: comment must be 1-5000 characters' },
+        { status: 400 }
+      );
+    }
+
+    const { sectionId, body, parentId } = parseResult.data;
+    const supabase = await getSupabaseServerClient();
+
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, userId);
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    if (parentId) {
+      const parent = await BlueprintCommentService.getComment(supabase, blueprintId, parentId);
+      if (!parent || parent.parentId) {
+        return NextResponse.json({ success: false, error: 'Thread not found' }, { status: 404 });
+      }
+    }
+
+    const collaborators = await BlueprintCommentService.listCollaborators(supabase, blueprintId);
+    const mentions = resolveMentions(body, collaborators).filter((id) => id !== userId);
+
+    const comment = await BlueprintCommentService.createComment(supabase, {
+      blueprintId,
+      sectionId,
+      parentId,
+      authorId: userId,
+      body,
+      mentions,
+    });
+
+    logger.info('blueprints.comments.created', 'Blueprint comment added', {
+      userId,
+      blueprintId,
+      sectionId: comment.sectionId,
+      isReply: Boolean(parentId),
+      mentionCount: mentions.length,
+    });
+
+    return NextResponse.json({ success: true, comment }, { status: 201 });
+  } catch (error) {
+    logger.error('blueprints.comments.create_error', 'Failed to add blueprint comment', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json({ success: false, error: 'Failed to add comment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Blueprint Comment Visibility API Endpoint
+ * Lets the blueprint owner show or hide comment threads on the public share
+ * view. Shared comments are read-only and show author names, not emails.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { BlueprintCommentService } from '@/lib/services/blueprintCommentService';
+import { WorkspaceService } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const VisibilitySchema = z.object({
+  shareComments: z.boolean(),
+});
+
+/**
+ * PATCH /api/blueprints/[id]/comments/visibility
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<{ success: boolean; shareComments?: boolean; error?: string }>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parseResult = VisibilitySchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request: shareComments must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { success: false, error: 'Only the owner can change comment visibility' },
+        { status: 403 }
+      );
+    }
+
+    const { shareComments } = parseResult.data;
+    await BlueprintCommentService.setShareComments(supabase, blueprintId, shareComments);
+
+    logger.info('blueprints.comments.visibility_changed', 'Comment share visibility changed', {
+      userId: session.user.id,
+      blueprintId,
+      shareComments,
+    });
+
+    return NextResponse.json({ success: true, shareComments });
+  } catch (error) {
+    logger.error('blueprints.comments.visibility_error', 'Failed to change comment visibility', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update comment visibility' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Blueprint LMS Package Export API Endpoint
+ * Builds an LMS-ready package (SCORM 1.2/2004, IMS Common Cartridge 1.3 or a
+ * Moodle course backup) from the blueprint's content outline, learning
+ * objectives and assessment KPIs and returns it as a download.
+ * Any workspace member who can view the blueprint can export it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { WorkspaceService } from '@/lib/services/workspaceService';
+import {
+  LMS_EXPORT_FORMATS,
+  buildCourseOutline,
+  isLmsExportFormat,
+  readTargetLms,
+  toSlug,
+  type CourseOutline,
+} from '@/lib/export/lms';
+import type { BlueprintJSON } from '@/components/features/blueprints/types';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/blueprints/[id]/export/[format]
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; format: string }> }
+): Promise<NextResponse> {
+  const { id: blueprintId, format } = await params;
+
+  if (!isLmsExportFormat(format)) {
+    return NextResponse.json(
+      { success: false, error: `Unsupported export format: ${format}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    const { data: blueprint, error } = await supabase
+      .from('blueprint_generator')
+      .select('id, title, blueprint_json, static_answers')
+      .eq('id', blueprintId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading blueprint for export:', error);
+      throw new Error('Failed to load blueprint');
+    }
+
+    if (!blueprint?.blueprint_json) {
+      return NextResponse.json(
+        { success: false, error: 'Blueprint has not been generated yet' },
+        { status: 400 }
+      );
+    }
+
+    let course: CourseOutline;
+    try {
+      course = buildCourseOutline(blueprint.blueprint_json as BlueprintJSON, {
+        blueprintId,
+        title: blueprint.title,
+        targetLms: readTargetLms(blueprint.static_answers),
+      });
+    } catch (outlineError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: outlineError instanceof Error ? outlineError.message : 'Nothing to export',
+        },
+        { status: 400 }
+      );
+    }
+
+    const builder = LMS_EXPORT_FORMATS[format];
+    const archive = await builder.build(course);
+    const filename = `${toSlug(course.title, 60)}-${builder.fileSuffix}`;
+
+    logger.info('blueprints.export.lms', 'LMS package exported', {
+      userId: session.user.id,
+      blueprintId,
+      format,
+      moduleCount: course.modules.length,
+      objectiveCount: course.objectives.length,
+      targetLms: course.targetLms,
+    });
+
+    return new NextResponse(Buffer.from(archive), {
+      status: 200,
+      headers: {
+        'Content-Type': builder.mimeType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    logger.error('blueprints.export.lms.error', 'Failed to export LMS package', {
+      blueprintId,
+      format,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to export package' },
+      { status: 500 }
+    );
+  }
+}
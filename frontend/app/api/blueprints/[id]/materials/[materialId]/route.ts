@@ -0,0 +1,73 @@
+/**
+ * Blueprint Course Material API Endpoint
+ * Removes an uploaded course material together with its extracted text, so
+ * it no longer feeds question or blueprint generation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { CourseMaterialService } from '@/lib/services/courseMaterialService';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/blueprints/[id]/materials/[materialId]
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; materialId: string }> }
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  const { id: blueprintId, materialId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    if (!canEditWithRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'Viewers cannot remove course materials' },
+        { status: 403 }
+      );
+    }
+
+    const deleted = await CourseMaterialService.deleteMaterial(supabase, blueprintId, materialId);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Course material not found' },
+        { status: 404 }
+      );
+    }
+
+    logger.info('blueprints.materials.deleted', 'Course material removed', {
+      userId: session.user.id,
+      blueprintId,
+      materialId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('blueprints.materials.delete_error', 'Failed to remove course material', {
+      blueprintId,
+      materialId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove course material' },
+      { status: 500 }
+    );
+  }
+}
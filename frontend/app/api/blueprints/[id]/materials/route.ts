@@ -0,0 +1,200 @@
+/**
+ * Blueprint Course Materials API Endpoint
+ * Lists the existing course materials attached to a blueprint and accepts new
+ * uploads (PDF, DOCX, PPTX, Markdown). Uploads are processed immediately:
+ * the text is extracted, chunked and summarised, and the file itself is
+ * discarded.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { CourseMaterialService, type CourseMaterial } from '@/lib/services/courseMaterialService';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+import { MAX_MATERIAL_BYTES, detectMaterialKind, processMaterial } from '@/lib/materials';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+// Extraction plus a summary call for a large deck can take a while
+export const maxDuration = 120;
+
+const MAX_MATERIALS_PER_BLUEPRINT = 10;
+
+interface MaterialListResponse {
+  success: boolean;
+  materials?: CourseMaterial[];
+  error?: string;
+}
+
+interface MaterialUploadResponse {
+  success: boolean;
+  material?: CourseMaterial;
+  error?: string;
+}
+
+/**
+ * GET /api/blueprints/[id]/materials
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<MaterialListResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    const materials = await CourseMaterialService.listMaterials(supabase, blueprintId);
+
+    return NextResponse.json({ success: true, materials });
+  } catch (error) {
+    logger.error('blueprints.materials.list_error', 'Failed to list course materials', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load course materials' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/blueprints/[id]/materials
+ * multipart/form-data with a single `file` field
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<MaterialUploadResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const formData = await req.formData().catch(() => null);
+    const file = formData?.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ success: false, error: 'No file uploaded' }, { status: 400 });
+    }
+
+    const kind = detectMaterialKind(file.name, file.type);
+    if (!kind) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Upload a PDF, Word (.docx), PowerPoint (.pptx) or Markdown file',
+        },
+        { status: 415 }
+      );
+    }
+
+    if (file.size === 0 || file.size > MAX_MATERIAL_BYTES) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Files must be non-empty and at most ${MAX_MATERIAL_BYTES / (1024 * 1024)} MB`,
+        },
+        { status: 413 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, userId);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    if (!canEditWithRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'Viewers cannot upload course materials' },
+        { status: 403 }
+      );
+    }
+
+    const existing = await CourseMaterialService.listMaterials(supabase, blueprintId);
+    if (existing.length >= MAX_MATERIALS_PER_BLUEPRINT) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `A blueprint can have at most ${MAX_MATERIALS_PER_BLUEPRINT} course materials`,
+        },
+        { status: 409 }
+      );
+    }
+
+    let processed;
+    try {
+      processed = await processMaterial(new Uint8Array(await file.arrayBuffer()), kind, file.name, {
+        userId,
+        blueprintId,
+        purpose: 'material_summary',
+      });
+    } catch (error) {
+      logger.warn('blueprints.materials.extract_failed', 'Could not read uploaded material', {
+        userId,
+        blueprintId,
+        kind,
+        error: (error as Error).message,
+      });
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Couldn't read any text from ${file.name}. Scanned documents need OCR first.`,
+        },
+        { status: 422 }
+      );
+    }
+
+    const material = await CourseMaterialService.createMaterial(supabase, {
+      blueprintId,
+      uploadedBy: userId,
+      fileName: file.name.slice(0, 255),
+      kind,
+      fileSize: file.size,
+      charCount: processed.text.length,
+      summary: processed.summary,
+      chunks: processed.chunks,
+    });
+
+    logger.info('blueprints.materials.uploaded', 'Course material uploaded', {
+      userId,
+      blueprintId,
+      materialId: material.id,
+      kind,
+      fileSize: file.size,
+      chunkCount: material.chunkCount,
+    });
+
+    return NextResponse.json({ success: true, material }, { status: 201 });
+  } catch (error) {
+    logger.error('blueprints.materials.upload_error', 'Failed to upload course material', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to upload course material' },
+      { status: 500 }
+    );
+  }
+}
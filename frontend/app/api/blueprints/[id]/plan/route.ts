@@ -0,0 +1,213 @@
+/**
+ * Blueprint Implementation Plan API Endpoint
+ * Returns the blueprint's implementation plan with its tasks, logged hours
+ * and the collaborators tasks can be assigned to, and creates the plan from
+ * the blueprint's content outline modules and timeline milestones. Posting
+ * again once the plan exists adds tasks for modules and milestones that were
+ * added since (e.g. after regenerating the blueprint).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+import {
+  BlueprintCommentService,
+  type BlueprintCollaborator,
+} from '@/lib/services/blueprintCommentService';
+import {
+  ImplementationPlanService,
+  buildPlanTasks,
+  formatPlanDate,
+  type ImplementationPlan,
+  type ImplementationTask,
+  type TimeEntry,
+} from '@/lib/services/implementationPlanService';
+import type { BlueprintJSON } from '@/components/features/blueprints/types';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const createPlanSchema = z.object({
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+});
+
+interface PlanResponse {
+  success: boolean;
+  plan?: ImplementationPlan | null;
+  tasks?: ImplementationTask[];
+  timeEntries?: TimeEntry[];
+  collaborators?: BlueprintCollaborator[];
+  canEdit?: boolean;
+  addedTasks?: number;
+  error?: string;
+}
+
+/**
+ * GET /api/blueprints/[id]/plan
+ * plan is null until an editor creates it
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<PlanResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    const plan = await ImplementationPlanService.getPlan(supabase, blueprintId);
+    const [tasks, timeEntries, collaborators] = plan
+      ? await Promise.all([
+          ImplementationPlanService.listTasks(supabase, plan.id),
+          ImplementationPlanService.listTimeEntries(supabase, blueprintId),
+          BlueprintCommentService.listCollaborators(supabase, blueprintId),
+        ])
+      : [[], [], []];
+
+    return NextResponse.json({
+      success: true,
+      plan,
+      tasks,
+      timeEntries,
+      collaborators,
+      canEdit: canEditWithRole(role),
+    });
+  } catch (error) {
+    logger.error('blueprints.plan.load_error', 'Failed to load implementation plan', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load implementation plan' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/blueprints/[id]/plan
+ * Body: { startDate?: 'YYYY-MM-DD' } (defaults to today; ignored when the
+ * plan already exists)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<PlanResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const parseResult = createPlanSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Start date must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, userId);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    if (!canEditWithRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'Viewers cannot change the implementation plan' },
+        { status: 403 }
+      );
+    }
+
+    const { data: blueprint, error } = await supabase
+      .from('blueprint_generator')
+      .select('blueprint_json')
+      .eq('id', blueprintId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading blueprint for implementation plan:', error);
+      throw new Error('Failed to load blueprint');
+    }
+
+    if (!blueprint?.blueprint_json) {
+      return NextResponse.json(
+        { success: false, error: 'Blueprint has not been generated yet' },
+        { status: 400 }
+      );
+    }
+
+    const blueprintJson = blueprint.blueprint_json as BlueprintJSON;
+    const existing = await ImplementationPlanService.getPlan(supabase, blueprintId);
+
+    let plan: ImplementationPlan;
+    let addedTasks: number;
+
+    if (existing) {
+      plan = existing;
+      addedTasks = await ImplementationPlanService.addDraftTasks(
+        supabase,
+        plan,
+        buildPlanTasks(blueprintJson, plan.startDate)
+      );
+    } else {
+      const startDate = parseResult.data.startDate ?? formatPlanDate(Date.now());
+      const drafts = buildPlanTasks(blueprintJson, startDate);
+      plan = await ImplementationPlanService.createPlan(supabase, {
+        blueprintId,
+        createdBy: userId,
+        startDate,
+        tasks: drafts,
+      });
+      addedTasks = drafts.length;
+    }
+
+    logger.info('blueprints.plan.synced', 'Implementation plan created or synced', {
+      userId,
+      blueprintId,
+      planId: plan.id,
+      created: !existing,
+      addedTasks,
+    });
+
+    const tasks = await ImplementationPlanService.listTasks(supabase, plan.id);
+
+    return NextResponse.json(
+      { success: true, plan, tasks, addedTasks },
+      { status: existing ? 200 : 201 }
+    );
+  } catch (error) {
+    logger.error('blueprints.plan.create_error', 'Failed to create implementation plan', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create implementation plan' },
+      { status: 500 }
+    );
+  }
+}
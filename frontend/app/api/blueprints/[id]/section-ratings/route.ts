@@ -0,0 +1,126 @@
+/**
+ * Blueprint Section Ratings API Endpoint
+ * Lists the caller's section ratings on a blueprint and rates a section of
+ * its current version. Anyone who can see the blueprint can rate it; ratings
+ * are stored against the blueprint version and the prompt versions that
+ * generated it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { SectionRatingService, type SectionRating } from '@/lib/services/sectionRatingService';
+import { WorkspaceService } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const RateSectionSchema = z.object({
+  sectionId: z.string().trim().min(1).max(100),
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(2000).nullish(),
+});
+
+interface SectionRatingsResponse {
+  success: boolean;
+  ratings?: SectionRating[];
+  rating?: SectionRating;
+  error?: string;
+}
+
+/**
+ * GET /api/blueprints/[id]/section-ratings
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<SectionRatingsResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    const ratings = await SectionRatingService.listForUser(supabase, blueprintId, session.user.id);
+
+    return NextResponse.json({ success: true, ratings });
+  } catch (error) {
+    logger.error('blueprints.section_ratings.list_error', 'Failed to list section ratings', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json({ success: false, error: 'Failed to load ratings' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/blueprints/[id]/section-ratings
+ * Body: { sectionId, rating: 1-5, comment? }
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<SectionRatingsResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const parseResult = RateSectionSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request: rating must be 1-5 and comment at most 2000 characters',
+        },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, userId);
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    const rating = await SectionRatingService.rate(supabase, {
+      blueprintId,
+      userId,
+      ...parseResult.data,
+    });
+
+    logger.info('blueprints.section_ratings.saved', 'Section rated', {
+      userId,
+      blueprintId,
+      sectionId: rating.sectionId,
+      rating: rating.rating,
+      blueprintVersion: rating.blueprintVersion,
+      hasComment: Boolean(rating.comment),
+    });
+
+    return NextResponse.json({ success: true, rating });
+  } catch (error) {
+    logger.error('blueprints.section_ratings.save_error', 'Failed to save section rating', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json({ success: false, error: 'Failed to save rating' }, { status: 500 });
+  }
+}
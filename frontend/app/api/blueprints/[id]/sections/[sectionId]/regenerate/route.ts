@@ -0,0 +1,192 @@
+/**
+ * Blueprint Section Regeneration API Endpoint
+ * Rewrites one section with Claude from a free-text instruction and saves the
+ * result as a new 'regeneration' version. Charged against the creation limit
+ * at SECTION_REGENERATION_USAGE_RATE.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { createServiceLogger } from '@/lib/logging';
+import { BlueprintUsageService } from '@/lib/services/blueprintUsageService';
+import { buildGenerationContext } from '@/lib/services/blueprintGenerationJobRunner';
+import { sectionRegenerationService } from '@/lib/services/sectionRegenerationService';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const RegenerateSectionSchema = z.object({
+  instruction: z.string().trim().min(1).max(2000),
+});
+
+interface RegenerateSectionResponse {
+  success: boolean;
+  sectionId?: string;
+  section?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * POST /api/blueprints/[id]/sections/[sectionId]/regenerate
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; sectionId: string }> }
+): Promise<NextResponse<RegenerateSectionResponse>> {
+  const { id: blueprintId, sectionId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const parseResult = RegenerateSectionSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request: instruction must be 1-2000 characters' },
+        { status: 400 }
+      );
+    }
+
+    const { instruction } = parseResult.data;
+
+    if (sectionId === 'metadata' || sectionId.startsWith('_')) {
+      return NextResponse.json(
+        { success: false, error: `Section ${sectionId} cannot be regenerated` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, userId);
+    if (role && !canEditWithRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'Viewers cannot regenerate workspace blueprint sections' },
+        { status: 403 }
+      );
+    }
+
+    const { data: blueprint, error: blueprintError } = await supabase
+      .from('blueprint_generator')
+      .select('id, user_id, status, blueprint_json, static_answers, dynamic_answers')
+      .eq('id', blueprintId)
+      .single();
+
+    if (!role || blueprintError || !blueprint) {
+      return NextResponse.json(
+        { success: false, error: 'Blueprint not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const blueprintJson = (blueprint.blueprint_json || {}) as Record<string, unknown>;
+    if (blueprint.status !== 'completed' || !Object.hasOwn(blueprintJson, sectionId)) {
+      return NextResponse.json(
+        { success: false, error: `Section ${sectionId} not found in this blueprint` },
+        { status: 404 }
+      );
+    }
+
+    const allowance = await BlueprintUsageService.canRegenerateSection(supabase, userId);
+    if (!allowance.canRegenerate) {
+      logger.warn('blueprints.regenerate_section.limit_exceeded', 'Regeneration limit exceeded', {
+        userId,
+        blueprintId,
+        sectionId,
+        usedWithRegenerations: allowance.usedWithRegenerations,
+        creationLimit: allowance.creationLimit,
+      });
+
+      return NextResponse.json({ success: false, error: allowance.reason }, { status: 429 });
+    }
+
+    logger.info('blueprints.regenerate_section.request', 'Section regeneration requested', {
+      userId,
+      blueprintId,
+      sectionId,
+    });
+
+    const result = await sectionRegenerationService.regenerate({
+      ...buildGenerationContext(
+        blueprintId,
+        userId,
+        blueprint.static_answers || {},
+        blueprint.dynamic_answers || {}
+      ),
+      sectionId,
+      instruction,
+      blueprint: blueprintJson,
+    });
+
+    if (!result.success || !result.section) {
+      return NextResponse.json(
+        { success: false, error: result.error || 'Section regeneration failed' },
+        { status: 502 }
+      );
+    }
+
+    // Saved atomically; the capture trigger records a 'regeneration' version
+    const { error: updateError } = await supabase.rpc('update_blueprint_section', {
+      p_blueprint_id: blueprintId,
+      p_section_id: sectionId,
+      p_section_data: result.section,
+      p_source: 'regeneration',
+    });
+
+    if (updateError) {
+      logger.error('blueprints.regenerate_section.save_error', 'Failed to save section', {
+        userId,
+        blueprintId,
+        sectionId,
+        error: updateError.message,
+      });
+
+      return NextResponse.json(
+        { success: false, error: 'Failed to save regenerated section' },
+        { status: 500 }
+      );
+    }
+
+    try {
+      await BlueprintUsageService.recordSectionRegeneration(supabase, blueprintId, sectionId);
+    } catch (chargeError) {
+      // The section is already saved; log the missed charge rather than fail
+      logger.error('blueprints.regenerate_section.charge_error', 'Failed to record usage', {
+        userId,
+        blueprintId,
+        sectionId,
+        error: (chargeError as Error).message,
+      });
+    }
+
+    logger.info('blueprints.regenerate_section.success', 'Section regenerated and saved', {
+      userId,
+      blueprintId,
+      sectionId,
+      model: result.metadata.model,
+      duration: result.metadata.duration,
+      inputTokens: result.usage?.input_tokens,
+      outputTokens: result.usage?.output_tokens,
+    });
+
+    return NextResponse.json({ success: true, sectionId, section: result.section });
+  } catch (error) {
+    logger.error('blueprints.regenerate_section.unexpected_error', 'Unexpected error', {
+      blueprintId,
+      sectionId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred while regenerating the section' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Blueprint Share Link API Endpoint
+ * Revokes a share link. The link row and its view log are kept so past
+ * views stay visible; the token simply stops working.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { ShareLinkService } from '@/lib/services/shareLinkService';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/blueprints/[id]/share-links/[linkId]
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  const { id: blueprintId, linkId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    if (!canEditWithRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'Viewers cannot manage share links' },
+        { status: 403 }
+      );
+    }
+
+    const revoked = await ShareLinkService.revokeLink(supabase, blueprintId, linkId);
+    if (!revoked) {
+      return NextResponse.json(
+        { success: false, error: 'Share link not found or already revoked' },
+        { status: 404 }
+      );
+    }
+
+    logger.info('blueprints.share_links.revoked', 'Share link revoked', {
+      userId: session.user.id,
+      blueprintId,
+      linkId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('blueprints.share_links.revoke_error', 'Failed to revoke share link', {
+      blueprintId,
+      linkId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Blueprint Share Link Views API Endpoint
+ * Lists the most recent views of a share link with their referrers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { ShareLinkService, type ShareLinkView } from '@/lib/services/shareLinkService';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/blueprints/[id]/share-links/[linkId]/views
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+): Promise<NextResponse<{ success: boolean; views?: ShareLinkView[]; error?: string }>> {
+  const { id: blueprintId, linkId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    if (!canEditWithRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'Viewers cannot manage share links' },
+        { status: 403 }
+      );
+    }
+
+    const links = await ShareLinkService.listLinks(supabase, blueprintId);
+    if (!links.some((link) => link.id === linkId)) {
+      return NextResponse.json({ success: false, error: 'Share link not found' }, { status: 404 });
+    }
+
+    const views = await ShareLinkService.listViews(supabase, linkId);
+
+    return NextResponse.json({ success: true, views });
+  } catch (error) {
+    logger.error('blueprints.share_links.views_error', 'Failed to list share link views', {
+      blueprintId,
+      linkId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load share link views' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Blueprint Share Links API Endpoint
+ * Lists a blueprint's share links with view counts and creates new links with
+ * an optional label, expiry, password and section allow-list. Only editors
+ * and owners can manage links.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { ShareLinkService, type ShareLink } from '@/lib/services/shareLinkService';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const CreateShareLinkSchema = z.object({
+  label: z.string().trim().max(100).optional(),
+  password: z.string().min(4).max(128).optional(),
+  allowedSections: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  expiresAt: z
+    .string()
+    .datetime({ offset: true })
+    .refine((value) => new Date(value).getTime() > Date.now(), {
+      message: 'Expiry must be in the future',
+    })
+    .optional(),
+});
+
+type ShareLinkWithUrl = ShareLink & { url: string };
+
+interface ShareLinkListResponse {
+  success: boolean;
+  links?: ShareLinkWithUrl[];
+  error?: string;
+}
+
+interface ShareLinkCreateResponse {
+  success: boolean;
+  link?: ShareLinkWithUrl;
+  error?: string;
+}
+
+function withUrl(req: NextRequest, link: ShareLink): ShareLinkWithUrl {
+  return { ...link, url: `${req.nextUrl.origin}/share/${link.token}` };
+}
+
+/**
+ * GET /api/blueprints/[id]/share-links
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ShareLinkListResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    if (!canEditWithRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'Viewers cannot manage share links' },
+        { status: 403 }
+      );
+    }
+
+    const links = await ShareLinkService.listLinks(supabase, blueprintId);
+
+    return NextResponse.json({ success: true, links: links.map((link) => withUrl(req, link)) });
+  } catch (error) {
+    logger.error('blueprints.share_links.list_error', 'Failed to list share links', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load share links' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/blueprints/[id]/share-links
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ShareLinkCreateResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const parseResult = CreateShareLinkSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parseResult.error.issues[0]?.message ?? 'Invalid share link settings',
+        },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, userId);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    if (!canEditWithRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'Viewers cannot manage share links' },
+        { status: 403 }
+      );
+    }
+
+    const { label, password, allowedSections, expiresAt } = parseResult.data;
+    const link = await ShareLinkService.createLink(supabase, {
+      blueprintId,
+      createdBy: userId,
+      label,
+      password,
+      allowedSections,
+      expiresAt,
+    });
+
+    logger.info('blueprints.share_links.created', 'Share link created', {
+      userId,
+      blueprintId,
+      linkId: link.id,
+      hasPassword: link.hasPassword,
+      hasExpiry: Boolean(link.expiresAt),
+      sectionCount: link.allowedSections?.length,
+    });
+
+    return NextResponse.json({ success: true, link: withUrl(req, link) }, { status: 201 });
+  } catch (error) {
+    logger.error('blueprints.share_links.create_error', 'Failed to create share link', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Blueprint Task Export API Endpoint
+ * Exports the blueprint's implementation tasks for project tools: timeline
+ * phases as epics, modules and milestones as stories and learning
+ * activities as sub-tasks, as a Jira CSV, Asana CSV, Trello board JSON or
+ * generic CSV download. Uses the implementation plan when there is one.
+ * Any workspace member who can view the blueprint can export it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { WorkspaceService } from '@/lib/services/workspaceService';
+import {
+  TASK_EXPORT_FORMATS,
+  isTaskExportFormat,
+  loadWorkBreakdown,
+} from '@/lib/export/projectTools';
+import { toSlug } from '@/lib/export/lms';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/blueprints/[id]/task-export/[format]
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; format: string }> }
+): Promise<NextResponse> {
+  const { id: blueprintId, format } = await params;
+
+  if (!isTaskExportFormat(format)) {
+    return NextResponse.json(
+      { success: false, error: `Unsupported export format: ${format}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    const breakdown = await loadWorkBreakdown(supabase, blueprintId);
+    if (!breakdown) {
+      return NextResponse.json(
+        { success: false, error: 'Blueprint has not been generated yet' },
+        { status: 400 }
+      );
+    }
+
+    if (breakdown.items.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'The blueprint has no phases, modules or milestones to export' },
+        { status: 400 }
+      );
+    }
+
+    const builder = TASK_EXPORT_FORMATS[format];
+    const filename = `${toSlug(breakdown.title, 60)}-${builder.fileSuffix}`;
+
+    logger.info('blueprints.export.tasks', 'Implementation tasks exported', {
+      userId: session.user.id,
+      blueprintId,
+      format,
+      itemCount: breakdown.items.length,
+    });
+
+    return new NextResponse(builder.build(breakdown), {
+      status: 200,
+      headers: {
+        'Content-Type': builder.mimeType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    logger.error('blueprints.export.tasks.error', 'Failed to export implementation tasks', {
+      blueprintId,
+      format,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json({ success: false, error: 'Failed to export tasks' }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Blueprint Task Push API Endpoint
+ * Sends the blueprint's implementation tasks as JSON to a REST endpoint the
+ * user configures (an automation webhook or a bridge to their project
+ * tool). Only editors can push, and only to public HTTPS endpoints.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+import { loadWorkBreakdown, pushWorkBreakdown } from '@/lib/export/projectTools';
+import { ExportError } from '@/lib/export/errorHandling';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const pushSchema = z.object({
+  url: z.string().trim().url().max(2000),
+  authorization: z.string().trim().max(2000).nullable().optional(),
+});
+
+interface PushResponse {
+  success: boolean;
+  itemCount?: number;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * POST /api/blueprints/[id]/task-export/push
+ * Body: { url: string, authorization?: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<PushResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parseResult = pushSchema.safeParse(await req.json().catch(() => null));
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Enter a valid endpoint URL' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Blueprint not found' }, { status: 404 });
+    }
+
+    if (!canEditWithRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'Viewers cannot push tasks to other tools' },
+        { status: 403 }
+      );
+    }
+
+    const breakdown = await loadWorkBreakdown(supabase, blueprintId);
+    if (!breakdown) {
+      return NextResponse.json(
+        { success: false, error: 'Blueprint has not been generated yet' },
+        { status: 400 }
+      );
+    }
+
+    const { status } = await pushWorkBreakdown(breakdown, parseResult.data);
+
+    logger.info('blueprints.export.tasks_pushed', 'Implementation tasks pushed', {
+      userId: session.user.id,
+      blueprintId,
+      host: new URL(parseResult.data.url).hostname,
+      itemCount: breakdown.items.length,
+      status,
+    });
+
+    return NextResponse.json({ success: true, itemCount: breakdown.items.length, status });
+  } catch (error) {
+    if (error instanceof ExportError) {
+      logger.warn('blueprints.export.tasks_push_failed', 'Task push rejected or failed', {
+        blueprintId,
+        code: error.code,
+        error: error.message,
+      });
+
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.code === 'ENDPOINT_NOT_ALLOWED' ? 400 : 502 }
+      );
+    }
+
+    logger.error('blueprints.export.tasks_push_error', 'Failed to push implementation tasks', {
+      blueprintId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json({ success: false, error: 'Failed to push tasks' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Blueprint Version Restore API Endpoint
+ * Copies a previous version back onto the blueprint. The restore is itself
+ * recorded as a new version, so it can be undone from the history.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  BlueprintVersionService,
+  type BlueprintVersionSummary,
+} from '@/lib/services/blueprintVersionService';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+interface RestoreResponse {
+  success: boolean;
+  /** null when the blueprint already matches the version */
+  version?: BlueprintVersionSummary | null;
+  error?: string;
+}
+
+/**
+ * POST /api/blueprints/[id]/versions/[versionId]/restore
+ */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+): Promise<NextResponse<RestoreResponse>> {
+  const { id: blueprintId, versionId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const supabase = await getSupabaseServerClient();
+
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, userId);
+    if (!canEditWithRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to restore this blueprint' },
+        { status: role ? 403 : 404 }
+      );
+    }
+
+    // Make sure the version belongs to the blueprint in the URL
+    const target = await BlueprintVersionService.getVersion(supabase, blueprintId, versionId);
+    if (!target) {
+      return NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 });
+    }
+
+    const version = await BlueprintVersionService.restoreVersion(supabase, versionId);
+    if (!version) {
+      return NextResponse.json({ success: true, version: null });
+    }
+
+    logger.info('blueprints.versions.restored', 'Blueprint version restored', {
+      userId,
+      blueprintId,
+      restoredFrom: target.versionNumber,
+      newVersion: version.versionNumber,
+    });
+
+    return NextResponse.json({ success: true, version });
+  } catch (error) {
+    logger.error('blueprints.versions.restore_error', 'Failed to restore blueprint version', {
+      blueprintId,
+      versionId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore version' },
+      { status: 500 }
+    );
+  }
+}
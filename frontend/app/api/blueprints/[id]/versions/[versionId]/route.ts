@@ -0,0 +1,56 @@
+/**
+ * Blueprint Version API Endpoint
+ * Returns a single version including its content snapshot
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  BlueprintVersionService,
+  type BlueprintVersion,
+} from '@/lib/services/blueprintVersionService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+interface VersionResponse {
+  success: boolean;
+  version?: BlueprintVersion;
+  error?: string;
+}
+
+/**
+ * GET /api/blueprints/[id]/versions/[versionId]
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+): Promise<NextResponse<VersionResponse>> {
+  const { id: blueprintId, versionId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const version = await BlueprintVersionService.getVersion(supabase, blueprintId, versionId);
+
+    if (!version) {
+      return NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, version });
+  } catch (error) {
+    logger.error('blueprints.versions.get_error', 'Failed to fetch blueprint version', {
+      blueprintId,
+      versionId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json({ success: false, error: 'Failed to load version' }, { status: 500 });
+  }
+}
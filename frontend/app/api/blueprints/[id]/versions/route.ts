@@ -0,0 +1,54 @@
+/**
+ * Blueprint Version History API Endpoint
+ * Lists the saved versions of a blueprint (metadata only, newest first)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  BlueprintVersionService,
+  type BlueprintVersionSummary,
+} from '@/lib/services/blueprintVersionService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+interface VersionListResponse {
+  success: boolean;
+  versions?: BlueprintVersionSummary[];
+  error?: string;
+}
+
+/**
+ * GET /api/blueprints/[id]/versions
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<VersionListResponse>> {
+  const { id: blueprintId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const versions = await BlueprintVersionService.listVersions(supabase, blueprintId);
+
+    return NextResponse.json({ success: true, versions });
+  } catch (error) {
+    logger.error('blueprints.versions.list_error', 'Failed to list blueprint versions', {
+      blueprintId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load version history' },
+      { status: 500 }
+    );
+  }
+}
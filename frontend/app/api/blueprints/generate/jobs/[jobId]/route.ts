@@ -0,0 +1,44 @@
+/**
+ * Blueprint Generation Job Endpoint
+ * Returns a snapshot of a generation job for polling clients
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  SupabaseGenerationJobStore,
+  type BlueprintGenerationJob,
+} from '@/lib/services/generationJobStore';
+
+interface JobResponse {
+  success: boolean;
+  job?: BlueprintGenerationJob;
+  error?: string;
+}
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+): Promise<NextResponse<JobResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { jobId } = await params;
+    const supabase = await getSupabaseServerClient();
+    const job = await new SupabaseGenerationJobStore(supabase).get(jobId);
+
+    if (!job || job.userId !== session.user.id) {
+      return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: (error as Error).message || 'Failed to fetch job' },
+      { status: 500 }
+    );
+  }
+}
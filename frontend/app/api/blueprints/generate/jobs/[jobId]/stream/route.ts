@@ -0,0 +1,127 @@
+/**
+ * Blueprint Generation Job Stream
+ * Server-Sent Events feed of job progress (WorkflowTracer steps and token counts).
+ * Each `progress` event carries the full job snapshot, so a reconnecting client
+ * (closed tab, EventSource retry) resumes from the current state.
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { SupabaseGenerationJobStore, isTerminalJobStatus } from '@/lib/services/generationJobStore';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+// The stream closes before this limit; EventSource reconnects automatically
+export const maxDuration = 300;
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 1000;
+const MAX_STREAM_MS = 280 * 1000;
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+): Promise<Response> {
+  const { session } = await getServerSession();
+  if (!session?.user?.id) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { jobId } = await params;
+  const supabase = await getSupabaseServerClient();
+  const store = new SupabaseGenerationJobStore(supabase);
+
+  const initial = await store.get(jobId).catch(() => null);
+  if (!initial || initial.userId !== session.user.id) {
+    return new Response('Job not found', { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+
+  // Set once the client goes away (abort or cancel) or the stream finishes
+  let closed = false;
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  let wake: (() => void) | undefined;
+
+  const stopPolling = () => {
+    closed = true;
+    clearTimeout(pollTimer);
+    wake?.();
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastUpdatedAt = '';
+
+      const close = () => {
+        if (closed) return;
+        stopPolling();
+        try {
+          controller.close();
+        } catch {
+          // Already closed or errored by the runtime after a disconnect
+        }
+      };
+
+      req.signal.addEventListener('abort', close);
+
+      const send = (event: string, data: unknown, id?: string) => {
+        if (closed) return;
+        const idLine = id ? `id: ${id}\n` : '';
+        controller.enqueue(
+          encoder.encode(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      let job = initial;
+      while (!closed) {
+        if (job.updatedAt !== lastUpdatedAt) {
+          lastUpdatedAt = job.updatedAt;
+          send('progress', job, String(job.steps.length));
+        }
+
+        if (isTerminalJobStatus(job.status)) {
+          send('done', { status: job.status, error: job.error });
+          break;
+        }
+
+        if (Date.now() - startedAt > MAX_STREAM_MS) {
+          break;
+        }
+
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+          pollTimer = setTimeout(resolve, POLL_INTERVAL_MS);
+        });
+        if (closed) break;
+
+        try {
+          const next = await store.get(jobId);
+          if (!next) break;
+          job = next;
+        } catch (error) {
+          logger.warn('blueprints.generate.stream_poll_failed', 'Failed to poll generation job', {
+            jobId,
+            error: (error as Error).message,
+          });
+        }
+      }
+
+      close();
+      req.signal.removeEventListener('abort', close);
+    },
+    cancel() {
+      stopPolling();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
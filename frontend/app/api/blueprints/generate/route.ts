@@ -1,24 +1,44 @@
 /**
  * Blueprint Generation API Endpoint
- * Main endpoint for generating learning blueprints using Claude Sonnet 4 → Opus 4 → Ollama cascade
+ * Queues an asynchronous generation job; progress is streamed from
+ * /api/blueprints/generate/jobs/[jobId]/stream (SSE) or polled from /api/blueprints/generate/jobs/[jobId]
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { getServerSession } from '@/lib/supabase/server';
 import { getSupabaseServerClient } from '@/lib/supabase/server';
-import { blueprintGenerationService } from '@/lib/services/blueprintGenerationService';
-import { extractLearningObjectives } from '@/lib/claude/prompts';
-import { convertBlueprintToMarkdown } from '@/lib/services/blueprintMarkdownConverter';
 import { createServiceLogger } from '@/lib/logging';
 import { BlueprintUsageService } from '@/lib/services/blueprintUsageService';
+import { runBlueprintGenerationJob } from '@/lib/services/blueprintGenerationJobRunner';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import {
+  ActiveGenerationJobError,
+  SupabaseGenerationJobStore,
+  isStaleJob,
+  isTerminalJobStatus,
+  type GenerationJobStatus,
+  type GenerationJobStore,
+} from '@/lib/services/generationJobStore';
+import { generationWorker } from '@/lib/queue/generationWorker';
 
 const logger = createServiceLogger('api');
 
-// Allow up to ~13.3 minutes (800 seconds) for complex blueprint generation
+// The job runs in after() once the 202 response is sent, so the function still needs
+// up to ~13.3 minutes (800 seconds) for complex blueprint generation.
 // Note: On Vercel, this requires Pro or Enterprise plan (max 800s for Pro plan)
 export const maxDuration = 800;
 
+/**
+ * Hand the job to the in-process worker once the response has been sent
+ */
+function scheduleJob(jobId: string, supabase: SupabaseClient, store: GenerationJobStore): void {
+  after(() =>
+    generationWorker.enqueue(jobId, () => runBlueprintGenerationJob(jobId, { supabase, store }))
+  );
+}
+
 const GenerateRequestSchema = z.object({
   blueprintId: z.string().uuid(),
 });
@@ -26,6 +46,8 @@ const GenerateRequestSchema = z.object({
 export interface GenerateBlueprintAPIResponse {
   success: boolean;
   blueprintId?: string;
+  jobId?: string;
+  status?: GenerationJobStatus;
   metadata?: {
     model: string;
     duration: number;
@@ -38,7 +60,8 @@ export interface GenerateBlueprintAPIResponse {
 
 /**
  * POST /api/blueprints/generate
- * Generate a learning blueprint from completed questionnaires
+ * Queue generation of a learning blueprint from completed questionnaires.
+ * Idempotent: returns the in-flight job for the blueprint if one exists.
  */
 export async function POST(req: NextRequest): Promise<NextResponse<GenerateBlueprintAPIResponse>> {
   const startTime = Date.now();
@@ -193,205 +216,89 @@ export async function POST(req: NextRequest): Promise<NextResponse<GenerateBluep
       // Continue with generation if we can't check limits (fallback behavior)
     }
 
-    // Update status to generating
-    await supabase
-      .from('blueprint_generator')
-      .update({ status: 'generating' })
-      .eq('id', blueprintId)
-      .eq('user_id', userId);
-
-    // Build context for generation
-    const staticAnswers = blueprint.static_answers as Record<string, unknown>;
-    const dynamicAnswers = blueprint.dynamic_answers as Record<string, unknown>;
-
-    const getNestedValue = (obj: Record<string, unknown>, path: string[]): string => {
-      let current: unknown = obj;
-      for (const key of path) {
-        if (current && typeof current === 'object' && key in current) {
-          current = (current as Record<string, unknown>)[key];
-        } else {
-          return '';
-        }
-      }
-      return typeof current === 'string' ? current : '';
-    };
-
-    // Check if V2.0 format (3-section)
-    const isV20 =
-      staticAnswers.section_1_role_experience &&
-      staticAnswers.section_2_organization &&
-      staticAnswers.section_3_learning_gap;
-
-    let organization: string;
-    let role: string;
-    let industry: string;
-
-    if (isV20) {
-      // V2.0 (3-section) format
-      const roleData = staticAnswers.section_1_role_experience as Record<string, unknown>;
-      const orgData = staticAnswers.section_2_organization as Record<string, unknown>;
-
-      role = (roleData?.current_role as string) || (roleData?.custom_role as string) || 'Manager';
-      organization = (orgData?.organization_name as string) || 'Organization';
-      industry = (orgData?.industry_sector as string) || 'General';
-    } else {
-      // Legacy V2 (8-section) format
-      organization =
-        getNestedValue(staticAnswers, ['organization', 'name']) ||
-        (typeof staticAnswers?.organization === 'string' ? staticAnswers.organization : '') ||
-        'Organization';
-      role = (typeof staticAnswers?.role === 'string' ? staticAnswers.role : '') || 'Manager';
-      industry =
-        getNestedValue(staticAnswers, ['organization', 'industry']) ||
-        (typeof staticAnswers?.industry === 'string' ? staticAnswers.industry : '') ||
-        'General';
-    }
-
-    // Log the answer counts for debugging
-    logger.info('blueprints.generate.context_building', 'Building generation context', {
-      blueprintId,
-      staticAnswerKeys: Object.keys(staticAnswers).length,
-      dynamicAnswerKeys: Object.keys(dynamicAnswers).length,
-      staticAnswerSample: Object.keys(staticAnswers).slice(0, 5),
-      dynamicAnswerSample: Object.keys(dynamicAnswers).slice(0, 5),
-      isV20Format: isV20,
-    });
-
-    const learningObjectives = extractLearningObjectives(dynamicAnswers);
-
-    const context = {
-      blueprintId,
-      userId,
-      staticAnswers,
-      dynamicAnswers,
-      organization,
-      role,
-      industry,
-      learningObjectives,
-    };
-
-    // Log extracted context
-    logger.info('blueprints.generate.context_ready', 'Context built successfully', {
-      blueprintId,
-      organization,
-      role,
-      industry,
-      learningObjectivesCount: learningObjectives.length,
-      learningObjectivesSample: learningObjectives.slice(0, 2),
-    });
+    // Job rows are written with the service role only, so a client can't mark
+    // its own job as succeeded
+    const store = new SupabaseGenerationJobStore(
+      getSupabaseAdminClient() as unknown as SupabaseClient
+    );
 
-    // Generate blueprint using orchestrator service
-    const result = await blueprintGenerationService.generate(context);
+    // Re-attach to an in-flight job instead of starting a second generation
+    let job = await store.findLatestForBlueprint(blueprintId);
 
-    if (!result.success) {
-      logger.error('blueprints.generate.generation_failed', 'Generation failed', {
+    if (job && !isTerminalJobStatus(job.status) && !isStaleJob(job)) {
+      logger.info('blueprints.generate.job_reattached', 'Returning in-flight generation job', {
         blueprintId,
         userId,
-        error: result.error,
+        jobId: job.id,
+        status: job.status,
       });
 
-      // Update status to error
-      await supabase
-        .from('blueprint_generator')
-        .update({ status: 'error' })
-        .eq('id', blueprintId)
-        .eq('user_id', userId);
+      if (job.status === 'queued' && !generationWorker.isRunning(job.id)) {
+        scheduleJob(job.id, supabase, store);
+      }
 
       return NextResponse.json(
-        {
-          success: false,
-          error: result.error || 'Blueprint generation failed',
-        },
-        { status: 500 }
+        { success: true, blueprintId, jobId: job.id, status: job.status },
+        { status: 202 }
       );
     }
 
-    // Convert blueprint to comprehensive markdown
-    const markdown = convertBlueprintToMarkdown(result.blueprint);
-
-    // Extract title from generated blueprint metadata
-    const generatedTitle =
-      result.blueprint.metadata?.title || `Blueprint ${blueprintId.slice(0, 8)}`;
+    try {
+      if (job && job.status !== 'succeeded') {
+        // Retry a failed or abandoned job in place so its attempt count carries over
+        job = await store.update(job.id, {
+          status: 'queued',
+          error: isStaleJob(job) ? 'Worker stopped responding; retrying' : null,
+          completedAt: null,
+        });
+      } else {
+        job = await store.create(blueprintId, userId);
+      }
+    } catch (error) {
+      if (!(error instanceof ActiveGenerationJobError)) {
+        throw error;
+      }
 
-    // Save to database
-    const { error: saveError } = await supabase
-      .from('blueprint_generator')
-      .update({
-        blueprint_json: {
-          ...result.blueprint,
-          _generation_metadata: result.metadata,
-        },
-        blueprint_markdown: markdown,
-        status: 'completed',
-        title: generatedTitle,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', blueprintId)
-      .eq('user_id', userId);
+      // A concurrent request queued the job first; it schedules the run
+      const active = await store.findLatestForBlueprint(blueprintId);
+      if (!active) {
+        throw error;
+      }
 
-    if (saveError) {
-      logger.error('blueprints.generate.save_failed', 'Failed to save generated blueprint', {
+      logger.info('blueprints.generate.job_reattached', 'Returning in-flight generation job', {
         blueprintId,
         userId,
-        error: saveError.message,
+        jobId: active.id,
+        status: active.status,
       });
 
       return NextResponse.json(
-        {
-          success: false,
-          error: 'Generated blueprint but failed to save to database',
-        },
-        { status: 500 }
+        { success: true, blueprintId, jobId: active.id, status: active.status },
+        { status: 202 }
       );
     }
 
-    // Increment blueprint saving count after successful save
-    try {
-      const savingIncrementResult = await BlueprintUsageService.incrementSavingCount(
-        supabase,
-        userId
-      );
-      logger.info(
-        'blueprints.generate.saving_count_incremented',
-        'Blueprint saving count incremented',
-        {
-          blueprintId,
-          userId,
-          incrementResult: savingIncrementResult,
-        }
-      );
-      console.log('Saving count increment result:', savingIncrementResult, 'for user:', userId);
-    } catch (error) {
-      logger.error(
-        'blueprints.generate.saving_count_error',
-        'Error incrementing blueprint saving count',
-        {
-          blueprintId,
-          userId,
-          error: (error as Error).message,
-        }
-      );
-      // Don't fail the generation if counting fails
-    }
+    // Update status to generating
+    await supabase
+      .from('blueprint_generator')
+      .update({ status: 'generating' })
+      .eq('id', blueprintId)
+      .eq('user_id', userId);
 
-    const duration = Date.now() - startTime;
+    scheduleJob(job.id, supabase, store);
 
-    logger.info('blueprints.generate.success', 'Blueprint generated successfully', {
+    logger.info('blueprints.generate.job_queued', 'Generation job queued', {
       blueprintId,
       userId,
-      model: result.metadata.model,
-      duration,
-      fallbackUsed: result.metadata.fallbackUsed,
+      jobId: job.id,
+      attemptNumber: job.attempts + 1,
+      duration: Date.now() - startTime,
     });
 
-    return NextResponse.json({
-      success: true,
-      blueprintId,
-      metadata: {
-        ...result.metadata,
-        duration, // Total duration including DB save
-      },
-    });
+    return NextResponse.json(
+      { success: true, blueprintId, jobId: job.id, status: job.status },
+      { status: 202 }
+    );
   } catch (error) {
     const duration = Date.now() - startTime;
 
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { BlueprintCommentService } from '@/lib/services/blueprintCommentService';
+import { authorizeShareRequest } from '@/lib/auth/shareAccess';
+
+/**
+ * GET /api/blueprints/share/[token]/comments
+ *
+ * Public endpoint for comment threads on a shared blueprint.
+ * The share link is checked the same way as the blueprint itself (revocation,
+ * expiry, x-share-password header). Returns an empty list unless the owner
+ * enabled comments on the share view, and leaves out threads on sections the
+ * link hides. Author emails and user IDs are never included.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+
+    if (!token) {
+      return NextResponse.json({ error: 'Share token is required' }, { status: 400 });
+    }
+
+    const access = await authorizeShareRequest(req, token);
+    if ('response' in access) {
+      return access.response;
+    }
+
+    const threads = await BlueprintCommentService.listSharedThreads(
+      getSupabaseAdminClient(),
+      token
+    );
+
+    return NextResponse.json({ success: true, threads });
+  } catch (error) {
+    console.error('Error fetching shared blueprint comments:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
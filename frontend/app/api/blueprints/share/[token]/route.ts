@@ -1,15 +1,24 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import type { Database } from '@/types/supabase';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { ShareLinkService, filterSharedBlueprint } from '@/lib/services/shareLinkService';
+import { authorizeShareRequest } from '@/lib/auth/shareAccess';
+import { NotificationService } from '@/lib/services/notificationService';
+import { isShareViewMilestone } from '@/lib/notifications/types';
 
 /**
  * GET /api/blueprints/share/[token]
  *
- * Public endpoint to fetch a blueprint by its share token.
- * No authentication required - uses anon key with RLS policy.
+ * Public endpoint to fetch a blueprint by a share link token.
+ * No authentication required. The link is checked for revocation, expiry and
+ * password (x-share-password header) before any data is read with the service
+ * role client, and each successful view is logged with the visitor's referrer
+ * (x-share-referrer header, since the request itself comes from our page).
+ * The blueprint owner is notified of the first view and of view milestones
+ * once the response is sent.
  *
  * Returns only the data needed for the public analytics dashboard:
- * - blueprint_json
+ * - blueprint_json (limited to the link's allowed sections)
+ * - blueprint_markdown (only when all sections are shared)
  * - title
  * - created_at
  *
@@ -27,19 +36,19 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ toke
       return NextResponse.json({ error: 'Share token is required' }, { status: 400 });
     }
 
-    // Create Supabase client with anon key for public access
-    // This uses the RLS policy "Public can view shared blueprints"
-    const supabase = createClient<Database>(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    );
+    const access = await authorizeShareRequest(req, token);
+    if ('response' in access) {
+      return access.response;
+    }
+
+    const { link } = access;
+    const supabase = getSupabaseAdminClient();
 
-    // Fetch blueprint by share token
-    // RLS policy will ensure only blueprints with share_token can be accessed
     const { data: blueprint, error: fetchError } = await supabase
       .from('blueprint_generator')
-      .select('id, blueprint_json, blueprint_markdown, title, created_at')
-      .eq('share_token', token)
+      .select('id, user_id, blueprint_json, blueprint_markdown, title, created_at')
+      .eq('id', link.blueprintId)
+      .is('deleted_at', null)
       .single();
 
     if (fetchError || !blueprint) {
@@ -56,6 +65,39 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ toke
       return NextResponse.json({ error: 'Blueprint is not ready for sharing' }, { status: 404 });
     }
 
+    try {
+      await ShareLinkService.recordView(supabase, link.id, {
+        referrer: req.headers.get('x-share-referrer'),
+        userAgent: req.headers.get('user-agent'),
+      });
+    } catch (error) {
+      // A failed log entry should not block the viewer
+      console.error('Error logging share link view:', error);
+    }
+
+    const viewCount = link.viewCount + 1;
+    if (isShareViewMilestone(viewCount)) {
+      // The notification may send an email, so the viewer doesn't wait on it
+      after(async () => {
+        try {
+          await NotificationService.notify(supabase, {
+            userId: blueprint.user_id,
+            type: 'share_link_viewed',
+            data: {
+              blueprintId: blueprint.id,
+              blueprintTitle: blueprint.title || 'Untitled blueprint',
+              linkId: link.id,
+              linkLabel: link.label,
+              viewCount,
+            },
+            dedupeKey: `share-view:${link.id}:${viewCount}`,
+          });
+        } catch (error) {
+          console.error('Error sending share link view notification:', error);
+        }
+      });
+    }
+
     // Return only public-safe data
     return NextResponse.json({
       success: true,
@@ -63,8 +105,12 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ toke
         id: blueprint.id,
         title: blueprint.title,
         created_at: blueprint.created_at,
-        blueprint_json: blueprint.blueprint_json,
-        blueprint_markdown: blueprint.blueprint_markdown,
+        blueprint_json: filterSharedBlueprint(
+          blueprint.blueprint_json as Record<string, unknown>,
+          link.allowedSections
+        ),
+        // The markdown can't be filtered by section, so it is only shared in full
+        blueprint_markdown: link.allowedSections ? null : blueprint.blueprint_markdown,
       },
     });
   } catch (error) {
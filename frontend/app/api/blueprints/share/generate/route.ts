@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient } from '@/lib/supabase/server';
+import { ShareLinkService } from '@/lib/services/shareLinkService';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+import { getVerifiedUser } from '@/lib/auth/twoFactor';
 
 /**
  * POST /api/blueprints/share/generate
  *
- * Generates or retrieves a share token for a blueprint.
- * Requires authentication - only the blueprint owner can generate share links.
+ * Returns the blueprint's open share link (no password, expiry or section
+ * limits), creating one if needed. Links with those settings are managed via
+ * /api/blueprints/[id]/share-links.
+ * Requires authentication - only editors and owners can generate share links.
  *
  * Request body:
  * {
@@ -27,7 +32,7 @@ export async function POST(req: NextRequest) {
     const {
       data: { user },
       error: authError,
-    } = await supabase.auth.getUser();
+    } = await getVerifiedUser(supabase);
 
     if (authError || !user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -39,54 +44,20 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Blueprint ID is required' }, { status: 400 });
     }
 
-    // Verify user owns this blueprint
-    const { data: blueprint, error: fetchError } = await supabase
-      .from('blueprint_generator')
-      .select('id, share_token, user_id')
-      .eq('id', blueprintId)
-      .eq('user_id', user.id)
-      .single();
-
-    if (fetchError || !blueprint) {
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, user.id);
+    if (!canEditWithRole(role)) {
       return NextResponse.json({ error: 'Blueprint not found or access denied' }, { status: 404 });
     }
 
-    // If share_token already exists, return it
-    if (blueprint.share_token) {
-      const shareUrl = `${req.nextUrl.origin}/share/${blueprint.share_token}`;
-
-      return NextResponse.json({
-        success: true,
-        shareToken: blueprint.share_token,
-        shareUrl,
-      });
-    }
-
-    // Generate new share token using database function
-    const { data: tokenData, error: tokenError } = await supabase.rpc('generate_share_token');
-
-    if (tokenError || !tokenData) {
-      return NextResponse.json({ error: 'Failed to generate share token' }, { status: 500 });
-    }
-
-    const newToken = tokenData as string;
-
-    // Update blueprint with new share token
-    const { error: updateError } = await supabase
-      .from('blueprint_generator')
-      .update({ share_token: newToken })
-      .eq('id', blueprintId)
-      .eq('user_id', user.id);
-
-    if (updateError) {
-      return NextResponse.json({ error: 'Failed to save share token' }, { status: 500 });
-    }
+    const link =
+      (await ShareLinkService.findOpenLink(supabase, blueprintId)) ??
+      (await ShareLinkService.createLink(supabase, { blueprintId, createdBy: user.id }));
 
-    const shareUrl = `${req.nextUrl.origin}/share/${newToken}`;
+    const shareUrl = `${req.nextUrl.origin}/share/${link.token}`;
 
     return NextResponse.json({
       success: true,
-      shareToken: newToken,
+      shareToken: link.token,
       shareUrl,
     });
   } catch (error) {
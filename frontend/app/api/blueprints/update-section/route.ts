@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from '@/lib/supabase/server';
 import { getSupabaseServerClient } from '@/lib/supabase/server';
 import { createServiceLogger } from '@/lib/logging';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
 
 const logger = createServiceLogger('api');
 
@@ -69,19 +70,14 @@ export async function PATCH(req: NextRequest): Promise<NextResponse> {
 
     const supabase = await getSupabaseServerClient();
 
-    // First, verify the blueprint exists and belongs to the user
-    const { data: blueprint, error: fetchError } = await supabase
-      .from('blueprint_generator')
-      .select('id, user_id, blueprint_json')
-      .eq('id', blueprintId)
-      .eq('user_id', userId)
-      .single();
+    // Verify the blueprint exists and the user may edit it (creator, or a
+    // workspace editor/owner)
+    const role = await WorkspaceService.getBlueprintRole(supabase, blueprintId, userId);
 
-    if (fetchError || !blueprint) {
+    if (!role) {
       logger.warn('blueprints.update_section.not_found', 'Blueprint not found or unauthorized', {
         userId,
         blueprintId,
-        error: fetchError?.message,
       });
 
       return NextResponse.json(
@@ -93,22 +89,23 @@ export async function PATCH(req: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // Update the specific section in the blueprint_json
-    const currentBlueprintJson = blueprint.blueprint_json as Record<string, unknown>;
-    const updatedBlueprintJson = {
-      ...currentBlueprintJson,
-      [sectionId]: sectionData,
-    };
-
-    // Update the blueprint with the new section data
-    const { error: updateError } = await supabase
-      .from('blueprint_generator')
-      .update({
-        blueprint_json: updatedBlueprintJson,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', blueprintId)
-      .eq('user_id', userId);
+    if (!canEditWithRole(role)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Viewers cannot edit workspace blueprints',
+        },
+        { status: 403 }
+      );
+    }
+
+    // Replace the section atomically; the change is captured as a new blueprint version
+    const { error: updateError } = await supabase.rpc('update_blueprint_section', {
+      p_blueprint_id: blueprintId,
+      p_section_id: sectionId,
+      p_section_data: sectionData,
+      p_source: 'edit',
+    });
 
     if (updateError) {
       console.error('[PATCH /api/blueprints/update-section] Update error:', updateError);
@@ -10,6 +10,7 @@ import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { createServiceLogger } from '@/lib/logging';
 import { validateCompleteAnswers, type Section } from '@/lib/validation/dynamicQuestionSchemas';
+import { getVerifiedUser } from '@/lib/auth/twoFactor';
 
 const logger = createServiceLogger('api');
 const dbLogger = createServiceLogger('database');
@@ -60,7 +61,7 @@ export async function POST(request: NextRequest): Promise<Response> {
     const {
       data: { user },
       error: authError,
-    } = await supabase.auth.getUser();
+    } = await getVerifiedUser(supabase);
 
     if (authError || !user) {
       logger.warn('api.auth.failure', 'Unauthorized submission attempt', {
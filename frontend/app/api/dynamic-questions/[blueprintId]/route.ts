@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { createServiceLogger } from '@/lib/logging';
+import { getVerifiedUser } from '@/lib/auth/twoFactor';
 
 const logger = createServiceLogger('api');
 const dbLogger = createServiceLogger('database');
@@ -48,7 +49,7 @@ export async function GET(
     const {
       data: { user },
       error: authError,
-    } = await supabase.auth.getUser();
+    } = await getVerifiedUser(supabase);
 
     if (authError || !user) {
       logger.warn('api.auth.failure', 'Unauthorized access attempt', {
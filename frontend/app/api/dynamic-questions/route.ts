@@ -1,6 +1,6 @@
 /**
  * Dynamic Questions API Endpoint
- * Generates dynamic questions using Perplexity (primary) with OpenAI fallback
+ * Generates dynamic questions through the provider gateway (Claude with Ollama fallback)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -8,7 +8,10 @@ import { z } from 'zod';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { generateDynamicQuestionsV2 } from '@/src/lib/services/dynamicQuestionGenerationV2';
+import { CourseMaterialService } from '@/lib/services/courseMaterialService';
+import type { CourseMaterialsContext } from '@/lib/materials/context';
 import { createServiceLogger } from '@/lib/logging';
+import { getVerifiedUser } from '@/lib/auth/twoFactor';
 
 const logger = createServiceLogger('api');
 
@@ -69,7 +72,7 @@ export async function POST(request: NextRequest): Promise<Response> {
     const {
       data: { user },
       error: authError,
-    } = await supabase.auth.getUser();
+    } = await getVerifiedUser(supabase);
 
     if (authError || !user) {
       logger.warn('api.auth.failure', 'Unauthorized access attempt', {
@@ -193,14 +196,33 @@ export async function POST(request: NextRequest): Promise<Response> {
       .eq('id', blueprintId);
     console.log('✓ Status updated');
 
+    // Existing course materials feed the prompt for adapt/hybrid content strategies
+    let materials: CourseMaterialsContext | null = null;
+    try {
+      materials = await CourseMaterialService.getPromptContext(supabase, blueprintId, {
+        staticAnswers: finalStaticAnswers,
+      });
+    } catch (materialsError) {
+      logger.warn('api.materials.unavailable', 'Generating without course materials', {
+        blueprintId,
+        requestId,
+        error: (materialsError as Error).message,
+      });
+    }
+
     console.log('\n🤖 Calling generateDynamicQuestionsV2...');
-    console.log('→ Will attempt Perplexity first, then OpenAI fallback');
+    console.log('→ Routing through provider gateway (Sonnet → Opus → Ollama)');
     console.log('→ Using personalized prompts from static answers');
 
     // Generate dynamic questions using V2 service (returns sections directly, not wrapped in success)
     let result;
     try {
-      result = await generateDynamicQuestionsV2(blueprintId, finalStaticAnswers);
+      result = await generateDynamicQuestionsV2(
+        blueprintId,
+        finalStaticAnswers,
+        materials,
+        user.id
+      );
       console.log('\n✅ Generation completed successfully!');
     } catch (genError) {
       console.error(
@@ -373,7 +395,7 @@ export async function GET(request: NextRequest): Promise<Response> {
     const {
       data: { user },
       error: authError,
-    } = await supabase.auth.getUser();
+    } = await getVerifiedUser(supabase);
 
     if (authError || !user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
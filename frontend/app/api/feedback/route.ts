@@ -0,0 +1,110 @@
+/**
+ * Feedback API Endpoint
+ * Submitting feedback from the in-app widget, and the caller's own reports
+ * with replies and status updates from the support team.
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { createFeedbackRequestSchema } from '@/lib/schemas/feedback';
+import { FeedbackService } from '@/lib/services/feedbackService';
+import { tagFeedbackSubmission } from '@/lib/services/feedbackTaggingService';
+import { RATE_LIMIT_CONFIGS, rateLimitMiddleware } from '@/lib/middleware/rateLimiting';
+import { createServiceLogger } from '@/lib/logging';
+import type { FeedbackSubmission } from '@/lib/types/feedback';
+
+const logger = createServiceLogger('feedback');
+
+export const dynamic = 'force-dynamic';
+
+const feedbackSubmissionRateLimit = rateLimitMiddleware(RATE_LIMIT_CONFIGS.FEEDBACK_SUBMISSION);
+
+interface FeedbackResponseBody {
+  success: boolean;
+  feedback?: FeedbackSubmission;
+  reports?: FeedbackSubmission[];
+  error?: string;
+  details?: unknown;
+}
+
+/**
+ * GET /api/feedback
+ * The caller's reports, newest first, without internal notes
+ */
+export async function GET(): Promise<NextResponse<FeedbackResponseBody>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const reports = await FeedbackService.listForReporter(supabase, session.user.id);
+
+    return NextResponse.json({ success: true, reports });
+  } catch (error) {
+    logger.error('feedback.list_error', 'Failed to list feedback reports', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load your reports' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/feedback
+ * Body: { feedback_type_id, title, description?, page_url?, browser_info?, error_details? }
+ * The submission is tagged by the AI once the response has been sent.
+ */
+export async function POST(req: NextRequest): Promise<NextResponse<FeedbackResponseBody>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rateLimitResult = await feedbackSubmissionRateLimit(req);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many feedback reports. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const parseResult = createFeedbackRequestSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid feedback', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const feedback = await FeedbackService.submit(supabase, session.user.id, parseResult.data, {
+      userAgent: req.headers.get('user-agent'),
+    });
+
+    logger.info('feedback.submitted', 'Feedback submitted', {
+      feedbackId: feedback.id,
+      userId: session.user.id,
+      feedbackTypeId: feedback.feedback_type_id,
+      hasErrorDetails: Boolean(feedback.error_details),
+    });
+
+    after(() => tagFeedbackSubmission(feedback.id));
+
+    return NextResponse.json({ success: true, feedback }, { status: 201 });
+  } catch (error) {
+    logger.error('feedback.submit_error', 'Failed to submit feedback', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to submit feedback' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Feedback Types API Endpoint
+ * Active feedback categories for the feedback widget
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { FeedbackService } from '@/lib/services/feedbackService';
+import { createServiceLogger } from '@/lib/logging';
+import type { FeedbackType } from '@/lib/types/feedback';
+
+const logger = createServiceLogger('feedback');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/feedback/types
+ */
+export async function GET(): Promise<
+  NextResponse<{ success: boolean; types?: FeedbackType[]; error?: string }>
+> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const types = await FeedbackService.listTypes(supabase);
+
+    return NextResponse.json({ success: true, types });
+  } catch (error) {
+    logger.error('feedback.types_error', 'Failed to load feedback types', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load feedback types' },
+      { status: 500 }
+    );
+  }
+}
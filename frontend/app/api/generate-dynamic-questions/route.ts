@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient } from '@/lib/supabase/server';
 import { generateDynamicQuestionsV2 } from '@/src/lib/services/dynamicQuestionGenerationV2';
+import { CourseMaterialService } from '@/lib/services/courseMaterialService';
+import type { CourseMaterialsContext } from '@/lib/materials/context';
 import { z } from 'zod';
 
 export const dynamic = 'force-dynamic';
@@ -137,8 +139,26 @@ export async function POST(request: NextRequest): Promise<Response> {
 
     console.log('[GenerateDynamicQuestions] Attempt:', retryAttempt + 1, 'of', maxRetries);
 
+    // Existing course materials feed the prompt for adapt/hybrid content strategies
+    let materials: CourseMaterialsContext | null = null;
     try {
-      const result = await generateDynamicQuestionsV2(blueprintId, sa);
+      materials = await CourseMaterialService.getPromptContext(supabase, blueprintId, {
+        staticAnswers: sa,
+      });
+    } catch (materialsError) {
+      console.warn(
+        '[GenerateDynamicQuestions] Continuing without course materials:',
+        materialsError
+      );
+    }
+
+    try {
+      const result = await generateDynamicQuestionsV2(
+        blueprintId,
+        sa,
+        materials,
+        blueprint.user_id
+      );
 
       // CRITICAL: Normalize all option values to ensure consistency
       const { normalizeSectionQuestions } = await import('@/lib/validation/dynamicQuestionSchemas');
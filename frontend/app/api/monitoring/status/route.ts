@@ -13,6 +13,7 @@ import { performanceMonitor } from '@/lib/performance/performanceMonitor';
 import { addApiSecurityHeaders } from '@/lib/security/securityHeaders';
 import { createRateLimiter } from '@/lib/rate-limiting/redisRateLimit';
 import { checkRedisHealth } from '@/lib/cache/redis';
+import { getProviderDashboard } from '@/lib/ai-sdk/gateway';
 
 // Rate limiting for monitoring endpoint
 const monitoringRateLimiter = createRateLimiter({
@@ -302,6 +303,11 @@ async function gatherMonitoringData(include: string[], timeRange: string): Promi
     };
   }
 
+  // AI provider cascade: health, circuit breakers and fallback statistics
+  if (include.includes('providers') || include.length === 0) {
+    data.providers = getProviderDashboard();
+  }
+
   // Uptime metrics
   if (include.includes('uptime') || include.length === 0) {
     data.uptimeMetrics = uptimeMonitor.getMetrics();
@@ -378,6 +384,29 @@ function formatPrometheusMetrics(data: any): string {
     }
   }
 
+  // AI provider metrics
+  if (data.providers) {
+    lines.push(
+      '# HELP polaris_ai_provider_health Provider health (1=healthy, 0.5=degraded, 0=unhealthy)'
+    );
+    lines.push('# TYPE polaris_ai_provider_health gauge');
+    for (const provider of data.providers.providers) {
+      const health = provider.status === 'HEALTHY' ? 1 : provider.status === 'DEGRADED' ? 0.5 : 0;
+      lines.push(`polaris_ai_provider_health{provider="${provider.provider}"} ${health}`);
+    }
+
+    lines.push('# HELP polaris_ai_provider_circuit_open Whether the provider circuit is open');
+    lines.push('# TYPE polaris_ai_provider_circuit_open gauge');
+    for (const provider of data.providers.providers) {
+      const open = provider.circuitState === 'OPEN' ? 1 : 0;
+      lines.push(`polaris_ai_provider_circuit_open{provider="${provider.provider}"} ${open}`);
+    }
+
+    lines.push('# HELP polaris_ai_fallback_success_rate Share of generations that succeeded');
+    lines.push('# TYPE polaris_ai_fallback_success_rate gauge');
+    lines.push(`polaris_ai_fallback_success_rate ${data.providers.fallback.successRate}`);
+  }
+
   return lines.join('\n') + '\n';
 }
 
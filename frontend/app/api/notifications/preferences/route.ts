@@ -0,0 +1,110 @@
+/**
+ * Notification Preferences API Endpoint
+ * Email and in-app switches for each notification type. Payment and grace
+ * period emails cannot be turned off.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  NotificationService,
+  type NotificationPreference,
+} from '@/lib/services/notificationService';
+import { NOTIFICATION_TYPE_IDS, type NotificationType } from '@/lib/notifications/types';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const PreferencesSchema = z.object({
+  preferences: z
+    .array(
+      z.object({
+        type: z.enum(NOTIFICATION_TYPE_IDS as [NotificationType, ...NotificationType[]]),
+        email: z.boolean().optional(),
+        inApp: z.boolean().optional(),
+      })
+    )
+    .min(1),
+});
+
+interface PreferencesResponse {
+  success: boolean;
+  preferences?: NotificationPreference[];
+  error?: string;
+}
+
+/**
+ * GET /api/notifications/preferences
+ */
+export async function GET(): Promise<NextResponse<PreferencesResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const preferences = await NotificationService.getPreferences(supabase, session.user.id);
+
+    return NextResponse.json({ success: true, preferences });
+  } catch (error) {
+    logger.error('notifications.preferences_error', 'Failed to load notification preferences', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load notification preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/notifications/preferences
+ * Body: { preferences: [{ type, email?, inApp? }] }
+ */
+export async function PUT(req: NextRequest): Promise<NextResponse<PreferencesResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parseResult = PreferencesSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid request: ${parseResult.error.issues.map((issue) => issue.message).join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const preferences = await NotificationService.updatePreferences(
+      supabase,
+      session.user.id,
+      parseResult.data.preferences
+    );
+
+    logger.info('notifications.preferences_updated', 'Notification preferences updated', {
+      userId: session.user.id,
+      types: parseResult.data.preferences.map((pref) => pref.type),
+    });
+
+    return NextResponse.json({ success: true, preferences });
+  } catch (error) {
+    logger.error('notifications.preferences_update_error', 'Failed to update preferences', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update notification preferences' },
+      { status: 500 }
+    );
+  }
+}
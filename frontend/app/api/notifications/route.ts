@@ -0,0 +1,108 @@
+/**
+ * Notifications API Endpoint
+ * The caller's in-app inbox with its unread count, and marking items read.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { NotificationService, type Notification } from '@/lib/services/notificationService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const MarkReadSchema = z.union([
+  z.object({ ids: z.array(z.string().uuid()).min(1).max(100) }),
+  z.object({ all: z.literal(true) }),
+]);
+
+interface NotificationsResponse {
+  success: boolean;
+  notifications?: Notification[];
+  unreadCount?: number;
+  error?: string;
+}
+
+/**
+ * GET /api/notifications?limit=20&offset=0&unread=true
+ * With countOnly=true only the unread count is returned, for the header badge.
+ */
+export async function GET(req: NextRequest): Promise<NextResponse<NotificationsResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const supabase = await getSupabaseServerClient();
+
+    if (searchParams.get('countOnly') === 'true') {
+      const unreadCount = await NotificationService.getUnreadCount(supabase, session.user.id);
+      return NextResponse.json({ success: true, unreadCount });
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') ?? '20', 10) || 20, 1), 100);
+    const offset = Math.max(parseInt(searchParams.get('offset') ?? '0', 10) || 0, 0);
+
+    const { notifications, unreadCount } = await NotificationService.list(
+      supabase,
+      session.user.id,
+      { limit, offset, unreadOnly: searchParams.get('unread') === 'true' }
+    );
+
+    return NextResponse.json({ success: true, notifications, unreadCount });
+  } catch (error) {
+    logger.error('notifications.list_error', 'Failed to list notifications', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/notifications
+ * Body: { ids: string[] } or { all: true }
+ */
+export async function PATCH(req: NextRequest): Promise<NextResponse<NotificationsResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parseResult = MarkReadSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request: pass ids or all: true' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    await NotificationService.markRead(
+      supabase,
+      session.user.id,
+      'ids' in parseResult.data ? parseResult.data.ids : 'all'
+    );
+
+    const unreadCount = await NotificationService.getUnreadCount(supabase, session.user.id);
+
+    return NextResponse.json({ success: true, unreadCount });
+  } catch (error) {
+    logger.error('notifications.mark_read_error', 'Failed to mark notifications read', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,489 @@
+/**
+ * Change Subscription Plan API Route
+ *
+ * @description API endpoint for self-service tier and seat changes on an active
+ * Razorpay subscription, with a prorated charge for upgrades
+ *
+ * - Upgrade (higher price per cycle): new limits apply immediately and the
+ *   price difference for the rest of the current cycle is added to the next
+ *   invoice as a one-time add-on
+ * - Downgrade (lower price per cycle): current limits stay until the cycle
+ *   ends; the change is applied by the subscription.charged webhook
+ *
+ * In both cases the Razorpay plan/quantity switch is scheduled for the end of
+ * the cycle, so Razorpay bills the new price from the next renewal and the
+ * proration above is the only charge for the current cycle.
+ *
+ * @version 1.0.0
+ * @date 2025-11-11
+ *
+ * @endpoint POST /api/subscriptions/change-plan
+ * @access authenticated users with active subscriptions
+ */
+
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { validateChangePlanRequest } from '@/lib/schemas/razorpaySubscription';
+import { getSupabaseServerClient, getServerSession } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import {
+  cancelScheduledSubscriptionChanges,
+  createSubscriptionAddon,
+  updateSubscription,
+} from '@/lib/razorpay/client';
+import { getPlanId, getPlanPrice, isTeamTier } from '@/lib/config/razorpayPlans';
+import { RATE_LIMIT_CONFIGS, rateLimitMiddleware } from '@/lib/middleware/rateLimiting';
+import {
+  PlanChangeService,
+  normalizePlanSelection,
+  quotePlanChange,
+  readSubscriptionSeats,
+  toPendingPlanChange,
+  type PlanChangeAuditEntry,
+} from '@/lib/services/planChangeService';
+import { WorkspaceService } from '@/lib/services/workspaceService';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  generateRequestId,
+} from '@/lib/subscription/apiResponses';
+import { createServiceLogger } from '@/lib/logging';
+import type { BillingCycle, SubscriptionTier } from '@/types/razorpay';
+
+const logger = createServiceLogger('api');
+
+// Set runtime configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const planChangeRateLimit = rateLimitMiddleware(RATE_LIMIT_CONFIGS.SUBSCRIPTION_PLAN_CHANGE);
+
+/**
+ * Audit logging must never fail a plan change that already went through
+ */
+async function logPlanChange(supabase: SupabaseClient, entry: PlanChangeAuditEntry) {
+  try {
+    await PlanChangeService.logChange(supabase, entry);
+  } catch (error) {
+    logger.warn('subscriptions.change_plan.audit_failed', 'Failed to write audit log', {
+      requestId: entry.requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+function formatTier(tier: string): string {
+  return tier.charAt(0).toUpperCase() + tier.slice(1);
+}
+
+/**
+ * Main POST handler for plan changes
+ */
+export async function POST(request: Request): Promise<Response> {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    // Apply rate limiting
+    const rateLimitResult = await planChangeRateLimit(request);
+    if (!rateLimitResult.allowed) {
+      logger.warn('subscriptions.change_plan.rate_limited', 'Rate limit exceeded', {
+        requestId,
+        error: rateLimitResult.error?.message,
+      });
+
+      return createErrorResponse(
+        'RATE_LIMIT_EXCEEDED',
+        'Too many plan change attempts. Please try again later.',
+        429,
+        requestId,
+        { ...rateLimitResult.error }
+      );
+    }
+
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch (error) {
+      logger.warn('subscriptions.change_plan.invalid_json', 'Invalid JSON body', {
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return createErrorResponse('INVALID_JSON', 'Invalid JSON in request body', 400, requestId);
+    }
+
+    // Validate request body using Zod schema
+    const validationResult = validateChangePlanRequest(requestBody);
+    if (!validationResult.success) {
+      logger.warn('subscriptions.change_plan.invalid_request', 'Validation failed', {
+        requestId,
+        errors: validationResult.error.flatten(),
+      });
+
+      return createErrorResponse('VALIDATION_ERROR', 'Invalid request parameters', 400, requestId, {
+        validationErrors: validationResult.error.flatten(),
+      });
+    }
+
+    const { tier, seats, preview } = validationResult.data;
+    const targetTier = tier as SubscriptionTier;
+
+    // Same seat rules as subscription creation
+    if (isTeamTier(targetTier) && !seats) {
+      return createErrorResponse(
+        'VALIDATION_ERROR',
+        `Seats are required for ${tier} tier. Please specify the number of seats.`,
+        400,
+        requestId,
+        { tier, validationRule: 'team_tiers_require_seats' }
+      );
+    }
+
+    if (!isTeamTier(targetTier) && seats) {
+      return createErrorResponse(
+        'VALIDATION_ERROR',
+        `Seats are not applicable for ${tier} tier.`,
+        400,
+        requestId,
+        { tier, seats, validationRule: 'individual_tiers_no_seats' }
+      );
+    }
+
+    // Authentication check
+    const sessionResult = await getServerSession();
+    if (!sessionResult.session || !sessionResult.session.user) {
+      logger.warn('subscriptions.change_plan.unauthorized', 'Authentication failed', { requestId });
+
+      return createErrorResponse(
+        'UNAUTHORIZED',
+        'Authentication required. Please sign in to change your plan.',
+        401,
+        requestId
+      );
+    }
+
+    const userId = sessionResult.session.user.id;
+    const supabase = await getSupabaseServerClient();
+
+    // Find the subscription being changed
+    const { data: activeSubscriptions, error: subscriptionCheckError } = await supabase
+      .from('subscriptions')
+      .select(
+        `
+        subscription_id,
+        razorpay_subscription_id,
+        status,
+        subscription_tier,
+        plan_period,
+        current_start,
+        current_end,
+        next_billing_date,
+        metadata,
+        pending_plan_change
+      `
+      )
+      .eq('user_id', userId)
+      .in('status', ['created', 'authenticated', 'active', 'trialing'])
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (subscriptionCheckError) {
+      logger.error(
+        'subscriptions.change_plan.subscription_check_failed',
+        'Failed to check active subscriptions',
+        { requestId, userId, error: subscriptionCheckError.message }
+      );
+
+      return createErrorResponse(
+        'SUBSCRIPTION_CHECK_ERROR',
+        'Failed to verify active subscriptions',
+        500,
+        requestId,
+        { originalError: subscriptionCheckError.message }
+      );
+    }
+
+    const activeSubscription = activeSubscriptions?.[0];
+    if (!activeSubscription) {
+      return createErrorResponse(
+        'NO_ACTIVE_SUBSCRIPTION',
+        'No active subscription found. Choose a plan on the pricing page instead.',
+        404,
+        requestId
+      );
+    }
+
+    // Plans can only change once the first payment has gone through
+    if (activeSubscription.status !== 'active') {
+      return createErrorResponse(
+        'INVALID_SUBSCRIPTION_STATUS',
+        `Cannot change plan for subscription with status: ${activeSubscription.status}`,
+        400,
+        requestId,
+        {
+          subscriptionId: activeSubscription.subscription_id,
+          status: activeSubscription.status,
+          allowedStatuses: ['active'],
+        }
+      );
+    }
+
+    const periodEnd = activeSubscription.current_end || activeSubscription.next_billing_date;
+    if (!activeSubscription.current_start || !periodEnd) {
+      logger.error('subscriptions.change_plan.period_unknown', 'Billing period unknown', {
+        requestId,
+        subscriptionId: activeSubscription.subscription_id,
+      });
+
+      return createErrorResponse(
+        'BILLING_PERIOD_UNKNOWN',
+        'The current billing period of this subscription is not known yet. Please try again later.',
+        409,
+        requestId
+      );
+    }
+
+    const billingCycle = activeSubscription.plan_period as BillingCycle;
+    const currentTier = activeSubscription.subscription_tier as SubscriptionTier;
+    const quote = quotePlanChange({
+      current: normalizePlanSelection(
+        currentTier,
+        readSubscriptionSeats(activeSubscription.metadata)
+      ),
+      target: normalizePlanSelection(targetTier, seats),
+      billingCycle,
+      currentStart: new Date(activeSubscription.current_start),
+      currentEnd: new Date(periodEnd),
+    });
+    const pendingPlanChange = toPendingPlanChange(activeSubscription.pending_plan_change);
+
+    if (quote.direction === 'none') {
+      return createErrorResponse(
+        'NO_PLAN_CHANGE',
+        'You are already on this plan.',
+        400,
+        requestId,
+        { tier, seats: quote.current.seats }
+      );
+    }
+
+    const adminClient = getSupabaseAdminClient() as unknown as SupabaseClient;
+
+    // Seats can't drop below the people already in the team workspace
+    if (quote.target.seats < quote.current.seats) {
+      const memberCount = await WorkspaceService.countSubscriptionMembers(
+        adminClient,
+        activeSubscription.razorpay_subscription_id
+      );
+
+      if (quote.target.seats < memberCount) {
+        return createErrorResponse(
+          'SEATS_BELOW_MEMBERS',
+          `Your workspace has ${memberCount} members. Remove members before reducing the plan to ${quote.target.seats} seat(s).`,
+          409,
+          requestId,
+          { seats: quote.target.seats, members: memberCount }
+        );
+      }
+    }
+
+    if (preview) {
+      return createSuccessResponse({ preview: true, quote, pendingPlanChange }, requestId);
+    }
+
+    const planId = getPlanId(targetTier, billingCycle);
+    if (!planId) {
+      return createErrorResponse(
+        'PLAN_NOT_CONFIGURED',
+        `The ${tier} plan is not available for ${billingCycle} billing.`,
+        500,
+        requestId
+      );
+    }
+
+    logger.info('subscriptions.change_plan.started', 'Changing plan', {
+      requestId,
+      userId,
+      subscriptionId: activeSubscription.subscription_id,
+      razorpaySubscriptionId: activeSubscription.razorpay_subscription_id,
+      from: quote.current,
+      to: quote.target,
+      direction: quote.direction,
+      proratedAmount: quote.proratedAmount,
+    });
+
+    const audit: PlanChangeAuditEntry = {
+      userId,
+      subscriptionId: activeSubscription.subscription_id,
+      razorpaySubscriptionId: activeSubscription.razorpay_subscription_id,
+      quote,
+      requestId,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      userAgent: request.headers.get('user-agent'),
+    };
+
+    const planAmount = getPlanPrice(targetTier, billingCycle);
+
+    // Switch the Razorpay plan/quantity from the next renewal
+    try {
+      await updateSubscription(activeSubscription.razorpay_subscription_id, {
+        plan_id: planId,
+        quantity: quote.target.seats,
+        schedule_change_at: 'cycle_end',
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('subscriptions.change_plan.razorpay_update_failed', 'Razorpay update failed', {
+        requestId,
+        error: message,
+      });
+      await logPlanChange(adminClient, {
+        ...audit,
+        error: { code: 'RAZORPAY_UPDATE_ERROR', message },
+      });
+
+      return createErrorResponse('RAZORPAY_UPDATE_ERROR', message, 502, requestId);
+    }
+
+    let addonId: string | null = null;
+
+    if (quote.direction === 'upgrade') {
+      if (quote.proratedAmount > 0) {
+        try {
+          const addon = await createSubscriptionAddon(activeSubscription.razorpay_subscription_id, {
+            name: `Prorated upgrade: ${formatTier(currentTier)} to ${formatTier(targetTier)}`,
+            amount: quote.proratedAmount,
+            currency: 'INR',
+            description: `${quote.target.seats} seat(s) until ${quote.periodEnd.slice(0, 10)}`,
+          });
+          addonId = addon.id;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          logger.error('subscriptions.change_plan.proration_failed', 'Prorated charge failed', {
+            requestId,
+            error: message,
+          });
+
+          // Undo the scheduled Razorpay switch so the customer isn't moved to
+          // a plan they weren't charged for
+          let rolledBack = true;
+          try {
+            await cancelScheduledSubscriptionChanges(activeSubscription.razorpay_subscription_id);
+          } catch (rollbackError) {
+            rolledBack = false;
+            logger.error(
+              'subscriptions.change_plan.rollback_failed',
+              'Failed to cancel the scheduled plan change',
+              {
+                requestId,
+                error: rollbackError instanceof Error ? rollbackError.message : 'Unknown error',
+              }
+            );
+
+            // Razorpay will switch plans at renewal, so record it as pending to
+            // have the renewal webhook apply the same change to our limits
+            await PlanChangeService.scheduleChange(
+              adminClient,
+              activeSubscription.subscription_id,
+              {
+                ...quote.target,
+                planId,
+                planAmount,
+                effectiveAt: quote.effectiveAt,
+                requestedAt: new Date().toISOString(),
+                requestId,
+              }
+            );
+          }
+
+          await logPlanChange(adminClient, {
+            ...audit,
+            error: {
+              code: 'PRORATION_CHARGE_ERROR',
+              message: rolledBack ? message : `${message} (plan change left scheduled)`,
+            },
+          });
+
+          return createErrorResponse('PRORATION_CHARGE_ERROR', message, 502, requestId, {
+            planChangeScheduled: !rolledBack,
+          });
+        }
+      }
+
+      await PlanChangeService.applyChange(adminClient, activeSubscription.subscription_id, {
+        ...quote.target,
+        planId,
+        planAmount,
+      });
+    } else {
+      await PlanChangeService.scheduleChange(adminClient, activeSubscription.subscription_id, {
+        ...quote.target,
+        planId,
+        planAmount,
+        effectiveAt: quote.effectiveAt,
+        requestedAt: new Date().toISOString(),
+        requestId,
+      });
+    }
+
+    await logPlanChange(adminClient, { ...audit, addonId });
+
+    logger.info('subscriptions.change_plan.completed', 'Plan change completed', {
+      requestId,
+      direction: quote.direction,
+      effective: quote.effective,
+      addonId,
+      processingTime: Date.now() - startTime,
+    });
+
+    return createSuccessResponse(
+      {
+        preview: false,
+        message:
+          quote.direction === 'upgrade'
+            ? `Upgraded to ${formatTier(targetTier)}. Your new limits apply now.`
+            : `Your plan will change to ${formatTier(targetTier)} at the end of the current billing cycle.`,
+        quote,
+        addonId,
+      },
+      requestId
+    );
+  } catch (error: unknown) {
+    logger.error('subscriptions.change_plan.unexpected_error', 'Unexpected error', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      processingTime: Date.now() - startTime,
+    });
+
+    return createErrorResponse(
+      'INTERNAL_ERROR',
+      'An unexpected error occurred while processing your request',
+      500,
+      requestId,
+      {
+        timestamp: new Date().toISOString(),
+        processingTime: Date.now() - startTime,
+      }
+    );
+  }
+}
+
+/**
+ * GET handler (not supported - only POST allowed)
+ */
+export async function GET(): Promise<Response> {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'METHOD_NOT_ALLOWED',
+        message: 'Only POST method is allowed for this endpoint',
+      },
+    },
+    { status: 405 }
+  );
+}
@@ -4,6 +4,10 @@
  * @description API endpoint for creating Razorpay subscriptions with comprehensive validation,
  * authentication, duplicate prevention, and error handling
  *
+ * Promo codes are validated and redeemed here; a coupon's Razorpay offer is
+ * attached to the subscription. First-time subscribers (and trial coupons)
+ * get a free trial: the first charge is scheduled with a delayed start_at.
+ *
  * @version 1.0.0
  * @date 2025-10-29
  *
@@ -12,6 +16,7 @@
  */
 
 import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import {
   CreateSubscriptionRequestSchema,
   CreateSubscriptionResponseSchema,
@@ -20,11 +25,21 @@ import {
   type CreateSubscriptionRequest,
 } from '@/lib/schemas/razorpaySubscription';
 import { getSupabaseServerClient, getServerSession } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
 import type { Database } from '@/types/supabase';
-import { getPlanId, getPlanPrice } from '@/lib/config/razorpayPlans';
+import { getPlanId, getPlanPrice, getTrialDays } from '@/lib/config/razorpayPlans';
 import { razorpayClient, isTestMode } from '@/lib/razorpay/client';
 import { RATE_LIMIT_CONFIGS, rateLimitMiddleware } from '@/lib/middleware/rateLimiting';
 import { addApiSecurityHeaders } from '@/lib/security/securityHeaders';
+import {
+  CouponError,
+  CouponService,
+  quoteCoupon,
+  resolveTrialDays,
+  type Coupon,
+  type CouponQuote,
+  type CouponRedemption,
+} from '@/lib/services/couponService';
 
 // Set runtime configuration
 export const runtime = 'nodejs';
@@ -35,6 +50,27 @@ export const dynamic = 'force-dynamic';
  */
 const subscriptionRateLimit = rateLimitMiddleware(RATE_LIMIT_CONFIGS.SUBSCRIPTION_CREATION);
 
+/**
+ * Give back a coupon reservation when the subscription could not be created
+ */
+async function releaseCouponRedemption(
+  supabase: SupabaseClient,
+  redemption: CouponRedemption | null,
+  requestId: string
+): Promise<void> {
+  if (!redemption) return;
+
+  try {
+    await CouponService.release(supabase, redemption.id);
+  } catch (error) {
+    console.error('[Razorpay] Failed to release coupon redemption', {
+      requestId,
+      redemptionId: redemption.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 /**
  * Generate unique request ID for tracking
  */
@@ -155,7 +191,7 @@ export async function POST(request: Request): Promise<Response> {
       });
     }
 
-    const { tier, billingCycle, seats, customerInfo, metadata } = validationResult.data;
+    const { tier, billingCycle, seats, couponCode, customerInfo, metadata } = validationResult.data;
 
     // Additional validation for seats based on tier
     const isTeamTier = ['crew', 'fleet', 'armada'].includes(tier);
@@ -554,6 +590,47 @@ export async function POST(request: Request): Promise<Response> {
       }
     }
 
+    const adminClient = getSupabaseAdminClient() as unknown as SupabaseClient;
+
+    // Validate the promo code before anything is created in Razorpay
+    let coupon: Coupon | null = null;
+    let couponQuote: CouponQuote | null = null;
+    if (couponCode) {
+      try {
+        coupon = await CouponService.validate(adminClient, couponCode, {
+          tier,
+          billingCycle,
+          userId,
+        });
+        couponQuote = quoteCoupon(coupon, planAmount);
+      } catch (error) {
+        if (error instanceof CouponError) {
+          return createErrorResponse(error.code, error.message, 422, requestId, { couponCode });
+        }
+        throw error;
+      }
+    }
+
+    // The tier trial is only for a user's first subscription
+    const { count: previousSubscriptionCount, error: previousSubscriptionError } = await supabase
+      .from('subscriptions')
+      .select('subscription_id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+
+    if (previousSubscriptionError) {
+      console.warn('[Razorpay] Failed to check previous subscriptions, skipping tier trial', {
+        requestId,
+        error: previousSubscriptionError.message,
+      });
+    }
+
+    const trialDays = resolveTrialDays({
+      tierTrialDays: getTrialDays(tier),
+      couponTrialDays: coupon?.trialDays,
+      isFirstSubscription: !previousSubscriptionError && (previousSubscriptionCount ?? 0) === 0,
+    });
+    const trialEnd = trialDays > 0 ? new Date(Date.now() + trialDays * 24 * 60 * 60 * 1000) : null;
+
     console.log('[Razorpay] Subscription creation request validated', {
       requestId,
       userId: user.id,
@@ -563,6 +640,9 @@ export async function POST(request: Request): Promise<Response> {
       seats,
       planId,
       planAmount,
+      couponCode: coupon?.code,
+      discountAmount: couponQuote?.discountAmount,
+      trialDays,
       existingSubscriptionsCount: existingSubscriptions?.length || 0,
       processingTime: Date.now() - startTime,
     });
@@ -649,14 +729,39 @@ export async function POST(request: Request): Promise<Response> {
       seats,
     });
 
+    // Reserve the coupon; the database re-checks the redemption cap under a lock
+    let couponRedemption: CouponRedemption | null = null;
+    if (coupon && couponQuote) {
+      try {
+        couponRedemption = await CouponService.redeem(adminClient, {
+          coupon,
+          userId,
+          tier,
+          billingCycle,
+          quote: { ...couponQuote, trialDays },
+          requestId,
+        });
+      } catch (error) {
+        if (error instanceof CouponError) {
+          return createErrorResponse(error.code, error.message, 422, requestId, { couponCode });
+        }
+        throw error;
+      }
+    }
+
     let razorpaySubscription;
     try {
       const subscriptionData: any = {
         plan_id: planId,
         customer_id: razorpayCustomer.id,
         total_count: billingCycle === 'monthly' ? 12 : 1, // 12 months or 1 year
-        start_at: Math.floor(Date.now() / 1000) + 3600, // Start in 1 hour
+        // The first charge waits for the trial to end, otherwise start in 1 hour
+        start_at: trialEnd
+          ? Math.floor(trialEnd.getTime() / 1000)
+          : Math.floor(Date.now() / 1000) + 3600,
         customer_notify: 1, // Send email notification to customer
+        ...(seats && { quantity: seats }), // Per-seat plans are billed by quantity
+        ...(coupon?.razorpayOfferId && { offer_id: coupon.razorpayOfferId }),
         notes: {
           user_id: userId,
           subscription_tier: tier,
@@ -664,6 +769,8 @@ export async function POST(request: Request): Promise<Response> {
           seats: seats?.toString() || '1',
           source: 'polaris_v3_subscription',
           created_at: new Date().toISOString(),
+          ...(coupon && { coupon_code: coupon.code }),
+          ...(trialDays > 0 && { trial_days: trialDays.toString() }),
           ...(metadata && { subscription_metadata: JSON.stringify(metadata) }),
         },
       };
@@ -763,6 +870,7 @@ export async function POST(request: Request): Promise<Response> {
             charge_at: razorpaySubscription.charge_at
               ? new Date(razorpaySubscription.charge_at * 1000).toISOString()
               : null,
+            trial_end: trialEnd ? trialEnd.toISOString() : null,
             total_count: razorpaySubscription.total_count || (billingCycle === 'monthly' ? 12 : 1),
             paid_count: razorpaySubscription.paid_count || 0,
             remaining_count:
@@ -782,6 +890,16 @@ export async function POST(request: Request): Promise<Response> {
               },
               ...(metadata && { subscription_metadata: metadata }),
               ...(seats && { seats: seats }), // Store seats in metadata since column doesn't exist
+              ...(coupon &&
+                couponQuote && {
+                  coupon: {
+                    code: coupon.code,
+                    redemption_id: couponRedemption?.id,
+                    discount_amount: couponQuote.discountAmount,
+                    razorpay_offer_id: coupon.razorpayOfferId,
+                  },
+                }),
+              ...(trialDays > 0 && { trial_days: trialDays }),
             }),
           },
         ])
@@ -809,6 +927,8 @@ export async function POST(request: Request): Promise<Response> {
           });
         }
 
+        await releaseCouponRedemption(adminClient, couponRedemption, requestId);
+
         return createErrorResponse(
           'DATABASE_ERROR',
           'Failed to store subscription in database',
@@ -829,6 +949,23 @@ export async function POST(request: Request): Promise<Response> {
         status: razorpaySubscription.status,
       });
 
+      if (couponRedemption) {
+        try {
+          await CouponService.attachSubscription(
+            adminClient,
+            couponRedemption.id,
+            razorpaySubscription.id
+          );
+        } catch (error) {
+          // The redemption stays counted; only the link for the audit trail is missing
+          console.error('[Razorpay] Failed to link coupon redemption', {
+            requestId,
+            redemptionId: couponRedemption.id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
       const responseData = {
         message: 'Subscription created successfully',
         subscription: {
@@ -847,6 +984,8 @@ export async function POST(request: Request): Promise<Response> {
             ? new Date(razorpaySubscription.current_start * 1000).toISOString()
             : null,
           tier,
+          trialEnd: trialEnd ? trialEnd.toISOString() : null,
+          coupon: couponQuote,
           customerName: razorpayCustomer.name,
           customerEmail: razorpayCustomer.email,
         },
@@ -882,6 +1021,8 @@ export async function POST(request: Request): Promise<Response> {
         errorMessage: razorpayError.error?.description,
       });
 
+      await releaseCouponRedemption(adminClient, couponRedemption, requestId);
+
       return createErrorResponse(
         'RAZORPAY_SUBSCRIPTION_ERROR',
         'Failed to create subscription in Razorpay',
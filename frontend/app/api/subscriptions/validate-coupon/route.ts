@@ -0,0 +1,184 @@
+/**
+ * Validate Coupon API Route
+ *
+ * @description Checks a promo code for the pricing page. Without a tier the
+ * coupon's rules are returned for pricing every plan card; with a tier the
+ * discounted price and trial length for that plan are quoted too. Nothing is
+ * redeemed here; the code is checked again and redeemed when the
+ * subscription is created.
+ *
+ * Signed-out visitors can check codes too. Signed-in users are also told when
+ * they have already used the code.
+ *
+ * @version 1.0.0
+ * @date 2025-11-13
+ *
+ * @endpoint POST /api/subscriptions/validate-coupon
+ * @access public
+ */
+
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { validateValidateCouponRequest } from '@/lib/schemas/razorpaySubscription';
+import { getServerSession } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { getPlanPrice, getTrialDays } from '@/lib/config/razorpayPlans';
+import { RATE_LIMIT_CONFIGS, rateLimitMiddleware } from '@/lib/middleware/rateLimiting';
+import {
+  CouponError,
+  CouponService,
+  quoteCoupon,
+  resolveTrialDays,
+} from '@/lib/services/couponService';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  generateRequestId,
+} from '@/lib/subscription/apiResponses';
+import { createServiceLogger } from '@/lib/logging';
+import type { SubscriptionTier } from '@/types/razorpay';
+
+// Set runtime configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const logger = createServiceLogger('api');
+
+const couponValidationRateLimit = rateLimitMiddleware(RATE_LIMIT_CONFIGS.COUPON_VALIDATION);
+
+/**
+ * Main POST handler for promo code checks
+ */
+export async function POST(request: Request): Promise<Response> {
+  const requestId = generateRequestId();
+
+  try {
+    // Apply rate limiting
+    const rateLimitResult = await couponValidationRateLimit(request);
+    if (!rateLimitResult.allowed) {
+      logger.warn('subscriptions.coupon.rate_limited', 'Rate limit exceeded', {
+        requestId,
+        error: rateLimitResult.error?.message,
+      });
+
+      return createErrorResponse(
+        'RATE_LIMIT_EXCEEDED',
+        'Too many promo code attempts. Please try again later.',
+        429,
+        requestId,
+        { ...rateLimitResult.error }
+      );
+    }
+
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse('INVALID_JSON', 'Invalid JSON in request body', 400, requestId);
+    }
+
+    const validationResult = validateValidateCouponRequest(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse('VALIDATION_ERROR', 'Invalid request parameters', 400, requestId, {
+        validationErrors: validationResult.error.flatten(),
+      });
+    }
+
+    const { code, billingCycle, seats } = validationResult.data;
+    const tier = validationResult.data.tier as SubscriptionTier | undefined;
+
+    const sessionResult = await getServerSession();
+    const userId = sessionResult.session?.user?.id ?? null;
+
+    const adminClient = getSupabaseAdminClient() as unknown as SupabaseClient;
+
+    const coupon = await CouponService.validate(adminClient, code, {
+      tier,
+      billingCycle,
+      userId,
+    });
+
+    logger.info('subscriptions.coupon.validated', 'Code validated', {
+      requestId,
+      code: coupon.code,
+      tier,
+      billingCycle,
+    });
+
+    const rules = {
+      code: coupon.code,
+      description: coupon.description,
+      discountType: coupon.discountType,
+      discountValue: coupon.discountValue,
+      trialDays: coupon.trialDays,
+      applicableTiers: coupon.applicableTiers,
+      applicableBillingCycles: coupon.applicableBillingCycles,
+      expiresAt: coupon.expiresAt,
+    };
+
+    if (!tier) {
+      return createSuccessResponse({ coupon: rules }, requestId);
+    }
+
+    // The tier trial only goes to first subscriptions; without a session we
+    // can only promise the coupon's own trial
+    let isFirstSubscription = false;
+    if (userId) {
+      const { count } = await adminClient
+        .from('subscriptions')
+        .select('subscription_id', { count: 'exact', head: true })
+        .eq('user_id', userId);
+      isFirstSubscription = (count ?? 0) === 0;
+    }
+
+    const planPrice = getPlanPrice(tier, billingCycle);
+
+    return createSuccessResponse(
+      {
+        coupon: rules,
+        quote: {
+          ...quoteCoupon(coupon, seats ? planPrice * seats : planPrice),
+          trialDays: resolveTrialDays({
+            tierTrialDays: getTrialDays(tier),
+            couponTrialDays: coupon.trialDays,
+            isFirstSubscription,
+          }),
+        },
+      },
+      requestId
+    );
+  } catch (error: unknown) {
+    if (error instanceof CouponError) {
+      return createErrorResponse(error.code, error.message, 422, requestId);
+    }
+
+    logger.error('subscriptions.coupon.unexpected_error', 'Unexpected error', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return createErrorResponse(
+      'INTERNAL_ERROR',
+      'An unexpected error occurred while checking the promo code',
+      500,
+      requestId
+    );
+  }
+}
+
+/**
+ * GET handler (not supported - only POST allowed)
+ */
+export async function GET(): Promise<Response> {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'METHOD_NOT_ALLOWED',
+        message: 'Only POST method is allowed for this endpoint',
+      },
+    },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Workspace Blueprints API Endpoint
+ * Lists the blueprints owned by a workspace, and lets editors move one of
+ * their personal blueprints into it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { WorkspaceService, canEditWithRole } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const AssignBlueprintSchema = z.object({
+  blueprintId: z.string().uuid(),
+});
+
+type WorkspaceBlueprint = Awaited<ReturnType<typeof WorkspaceService.listBlueprints>>[number];
+
+interface WorkspaceBlueprintsResponse {
+  success: boolean;
+  blueprints?: WorkspaceBlueprint[];
+  error?: string;
+}
+
+/**
+ * GET /api/workspaces/[id]/blueprints
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<WorkspaceBlueprintsResponse>> {
+  const { id: workspaceId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getRole(supabase, workspaceId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const blueprints = await WorkspaceService.listBlueprints(supabase, workspaceId);
+
+    return NextResponse.json({ success: true, blueprints });
+  } catch (error) {
+    logger.error('workspaces.blueprints.list_error', 'Failed to list workspace blueprints', {
+      workspaceId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load workspace blueprints' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workspaces/[id]/blueprints
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<WorkspaceBlueprintsResponse>> {
+  const { id: workspaceId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parseResult = AssignBlueprintSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request: blueprintId must be a UUID' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getRole(supabase, workspaceId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (!canEditWithRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'Viewers cannot add blueprints to a workspace' },
+        { status: 403 }
+      );
+    }
+
+    const assigned = await WorkspaceService.assignBlueprint(
+      supabase,
+      workspaceId,
+      parseResult.data.blueprintId,
+      session.user.id
+    );
+
+    if (!assigned) {
+      return NextResponse.json(
+        { success: false, error: 'Blueprint not found or you are not its creator' },
+        { status: 404 }
+      );
+    }
+
+    logger.info('workspaces.blueprints.assigned', 'Blueprint moved into workspace', {
+      workspaceId,
+      userId: session.user.id,
+      blueprintId: parseResult.data.blueprintId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('workspaces.blueprints.assign_error', 'Failed to assign blueprint', {
+      workspaceId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to add blueprint to workspace' },
+      { status: 500 }
+    );
+  }
+}
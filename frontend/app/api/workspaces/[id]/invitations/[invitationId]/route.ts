@@ -0,0 +1,61 @@
+/**
+ * Workspace Invitation API Endpoint
+ * Revokes a pending invitation, releasing its seat
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { WorkspaceService } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/workspaces/[id]/invitations/[invitationId]
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  const { id: workspaceId, invitationId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getRole(supabase, workspaceId, session.user.id);
+
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { success: false, error: 'Only the workspace owner can revoke invitations' },
+        { status: 403 }
+      );
+    }
+
+    await WorkspaceService.revokeInvitation(supabase, workspaceId, invitationId);
+
+    logger.info('workspaces.invitation_revoked', 'Workspace invitation revoked', {
+      workspaceId,
+      userId: session.user.id,
+      invitationId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('workspaces.invitation_revoke_error', 'Failed to revoke workspace invitation', {
+      workspaceId,
+      invitationId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Workspace Invitations API Endpoint
+ * The owner invites people by email. Every pending invitation holds a seat,
+ * so invites are refused once members + pending invitations reach the
+ * subscription's seat count.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  WorkspaceService,
+  type SeatUsage,
+  type WorkspaceInvitation,
+} from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const CreateInvitationSchema = z.object({
+  email: z.string().trim().email(),
+  role: z.enum(['editor', 'viewer']).default('editor'),
+});
+
+interface InvitationResponse {
+  success: boolean;
+  invitation?: WorkspaceInvitation;
+  inviteUrl?: string;
+  seats?: SeatUsage;
+  error?: string;
+}
+
+/**
+ * POST /api/workspaces/[id]/invitations
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<InvitationResponse>> {
+  const { id: workspaceId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parseResult = CreateInvitationSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request: a valid email is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const [workspace, role] = await Promise.all([
+      WorkspaceService.getWorkspace(supabase, workspaceId),
+      WorkspaceService.getRole(supabase, workspaceId, session.user.id),
+    ]);
+
+    if (!workspace || !role) {
+      return NextResponse.json({ success: false, error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { success: false, error: 'Only the workspace owner can invite members' },
+        { status: 403 }
+      );
+    }
+
+    // A re-invite replaces the pending invitation, so its seat is free again
+    await WorkspaceService.revokePendingInvitations(
+      supabase,
+      workspaceId,
+      parseResult.data.email.toLowerCase()
+    );
+
+    const seats = await WorkspaceService.getSeatUsage(supabase, workspace);
+    if (!seats.canInvite) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `All ${seats.seatLimit} seats are in use. Add seats to your subscription or revoke a pending invitation.`,
+          seats,
+        },
+        { status: 409 }
+      );
+    }
+
+    const invitation = await WorkspaceService.createInvitation(
+      supabase,
+      workspaceId,
+      parseResult.data,
+      session.user.id
+    );
+
+    logger.info('workspaces.invitation_created', 'Workspace invitation created', {
+      workspaceId,
+      userId: session.user.id,
+      invitationId: invitation.id,
+      role: invitation.role,
+    });
+
+    const inviteUrl = `${req.nextUrl.origin}/workspaces/join?token=${invitation.token}`;
+
+    return NextResponse.json({ success: true, invitation, inviteUrl }, { status: 201 });
+  } catch (error) {
+    logger.error('workspaces.invitation_error', 'Failed to create workspace invitation', {
+      workspaceId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Workspace Member API Endpoint
+ * The owner changes a member's role or removes them; any member can remove
+ * themselves to leave. The owner's own membership cannot be changed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { WorkspaceService } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const UpdateMemberSchema = z.object({
+  role: z.enum(['editor', 'viewer']),
+});
+
+interface MemberResponse {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * PATCH /api/workspaces/[id]/members/[userId]
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+): Promise<NextResponse<MemberResponse>> {
+  const { id: workspaceId, userId: memberId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parseResult = UpdateMemberSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request: role must be editor or viewer' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const [role, memberRole] = await Promise.all([
+      WorkspaceService.getRole(supabase, workspaceId, session.user.id),
+      WorkspaceService.getRole(supabase, workspaceId, memberId),
+    ]);
+
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { success: false, error: 'Only the workspace owner can change roles' },
+        { status: 403 }
+      );
+    }
+
+    if (!memberRole) {
+      return NextResponse.json({ success: false, error: 'Member not found' }, { status: 404 });
+    }
+
+    if (memberRole === 'owner') {
+      return NextResponse.json(
+        { success: false, error: "The owner's role cannot be changed" },
+        { status: 400 }
+      );
+    }
+
+    await WorkspaceService.updateMemberRole(supabase, workspaceId, memberId, parseResult.data.role);
+
+    logger.info('workspaces.member_role_changed', 'Workspace member role changed', {
+      workspaceId,
+      userId: session.user.id,
+      memberId,
+      role: parseResult.data.role,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('workspaces.member_update_error', 'Failed to update workspace member', {
+      workspaceId,
+      memberId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json({ success: false, error: 'Failed to update member' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/workspaces/[id]/members/[userId]
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+): Promise<NextResponse<MemberResponse>> {
+  const { id: workspaceId, userId: memberId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const [role, memberRole] = await Promise.all([
+      WorkspaceService.getRole(supabase, workspaceId, session.user.id),
+      WorkspaceService.getRole(supabase, workspaceId, memberId),
+    ]);
+
+    const isLeaving = memberId === session.user.id;
+    if (!role || (!isLeaving && role !== 'owner')) {
+      return NextResponse.json(
+        { success: false, error: 'Only the workspace owner can remove members' },
+        { status: 403 }
+      );
+    }
+
+    if (!memberRole) {
+      return NextResponse.json({ success: false, error: 'Member not found' }, { status: 404 });
+    }
+
+    if (memberRole === 'owner') {
+      return NextResponse.json(
+        { success: false, error: 'The workspace owner cannot be removed' },
+        { status: 400 }
+      );
+    }
+
+    await WorkspaceService.removeMember(supabase, workspaceId, memberId);
+
+    logger.info('workspaces.member_removed', 'Workspace member removed', {
+      workspaceId,
+      userId: session.user.id,
+      memberId,
+      isLeaving,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('workspaces.member_remove_error', 'Failed to remove workspace member', {
+      workspaceId,
+      memberId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json({ success: false, error: 'Failed to remove member' }, { status: 500 });
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Workspace Detail API Endpoint
+ * Returns a workspace with its members, seat usage and (for the owner)
+ * pending invitations. The owner can rename the workspace and require
+ * members to use two-factor authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  WorkspaceService,
+  type SeatUsage,
+  type Workspace,
+  type WorkspaceInvitation,
+  type WorkspaceMember,
+  type WorkspaceRole,
+} from '@/lib/services/workspaceService';
+import { TwoFactorService } from '@/lib/services/twoFactorService';
+import { getAssuranceLevel } from '@/lib/auth/twoFactor';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const UpdateWorkspaceSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    requireTwoFactor: z.boolean().optional(),
+  })
+  .refine((body) => body.name !== undefined || body.requireTwoFactor !== undefined);
+
+interface WorkspaceDetailResponse {
+  success: boolean;
+  workspace?: Workspace;
+  role?: WorkspaceRole;
+  members?: WorkspaceMember[];
+  invitations?: WorkspaceInvitation[];
+  seats?: SeatUsage;
+  error?: string;
+}
+
+/**
+ * GET /api/workspaces/[id]
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<WorkspaceDetailResponse>> {
+  const { id: workspaceId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const [workspace, role] = await Promise.all([
+      WorkspaceService.getWorkspace(supabase, workspaceId),
+      WorkspaceService.getRole(supabase, workspaceId, session.user.id),
+    ]);
+
+    if (!workspace || !role) {
+      // Members are hidden from a workspace that requires two-factor until
+      // they turn it on; say so rather than reporting it missing
+      const requiredBy = await TwoFactorService.listRequiringWorkspaces(supabase);
+      if (requiredBy.some((required) => required.id === workspaceId)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'This workspace requires two-factor authentication. Turn it on in Settings.',
+          },
+          { status: 403 }
+        );
+      }
+
+      return NextResponse.json({ success: false, error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const [members, seats, invitations] = await Promise.all([
+      WorkspaceService.listMembers(supabase, workspaceId),
+      WorkspaceService.getSeatUsage(supabase, workspace),
+      role === 'owner' ? WorkspaceService.listInvitations(supabase, workspaceId) : undefined,
+    ]);
+
+    return NextResponse.json({ success: true, workspace, role, members, invitations, seats });
+  } catch (error) {
+    logger.error('workspaces.fetch_error', 'Failed to load workspace', {
+      workspaceId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/workspaces/[id]
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<WorkspaceDetailResponse>> {
+  const { id: workspaceId } = await params;
+
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parseResult = UpdateWorkspaceSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request: name must be 1-100 characters and requireTwoFactor a boolean',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, requireTwoFactor } = parseResult.data;
+
+    const supabase = await getSupabaseServerClient();
+    const role = await WorkspaceService.getRole(supabase, workspaceId, session.user.id);
+
+    if (!role) {
+      return NextResponse.json({ success: false, error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { success: false, error: 'Only the workspace owner can change the workspace' },
+        { status: 403 }
+      );
+    }
+
+    // The owner would lose access themselves without a second factor
+    if (requireTwoFactor) {
+      const { currentLevel } = await getAssuranceLevel(supabase);
+      if (currentLevel !== 'aal2') {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Turn on two-factor authentication for your account before requiring it',
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    if (name !== undefined) {
+      await WorkspaceService.renameWorkspace(supabase, workspaceId, name);
+    }
+
+    if (requireTwoFactor !== undefined) {
+      await WorkspaceService.setRequireTwoFactor(supabase, workspaceId, requireTwoFactor);
+
+      logger.info('workspaces.two_factor_requirement_changed', 'Workspace two-factor updated', {
+        workspaceId,
+        requireTwoFactor,
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('workspaces.update_error', 'Failed to update workspace', {
+      workspaceId,
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Workspace Invitation Accept API Endpoint
+ * Joins the workspace named by an invitation token. The invitation must be
+ * addressed to the signed-in user's email and still be pending.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import { WorkspaceService, type WorkspaceRole } from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const AcceptInvitationSchema = z.object({
+  token: z.string().trim().min(1),
+});
+
+interface AcceptResponse {
+  success: boolean;
+  workspaceId?: string;
+  role?: WorkspaceRole;
+  error?: string;
+}
+
+/**
+ * POST /api/workspaces/invitations/accept
+ */
+export async function POST(req: NextRequest): Promise<NextResponse<AcceptResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parseResult = AcceptInvitationSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request: token is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+
+    try {
+      const membership = await WorkspaceService.acceptInvitation(supabase, parseResult.data.token);
+
+      logger.info('workspaces.invitation_accepted', 'Workspace invitation accepted', {
+        userId: session.user.id,
+        workspaceId: membership.workspaceId,
+        role: membership.role,
+      });
+
+      return NextResponse.json({ success: true, ...membership });
+    } catch (error) {
+      logger.warn('workspaces.invitation_rejected', 'Workspace invitation could not be accepted', {
+        userId: session.user.id,
+        error: (error as Error).message,
+      });
+
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            'This invitation is invalid, has expired, or was sent to a different email address',
+        },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error('workspaces.invitation_accept_error', 'Failed to accept workspace invitation', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to accept invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Workspaces API Endpoint
+ * Lists the caller's team workspaces and creates a workspace for an active
+ * Crew, Fleet or Armada subscription (seats come from the subscription).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession, getSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  WorkspaceService,
+  type Workspace,
+  type WorkspaceRole,
+} from '@/lib/services/workspaceService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('api');
+
+export const dynamic = 'force-dynamic';
+
+const CreateWorkspaceSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+interface WorkspaceListResponse {
+  success: boolean;
+  workspaces?: Array<Workspace & { role: WorkspaceRole }>;
+  error?: string;
+}
+
+interface WorkspaceCreateResponse {
+  success: boolean;
+  workspace?: Workspace;
+  error?: string;
+}
+
+/**
+ * GET /api/workspaces
+ */
+export async function GET(): Promise<NextResponse<WorkspaceListResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await getSupabaseServerClient();
+    const workspaces = await WorkspaceService.listWorkspaces(supabase, session.user.id);
+
+    return NextResponse.json({ success: true, workspaces });
+  } catch (error) {
+    logger.error('workspaces.list_error', 'Failed to list workspaces', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to load workspaces' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workspaces
+ */
+export async function POST(req: NextRequest): Promise<NextResponse<WorkspaceCreateResponse>> {
+  try {
+    const { session } = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parseResult = CreateWorkspaceSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request: name must be 1-100 characters' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getSupabaseServerClient();
+
+    let workspace: Workspace;
+    try {
+      workspace = await WorkspaceService.createWorkspace(supabase, parseResult.data.name);
+    } catch (error) {
+      // create_workspace raises when there is no active team subscription, or
+      // when the subscription already has a workspace
+      logger.warn('workspaces.create_rejected', 'Workspace creation rejected', {
+        userId: session.user.id,
+        error: (error as Error).message,
+      });
+
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            'Workspaces require an active Crew, Fleet or Armada subscription without an existing workspace',
+        },
+        { status: 403 }
+      );
+    }
+
+    logger.info('workspaces.created', 'Workspace created', {
+      userId: session.user.id,
+      workspaceId: workspace.id,
+      tier: workspace.subscriptionTier,
+      seatLimit: workspace.seatLimit,
+    });
+
+    return NextResponse.json({ success: true, workspace }, { status: 201 });
+  } catch (error) {
+    logger.error('workspaces.create_error', 'Failed to create workspace', {
+      error: (error as Error).message,
+    });
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,141 @@
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import {
+  OIDC_LOGIN_COOKIE,
+  discoverOidcProvider,
+  exchangeAuthorizationCode,
+  verifyIdToken,
+  type OidcLoginState,
+} from '@/lib/auth/oidc';
+import { SsoService, emailDomain, samlProviderIdFromUser } from '@/lib/services/ssoService';
+import { safeRedirectUrl } from '@/lib/auth/redirect';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('auth');
+
+function readOidcLoginState(value: string | undefined): OidcLoginState | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as OidcLoginState;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Provision users who came in through a SAML provider registered with
+ * Supabase Auth. Supabase creates a separate user for each SSO identity.
+ */
+async function provisionSamlUser(user: User): Promise<void> {
+  const samlProviderId = samlProviderIdFromUser(user);
+  if (!samlProviderId) return;
+
+  try {
+    const admin = getSupabaseAdminClient() as unknown as SupabaseClient;
+    const connection = await SsoService.getBySamlProvider(admin, samlProviderId);
+    if (!connection) return;
+
+    await SsoService.provisionUser(admin, user.id, connection, {
+      fullName: (user.user_metadata?.full_name ?? user.user_metadata?.name) as string | undefined,
+      isNewUser: true,
+    });
+  } catch (error) {
+    logger.error('sso.saml.provision_failed', 'Could not provision SAML user', {
+      userId: user.id,
+      error: (error as Error).message,
+    });
+  }
+}
+
+/**
+ * Finish an OIDC sign-in: verify the ID token, create or find the user for
+ * its email and open a Supabase session for them with a one-time magic link
+ * token. Returns the user's redirect target.
+ */
+async function completeOidcSignIn(
+  supabase: SupabaseClient,
+  loginState: OidcLoginState,
+  code: string,
+  redirectUri: string
+): Promise<string | null> {
+  const admin = getSupabaseAdminClient() as unknown as SupabaseClient;
+  const connection = await SsoService.getById(admin, loginState.connectionId);
+  if (!connection?.enabled || connection.protocol !== 'oidc') {
+    throw new Error('SSO connection is not available');
+  }
+
+  const metadata = await discoverOidcProvider(connection.oidcIssuer!);
+  const idToken = await exchangeAuthorizationCode(metadata, {
+    clientId: connection.oidcClientId!,
+    clientSecret: await SsoService.getClientSecret(admin, connection.id),
+    code,
+    redirectUri,
+    codeVerifier: loginState.codeVerifier,
+  });
+  const claims = await verifyIdToken(idToken, metadata, {
+    clientId: connection.oidcClientId!,
+    nonce: loginState.nonce,
+  });
+
+  // The IdP may only sign in users of the domain it was configured for
+  const email = claims.email?.toLowerCase();
+  if (!email || emailDomain(email) !== connection.domain) {
+    throw new Error('ID token email does not belong to the connection domain');
+  }
+  if (claims.email_verified === false || claims.email_verified === 'false') {
+    throw new Error('ID token email is not verified');
+  }
+
+  const fullName =
+    claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ') || null;
+
+  const { error: createError } = await admin.auth.admin.createUser({
+    email,
+    email_confirm: true,
+    user_metadata: { full_name: fullName },
+    app_metadata: { sso_connection_id: connection.id },
+  });
+  // 422: a user with this email already exists and is linked below
+  if (createError && createError.status !== 422) {
+    throw createError;
+  }
+
+  const { data: link, error: linkError } = await admin.auth.admin.generateLink({
+    type: 'magiclink',
+    email,
+  });
+  if (linkError || !link.user) {
+    throw linkError ?? new Error('Could not create sign-in link');
+  }
+
+  const { error: verifyError } = await supabase.auth.verifyOtp({
+    type: 'magiclink',
+    token_hash: link.properties.hashed_token,
+  });
+  if (verifyError) {
+    throw verifyError;
+  }
+
+  await SsoService.provisionUser(admin, link.user.id, connection, {
+    fullName,
+    isNewUser: !createError,
+  });
+
+  logger.info('sso.oidc.signed_in', 'OIDC sign-in completed', {
+    userId: link.user.id,
+    connectionId: connection.id,
+  });
+
+  return loginState.redirect;
+}
 
 export async function GET(request: Request) {
   const requestUrl = new URL(request.url);
   const code = requestUrl.searchParams.get('code');
+  const state = requestUrl.searchParams.get('state');
   const origin = requestUrl.origin;
 
   if (code) {
@@ -27,14 +158,41 @@ export async function GET(request: Request) {
       }
     );
 
-    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    // OIDC connections come back with the state set in /api/auth/sso
+    const loginState = readOidcLoginState(cookieStore.get(OIDC_LOGIN_COOKIE)?.value);
+    if (state && loginState) {
+      cookieStore.set({ name: OIDC_LOGIN_COOKIE, value: '', path: '/auth/callback', maxAge: 0 });
+
+      if (state !== loginState.state) {
+        return NextResponse.redirect(`${origin}/login?error=sso_failed`);
+      }
+
+      try {
+        const redirectUrl = await completeOidcSignIn(
+          supabase as unknown as SupabaseClient,
+          loginState,
+          code,
+          `${origin}/auth/callback`
+        );
+        return NextResponse.redirect(safeRedirectUrl(origin, redirectUrl));
+      } catch (error) {
+        logger.error('sso.oidc.failed', 'OIDC sign-in failed', {
+          connectionId: loginState.connectionId,
+          error: (error as Error).message,
+        });
+        return NextResponse.redirect(`${origin}/login?error=sso_failed`);
+      }
+    }
+
+    const { data, error } = await supabase.auth.exchangeCodeForSession(code);
 
     if (!error) {
+      await provisionSamlUser(data.user);
+
       // Handle redirect parameter after successful OAuth
-      const redirectUrl = requestUrl.searchParams.get('redirect');
-      const destination =
-        redirectUrl && redirectUrl !== '/' ? decodeURIComponent(redirectUrl) : '/';
-      return NextResponse.redirect(`${origin}${destination}`);
+      return NextResponse.redirect(
+        safeRedirectUrl(origin, requestUrl.searchParams.get('redirect'))
+      );
     }
   }
 
@@ -125,6 +125,9 @@ const staticQuestionnaireSchema = z.object({
         amount: z.number().min(0).optional(),
       })
       .optional(),
+    content_strategy: z.enum(['scratch', 'adapt', 'license', 'curate', 'hybrid']).optional(),
+    // Ids of course materials uploaded for adapt/hybrid strategies
+    existing_materials: z.array(z.string()).optional(),
   }),
 });
 
@@ -162,6 +165,8 @@ const defaultValues: StaticQuestionnaireFormData = {
       currency: 'USD',
       amount: 0,
     },
+    content_strategy: 'scratch',
+    existing_materials: [],
   },
 };
 
@@ -13,9 +13,26 @@ import { Compass, CheckCircle, AlertCircle, Sparkles, Orbit } from 'lucide-react
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { createServiceLogger } from '@/lib/logging';
+import type { BlueprintGenerationJob } from '@/lib/services/generationJobStore';
+import type { GenerateBlueprintAPIResponse } from '@/app/api/blueprints/generate/route';
 
 const logger = createServiceLogger('ui');
 
+// Maps WorkflowTracer steps reported by the generation job to UI progress
+const JOB_STEP_PROGRESS: Record<string, { step: number; message: string; progress: number }> = {
+  start: { step: 1, message: 'Analyzing questionnaire responses', progress: 10 },
+  'validate-static': { step: 1, message: 'Analyzing questionnaire responses', progress: 12 },
+  'validate-dynamic': { step: 1, message: 'Analyzing questionnaire responses', progress: 15 },
+  'sanitize-data': { step: 2, message: 'Generating learning objectives', progress: 20 },
+  'cache-lookup': { step: 2, message: 'Generating learning objectives', progress: 25 },
+  'build-prompt': { step: 2, message: 'Generating learning objectives', progress: 30 },
+  'model-request': { step: 3, message: 'Mapping your learning universe', progress: 50 },
+  'model-failed': { step: 3, message: 'Retrying with our fallback model', progress: 50 },
+  'model-response': { step: 5, message: 'Planning resources and timeline', progress: 85 },
+  saving: { step: 6, message: 'Finalizing assessment strategy', progress: 95 },
+  completed: { step: 6, message: 'Finalizing assessment strategy', progress: 100 },
+};
+
 interface GeneratingPageProps {
   params: Promise<{ id: string }>;
 }
@@ -30,50 +47,134 @@ function GeneratingContent({ id }: { id: string }): React.JSX.Element {
   const [_model, setModel] = useState<'claude-sonnet-4' | 'claude-opus-4' | 'ollama' | null>(null);
 
   useEffect(() => {
-    let progressInterval: NodeJS.Timeout | null = null;
-    let completed = false;
-
-    // Real blueprint generation steps that match backend processing
-    const blueprintSteps = [
-      { step: 1, message: 'Analyzing questionnaire responses', progress: 10 },
-      { step: 2, message: 'Generating learning objectives', progress: 30 },
-      { step: 3, message: 'Mapping your learning universe', progress: 50 },
-      { step: 4, message: 'Creating content outline', progress: 70 },
-      { step: 5, message: 'Planning resources and timeline', progress: 90 },
-      { step: 6, message: 'Finalizing assessment strategy', progress: 95 },
-    ];
-
-    // Progress through real steps based on time elapsed
-    const startProgress = () => {
-      let stepIndex = 0;
-
-      progressInterval = setInterval(() => {
-        if (completed) return;
-
-        const currentStepInfo = blueprintSteps[stepIndex];
-        if (currentStepInfo) {
-          setCurrentStep(currentStepInfo.step);
-          setStatus(currentStepInfo.message);
-          setProgress(currentStepInfo.progress);
-
-          // Move to next step after appropriate time
-          if (stepIndex < blueprintSteps.length - 1) {
-            stepIndex++;
-          }
-        }
-      }, 5000); // Progress through each step every 5 seconds
+    let eventSource: EventSource | null = null;
+    let pollInterval: NodeJS.Timeout | null = null;
+    let finished = false;
+    const startTime = Date.now();
+
+    const stopWatching = () => {
+      eventSource?.close();
+      eventSource = null;
+      if (pollInterval) clearInterval(pollInterval);
+      pollInterval = null;
     };
 
-    const stopIntervals = () => {
-      if (progressInterval) clearInterval(progressInterval);
+    const complete = (model: string | null) => {
+      if (finished) return;
+      finished = true;
+      stopWatching();
+
+      setCurrentStep(6);
+      setProgress(100);
+      setStatus('Blueprint generated successfully!');
+      setModel(model as 'claude-sonnet-4' | 'claude-opus-4' | 'ollama' | null);
+
+      logger.info('blueprint.generation.ui.complete', 'Blueprint generated successfully', {
+        blueprintId: id,
+        model: model ?? undefined,
+        duration: Date.now() - startTime,
+      });
+
+      // Redirect to blueprint viewer
+      setTimeout(() => {
+        router.push(`/blueprint/${id}`);
+      }, 1500);
     };
 
-    const generateBlueprint = async () => {
-      const startTime = Date.now();
+    const fail = (errorMessage: string, details: Record<string, unknown> = {}) => {
+      if (finished) return;
+      finished = true;
+      stopWatching();
+
+      setError(errorMessage);
+      setStatus('Generation failed');
+      setProgress(100);
+
+      logger.error('blueprint.generation.ui.fatal_error', 'Fatal error during generation', {
+        blueprintId: id,
+        duration: Date.now() - startTime,
+        errorMessage,
+        ...details,
+      });
+
+      // Also log to console in development for immediate debugging
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Blueprint generation failed:', {
+          blueprintId: id,
+          errorMessage,
+          ...details,
+        });
+      }
+    };
 
-      try {
-        startProgress();
+    // Apply a job snapshot from the stream or a poll
+    const applyJob = (job: BlueprintGenerationJob) => {
+      if (finished) return;
+
+      if (job.status === 'succeeded') {
+        complete(job.model);
+        return;
+      }
+
+      if (job.status === 'failed') {
+        fail(job.error || 'Blueprint generation failed', { jobId: job.id, attempts: job.attempts });
+        return;
+      }
+
+      const stepInfo = job.currentStep ? JOB_STEP_PROGRESS[job.currentStep] : undefined;
+      if (stepInfo) {
+        setCurrentStep(stepInfo.step);
+        setProgress(stepInfo.progress);
+      }
+
+      const message = stepInfo?.message ?? 'Initializing blueprint generation...';
+      setStatus(
+        job.outputTokens > 0
+          ? `${message} (${job.outputTokens.toLocaleString()} tokens written)`
+          : message
+      );
+    };
+
+    const startPolling = (jobId: string) => {
+      if (pollInterval || finished) return;
+
+      pollInterval = setInterval(async () => {
+        try {
+          const response = await fetch(`/api/blueprints/generate/jobs/${jobId}`);
+          if (!response.ok) return;
+          const result = await response.json();
+          if (result.job) applyJob(result.job);
+        } catch {
+          // Transient network errors: keep polling
+        }
+      }, 3000);
+    };
+
+    // Prefer Server-Sent Events; fall back to polling if the stream is unavailable
+    const watchJob = (jobId: string) => {
+      if (typeof EventSource === 'undefined') {
+        startPolling(jobId);
+        return;
+      }
+
+      eventSource = new EventSource(`/api/blueprints/generate/jobs/${jobId}/stream`);
+
+      eventSource.addEventListener('progress', (event) => {
+        applyJob(JSON.parse((event as MessageEvent).data));
+      });
+
+      eventSource.onerror = () => {
+        // The server closes the stream periodically and EventSource reconnects on its own;
+        // only a permanently closed stream needs the polling fallback
+        if (eventSource?.readyState === EventSource.CLOSED) {
+          eventSource = null;
+          startPolling(jobId);
+        }
+      };
+    };
 
+    const startGeneration = async () => {
+      try {
         logger.info('blueprint.generation.ui.start', 'Starting blueprint generation from UI', {
           blueprintId: id,
           userId: user?.id,
@@ -88,20 +189,9 @@ function GeneratingContent({ id }: { id: string }): React.JSX.Element {
           throw new Error('User authentication is required');
         }
 
-        logger.info('blueprint.generation.ui.preparing_request', 'Preparing API request', {
-          blueprintId: id,
-          userId: user.id,
-        });
-
-        // Call blueprint generation endpoint
+        // Queue (or re-attach to) the generation job
         let response;
         try {
-          logger.info('blueprint.generation.ui.making_request', 'Making API request', {
-            blueprintId: id,
-            endpoint: '/api/blueprints/generate',
-            method: 'POST',
-          });
-
           response = await fetch('/api/blueprints/generate', {
             method: 'POST',
             headers: {
@@ -111,142 +201,75 @@ function GeneratingContent({ id }: { id: string }): React.JSX.Element {
               blueprintId: id,
             }),
           });
-
-          logger.info('blueprint.generation.ui.response_received', 'API response received', {
-            blueprintId: id,
-            status: response.status,
-            statusText: response.statusText,
-          });
         } catch (fetchError) {
           // Network error, server unreachable, or other fetch-related issues
-          const errorMessage = `Network error: Unable to connect to generation server. Please check your internet connection and try again.`;
-          const errorDetails = {
-            blueprintId: id,
-            errorType: 'network_error',
-            errorMessage: (fetchError as Error).message,
-            duration: Date.now() - startTime,
-          };
-
-          logger.error(
-            'blueprint.generation.ui.network_error',
-            'Network error during blueprint generation',
-            errorDetails
+          fail(
+            'Network error: Unable to connect to generation server. Please check your internet connection and try again.',
+            { errorType: 'network_error', errorDetail: (fetchError as Error).message }
           );
+          return;
+        }
 
-          throw new Error(errorMessage);
+        let result: GenerateBlueprintAPIResponse = { success: false };
+        try {
+          result = await response.json();
+        } catch {
+          // Handled by the status checks below
         }
 
         if (!response.ok) {
-          let errorMessage = 'Failed to generate blueprint';
-          let errorDetails = {};
-
-          try {
-            const errorData = await response.json();
-            errorMessage = errorData.error || errorMessage;
-
-            // Add more context based on status code
-            switch (response.status) {
-              case 400:
-                errorMessage = `Invalid request: ${errorMessage}`;
-                break;
-              case 401:
-                errorMessage = `Authentication required: ${errorMessage}`;
-                break;
-              case 404:
-                errorMessage = `Blueprint not found: ${errorMessage}`;
-                break;
-              case 429:
-                errorMessage = `Usage limit exceeded: ${errorMessage}`;
-                break;
-              case 500:
-                errorMessage = `Server error: ${errorMessage}`;
-                break;
-              default:
-                errorMessage = `HTTP ${response.status}: ${errorMessage}`;
-            }
-
-            errorDetails = {
-              statusCode: response.status,
-              errorData,
-            };
-          } catch (parseError) {
-            errorMessage = `HTTP ${response.status}: Unable to parse error response`;
-            errorDetails = {
-              statusCode: response.status,
-              parseError: (parseError as Error).message,
-            };
+          const errorMessage = result.error || 'Failed to generate blueprint';
+
+          // Add more context based on status code
+          switch (response.status) {
+            case 400:
+              fail(`Invalid request: ${errorMessage}`, { statusCode: response.status });
+              break;
+            case 401:
+              fail(`Authentication required: ${errorMessage}`, { statusCode: response.status });
+              break;
+            case 404:
+              fail(`Blueprint not found: ${errorMessage}`, { statusCode: response.status });
+              break;
+            case 429:
+              fail(`Usage limit exceeded: ${errorMessage}`, { statusCode: response.status });
+              break;
+            case 500:
+              fail(`Server error: ${errorMessage}`, { statusCode: response.status });
+              break;
+            default:
+              fail(`HTTP ${response.status}: ${errorMessage}`, { statusCode: response.status });
           }
-
-          logger.error('blueprint.generation.ui.error', 'Blueprint generation failed', {
-            blueprintId: id,
-            duration: Date.now() - startTime,
-            ...errorDetails,
-          });
-
-          throw new Error(errorMessage);
+          return;
         }
 
-        const result = await response.json();
-
-        logger.info('blueprint.generation.ui.response_parsed', 'Response parsed successfully', {
-          blueprintId: id,
-          hasBlueprint: !!result.blueprint,
-          hasMetadata: !!result.metadata,
-          metadataModel: result.metadata?.model,
-        });
-
-        completed = true;
-        stopIntervals();
-
-        setProgress(100);
-        setStatus('Blueprint generated successfully!');
-        setModel(result.metadata?.model);
+        // Already generated earlier
+        if (!result.jobId) {
+          complete(result.metadata?.model ?? null);
+          return;
+        }
 
-        logger.info('blueprint.generation.ui.complete', 'Blueprint generated successfully', {
+        logger.info('blueprint.generation.ui.job_queued', 'Generation job queued', {
           blueprintId: id,
-          model: result.metadata?.model,
-          duration: Date.now() - startTime,
-          fallbackUsed: result.metadata?.fallbackUsed,
+          jobId: result.jobId,
+          status: result.status,
         });
 
-        // Redirect to blueprint viewer
-        setTimeout(() => {
-          router.push(`/blueprint/${id}`);
-        }, 1500);
+        setCurrentStep(1);
+        setProgress(5);
+        watchJob(result.jobId);
       } catch (error) {
-        completed = true;
-        stopIntervals();
-
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-        const errorDetails = {
-          blueprintId: id,
-          duration: Date.now() - startTime,
+        fail(error instanceof Error ? error.message : 'Unknown error occurred', {
           errorType: error instanceof Error ? error.constructor.name : typeof error,
-          errorMessage,
           stack: error instanceof Error ? error.stack : undefined,
-        };
-
-        setError(errorMessage);
-        setStatus('Generation failed');
-        setProgress(100);
-
-        logger.error(
-          'blueprint.generation.ui.fatal_error',
-          'Fatal error during generation',
-          errorDetails
-        );
-
-        // Also log to console in development for immediate debugging
-        if (process.env.NODE_ENV === 'development') {
-          console.error('Blueprint generation failed:', errorDetails);
-        }
+        });
       }
     };
 
-    generateBlueprint();
+    startGeneration();
 
     return () => {
-      stopIntervals();
+      stopWatching();
     };
   }, [id, router, user?.id]);
 
@@ -28,9 +28,12 @@ import { useCurrency } from '@/contexts/CurrencyContext';
 import { getSupabaseBrowserClient } from '@/lib/supabase/client';
 import { getAvailableUpgradePlans } from '@/lib/utils/tierDisplay';
 import { CheckoutButton } from '@/components/pricing/CheckoutButton';
+import { PromoCodeInput, type AppliedCoupon } from '@/components/pricing/PromoCodeInput';
 import { RazorpayProvider } from '@/components/providers/RazorpayProvider';
 import { ToastProvider } from '@/components/ui/Toast';
-import { getPlanPrice } from '@/lib/config/razorpayPlans';
+import { getPlanPrice, getTrialDays } from '@/lib/config/razorpayPlans';
+import { quoteCoupon } from '@/lib/services/couponService';
+import type { SubscriptionTier } from '@/types/razorpay';
 
 interface Plan {
   id: string;
@@ -204,13 +207,28 @@ function PricingCardComponent({
   plan,
   isTeam,
   billingCycle,
+  coupon,
 }: {
   plan: Plan;
   isTeam?: boolean;
   billingCycle?: 'monthly' | 'yearly';
+  coupon?: AppliedCoupon | null;
 }) {
   const { formatPrice } = useCurrency();
 
+  const tier = plan.id as SubscriptionTier;
+  const couponApplies =
+    !!coupon &&
+    (!coupon.applicableTiers || coupon.applicableTiers.includes(tier)) &&
+    (!coupon.applicableBillingCycles ||
+      coupon.applicableBillingCycles.includes(billingCycle || 'monthly'));
+  const discountedPrice =
+    coupon && couponApplies && coupon.discountValue > 0
+      ? quoteCoupon(coupon, plan.price * 100).finalAmount / 100
+      : null;
+  // Tier trials are for first subscriptions; the API confirms at checkout
+  const trialDays = Math.max(getTrialDays(tier), couponApplies ? coupon.trialDays : 0);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -240,11 +258,21 @@ function PricingCardComponent({
       {/* Price - displaying actual Razorpay dashboard amounts in INR */}
       <div className="mb-6">
         <div className="flex items-baseline gap-2">
+          {discountedPrice !== null && (
+            <span className="text-xl text-[rgb(176,197,198)] line-through">
+              ₹{plan.price.toLocaleString('en-IN')}
+            </span>
+          )}
           <span className="text-4xl font-bold text-[rgb(167,218,219)]">
-            ₹{plan.price.toLocaleString('en-IN')}
+            ₹{(discountedPrice ?? plan.price).toLocaleString('en-IN')}
           </span>
           <span className="text-lg text-[rgb(176,197,198)]">/month</span>
         </div>
+        {trialDays > 0 && !isTeam && (
+          <p className="mt-2 text-sm font-semibold text-[rgb(167,218,219)]">
+            {trialDays}-day free trial
+          </p>
+        )}
       </div>
 
       {/* Starmaps/Blueprints allocation */}
@@ -278,6 +306,7 @@ function PricingCardComponent({
             planId={plan.id}
             tier={plan.name}
             billingCycle={billingCycle || 'monthly'}
+            couponCode={couponApplies ? coupon.code : undefined}
             disabled={false}
             variant="primary"
             size="md"
@@ -310,6 +339,7 @@ function PricingPageContent() {
   const [userTier, setUserTier] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [billingCycle, setBillingCycle] = useState<'monthly' | 'yearly'>('monthly');
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
 
   useEffect(() => {
     async function fetchUserTier() {
@@ -514,9 +544,14 @@ function PricingPageContent() {
           <motion.div
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
-            className="mb-8 flex justify-start"
+            className="mb-8 flex flex-wrap items-start justify-between gap-4"
           >
             <CurrencyToggle />
+            <PromoCodeInput
+              billingCycle={billingCycle}
+              appliedCoupon={appliedCoupon}
+              onApply={setAppliedCoupon}
+            />
           </motion.div>
 
           <h3 className="font-heading mb-12 text-left text-4xl font-bold text-[rgb(167,218,219)]">
@@ -529,7 +564,12 @@ function PricingPageContent() {
           ) : filteredIndividualPlans.length > 0 ? (
             <div className="grid gap-8 md:grid-cols-3">
               {filteredIndividualPlans.map((plan) => (
-                <PricingCardComponent key={plan.id} plan={plan} billingCycle={billingCycle} />
+                <PricingCardComponent
+                  key={plan.id}
+                  plan={plan}
+                  billingCycle={billingCycle}
+                  coupon={appliedCoupon}
+                />
               ))}
             </div>
           ) : (
@@ -16,9 +16,15 @@ interface SharedBlueprintViewProps {
     blueprint_json: BlueprintJSON;
     blueprint_markdown?: string;
   };
+  shareToken?: string;
+  sharePassword?: string;
 }
 
-export default function SharedBlueprintView({ blueprint }: SharedBlueprintViewProps) {
+export default function SharedBlueprintView({
+  blueprint,
+  shareToken,
+  sharePassword,
+}: SharedBlueprintViewProps) {
   const [isButtonHovered, setIsButtonHovered] = useState(false);
   const [isSolaraButtonHovered, setIsSolaraButtonHovered] = useState(false);
   const [isPresentButtonHovered, setIsPresentButtonHovered] = useState(false);
@@ -273,6 +279,8 @@ export default function SharedBlueprintView({ blueprint }: SharedBlueprintViewPr
             <InteractiveBlueprintDashboard
               blueprint={normalizedBlueprint}
               blueprintId={blueprint.id}
+              shareToken={shareToken}
+              sharePassword={sharePassword}
               isPublicView={true}
             />
           </motion.div>
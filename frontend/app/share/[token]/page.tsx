@@ -1,8 +1,8 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, Lock, Loader2 } from 'lucide-react';
 import SharedBlueprintView from './SharedBlueprintView';
 import type { BlueprintJSON } from '@/components/features/blueprints/types';
 
@@ -22,34 +22,53 @@ export default function SharedBlueprintPage({ params }: PageProps): React.JSX.El
   const [data, setData] = useState<BlueprintData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [token, setToken] = useState<string | undefined>(undefined);
+  const [password, setPassword] = useState('');
+  const [unlockedPassword, setUnlockedPassword] = useState<string | undefined>(undefined);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const loadSharedBlueprint = useCallback(async (shareToken: string, sharePassword?: string) => {
+    const headers: Record<string, string> = {};
+    if (sharePassword) headers['x-share-password'] = sharePassword;
+    // The request comes from this page, so pass on where the visitor came from
+    if (document.referrer) headers['x-share-referrer'] = document.referrer;
+
+    // Fetch blueprint using share token (public API, no auth required)
+    const response = await fetch(`/api/blueprints/share/${shareToken}`, { headers });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      if ((response.status === 401 || response.status === 429) && result.passwordRequired) {
+        setPasswordRequired(true);
+        setPasswordError(sharePassword ? result.error || 'Incorrect password' : null);
+      } else if (response.status === 410) {
+        setError('This share link has expired. Ask the owner for a new link.');
+      } else if (response.status === 404) {
+        setError('This blueprint is not available or sharing has been disabled.');
+      } else {
+        setError('Failed to load blueprint. Please try again later.');
+      }
+      return;
+    }
+
+    if (!result.success || !result.blueprint) {
+      setError('Invalid blueprint data received.');
+      return;
+    }
+
+    setPasswordRequired(false);
+    setUnlockedPassword(sharePassword);
+    setData(result.blueprint as BlueprintData);
+  }, []);
 
   useEffect(() => {
-    async function loadSharedBlueprint() {
+    async function loadInitial() {
       try {
         const { token: shareToken } = await params;
-
-        // Fetch blueprint using share token (public API, no auth required)
-        const response = await fetch(`/api/blueprints/share/${shareToken}`);
-
-        if (!response.ok) {
-          if (response.status === 404) {
-            setError('This blueprint is not available or sharing has been disabled.');
-          } else {
-            setError('Failed to load blueprint. Please try again later.');
-          }
-          setLoading(false);
-          return;
-        }
-
-        const result = await response.json();
-
-        if (!result.success || !result.blueprint) {
-          setError('Invalid blueprint data received.');
-          setLoading(false);
-          return;
-        }
-
-        setData(result.blueprint as BlueprintData);
+        setToken(shareToken);
+        await loadSharedBlueprint(shareToken);
       } catch (err) {
         console.error('Error loading shared blueprint:', err);
         setError('An unexpected error occurred while loading the blueprint.');
@@ -58,8 +77,23 @@ export default function SharedBlueprintPage({ params }: PageProps): React.JSX.El
       }
     }
 
-    loadSharedBlueprint();
-  }, [params]);
+    loadInitial();
+  }, [params, loadSharedBlueprint]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !password || isUnlocking) return;
+
+    setIsUnlocking(true);
+    try {
+      await loadSharedBlueprint(token, password);
+    } catch (err) {
+      console.error('Error unlocking shared blueprint:', err);
+      setPasswordError('Something went wrong. Please try again.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
 
   // Update document metadata when data is loaded
   useEffect(() => {
@@ -135,6 +169,46 @@ export default function SharedBlueprintPage({ params }: PageProps): React.JSX.El
     );
   }
 
+  // Password prompt
+  if (passwordRequired && !error) {
+    return (
+      <div className="bg-background flex min-h-screen items-center justify-center px-4">
+        <motion.form
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          onSubmit={handleUnlock}
+          className="w-full max-w-sm text-center"
+        >
+          <div className="bg-primary/10 mx-auto mb-6 flex h-20 w-20 items-center justify-center rounded-full">
+            <Lock className="text-primary h-10 w-10" />
+          </div>
+          <h2 className="mb-3 text-2xl font-bold text-white">Password Required</h2>
+          <p className="text-text-secondary mb-6">
+            Enter the password you were given to view this blueprint.
+          </p>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoFocus
+            disabled={isUnlocking}
+            className="placeholder:text-text-disabled focus:border-primary focus:ring-primary/50 mb-3 w-full rounded-lg border border-white/10 bg-white/5 px-4 py-3 text-white focus:ring-2 focus:outline-none disabled:opacity-50"
+          />
+          {passwordError && <p className="text-error mb-3 text-sm">{passwordError}</p>}
+          <button
+            type="submit"
+            disabled={!password || isUnlocking}
+            className="bg-primary hover:bg-primary/90 inline-flex w-full items-center justify-center gap-2 rounded-full px-6 py-3 text-sm font-semibold text-black transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isUnlocking && <Loader2 className="h-4 w-4 animate-spin" />}
+            View Blueprint
+          </button>
+        </motion.form>
+      </div>
+    );
+  }
+
   // Error state
   if (error || !data) {
     return (
@@ -162,5 +236,7 @@ export default function SharedBlueprintPage({ params }: PageProps): React.JSX.El
     );
   }
 
-  return <SharedBlueprintView blueprint={data} />;
+  return (
+    <SharedBlueprintView blueprint={data} shareToken={token} sharePassword={unlockedPassword} />
+  );
 }
@@ -0,0 +1,354 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ExternalLink, Loader2, Lock } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { FEEDBACK_STATUS_LABELS } from '@/components/feedback/FeedbackStatusBadge';
+import { PRIORITY_LABELS, userLabel } from './FeedbackTriageBoard';
+import type { FeedbackStatus, FeedbackSubmission, UserInfo } from '@/lib/types/feedback';
+import { cn } from '@/lib/utils';
+
+const STATUSES = Object.keys(FEEDBACK_STATUS_LABELS) as FeedbackStatus[];
+
+const selectClassName =
+  'w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:outline-none';
+
+interface FeedbackDetailSheetProps {
+  feedbackId: string | null;
+  assignees: UserInfo[];
+  onClose: () => void;
+  onUpdated: (feedback: FeedbackSubmission) => void;
+}
+
+/**
+ * Triage panel for one submission: report details, the full conversation
+ * including internal notes, and controls for status, priority and assignee
+ */
+export function FeedbackDetailSheet({
+  feedbackId,
+  assignees,
+  onClose,
+  onUpdated,
+}: FeedbackDetailSheetProps) {
+  const [feedback, setFeedback] = useState<FeedbackSubmission | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [status, setStatus] = useState<FeedbackStatus>('open');
+  const [priority, setPriority] = useState(3);
+  const [assignedTo, setAssignedTo] = useState('');
+  const [statusMessage, setStatusMessage] = useState('');
+
+  const [reply, setReply] = useState('');
+  const [internal, setInternal] = useState(true);
+
+  const applyFeedback = useCallback((next: FeedbackSubmission) => {
+    setFeedback(next);
+    setStatus(next.status);
+    setPriority(next.priority);
+    setAssignedTo(next.assigned_to ?? '');
+  }, []);
+
+  useEffect(() => {
+    if (!feedbackId) {
+      setFeedback(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setStatusMessage('');
+    setReply('');
+
+    fetch(`/api/admin/feedback/${feedbackId}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load feedback');
+        applyFeedback(data.feedback);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load feedback'))
+      .finally(() => setLoading(false));
+  }, [feedbackId, applyFeedback]);
+
+  const hasTriageChanges =
+    feedback !== null &&
+    (status !== feedback.status ||
+      priority !== feedback.priority ||
+      assignedTo !== (feedback.assigned_to ?? ''));
+
+  const handleSaveTriage = async () => {
+    if (!feedback) return;
+
+    const update: Record<string, unknown> = {};
+    if (status !== feedback.status) {
+      update.status = status;
+      if (statusMessage.trim()) update.message = statusMessage.trim();
+    }
+    if (priority !== feedback.priority) update.priority = priority;
+    if (assignedTo !== (feedback.assigned_to ?? '')) update.assigned_to = assignedTo || null;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/feedback/${feedback.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update feedback');
+
+      applyFeedback(data.feedback);
+      onUpdated(data.feedback);
+      setStatusMessage('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update feedback');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddResponse = async () => {
+    if (!feedback || !reply.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/feedback/${feedback.id}/responses`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          response: reply.trim(),
+          response_type: internal ? 'internal_note' : 'comment',
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to add response');
+
+      setFeedback({
+        ...feedback,
+        responses: [...(feedback.responses ?? []), data.response],
+      });
+      setReply('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add response');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={feedbackId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent
+        side="right"
+        className="w-full overflow-y-auto border-white/10 bg-[#0A1628] text-white sm:max-w-xl"
+      >
+        {loading || !feedback ? (
+          <div className="flex h-full items-center justify-center text-white/60">
+            {loading ? <Loader2 className="h-6 w-6 animate-spin" /> : error}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <SheetHeader>
+              <SheetTitle className="pr-6 text-white">{feedback.title}</SheetTitle>
+              <SheetDescription className="text-white/60">
+                {feedback.feedback_type?.name ?? 'Feedback'} from {userLabel(feedback.user)} ·{' '}
+                {format(new Date(feedback.created_at), 'd MMM yyyy, HH:mm')}
+              </SheetDescription>
+            </SheetHeader>
+
+            {/* Report */}
+            <section className="space-y-3 text-sm">
+              {feedback.description && (
+                <p className="whitespace-pre-wrap text-white/80">{feedback.description}</p>
+              )}
+              {feedback.page_url && (
+                <a
+                  href={feedback.page_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 break-all text-cyan-400 hover:underline"
+                >
+                  {feedback.page_url}
+                  <ExternalLink className="h-3 w-3 shrink-0" />
+                </a>
+              )}
+              {feedback.ai_tags && feedback.ai_tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {feedback.ai_tags.map((tag) => (
+                    <span
+                      key={tag}
+                      className="rounded bg-cyan-500/10 px-1.5 py-0.5 text-xs text-cyan-300"
+                    >
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {feedback.error_details && (
+                <details className="rounded-lg border border-red-500/20 bg-red-500/5 p-3">
+                  <summary className="cursor-pointer text-red-300">
+                    Client error: {String(feedback.error_details.message ?? 'Unknown error')}
+                  </summary>
+                  <pre className="mt-2 max-h-48 overflow-auto text-xs whitespace-pre-wrap text-white/60">
+                    {JSON.stringify(feedback.error_details, null, 2)}
+                  </pre>
+                </details>
+              )}
+              {(feedback.browser_info || feedback.user_agent) && (
+                <details className="rounded-lg border border-white/10 bg-white/5 p-3">
+                  <summary className="cursor-pointer text-white/70">Browser</summary>
+                  <pre className="mt-2 max-h-48 overflow-auto text-xs whitespace-pre-wrap text-white/60">
+                    {feedback.user_agent}
+                    {feedback.browser_info && `\n${JSON.stringify(feedback.browser_info, null, 2)}`}
+                  </pre>
+                </details>
+              )}
+            </section>
+
+            {/* Triage */}
+            <section className="space-y-3 rounded-xl border border-white/10 bg-white/5 p-4">
+              <h4 className="text-sm font-semibold">Triage</h4>
+              <div className="grid grid-cols-3 gap-2">
+                <select
+                  value={status}
+                  onChange={(event) => setStatus(event.target.value as FeedbackStatus)}
+                  aria-label="Status"
+                  className={selectClassName}
+                >
+                  {STATUSES.map((value) => (
+                    <option key={value} value={value}>
+                      {FEEDBACK_STATUS_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={priority}
+                  onChange={(event) => setPriority(Number(event.target.value))}
+                  aria-label="Priority"
+                  className={selectClassName}
+                >
+                  {[5, 4, 3, 2, 1].map((value) => (
+                    <option key={value} value={value}>
+                      {PRIORITY_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={assignedTo}
+                  onChange={(event) => setAssignedTo(event.target.value)}
+                  aria-label="Assignee"
+                  className={selectClassName}
+                >
+                  <option value="">Unassigned</option>
+                  {assignees.map((assignee) => (
+                    <option key={assignee.id} value={assignee.id}>
+                      {userLabel(assignee)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {status !== feedback.status && (
+                <input
+                  value={statusMessage}
+                  onChange={(event) => setStatusMessage(event.target.value)}
+                  placeholder="Message to the reporter (optional)"
+                  maxLength={5000}
+                  className="w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/40 focus:outline-none"
+                />
+              )}
+              <button
+                type="button"
+                onClick={handleSaveTriage}
+                disabled={!hasTriageChanges || saving}
+                className="rounded-lg bg-cyan-500 px-4 py-2 text-sm font-medium text-[#020C1B] transition-opacity disabled:opacity-40"
+              >
+                Save changes
+              </button>
+            </section>
+
+            {/* Conversation */}
+            <section className="space-y-3">
+              <h4 className="text-sm font-semibold">Activity</h4>
+              {(feedback.responses ?? []).length === 0 && (
+                <p className="text-sm text-white/50">No replies or notes yet.</p>
+              )}
+              {(feedback.responses ?? []).map((response) => (
+                <div
+                  key={response.id}
+                  className={cn(
+                    'rounded-lg border p-3 text-sm',
+                    response.is_internal
+                      ? 'border-yellow-500/20 bg-yellow-500/5'
+                      : 'border-white/10 bg-white/5'
+                  )}
+                >
+                  <div className="mb-1 flex items-center justify-between gap-2 text-xs text-white/50">
+                    <span className="flex items-center gap-1">
+                      {response.is_internal && <Lock className="h-3 w-3 text-yellow-400" />}
+                      {userLabel(response.responder)}
+                      {response.response_type === 'status_change' && ' · status change'}
+                    </span>
+                    <span>{format(new Date(response.created_at), 'd MMM, HH:mm')}</span>
+                  </div>
+                  <p className="whitespace-pre-wrap text-white/80">{response.response}</p>
+                </div>
+              ))}
+
+              {feedback.status_history && feedback.status_history.length > 0 && (
+                <ul className="space-y-1 text-xs text-white/40">
+                  {feedback.status_history.map((entry) => (
+                    <li key={entry.id}>
+                      {format(new Date(entry.created_at), 'd MMM, HH:mm')}:{' '}
+                      {entry.old_status ? FEEDBACK_STATUS_LABELS[entry.old_status] : 'New'} →{' '}
+                      {FEEDBACK_STATUS_LABELS[entry.new_status]}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="space-y-2">
+                <textarea
+                  value={reply}
+                  onChange={(event) => setReply(event.target.value)}
+                  placeholder={internal ? 'Internal note for the team' : 'Reply to the reporter'}
+                  maxLength={5000}
+                  rows={3}
+                  className="w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/40 focus:outline-none"
+                />
+                <div className="flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-xs text-white/60">
+                    <input
+                      type="checkbox"
+                      checked={internal}
+                      onChange={(event) => setInternal(event.target.checked)}
+                    />
+                    Internal note
+                  </label>
+                  <button
+                    type="button"
+                    onClick={handleAddResponse}
+                    disabled={!reply.trim() || saving}
+                    className="rounded-lg border border-white/10 px-4 py-2 text-sm text-white transition-colors hover:bg-white/5 disabled:opacity-40"
+                  >
+                    {internal ? 'Add note' : 'Send reply'}
+                  </button>
+                </div>
+              </div>
+            </section>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
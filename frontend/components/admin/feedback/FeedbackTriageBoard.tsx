@@ -0,0 +1,256 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Frown, Loader2, Meh, RefreshCw, Search, Smile, UserCircle } from 'lucide-react';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { FEEDBACK_STATUS_LABELS } from '@/components/feedback/FeedbackStatusBadge';
+import { FeedbackDetailSheet } from './FeedbackDetailSheet';
+import type {
+  FeedbackStatus,
+  FeedbackSubmission,
+  FeedbackType,
+  UserInfo,
+} from '@/lib/types/feedback';
+import { cn } from '@/lib/utils';
+
+const BOARD_COLUMNS: FeedbackStatus[] = ['open', 'in_progress', 'resolved', 'closed', 'duplicate'];
+
+export const PRIORITY_LABELS: Record<number, string> = {
+  5: 'Critical',
+  4: 'High',
+  3: 'Medium',
+  2: 'Low',
+  1: 'Minimal',
+};
+
+const PRIORITY_STYLES: Record<number, string> = {
+  5: 'bg-red-500/20 text-red-300',
+  4: 'bg-orange-500/20 text-orange-300',
+  3: 'bg-yellow-500/15 text-yellow-200',
+  2: 'bg-white/10 text-white/70',
+  1: 'bg-white/5 text-white/50',
+};
+
+export function userLabel(user: UserInfo | undefined | null): string {
+  return user?.full_name || user?.email || 'Unknown user';
+}
+
+function SentimentIcon({ score }: { score: number | null }) {
+  if (score === null) return null;
+  if (score > 0) return <Smile className="h-4 w-4 text-green-400" aria-label="Positive" />;
+  if (score < 0) return <Frown className="h-4 w-4 text-red-400" aria-label="Negative" />;
+  return <Meh className="h-4 w-4 text-white/40" aria-label="Neutral" />;
+}
+
+/**
+ * Admin triage board for user feedback: one column per status, filtered by
+ * assignee, type and text. Cards open the detail sheet for assignment, status
+ * changes, replies and internal notes.
+ */
+export function FeedbackTriageBoard() {
+  const [feedback, setFeedback] = useState<FeedbackSubmission[]>([]);
+  const [assignees, setAssignees] = useState<UserInfo[]>([]);
+  const [types, setTypes] = useState<FeedbackType[]>([]);
+  const [assignedTo, setAssignedTo] = useState('');
+  const [typeId, setTypeId] = useState('');
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const loadFeedback = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams();
+    if (assignedTo) params.set('assignedTo', assignedTo);
+    if (typeId) params.set('typeId', typeId);
+    if (appliedSearch) params.set('search', appliedSearch);
+
+    try {
+      const response = await fetch(`/api/admin/feedback?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load feedback');
+      }
+      setFeedback(data.feedback);
+      setAssignees(data.assignees);
+      setTypes(data.types);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load feedback');
+    } finally {
+      setLoading(false);
+    }
+  }, [assignedTo, typeId, appliedSearch]);
+
+  useEffect(() => {
+    loadFeedback();
+  }, [loadFeedback]);
+
+  const columns = useMemo(
+    () =>
+      BOARD_COLUMNS.map((status) => ({
+        status,
+        items: feedback.filter((item) => item.status === status),
+      })),
+    [feedback]
+  );
+
+  const handleUpdated = (updated: FeedbackSubmission) => {
+    setFeedback((current) =>
+      current.map((item) => (item.id === updated.id ? { ...item, ...updated } : item))
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <GlassCard className="flex flex-wrap items-center gap-3">
+        <form
+          className="relative min-w-[220px] flex-1"
+          onSubmit={(event) => {
+            event.preventDefault();
+            setAppliedSearch(search.trim());
+          }}
+        >
+          <Search className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-white/40" />
+          <input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search titles and descriptions"
+            className="w-full rounded-lg border border-white/10 bg-white/5 py-2 pr-3 pl-9 text-sm text-white placeholder:text-white/40 focus:border-cyan-500/50 focus:outline-none"
+          />
+        </form>
+
+        <select
+          value={assignedTo}
+          onChange={(event) => setAssignedTo(event.target.value)}
+          aria-label="Filter by assignee"
+          className="rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:outline-none"
+        >
+          <option value="">Everyone</option>
+          <option value="unassigned">Unassigned</option>
+          {assignees.map((assignee) => (
+            <option key={assignee.id} value={assignee.id}>
+              {userLabel(assignee)}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={typeId}
+          onChange={(event) => setTypeId(event.target.value)}
+          aria-label="Filter by type"
+          className="rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:outline-none"
+        >
+          <option value="">All types</option>
+          {types.map((type) => (
+            <option key={type.id} value={type.id}>
+              {type.name}
+            </option>
+          ))}
+        </select>
+
+        <button
+          type="button"
+          onClick={loadFeedback}
+          disabled={loading}
+          className="flex items-center gap-2 rounded-lg border border-white/10 px-3 py-2 text-sm text-white/70 transition-colors hover:bg-white/5 hover:text-white"
+        >
+          <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+          Refresh
+        </button>
+      </GlassCard>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {/* Board */}
+      {loading && feedback.length === 0 ? (
+        <div className="flex items-center justify-center py-16 text-white/60">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        <div className="grid auto-cols-[minmax(260px,1fr)] grid-flow-col gap-4 overflow-x-auto pb-4">
+          {columns.map(({ status, items }) => (
+            <div key={status} className="flex min-h-[200px] flex-col rounded-2xl bg-white/5 p-3">
+              <div className="mb-3 flex items-center justify-between px-1">
+                <h3 className="text-sm font-semibold text-white">
+                  {FEEDBACK_STATUS_LABELS[status]}
+                </h3>
+                <span className="rounded-full bg-white/10 px-2 py-0.5 text-xs text-white/60">
+                  {items.length}
+                </span>
+              </div>
+
+              <div className="space-y-2">
+                {items.map((item) => (
+                  <button
+                    key={item.id}
+                    type="button"
+                    onClick={() => setSelectedId(item.id)}
+                    className="w-full rounded-xl border border-white/10 bg-[#0A1628] p-3 text-left transition-colors hover:border-cyan-500/40"
+                  >
+                    <div className="mb-2 flex items-center justify-between gap-2">
+                      <span className="flex min-w-0 items-center gap-1.5 text-xs text-white/60">
+                        <span
+                          className="h-2 w-2 shrink-0 rounded-full"
+                          style={{ backgroundColor: item.feedback_type?.color ?? '#6B7280' }}
+                        />
+                        <span className="truncate">{item.feedback_type?.name ?? 'Feedback'}</span>
+                      </span>
+                      <span
+                        className={cn(
+                          'rounded px-1.5 py-0.5 text-[10px] font-semibold uppercase',
+                          PRIORITY_STYLES[item.priority]
+                        )}
+                      >
+                        {PRIORITY_LABELS[item.priority]}
+                      </span>
+                    </div>
+
+                    <p className="line-clamp-2 text-sm font-medium text-white">{item.title}</p>
+
+                    {item.ai_tags && item.ai_tags.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {item.ai_tags.map((tag) => (
+                          <span
+                            key={tag}
+                            className="rounded bg-cyan-500/10 px-1.5 py-0.5 text-[10px] text-cyan-300"
+                          >
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="mt-3 flex items-center justify-between gap-2 text-xs text-white/50">
+                      <span className="flex min-w-0 items-center gap-1">
+                        <UserCircle className="h-3.5 w-3.5 shrink-0" />
+                        <span className="truncate">
+                          {item.assignee ? userLabel(item.assignee) : 'Unassigned'}
+                        </span>
+                      </span>
+                      <span className="flex shrink-0 items-center gap-1.5">
+                        <SentimentIcon score={item.sentiment_score} />
+                        {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+                      </span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <FeedbackDetailSheet
+        feedbackId={selectedId}
+        assignees={assignees}
+        onClose={() => setSelectedId(null)}
+        onUpdated={handleUpdated}
+      />
+    </div>
+  );
+}
@@ -32,6 +32,7 @@ import {
   Info,
   XCircle,
 } from 'lucide-react';
+import type { ProviderDashboard } from '@/lib/ai-sdk/gateway';
 
 interface MonitoringData {
   timestamp: string;
@@ -97,6 +98,7 @@ interface MonitoringData {
       timestamp: number;
     }>;
   };
+  providers?: ProviderDashboard;
 }
 
 const MonitoringDashboard: React.FC = () => {
@@ -265,7 +267,7 @@ const MonitoringDashboard: React.FC = () => {
     return null;
   }
 
-  const { health, performance, errors, alerts, system } = monitoringData;
+  const { health, performance, errors, alerts, system, providers } = monitoringData;
 
   return (
     <div className="space-y-6 p-6">
@@ -369,6 +371,7 @@ const MonitoringDashboard: React.FC = () => {
           <TabsTrigger value="performance">Performance</TabsTrigger>
           <TabsTrigger value="errors">Errors</TabsTrigger>
           <TabsTrigger value="alerts">Alerts</TabsTrigger>
+          <TabsTrigger value="providers">AI Providers</TabsTrigger>
           <TabsTrigger value="system">System</TabsTrigger>
         </TabsList>
 
@@ -550,6 +553,125 @@ const MonitoringDashboard: React.FC = () => {
           </Card>
         </TabsContent>
 
+        <TabsContent value="providers" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>AI Providers</CardTitle>
+              <CardDescription>
+                Generation cascade in priority order, with circuit breaker state and fallback
+                statistics for this server instance
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {providers && (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+                    <div>
+                      <p className="text-muted-foreground">Overall</p>
+                      <Badge
+                        className={getHealthStatusColor(providers.overallHealth.toLowerCase())}
+                      >
+                        {getHealthStatusIcon(providers.overallHealth.toLowerCase())}
+                        <span className="ml-1 capitalize">
+                          {providers.overallHealth.toLowerCase()}
+                        </span>
+                      </Badge>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Generations</p>
+                      <p className="font-mono">
+                        {providers.fallback.successfulOperations} ok /{' '}
+                        {providers.fallback.failedOperations} failed
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Success Rate</p>
+                      <p className="font-mono">
+                        {(providers.fallback.successRate * 100).toFixed(1)}%
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Attempts / Generation</p>
+                      <p className="font-mono">
+                        {providers.fallback.avgAttemptsPerOperation.toFixed(2)}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                    {providers.providers.map((provider) => (
+                      <Card key={provider.provider}>
+                        <CardHeader className="pb-2">
+                          <div className="flex items-center justify-between">
+                            <CardTitle className="text-base">
+                              {provider.priority}. {provider.name}
+                            </CardTitle>
+                            <Badge className={getHealthStatusColor(provider.status.toLowerCase())}>
+                              {getHealthStatusIcon(provider.status.toLowerCase())}
+                              <span className="ml-1 capitalize">
+                                {provider.status.toLowerCase()}
+                              </span>
+                            </Badge>
+                          </div>
+                          <CardDescription className="font-mono text-xs">
+                            {provider.model}
+                          </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-2 text-sm">
+                          {!provider.available && (
+                            <p className="text-muted-foreground">Not configured</p>
+                          )}
+                          <div className="flex justify-between">
+                            <span>Circuit:</span>
+                            <Badge
+                              variant={provider.circuitState === 'OPEN' ? 'destructive' : 'outline'}
+                            >
+                              {provider.circuitState}
+                            </Badge>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Requests:</span>
+                            <span className="font-mono">
+                              {provider.successfulRequests}/{provider.totalRequests}
+                            </span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Recent error rate:</span>
+                            <span className="font-mono">
+                              {(provider.recentErrorRate * 100).toFixed(1)}%
+                            </span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Latency p50 / p95:</span>
+                            <span className="font-mono">
+                              {(provider.latency.p50 / 1000).toFixed(1)}s /{' '}
+                              {(provider.latency.p95 / 1000).toFixed(1)}s
+                            </span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Served:</span>
+                            <span className="font-mono">
+                              {providers.fallback.providerUsage[provider.provider] ?? 0}
+                            </span>
+                          </div>
+                          {provider.lastFailureAt && (
+                            <div className="text-muted-foreground flex items-center text-xs">
+                              <Clock className="mr-1 h-3 w-3" />
+                              <span>
+                                Last failure: {new Date(provider.lastFailureAt).toLocaleString()}
+                              </span>
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="system" className="space-y-4">
           <Card>
             <CardHeader>
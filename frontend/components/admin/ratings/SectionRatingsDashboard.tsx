@@ -0,0 +1,186 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, MessageSquareWarning, RefreshCw, Star } from 'lucide-react';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { getSectionLabel, type SectionGuidance } from '@/lib/prompts/sectionGuidance';
+import type { SectionRatingStats } from '@/lib/services/sectionRatingService';
+import { cn } from '@/lib/utils';
+
+const WINDOW_OPTIONS = [7, 30, 90, 365];
+
+function ratingColor(avg: number | null): string {
+  if (avg === null) return 'text-white/50';
+  if (avg < 2.5) return 'text-red-400';
+  if (avg < 3.5) return 'text-yellow-300';
+  return 'text-green-400';
+}
+
+/**
+ * Section ratings by section type, per blueprint prompt version, and the low
+ * rating patterns currently fed back into generation
+ */
+export function SectionRatingsDashboard() {
+  const [days, setDays] = useState(30);
+  const [sections, setSections] = useState<SectionRatingStats[]>([]);
+  const [guidance, setGuidance] = useState<SectionGuidance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/section-ratings?days=${days}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load section ratings');
+      }
+      setSections(data.sections);
+      setGuidance(data.guidance);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load section ratings');
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={days}
+          onChange={(event) => setDays(Number(event.target.value))}
+          aria-label="Time window"
+          className="rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:outline-none"
+        >
+          {WINDOW_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              Last {option} days
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={loadStats}
+          disabled={loading}
+          className="flex items-center gap-2 rounded-lg border border-white/10 px-3 py-2 text-sm text-white/70 transition-colors hover:bg-white/5 hover:text-white"
+        >
+          <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+          Refresh
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {loading && sections.length === 0 ? (
+        <div className="flex items-center justify-center py-16 text-white/60">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <GlassCard className="overflow-x-auto">
+            <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold text-white">
+              <Star className="h-5 w-5 text-yellow-400" />
+              Ratings by section
+            </h2>
+            {sections.length === 0 ? (
+              <p className="text-sm text-white/50">No section ratings in this window.</p>
+            ) : (
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs text-white/50 uppercase">
+                  <tr>
+                    <th className="py-2 pr-4">Section</th>
+                    <th className="py-2 pr-4">Ratings</th>
+                    <th className="py-2 pr-4">Average</th>
+                    <th className="py-2 pr-4">Low (1-2)</th>
+                    <th className="py-2 pr-4">Comments</th>
+                    <th className="py-2">By prompt version</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {sections.map((section) => (
+                    <tr key={section.sectionId} className="align-top text-white/80">
+                      <td className="py-3 pr-4 font-medium text-white">
+                        {getSectionLabel(section.sectionId)}
+                      </td>
+                      <td className="py-3 pr-4">{section.ratingCount}</td>
+                      <td className={cn('py-3 pr-4 font-semibold', ratingColor(section.avgRating))}>
+                        {section.avgRating?.toFixed(2) ?? '—'}
+                      </td>
+                      <td className="py-3 pr-4">
+                        {section.lowRatingCount}{' '}
+                        <span className="text-white/40">
+                          ({Math.round(section.lowRatingRate * 100)}%)
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4">{section.commentCount}</td>
+                      <td className="py-3">
+                        <div className="flex flex-wrap gap-1.5">
+                          {section.byPromptVersion.map((version) => (
+                            <span
+                              key={version.promptVersion ?? 'none'}
+                              className="rounded bg-white/5 px-2 py-0.5 text-xs"
+                              title={`${version.ratingCount} ratings, ${version.lowRatingCount} low`}
+                            >
+                              {version.promptVersion ?? 'unversioned'}:{' '}
+                              <span className={ratingColor(version.avgRating)}>
+                                {version.avgRating?.toFixed(2) ?? '—'}
+                              </span>{' '}
+                              <span className="text-white/40">({version.ratingCount})</span>
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </GlassCard>
+
+          <GlassCard>
+            <h2 className="mb-1 flex items-center gap-2 text-lg font-semibold text-white">
+              <MessageSquareWarning className="h-5 w-5 text-red-400" />
+              Guidance sent to generation
+            </h2>
+            <p className="mb-4 text-sm text-white/50">
+              Sections rated poorly by several users in the last 30 days are named in the blueprint
+              prompt as needing extra care. Comments are shown here for review only and are never
+              sent to generation.
+            </p>
+            {guidance.length === 0 ? (
+              <p className="text-sm text-white/50">No section has enough low ratings yet.</p>
+            ) : (
+              <ul className="space-y-4">
+                {guidance.map((section) => (
+                  <li key={section.sectionId}>
+                    <p className="text-sm font-medium text-white">
+                      {getSectionLabel(section.sectionId)}{' '}
+                      <span className="text-white/40">
+                        ({section.lowRatingCount} low ratings from {section.userCount} users)
+                      </span>
+                    </p>
+                    {section.comments.length > 0 && (
+                      <ul className="mt-1 space-y-1 text-sm text-white/70">
+                        {section.comments.map((comment) => (
+                          <li key={comment} className="border-l-2 border-red-500/30 pl-3">
+                            {comment}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </GlassCard>
+        </>
+      )}
+    </div>
+  );
+}
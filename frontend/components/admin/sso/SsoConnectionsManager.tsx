@@ -0,0 +1,341 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import { GlassCard } from '@/components/ui/GlassCard';
+import {
+  SSO_ROLES,
+  SSO_TIERS,
+  type SsoConnection,
+  type SsoProtocol,
+} from '@/lib/services/ssoService';
+import { cn } from '@/lib/utils';
+
+interface ConnectionForm {
+  domain: string;
+  displayName: string;
+  protocol: SsoProtocol;
+  samlProviderId: string;
+  oidcIssuer: string;
+  oidcClientId: string;
+  oidcClientSecret: string;
+  defaultTier: SsoConnection['defaultTier'];
+  defaultRole: SsoConnection['defaultRole'];
+  enforceSso: boolean;
+}
+
+const EMPTY_FORM: ConnectionForm = {
+  domain: '',
+  displayName: '',
+  protocol: 'oidc',
+  samlProviderId: '',
+  oidcIssuer: '',
+  oidcClientId: '',
+  oidcClientSecret: '',
+  defaultTier: 'fleet',
+  defaultRole: 'user',
+  enforceSso: true,
+};
+
+const inputClassName =
+  'w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/30 focus:outline-none';
+
+/**
+ * Per-domain SSO connections: create SAML/OIDC connections, set the tier and
+ * role new users are provisioned with, and switch password blocking on or off
+ */
+export function SsoConnectionsManager() {
+  const [connections, setConnections] = useState<SsoConnection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<ConnectionForm>(EMPTY_FORM);
+
+  const loadConnections = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/sso');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load SSO connections');
+      }
+      setConnections(data.connections);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load SSO connections');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConnections();
+  }, [loadConnections]);
+
+  const request = async (url: string, init: RequestInit) => {
+    setError(null);
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    try {
+      const saml = form.protocol === 'saml';
+      await request('/api/admin/sso', {
+        method: 'POST',
+        body: JSON.stringify({
+          domain: form.domain,
+          displayName: form.displayName,
+          protocol: form.protocol,
+          samlProviderId: saml ? form.samlProviderId : null,
+          oidcIssuer: saml ? null : form.oidcIssuer,
+          oidcClientId: saml ? null : form.oidcClientId,
+          oidcClientSecret: saml || !form.oidcClientSecret ? null : form.oidcClientSecret,
+          defaultTier: form.defaultTier,
+          defaultRole: form.defaultRole,
+          enforceSso: form.enforceSso,
+        }),
+      });
+      setForm(EMPTY_FORM);
+      await loadConnections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create SSO connection');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (connection: SsoConnection, changes: Partial<SsoConnection>) => {
+    try {
+      const data = await request(`/api/admin/sso/${connection.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      });
+      setConnections((current) =>
+        current.map((item) => (item.id === connection.id ? data.connection : item))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update SSO connection');
+    }
+  };
+
+  const handleDelete = async (connection: SsoConnection) => {
+    if (!window.confirm(`Remove single sign-on for ${connection.domain}?`)) return;
+    try {
+      await request(`/api/admin/sso/${connection.id}`, { method: 'DELETE' });
+      setConnections((current) => current.filter((item) => item.id !== connection.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete SSO connection');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <GlassCard className="overflow-x-auto">
+        <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold text-white">
+          <KeyRound className="h-5 w-5 text-cyan-400" />
+          Connections
+        </h2>
+        {loading && connections.length === 0 ? (
+          <div className="flex items-center justify-center py-8 text-white/60">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : connections.length === 0 ? (
+          <p className="text-sm text-white/50">No SSO connections yet.</p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs text-white/50 uppercase">
+              <tr>
+                <th className="py-2 pr-4">Domain</th>
+                <th className="py-2 pr-4">Protocol</th>
+                <th className="py-2 pr-4">Provisioning</th>
+                <th className="py-2 pr-4">Block passwords</th>
+                <th className="py-2 pr-4">Enabled</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {connections.map((connection) => (
+                <tr key={connection.id} className="align-top text-white/80">
+                  <td className="py-3 pr-4">
+                    <p className="font-medium text-white">{connection.domain}</p>
+                    <p className="text-xs text-white/50">{connection.displayName}</p>
+                  </td>
+                  <td className="py-3 pr-4">
+                    <span className="rounded bg-white/5 px-2 py-0.5 text-xs uppercase">
+                      {connection.protocol}
+                    </span>
+                    <p className="mt-1 max-w-xs truncate text-xs text-white/40">
+                      {connection.protocol === 'saml'
+                        ? connection.samlProviderId
+                        : connection.oidcIssuer}
+                    </p>
+                  </td>
+                  <td className="py-3 pr-4 capitalize">
+                    {connection.defaultTier} / {connection.defaultRole}
+                  </td>
+                  <td className="py-3 pr-4">
+                    <input
+                      type="checkbox"
+                      checked={connection.enforceSso}
+                      onChange={(event) =>
+                        handleUpdate(connection, { enforceSso: event.target.checked })
+                      }
+                      aria-label={`Block password sign-in for ${connection.domain}`}
+                    />
+                  </td>
+                  <td className="py-3 pr-4">
+                    <input
+                      type="checkbox"
+                      checked={connection.enabled}
+                      onChange={(event) =>
+                        handleUpdate(connection, { enabled: event.target.checked })
+                      }
+                      aria-label={`Enable SSO for ${connection.domain}`}
+                    />
+                  </td>
+                  <td className="py-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(connection)}
+                      className="rounded-lg p-2 text-white/50 transition-colors hover:bg-white/5 hover:text-red-400"
+                      aria-label={`Delete SSO connection for ${connection.domain}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </GlassCard>
+
+      <GlassCard>
+        <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold text-white">
+          <Plus className="h-5 w-5 text-cyan-400" />
+          New connection
+        </h2>
+        <form onSubmit={handleCreate} className="grid gap-4 sm:grid-cols-2">
+          <input
+            className={inputClassName}
+            placeholder="Email domain (acme.com)"
+            value={form.domain}
+            onChange={(event) => setForm({ ...form, domain: event.target.value })}
+            required
+          />
+          <input
+            className={inputClassName}
+            placeholder="Organization name"
+            value={form.displayName}
+            onChange={(event) => setForm({ ...form, displayName: event.target.value })}
+            required
+          />
+          <select
+            className={inputClassName}
+            value={form.protocol}
+            onChange={(event) => setForm({ ...form, protocol: event.target.value as SsoProtocol })}
+            aria-label="Protocol"
+          >
+            <option value="oidc">OpenID Connect</option>
+            <option value="saml">SAML 2.0</option>
+          </select>
+
+          {form.protocol === 'saml' ? (
+            <input
+              className={inputClassName}
+              placeholder="Supabase SSO provider ID"
+              value={form.samlProviderId}
+              onChange={(event) => setForm({ ...form, samlProviderId: event.target.value })}
+              required
+            />
+          ) : (
+            <>
+              <input
+                className={inputClassName}
+                placeholder="Issuer URL"
+                value={form.oidcIssuer}
+                onChange={(event) => setForm({ ...form, oidcIssuer: event.target.value })}
+                required
+              />
+              <input
+                className={inputClassName}
+                placeholder="Client ID"
+                value={form.oidcClientId}
+                onChange={(event) => setForm({ ...form, oidcClientId: event.target.value })}
+                required
+              />
+              <input
+                className={inputClassName}
+                type="password"
+                placeholder="Client secret (confidential clients)"
+                value={form.oidcClientSecret}
+                onChange={(event) => setForm({ ...form, oidcClientSecret: event.target.value })}
+                autoComplete="off"
+              />
+            </>
+          )}
+
+          <select
+            className={cn(inputClassName, 'capitalize')}
+            value={form.defaultTier}
+            onChange={(event) =>
+              setForm({ ...form, defaultTier: event.target.value as ConnectionForm['defaultTier'] })
+            }
+            aria-label="Default tier"
+          >
+            {SSO_TIERS.map((tier) => (
+              <option key={tier} value={tier}>
+                {tier} tier
+              </option>
+            ))}
+          </select>
+          <select
+            className={cn(inputClassName, 'capitalize')}
+            value={form.defaultRole}
+            onChange={(event) =>
+              setForm({ ...form, defaultRole: event.target.value as ConnectionForm['defaultRole'] })
+            }
+            aria-label="Default role"
+          >
+            {SSO_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {role} role
+              </option>
+            ))}
+          </select>
+
+          <label className="flex items-center gap-2 text-sm text-white/70 sm:col-span-2">
+            <input
+              type="checkbox"
+              checked={form.enforceSso}
+              onChange={(event) => setForm({ ...form, enforceSso: event.target.checked })}
+            />
+            Block password sign-in for this domain
+          </label>
+
+          <div className="sm:col-span-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 rounded-lg bg-cyan-500/20 px-4 py-2 text-sm font-medium text-cyan-300 transition-colors hover:bg-cyan-500/30 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Create connection
+            </button>
+          </div>
+        </form>
+      </GlassCard>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
   CheckCircle2,
   AlertCircle,
   Ban,
+  KeyRound,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -66,6 +67,11 @@ interface ActivityEvent {
 export function UserDetailsModal({ user, onClose, onEdit }: UserDetailsModalProps) {
   const [activityLogs, setActivityLogs] = useState<ActivityEvent[]>([]);
   const [loadingActivity, setLoadingActivity] = useState(true);
+  const [twoFactor, setTwoFactor] = useState<{
+    enabled: boolean;
+    recoveryCodesRemaining: number;
+  } | null>(null);
+  const [resettingTwoFactor, setResettingTwoFactor] = useState(false);
 
   useEffect(() => {
     // Fetch user activity logs
@@ -86,6 +92,50 @@ export function UserDetailsModal({ user, onClose, onEdit }: UserDetailsModalProp
     fetchActivity();
   }, [user.user_id]);
 
+  useEffect(() => {
+    const fetchTwoFactor = async () => {
+      try {
+        const response = await fetch(`/api/admin/users/${user.user_id}/two-factor`);
+        if (response.ok) {
+          setTwoFactor(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to fetch two-factor status:', error);
+      }
+    };
+
+    fetchTwoFactor();
+  }, [user.user_id]);
+
+  const handleResetTwoFactor = async () => {
+    if (
+      !window.confirm(
+        `Reset two-factor authentication for ${user.email}? They will sign in with their password only and need to set it up again.`
+      )
+    ) {
+      return;
+    }
+
+    setResettingTwoFactor(true);
+    try {
+      const response = await fetch(`/api/admin/users/${user.user_id}/two-factor`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to reset two-factor authentication');
+      }
+      setTwoFactor({ enabled: false, recoveryCodesRemaining: 0 });
+    } catch (error) {
+      console.error('Failed to reset two-factor:', error);
+      window.alert(
+        error instanceof Error ? error.message : 'Failed to reset two-factor authentication'
+      );
+    } finally {
+      setResettingTwoFactor(false);
+    }
+  };
+
   // Calculate statistics
   const usagePercent =
     user.blueprint_creation_limit > 0
@@ -334,6 +384,39 @@ export function UserDetailsModal({ user, onClose, onEdit }: UserDetailsModalProp
                 </div>
               </GlassCard>
 
+              {/* Two-Factor Authentication */}
+              <GlassCard>
+                <h3 className="mb-4 text-lg font-semibold text-white">Two-Factor Authentication</h3>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-start space-x-3">
+                    <div className="rounded-lg bg-green-500/10 p-2">
+                      <KeyRound className="h-5 w-5 text-green-400" />
+                    </div>
+                    <div>
+                      <p className="text-xs text-white/60">Status</p>
+                      <p className="font-medium text-white">
+                        {twoFactor === null
+                          ? 'Loading…'
+                          : twoFactor.enabled
+                            ? `Enabled (${twoFactor.recoveryCodesRemaining} recovery codes left)`
+                            : 'Not enabled'}
+                      </p>
+                    </div>
+                  </div>
+                  {twoFactor?.enabled && (
+                    <Button
+                      variant="outline"
+                      size="small"
+                      onClick={handleResetTwoFactor}
+                      disabled={resettingTwoFactor}
+                      className="border-red-500/30 bg-red-500/10 text-red-400 hover:bg-red-500/20"
+                    >
+                      {resettingTwoFactor ? 'Resetting…' : 'Reset 2FA'}
+                    </Button>
+                  )}
+                </div>
+              </GlassCard>
+
               {/* Usage Stats */}
               <GlassCard>
                 <h3 className="mb-4 text-lg font-semibold text-white">Usage Statistics</h3>
@@ -77,6 +77,11 @@ interface User {
     total_sessions?: number;
     avg_session_duration?: number;
   };
+  llm_usage?: {
+    total_cost_inr: number;
+    cost_per_blueprint_inr: number;
+    blueprint_count: number;
+  };
 }
 
 interface PaginationInfo {
@@ -306,6 +311,9 @@ export function UserManagementTable() {
     }
   };
 
+  const formatInr = (amount: number) =>
+    `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
   // Usage percentage calculation
   const getUsagePercentage = (user: User) => {
     const creationPercent =
@@ -505,6 +513,8 @@ export function UserManagementTable() {
 
                 <TableHead className="text-white/80">Usage</TableHead>
 
+                <TableHead className="text-white/80">LLM Cost / Blueprint</TableHead>
+
                 <TableHead
                   className="cursor-pointer text-white/80 select-none"
                   onClick={() => handleSort('created_at')}
@@ -615,6 +625,23 @@ export function UserManagementTable() {
                       </div>
                     </TableCell>
 
+                    <TableCell>
+                      {user.llm_usage && user.llm_usage.blueprint_count > 0 ? (
+                        <div className="space-y-0.5">
+                          <div className="text-sm font-medium text-white">
+                            {formatInr(user.llm_usage.cost_per_blueprint_inr)}
+                          </div>
+                          <div className="text-xs text-white/40">
+                            {formatInr(user.llm_usage.total_cost_inr)} ·{' '}
+                            {user.llm_usage.blueprint_count} blueprint
+                            {user.llm_usage.blueprint_count === 1 ? '' : 's'}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-white/40">—</span>
+                      )}
+                    </TableCell>
+
                     <TableCell className="text-sm text-white/60">
                       {new Date(user.created_at).toLocaleDateString('en-US', {
                         month: 'short',
@@ -1,15 +1,29 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import type React from 'react';
 import { AuthInput } from './AuthInput';
 import { PasswordInput } from './PasswordInput';
 import { GoogleOAuthButton } from './GoogleOAuthButton';
+import { SsoLoginButton } from './SsoLoginButton';
 import { getSupabaseBrowserClient } from '@/lib/supabase/client';
 import { useRouter } from 'next/navigation';
+import { getAssuranceLevel, needsSecondFactor } from '@/lib/auth/twoFactor';
+import { SSO_ERROR_MESSAGES, discoverSso, startSsoSignIn } from '@/lib/auth/sso';
 
 type IdentifierValue = { kind: 'email'; email: string } | { kind: 'unknown'; raw: string };
 
+// After the password, users with two-factor enter an authenticator code or,
+// if they lost the app, a recovery code
+type LoginStep = 'password' | 'totp' | 'recovery';
+
+function redirectAfterLogin(): void {
+  const urlParams = new URLSearchParams(window.location.search);
+  const redirectUrl = urlParams.get('redirect');
+  const destination = redirectUrl && redirectUrl !== '/' ? decodeURIComponent(redirectUrl) : '/';
+  window.location.href = destination;
+}
+
 export function LoginFormContent(): React.JSX.Element {
   const _router = useRouter();
   const [identifierRaw, setIdentifierRaw] = useState('');
@@ -17,6 +31,65 @@ export function LoginFormContent(): React.JSX.Element {
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [step, setStep] = useState<LoginStep>('password');
+  const [secondFactorCode, setSecondFactorCode] = useState('');
+
+  // The middleware sends sessions that still owe a code back here
+  useEffect(() => {
+    getAssuranceLevel(getSupabaseBrowserClient()).then((level) => {
+      if (needsSecondFactor(level)) setStep('totp');
+    });
+  }, []);
+
+  // Failed SSO sign-ins come back with ?error=
+  useEffect(() => {
+    const ssoError = new URLSearchParams(window.location.search).get('error');
+    if (ssoError && SSO_ERROR_MESSAGES[ssoError]) {
+      setError(SSO_ERROR_MESSAGES[ssoError]);
+    }
+  }, []);
+
+  async function onSubmitSecondFactor(e: React.FormEvent): Promise<void> {
+    e.preventDefault();
+
+    setError(null);
+    setLoading(true);
+
+    try {
+      const response = await fetch(
+        step === 'totp' ? '/api/account/two-factor/verify' : '/api/account/two-factor/recover',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code: secondFactorCode }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Verification failed. Please try again.');
+      }
+
+      if (step === 'recovery') {
+        // The recovery code removed the old factor; send them to set up a new one
+        window.location.href = '/settings';
+        return;
+      }
+
+      redirectAfterLogin();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed. Please try again.');
+      setLoading(false);
+    }
+  }
+
+  async function onCancelSecondFactor(): Promise<void> {
+    await getSupabaseBrowserClient().auth.signOut();
+    setStep('password');
+    setSecondFactorCode('');
+    setPassword('');
+    setError(null);
+  }
 
   async function onSubmit(e: React.FormEvent): Promise<void> {
     e.preventDefault();
@@ -30,6 +103,13 @@ export function LoginFormContent(): React.JSX.Element {
     setLoading(true);
 
     try {
+      // Domains that enforce SSO cannot use their password
+      const discovery = await discoverSso(identifier.email);
+      if (discovery.enforced) {
+        startSsoSignIn(identifier.email);
+        return;
+      }
+
       const supabase = getSupabaseBrowserClient();
 
       console.log('Attempting login for:', identifier.email);
@@ -54,12 +134,14 @@ export function LoginFormContent(): React.JSX.Element {
         }
       }
 
+      if (needsSecondFactor(await getAssuranceLevel(supabase))) {
+        setStep('totp');
+        setLoading(false);
+        return;
+      }
+
       // Handle redirect after successful login
-      const urlParams = new URLSearchParams(window.location.search);
-      const redirectUrl = urlParams.get('redirect');
-      const destination =
-        redirectUrl && redirectUrl !== '/' ? decodeURIComponent(redirectUrl) : '/';
-      window.location.href = destination;
+      redirectAfterLogin();
     } catch (err) {
       console.error('Login error:', err);
       setError(err instanceof Error ? err.message : 'Login failed. Please try again.');
@@ -67,6 +149,72 @@ export function LoginFormContent(): React.JSX.Element {
     }
   }
 
+  if (step !== 'password') {
+    return (
+      <form onSubmit={onSubmitSecondFactor} className="animate-fade-in-up space-y-8">
+        <div className="space-y-2">
+          <label htmlFor="second-factor-code" className="block text-sm font-medium text-white/80">
+            {step === 'totp' ? 'Authentication code' : 'Recovery code'}
+          </label>
+          <input
+            id="second-factor-code"
+            value={secondFactorCode}
+            onChange={(e) =>
+              setSecondFactorCode(
+                step === 'totp' ? e.target.value.replace(/\D/g, '').slice(0, 6) : e.target.value
+              )
+            }
+            inputMode={step === 'totp' ? 'numeric' : 'text'}
+            autoComplete="one-time-code"
+            placeholder={step === 'totp' ? '123456' : 'xxxxx-xxxxx'}
+            autoFocus
+            className="focus:border-primary/50 w-full rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-white placeholder:text-white/40 focus:outline-none"
+          />
+          <p className="text-xs text-white/50">
+            {step === 'totp'
+              ? 'Enter the 6-digit code from your authenticator app.'
+              : 'Enter one of the recovery codes you saved when you set up two-factor authentication.'}
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <button
+          type="submit"
+          className="btn-primary pressable w-full rounded-xl px-4 py-3"
+          disabled={
+            loading || (step === 'totp' ? secondFactorCode.length !== 6 : !secondFactorCode)
+          }
+        >
+          <span className={loading ? 'animate-pulse opacity-70' : ''}>
+            {loading ? 'Verifying…' : 'Verify'}
+          </span>
+        </button>
+
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => {
+              setStep(step === 'totp' ? 'recovery' : 'totp');
+              setSecondFactorCode('');
+              setError(null);
+            }}
+            className="text-primary underline-offset-4 hover:underline"
+          >
+            {step === 'totp' ? 'Use a recovery code' : 'Use authenticator app'}
+          </button>
+          <button
+            type="button"
+            onClick={onCancelSecondFactor}
+            className="text-white/50 hover:text-white"
+          >
+            Sign in as someone else
+          </button>
+        </div>
+      </form>
+    );
+  }
+
   return (
     <form onSubmit={onSubmit} className="animate-fade-in-up space-y-8">
       <AuthInput
@@ -102,7 +250,13 @@ export function LoginFormContent(): React.JSX.Element {
         <span className="absolute top-1/2 right-0 left-0 h-px -translate-y-1/2 bg-white/10" />
       </div>
 
-      <GoogleOAuthButton />
+      <div className="space-y-3">
+        <GoogleOAuthButton />
+        <SsoLoginButton
+          email={identifier.kind === 'email' ? identifier.email : null}
+          onError={setError}
+        />
+      </div>
     </form>
   );
 }
@@ -6,6 +6,7 @@ import { AuthInput } from './AuthInput';
 import { PasswordInput } from './PasswordInput';
 import { PasswordStrength } from './PasswordStrength';
 import { GoogleOAuthButton } from './GoogleOAuthButton';
+import { discoverSso, startSsoSignIn } from '@/lib/auth/sso';
 import { getSupabaseBrowserClient } from '@/lib/supabase/client';
 import { useRouter } from 'next/navigation';
 
@@ -62,6 +63,13 @@ export function SignupFormContent(): React.JSX.Element {
     setLoading(true);
 
     try {
+      // Accounts for domains that enforce SSO are created on first SSO sign-in
+      const discovery = await discoverSso(identifier.email);
+      if (discovery.enforced) {
+        startSsoSignIn(identifier.email);
+        return;
+      }
+
       const supabase = getSupabaseBrowserClient();
 
       const { data, error: signUpError } = await supabase.auth.signUp({
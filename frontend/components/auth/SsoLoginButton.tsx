@@ -0,0 +1,47 @@
+'use client';
+
+import { useState } from 'react';
+import type React from 'react';
+import { KeyRound } from 'lucide-react';
+import { discoverSso, startSsoSignIn } from '@/lib/auth/sso';
+
+interface SsoLoginButtonProps {
+  /** The email typed into the form, or null if it is not a valid address yet */
+  email: string | null;
+  onError: (message: string) => void;
+}
+
+export function SsoLoginButton({ email, onError }: SsoLoginButtonProps): React.JSX.Element {
+  const [loading, setLoading] = useState(false);
+
+  async function onClick(): Promise<void> {
+    if (!email) {
+      onError('Enter your work email to continue with single sign-on');
+      return;
+    }
+
+    setLoading(true);
+    const discovery = await discoverSso(email);
+    if (!discovery.sso) {
+      setLoading(false);
+      onError('Single sign-on is not set up for this email domain.');
+      return;
+    }
+
+    startSsoSignIn(email);
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={loading}
+      className="pressable inline-flex w-full items-center justify-center gap-2 rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-sm font-medium text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+    >
+      <KeyRound className="h-5 w-5" />
+      <span className={loading ? 'animate-pulse opacity-70' : ''}>
+        {loading ? 'Redirecting…' : 'Continue with SSO'}
+      </span>
+    </button>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { BurnUpPoint } from '@/types/dashboard';
+import { cn } from '@/lib/utils';
+
+interface BurnUpChartProps {
+  data: BurnUpPoint[];
+  /** YYYY-MM-DD; marked with a reference line */
+  today?: string;
+  className?: string;
+}
+
+const SERIES = [
+  { key: 'planned', label: 'Planned', color: 'var(--info)' },
+  { key: 'completed', label: 'Completed', color: 'var(--success)' },
+  { key: 'actual', label: 'Hours logged', color: 'var(--warning)' },
+] as const;
+
+const CustomTooltip = ({
+  active,
+  payload,
+}: {
+  active?: boolean;
+  payload?: Array<{ payload: BurnUpPoint }>;
+}) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="rounded-lg border border-neutral-200 bg-white p-4 shadow-lg dark:border-neutral-700 dark:bg-neutral-800">
+        <p className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
+          {format(parseISO(point.date), 'MMM dd, yyyy')}
+        </p>
+        <div className="mt-2 space-y-1 text-sm text-neutral-700 dark:text-neutral-300">
+          <p>
+            Scope: <span className="font-semibold">{point.scope}h</span>
+          </p>
+          {SERIES.map(
+            (series) =>
+              point[series.key] !== null && (
+                <p key={series.key} style={{ color: series.color }}>
+                  {series.label}: <span className="font-semibold">{point[series.key]}h</span>
+                </p>
+              )
+          )}
+        </div>
+      </div>
+    );
+  }
+  return null;
+};
+
+/**
+ * Burn-up of an implementation plan: estimated hours planned by each date
+ * against the estimated hours completed and the hours actually logged
+ */
+export function BurnUpChart({ data, today, className }: BurnUpChartProps): React.JSX.Element {
+  const chartData = data.map((point) => ({
+    ...point,
+    label: format(parseISO(point.date), 'MMM dd'),
+  }));
+  const todayLabel = today ? format(parseISO(today), 'MMM dd') : null;
+
+  return (
+    <motion.div
+      className={cn('flex flex-col', className)}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">Burn-up</h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Planned vs completed work and hours logged
+        </p>
+      </div>
+
+      <div className="min-h-0 flex-1">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="var(--neutral-200)" strokeOpacity={0.5} />
+            <XAxis
+              dataKey="label"
+              tick={{ fontSize: 12, fill: 'var(--neutral-500)' }}
+              axisLine={{ stroke: 'var(--neutral-200)' }}
+            />
+            <YAxis
+              tick={{ fontSize: 12, fill: 'var(--neutral-500)' }}
+              axisLine={{ stroke: 'var(--neutral-200)' }}
+              label={{
+                value: 'Hours',
+                angle: -90,
+                position: 'insideLeft',
+                style: { textAnchor: 'middle', fill: 'var(--neutral-500)' },
+              }}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Legend />
+
+            <Line
+              type="stepAfter"
+              dataKey="scope"
+              name="Scope"
+              stroke="var(--neutral-500)"
+              strokeDasharray="6 4"
+              dot={false}
+            />
+            {SERIES.map((series) => (
+              <Line
+                key={series.key}
+                type="monotone"
+                dataKey={series.key}
+                name={series.label}
+                stroke={series.color}
+                strokeWidth={2}
+                dot={false}
+                connectNulls={false}
+              />
+            ))}
+
+            {todayLabel && (
+              <ReferenceLine
+                x={todayLabel}
+                stroke="var(--neutral-400)"
+                strokeDasharray="3 3"
+                label={{
+                  value: 'Today',
+                  position: 'top',
+                  style: { fill: 'var(--neutral-500)', fontSize: '10px' },
+                }}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </motion.div>
+  );
+}
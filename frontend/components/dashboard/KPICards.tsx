@@ -3,7 +3,7 @@
 import React from 'react';
 import { motion, useMotionValue, useTransform, animate } from 'framer-motion';
 import { useEffect, useState } from 'react';
-import { Clock, BookOpen, CheckCircle, FileText } from 'lucide-react';
+import { Clock, BookOpen, CheckCircle, FileText, Timer } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { DashboardKPIs } from '@/types/dashboard';
 
@@ -140,13 +140,22 @@ export function KPICards({ kpis, className }: KPICardsProps): React.JSX.Element
       color: 'bg-emerald-500',
       delay: 0.4,
     },
-    {
-      title: 'Total Resources',
-      value: kpis.totalResources,
-      icon: <FileText className="h-6 w-6 text-purple-600" />,
-      color: 'bg-purple-500',
-      delay: 0.6,
-    },
+    // Implementation plans report the hours actually spent instead
+    kpis.actualHours !== undefined
+      ? {
+          title: 'Hours Logged',
+          value: kpis.actualHours,
+          icon: <Timer className="h-6 w-6 text-purple-600" />,
+          color: 'bg-purple-500',
+          delay: 0.6,
+        }
+      : {
+          title: 'Total Resources',
+          value: kpis.totalResources,
+          icon: <FileText className="h-6 w-6 text-purple-600" />,
+          color: 'bg-purple-500',
+          delay: 0.6,
+        },
   ];
 
   return (
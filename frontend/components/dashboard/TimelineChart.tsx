@@ -14,6 +14,7 @@ import {
 } from 'recharts';
 import { TimelineData } from '@/types/dashboard';
 import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
 
 interface TimelineChartProps {
   data: TimelineData[];
@@ -26,7 +27,7 @@ const CustomTooltip = ({
   label,
 }: {
   active?: boolean;
-  payload?: Array<{ payload: TimelineData }>;
+  payload?: Array<{ payload: TimelineData & { fullDate: string } }>;
   label?: string;
 }) => {
   if (active && payload && payload.length && label) {
@@ -39,7 +40,7 @@ const CustomTooltip = ({
         transition={{ duration: 0.2 }}
       >
         <p className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
-          {format(parseISO(label), 'MMM dd, yyyy')}
+          {format(parseISO(data.fullDate), 'MMM dd, yyyy')}
         </p>
         <div className="mt-2 space-y-1">
           <p className="text-info dark:text-info text-sm">
@@ -85,7 +86,7 @@ export function TimelineChart({ data, className }: TimelineChartProps): React.JS
 
   return (
     <motion.div
-      className={className}
+      className={cn('flex flex-col', className)}
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.5 }}
@@ -101,114 +102,117 @@ export function TimelineChart({ data, className }: TimelineChartProps): React.JS
         </div>
       </div>
 
-      <ResponsiveContainer width="100%" height="100%">
-        <AreaChart
-          data={chartData}
-          margin={{
-            top: 20,
-            right: 30,
-            left: 20,
-            bottom: 20,
-          }}
-        >
-          <defs>
-            <linearGradient id="learningHoursGradient" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="var(--info)" stopOpacity={0.3} />
-              <stop offset="95%" stopColor="var(--info)" stopOpacity={0} />
-            </linearGradient>
-            <linearGradient id="progressGradient" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="var(--success)" stopOpacity={0.3} />
-              <stop offset="95%" stopColor="var(--success)" stopOpacity={0} />
-            </linearGradient>
-          </defs>
-
-          <CartesianGrid
-            strokeDasharray="3 3"
-            stroke="var(--neutral-200)"
-            strokeOpacity={0.5}
-            className="dark:stroke-neutral-700"
-          />
-
-          <XAxis
-            dataKey="date"
-            tick={{ fontSize: 12, fill: 'var(--neutral-500)' }}
-            axisLine={{ stroke: 'var(--neutral-200)' }}
-            className="dark:text-neutral-400"
-          />
-
-          <YAxis
-            yAxisId="hours"
-            orientation="left"
-            tick={{ fontSize: 12, fill: 'var(--neutral-500)' }}
-            axisLine={{ stroke: 'var(--neutral-200)' }}
-            label={{
-              value: 'Hours',
-              angle: -90,
-              position: 'insideLeft',
-              style: { textAnchor: 'middle', fill: 'var(--neutral-500)' },
-            }}
-            className="dark:text-neutral-400"
-          />
-
-          <YAxis
-            yAxisId="progress"
-            orientation="right"
-            tick={{ fontSize: 12, fill: 'var(--neutral-500)' }}
-            axisLine={{ stroke: 'var(--neutral-200)' }}
-            label={{
-              value: 'Progress %',
-              angle: 90,
-              position: 'insideRight',
-              style: { textAnchor: 'middle', fill: 'var(--neutral-500)' },
+      {/* The chart fills whatever height the header leaves */}
+      <div className="min-h-0 flex-1">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart
+            data={chartData}
+            margin={{
+              top: 20,
+              right: 30,
+              left: 20,
+              bottom: 20,
             }}
-            className="dark:text-neutral-400"
-          />
+          >
+            <defs>
+              <linearGradient id="learningHoursGradient" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="var(--info)" stopOpacity={0.3} />
+                <stop offset="95%" stopColor="var(--info)" stopOpacity={0} />
+              </linearGradient>
+              <linearGradient id="progressGradient" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="var(--success)" stopOpacity={0.3} />
+                <stop offset="95%" stopColor="var(--success)" stopOpacity={0} />
+              </linearGradient>
+            </defs>
 
-          <Tooltip content={<CustomTooltip />} />
+            <CartesianGrid
+              strokeDasharray="3 3"
+              stroke="var(--neutral-200)"
+              strokeOpacity={0.5}
+              className="dark:stroke-neutral-700"
+            />
 
-          {/* Learning Hours Area */}
-          <Area
-            yAxisId="hours"
-            type="monotone"
-            dataKey="learningHours"
-            stroke="var(--info)"
-            strokeWidth={2}
-            fill="url(#learningHoursGradient)"
-            name="Learning Hours"
-            dot={{ fill: 'var(--info)', strokeWidth: 2, r: 4 }}
-            activeDot={{ r: 6, stroke: 'var(--info)', strokeWidth: 2 }}
-          />
+            <XAxis
+              dataKey="date"
+              tick={{ fontSize: 12, fill: 'var(--neutral-500)' }}
+              axisLine={{ stroke: 'var(--neutral-200)' }}
+              className="dark:text-neutral-400"
+            />
 
-          {/* Progress Area */}
-          <Area
-            yAxisId="progress"
-            type="monotone"
-            dataKey="progressPercentage"
-            stroke="var(--success)"
-            strokeWidth={2}
-            fill="url(#progressGradient)"
-            name="Progress %"
-            dot={{ fill: 'var(--success)', strokeWidth: 2, r: 4 }}
-            activeDot={{ r: 6, stroke: 'var(--success)', strokeWidth: 2 }}
-          />
+            <YAxis
+              yAxisId="hours"
+              orientation="left"
+              tick={{ fontSize: 12, fill: 'var(--neutral-500)' }}
+              axisLine={{ stroke: 'var(--neutral-200)' }}
+              label={{
+                value: 'Hours',
+                angle: -90,
+                position: 'insideLeft',
+                style: { textAnchor: 'middle', fill: 'var(--neutral-500)' },
+              }}
+              className="dark:text-neutral-400"
+            />
 
-          {/* Milestone reference lines */}
-          {milestones.map((milestone, index) => (
-            <ReferenceLine
-              key={index}
-              x={milestone.date}
-              stroke="var(--warning)"
-              strokeDasharray="5 5"
+            <YAxis
+              yAxisId="progress"
+              orientation="right"
+              tick={{ fontSize: 12, fill: 'var(--neutral-500)' }}
+              axisLine={{ stroke: 'var(--neutral-200)' }}
               label={{
-                value: 'Milestone',
-                position: 'top' as any,
-                offset: 10,
-                style: { fill: 'var(--warning)', fontSize: '10px' },
+                value: 'Progress %',
+                angle: 90,
+                position: 'insideRight',
+                style: { textAnchor: 'middle', fill: 'var(--neutral-500)' },
               }}
+              className="dark:text-neutral-400"
+            />
+
+            <Tooltip content={<CustomTooltip />} />
+
+            {/* Learning Hours Area */}
+            <Area
+              yAxisId="hours"
+              type="monotone"
+              dataKey="learningHours"
+              stroke="var(--info)"
+              strokeWidth={2}
+              fill="url(#learningHoursGradient)"
+              name="Learning Hours"
+              dot={{ fill: 'var(--info)', strokeWidth: 2, r: 4 }}
+              activeDot={{ r: 6, stroke: 'var(--info)', strokeWidth: 2 }}
             />
-          ))}
-        </AreaChart>
-      </ResponsiveContainer>
+
+            {/* Progress Area */}
+            <Area
+              yAxisId="progress"
+              type="monotone"
+              dataKey="progressPercentage"
+              stroke="var(--success)"
+              strokeWidth={2}
+              fill="url(#progressGradient)"
+              name="Progress %"
+              dot={{ fill: 'var(--success)', strokeWidth: 2, r: 4 }}
+              activeDot={{ r: 6, stroke: 'var(--success)', strokeWidth: 2 }}
+            />
+
+            {/* Milestone reference lines */}
+            {milestones.map((milestone, index) => (
+              <ReferenceLine
+                key={index}
+                x={milestone.date}
+                stroke="var(--warning)"
+                strokeDasharray="5 5"
+                label={{
+                  value: 'Milestone',
+                  position: 'top' as any,
+                  offset: 10,
+                  style: { fill: 'var(--warning)', fontSize: '10px' },
+                }}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
     </motion.div>
   );
 }
@@ -1,6 +1,7 @@
 export { DashboardLayout } from './DashboardLayout';
 export { KPICards } from './KPICards';
 export { TimelineChart } from './TimelineChart';
+export { BurnUpChart } from './BurnUpChart';
 export { ModuleBreakdownChart } from './ModuleBreakdownChart';
 export { ActivityDistributionChart } from './ActivityDistributionChart';
 export { DrillDownProvider, useDrillDown } from './DrillDownProvider';
@@ -16,5 +17,6 @@ export type {
   ModuleData,
   ActivityData,
   ResourceData,
+  BurnUpPoint,
 } from '@/types/dashboard';
 export type { ExportFormat } from '@/lib/dashboard/exportService';
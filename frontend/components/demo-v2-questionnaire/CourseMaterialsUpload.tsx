@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertCircle, FileText, Loader2, Trash2, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MATERIAL_ACCEPT, MAX_MATERIAL_BYTES } from '@/lib/materials/context';
+
+interface UploadedMaterial {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  summary: string | null;
+}
+
+interface CourseMaterialsUploadProps {
+  /** Draft blueprint the materials attach to; uploads wait until autosave creates it */
+  blueprintId: string | null;
+  /** Ids of the uploaded materials, kept in the static answers */
+  value: string[];
+  /** Keep this stable (useCallback): a new function reloads the materials */
+  onChange: (materialIds: string[]) => void;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function CourseMaterialsUpload({
+  blueprintId,
+  value,
+  onChange,
+}: CourseMaterialsUploadProps): React.JSX.Element {
+  const [materials, setMaterials] = useState<UploadedMaterial[]>([]);
+  const [uploading, setUploading] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Keep the latest ids for callbacks that finish after other uploads
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  useEffect(() => {
+    if (!blueprintId) return;
+    let cancelled = false;
+
+    fetch(`/api/blueprints/${blueprintId}/materials`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (cancelled || !data.success) return;
+        const loaded = data.materials as UploadedMaterial[];
+        setMaterials(loaded);
+
+        const ids = loaded.map((material) => material.id);
+        if (ids.join() !== valueRef.current.join()) onChange(ids);
+      })
+      .catch((err) => console.error('Failed to load course materials:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [blueprintId, onChange]);
+
+  const uploadFile = useCallback(
+    async (file: File) => {
+      if (!blueprintId) return;
+      if (file.size > MAX_MATERIAL_BYTES) {
+        setError(`${file.name} is larger than ${MAX_MATERIAL_BYTES / (1024 * 1024)} MB`);
+        return;
+      }
+
+      setUploading((names) => [...names, file.name]);
+      try {
+        const body = new FormData();
+        body.append('file', file);
+
+        const res = await fetch(`/api/blueprints/${blueprintId}/materials`, {
+          method: 'POST',
+          body,
+        });
+        const data = await res.json();
+
+        if (!res.ok || !data.success) {
+          throw new Error(data.error || `Failed to upload ${file.name}`);
+        }
+
+        const material = data.material as UploadedMaterial;
+        setMaterials((current) => [...current, material]);
+        onChange([...valueRef.current, material.id]);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : `Failed to upload ${file.name}`);
+      } finally {
+        setUploading((names) => names.filter((name) => name !== file.name));
+      }
+    },
+    [blueprintId, onChange]
+  );
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setError(null);
+    // One at a time: each upload is extracted and summarised server-side
+    for (const file of Array.from(files)) {
+      await uploadFile(file);
+    }
+  };
+
+  const handleRemove = async (materialId: string) => {
+    if (!blueprintId) return;
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/blueprints/${blueprintId}/materials/${materialId}`, {
+        method: 'DELETE',
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to remove file');
+      }
+
+      setMaterials((current) => current.filter((material) => material.id !== materialId));
+      onChange(valueRef.current.filter((id) => id !== materialId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove file');
+    }
+  };
+
+  const disabled = !blueprintId;
+
+  return (
+    <div className="space-y-3">
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          if (!disabled) handleFiles(e.dataTransfer.files);
+        }}
+        className={cn(
+          'flex w-full flex-col items-center gap-2 rounded-lg border-2 border-dashed px-6 py-8 text-center transition-all duration-200',
+          disabled
+            ? 'cursor-not-allowed border-white/10 bg-white/5 opacity-60'
+            : isDragging
+              ? 'border-primary bg-primary/10'
+              : 'hover:border-primary/50 border-white/20 bg-white/5 hover:bg-white/10'
+        )}
+      >
+        <Upload className="text-primary h-6 w-6" />
+        <span className="text-foreground text-sm font-medium">
+          Drop files here or click to browse
+        </span>
+        <span className="text-text-secondary text-xs">
+          {disabled
+            ? 'Saving your draft… uploads unlock in a moment'
+            : `PDF, Word, PowerPoint or Markdown, up to ${MAX_MATERIAL_BYTES / (1024 * 1024)} MB each`}
+        </span>
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={MATERIAL_ACCEPT}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+
+      {error && (
+        <div className="animate-fade-in text-error flex items-start gap-2 text-[13px] font-medium">
+          <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+          <span className="leading-tight">{error}</span>
+        </div>
+      )}
+
+      {(materials.length > 0 || uploading.length > 0) && (
+        <ul className="space-y-2">
+          {materials.map((material) => (
+            <li
+              key={material.id}
+              className="flex items-start gap-3 rounded-lg border border-white/10 bg-white/5 p-3"
+            >
+              <FileText className="text-primary mt-0.5 h-4 w-4 flex-shrink-0" />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-baseline gap-2">
+                  <span className="text-foreground truncate text-sm font-medium">
+                    {material.fileName}
+                  </span>
+                  <span className="text-text-secondary text-xs">
+                    {formatFileSize(material.fileSize)}
+                  </span>
+                </div>
+                {material.summary && (
+                  <p className="text-text-secondary mt-1 line-clamp-2 text-xs leading-snug">
+                    {material.summary}
+                  </p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRemove(material.id)}
+                className="hover:text-error rounded p-1 text-white/50 transition-colors"
+                aria-label={`Remove ${material.fileName}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+          {uploading.map((name) => (
+            <li
+              key={`uploading-${name}`}
+              className="flex items-center gap-3 rounded-lg border border-white/10 bg-white/5 p-3"
+            >
+              <Loader2 className="text-primary h-4 w-4 animate-spin" />
+              <span className="text-text-secondary truncate text-sm">
+                Reading and summarising {name}…
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
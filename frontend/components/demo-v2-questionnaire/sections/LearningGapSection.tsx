@@ -6,6 +6,8 @@ import { cn } from '@/lib/utils';
 import { StaticQuestionnaireFormData } from '@/app/demo-v2-questionnaire/page';
 import { QuestionnaireInput } from '@/components/wizard/static-questions/QuestionnaireInput';
 import { QuestionnaireSelect } from '@/components/wizard/static-questions/QuestionnaireSelect';
+import { CourseMaterialsUpload } from '@/components/demo-v2-questionnaire/CourseMaterialsUpload';
+import { usesExistingMaterials, type ContentStrategy } from '@/lib/materials/context';
 
 const MOTIVATION_FACTORS = [
   { value: 'Career Advancement', label: 'Career Advancement' },
@@ -55,6 +57,30 @@ const LEARNER_COUNT_RANGES = [
   { value: '1000+', label: '1000+ learners' },
 ];
 
+const CONTENT_STRATEGIES: Array<{ value: ContentStrategy; label: string; description: string }> = [
+  {
+    value: 'scratch',
+    label: 'Create from Scratch',
+    description: 'Build all content from the ground up',
+  },
+  {
+    value: 'adapt',
+    label: 'Adapt Existing Content',
+    description: 'Revise and modernize current materials',
+  },
+  {
+    value: 'license',
+    label: 'License External Content',
+    description: 'Purchase off-the-shelf courses',
+  },
+  { value: 'curate', label: 'Curate OER', description: 'Use open educational resources' },
+  {
+    value: 'hybrid',
+    label: 'Hybrid Approach',
+    description: 'Mix existing materials with new content',
+  },
+];
+
 const KNOWLEDGE_LEVELS = [
   { value: 1, label: 'No Knowledge', description: 'Complete beginner, no prior exposure' },
   { value: 2, label: 'Beginner', description: 'Basic understanding, limited experience' },
@@ -324,7 +350,14 @@ const CURRENCIES = {
   },
 };
 
-export function LearningGapSection(): React.JSX.Element {
+interface LearningGapSectionProps {
+  /** Draft blueprint id, needed to upload existing course materials */
+  blueprintId?: string | null;
+}
+
+export function LearningGapSection({
+  blueprintId = null,
+}: LearningGapSectionProps = {}): React.JSX.Element {
   const {
     register,
     formState: { errors },
@@ -333,6 +366,7 @@ export function LearningGapSection(): React.JSX.Element {
   } = useFormContext<StaticQuestionnaireFormData>();
 
   const watchedValues = watch();
+  const contentStrategy = watchedValues?.section_3_learning_gap?.content_strategy;
 
   // Get current currency and its configuration with proper null checks
   const currentCurrency =
@@ -380,6 +414,12 @@ export function LearningGapSection(): React.JSX.Element {
     }
   };
 
+  // Stable across renders so the upload only reloads materials per blueprint
+  const handleMaterialsChange = React.useCallback(
+    (ids: string[]) => setValue('section_3_learning_gap.existing_materials', ids),
+    [setValue]
+  );
+
   return (
     <div className="animate-fade-in-up space-y-7">
       {/* Learning Gap Description */}
@@ -930,6 +970,55 @@ export function LearningGapSection(): React.JSX.Element {
           etc.)
         </p>
       </div>
+
+      {/* Content Strategy & Existing Materials */}
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <label className="text-foreground block text-[15px] leading-tight font-medium">
+            Content Strategy
+          </label>
+          <span className="rounded-full bg-white/10 px-2 py-1 text-xs text-white/60">
+            Select one
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          {CONTENT_STRATEGIES.map((strategy) => {
+            const isSelected = contentStrategy === strategy.value;
+            return (
+              <button
+                key={strategy.value}
+                type="button"
+                title={strategy.description}
+                onClick={() => setValue('section_3_learning_gap.content_strategy', strategy.value)}
+                className={cn(
+                  'relative rounded-lg border px-4 py-2 text-sm font-medium transition-all duration-200',
+                  'hover:scale-105 active:scale-95',
+                  isSelected
+                    ? 'bg-primary text-primary-foreground border-primary ring-primary/30 shadow-lg ring-2'
+                    : 'border-white/20 bg-white/10 text-white/80 hover:border-white/30 hover:bg-white/20'
+                )}
+              >
+                {strategy.label}
+              </button>
+            );
+          })}
+        </div>
+
+        {usesExistingMaterials(contentStrategy ?? null) && (
+          <div className="space-y-3">
+            <p className="text-text-secondary text-[13px] leading-snug">
+              Upload the materials you already have. We extract and summarise their text so your
+              questions and blueprint build on what exists instead of starting over. Files are not
+              stored.
+            </p>
+            <CourseMaterialsUpload
+              blueprintId={blueprintId}
+              value={watchedValues?.section_3_learning_gap?.existing_materials ?? []}
+              onChange={handleMaterialsChange}
+            />
+          </div>
+        )}
+      </div>
     </div>
   );
 }
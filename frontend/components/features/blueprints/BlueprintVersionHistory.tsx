@@ -0,0 +1,365 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { X, History, RotateCcw, AlertCircle, Loader2, GitCompare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  diffBlueprintVersions,
+  formatDiffValue,
+  type SectionChangeType,
+} from '@/lib/services/blueprintVersionDiff';
+import type {
+  BlueprintVersion,
+  BlueprintVersionSource,
+  BlueprintVersionSummary,
+} from '@/lib/services/blueprintVersionService';
+
+interface BlueprintVersionHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  blueprintId: string;
+  /** Called with null when the blueprint already matched the version */
+  onRestored: (version: BlueprintVersionSummary | null) => void;
+}
+
+const SOURCE_LABELS: Record<BlueprintVersionSource, string> = {
+  backfill: 'Initial version',
+  generation: 'Generated',
+  regeneration: 'Section regenerated',
+  edit: 'Edited',
+  restore: 'Restored',
+};
+
+const CHANGE_STYLES: Record<SectionChangeType, string> = {
+  added: 'border-success/30 bg-success/10 text-success',
+  removed: 'border-error/30 bg-error/10 text-error',
+  modified: 'border-primary/30 bg-primary/10 text-primary',
+  unchanged: 'border-white/10 bg-white/5 text-white/50',
+};
+
+function describeVersion(version: BlueprintVersionSummary): string {
+  if (version.changeSource === 'restore' && version.restoredFromVersion) {
+    return `Restored from v${version.restoredFromVersion}`;
+  }
+  return SOURCE_LABELS[version.changeSource] ?? version.changeSource;
+}
+
+export function BlueprintVersionHistory({
+  isOpen,
+  onClose,
+  blueprintId,
+  onRestored,
+}: BlueprintVersionHistoryProps): React.JSX.Element | null {
+  const [versions, setVersions] = useState<BlueprintVersionSummary[]>([]);
+  const [snapshots, setSnapshots] = useState<Record<string, BlueprintVersion>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestedSnapshots = useRef(new Set<string>());
+
+  const loadSnapshot = useCallback(
+    async (versionId: string) => {
+      if (requestedSnapshots.current.has(versionId)) return;
+      requestedSnapshots.current.add(versionId);
+      const response = await fetch(`/api/blueprints/${blueprintId}/versions/${versionId}`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        requestedSnapshots.current.delete(versionId);
+        throw new Error(result.error || 'Failed to load version');
+      }
+      setSnapshots((prev) => ({ ...prev, [versionId]: result.version }));
+    },
+    [blueprintId]
+  );
+
+  // Load the version list when the dialog opens
+  useEffect(() => {
+    if (!isOpen || !blueprintId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetch(`/api/blueprints/${blueprintId}/versions`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (cancelled) return;
+        if (!result.success) throw new Error(result.error || 'Failed to load version history');
+        const list: BlueprintVersionSummary[] = result.versions;
+        setVersions(list);
+        setSelectedId(list[0]?.id ?? null);
+        setBaseId(list[1]?.id ?? null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, blueprintId]);
+
+  // Fetch the content of the two versions being compared
+  useEffect(() => {
+    if (!isOpen) return;
+    const ids = [selectedId, baseId].filter((id): id is string => Boolean(id));
+    Promise.all(ids.map(loadSnapshot)).catch((err) =>
+      setError(err instanceof Error ? err.message : 'Failed to load version')
+    );
+  }, [isOpen, selectedId, baseId, loadSnapshot]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isOpen && e.key === 'Escape' && !isRestoring) onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, isRestoring, onClose]);
+
+  const selected = versions.find((v) => v.id === selectedId) ?? null;
+  const base = versions.find((v) => v.id === baseId) ?? null;
+  const isLatest = selected !== null && selected.id === versions[0]?.id;
+
+  const diff = useMemo(() => {
+    const after = selectedId ? snapshots[selectedId] : undefined;
+    if (!after) return null;
+    const before = baseId ? snapshots[baseId] : undefined;
+    if (baseId && !before) return null;
+    return diffBlueprintVersions(before?.blueprintJson, after.blueprintJson);
+  }, [snapshots, selectedId, baseId]);
+
+  const handleSelect = (versionId: string) => {
+    setSelectedId(versionId);
+    const index = versions.findIndex((v) => v.id === versionId);
+    setBaseId(versions[index + 1]?.id ?? null);
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setIsRestoring(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/blueprints/${blueprintId}/versions/${selected.id}/restore`,
+        { method: 'POST' }
+      );
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to restore version');
+      }
+      onRestored(result.version);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isRestoring) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      className="animate-fade-in fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md"
+      onClick={handleBackdropClick}
+    >
+      <div className="glass-strong animate-scale-in mx-4 flex max-h-[85vh] w-full max-w-5xl flex-col overflow-hidden rounded-2xl shadow-2xl">
+        {/* Header */}
+        <div className="border-b border-white/10 bg-white/5 p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="bg-primary/10 border-primary/20 flex h-10 w-10 items-center justify-center rounded-full border">
+                <History className="text-primary h-5 w-5" />
+              </div>
+              <div>
+                <h2 className="font-heading text-xl font-semibold text-white">Version History</h2>
+                <p className="text-sm text-white/60">
+                  Every generation, edit and restore is kept. Compare versions or restore one.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isRestoring}
+              className="pressable inline-flex h-8 w-8 items-center justify-center rounded-lg text-white/50 transition-colors hover:bg-white/10 hover:text-white/80 disabled:cursor-not-allowed disabled:opacity-50"
+              aria-label="Close dialog"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-error/10 border-error/20 text-error mx-6 mt-4 flex items-center space-x-2 rounded-lg border px-3 py-2.5 text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex flex-1 items-center justify-center p-12">
+            <Loader2 className="text-primary h-6 w-6 animate-spin" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="p-12 text-center text-sm text-white/60">
+            No versions have been recorded for this blueprint yet.
+          </div>
+        ) : (
+          <div className="flex min-h-0 flex-1">
+            {/* Version list */}
+            <ul className="w-64 flex-shrink-0 space-y-1 overflow-y-auto border-r border-white/10 p-3">
+              {versions.map((version) => (
+                <li key={version.id}>
+                  <button
+                    onClick={() => handleSelect(version.id)}
+                    className={`w-full rounded-lg border px-3 py-2 text-left transition-colors ${
+                      version.id === selectedId
+                        ? 'border-primary/40 bg-primary/10'
+                        : 'border-transparent hover:bg-white/5'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-semibold text-white">
+                        v{version.versionNumber}
+                      </span>
+                      {version.id === versions[0].id && (
+                        <span className="text-primary text-xs font-medium">Current</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-white/60">{describeVersion(version)}</div>
+                    <div className="text-xs text-white/40">
+                      {new Date(version.createdAt).toLocaleString()}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Diff */}
+            <div className="flex min-w-0 flex-1 flex-col">
+              <div className="flex items-center gap-3 border-b border-white/10 px-6 py-3 text-sm text-white/70">
+                <GitCompare className="h-4 w-4 flex-shrink-0" />
+                <label htmlFor="version-compare-base" className="whitespace-nowrap">
+                  v{selected?.versionNumber} compared with
+                </label>
+                <select
+                  id="version-compare-base"
+                  value={baseId ?? ''}
+                  onChange={(e) => setBaseId(e.target.value || null)}
+                  className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-white"
+                >
+                  <option value="">Nothing (show full content)</option>
+                  {versions
+                    .filter((v) => v.id !== selectedId)
+                    .map((v) => (
+                      <option key={v.id} value={v.id}>
+                        v{v.versionNumber} · {describeVersion(v)}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
+              <div className="flex-1 space-y-3 overflow-y-auto p-6">
+                {!diff ? (
+                  <div className="flex justify-center p-8">
+                    <Loader2 className="text-primary h-5 w-5 animate-spin" />
+                  </div>
+                ) : (
+                  <>
+                    <p className="text-xs text-white/50">
+                      {diff.summary.modified} changed · {diff.summary.added} added ·{' '}
+                      {diff.summary.removed} removed · {diff.summary.unchanged} unchanged
+                      {base ? ` since v${base.versionNumber}` : ''}
+                    </p>
+                    {diff.sections
+                      .filter((section) => section.change !== 'unchanged')
+                      .map((section) => (
+                        <div
+                          key={section.sectionId}
+                          className="rounded-xl border border-white/10 bg-white/5 p-4"
+                        >
+                          <div className="mb-2 flex items-center justify-between">
+                            <h3 className="text-sm font-semibold text-white">{section.title}</h3>
+                            <span
+                              className={`rounded-full border px-2 py-0.5 text-xs capitalize ${CHANGE_STYLES[section.change]}`}
+                            >
+                              {section.change}
+                            </span>
+                          </div>
+                          {section.fields.length > 0 && (
+                            <ul className="space-y-2 text-xs">
+                              {section.fields.map((field) => (
+                                <li key={`${field.type}:${field.path}`} className="space-y-1">
+                                  <div className="font-mono text-white/50">
+                                    {field.path || '(section)'}
+                                  </div>
+                                  {field.before !== undefined && (
+                                    <div className="text-error/90 bg-error/5 rounded px-2 py-1 break-words">
+                                      − {formatDiffValue(field.before)}
+                                    </div>
+                                  )}
+                                  {field.after !== undefined && (
+                                    <div className="text-success/90 bg-success/5 rounded px-2 py-1 break-words">
+                                      + {formatDiffValue(field.after)}
+                                    </div>
+                                  )}
+                                </li>
+                              ))}
+                              {section.truncated && (
+                                <li className="text-white/40">More changes not shown…</li>
+                              )}
+                            </ul>
+                          )}
+                        </div>
+                      ))}
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 border-t border-white/10 bg-white/5 px-6 py-4">
+          <Button variant="ghost" onClick={onClose} disabled={isRestoring}>
+            Close
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleRestore}
+            disabled={!selected || isLatest || isRestoring}
+            className="min-w-24"
+          >
+            {isRestoring ? (
+              <div className="flex items-center space-x-2">
+                <div className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                <span>Restoring...</span>
+              </div>
+            ) : (
+              <div className="flex items-center space-x-2">
+                <RotateCcw className="h-4 w-4" />
+                <span>Restore v{selected?.versionNumber}</span>
+              </div>
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,497 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ClipboardList, KanbanSquare, Loader2, Plus, RefreshCw, Timer, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { KPICards } from '@/components/dashboard/KPICards';
+import { TimelineChart } from '@/components/dashboard/TimelineChart';
+import { BurnUpChart } from '@/components/dashboard/BurnUpChart';
+import { TaskExportDialog } from './TaskExportDialog';
+import {
+  buildBurnUp,
+  buildPlanKpis,
+  buildPlanTimeline,
+} from '@/lib/dashboard/implementationProgress';
+import {
+  getCollaboratorName,
+  type BlueprintCollaborator,
+} from '@/lib/services/blueprintCommentService';
+import type {
+  ImplementationPlan,
+  ImplementationTask,
+  ImplementationTaskStatus,
+  TaskUpdate,
+  TimeEntry,
+} from '@/lib/services/implementationPlanService';
+import { cn } from '@/lib/utils';
+
+interface ImplementationPlanTrackerProps {
+  blueprintId: string;
+}
+
+const STATUS_LABELS: Record<ImplementationTaskStatus, string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  completed: 'Completed',
+};
+
+const inputClassName =
+  'focus:border-primary rounded-lg border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white placeholder:text-text-disabled focus:outline-none';
+
+/**
+ * Implementation plan of a blueprint: KPIs, timeline and burn-up computed
+ * from the plan's tasks and logged hours, and a task table where editors set
+ * owners, due dates, status and progress and log time
+ */
+export function ImplementationPlanTracker({
+  blueprintId,
+}: ImplementationPlanTrackerProps): React.JSX.Element {
+  const [plan, setPlan] = useState<ImplementationPlan | null>(null);
+  const [tasks, setTasks] = useState<ImplementationTask[]>([]);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [collaborators, setCollaborators] = useState<BlueprintCollaborator[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [loggingTaskId, setLoggingTaskId] = useState<string | null>(null);
+  const [logHours, setLogHours] = useState('');
+  const [newTask, setNewTask] = useState({ title: '', dueDate: '', estimatedHours: '' });
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const baseUrl = `/api/blueprints/${blueprintId}/plan`;
+
+  const loadPlan = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load the implementation plan');
+      }
+      setPlan(data.plan);
+      setTasks(data.tasks);
+      setTimeEntries(data.timeEntries);
+      setCollaborators(data.collaborators);
+      setCanEdit(data.canEdit);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the implementation plan');
+    } finally {
+      setLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    loadPlan();
+  }, [loadPlan]);
+
+  const request = async (url: string, init: RequestInit) => {
+    setError(null);
+    const response = await fetch(url, {
+      ...init,
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const replaceTask = (task: ImplementationTask) => {
+    setTasks((current) => current.map((item) => (item.id === task.id ? task : item)));
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    setNotice(null);
+    try {
+      const data = await request(baseUrl, {
+        method: 'POST',
+        body: JSON.stringify({ startDate }),
+      });
+      if (plan) {
+        setNotice(
+          data.addedTasks > 0
+            ? `Added ${data.addedTasks} new task${data.addedTasks === 1 ? '' : 's'} from the blueprint`
+            : 'The plan already covers every module and milestone'
+        );
+      }
+      await loadPlan();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the implementation plan');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleUpdate = async (task: ImplementationTask, changes: TaskUpdate) => {
+    try {
+      const data = await request(`${baseUrl}/tasks/${task.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      });
+      replaceTask(data.task);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the task');
+    }
+  };
+
+  const handleDelete = async (task: ImplementationTask) => {
+    if (!window.confirm(`Delete "${task.title}" and the hours logged on it?`)) return;
+    try {
+      await request(`${baseUrl}/tasks/${task.id}`, { method: 'DELETE' });
+      setTasks((current) => current.filter((item) => item.id !== task.id));
+      setTimeEntries((current) => current.filter((entry) => entry.taskId !== task.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the task');
+    }
+  };
+
+  const handleLogTime = async (event: React.FormEvent, task: ImplementationTask) => {
+    event.preventDefault();
+    try {
+      const data = await request(`${baseUrl}/tasks/${task.id}/time`, {
+        method: 'POST',
+        body: JSON.stringify({ hours: Number(logHours), loggedOn: today }),
+      });
+      replaceTask(data.task);
+      setTimeEntries((current) => [...current, data.entry]);
+      setLoggingTaskId(null);
+      setLogHours('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log time');
+    }
+  };
+
+  const handleAddTask = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const data = await request(`${baseUrl}/tasks`, {
+        method: 'POST',
+        body: JSON.stringify({
+          title: newTask.title,
+          dueDate: newTask.dueDate || null,
+          estimatedHours: newTask.estimatedHours ? Number(newTask.estimatedHours) : null,
+        }),
+      });
+      setTasks((current) => [...current, data.task]);
+      setNewTask({ title: '', dueDate: '', estimatedHours: '' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add the task');
+    }
+  };
+
+  const kpis = useMemo(() => buildPlanKpis(tasks, timeEntries), [tasks, timeEntries]);
+  const timeline = useMemo(
+    () => (plan ? buildPlanTimeline(plan, tasks, timeEntries, today) : []),
+    [plan, tasks, timeEntries, today]
+  );
+  const burnUp = useMemo(
+    () => (plan ? buildBurnUp(plan, tasks, timeEntries, today) : []),
+    [plan, tasks, timeEntries, today]
+  );
+
+  if (loading) {
+    return (
+      <div className="text-text-secondary flex items-center justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const exportDialog = (
+    <TaskExportDialog
+      isOpen={isExportOpen}
+      onClose={() => setIsExportOpen(false)}
+      blueprintId={blueprintId}
+      canPush={canEdit}
+      onExported={setNotice}
+    />
+  );
+
+  const exportButton = (
+    <Button variant="outline" size="small" onClick={() => setIsExportOpen(true)}>
+      <KanbanSquare className="mr-2 h-4 w-4" />
+      Export tasks
+    </Button>
+  );
+
+  if (!plan) {
+    return (
+      <>
+        <GlassCard className="flex flex-col items-center gap-4 py-12 text-center">
+          <ClipboardList className="text-text-secondary h-10 w-10" />
+          <p className="text-foreground font-medium">No implementation plan yet</p>
+          {canEdit ? (
+            <>
+              <p className="text-caption text-text-secondary max-w-md">
+                Create tasks from the blueprint&apos;s modules and timeline milestones, then track
+                owners, due dates and hours as the rollout progresses.
+              </p>
+              <label className="text-caption text-text-secondary flex items-center gap-2">
+                Start date
+                <input
+                  type="date"
+                  className={inputClassName}
+                  value={startDate}
+                  onChange={(event) => setStartDate(event.target.value)}
+                />
+              </label>
+              <Button onClick={handleSync} disabled={syncing || !startDate}>
+                {syncing ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                Create plan
+              </Button>
+            </>
+          ) : (
+            <p className="text-caption text-text-secondary max-w-md">
+              An editor of this blueprint can create one.
+            </p>
+          )}
+          {exportButton}
+          {error && <p className="text-error text-sm">{error}</p>}
+          {notice && <p className="text-text-secondary text-sm">{notice}</p>}
+        </GlassCard>
+        {exportDialog}
+      </>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-error text-sm">{error}</p>}
+      {notice && <p className="text-text-secondary text-sm">{notice}</p>}
+
+      <KPICards kpis={kpis} />
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <GlassCard>
+          <TimelineChart data={timeline} className="h-96" />
+        </GlassCard>
+        <GlassCard>
+          <BurnUpChart data={burnUp} today={today} className="h-96" />
+        </GlassCard>
+      </div>
+
+      <GlassCard className="overflow-x-auto">
+        <div className="mb-4 flex items-center justify-between gap-4">
+          <h2 className="text-foreground flex items-center gap-2 text-lg font-semibold">
+            <ClipboardList className="text-primary h-5 w-5" />
+            Tasks
+          </h2>
+          <div className="flex items-center gap-2">
+            {exportButton}
+            {canEdit && (
+              <Button variant="outline" size="small" onClick={handleSync} disabled={syncing}>
+                <RefreshCw className={cn('mr-2 h-4 w-4', syncing && 'animate-spin')} />
+                Sync from blueprint
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {tasks.length === 0 ? (
+          <p className="text-text-secondary text-sm">This plan has no tasks.</p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead className="text-text-secondary text-xs uppercase">
+              <tr>
+                <th className="py-2 pr-4">Task</th>
+                <th className="py-2 pr-4">Owner</th>
+                <th className="py-2 pr-4">Due</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4">Progress</th>
+                <th className="py-2 pr-4">Hours</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {tasks.map((task) => {
+                const overdue =
+                  task.status !== 'completed' && !!task.dueDate && task.dueDate < today;
+
+                return (
+                  <tr key={task.id} className="text-foreground align-top">
+                    <td className="py-3 pr-4">
+                      <p className="font-medium">{task.title}</p>
+                      <p className="text-text-secondary text-xs">{task.category}</p>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <select
+                        className={inputClassName}
+                        value={task.ownerId ?? ''}
+                        disabled={!canEdit}
+                        onChange={(event) =>
+                          handleUpdate(task, { ownerId: event.target.value || null })
+                        }
+                        aria-label={`Owner of ${task.title}`}
+                      >
+                        <option value="">Unassigned</option>
+                        {collaborators.map((collaborator) => (
+                          <option key={collaborator.userId} value={collaborator.userId}>
+                            {getCollaboratorName(collaborator)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <input
+                        type="date"
+                        className={cn(inputClassName, overdue && 'border-error/50 text-error')}
+                        value={task.dueDate ?? ''}
+                        disabled={!canEdit}
+                        onChange={(event) =>
+                          handleUpdate(task, { dueDate: event.target.value || null })
+                        }
+                        aria-label={`Due date of ${task.title}`}
+                      />
+                    </td>
+                    <td className="py-3 pr-4">
+                      <select
+                        className={inputClassName}
+                        value={task.status}
+                        disabled={!canEdit}
+                        onChange={(event) =>
+                          handleUpdate(task, {
+                            status: event.target.value as ImplementationTaskStatus,
+                          })
+                        }
+                        aria-label={`Status of ${task.title}`}
+                      >
+                        {Object.entries(STATUS_LABELS).map(([status, label]) => (
+                          <option key={status} value={status}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="range"
+                          min={0}
+                          max={100}
+                          step={10}
+                          defaultValue={task.progressPercentage}
+                          key={`${task.id}-${task.progressPercentage}`}
+                          disabled={!canEdit || task.status === 'completed'}
+                          onPointerUp={(event) =>
+                            handleUpdate(task, {
+                              progressPercentage: Number(event.currentTarget.value),
+                            })
+                          }
+                          aria-label={`Progress of ${task.title}`}
+                          className="w-24"
+                        />
+                        <span className="text-text-secondary w-10 text-xs">
+                          {task.progressPercentage}%
+                        </span>
+                      </div>
+                    </td>
+                    <td className="py-3 pr-4 whitespace-nowrap">
+                      <span>{task.actualHours}</span>
+                      <span className="text-text-secondary"> / {task.estimatedHours ?? '–'}h</span>
+                      {canEdit &&
+                        (loggingTaskId === task.id ? (
+                          <form
+                            onSubmit={(event) => handleLogTime(event, task)}
+                            className="mt-2 flex items-center gap-1"
+                          >
+                            <input
+                              type="number"
+                              min={0.25}
+                              max={24}
+                              step={0.25}
+                              className={cn(inputClassName, 'w-20')}
+                              value={logHours}
+                              onChange={(event) => setLogHours(event.target.value)}
+                              placeholder="Hours"
+                              autoFocus
+                              required
+                            />
+                            <Button type="submit" size="small">
+                              Log
+                            </Button>
+                          </form>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setLoggingTaskId(task.id);
+                              setLogHours('');
+                            }}
+                            className="text-primary mt-1 flex items-center gap-1 text-xs hover:underline"
+                          >
+                            <Timer className="h-3 w-3" />
+                            Log time
+                          </button>
+                        ))}
+                    </td>
+                    <td className="py-3 text-right">
+                      {canEdit && (
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(task)}
+                          className="hover:text-error rounded-lg p-2 text-white/50 transition-colors hover:bg-white/5"
+                          aria-label={`Delete ${task.title}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {canEdit && (
+          <form
+            onSubmit={handleAddTask}
+            className="mt-6 grid gap-3 border-t border-white/10 pt-4 sm:grid-cols-[1fr_auto_auto_auto]"
+          >
+            <input
+              className={inputClassName}
+              placeholder="New task"
+              value={newTask.title}
+              onChange={(event) => setNewTask({ ...newTask, title: event.target.value })}
+              required
+            />
+            <input
+              type="date"
+              className={inputClassName}
+              value={newTask.dueDate}
+              onChange={(event) => setNewTask({ ...newTask, dueDate: event.target.value })}
+              aria-label="Due date"
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              className={cn(inputClassName, 'w-28')}
+              placeholder="Est. hours"
+              value={newTask.estimatedHours}
+              onChange={(event) => setNewTask({ ...newTask, estimatedHours: event.target.value })}
+            />
+            <Button type="submit" size="small">
+              <Plus className="mr-2 h-4 w-4" />
+              Add task
+            </Button>
+          </form>
+        )}
+      </GlassCard>
+
+      {exportDialog}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { motion, useInView, AnimatePresence } from 'framer-motion';
 import type { Variants } from 'framer-motion';
 import {
@@ -22,8 +22,12 @@ import {
   TrendingUp,
   CheckCircle2,
   Edit,
+  MessageSquare,
 } from 'lucide-react';
 import { VisualJSONEditor } from '@/components/modals/VisualJSONEditor';
+import { RegenerateSectionDialog } from './RegenerateSectionDialog';
+import { SectionCommentsDialog } from './SectionCommentsDialog';
+import { SectionRatingBar } from './SectionRatingBar';
 import { ObjectivesInfographic } from './infographics/ObjectivesInfographic';
 import { TargetAudienceInfographic } from './infographics/TargetAudienceInfographic';
 import { AssessmentStrategyInfographic } from './infographics/AssessmentStrategyInfographic';
@@ -37,11 +41,21 @@ import { SustainabilityPlanInfographic } from './infographics/SustainabilityPlan
 import type { BlueprintJSON } from './types';
 import CountUp from 'react-countup';
 import { useMobileDetect } from '@/lib/hooks/useMobileDetect';
+import type {
+  BlueprintCollaborator,
+  BlueprintCommentThread,
+} from '@/lib/services/blueprintCommentService';
+import { canEditWithRole, type WorkspaceRole } from '@/lib/services/workspaceService';
+import type { SectionRating } from '@/lib/services/sectionRatingService';
 
 interface InteractiveBlueprintDashboardProps {
   blueprint: BlueprintJSON;
   blueprintId: string;
   isPublicView?: boolean;
+  /** Share token, used to load read-only comments in the public view */
+  shareToken?: string;
+  /** Password for a protected share link, sent along with the token */
+  sharePassword?: string;
 }
 
 interface SectionDef {
@@ -58,6 +72,8 @@ export function InteractiveBlueprintDashboard({
   blueprint,
   blueprintId,
   isPublicView = false,
+  shareToken,
+  sharePassword,
 }: InteractiveBlueprintDashboardProps): React.JSX.Element {
   const ref = React.useRef(null);
   const isInView = useInView(ref, { once: true, margin: '-100px' });
@@ -75,10 +91,72 @@ export function InteractiveBlueprintDashboard({
   const [selectedSectionTitle, setSelectedSectionTitle] = useState<string>('');
   const [selectedSectionData, setSelectedSectionData] = useState<unknown>(null);
 
+  // AI Section Regeneration State
+  const [regenerateSection, setRegenerateSection] = useState<{ id: string; title: string } | null>(
+    null
+  );
+
+  // Section Comments State
+  const [commentSection, setCommentSection] = useState<{ id: string; title: string } | null>(null);
+  const [commentThreads, setCommentThreads] = useState<BlueprintCommentThread[]>([]);
+  const [collaborators, setCollaborators] = useState<BlueprintCollaborator[]>([]);
+  const [commentRole, setCommentRole] = useState<WorkspaceRole | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | undefined>(undefined);
+  const [shareComments, setShareComments] = useState(false);
+
+  // Section Ratings State
+  const [sectionRatings, setSectionRatings] = useState<Record<string, SectionRating>>({});
+
   useEffect(() => {
     setMounted(true);
   }, []);
 
+  const loadComments = useCallback(async () => {
+    if (isPublicView && !shareToken) return;
+
+    try {
+      const url = isPublicView
+        ? `/api/blueprints/share/${shareToken}/comments`
+        : `/api/blueprints/${blueprintId}/comments`;
+      const response = await fetch(url, {
+        headers: sharePassword ? { 'x-share-password': sharePassword } : undefined,
+      });
+      if (!response.ok) return;
+
+      const result = await response.json();
+      setCommentThreads(result.threads ?? []);
+      if (!isPublicView) {
+        setCollaborators(result.collaborators ?? []);
+        setCommentRole(result.role ?? null);
+        setCurrentUserId(result.currentUserId);
+        setShareComments(Boolean(result.shareComments));
+      }
+    } catch (error) {
+      console.error('Error loading blueprint comments:', error);
+    }
+  }, [blueprintId, isPublicView, shareToken, sharePassword]);
+
+  useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  useEffect(() => {
+    if (isPublicView) return;
+
+    fetch(`/api/blueprints/${blueprintId}/section-ratings`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) {
+          setSectionRatings(
+            Object.fromEntries(
+              (result.ratings as SectionRating[]).map((rating) => [rating.sectionId, rating])
+            )
+          );
+        }
+      })
+      .catch((error) => console.error('Error loading section ratings:', error));
+  }, [blueprintId, isPublicView]);
+
   // Track animation state once to prevent flickering
   useEffect(() => {
     if (isInView && !hasAnimated) {
@@ -356,6 +434,102 @@ export function InteractiveBlueprintDashboard({
     }
   };
 
+  const handleRegenerateSection = async (instruction: string) => {
+    if (!regenerateSection) return;
+
+    const response = await fetch(
+      `/api/blueprints/${blueprintId}/sections/${regenerateSection.id}/regenerate`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ instruction }),
+      }
+    );
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to regenerate section');
+    }
+
+    // Refresh the page to show updated content
+    window.location.reload();
+  };
+
+  const sendCommentRequest = async (url: string, init: RequestInit, fallbackError: string) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || fallbackError);
+    }
+
+    await loadComments();
+  };
+
+  const handleCreateComment = async (body: string, parentId?: string) => {
+    if (!commentSection) return;
+
+    await sendCommentRequest(
+      `/api/blueprints/${blueprintId}/comments`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ sectionId: commentSection.id, body, parentId }),
+      },
+      'Failed to add comment'
+    );
+  };
+
+  const handleResolveComment = async (commentId: string, resolved: boolean) => {
+    await sendCommentRequest(
+      `/api/blueprints/${blueprintId}/comments/${commentId}`,
+      { method: 'PATCH', body: JSON.stringify({ resolved }) },
+      'Failed to update thread'
+    );
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    await sendCommentRequest(
+      `/api/blueprints/${blueprintId}/comments/${commentId}`,
+      { method: 'DELETE' },
+      'Failed to delete comment'
+    );
+  };
+
+  const handleShareCommentsChange = async (value: boolean) => {
+    await sendCommentRequest(
+      `/api/blueprints/${blueprintId}/comments/visibility`,
+      { method: 'PATCH', body: JSON.stringify({ shareComments: value }) },
+      'Failed to update comment visibility'
+    );
+  };
+
+  const handleRateSection = async (sectionId: string, rating: number, comment: string | null) => {
+    const response = await fetch(`/api/blueprints/${blueprintId}/section-ratings`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sectionId, rating, comment }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to save rating');
+    }
+
+    setSectionRatings((current) => ({ ...current, [sectionId]: result.rating }));
+  };
+
+  const openCommentCount = (sectionId: string) =>
+    commentThreads.filter((thread) => thread.sectionId === sectionId && !thread.resolvedAt).length;
+
   // Animation variants - optimized for mobile performance
   const containerVariants: Variants = {
     hidden: { opacity: 0 },
@@ -693,6 +867,15 @@ export function InteractiveBlueprintDashboard({
             isExpanded={expandedSections.has('learning_objectives')}
             onToggle={() => toggleSection('learning_objectives')}
             onEditClick={(sectionId, sectionTitle) => handleOpenEditor(sectionId, sectionTitle)}
+            onModifyClick={(sectionId, sectionTitle) =>
+              setRegenerateSection({ id: sectionId, title: sectionTitle })
+            }
+            commentCount={openCommentCount('learning_objectives')}
+            rating={sectionRatings['learning_objectives']}
+            onRate={isPublicView ? undefined : handleRateSection}
+            onCommentsClick={(sectionId, sectionTitle) =>
+              setCommentSection({ id: sectionId, title: sectionTitle })
+            }
             ref={(el) => {
               sectionRefs.current['objectives'] = el;
             }}
@@ -712,6 +895,15 @@ export function InteractiveBlueprintDashboard({
             isExpanded={expandedSections.has('target_audience')}
             onToggle={() => toggleSection('target_audience')}
             onEditClick={(sectionId, sectionTitle) => handleOpenEditor(sectionId, sectionTitle)}
+            onModifyClick={(sectionId, sectionTitle) =>
+              setRegenerateSection({ id: sectionId, title: sectionTitle })
+            }
+            commentCount={openCommentCount('target_audience')}
+            rating={sectionRatings['target_audience']}
+            onRate={isPublicView ? undefined : handleRateSection}
+            onCommentsClick={(sectionId, sectionTitle) =>
+              setCommentSection({ id: sectionId, title: sectionTitle })
+            }
             ref={(el) => {
               sectionRefs.current['target_audience'] = el;
             }}
@@ -728,6 +920,15 @@ export function InteractiveBlueprintDashboard({
             isExpanded={expandedSections.has('content_outline')}
             onToggle={() => toggleSection('content_outline')}
             onEditClick={(sectionId, sectionTitle) => handleOpenEditor(sectionId, sectionTitle)}
+            onModifyClick={(sectionId, sectionTitle) =>
+              setRegenerateSection({ id: sectionId, title: sectionTitle })
+            }
+            commentCount={openCommentCount('content_outline')}
+            rating={sectionRatings['content_outline']}
+            onRate={isPublicView ? undefined : handleRateSection}
+            onCommentsClick={(sectionId, sectionTitle) =>
+              setCommentSection({ id: sectionId, title: sectionTitle })
+            }
             ref={(el) => {
               sectionRefs.current['content_outline'] = el;
             }}
@@ -744,6 +945,15 @@ export function InteractiveBlueprintDashboard({
             isExpanded={expandedSections.has('resources')}
             onToggle={() => toggleSection('resources')}
             onEditClick={(sectionId, sectionTitle) => handleOpenEditor(sectionId, sectionTitle)}
+            onModifyClick={(sectionId, sectionTitle) =>
+              setRegenerateSection({ id: sectionId, title: sectionTitle })
+            }
+            commentCount={openCommentCount('resources')}
+            rating={sectionRatings['resources']}
+            onRate={isPublicView ? undefined : handleRateSection}
+            onCommentsClick={(sectionId, sectionTitle) =>
+              setCommentSection({ id: sectionId, title: sectionTitle })
+            }
             ref={(el) => {
               sectionRefs.current['resources'] = el;
             }}
@@ -764,6 +974,15 @@ export function InteractiveBlueprintDashboard({
             isExpanded={expandedSections.has('assessment_strategy')}
             onToggle={() => toggleSection('assessment_strategy')}
             onEditClick={(sectionId, sectionTitle) => handleOpenEditor(sectionId, sectionTitle)}
+            onModifyClick={(sectionId, sectionTitle) =>
+              setRegenerateSection({ id: sectionId, title: sectionTitle })
+            }
+            commentCount={openCommentCount('assessment_strategy')}
+            rating={sectionRatings['assessment_strategy']}
+            onRate={isPublicView ? undefined : handleRateSection}
+            onCommentsClick={(sectionId, sectionTitle) =>
+              setCommentSection({ id: sectionId, title: sectionTitle })
+            }
             ref={(el) => {
               sectionRefs.current['assessment'] = el;
             }}
@@ -785,6 +1004,15 @@ export function InteractiveBlueprintDashboard({
             isExpanded={expandedSections.has('implementation_timeline')}
             onToggle={() => toggleSection('implementation_timeline')}
             onEditClick={(sectionId, sectionTitle) => handleOpenEditor(sectionId, sectionTitle)}
+            onModifyClick={(sectionId, sectionTitle) =>
+              setRegenerateSection({ id: sectionId, title: sectionTitle })
+            }
+            commentCount={openCommentCount('implementation_timeline')}
+            rating={sectionRatings['implementation_timeline']}
+            onRate={isPublicView ? undefined : handleRateSection}
+            onCommentsClick={(sectionId, sectionTitle) =>
+              setCommentSection({ id: sectionId, title: sectionTitle })
+            }
             ref={(el) => {
               sectionRefs.current['timeline'] = el;
             }}
@@ -804,6 +1032,15 @@ export function InteractiveBlueprintDashboard({
             isExpanded={expandedSections.has('risk_mitigation')}
             onToggle={() => toggleSection('risk_mitigation')}
             onEditClick={(sectionId, sectionTitle) => handleOpenEditor(sectionId, sectionTitle)}
+            onModifyClick={(sectionId, sectionTitle) =>
+              setRegenerateSection({ id: sectionId, title: sectionTitle })
+            }
+            commentCount={openCommentCount('risk_mitigation')}
+            rating={sectionRatings['risk_mitigation']}
+            onRate={isPublicView ? undefined : handleRateSection}
+            onCommentsClick={(sectionId, sectionTitle) =>
+              setCommentSection({ id: sectionId, title: sectionTitle })
+            }
             ref={(el) => {
               sectionRefs.current['risks'] = el;
             }}
@@ -823,6 +1060,15 @@ export function InteractiveBlueprintDashboard({
             isExpanded={expandedSections.has('success_metrics')}
             onToggle={() => toggleSection('success_metrics')}
             onEditClick={(sectionId, sectionTitle) => handleOpenEditor(sectionId, sectionTitle)}
+            onModifyClick={(sectionId, sectionTitle) =>
+              setRegenerateSection({ id: sectionId, title: sectionTitle })
+            }
+            commentCount={openCommentCount('success_metrics')}
+            rating={sectionRatings['success_metrics']}
+            onRate={isPublicView ? undefined : handleRateSection}
+            onCommentsClick={(sectionId, sectionTitle) =>
+              setCommentSection({ id: sectionId, title: sectionTitle })
+            }
             ref={(el) => {
               sectionRefs.current['metrics'] = el;
             }}
@@ -842,6 +1088,15 @@ export function InteractiveBlueprintDashboard({
             isExpanded={expandedSections.has('instructional_strategy')}
             onToggle={() => toggleSection('instructional_strategy')}
             onEditClick={(sectionId, sectionTitle) => handleOpenEditor(sectionId, sectionTitle)}
+            onModifyClick={(sectionId, sectionTitle) =>
+              setRegenerateSection({ id: sectionId, title: sectionTitle })
+            }
+            commentCount={openCommentCount('instructional_strategy')}
+            rating={sectionRatings['instructional_strategy']}
+            onRate={isPublicView ? undefined : handleRateSection}
+            onCommentsClick={(sectionId, sectionTitle) =>
+              setCommentSection({ id: sectionId, title: sectionTitle })
+            }
             ref={(el) => {
               sectionRefs.current['strategy'] = el;
             }}
@@ -865,6 +1120,15 @@ export function InteractiveBlueprintDashboard({
             isExpanded={expandedSections.has('sustainability_plan')}
             onToggle={() => toggleSection('sustainability_plan')}
             onEditClick={(sectionId, sectionTitle) => handleOpenEditor(sectionId, sectionTitle)}
+            onModifyClick={(sectionId, sectionTitle) =>
+              setRegenerateSection({ id: sectionId, title: sectionTitle })
+            }
+            commentCount={openCommentCount('sustainability_plan')}
+            rating={sectionRatings['sustainability_plan']}
+            onRate={isPublicView ? undefined : handleRateSection}
+            onCommentsClick={(sectionId, sectionTitle) =>
+              setCommentSection({ id: sectionId, title: sectionTitle })
+            }
             ref={(el) => {
               sectionRefs.current['sustainability'] = el;
             }}
@@ -887,6 +1151,31 @@ export function InteractiveBlueprintDashboard({
         sectionTitle={selectedSectionTitle}
         sectionData={selectedSectionData}
       />
+
+      {/* AI Section Regeneration Dialog */}
+      <RegenerateSectionDialog
+        isOpen={regenerateSection !== null}
+        onClose={() => setRegenerateSection(null)}
+        onRegenerate={handleRegenerateSection}
+        sectionTitle={regenerateSection?.title ?? ''}
+      />
+
+      {/* Section Comments Dialog */}
+      <SectionCommentsDialog
+        isOpen={commentSection !== null}
+        onClose={() => setCommentSection(null)}
+        sectionTitle={commentSection?.title ?? ''}
+        threads={commentThreads.filter((thread) => thread.sectionId === commentSection?.id)}
+        collaborators={collaborators}
+        currentUserId={currentUserId}
+        canModerate={canEditWithRole(commentRole)}
+        readOnly={isPublicView}
+        onCreate={handleCreateComment}
+        onResolve={handleResolveComment}
+        onDelete={handleDeleteComment}
+        shareComments={shareComments}
+        onShareCommentsChange={commentRole === 'owner' ? handleShareCommentsChange : undefined}
+      />
     </motion.div>
   );
 }
@@ -899,15 +1188,30 @@ const ExpandableSection = React.forwardRef<
     isExpanded: boolean;
     onToggle: () => void;
     onEditClick?: (sectionId: string, sectionTitle: string) => void;
+    onModifyClick?: (sectionId: string, sectionTitle: string) => void;
+    onCommentsClick?: (sectionId: string, sectionTitle: string) => void;
+    commentCount?: number;
+    rating?: SectionRating;
+    onRate?: (sectionId: string, rating: number, comment: string | null) => Promise<void>;
     children: React.ReactNode;
     isPublicView?: boolean;
   }
->(({ section, isExpanded, onToggle, onEditClick, children, isPublicView = false }, ref) => {
+>(({ section, isExpanded, onToggle, children, isPublicView, ...actions }, ref) => {
+  const { onEditClick, onModifyClick, onCommentsClick, commentCount = 0, rating, onRate } = actions;
   const Icon = section.icon;
 
+  const handleComments = (e: React.MouseEvent | React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (onCommentsClick) {
+      onCommentsClick(section.id, section.title);
+    }
+  };
+
   const handleModify = (e: React.MouseEvent | React.KeyboardEvent) => {
     e.stopPropagation();
-    console.log(`Modify ${section.title}`);
+    if (onModifyClick) {
+      onModifyClick(section.id, section.title);
+    }
   };
 
   const handleEdit = (e: React.MouseEvent | React.KeyboardEvent) => {
@@ -945,6 +1249,33 @@ const ExpandableSection = React.forwardRef<
 
         {/* Right Side Controls */}
         <div className="ml-4 flex shrink-0 items-center gap-2">
+          {/* Comments Button - Shown publicly only when shared threads exist */}
+          {onCommentsClick && (!isPublicView || commentCount > 0) && (
+            <motion.div
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleComments}
+              className="pressable border-primary bg-primary/10 text-primary hover:bg-primary/20 hover:border-primary relative inline-flex h-9 min-h-[44px] w-9 min-w-[44px] cursor-pointer touch-manipulation items-center justify-center rounded-full border-2 transition-all hover:shadow-[0_0_15px_rgba(167,218,219,0.6)] active:scale-95"
+              title="Comments"
+              aria-label={`Comments (${commentCount} open)`}
+              role="button"
+              tabIndex={0}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  handleComments(e as React.KeyboardEvent);
+                }
+              }}
+            >
+              <MessageSquare className="h-4 w-4" />
+              {commentCount > 0 && (
+                <span className="bg-primary text-primary-foreground absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full px-1 text-[10px] font-bold">
+                  {commentCount}
+                </span>
+              )}
+            </motion.div>
+          )}
+
           {/* Edit Section Button - Hidden in public view */}
           {isExpanded && !isPublicView && (
             <motion.div
@@ -1030,7 +1361,16 @@ const ExpandableSection = React.forwardRef<
             transition={{ duration: 0.3, ease: 'easeInOut' }}
             className="overflow-hidden"
           >
-            <div className="border-t border-white/10 p-4 sm:p-6">{children}</div>
+            <div className="border-t border-white/10 p-4 sm:p-6">
+              {children}
+              {onRate && (
+                <SectionRatingBar
+                  rating={rating?.rating}
+                  comment={rating?.comment}
+                  onRate={(value, comment) => onRate(section.id, value, comment)}
+                />
+              )}
+            </div>
           </motion.div>
         )}
       </AnimatePresence>
@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X, Package, AlertCircle, Loader2, Download, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { LmsExportFormat } from '@/lib/export/lms';
+
+interface LmsExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  blueprintId: string;
+  onExported: (message: string) => void;
+}
+
+const LMS_FORMATS: Array<{ id: LmsExportFormat; title: string; description: string }> = [
+  {
+    id: 'scorm-2004',
+    title: 'SCORM 2004 (4th Edition)',
+    description:
+      'One SCO per module with sequencing and learning objectives mapped to global objectives. Best for Cornerstone and most modern LMSs.',
+  },
+  {
+    id: 'scorm-1.2',
+    title: 'SCORM 1.2',
+    description:
+      'One SCO per module reporting completion. Widest compatibility, including older Moodle installs.',
+  },
+  {
+    id: 'moodle-mbz',
+    title: 'Moodle course backup (.mbz)',
+    description:
+      'A course shell to restore in Moodle 4.1+: a section per module, page, quiz and assignment placeholders, and completion criteria from your KPIs.',
+  },
+  {
+    id: 'imscc-1.3',
+    title: 'IMS Common Cartridge 1.3',
+    description:
+      'A course shell for Canvas, Blackboard, D2L or Moodle with module folders, pages, assignments and quizzes.',
+  },
+];
+
+function filenameFromDisposition(header: string | null, fallback: string): string {
+  const match = header?.match(/filename="([^"]+)"/);
+  return match?.[1] ?? fallback;
+}
+
+export function LmsExportDialog({
+  isOpen,
+  onClose,
+  blueprintId,
+  onExported,
+}: LmsExportDialogProps): React.JSX.Element | null {
+  const [format, setFormat] = useState<LmsExportFormat>('scorm-2004');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setError(null);
+  }, [isOpen]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isOpen && e.key === 'Escape' && !isExporting) onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, isExporting, onClose]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/blueprints/${blueprintId}/export/${format}`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || 'Failed to export package');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filenameFromDisposition(
+        response.headers.get('Content-Disposition'),
+        `blueprint-${format}`
+      );
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      const selected = LMS_FORMATS.find((f) => f.id === format);
+      onExported(`${selected?.title ?? 'LMS'} package downloaded`);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export package');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isExporting) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      className="animate-fade-in fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md"
+      onClick={handleBackdropClick}
+    >
+      <div className="glass-strong animate-scale-in mx-4 flex max-h-[85vh] w-full max-w-xl flex-col overflow-hidden rounded-2xl shadow-2xl">
+        {/* Header */}
+        <div className="border-b border-white/10 bg-white/5 p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="bg-primary/10 border-primary/20 flex h-10 w-10 items-center justify-center rounded-full border">
+                <Package className="text-primary h-5 w-5" />
+              </div>
+              <div>
+                <h2 className="font-heading text-xl font-semibold text-white">Export to LMS</h2>
+                <p className="text-sm text-white/60">
+                  Download a skeleton course built from the content outline.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isExporting}
+              className="pressable inline-flex h-8 w-8 items-center justify-center rounded-lg text-white/50 transition-colors hover:bg-white/10 hover:text-white/80 disabled:cursor-not-allowed disabled:opacity-50"
+              aria-label="Close dialog"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-error/10 border-error/20 text-error mx-6 mt-4 flex items-center space-x-2 rounded-lg border px-3 py-2.5 text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex-1 space-y-3 overflow-y-auto p-6" role="radiogroup">
+          {LMS_FORMATS.map((option) => {
+            const selected = option.id === format;
+            return (
+              <button
+                key={option.id}
+                type="button"
+                role="radio"
+                aria-checked={selected}
+                onClick={() => setFormat(option.id)}
+                disabled={isExporting}
+                className={`w-full rounded-xl border p-4 text-left transition-colors ${
+                  selected
+                    ? 'border-primary/50 bg-primary/10'
+                    : 'border-white/10 bg-white/5 hover:bg-white/10'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-white">{option.title}</span>
+                  {selected && <CheckCircle className="text-primary h-4 w-4" />}
+                </div>
+                <p className="mt-1 text-sm text-white/60">{option.description}</p>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-white/10 p-4">
+          <Button variant="ghost" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            {isExporting ? 'Building package...' : 'Download package'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
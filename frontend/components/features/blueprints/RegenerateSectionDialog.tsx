@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Wand2, Sparkles, AlertCircle } from 'lucide-react';
+
+interface RegenerateSectionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRegenerate: (instruction: string) => Promise<void>;
+  sectionTitle: string;
+}
+
+const MAX_INSTRUCTION_LENGTH = 2000;
+
+export function RegenerateSectionDialog({
+  isOpen,
+  onClose,
+  onRegenerate,
+  sectionTitle,
+}: RegenerateSectionDialogProps): React.JSX.Element {
+  const [instruction, setInstruction] = useState('');
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset when dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setInstruction('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    setError(null);
+    try {
+      await onRegenerate(instruction.trim());
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate section');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (!isRegenerating) onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm"
+            onClick={handleCancel}
+          />
+
+          {/* Dialog */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ type: 'spring', duration: 0.3 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+          >
+            <div
+              className="glass-strong relative w-full max-w-2xl overflow-hidden rounded-2xl border border-white/10 shadow-2xl"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="border-b border-white/10 p-6">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start gap-3">
+                    <div className="bg-primary/20 mt-1 rounded-lg p-2">
+                      <Wand2 className="text-primary h-5 w-5" />
+                    </div>
+                    <div>
+                      <h2 className="font-heading text-xl font-bold text-white">
+                        Regenerate Section
+                      </h2>
+                      <p className="text-text-secondary mt-1 line-clamp-1 text-sm">
+                        {sectionTitle}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={handleCancel}
+                    className="text-text-secondary rounded-lg p-2 transition-colors hover:bg-white/5 hover:text-white"
+                    aria-label="Close dialog"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+              </div>
+
+              {/* Content */}
+              <div className="p-6">
+                <div className="space-y-4">
+                  {/* Info Banner */}
+                  <div className="border-primary/20 bg-primary/10 flex items-start gap-3 rounded-lg border p-4">
+                    <Sparkles className="text-primary mt-0.5 h-5 w-5 flex-shrink-0" />
+                    <p className="text-text-secondary flex-1 text-sm">
+                      Only this section is rewritten; the rest of your blueprint is used as context.
+                      The current version stays in Version History, and each regeneration uses part
+                      of your plan&apos;s blueprint allowance.
+                    </p>
+                  </div>
+
+                  {/* Textarea */}
+                  <div>
+                    <label
+                      htmlFor="regenerate-instruction"
+                      className="mb-2 block text-sm font-medium text-white"
+                    >
+                      What should change?
+                    </label>
+                    <textarea
+                      id="regenerate-instruction"
+                      value={instruction}
+                      onChange={(e) => setInstruction(e.target.value)}
+                      placeholder="e.g. Make the budget fit ₹5L and drop paid tooling"
+                      rows={5}
+                      maxLength={MAX_INSTRUCTION_LENGTH}
+                      disabled={isRegenerating}
+                      className="placeholder:text-text-disabled focus:border-primary focus:ring-primary/50 w-full rounded-lg border border-white/10 bg-white/5 px-4 py-3 text-white focus:ring-2 focus:outline-none disabled:opacity-50"
+                      autoFocus
+                    />
+                    <p className="text-text-disabled mt-2 text-xs">
+                      {instruction.length}/{MAX_INSTRUCTION_LENGTH} characters
+                    </p>
+                  </div>
+
+                  {/* Error Message */}
+                  {error && (
+                    <div className="bg-error/10 border-error/20 text-error flex items-center space-x-2 rounded-lg border px-3 py-2.5 text-sm">
+                      <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                      <span>{error}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div className="flex items-center justify-end gap-3 border-t border-white/10 bg-white/5 p-6">
+                <button
+                  onClick={handleCancel}
+                  className="text-text-secondary rounded-lg border border-white/10 px-6 py-2.5 font-medium transition-colors hover:border-white/20 hover:bg-white/5 hover:text-white"
+                  disabled={isRegenerating}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRegenerate}
+                  disabled={isRegenerating || instruction.trim().length === 0}
+                  className="bg-primary text-primary-foreground hover:bg-primary/90 inline-flex items-center gap-2 rounded-lg px-6 py-2.5 font-medium shadow-lg transition-all hover:shadow-xl disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {isRegenerating ? (
+                    <>
+                      <div className="h-4 w-4 animate-spin rounded-full border-2 border-white/20 border-t-white" />
+                      <span>Regenerating...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Wand2 className="h-4 w-4" />
+                      <span>Regenerate</span>
+                    </>
+                  )}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
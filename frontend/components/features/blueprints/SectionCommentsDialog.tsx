@@ -0,0 +1,342 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  X,
+  MessageSquare,
+  CheckCircle2,
+  RotateCcw,
+  Trash2,
+  Reply,
+  AlertCircle,
+} from 'lucide-react';
+import type {
+  BlueprintCollaborator,
+  BlueprintCommentThread,
+  BlueprintComment,
+} from '@/lib/services/blueprintCommentService';
+
+interface SectionCommentsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sectionTitle: string;
+  threads: BlueprintCommentThread[];
+  collaborators: BlueprintCollaborator[];
+  currentUserId?: string;
+  canModerate?: boolean;
+  readOnly?: boolean;
+  onCreate?: (body: string, parentId?: string) => Promise<void>;
+  onResolve?: (threadId: string, resolved: boolean) => Promise<void>;
+  onDelete?: (commentId: string) => Promise<void>;
+  /** Owner-only: whether threads are shown on the public share link */
+  shareComments?: boolean;
+  onShareCommentsChange?: (shareComments: boolean) => Promise<void>;
+}
+
+const MAX_COMMENT_LENGTH = 5000;
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function SectionCommentsDialog({
+  isOpen,
+  onClose,
+  sectionTitle,
+  threads,
+  collaborators,
+  currentUserId,
+  canModerate = false,
+  readOnly = false,
+  onCreate,
+  onResolve,
+  onDelete,
+  shareComments = false,
+  onShareCommentsChange,
+}: SectionCommentsDialogProps): React.JSX.Element {
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset when dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft('');
+      setReplyTo(null);
+      setReplyDraft('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      await onCreate?.(draft.trim());
+      setDraft('');
+    });
+
+  const handleReply = (threadId: string) =>
+    run(async () => {
+      await onCreate?.(replyDraft.trim(), threadId);
+      setReplyTo(null);
+      setReplyDraft('');
+    });
+
+  const insertMention = (collaborator: BlueprintCollaborator) => {
+    if (!collaborator.email) return;
+    const mention = `@${collaborator.email} `;
+    setDraft((current) =>
+      current && !current.endsWith(' ') ? `${current} ${mention}` : current + mention
+    );
+  };
+
+  const openThreads = threads.filter((t) => !t.resolvedAt);
+  const resolvedThreads = threads.filter((t) => t.resolvedAt);
+  const visibleThreads = showResolved ? threads : openThreads;
+
+  const renderComment = (comment: BlueprintComment, isReply: boolean) => (
+    <div key={comment.id} className={isReply ? 'mt-3 border-l border-white/10 pl-4' : ''}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-baseline gap-2">
+          <span className="text-sm font-medium text-white">{comment.authorName}</span>
+          <span className="text-text-disabled text-xs">{formatTimestamp(comment.createdAt)}</span>
+        </div>
+        {!readOnly && (comment.authorId === currentUserId || canModerate) && (
+          <button
+            onClick={() => run(async () => onDelete?.(comment.id))}
+            disabled={isBusy}
+            className="text-text-secondary hover:text-error rounded p-1 transition-colors hover:bg-white/5"
+            aria-label="Delete comment"
+            title="Delete"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+      <p className="text-text-secondary mt-1 text-sm whitespace-pre-wrap">{comment.body}</p>
+    </div>
+  );
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm"
+            onClick={onClose}
+          />
+
+          {/* Dialog */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ type: 'spring', duration: 0.3 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+          >
+            <div
+              className="glass-strong relative flex max-h-[85vh] w-full max-w-2xl flex-col overflow-hidden rounded-2xl border border-white/10 shadow-2xl"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="border-b border-white/10 p-6">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start gap-3">
+                    <div className="bg-primary/20 mt-1 rounded-lg p-2">
+                      <MessageSquare className="text-primary h-5 w-5" />
+                    </div>
+                    <div>
+                      <h2 className="font-heading text-xl font-bold text-white">Comments</h2>
+                      <p className="text-text-secondary mt-1 line-clamp-1 text-sm">
+                        {sectionTitle}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={onClose}
+                    className="text-text-secondary rounded-lg p-2 transition-colors hover:bg-white/5 hover:text-white"
+                    aria-label="Close dialog"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+                {!readOnly && onShareCommentsChange && (
+                  <label className="text-text-secondary mt-4 flex cursor-pointer items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={shareComments}
+                      disabled={isBusy}
+                      onChange={(e) => run(async () => onShareCommentsChange(e.target.checked))}
+                      className="accent-primary h-3.5 w-3.5"
+                    />
+                    Show comments on the shared link (read-only, names only)
+                  </label>
+                )}
+              </div>
+
+              {/* Threads */}
+              <div className="flex-1 space-y-4 overflow-y-auto p-6">
+                {resolvedThreads.length > 0 && (
+                  <button
+                    onClick={() => setShowResolved((v) => !v)}
+                    className="text-primary text-xs font-medium hover:underline"
+                  >
+                    {showResolved
+                      ? 'Hide resolved threads'
+                      : `Show ${resolvedThreads.length} resolved thread${resolvedThreads.length === 1 ? '' : 's'}`}
+                  </button>
+                )}
+
+                {visibleThreads.length === 0 && (
+                  <div className="py-8 text-center">
+                    <MessageSquare className="text-text-disabled mx-auto mb-2 h-8 w-8 opacity-50" />
+                    <p className="text-text-disabled text-sm">No open comments on this section</p>
+                  </div>
+                )}
+
+                {visibleThreads.map((thread) => (
+                  <div
+                    key={thread.id}
+                    className={`rounded-xl border border-white/10 bg-white/5 p-4 ${thread.resolvedAt ? 'opacity-60' : ''}`}
+                  >
+                    {renderComment(thread, false)}
+                    {thread.replies.map((reply) => renderComment(reply, true))}
+
+                    {!readOnly && (
+                      <div className="mt-3 flex items-center gap-3">
+                        {!thread.resolvedAt && (
+                          <button
+                            onClick={() => {
+                              setReplyTo(replyTo === thread.id ? null : thread.id);
+                              setReplyDraft('');
+                            }}
+                            className="text-text-secondary inline-flex items-center gap-1 text-xs hover:text-white"
+                          >
+                            <Reply className="h-3.5 w-3.5" />
+                            Reply
+                          </button>
+                        )}
+                        <button
+                          onClick={() =>
+                            run(async () => onResolve?.(thread.id, !thread.resolvedAt))
+                          }
+                          disabled={isBusy}
+                          className="text-text-secondary inline-flex items-center gap-1 text-xs hover:text-white"
+                        >
+                          {thread.resolvedAt ? (
+                            <>
+                              <RotateCcw className="h-3.5 w-3.5" />
+                              Reopen
+                            </>
+                          ) : (
+                            <>
+                              <CheckCircle2 className="h-3.5 w-3.5" />
+                              Resolve
+                            </>
+                          )}
+                        </button>
+                      </div>
+                    )}
+
+                    {replyTo === thread.id && (
+                      <div className="mt-3 flex gap-2">
+                        <textarea
+                          value={replyDraft}
+                          onChange={(e) => setReplyDraft(e.target.value)}
+                          placeholder="Write a reply..."
+                          rows={2}
+                          maxLength={MAX_COMMENT_LENGTH}
+                          disabled={isBusy}
+                          className="placeholder:text-text-disabled focus:border-primary focus:ring-primary/50 flex-1 rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:ring-2 focus:outline-none disabled:opacity-50"
+                          autoFocus
+                        />
+                        <button
+                          onClick={() => handleReply(thread.id)}
+                          disabled={isBusy || replyDraft.trim().length === 0}
+                          className="bg-primary text-primary-foreground hover:bg-primary/90 self-end rounded-lg px-4 py-2 text-sm font-medium disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          Reply
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                {/* Error Message */}
+                {error && (
+                  <div className="bg-error/10 border-error/20 text-error flex items-center space-x-2 rounded-lg border px-3 py-2.5 text-sm">
+                    <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                    <span>{error}</span>
+                  </div>
+                )}
+              </div>
+
+              {/* New Thread */}
+              {!readOnly && (
+                <div className="border-t border-white/10 bg-white/5 p-6">
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder="Start a thread. Mention someone with @their-email"
+                    rows={3}
+                    maxLength={MAX_COMMENT_LENGTH}
+                    disabled={isBusy}
+                    className="placeholder:text-text-disabled focus:border-primary focus:ring-primary/50 w-full rounded-lg border border-white/10 bg-white/5 px-4 py-3 text-sm text-white focus:ring-2 focus:outline-none disabled:opacity-50"
+                  />
+                  <div className="mt-3 flex items-center justify-between gap-3">
+                    <div className="flex min-w-0 flex-wrap gap-1.5">
+                      {collaborators
+                        .filter((c) => c.userId !== currentUserId && c.email)
+                        .map((collaborator) => (
+                          <button
+                            key={collaborator.userId}
+                            onClick={() => insertMention(collaborator)}
+                            className="text-text-secondary rounded-full border border-white/10 px-2.5 py-1 text-xs transition-colors hover:border-white/20 hover:text-white"
+                            title={collaborator.email ?? undefined}
+                          >
+                            @{collaborator.fullName || collaborator.email?.split('@')[0]}
+                          </button>
+                        ))}
+                    </div>
+                    <button
+                      onClick={handleCreate}
+                      disabled={isBusy || draft.trim().length === 0}
+                      className="bg-primary text-primary-foreground hover:bg-primary/90 inline-flex shrink-0 items-center gap-2 rounded-lg px-6 py-2.5 font-medium shadow-lg transition-all hover:shadow-xl disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      <MessageSquare className="h-4 w-4" />
+                      <span>Comment</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
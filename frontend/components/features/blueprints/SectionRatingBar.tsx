@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface SectionRatingBarProps {
+  rating?: number;
+  comment?: string | null;
+  onRate: (rating: number, comment: string | null) => Promise<void>;
+}
+
+const RATING_LABELS = ['', 'Not useful', 'Needs work', 'Okay', 'Good', 'Excellent'];
+
+/**
+ * "Was this section useful?" footer for a blueprint section. Picking a star
+ * saves straight away; a comment can be added after, and is asked for on low
+ * ratings.
+ */
+export function SectionRatingBar({ rating, comment, onRate }: SectionRatingBarProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [draftComment, setDraftComment] = useState(comment ?? '');
+  const [showComment, setShowComment] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraftComment(comment ?? '');
+  }, [comment]);
+
+  const save = async (value: number, nextComment: string | null) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onRate(value, nextComment);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rating');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStar = async (value: number) => {
+    await save(value, draftComment.trim() || null);
+    if (value <= 2) setShowComment(true);
+  };
+
+  const handleSaveComment = async () => {
+    if (!rating) return;
+    await save(rating, draftComment.trim() || null);
+    setShowComment(false);
+  };
+
+  const shown = hovered ?? rating ?? 0;
+
+  return (
+    <div className="mt-6 border-t border-white/10 pt-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-text-secondary text-sm">Was this section useful?</span>
+        <div className="flex items-center gap-1" onMouseLeave={() => setHovered(null)}>
+          {[1, 2, 3, 4, 5].map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => handleStar(value)}
+              onMouseEnter={() => setHovered(value)}
+              disabled={saving}
+              aria-label={`Rate ${value} of 5: ${RATING_LABELS[value]}`}
+              aria-pressed={rating === value}
+              className="rounded p-1 transition-transform hover:scale-110 disabled:opacity-60"
+            >
+              <Star
+                className={cn(
+                  'h-5 w-5',
+                  value <= shown ? 'fill-yellow-400 text-yellow-400' : 'text-white/30'
+                )}
+              />
+            </button>
+          ))}
+        </div>
+        {shown > 0 && <span className="text-text-secondary text-xs">{RATING_LABELS[shown]}</span>}
+        {saving && <Loader2 className="text-text-secondary h-4 w-4 animate-spin" />}
+        {rating && !showComment && (
+          <button
+            type="button"
+            onClick={() => setShowComment(true)}
+            className="text-primary text-xs underline-offset-4 hover:underline"
+          >
+            {comment ? 'Edit comment' : 'Add a comment'}
+          </button>
+        )}
+      </div>
+
+      {showComment && rating && (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={draftComment}
+            onChange={(event) => setDraftComment(event.target.value)}
+            placeholder={
+              rating <= 2 ? 'What was wrong or missing?' : 'Anything we should keep or improve?'
+            }
+            maxLength={2000}
+            rows={2}
+            className="focus:border-primary/50 w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/40 focus:outline-none"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleSaveComment}
+              disabled={saving}
+              className="border-primary/30 bg-primary/10 hover:bg-primary/20 rounded-lg border px-3 py-1.5 text-xs font-medium text-white transition-all disabled:opacity-60"
+            >
+              Save comment
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setDraftComment(comment ?? '');
+                setShowComment(false);
+              }}
+              className="text-text-secondary rounded-lg px-3 py-1.5 text-xs hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-error mt-2 text-xs">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,452 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  X,
+  Share2,
+  AlertCircle,
+  Loader2,
+  Copy,
+  Lock,
+  Clock,
+  Eye,
+  Ban,
+  Plus,
+  ChevronDown,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ShareLink, ShareLinkStatus, ShareLinkView } from '@/lib/services/shareLinkService';
+
+interface ShareLinksDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  blueprintId: string;
+  onCopied: (message: string) => void;
+}
+
+type ShareLinkWithUrl = ShareLink & { url: string };
+
+const SHAREABLE_SECTIONS: Array<{ id: string; title: string }> = [
+  { id: 'executive_summary', title: 'Executive Summary' },
+  { id: 'learning_objectives', title: 'Learning Objectives' },
+  { id: 'target_audience', title: 'Target Audience' },
+  { id: 'content_outline', title: 'Content Outline' },
+  { id: 'resources', title: 'Resources & Budget' },
+  { id: 'assessment_strategy', title: 'Assessment Strategy' },
+  { id: 'implementation_timeline', title: 'Implementation Timeline' },
+  { id: 'risk_mitigation', title: 'Risk Mitigation' },
+  { id: 'success_metrics', title: 'Success Metrics' },
+  { id: 'instructional_strategy', title: 'Instructional Strategy' },
+  { id: 'sustainability_plan', title: 'Sustainability Plan' },
+];
+
+const STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  active: 'border-success/30 bg-success/10 text-success',
+  expired: 'border-warning/30 bg-warning/10 text-warning',
+  revoked: 'border-white/10 bg-white/5 text-white/50',
+};
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : 'Never';
+}
+
+function describeSections(allowedSections: string[] | null): string {
+  if (!allowedSections) return 'All sections';
+  return `${allowedSections.length} of ${SHAREABLE_SECTIONS.length} sections`;
+}
+
+export function ShareLinksDialog({
+  isOpen,
+  onClose,
+  blueprintId,
+  onCopied,
+}: ShareLinksDialogProps): React.JSX.Element | null {
+  const [links, setLinks] = useState<ShareLinkWithUrl[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [expandedLinkId, setExpandedLinkId] = useState<string | null>(null);
+  const [views, setViews] = useState<Record<string, ShareLinkView[]>>({});
+
+  // New link form
+  const [label, setLabel] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [password, setPassword] = useState('');
+  const [hiddenSections, setHiddenSections] = useState<Set<string>>(new Set());
+
+  const loadLinks = useCallback(async () => {
+    const response = await fetch(`/api/blueprints/${blueprintId}/share-links`);
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to load share links');
+    }
+    setLinks(result.links);
+  }, [blueprintId]);
+
+  // Load links when the dialog opens
+  useEffect(() => {
+    if (!isOpen || !blueprintId) return;
+
+    setIsLoading(true);
+    setError(null);
+    loadLinks()
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load share links'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, blueprintId, loadLinks]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isOpen && e.key === 'Escape' && !isSaving) onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, isSaving, onClose]);
+
+  const resetForm = () => {
+    setLabel('');
+    setExpiresOn('');
+    setPassword('');
+    setHiddenSections(new Set());
+    setShowForm(false);
+  };
+
+  const toggleSection = (sectionId: string) => {
+    setHiddenSections((prev) => {
+      const next = new Set(prev);
+      if (next.has(sectionId)) {
+        next.delete(sectionId);
+      } else {
+        next.add(sectionId);
+      }
+      return next;
+    });
+  };
+
+  const copyLink = async (link: ShareLinkWithUrl) => {
+    await navigator.clipboard.writeText(link.url);
+    onCopied('Share link copied to clipboard');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/blueprints/${blueprintId}/share-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          label: label.trim() || undefined,
+          password: password || undefined,
+          // Expire at the end of the chosen day, in the viewer's timezone
+          expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+          allowedSections:
+            hiddenSections.size > 0
+              ? SHAREABLE_SECTIONS.filter((s) => !hiddenSections.has(s.id)).map((s) => s.id)
+              : undefined,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to create share link');
+      }
+
+      setLinks((prev) => [result.link, ...prev]);
+      resetForm();
+      await copyLink(result.link);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create share link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLinkWithUrl) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/blueprints/${blueprintId}/share-links/${link.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to revoke share link');
+      }
+      await loadLinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke share link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleViews = async (link: ShareLinkWithUrl) => {
+    if (expandedLinkId === link.id) {
+      setExpandedLinkId(null);
+      return;
+    }
+
+    setExpandedLinkId(link.id);
+    if (views[link.id]) return;
+
+    try {
+      const response = await fetch(`/api/blueprints/${blueprintId}/share-links/${link.id}/views`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load views');
+      }
+      setViews((prev) => ({ ...prev, [link.id]: result.views }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load views');
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isSaving) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      className="animate-fade-in fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md"
+      onClick={handleBackdropClick}
+    >
+      <div className="glass-strong animate-scale-in mx-4 flex max-h-[85vh] w-full max-w-3xl flex-col overflow-hidden rounded-2xl shadow-2xl">
+        {/* Header */}
+        <div className="border-b border-white/10 bg-white/5 p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="bg-primary/10 border-primary/20 flex h-10 w-10 items-center justify-center rounded-full border">
+                <Share2 className="text-primary h-5 w-5" />
+              </div>
+              <div>
+                <h2 className="font-heading text-xl font-semibold text-white">Share Links</h2>
+                <p className="text-sm text-white/60">
+                  Create links with an expiry, password or limited sections, and see who viewed
+                  them.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isSaving}
+              className="pressable inline-flex h-8 w-8 items-center justify-center rounded-lg text-white/50 transition-colors hover:bg-white/10 hover:text-white/80 disabled:cursor-not-allowed disabled:opacity-50"
+              aria-label="Close dialog"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-error/10 border-error/20 text-error mx-6 mt-4 flex items-center space-x-2 rounded-lg border px-3 py-2.5 text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex-1 space-y-4 overflow-y-auto p-6">
+          {/* New link */}
+          {showForm ? (
+            <form
+              onSubmit={handleCreate}
+              className="space-y-4 rounded-xl border border-white/10 bg-white/5 p-4"
+            >
+              <div className="grid gap-3 sm:grid-cols-3">
+                <input
+                  type="text"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="Label (e.g. Finance review)"
+                  maxLength={100}
+                  className="placeholder:text-text-disabled focus:border-primary rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:outline-none"
+                />
+                <input
+                  type="date"
+                  value={expiresOn}
+                  min={new Date().toISOString().slice(0, 10)}
+                  onChange={(e) => setExpiresOn(e.target.value)}
+                  aria-label="Expiry date"
+                  className="focus:border-primary rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:outline-none"
+                />
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password (optional)"
+                  autoComplete="new-password"
+                  className="placeholder:text-text-disabled focus:border-primary rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:outline-none"
+                />
+              </div>
+
+              <div>
+                <p className="mb-2 text-xs font-medium text-white/60">Visible sections</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {SHAREABLE_SECTIONS.map((section) => {
+                    const visible = !hiddenSections.has(section.id);
+                    return (
+                      <button
+                        key={section.id}
+                        type="button"
+                        onClick={() => toggleSection(section.id)}
+                        aria-pressed={visible}
+                        className={`rounded-full border px-2.5 py-1 text-xs transition-colors ${
+                          visible
+                            ? 'border-primary/40 bg-primary/10 text-primary'
+                            : 'border-white/10 text-white/40 line-through'
+                        }`}
+                      >
+                        {section.title}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" onClick={resetForm} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={
+                    isSaving ||
+                    hiddenSections.size === SHAREABLE_SECTIONS.length ||
+                    (password.length > 0 && password.length < 4)
+                  }
+                >
+                  {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create & copy link'}
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <Button onClick={() => setShowForm(true)} className="w-full">
+              <Plus className="mr-2 h-4 w-4" />
+              New share link
+            </Button>
+          )}
+
+          {/* Existing links */}
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="text-primary h-6 w-6 animate-spin" />
+            </div>
+          ) : links.length === 0 ? (
+            <div className="p-8 text-center text-sm text-white/60">
+              This blueprint has not been shared yet.
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {links.map((link) => (
+                <li key={link.id} className="rounded-xl border border-white/10 bg-white/5 p-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate text-sm font-semibold text-white">
+                          {link.label || 'Share link'}
+                        </span>
+                        <span
+                          className={`rounded-full border px-2 py-0.5 text-xs capitalize ${STATUS_STYLES[link.status]}`}
+                        >
+                          {link.status}
+                        </span>
+                      </div>
+                      <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-white/50">
+                        <span>{describeSections(link.allowedSections)}</span>
+                        {link.hasPassword && (
+                          <span className="inline-flex items-center gap-1">
+                            <Lock className="h-3 w-3" /> Password
+                          </span>
+                        )}
+                        {link.expiresAt && (
+                          <span className="inline-flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {link.status === 'expired' ? 'Expired' : 'Expires'}{' '}
+                            {new Date(link.expiresAt).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-shrink-0 items-center gap-1">
+                      {link.status === 'active' && (
+                        <>
+                          <button
+                            onClick={() => copyLink(link)}
+                            className="pressable inline-flex h-8 w-8 items-center justify-center rounded-lg text-white/60 transition-colors hover:bg-white/10 hover:text-white"
+                            title="Copy link"
+                            aria-label="Copy link"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleRevoke(link)}
+                            disabled={isSaving}
+                            className="pressable hover:text-error inline-flex h-8 w-8 items-center justify-center rounded-lg text-white/60 transition-colors hover:bg-white/10 disabled:opacity-50"
+                            title="Revoke link"
+                            aria-label="Revoke link"
+                          >
+                            <Ban className="h-4 w-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* View stats */}
+                  <button
+                    onClick={() => toggleViews(link)}
+                    className="mt-3 flex w-full items-center justify-between text-xs text-white/60 hover:text-white"
+                  >
+                    <span className="inline-flex items-center gap-1.5">
+                      <Eye className="h-3.5 w-3.5" />
+                      {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'} · Last viewed{' '}
+                      {formatDate(link.lastViewedAt)}
+                    </span>
+                    {link.viewCount > 0 && (
+                      <ChevronDown
+                        className={`h-3.5 w-3.5 transition-transform ${
+                          expandedLinkId === link.id ? 'rotate-180' : ''
+                        }`}
+                      />
+                    )}
+                  </button>
+
+                  {expandedLinkId === link.id && link.viewCount > 0 && (
+                    <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto border-t border-white/10 pt-2">
+                      {!views[link.id] ? (
+                        <li className="flex justify-center py-2">
+                          <Loader2 className="text-primary h-4 w-4 animate-spin" />
+                        </li>
+                      ) : (
+                        views[link.id].map((view) => (
+                          <li key={view.id} className="flex justify-between gap-3 text-xs">
+                            <span className="truncate text-white/70">
+                              {view.referrer || 'Direct / unknown'}
+                            </span>
+                            <span className="flex-shrink-0 text-white/40">
+                              {formatDate(view.viewedAt)}
+                            </span>
+                          </li>
+                        ))
+                      )}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
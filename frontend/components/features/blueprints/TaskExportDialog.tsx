@@ -0,0 +1,278 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X, KanbanSquare, AlertCircle, Loader2, Download, CheckCircle, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { TaskExportFormat } from '@/lib/export/projectTools';
+
+interface TaskExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  blueprintId: string;
+  /** Editors can also push tasks to an endpoint */
+  canPush: boolean;
+  onExported: (message: string) => void;
+}
+
+const TASK_FORMATS: Array<{ id: TaskExportFormat; title: string; description: string }> = [
+  {
+    id: 'jira-csv',
+    title: 'Jira CSV',
+    description:
+      'Epics per timeline phase with stories, sub-tasks, estimates and "Blocks" links. Import with Jira’s External System Import (CSV).',
+  },
+  {
+    id: 'asana-csv',
+    title: 'Asana CSV',
+    description:
+      'A section per phase with tasks, subtasks, due dates and dependencies. Import with Asana’s CSV importer.',
+  },
+  {
+    id: 'trello-json',
+    title: 'Trello board JSON',
+    description:
+      'A list per phase and a card per module or milestone, with activities as checklists, in Trello’s board export format.',
+  },
+  {
+    id: 'csv',
+    title: 'Generic CSV',
+    description: 'Every task field with IDs and dependencies, for any other tool or spreadsheet.',
+  },
+];
+
+/** Only the URL is remembered; the authorization value is never stored */
+const ENDPOINT_STORAGE_KEY = 'polaris.taskExport.endpointUrl';
+
+function filenameFromDisposition(header: string | null, fallback: string): string {
+  const match = header?.match(/filename="([^"]+)"/);
+  return match?.[1] ?? fallback;
+}
+
+export function TaskExportDialog({
+  isOpen,
+  onClose,
+  blueprintId,
+  canPush,
+  onExported,
+}: TaskExportDialogProps): React.JSX.Element | null {
+  const [format, setFormat] = useState<TaskExportFormat>('jira-csv');
+  const [endpointUrl, setEndpointUrl] = useState('');
+  const [authorization, setAuthorization] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isPushing, setIsPushing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isBusy = isExporting || isPushing;
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      setEndpointUrl(window.localStorage.getItem(ENDPOINT_STORAGE_KEY) ?? '');
+    }
+  }, [isOpen]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isOpen && e.key === 'Escape' && !isBusy) onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, isBusy, onClose]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/blueprints/${blueprintId}/task-export/${format}`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || 'Failed to export tasks');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filenameFromDisposition(
+        response.headers.get('Content-Disposition'),
+        `blueprint-tasks-${format}`
+      );
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      const selected = TASK_FORMATS.find((f) => f.id === format);
+      onExported(`${selected?.title ?? 'Task'} export downloaded`);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export tasks');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handlePush = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPushing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/blueprints/${blueprintId}/task-export/push`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: endpointUrl, authorization: authorization || null }),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.error || 'Failed to push tasks');
+      }
+
+      window.localStorage.setItem(ENDPOINT_STORAGE_KEY, endpointUrl);
+      onExported(`Sent ${result.itemCount} items to ${new URL(endpointUrl).hostname}`);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to push tasks');
+    } finally {
+      setIsPushing(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isBusy) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      className="animate-fade-in fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md"
+      onClick={handleBackdropClick}
+    >
+      <div className="glass-strong animate-scale-in mx-4 flex max-h-[85vh] w-full max-w-xl flex-col overflow-hidden rounded-2xl shadow-2xl">
+        {/* Header */}
+        <div className="border-b border-white/10 bg-white/5 p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="bg-primary/10 border-primary/20 flex h-10 w-10 items-center justify-center rounded-full border">
+                <KanbanSquare className="text-primary h-5 w-5" />
+              </div>
+              <div>
+                <h2 className="font-heading text-xl font-semibold text-white">Export tasks</h2>
+                <p className="text-sm text-white/60">
+                  Phases become epics; modules, milestones and activities become stories.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isBusy}
+              className="pressable inline-flex h-8 w-8 items-center justify-center rounded-lg text-white/50 transition-colors hover:bg-white/10 hover:text-white/80 disabled:cursor-not-allowed disabled:opacity-50"
+              aria-label="Close dialog"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-error/10 border-error/20 text-error mx-6 mt-4 flex items-center space-x-2 rounded-lg border px-3 py-2.5 text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex-1 space-y-3 overflow-y-auto p-6">
+          <div className="space-y-3" role="radiogroup">
+            {TASK_FORMATS.map((option) => {
+              const selected = option.id === format;
+              return (
+                <button
+                  key={option.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={selected}
+                  onClick={() => setFormat(option.id)}
+                  disabled={isBusy}
+                  className={`w-full rounded-xl border p-4 text-left transition-colors ${
+                    selected
+                      ? 'border-primary/50 bg-primary/10'
+                      : 'border-white/10 bg-white/5 hover:bg-white/10'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-white">{option.title}</span>
+                    {selected && <CheckCircle className="text-primary h-4 w-4" />}
+                  </div>
+                  <p className="mt-1 text-sm text-white/60">{option.description}</p>
+                </button>
+              );
+            })}
+          </div>
+
+          {canPush && (
+            <form
+              onSubmit={handlePush}
+              className="space-y-3 rounded-xl border border-white/10 bg-white/5 p-4"
+            >
+              <div>
+                <p className="font-medium text-white">Push to an endpoint</p>
+                <p className="mt-1 text-sm text-white/60">
+                  POST the tasks as JSON to your own HTTPS endpoint, such as an automation webhook.
+                </p>
+              </div>
+              <input
+                type="url"
+                className="placeholder:text-text-disabled focus:border-primary w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:outline-none"
+                placeholder="https://hooks.example.com/tasks"
+                value={endpointUrl}
+                onChange={(e) => setEndpointUrl(e.target.value)}
+                disabled={isBusy}
+                required
+              />
+              <input
+                type="password"
+                className="placeholder:text-text-disabled focus:border-primary w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:outline-none"
+                placeholder="Authorization header (optional), e.g. Bearer <token>"
+                value={authorization}
+                onChange={(e) => setAuthorization(e.target.value)}
+                disabled={isBusy}
+                autoComplete="off"
+              />
+              <div className="flex justify-end">
+                <Button type="submit" variant="outline" disabled={isBusy || !endpointUrl}>
+                  {isPushing ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="mr-2 h-4 w-4" />
+                  )}
+                  {isPushing ? 'Sending...' : 'Push tasks'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-white/10 p-4">
+          <Button variant="ghost" onClick={onClose} disabled={isBusy}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isBusy}>
+            {isExporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            {isExporting ? 'Building file...' : 'Download file'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import type { FeedbackStatus } from '@/lib/types/feedback';
+import { cn } from '@/lib/utils';
+
+export const FEEDBACK_STATUS_LABELS: Record<FeedbackStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  resolved: 'Resolved',
+  closed: 'Closed',
+  duplicate: 'Duplicate',
+};
+
+const STATUS_STYLES: Record<FeedbackStatus, string> = {
+  open: 'bg-info/10 text-info border-info/20',
+  in_progress: 'bg-warning/10 text-warning border-warning/20',
+  resolved: 'bg-success/10 text-success border-success/20',
+  closed: 'bg-foreground/5 text-text-secondary border-neutral-200/20',
+  duplicate: 'bg-foreground/5 text-text-secondary border-neutral-200/20',
+};
+
+export function FeedbackStatusBadge({
+  status,
+  className,
+}: {
+  status: FeedbackStatus;
+  className?: string;
+}) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-medium',
+        STATUS_STYLES[status],
+        className
+      )}
+    >
+      {FEEDBACK_STATUS_LABELS[status]}
+    </span>
+  );
+}
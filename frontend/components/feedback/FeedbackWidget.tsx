@@ -0,0 +1,245 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle2, Loader2, MessageSquarePlus } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { clientErrorTracker, type CapturedError } from '@/lib/logging/clientErrorTracker';
+import type { FeedbackType } from '@/lib/types/feedback';
+import { cn } from '@/lib/utils';
+
+function collectBrowserInfo(): Record<string, unknown> {
+  return {
+    platform: navigator.platform,
+    language: navigator.language,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    screen: { width: window.screen.width, height: window.screen.height },
+    online: navigator.onLine,
+  };
+}
+
+/**
+ * Floating feedback button and form. The page URL and browser details are sent
+ * with every report; the last captured client error is attached when the user
+ * leaves it included.
+ */
+export function FeedbackWidget() {
+  const [open, setOpen] = useState(false);
+  const [types, setTypes] = useState<FeedbackType[]>([]);
+  const [typeId, setTypeId] = useState('');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [lastError, setLastError] = useState<CapturedError | null>(null);
+  const [includeError, setIncludeError] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLastError(clientErrorTracker.getLastError());
+
+    if (types.length > 0) return;
+
+    fetch('/api/feedback/types', { credentials: 'include' })
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) {
+          setTypes(data.types);
+          setTypeId((current) => current || data.types[0]?.id || '');
+        }
+      })
+      .catch(() => setError('Could not load feedback categories'));
+  }, [open, types.length]);
+
+  const reset = () => {
+    setTitle('');
+    setDescription('');
+    setIncludeError(true);
+    setSubmitted(false);
+    setError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          feedback_type_id: typeId,
+          title: title.trim(),
+          description: description.trim() || undefined,
+          page_url: window.location.href,
+          browser_info: collectBrowserInfo(),
+          error_details: includeError && lastError ? lastError : undefined,
+          metadata: { source: 'widget' },
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(
+          data.details?.fieldErrors
+            ? Object.values(data.details.fieldErrors).flat().join(' ')
+            : data.error || 'Failed to send feedback'
+        );
+      }
+
+      setSubmitted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send feedback');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        aria-label="Send feedback"
+        className="bg-primary text-primary-foreground hover:bg-primary/90 focus-visible:ring-primary/50 fixed right-6 bottom-6 z-40 flex h-12 items-center gap-2 rounded-full px-4 shadow-lg transition-all focus-visible:ring-2 focus-visible:ring-offset-2"
+      >
+        <MessageSquarePlus className="h-5 w-5" />
+        <span className="hidden text-sm font-medium sm:inline">Feedback</span>
+      </button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="bg-surface sm:max-w-lg">
+          {submitted ? (
+            <div className="flex flex-col items-center gap-3 py-6 text-center">
+              <CheckCircle2 className="text-success h-10 w-10" />
+              <DialogTitle>Thanks for the report</DialogTitle>
+              <DialogDescription>
+                We&apos;ll let you know when there&apos;s an update. You can follow it on{' '}
+                <Link
+                  href="/feedback"
+                  onClick={() => handleOpenChange(false)}
+                  className="text-primary underline-offset-4 hover:underline"
+                >
+                  My reports
+                </Link>
+                .
+              </DialogDescription>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Send feedback</DialogTitle>
+                <DialogDescription>
+                  Report a problem or suggest an improvement. We include this page&apos;s address
+                  and your browser details.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-2">
+                <Label htmlFor="feedback-type">Category</Label>
+                <div id="feedback-type" className="flex flex-wrap gap-2">
+                  {types.map((type) => (
+                    <button
+                      key={type.id}
+                      type="button"
+                      onClick={() => setTypeId(type.id)}
+                      className={cn(
+                        'rounded-full border px-3 py-1 text-xs font-medium transition-colors',
+                        typeId === type.id
+                          ? 'border-primary bg-primary/10 text-primary'
+                          : 'text-text-secondary hover:text-foreground border-neutral-200/20'
+                      )}
+                    >
+                      {type.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="feedback-title">Summary</Label>
+                <Input
+                  id="feedback-title"
+                  value={title}
+                  onChange={(event) => setTitle(event.target.value)}
+                  placeholder="What happened?"
+                  maxLength={200}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="feedback-description">Details</Label>
+                <Textarea
+                  id="feedback-description"
+                  value={description}
+                  onChange={(event) => setDescription(event.target.value)}
+                  placeholder="Steps to reproduce, what you expected, or your idea"
+                  maxLength={5000}
+                  rows={5}
+                />
+              </div>
+
+              {lastError && (
+                <label className="bg-warning/5 border-warning/20 flex cursor-pointer items-start gap-3 rounded-lg border p-3">
+                  <input
+                    type="checkbox"
+                    checked={includeError}
+                    onChange={(event) => setIncludeError(event.target.checked)}
+                    className="mt-0.5"
+                  />
+                  <span className="text-caption text-text-secondary min-w-0">
+                    Include the last error on this page
+                    <span className="text-foreground mt-1 block truncate font-mono text-xs">
+                      {lastError.message}
+                    </span>
+                  </span>
+                </label>
+              )}
+
+              {error && <p className="text-error text-sm">{error}</p>}
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => handleOpenChange(false)}
+                  disabled={submitting}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={submitting || !typeId || title.trim().length < 3}>
+                  {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
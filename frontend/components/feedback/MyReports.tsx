@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowRightLeft, Inbox, Loader2, MessageCircle } from 'lucide-react';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { FeedbackStatusBadge } from './FeedbackStatusBadge';
+import type { FeedbackSubmission } from '@/lib/types/feedback';
+import { cn } from '@/lib/utils';
+
+/**
+ * The user's feedback reports with the support team's replies and status
+ * changes. ?report=<id> (linked from notifications) highlights one report.
+ */
+export function MyReports() {
+  const searchParams = useSearchParams();
+  const highlightedId = searchParams.get('report');
+  const [reports, setReports] = useState<FeedbackSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReports = async () => {
+      try {
+        const response = await fetch('/api/feedback', { credentials: 'include' });
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to load your reports');
+        }
+        setReports(data.reports);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load your reports');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReports();
+  }, []);
+
+  useEffect(() => {
+    if (!loading && highlightedId) {
+      document.getElementById(`report-${highlightedId}`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [loading, highlightedId]);
+
+  if (loading) {
+    return (
+      <div className="text-text-secondary flex items-center justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-error py-8 text-center">{error}</p>;
+  }
+
+  if (reports.length === 0) {
+    return (
+      <GlassCard className="flex flex-col items-center gap-3 py-12 text-center">
+        <Inbox className="text-text-secondary h-10 w-10" />
+        <p className="text-foreground font-medium">No reports yet</p>
+        <p className="text-caption text-text-secondary max-w-sm">
+          Use the Feedback button in the corner of any page to report a problem or suggest an
+          improvement.
+        </p>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {reports.map((report) => (
+        <GlassCard
+          key={report.id}
+          id={`report-${report.id}`}
+          className={cn(
+            'scroll-mt-24 space-y-4',
+            report.id === highlightedId && 'border-primary/50 ring-primary/30 ring-2'
+          )}
+        >
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="min-w-0 flex-1">
+              <h2 className="text-foreground text-lg font-semibold">{report.title}</h2>
+              <p className="text-caption text-text-secondary mt-1">
+                {report.feedback_type?.name ?? 'Feedback'} · sent{' '}
+                {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+              </p>
+            </div>
+            <FeedbackStatusBadge status={report.status} />
+          </div>
+
+          {report.description && (
+            <p className="text-body text-text-secondary whitespace-pre-wrap">
+              {report.description}
+            </p>
+          )}
+
+          {report.responses && report.responses.length > 0 && (
+            <ol className="space-y-3 border-t border-neutral-200/10 pt-4">
+              {report.responses.map((response) => {
+                const isStatusChange = response.response_type === 'status_change';
+                const Icon = isStatusChange ? ArrowRightLeft : MessageCircle;
+                return (
+                  <li key={response.id} className="flex gap-3">
+                    <Icon
+                      className={cn(
+                        'mt-0.5 h-4 w-4 shrink-0',
+                        isStatusChange ? 'text-text-secondary' : 'text-primary'
+                      )}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-caption text-foreground whitespace-pre-wrap">
+                        {response.response}
+                      </p>
+                      <p className="text-text-disabled mt-0.5 text-xs">
+                        {isStatusChange ? 'Status update' : 'Support team'} ·{' '}
+                        {formatDistanceToNow(new Date(response.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </GlassCard>
+      ))}
+    </div>
+  );
+}
@@ -14,13 +14,13 @@ import {
   User,
   LogOut,
   ChevronDown,
-  Bell,
   Search,
   Plus,
   Sparkles,
 } from 'lucide-react';
 import { Brand } from './Brand';
 import { UserAvatar } from './UserAvatar';
+import { NotificationBell } from '@/components/notifications/NotificationBell';
 import { DarkModeToggle } from '@/components/theme/DarkModeToggle';
 import { useAuth } from '@/contexts/AuthContext';
 import { useUserProfile } from '@/lib/hooks/useUserProfile';
@@ -283,15 +283,7 @@ export function GlobalHeader(props: GlobalHeaderProps = {}) {
                 )}
 
                 {/* Notifications (Optional) */}
-                {showNotifications && (
-                  <button
-                    className="hover:bg-muted relative rounded-lg p-2 transition-colors"
-                    aria-label="Notifications"
-                  >
-                    <Bell className="h-5 w-5" />
-                    <span className="bg-primary absolute top-1 right-1 h-2 w-2 rounded-full" />
-                  </button>
-                )}
+                {showNotifications && user && <NotificationBell />}
 
                 {/* Custom Right Actions */}
                 {rightActions && <div className="flex items-center gap-2">{rightActions}</div>}
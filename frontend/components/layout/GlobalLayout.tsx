@@ -9,6 +9,7 @@ import { NavSection, type NavItem } from './NavSection';
 import { UserAvatar } from './UserAvatar';
 import { useAuth } from '@/contexts/AuthContext';
 import { OfflineIndicator } from '@/components/offline/OfflineIndicator';
+import { FeedbackWidget } from '@/components/feedback/FeedbackWidget';
 import { BlueprintSidebarProvider } from '@/contexts/BlueprintSidebarContext';
 
 interface GlobalLayoutProps {
@@ -57,6 +58,9 @@ export const GlobalLayout = memo(function GlobalLayout({
         </div>
       </div>
 
+      {/* Feedback */}
+      {user && <FeedbackWidget />}
+
       {/* Mobile Menu Overlay */}
       {mobileMenuOpen && (
         <div className="fixed inset-0 z-50 md:hidden" role="dialog" aria-modal="true">
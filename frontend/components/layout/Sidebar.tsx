@@ -3,9 +3,10 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import type { User } from '@supabase/supabase-js';
-import { Crown } from 'lucide-react';
+import { Crown, MessageSquare } from 'lucide-react';
 import { Brand } from '@/components/layout/Brand';
 import { UserAvatar } from '@/components/layout/UserAvatar';
+import { NotificationBell } from '@/components/notifications/NotificationBell';
 import {
   IconSidebarToggle,
   IconApps,
@@ -160,17 +161,20 @@ export function Sidebar({ user, onSignOut }: SidebarProps) {
             <Brand />
           </div>
         )}
-        <button
-          type="button"
-          onClick={() => setSidebarCollapsed((v) => !v)}
-          aria-label={sidebarCollapsed ? 'Expand sidebar' : 'Collapse sidebar'}
-          className={`group text-text-secondary hover:text-foreground hover:bg-foreground/5 active:bg-foreground/10 focus-visible:ring-secondary/50 relative flex items-center justify-center rounded-lg transition-all duration-200 focus-visible:ring-2 focus-visible:ring-offset-2 ${sidebarCollapsed ? 'h-8 w-8' : 'h-9 w-9'}`}
-          title={sidebarCollapsed ? 'Expand sidebar' : 'Collapse sidebar'}
-        >
-          <IconSidebarToggle
-            className={`h-5 w-5 transition-transform duration-300 ${sidebarCollapsed ? 'rotate-180' : ''}`}
-          />
-        </button>
+        <div className="flex items-center gap-1">
+          {!sidebarCollapsed && user && <NotificationBell align="left" />}
+          <button
+            type="button"
+            onClick={() => setSidebarCollapsed((v) => !v)}
+            aria-label={sidebarCollapsed ? 'Expand sidebar' : 'Collapse sidebar'}
+            className={`group text-text-secondary hover:text-foreground hover:bg-foreground/5 active:bg-foreground/10 focus-visible:ring-secondary/50 relative flex items-center justify-center rounded-lg transition-all duration-200 focus-visible:ring-2 focus-visible:ring-offset-2 ${sidebarCollapsed ? 'h-8 w-8' : 'h-9 w-9'}`}
+            title={sidebarCollapsed ? 'Expand sidebar' : 'Collapse sidebar'}
+          >
+            <IconSidebarToggle
+              className={`h-5 w-5 transition-transform duration-300 ${sidebarCollapsed ? 'rotate-180' : ''}`}
+            />
+          </button>
+        </div>
       </div>
 
       {/* Navigation Content */}
@@ -372,6 +376,14 @@ export function Sidebar({ user, onSignOut }: SidebarProps) {
               <IconSettings className="h-5 w-5 shrink-0" />
               <span className="flex-1 text-left">Settings</span>
             </button>
+            <button
+              type="button"
+              onClick={() => router.push('/feedback')}
+              className="group text-text-secondary hover:text-foreground hover:bg-foreground/5 focus-visible:ring-secondary/50 flex w-full items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-200 focus-visible:ring-2 focus-visible:ring-offset-2 active:scale-[0.98]"
+            >
+              <MessageSquare className="h-5 w-5 shrink-0" />
+              <span className="flex-1 text-left">My Reports</span>
+            </button>
             <button
               type="button"
               onClick={onSignOut}
@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, CheckCheck, Loader2 } from 'lucide-react';
+import { useNotifications } from '@/lib/hooks/useNotifications';
+import type { Notification } from '@/lib/services/notificationService';
+import { cn } from '@/lib/utils';
+
+interface NotificationBellProps {
+  className?: string;
+  /** Which side of the bell the inbox opens towards */
+  align?: 'left' | 'right';
+}
+
+/**
+ * Bell with the unread count that opens the in-app notification inbox
+ */
+export function NotificationBell({ className, align = 'right' }: NotificationBellProps) {
+  const router = useRouter();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const { notifications, unreadCount, loading, error, loadNotifications, markRead } =
+    useNotifications();
+
+  useEffect(() => {
+    if (isOpen) {
+      loadNotifications();
+    }
+  }, [isOpen, loadNotifications]);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return undefined;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) {
+      markRead([notification.id]);
+    }
+    setIsOpen(false);
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={cn('relative', className)}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={isOpen}
+        className="text-text-secondary hover:text-foreground hover:bg-foreground/5 focus-visible:ring-secondary/50 relative flex h-9 w-9 items-center justify-center rounded-lg transition-all duration-200 focus-visible:ring-2"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="bg-primary absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full px-1 text-[10px] leading-none font-bold text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className={cn(
+            'bg-surface absolute top-full z-50 mt-2 w-80 overflow-hidden rounded-xl border border-neutral-200/10 shadow-xl',
+            align === 'right' ? 'right-0' : 'left-0'
+          )}
+          role="dialog"
+          aria-label="Notifications"
+        >
+          <div className="flex items-center justify-between border-b border-neutral-200/10 px-4 py-3">
+            <h3 className="text-foreground text-sm font-semibold">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => markRead('all')}
+                className="text-primary hover:text-primary/80 flex items-center gap-1 text-xs font-medium"
+              >
+                <CheckCheck className="h-3.5 w-3.5" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {loading && notifications.length === 0 ? (
+              <div className="text-text-secondary flex items-center justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </div>
+            ) : error ? (
+              <p className="text-error px-4 py-6 text-center text-sm">{error}</p>
+            ) : notifications.length === 0 ? (
+              <p className="text-text-secondary px-4 py-8 text-center text-sm">
+                You&apos;re all caught up
+              </p>
+            ) : (
+              <ul>
+                {notifications.map((notification) => (
+                  <li key={notification.id}>
+                    <button
+                      type="button"
+                      onClick={() => handleOpen(notification)}
+                      className="hover:bg-foreground/5 flex w-full gap-3 px-4 py-3 text-left transition-colors"
+                    >
+                      <span
+                        className={cn(
+                          'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+                          notification.readAt ? 'bg-transparent' : 'bg-primary'
+                        )}
+                        aria-hidden="true"
+                      />
+                      <span className="min-w-0 flex-1">
+                        <span className="text-foreground block text-sm font-medium">
+                          {notification.title}
+                        </span>
+                        <span className="text-text-secondary line-clamp-2 block text-xs">
+                          {notification.body}
+                        </span>
+                        <span className="text-text-disabled mt-1 block text-[11px]">
+                          {formatDistanceToNow(new Date(notification.createdAt), {
+                            addSuffix: true,
+                          })}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="border-t border-neutral-200/10 px-4 py-2.5 text-center">
+            <Link
+              href="/settings#notifications"
+              onClick={() => setIsOpen(false)}
+              className="text-text-secondary hover:text-foreground text-xs"
+            >
+              Notification settings
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
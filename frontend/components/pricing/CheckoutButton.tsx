@@ -53,6 +53,8 @@ interface CheckoutButtonProps {
   disabled?: boolean;
   /** Billing cycle ('monthly' or 'yearly') */
   billingCycle?: 'monthly' | 'yearly';
+  /** Promo code validated on the pricing page */
+  couponCode?: string;
   /** Custom button text */
   buttonText?: string;
   /** Custom CSS className */
@@ -100,6 +102,7 @@ export function CheckoutButton({
   tier,
   disabled = false,
   billingCycle = 'monthly',
+  couponCode,
   buttonText,
   className = '',
   variant = 'primary',
@@ -188,6 +191,7 @@ export function CheckoutButton({
         body: JSON.stringify({
           tier: planId,
           billingCycle: billingCycle,
+          ...(couponCode && { couponCode }),
           metadata: {
             source: 'pricing_page',
             planName: tier,
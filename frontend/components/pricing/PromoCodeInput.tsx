@@ -0,0 +1,124 @@
+/**
+ * Promo Code Input Component
+ *
+ * Checks a promo code with the validate-coupon API and hands the coupon's
+ * rules to the pricing page, which prices each plan card with them. The code
+ * is only redeemed when a subscription is created.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { CheckCircle, Loader2, Tag, X } from 'lucide-react';
+import type { Coupon } from '@/lib/services/couponService';
+
+export type AppliedCoupon = Pick<
+  Coupon,
+  | 'code'
+  | 'description'
+  | 'discountType'
+  | 'discountValue'
+  | 'trialDays'
+  | 'applicableTiers'
+  | 'applicableBillingCycles'
+>;
+
+interface PromoCodeInputProps {
+  billingCycle: 'monthly' | 'yearly';
+  appliedCoupon: AppliedCoupon | null;
+  onApply: (coupon: AppliedCoupon | null) => void;
+  className?: string;
+}
+
+export function PromoCodeInput({
+  billingCycle,
+  appliedCoupon,
+  onApply,
+  className = '',
+}: PromoCodeInputProps): React.JSX.Element {
+  const [code, setCode] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isChecking || !code.trim()) return;
+
+    setIsChecking(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/subscriptions/validate-coupon', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code: code.trim(), billingCycle }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || 'This promo code could not be applied');
+      }
+
+      onApply(result.data.coupon);
+      setCode('');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'This promo code could not be applied');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (appliedCoupon) {
+    return (
+      <div
+        className={`flex items-center gap-3 rounded-lg border border-[rgba(167,218,219,0.3)] bg-[rgba(167,218,219,0.05)] px-4 py-2 ${className}`}
+      >
+        <CheckCircle className="h-4 w-4 text-[rgb(167,218,219)]" />
+        <span className="text-sm font-semibold text-[rgb(224,224,224)]">{appliedCoupon.code}</span>
+        {appliedCoupon.description && (
+          <span className="text-sm text-[rgb(176,197,198)]">{appliedCoupon.description}</span>
+        )}
+        <button
+          type="button"
+          onClick={() => onApply(null)}
+          className="ml-auto text-[rgb(176,197,198)] transition-colors hover:text-[rgb(224,224,224)]"
+          aria-label="Remove promo code"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={className}>
+      <div className="flex items-center gap-2">
+        <div className="relative">
+          <Tag className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-[rgb(176,197,198)]" />
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder="Promo code"
+            aria-label="Promo code"
+            maxLength={32}
+            disabled={isChecking}
+            className="rounded-md border border-[rgba(255,255,255,0.1)] bg-[rgba(255,255,255,0.03)] py-2 pr-3 pl-9 text-sm text-[rgb(224,224,224)] placeholder:text-[rgb(176,197,198)] focus:border-[rgb(167,218,219)] focus:outline-none"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isChecking || !code.trim()}
+          className="flex items-center gap-2 rounded-md border border-[rgb(167,218,219)] px-4 py-2 text-sm font-semibold text-[rgb(167,218,219)] transition-all hover:bg-[rgba(167,218,219,0.1)] disabled:opacity-50"
+        >
+          {isChecking && <Loader2 className="h-4 w-4 animate-spin" />}
+          Apply
+        </button>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+    </form>
+  );
+}
+
+export default PromoCodeInput;
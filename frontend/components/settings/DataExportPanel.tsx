@@ -0,0 +1,155 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle2, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { DataExport, DataExportReason } from '@/lib/services/dataExportService';
+
+const POLL_INTERVAL_MS = 3000;
+
+interface DataExportPanelProps {
+  reason?: DataExportReason;
+  /** Bump to reload, e.g. after the delete account flow queued an export */
+  refreshKey?: number;
+}
+
+function formatSize(bytes: number | null): string {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * DataExportPanel - Request and download the personal data export archive
+ * Polls while the archive is being built and links to it until it expires
+ */
+export function DataExportPanel({ reason = 'user_request', refreshKey = 0 }: DataExportPanelProps) {
+  const [dataExport, setDataExport] = useState<DataExport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchExport = useCallback(async () => {
+    try {
+      const response = await fetch('/api/account/data-export');
+      const data = await response.json();
+      if (data.success) {
+        setDataExport(data.dataExport);
+      }
+    } catch (err) {
+      console.error('Failed to fetch data export:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchExport();
+  }, [fetchExport, refreshKey]);
+
+  const inProgress = dataExport?.status === 'queued' || dataExport?.status === 'running';
+
+  useEffect(() => {
+    if (!inProgress) return;
+    const timer = setInterval(fetchExport, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [inProgress, fetchExport]);
+
+  const handleRequest = async () => {
+    setRequesting(true);
+    setError('');
+    try {
+      const response = await fetch('/api/account/data-export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to request data export');
+      }
+      setDataExport(data.dataExport);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request data export');
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="text-primary h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {dataExport?.status === 'ready' && (
+        <div className="bg-success/10 border-success/20 flex items-start gap-3 rounded-lg border p-4">
+          <CheckCircle2 className="text-success mt-0.5 h-5 w-5 flex-shrink-0" />
+          <div className="flex-1">
+            <p className="text-body text-foreground font-medium">Your export is ready</p>
+            <p className="text-caption text-text-secondary mb-3">
+              {formatSize(dataExport.fileSize)}
+              {dataExport.expiresAt &&
+                ` · Available until ${new Date(dataExport.expiresAt).toLocaleDateString('en-US', {
+                  month: 'long',
+                  day: 'numeric',
+                  year: 'numeric',
+                })}`}
+            </p>
+            <a
+              href={`/api/account/data-export/${dataExport.id}/download`}
+              className="text-primary inline-flex items-center gap-2 text-sm font-medium underline-offset-4 hover:underline"
+            >
+              <Download className="h-4 w-4" />
+              Download ZIP
+            </a>
+          </div>
+        </div>
+      )}
+
+      {inProgress && (
+        <div className="bg-info/10 border-info/20 flex items-center gap-3 rounded-lg border p-4">
+          <Loader2 className="text-info h-5 w-5 animate-spin" />
+          <p className="text-caption text-text-secondary">
+            Preparing your export. This usually takes under a minute; you can leave this page.
+          </p>
+        </div>
+      )}
+
+      {dataExport?.status === 'failed' && (
+        <div className="text-error flex items-center gap-2 text-sm">
+          <AlertCircle className="h-4 w-4" />
+          {dataExport.error || 'The export could not be built. Please try again.'}
+        </div>
+      )}
+
+      {dataExport?.status === 'expired' && (
+        <p className="text-caption text-text-secondary">
+          Your last export has expired. Request a new one to download your data.
+        </p>
+      )}
+
+      {!inProgress && (
+        <Button
+          onClick={handleRequest}
+          disabled={requesting}
+          variant={dataExport?.status === 'ready' ? 'ghost' : 'primary'}
+          size="medium"
+        >
+          {requesting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          {dataExport?.status === 'ready' ? 'Create a New Export' : 'Export All Data'}
+        </Button>
+      )}
+
+      {error && <p className="text-caption text-error">{error}</p>}
+    </div>
+  );
+}
@@ -2,9 +2,10 @@
 
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Lock, Download, Trash2, FileText, Shield, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Lock, Trash2, FileText, Shield, AlertTriangle, CheckCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { GlassCard } from '@/components/ui/GlassCard';
+import { DataExportPanel } from './DataExportPanel';
 
 export function DataPrivacySection() {
   const [isLoading, setIsLoading] = useState(false);
@@ -18,20 +19,6 @@ export function DataPrivacySection() {
     dataRetention: '30 days after cancellation',
   };
 
-  const handleExportData = async () => {
-    setIsLoading(true);
-    try {
-      // Simulate data export
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-      // In real app, this would trigger a download
-      console.log('Exporting user data...');
-    } catch (error) {
-      console.error('Failed to export data:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const handleDeleteAccount = async () => {
     setIsLoading(true);
     try {
@@ -122,20 +109,12 @@ export function DataPrivacySection() {
                 information.
               </p>
 
-              <Button
-                onClick={handleExportData}
-                disabled={isLoading}
-                className="btn-primary w-full"
-              >
-                <div className="flex items-center gap-2">
-                  <Download className="h-4 w-4" />
-                  {isLoading ? 'Preparing Export...' : 'Export All Data'}
-                </div>
-              </Button>
+              <DataExportPanel />
 
               <p className="text-caption text-text-secondary">
-                Export includes: Profile data, blueprints, usage statistics, and settings. File will
-                be available for download for 7 days.
+                Export includes: Profile data, blueprints with your answers, usage, payments,
+                subscriptions, feedback and sessions, as a ZIP. File will be available for download
+                for 7 days.
               </p>
             </div>
           </GlassCard>
@@ -1,86 +1,139 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { SettingCard, SettingRow } from './SettingCard';
 import { Toggle } from './Toggle';
-import { Bell, Mail, MessageSquare, Smartphone, CheckCircle2 } from 'lucide-react';
+import { Bell, Mail, Smartphone, Loader2, AlertCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  NOTIFICATION_TYPES,
+  type NotificationChannel,
+  type NotificationType,
+} from '@/lib/notifications/types';
+import type { NotificationPreference } from '@/lib/services/notificationService';
 
 /**
  * NotificationsSettings - Notification preferences
- * Manage email, push, and in-app notification settings
+ * Manage email, push, and in-app notification settings. Email and in-app
+ * preferences are saved per notification type as they are toggled.
  */
 export function NotificationsSettings() {
-  // Email notifications
-  const [emailStarmapComplete, setEmailStarmapComplete] = useState(true);
-  const [emailWeeklyDigest, setEmailWeeklyDigest] = useState(true);
-  const [emailProductUpdates, setEmailProductUpdates] = useState(false);
-  const [emailMarketing, setEmailMarketing] = useState(false);
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
   // Push notifications
   const [pushEnabled, setPushEnabled] = useState(false);
   const [pushStarmapComplete, setPushStarmapComplete] = useState(false);
   const [pushReminders, setPushReminders] = useState(false);
 
-  // In-app notifications
-  const [inAppMessages, setInAppMessages] = useState(true);
-  const [inAppUpdates, setInAppUpdates] = useState(true);
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch('/api/notifications/preferences', {
+          credentials: 'include',
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to load notification preferences');
+        }
+        setPreferences(data.preferences);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load notification preferences');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreferences();
+  }, []);
+
+  const updatePreference = useCallback(
+    async (type: NotificationType, channel: NotificationChannel, value: boolean) => {
+      const previous = preferences;
+      setPreferences((current) =>
+        current.map((pref) => (pref.type === type ? { ...pref, [channel]: value } : pref))
+      );
+      setError(null);
+
+      try {
+        const response = await fetch('/api/notifications/preferences', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          credentials: 'include',
+          body: JSON.stringify({ preferences: [{ type, [channel]: value }] }),
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to save notification preferences');
+        }
+        setPreferences(data.preferences);
+      } catch (err) {
+        setPreferences(previous);
+        setError(err instanceof Error ? err.message : 'Failed to save notification preferences');
+      }
+    },
+    [preferences]
+  );
 
-  return (
-    <section id="notifications" className="scroll-mt-24 space-y-6">
-      {/* Email Notifications */}
-      <SettingCard
-        title="Email Notifications"
-        description="Choose what updates you want to receive via email"
-      >
-        <SettingRow
-          label="Starmap Completion"
-          description="Get notified when your starmap generation is complete"
-          badge={<CheckCircle2 className="h-3 w-3" />}
-        >
-          <Toggle
-            checked={emailStarmapComplete}
-            onCheckedChange={setEmailStarmapComplete}
-            aria-label="Toggle starmap completion emails"
-          />
-        </SettingRow>
+  const renderPreferenceRows = (channel: NotificationChannel) => {
+    if (loading) {
+      return (
+        <div className="text-text-secondary flex items-center gap-2 py-4">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="text-caption">Loading preferences...</span>
+        </div>
+      );
+    }
 
+    return preferences.map((pref) => {
+      const definition = NOTIFICATION_TYPES[pref.type];
+      const locked = channel === 'email' && definition.emailRequired;
+
+      return (
         <SettingRow
-          label="Weekly Digest"
-          description="A summary of your activity and insights every week"
+          key={pref.type}
+          label={definition.label}
+          description={definition.description}
+          badge={locked ? <span className="text-xs">Required</span> : undefined}
         >
           <Toggle
-            checked={emailWeeklyDigest}
-            onCheckedChange={setEmailWeeklyDigest}
-            aria-label="Toggle weekly digest emails"
+            checked={pref[channel]}
+            onCheckedChange={(value) => updatePreference(pref.type, channel, value)}
+            disabled={locked}
+            aria-label={`Toggle ${definition.label.toLowerCase()} ${
+              channel === 'email' ? 'emails' : 'in-app notifications'
+            }`}
           />
         </SettingRow>
+      );
+    });
+  };
 
-        <SettingRow label="Product Updates" description="Learn about new features and improvements">
-          <Toggle
-            checked={emailProductUpdates}
-            onCheckedChange={setEmailProductUpdates}
-            aria-label="Toggle product update emails"
-          />
-        </SettingRow>
+  return (
+    <section id="notifications" className="scroll-mt-24 space-y-6">
+      {error && (
+        <div className="bg-error/5 border-error/20 flex items-start gap-3 rounded-xl border p-4">
+          <AlertCircle className="text-error mt-0.5 h-5 w-5 flex-shrink-0" />
+          <p className="text-caption text-error">{error}</p>
+        </div>
+      )}
 
-        <SettingRow
-          label="Marketing & Promotions"
-          description="Special offers, tips, and recommendations"
-        >
-          <Toggle
-            checked={emailMarketing}
-            onCheckedChange={setEmailMarketing}
-            aria-label="Toggle marketing emails"
-          />
-        </SettingRow>
+      {/* Email Notifications */}
+      <SettingCard
+        title="Email Notifications"
+        description="Choose what updates you want to receive via email"
+      >
+        {renderPreferenceRows('email')}
 
         <div className="mt-2 border-t border-neutral-200/10 pt-4">
           <div className="bg-info/5 border-info/20 flex items-start gap-3 rounded-xl border p-4">
             <Mail className="text-info mt-0.5 h-5 w-5 flex-shrink-0" />
             <div className="flex-1">
               <p className="text-caption text-text-secondary">
-                Important account and security notifications will always be sent, regardless of your
+                Important account and billing notifications will always be sent, regardless of your
                 preferences.
               </p>
             </div>
@@ -163,29 +216,9 @@ export function NotificationsSettings() {
       {/* In-App Notifications */}
       <SettingCard
         title="In-App Notifications"
-        description="Control notifications you see while using the app"
+        description="Control which notifications appear in your inbox"
       >
-        <SettingRow
-          label="Messages & Updates"
-          description="Show notification badges and alerts within the app"
-        >
-          <Toggle
-            checked={inAppMessages}
-            onCheckedChange={setInAppMessages}
-            aria-label="Toggle in-app messages"
-          />
-        </SettingRow>
-
-        <SettingRow
-          label="Feature Announcements"
-          description="See announcements about new features and improvements"
-        >
-          <Toggle
-            checked={inAppUpdates}
-            onCheckedChange={setInAppUpdates}
-            aria-label="Toggle in-app feature announcements"
-          />
-        </SettingRow>
+        {renderPreferenceRows('inApp')}
 
         <div className="mt-2 border-t border-neutral-200/10 pt-4">
           <div className="bg-success/5 border-success/20 flex items-start gap-3 rounded-xl border p-4">
@@ -3,12 +3,13 @@
 import { useState, useEffect } from 'react';
 import { SettingCard, SettingRow } from './SettingCard';
 import { Toggle } from './Toggle';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { DataExportPanel } from './DataExportPanel';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import {
   Shield,
   Key,
-  Smartphone,
   Eye,
   EyeOff,
   CheckCircle2,
@@ -51,9 +52,6 @@ export function SecuritySettings() {
   const [passwordSuccess, setPasswordSuccess] = useState('');
   const [isUpdatingPassword, setIsUpdatingPassword] = useState(false);
 
-  // 2FA
-  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
-
   // Privacy
   const [profilePublic, setProfilePublic] = useState(false);
   const [showActivity, setShowActivity] = useState(true);
@@ -69,6 +67,9 @@ export function SecuritySettings() {
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
   const [deleteError, setDeleteError] = useState('');
   const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const [exportBeforeDelete, setExportBeforeDelete] = useState(true);
+  const [deleteExportKey, setDeleteExportKey] = useState(0);
+  const [deleteNotice, setDeleteNotice] = useState('');
 
   // Fetch sessions on mount
   useEffect(() => {
@@ -215,11 +216,22 @@ export function SecuritySettings() {
       const response = await fetch('/api/account/delete', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ confirmationText: deleteConfirmText }),
+        body: JSON.stringify({
+          confirmationText: deleteConfirmText,
+          exportFirst: exportBeforeDelete,
+        }),
       });
 
       const data = await response.json();
 
+      // The data export is still being prepared; nothing has been deleted
+      if (response.status === 202 && data.exportPending) {
+        setDeleteNotice(data.message);
+        setDeleteExportKey((key) => key + 1);
+        setIsDeletingAccount(false);
+        return;
+      }
+
       if (!response.ok) {
         setDeleteError(data.error || 'Failed to delete account');
         setIsDeletingAccount(false);
@@ -443,53 +455,7 @@ export function SecuritySettings() {
       </SettingCard>
 
       {/* Two-Factor Authentication */}
-      <SettingCard
-        title="Two-Factor Authentication"
-        description="Add an extra layer of security to your account"
-      >
-        <div
-          className={cn(
-            'rounded-xl border-2 p-6 transition-all duration-200',
-            twoFactorEnabled
-              ? 'bg-success/5 border-success/30'
-              : 'border-neutral-200/10 bg-neutral-100/5'
-          )}
-        >
-          <div className="flex items-start gap-4">
-            <div
-              className={cn(
-                'flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-xl',
-                twoFactorEnabled ? 'bg-success text-white' : 'text-text-disabled bg-neutral-300'
-              )}
-            >
-              <Shield className="h-6 w-6" />
-            </div>
-            <div className="flex-1">
-              <div className="mb-2 flex items-center gap-2">
-                <h4 className="text-body text-foreground font-semibold">
-                  {twoFactorEnabled
-                    ? 'Two-Factor Authentication Enabled'
-                    : 'Enable Two-Factor Authentication'}
-                </h4>
-                {twoFactorEnabled && <CheckCircle2 className="text-success h-5 w-5" />}
-              </div>
-              <p className="text-caption text-text-secondary mb-4">
-                {twoFactorEnabled
-                  ? "Your account is protected with two-factor authentication. You'll need to enter a code from your authenticator app when signing in."
-                  : "Protect your account with an additional security layer. You'll need your password and a verification code to sign in."}
-              </p>
-              <Button
-                variant={twoFactorEnabled ? 'ghost' : 'primary'}
-                size="medium"
-                onClick={() => setTwoFactorEnabled(!twoFactorEnabled)}
-              >
-                <Smartphone className="mr-2 h-4 w-4" />
-                {twoFactorEnabled ? 'Disable 2FA' : 'Enable 2FA'}
-              </Button>
-            </div>
-          </div>
-        </div>
-      </SettingCard>
+      <TwoFactorSettings />
 
       {/* Active Sessions */}
       <SettingCard title="Active Sessions" description="Manage where you're logged in">
@@ -627,6 +593,17 @@ export function SecuritySettings() {
         </div>
       </SettingCard>
 
+      {/* Personal Data Export */}
+      <SettingCard title="Your Data" description="Download a copy of everything stored about you">
+        <div className="space-y-4">
+          <p className="text-caption text-text-secondary">
+            A ZIP with your profile, blueprints and answers, usage, payments, subscriptions,
+            feedback and sessions. The download link stays available for 7 days.
+          </p>
+          <DataExportPanel />
+        </div>
+      </SettingCard>
+
       {/* Danger Zone - Account Deletion */}
       <SettingCard title="Danger Zone" description="Irreversible actions that affect your account">
         <div className="border-error/30 bg-error/5 space-y-4 rounded-xl border-2 p-6">
@@ -674,7 +651,22 @@ export function SecuritySettings() {
                       className={deleteError ? 'border-error' : ''}
                     />
                     {deleteError && <p className="text-caption text-error mt-2">{deleteError}</p>}
+                    <label className="text-caption text-text-secondary mt-3 flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={exportBeforeDelete}
+                        onChange={(e) => setExportBeforeDelete(e.target.checked)}
+                        disabled={isDeletingAccount}
+                      />
+                      Prepare a copy of my data before deleting
+                    </label>
                   </div>
+                  {exportBeforeDelete && deleteNotice && (
+                    <div className="space-y-3 rounded-lg border border-neutral-200/10 p-4">
+                      <p className="text-caption text-text-secondary">{deleteNotice}</p>
+                      <DataExportPanel reason="account_deletion" refreshKey={deleteExportKey} />
+                    </div>
+                  )}
                   <div className="flex gap-3">
                     <Button
                       onClick={handleDeleteAccount}
@@ -699,6 +691,7 @@ export function SecuritySettings() {
                         setShowDeleteConfirm(false);
                         setDeleteConfirmText('');
                         setDeleteError('');
+                        setDeleteNotice('');
                       }}
                       disabled={isDeletingAccount}
                       variant="ghost"
@@ -0,0 +1,366 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Copy,
+  Download,
+  KeyRound,
+  Loader2,
+  Shield,
+  Smartphone,
+} from 'lucide-react';
+import { SettingCard } from './SettingCard';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { TotpEnrollment, TwoFactorStatus } from '@/lib/services/twoFactorService';
+
+/**
+ * TwoFactorSettings - TOTP two-factor authentication
+ * Enrollment with QR code and secret, one-time recovery codes, and turning
+ * it off (unless a workspace requires it)
+ */
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/account/two-factor');
+      const data = await response.json();
+
+      if (data.success) {
+        setStatus(data.status);
+      }
+    } catch (err) {
+      console.error('Failed to fetch two-factor status:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const request = async (url: string, init?: RequestInit) => {
+    setBusy(true);
+    setError('');
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Something went wrong. Please try again.');
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStartEnrollment = async () => {
+    const data = await request('/api/account/two-factor/enroll', { method: 'POST' });
+    if (data) {
+      setEnrollment(data.enrollment);
+      setCode('');
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    const data = await request('/api/account/two-factor/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ factorId: enrollment.factorId, code }),
+    });
+    if (data) {
+      setEnrollment(null);
+      setCode('');
+      setRecoveryCodes(data.recoveryCodes ?? null);
+      await fetchStatus();
+    }
+  };
+
+  const handleDisable = async () => {
+    if (
+      !window.confirm(
+        'Turn off two-factor authentication? Your recovery codes will stop working as well.'
+      )
+    ) {
+      return;
+    }
+
+    const data = await request('/api/account/two-factor', { method: 'DELETE' });
+    if (data) {
+      setRecoveryCodes(null);
+      await fetchStatus();
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    if (!window.confirm('Create new recovery codes? Your current codes will stop working.')) {
+      return;
+    }
+
+    const data = await request('/api/account/two-factor/recovery-codes', { method: 'POST' });
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes);
+      await fetchStatus();
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`${recoveryCodes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'smartslate-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const enabled = status?.enabled ?? false;
+  const requiredBy = status?.requiredBy ?? [];
+
+  return (
+    <SettingCard
+      title="Two-Factor Authentication"
+      description="Add an extra layer of security to your account"
+    >
+      {loading && !status ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="border-primary h-6 w-6 animate-spin rounded-full border-2 border-t-transparent" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {requiredBy.length > 0 && !enabled && (
+            <div className="border-warning/30 bg-warning/5 flex items-start gap-3 rounded-xl border p-4">
+              <AlertCircle className="text-warning mt-0.5 h-5 w-5 flex-shrink-0" />
+              <p className="text-caption text-text-secondary">
+                {requiredBy.map((workspace) => workspace.name).join(', ')}{' '}
+                {requiredBy.length === 1 ? 'requires' : 'require'} two-factor authentication. Turn
+                it on to access {requiredBy.length === 1 ? 'this workspace' : 'these workspaces'}.
+              </p>
+            </div>
+          )}
+
+          <div
+            className={cn(
+              'rounded-xl border-2 p-6 transition-all duration-200',
+              enabled ? 'bg-success/5 border-success/30' : 'border-neutral-200/10 bg-neutral-100/5'
+            )}
+          >
+            <div className="flex items-start gap-4">
+              <div
+                className={cn(
+                  'flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-xl',
+                  enabled ? 'bg-success text-white' : 'text-text-disabled bg-neutral-300'
+                )}
+              >
+                <Shield className="h-6 w-6" />
+              </div>
+              <div className="flex-1">
+                <div className="mb-2 flex items-center gap-2">
+                  <h4 className="text-body text-foreground font-semibold">
+                    {enabled
+                      ? 'Two-Factor Authentication Enabled'
+                      : 'Enable Two-Factor Authentication'}
+                  </h4>
+                  {enabled && <CheckCircle2 className="text-success h-5 w-5" />}
+                </div>
+                <p className="text-caption text-text-secondary mb-4">
+                  {enabled
+                    ? "Your account is protected with two-factor authentication. You'll need to enter a code from your authenticator app when signing in."
+                    : "Protect your account with an additional security layer. You'll need your password and a verification code to sign in."}
+                </p>
+
+                {enabled && status && (
+                  <p className="text-caption text-text-secondary mb-4">
+                    {status.recoveryCodesRemaining} of 10 recovery codes left
+                  </p>
+                )}
+
+                {!enrollment && (
+                  <div className="flex flex-wrap gap-3">
+                    {enabled ? (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="medium"
+                          onClick={handleRegenerateCodes}
+                          disabled={busy}
+                        >
+                          <KeyRound className="mr-2 h-4 w-4" />
+                          New Recovery Codes
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="medium"
+                          onClick={handleDisable}
+                          disabled={busy || requiredBy.length > 0}
+                          title={
+                            requiredBy.length > 0 ? 'Required by one of your workspaces' : undefined
+                          }
+                        >
+                          <Smartphone className="mr-2 h-4 w-4" />
+                          Disable 2FA
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        variant="primary"
+                        size="medium"
+                        onClick={handleStartEnrollment}
+                        disabled={busy}
+                      >
+                        {busy ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Smartphone className="mr-2 h-4 w-4" />
+                        )}
+                        Enable 2FA
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {enrollment && (
+            <form
+              onSubmit={handleVerify}
+              className="space-y-4 rounded-xl border border-neutral-200/10 bg-neutral-100/5 p-6"
+            >
+              <div>
+                <h4 className="text-body text-foreground mb-1 font-semibold">
+                  1. Scan this QR code
+                </h4>
+                <p className="text-caption text-text-secondary">
+                  Use an authenticator app such as Google Authenticator, 1Password or Authy.
+                </p>
+              </div>
+              <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={enrollment.qrCode}
+                  alt="Two-factor QR code"
+                  className="h-44 w-44 rounded-lg bg-white p-2"
+                />
+                <div className="min-w-0">
+                  <p className="text-caption text-text-secondary mb-1">
+                    Can&apos;t scan it? Enter this key instead:
+                  </p>
+                  <code className="text-foreground block rounded-lg bg-neutral-100/10 px-3 py-2 font-mono text-sm break-all">
+                    {enrollment.secret}
+                  </code>
+                </div>
+              </div>
+              <div>
+                <label
+                  htmlFor="totpCode"
+                  className="text-body text-foreground mb-2 block font-semibold"
+                >
+                  2. Enter the 6-digit code
+                </label>
+                <Input
+                  id="totpCode"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                  size="large"
+                  className="w-full sm:w-48"
+                  disabled={busy}
+                />
+              </div>
+              <div className="flex gap-3">
+                <Button type="submit" variant="primary" disabled={busy || code.length !== 6}>
+                  {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Verify and Enable
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => setEnrollment(null)}
+                  disabled={busy}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {recoveryCodes && (
+            <div className="border-warning/30 bg-warning/5 space-y-4 rounded-xl border p-6">
+              <div>
+                <h4 className="text-body text-foreground mb-1 font-semibold">
+                  Save your recovery codes
+                </h4>
+                <p className="text-caption text-text-secondary">
+                  Each code works once if you lose access to your authenticator app. They won&apos;t
+                  be shown again.
+                </p>
+              </div>
+              <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+                {recoveryCodes.map((recoveryCode) => (
+                  <li
+                    key={recoveryCode}
+                    className="text-foreground rounded bg-neutral-100/10 px-3 py-1.5"
+                  >
+                    {recoveryCode}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-wrap gap-3">
+                <Button variant="ghost" size="medium" onClick={handleCopyCodes}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+                <Button variant="ghost" size="medium" onClick={handleDownloadCodes}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
+                </Button>
+                <Button variant="primary" size="medium" onClick={() => setRecoveryCodes(null)}>
+                  I&apos;ve saved them
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="text-error flex items-center gap-2 text-sm">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </SettingCard>
+  );
+}
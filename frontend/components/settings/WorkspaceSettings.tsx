@@ -0,0 +1,421 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Check, Copy, Loader2, LogOut, Mail, Trash2, Users } from 'lucide-react';
+import { SettingCard } from './SettingCard';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import type {
+  InvitationRole,
+  SeatUsage,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '@/lib/services/workspaceService';
+
+interface WorkspaceDetail {
+  workspace: Workspace;
+  role: WorkspaceRole;
+  members: WorkspaceMember[];
+  invitations: WorkspaceInvitation[];
+  seats: SeatUsage;
+}
+
+const selectClassName =
+  'text-foreground focus:border-primary rounded-lg border border-neutral-200/10 bg-neutral-100/5 px-3 py-2 text-sm focus:outline-none';
+
+/**
+ * WorkspaceSettings - Team workspace members
+ * Owners change roles, remove members, invite people within their seat count
+ * and revoke pending invitations; other members can leave
+ */
+export function WorkspaceSettings() {
+  const { user } = useAuth();
+  const [workspaces, setWorkspaces] = useState<Array<Workspace & { role: WorkspaceRole }>>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<WorkspaceDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InvitationRole>('editor');
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchWorkspaces = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/workspaces');
+      const data = await response.json();
+
+      if (data.success) {
+        setWorkspaces(data.workspaces);
+        setSelectedId((current) =>
+          data.workspaces.some((workspace: Workspace) => workspace.id === current)
+            ? current
+            : (data.workspaces[0]?.id ?? null)
+        );
+      }
+    } catch (err) {
+      console.error('Failed to fetch workspaces:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchDetail = useCallback(async (workspaceId: string) => {
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setDetail({
+          workspace: data.workspace,
+          role: data.role,
+          members: data.members,
+          invitations: data.invitations ?? [],
+          seats: data.seats,
+        });
+      }
+    } catch (err) {
+      console.error('Failed to fetch workspace:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  useEffect(() => {
+    setDetail(null);
+    setInviteUrl(null);
+    if (selectedId) {
+      fetchDetail(selectedId);
+    }
+  }, [selectedId, fetchDetail]);
+
+  const request = async (url: string, init?: RequestInit) => {
+    setBusy(true);
+    setError('');
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Something went wrong. Please try again.');
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRoleChange = async (member: WorkspaceMember, role: InvitationRole) => {
+    if (!selectedId) return;
+    const data = await request(`/api/workspaces/${selectedId}/members/${member.userId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role }),
+    });
+    if (data) {
+      await fetchDetail(selectedId);
+    }
+  };
+
+  const handleRemove = async (member: WorkspaceMember) => {
+    if (!selectedId) return;
+    const name = member.fullName || member.email || 'this member';
+    if (!window.confirm(`Remove ${name} from the workspace?`)) {
+      return;
+    }
+
+    const data = await request(`/api/workspaces/${selectedId}/members/${member.userId}`, {
+      method: 'DELETE',
+    });
+    if (data) {
+      await fetchDetail(selectedId);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!selectedId || !user?.id || !detail) return;
+    if (
+      !window.confirm(
+        `Leave ${detail.workspace.name}? You will lose access to its blueprints, including ones you created.`
+      )
+    ) {
+      return;
+    }
+
+    const data = await request(`/api/workspaces/${selectedId}/members/${user.id}`, {
+      method: 'DELETE',
+    });
+    if (data) {
+      await fetchWorkspaces();
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedId) return;
+
+    const data = await request(`/api/workspaces/${selectedId}/invitations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+    });
+    if (data) {
+      setInviteEmail('');
+      setInviteUrl(data.inviteUrl);
+      setCopied(false);
+      await fetchDetail(selectedId);
+    }
+  };
+
+  const handleRevoke = async (invitation: WorkspaceInvitation) => {
+    if (!selectedId) return;
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}?`)) {
+      return;
+    }
+
+    const data = await request(`/api/workspaces/${selectedId}/invitations/${invitation.id}`, {
+      method: 'DELETE',
+    });
+    if (data) {
+      await fetchDetail(selectedId);
+    }
+  };
+
+  const handleCopyInviteUrl = async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    setCopied(true);
+  };
+
+  const isOwner = detail?.role === 'owner';
+
+  return (
+    <SettingCard title="Workspaces" description="Manage the people in your team workspaces">
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="border-primary h-6 w-6 animate-spin rounded-full border-2 border-t-transparent" />
+        </div>
+      ) : workspaces.length === 0 ? (
+        <p className="text-caption text-text-secondary">
+          You are not a member of any workspace yet.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {workspaces.length > 1 && (
+            <select
+              aria-label="Workspace"
+              className={selectClassName}
+              value={selectedId ?? ''}
+              onChange={(e) => setSelectedId(e.target.value)}
+              disabled={busy}
+            >
+              {workspaces.map((workspace) => (
+                <option key={workspace.id} value={workspace.id}>
+                  {workspace.name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {error && (
+            <div className="border-error/30 bg-error/5 flex items-start gap-3 rounded-xl border p-4">
+              <AlertCircle className="text-error mt-0.5 h-5 w-5 flex-shrink-0" />
+              <p className="text-caption text-error">{error}</p>
+            </div>
+          )}
+
+          {!detail ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="border-primary h-6 w-6 animate-spin rounded-full border-2 border-t-transparent" />
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <div className="bg-primary/10 text-primary flex h-10 w-10 items-center justify-center rounded-xl">
+                    <Users className="h-5 w-5" />
+                  </div>
+                  <div>
+                    <h4 className="text-body text-foreground font-semibold">
+                      {detail.workspace.name}
+                    </h4>
+                    <p className="text-caption text-text-secondary">
+                      {detail.seats.used} of {detail.seats.seatLimit} seats used
+                      {detail.seats.pendingInvitations > 0 &&
+                        ` (${detail.seats.pendingInvitations} pending)`}
+                    </p>
+                  </div>
+                </div>
+                {!isOwner && (
+                  <Button variant="ghost" size="medium" onClick={handleLeave} disabled={busy}>
+                    <LogOut className="mr-2 h-4 w-4" />
+                    Leave
+                  </Button>
+                )}
+              </div>
+
+              <ul className="divide-y divide-neutral-200/10 rounded-xl border border-neutral-200/10">
+                {detail.members.map((member) => (
+                  <li key={member.userId} className="flex items-center justify-between gap-4 p-4">
+                    <div className="min-w-0">
+                      <p className="text-body text-foreground truncate">
+                        {member.fullName || member.email || 'Unknown member'}
+                        {member.userId === user?.id && ' (you)'}
+                      </p>
+                      {member.fullName && member.email && (
+                        <p className="text-caption text-text-secondary truncate">{member.email}</p>
+                      )}
+                    </div>
+                    {isOwner && member.role !== 'owner' ? (
+                      <div className="flex flex-shrink-0 items-center gap-2">
+                        <select
+                          aria-label={`Role for ${member.email ?? member.userId}`}
+                          className={selectClassName}
+                          value={member.role}
+                          onChange={(e) =>
+                            handleRoleChange(member, e.target.value as InvitationRole)
+                          }
+                          disabled={busy}
+                        >
+                          <option value="editor">Editor</option>
+                          <option value="viewer">Viewer</option>
+                        </select>
+                        <Button
+                          variant="ghost"
+                          size="small"
+                          onClick={() => handleRemove(member)}
+                          disabled={busy}
+                          aria-label={`Remove ${member.email ?? member.userId}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <span className="text-caption text-text-secondary flex-shrink-0 capitalize">
+                        {member.role}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {isOwner && (
+                <>
+                  {detail.invitations.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-body text-foreground font-semibold">
+                        Pending invitations
+                      </h4>
+                      <ul className="divide-y divide-neutral-200/10 rounded-xl border border-neutral-200/10">
+                        {detail.invitations.map((invitation) => (
+                          <li
+                            key={invitation.id}
+                            className="flex items-center justify-between gap-4 p-4"
+                          >
+                            <div className="min-w-0">
+                              <p className="text-body text-foreground truncate">
+                                {invitation.email}
+                              </p>
+                              <p className="text-caption text-text-secondary">
+                                <span className="capitalize">{invitation.role}</span>, expires{' '}
+                                {new Date(invitation.expiresAt).toLocaleDateString()}
+                              </p>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="small"
+                              onClick={() => handleRevoke(invitation)}
+                              disabled={busy}
+                            >
+                              Revoke
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <form
+                    onSubmit={handleInvite}
+                    className="space-y-4 rounded-xl border border-neutral-200/10 bg-neutral-100/5 p-6"
+                  >
+                    <div>
+                      <h4 className="text-body text-foreground mb-1 font-semibold">
+                        Invite someone
+                      </h4>
+                      <p className="text-caption text-text-secondary">
+                        {detail.seats.canInvite
+                          ? `${detail.seats.available} of ${detail.seats.seatLimit} seats available. A pending invitation holds a seat until it is accepted or revoked.`
+                          : 'All seats are in use. Add seats to your subscription or revoke a pending invitation.'}
+                      </p>
+                    </div>
+                    <div className="flex flex-col gap-3 sm:flex-row">
+                      <Input
+                        type="email"
+                        placeholder="name@company.com"
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                        className="flex-1"
+                        disabled={busy}
+                        required
+                      />
+                      <select
+                        aria-label="Invitation role"
+                        className={selectClassName}
+                        value={inviteRole}
+                        onChange={(e) => setInviteRole(e.target.value as InvitationRole)}
+                        disabled={busy}
+                      >
+                        <option value="editor">Editor</option>
+                        <option value="viewer">Viewer</option>
+                      </select>
+                      <Button type="submit" variant="primary" disabled={busy || !inviteEmail}>
+                        {busy ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Mail className="mr-2 h-4 w-4" />
+                        )}
+                        Invite
+                      </Button>
+                    </div>
+
+                    {inviteUrl && (
+                      <div className="space-y-2">
+                        <p className="text-caption text-text-secondary">
+                          Send this link to the person you invited:
+                        </p>
+                        <div className="flex items-center gap-2">
+                          <code className="text-foreground block min-w-0 flex-1 truncate rounded-lg bg-neutral-100/10 px-3 py-2 font-mono text-sm">
+                            {inviteUrl}
+                          </code>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="small"
+                            onClick={handleCopyInviteUrl}
+                          >
+                            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </form>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </SettingCard>
+  );
+}
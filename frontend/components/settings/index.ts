@@ -11,3 +11,5 @@ export { AccountSettings } from './AccountSettings';
 export { PreferencesSettings } from './PreferencesSettings';
 export { NotificationsSettings } from './NotificationsSettings';
 export { SecuritySettings } from './SecuritySettings';
+export { TwoFactorSettings } from './TwoFactorSettings';
+export { WorkspaceSettings } from './WorkspaceSettings';
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { X, Download, FileText, FileImage, Code } from 'lucide-react';
+import { X, Download, FileText, FileImage, Code, Package, Presentation } from 'lucide-react';
 import { ExportFormat, ExportResult, ExportMetadata } from '@/lib/export/types';
 
 interface ExportPreviewModalProps {
@@ -46,6 +46,18 @@ export const ExportPreviewModal: React.FC<ExportPreviewModalProps> = ({
             const formattedJson = JSON.stringify(JSON.parse(jsonText), null, 2);
             setPreviewContent(formattedJson);
             break;
+          case 'scorm':
+          case 'imscc':
+          case 'mbz':
+            setPreviewContent(
+              'LMS packages are archives. Click download and upload the file to your LMS.'
+            );
+            break;
+          case 'pptx':
+            setPreviewContent(
+              'PowerPoint preview not available in browser. Click download to open the deck.'
+            );
+            break;
         }
       } catch (error) {
         console.error('Failed to generate preview:', error);
@@ -66,6 +78,10 @@ export const ExportPreviewModal: React.FC<ExportPreviewModalProps> = ({
     markdown: FileText,
     json: Code,
     docx: FileImage,
+    scorm: Package,
+    imscc: Package,
+    mbz: Package,
+    pptx: Presentation,
   };
 
   const formatNames: Record<ExportFormat, string> = {
@@ -73,6 +89,10 @@ export const ExportPreviewModal: React.FC<ExportPreviewModalProps> = ({
     markdown: 'Markdown',
     json: 'JSON',
     docx: 'DOCX',
+    scorm: 'SCORM',
+    imscc: 'Common Cartridge',
+    mbz: 'Moodle Backup',
+    pptx: 'PowerPoint',
   };
 
   const formatDescriptions: Record<ExportFormat, string> = {
@@ -80,6 +100,10 @@ export const ExportPreviewModal: React.FC<ExportPreviewModalProps> = ({
     markdown: 'Plain text with formatting for documentation',
     json: 'Structured data for integration and processing',
     docx: 'Word document with professional formatting',
+    scorm: 'LMS package with one SCO per module',
+    imscc: 'IMS Common Cartridge 1.3 course shell',
+    mbz: 'Moodle course backup, ready to restore',
+    pptx: 'Editable slide deck with native tables and charts',
   };
 
   if (!isOpen) return null;
@@ -0,0 +1,244 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Building2, CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { GST_STATE_CODES } from '@/lib/config/gst';
+import type { BillingProfile } from '@/lib/services/invoiceService';
+
+const inputClassName =
+  'focus:ring-primary/50 focus:border-primary w-full rounded-lg border border-neutral-300 px-3 py-2 focus:ring-2';
+
+/**
+ * BillingDetailsForm Component
+ *
+ * Edits the legal name, GSTIN and billing address printed on tax invoices.
+ * With a GSTIN the state is taken from it; otherwise the billing state decides
+ * between CGST/SGST and IGST.
+ */
+export function BillingDetailsForm(): React.JSX.Element {
+  const [legalName, setLegalName] = useState('');
+  const [gstin, setGstin] = useState('');
+  const [line1, setLine1] = useState('');
+  const [line2, setLine2] = useState('');
+  const [city, setCity] = useState('');
+  const [postalCode, setPostalCode] = useState('');
+  const [stateCode, setStateCode] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const response = await fetch('/api/billing/profile');
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load billing details');
+        }
+
+        const profile: BillingProfile = result.profile;
+        setLegalName(profile.legalName ?? '');
+        setGstin(profile.gstin ?? '');
+        setLine1(profile.address?.line1 ?? '');
+        setLine2(profile.address?.line2 ?? '');
+        setCity(profile.address?.city ?? '');
+        setPostalCode(profile.address?.postalCode ?? '');
+        setStateCode(profile.stateCode ?? '');
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : 'Failed to load billing details');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProfile();
+  }, []);
+
+  const gstinStateCode = /^[0-9]{2}/.test(gstin) ? gstin.slice(0, 2) : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSaving) return;
+
+    setIsSaving(true);
+    setError(null);
+    setSaved(false);
+
+    const hasAddress = line1.trim() || city.trim() || postalCode.trim();
+    const profile: BillingProfile = {
+      legalName: legalName.trim() || null,
+      gstin: gstin.trim() || null,
+      address: hasAddress ? { line1, line2: line2 || null, city, postalCode } : null,
+      stateCode: gstinStateCode ?? (stateCode || null),
+    };
+
+    try {
+      const response = await fetch('/api/billing/profile', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(profile),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save billing details');
+      }
+
+      setStateCode(result.profile.stateCode ?? '');
+      setSaved(true);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <GlassCard className="p-6">
+      <div className="mb-4 flex items-center space-x-2">
+        <Building2 className="text-text-secondary h-5 w-5" />
+        <h3 className="text-foreground text-lg font-semibold">Billing Details</h3>
+      </div>
+      <p className="text-text-secondary mb-6 text-sm">
+        Used on future tax invoices. Add your GSTIN to claim input tax credit.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="text-text-disabled h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="billing-legal-name"
+              className="text-text-secondary mb-1 block text-sm font-medium"
+            >
+              Legal name
+            </label>
+            <input
+              id="billing-legal-name"
+              value={legalName}
+              onChange={(e) => setLegalName(e.target.value)}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="billing-gstin"
+              className="text-text-secondary mb-1 block text-sm font-medium"
+            >
+              GSTIN (optional)
+            </label>
+            <input
+              id="billing-gstin"
+              value={gstin}
+              onChange={(e) => setGstin(e.target.value.toUpperCase())}
+              maxLength={15}
+              placeholder="22AAAAA0000A1Z5"
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="billing-line1"
+              className="text-text-secondary mb-1 block text-sm font-medium"
+            >
+              Address
+            </label>
+            <input
+              id="billing-line1"
+              value={line1}
+              onChange={(e) => setLine1(e.target.value)}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+            <input
+              aria-label="Address line 2"
+              value={line2}
+              onChange={(e) => setLine2(e.target.value)}
+              className={`${inputClassName} mt-2`}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              aria-label="City"
+              placeholder="City"
+              value={city}
+              onChange={(e) => setCity(e.target.value)}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+            <input
+              aria-label="PIN code"
+              placeholder="PIN code"
+              value={postalCode}
+              onChange={(e) => setPostalCode(e.target.value)}
+              maxLength={6}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="billing-state"
+              className="text-text-secondary mb-1 block text-sm font-medium"
+            >
+              State
+            </label>
+            <select
+              id="billing-state"
+              value={gstinStateCode ?? stateCode}
+              onChange={(e) => setStateCode(e.target.value)}
+              className={inputClassName}
+              disabled={isSaving || Boolean(gstinStateCode)}
+            >
+              <option value="">Select a state</option>
+              {Object.entries(GST_STATE_CODES).map(([code, name]) => (
+                <option key={code} value={code}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="border-error/20 bg-error/10 flex items-start space-x-2 rounded-lg border p-3">
+              <XCircle className="text-error mt-0.5 h-4 w-4" />
+              <p className="text-error text-sm">{error}</p>
+            </div>
+          )}
+
+          {saved && (
+            <div className="text-success flex items-center space-x-2 text-sm">
+              <CheckCircle className="h-4 w-4" />
+              <span>Billing details saved</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground flex w-full items-center justify-center space-x-2 rounded-lg px-4 py-2 font-medium transition-colors disabled:opacity-50"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            <span>{isSaving ? 'Saving...' : 'Save Billing Details'}</span>
+          </button>
+        </form>
+      )}
+    </GlassCard>
+  );
+}
+
+export default BillingDetailsForm;
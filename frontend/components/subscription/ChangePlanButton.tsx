@@ -0,0 +1,359 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  X,
+  ArrowUpCircle,
+  ArrowDownCircle,
+  Loader2,
+  CheckCircle,
+  XCircle,
+  Users,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getPlanPrice, isTeamTier } from '@/lib/config/razorpayPlans';
+import type {
+  ChangePlanButtonProps,
+  PlanChangeOptions,
+  PlanChangeQuote,
+  SubscriptionTier,
+} from '@/types/subscription';
+import { formatCurrency, formatDate } from '@/types/subscription';
+
+const PAID_TIERS: Array<Exclude<SubscriptionTier, 'free'>> = [
+  'explorer',
+  'navigator',
+  'voyager',
+  'crew',
+  'fleet',
+  'armada',
+];
+
+const tierLabel = (tier: string) => tier.charAt(0).toUpperCase() + tier.slice(1);
+
+/**
+ * ChangePlanButton Component
+ *
+ * Lets a subscriber switch tier or seat count. The selection is quoted first
+ * (prorated charge for upgrades, effective date for downgrades) and only
+ * applied once confirmed.
+ */
+export function ChangePlanButton({
+  subscription,
+  isLoading = false,
+}: ChangePlanButtonProps): React.JSX.Element | null {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedTier, setSelectedTier] = useState<Exclude<SubscriptionTier, 'free'>>('navigator');
+  const [seats, setSeats] = useState(1);
+  const [quote, setQuote] = useState<PlanChangeQuote | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // Plans can only be changed on an active subscription
+  if (!subscription || subscription.status !== 'active') {
+    return null;
+  }
+
+  const billingCycle = subscription.billingCycle;
+  const isTeam = isTeamTier(selectedTier);
+
+  const handleOpenDialog = () => {
+    setIsDialogOpen(true);
+    setSelectedTier(
+      subscription.currentTier === 'free'
+        ? 'explorer'
+        : (subscription.currentTier as Exclude<SubscriptionTier, 'free'>)
+    );
+    setSeats(subscription.seats ?? 1);
+    setQuote(null);
+    setError(null);
+    setSuccessMessage(null);
+  };
+
+  const handleCloseDialog = () => {
+    if (isSubmitting) return;
+    setIsDialogOpen(false);
+  };
+
+  const submit = async (preview: boolean) => {
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    const options: PlanChangeOptions = {
+      tier: selectedTier,
+      ...(isTeam && { seats }),
+      preview,
+    };
+
+    try {
+      const response = await fetch('/api/subscriptions/change-plan', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(options),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to change plan');
+      }
+
+      if (preview) {
+        setQuote(result.data.quote);
+        return;
+      }
+
+      setSuccessMessage(result.data.message);
+
+      // Reload to show the new plan and limits
+      setTimeout(() => window.location.reload(), 2000);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      {/* Trigger Button */}
+      <motion.button
+        onClick={handleOpenDialog}
+        disabled={isLoading}
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        className={cn(
+          'bg-primary-600 hover:bg-primary-700 flex w-full items-center justify-center rounded-lg px-4 py-2 text-white transition-colors',
+          'disabled:cursor-not-allowed disabled:opacity-50'
+        )}
+      >
+        Change Plan
+      </motion.button>
+
+      <AnimatePresence>
+        {isDialogOpen && (
+          <>
+            {/* Backdrop */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="bg-opacity-50 fixed inset-0 z-50 flex items-center justify-center bg-black p-4"
+              onClick={handleCloseDialog}
+            />
+
+            {/* Dialog */}
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 20 }}
+              transition={{ type: 'spring', damping: 20, stiffness: 300 }}
+              className="fixed inset-0 z-50 flex items-center justify-center p-4"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="max-h-[90vh] w-full max-w-md overflow-y-auto rounded-xl bg-white shadow-2xl">
+                {successMessage ? (
+                  <div className="p-6 text-center">
+                    <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-green-100">
+                      <CheckCircle className="h-8 w-8 text-green-600" />
+                    </div>
+                    <h3 className="mb-2 text-xl font-bold text-gray-900">Plan Updated</h3>
+                    <p className="text-gray-600">{successMessage}</p>
+                  </div>
+                ) : (
+                  <>
+                    {/* Header */}
+                    <div className="flex items-center justify-between border-b border-gray-200 p-6">
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900">Change Plan</h3>
+                        <p className="text-sm text-gray-600">
+                          Current: {tierLabel(subscription.currentTier)}
+                          {isTeamTier(subscription.currentTier) &&
+                            ` · ${subscription.seats ?? 1} seats`}{' '}
+                          · billed {billingCycle}
+                        </p>
+                      </div>
+                      <button
+                        onClick={handleCloseDialog}
+                        disabled={isSubmitting}
+                        className="p-2 text-gray-400 transition-colors hover:text-gray-600 disabled:opacity-50"
+                      >
+                        <X className="h-5 w-5" />
+                      </button>
+                    </div>
+
+                    {/* Content */}
+                    <div className="space-y-6 p-6">
+                      {subscription.pendingPlanChange && (
+                        <div className="rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm text-orange-700">
+                          A change to {tierLabel(subscription.pendingPlanChange.tier)}
+                          {isTeamTier(subscription.pendingPlanChange.tier) &&
+                            ` (${subscription.pendingPlanChange.seats} seats)`}{' '}
+                          is scheduled for {formatDate(subscription.pendingPlanChange.effectiveAt)}.
+                          A new change replaces it.
+                        </div>
+                      )}
+
+                      {/* Tier Options */}
+                      <div className="space-y-2">
+                        <h4 className="font-medium text-gray-900">Choose a plan:</h4>
+                        {PAID_TIERS.map((tier) => (
+                          <label
+                            key={tier}
+                            className={cn(
+                              'flex cursor-pointer items-center justify-between rounded-lg border p-3 transition-all',
+                              selectedTier === tier
+                                ? 'border-primary-500 bg-primary-50 ring-primary-500 ring-opacity-20 ring-2'
+                                : 'border-gray-200 hover:border-gray-300'
+                            )}
+                          >
+                            <div className="flex items-center space-x-3">
+                              <input
+                                type="radio"
+                                name="plan-tier"
+                                value={tier}
+                                checked={selectedTier === tier}
+                                onChange={() => {
+                                  setSelectedTier(tier);
+                                  setQuote(null);
+                                }}
+                                disabled={isSubmitting}
+                              />
+                              <span className="font-medium text-gray-900">{tierLabel(tier)}</span>
+                            </div>
+                            <span className="text-sm text-gray-600">
+                              {formatCurrency(getPlanPrice(tier, billingCycle))}
+                              {isTeamTier(tier) && '/seat'}/{billingCycle}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+
+                      {/* Seats */}
+                      {isTeam && (
+                        <div>
+                          <label
+                            htmlFor="plan-seats"
+                            className="mb-2 flex items-center space-x-2 text-sm font-medium text-gray-700"
+                          >
+                            <Users className="h-4 w-4" />
+                            <span>Seats</span>
+                          </label>
+                          <input
+                            id="plan-seats"
+                            type="number"
+                            min={1}
+                            max={1000}
+                            value={seats}
+                            onChange={(e) => {
+                              setSeats(
+                                Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 1000)
+                              );
+                              setQuote(null);
+                            }}
+                            className="focus:ring-primary-500 focus:border-primary-500 w-full rounded-lg border border-gray-300 px-3 py-2 focus:ring-2"
+                            disabled={isSubmitting}
+                          />
+                        </div>
+                      )}
+
+                      {/* Quote */}
+                      {quote && (
+                        <div className="space-y-2 rounded-lg border border-gray-200 bg-gray-50 p-4 text-sm">
+                          <div className="flex items-center space-x-2 font-medium text-gray-900">
+                            {quote.direction === 'upgrade' ? (
+                              <ArrowUpCircle className="h-4 w-4 text-green-600" />
+                            ) : (
+                              <ArrowDownCircle className="h-4 w-4 text-orange-600" />
+                            )}
+                            <span>
+                              {quote.direction === 'upgrade' ? 'Upgrade' : 'Downgrade'} to{' '}
+                              {tierLabel(quote.target.tier)}
+                            </span>
+                          </div>
+                          <div className="flex justify-between text-gray-600">
+                            <span>New price</span>
+                            <span>
+                              {formatCurrency(quote.newCycleAmount)}/{quote.billingCycle}
+                            </span>
+                          </div>
+                          {quote.direction === 'upgrade' ? (
+                            <>
+                              <div className="flex justify-between text-gray-600">
+                                <span>Prorated charge for the rest of this cycle</span>
+                                <span className="font-medium text-gray-900">
+                                  {formatCurrency(quote.proratedAmount)}
+                                </span>
+                              </div>
+                              <p className="text-gray-500">
+                                New limits apply immediately. The prorated charge is added to your
+                                next invoice on {formatDate(quote.periodEnd)}.
+                              </p>
+                            </>
+                          ) : (
+                            <p className="text-gray-500">
+                              You keep your current plan and limits until{' '}
+                              {formatDate(quote.effectiveAt)}. No refund is issued for the current
+                              cycle.
+                            </p>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Error Display */}
+                      {error && (
+                        <motion.div
+                          initial={{ opacity: 0, y: -10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          className="rounded-lg border border-red-200 bg-red-50 p-3"
+                        >
+                          <div className="flex items-start space-x-2">
+                            <XCircle className="mt-0.5 h-4 w-4 text-red-600" />
+                            <p className="text-sm text-red-700">{error}</p>
+                          </div>
+                        </motion.div>
+                      )}
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex items-center justify-end space-x-3 border-t border-gray-200 bg-gray-50 p-6">
+                      <button
+                        onClick={handleCloseDialog}
+                        disabled={isSubmitting}
+                        className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => submit(!quote)}
+                        disabled={isSubmitting}
+                        className="bg-primary-600 hover:bg-primary-700 flex items-center space-x-2 rounded-lg px-4 py-2 font-medium text-white transition-all disabled:opacity-50"
+                      >
+                        {isSubmitting ? (
+                          <>
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            <span>{quote ? 'Updating...' : 'Calculating...'}</span>
+                          </>
+                        ) : (
+                          <span>{quote ? 'Confirm Change' : 'Review Change'}</span>
+                        )}
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
+
+export default ChangePlanButton;
@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, FileText, Loader2, XCircle } from 'lucide-react';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { cn } from '@/lib/utils';
+import type { Invoice } from '@/lib/services/invoiceService';
+import { formatCurrency, formatDate } from '@/types/subscription';
+
+const PAGE_SIZE = 10;
+
+/**
+ * InvoiceHistory Component
+ *
+ * Lists the user's GST invoices with their tax breakup and a PDF download
+ * for each one.
+ */
+export function InvoiceHistory(): React.JSX.Element {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadInvoices = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/billing/invoices?limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`
+        );
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load invoices');
+        }
+
+        setInvoices(result.invoices);
+        setTotal(result.total);
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : 'Failed to load invoices');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadInvoices();
+  }, [page]);
+
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  return (
+    <GlassCard className="overflow-hidden">
+      <div className="flex items-center space-x-2 border-b border-neutral-200 p-6">
+        <FileText className="text-text-secondary h-5 w-5" />
+        <h3 className="text-foreground text-lg font-semibold">Invoices</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="text-text-disabled h-6 w-6 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="text-error flex items-center space-x-2 p-6">
+          <XCircle className="h-4 w-4" />
+          <span className="text-sm">{error}</span>
+        </div>
+      ) : invoices.length === 0 ? (
+        <p className="text-text-secondary p-6 text-sm">
+          No invoices yet. An invoice is issued for every successful payment.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-surface text-text-secondary text-left">
+              <tr>
+                <th className="px-6 py-3 font-medium">Invoice</th>
+                <th className="px-6 py-3 font-medium">Date</th>
+                <th className="px-6 py-3 font-medium">Taxable value</th>
+                <th className="px-6 py-3 font-medium">GST</th>
+                <th className="px-6 py-3 font-medium">Total</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200">
+              {invoices.map((invoice) => {
+                const intraState = invoice.cgstAmount > 0 || invoice.sgstAmount > 0;
+                const tax = invoice.cgstAmount + invoice.sgstAmount + invoice.igstAmount;
+
+                return (
+                  <tr key={invoice.id}>
+                    <td className="px-6 py-4">
+                      <div className="text-foreground font-medium">{invoice.invoiceNumber}</div>
+                      <div className="text-text-disabled">{invoice.description}</div>
+                    </td>
+                    <td className="text-text-secondary px-6 py-4">
+                      {formatDate(invoice.issuedAt)}
+                    </td>
+                    <td className="text-text-secondary px-6 py-4">
+                      {formatCurrency(invoice.taxableAmount, invoice.currency)}
+                    </td>
+                    <td className="text-text-secondary px-6 py-4">
+                      {formatCurrency(tax, invoice.currency)}
+                      <div className="text-text-disabled text-xs">
+                        {intraState ? 'CGST + SGST' : 'IGST'} @ {invoice.taxRate}%
+                      </div>
+                    </td>
+                    <td className="text-foreground px-6 py-4 font-medium">
+                      {formatCurrency(invoice.totalAmount, invoice.currency)}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <a
+                        href={`/api/billing/invoices/${invoice.id}/pdf`}
+                        className="text-primary hover:text-primary/80 inline-flex items-center space-x-1 font-medium"
+                      >
+                        <Download className="h-4 w-4" />
+                        <span>PDF</span>
+                      </a>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="bg-surface flex items-center justify-between border-t border-neutral-200 px-6 py-3">
+          <div className="flex items-center space-x-2">
+            {[
+              { icon: ChevronLeft, target: page - 1, disabled: page === 0 },
+              { icon: ChevronRight, target: page + 1, disabled: page + 1 >= totalPages },
+            ].map(({ icon: Icon, target, disabled }) => (
+              <button
+                key={target}
+                onClick={() => setPage(target)}
+                disabled={disabled || isLoading}
+                className={cn(
+                  'rounded-lg border p-2 transition-colors',
+                  disabled
+                    ? 'bg-foreground/5 text-text-disabled cursor-not-allowed'
+                    : 'bg-background text-text-secondary hover:bg-foreground/5 border-neutral-300'
+                )}
+              >
+                <Icon className="h-4 w-4" />
+              </button>
+            ))}
+          </div>
+          <div className="text-text-secondary text-sm">
+            Page {page + 1} of {totalPages}
+          </div>
+        </div>
+      )}
+    </GlassCard>
+  );
+}
+
+export default InvoiceHistory;
@@ -9,6 +9,7 @@ import { GlassCard } from '@/components/ui/GlassCard';
 import SubscriptionInfo from '@/components/subscription/SubscriptionInfo';
 import PaymentHistory from '@/components/subscription/PaymentHistory';
 import CancelSubscriptionButton from '@/components/subscription/CancelSubscriptionButton';
+import ChangePlanButton from '@/components/subscription/ChangePlanButton';
 import { cn } from '@/lib/utils';
 import type { SubscriptionManagementPageProps } from '@/types/subscription';
 
@@ -178,13 +179,17 @@ function SubscriptionManagementContent({
                   />
 
                   {/* Other Actions */}
-                  <Link
-                    href="/pricing"
-                    className="bg-primary-600 hover:bg-primary-700 flex w-full items-center justify-center space-x-2 rounded-lg px-4 py-2 text-white transition-colors"
-                  >
-                    <Shield className="h-4 w-4" />
-                    <span>Change Plan</span>
-                  </Link>
+                  {subscription?.status === 'active' ? (
+                    <ChangePlanButton subscription={subscription} />
+                  ) : (
+                    <Link
+                      href="/pricing"
+                      className="bg-primary-600 hover:bg-primary-700 flex w-full items-center justify-center space-x-2 rounded-lg px-4 py-2 text-white transition-colors"
+                    >
+                      <Shield className="h-4 w-4" />
+                      <span>Change Plan</span>
+                    </Link>
+                  )}
 
                   <button className="flex w-full items-center justify-center space-x-2 rounded-lg border border-gray-300 px-4 py-2 text-gray-700 transition-colors hover:bg-gray-50">
                     <CreditCard className="h-4 w-4" />
@@ -285,12 +290,16 @@ function SubscriptionManagementContent({
             </div>
 
             <div className="grid grid-cols-2 gap-3">
-              <Link
-                href="/pricing"
-                className="bg-primary-600 hover:bg-primary-700 rounded-lg px-3 py-2 text-center text-sm text-white transition-colors"
-              >
-                Change Plan
-              </Link>
+              {subscription?.status === 'active' ? (
+                <ChangePlanButton subscription={subscription} />
+              ) : (
+                <Link
+                  href="/pricing"
+                  className="bg-primary-600 hover:bg-primary-700 rounded-lg px-3 py-2 text-center text-sm text-white transition-colors"
+                >
+                  Change Plan
+                </Link>
+              )}
 
               <button className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 transition-colors hover:bg-gray-50">
                 Update Payment
@@ -87,8 +87,13 @@ const eslintConfig = [
           ],
         },
       ],
-
-      // Warn about specific style properties
+    },
+  },
+  // Inline style properties: only components have `style` props, other code (e.g. the
+  // presentation export) may name plain values `style`
+  {
+    files: ['**/*.{jsx,tsx}'],
+    rules: {
       'no-restricted-properties': [
         'warn',
         {
@@ -21,6 +21,7 @@ import {
   FallbackStrategy as FallbackConfig,
 } from './providerConfig';
 import { getCircuitBreaker, CircuitState } from './circuitBreaker';
+import { getHealthMonitor } from './healthMonitor';
 
 /**
  * Error categories for determining retry behavior
@@ -118,6 +119,26 @@ export interface FallbackResult<T> {
 export function categorizeError(error: Error, provider: ProviderType): CategorizedError {
   const message = error.message.toLowerCase();
 
+  // Prefer the HTTP status when the client attached one (e.g. ClaudeApiError)
+  const statusCode = (error as { statusCode?: number }).statusCode;
+  if (typeof statusCode === 'number') {
+    if (statusCode === 429) {
+      return new CategorizedError('Rate limit exceeded', ErrorCategory.RATE_LIMIT, provider, error);
+    }
+    if (statusCode === 408) {
+      return new CategorizedError('Request timeout', ErrorCategory.TIMEOUT, provider, error);
+    }
+    if (statusCode === 401 || statusCode === 403) {
+      return new CategorizedError('Authentication failed', ErrorCategory.AUTH, provider, error);
+    }
+    if (statusCode >= 500) {
+      return new CategorizedError('Server error', ErrorCategory.TRANSIENT, provider, error);
+    }
+    if (statusCode >= 400) {
+      return new CategorizedError('Invalid request', ErrorCategory.PERMANENT, provider, error);
+    }
+  }
+
   // Rate limit errors
   if (
     message.includes('rate limit') ||
@@ -211,15 +232,18 @@ function sleep(ms: number): Promise<void> {
 
 /**
  * Execute operation with fallback cascade and retry logic
+ * Every attempt is recorded with the circuit breaker and health monitor, and
+ * the outcome with the stats tracker
  */
 export async function executeWithFallback<T>(
   operation: (provider: ModelConfig) => Promise<T>,
-  config: FallbackConfig = DEFAULT_FALLBACK_STRATEGY
+  config: FallbackConfig = DEFAULT_FALLBACK_STRATEGY,
+  providers: ModelConfig[] = getEnabledProviders()
 ): Promise<FallbackResult<T>> {
   const startTime = Date.now();
   const attempts: RetryAttempt[] = [];
-  const providers = getEnabledProviders();
   const circuitBreaker = getCircuitBreaker();
+  const healthMonitor = getHealthMonitor();
 
   let lastError: CategorizedError | undefined;
   let providerIndex = 0;
@@ -263,6 +287,7 @@ export async function executeWithFallback<T>(
 
         // Success!
         circuitBreaker.recordSuccess(providerId);
+        healthMonitor.recordRequest(providerId, true, responseTimeMs);
 
         attempts.push({
           attempt: attempts.length,
@@ -273,7 +298,7 @@ export async function executeWithFallback<T>(
           responseTimeMs,
         });
 
-        return {
+        const fallbackResult: FallbackResult<T> = {
           success: true,
           data: result,
           successfulProvider: providerId,
@@ -281,11 +306,20 @@ export async function executeWithFallback<T>(
           totalTimeMs: Date.now() - startTime,
           providersTried: providerIndex + 1,
         };
+        getStatsTracker().track(fallbackResult);
+
+        return fallbackResult;
       } catch (error) {
         const responseTimeMs = Date.now() - attemptStart;
         const categorizedError = categorizeError(error as Error, providerId);
 
         circuitBreaker.recordFailure(providerId, categorizedError);
+        healthMonitor.recordRequest(
+          providerId,
+          false,
+          responseTimeMs,
+          `${categorizedError.category}: ${(error as Error).message}`
+        );
 
         attempts.push({
           attempt: attempts.length,
@@ -332,7 +366,7 @@ export async function executeWithFallback<T>(
   }
 
   // All providers failed
-  return {
+  const failedResult: FallbackResult<T> = {
     success: false,
     error:
       lastError ||
@@ -345,6 +379,9 @@ export async function executeWithFallback<T>(
     totalTimeMs: Date.now() - startTime,
     providersTried: providerIndex,
   };
+  getStatsTracker().track(failedResult);
+
+  return failedResult;
 }
 
 /**
@@ -0,0 +1,384 @@
+/**
+ * Provider Gateway
+ *
+ * Single entry point for LLM text generation. Every request runs through the
+ * fallback cascade, so circuit breaker state, provider health metrics and
+ * fallback statistics cover all generation call sites.
+ *
+ * Providers are only part of the cascade when they are configured:
+ * - Claude (Sonnet 4.5, Opus 4): ANTHROPIC_API_KEY
+ * - Ollama: OLLAMA_BASE_URL (any server speaking the Ollama chat API)
+ *
+ * @module lib/ai-sdk/gateway
+ */
+
+import { ClaudeClient } from '../claude/client';
+import { isClaudeConfigured } from '../claude/config';
+import {
+  DEFAULT_FALLBACK_STRATEGY,
+  ModelConfig,
+  ProviderTransport,
+  ProviderType,
+  getEnabledProviders,
+} from './providerConfig';
+import {
+  ErrorCategory,
+  FallbackStats,
+  RetryAttempt,
+  executeWithFallback,
+  getStatsTracker,
+} from './fallbackStrategy';
+import { HealthStatus, ProviderHealthMetrics, getHealthMonitor } from './healthMonitor';
+import {
+  recordLlmUsage,
+  type LlmUsageContext,
+  type LlmUsageEntry,
+} from '../services/llmUsageService';
+
+/**
+ * A single generation request
+ */
+export interface GatewayRequest {
+  /** System prompt */
+  system: string;
+
+  /** User message */
+  prompt: string;
+
+  /** Overrides the provider's default max tokens */
+  maxTokens?: number;
+
+  /** Overrides the provider's default temperature */
+  temperature?: number;
+
+  /** Overrides the provider's default request timeout (milliseconds) */
+  timeoutMs?: number;
+
+  /** Attempts per provider before moving down the cascade */
+  maxRetries?: number;
+
+  /** Bills each completed call to a user in the usage ledger */
+  usage?: LlmUsageContext;
+}
+
+/**
+ * Raw completion returned by a provider transport
+ */
+export interface ProviderCompletion {
+  text: string;
+  model: string;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Successful gateway result
+ */
+export interface GatewayResponse<T = string> extends ProviderCompletion {
+  /** Parsed output (the raw text when no parser is given) */
+  data: T;
+
+  /** Provider that produced the completion */
+  provider: ProviderType;
+
+  /** Whether a provider other than the first available one answered */
+  fallbackUsed: boolean;
+
+  /** Total attempts across all providers */
+  attempts: number;
+
+  /** Total time including retries and backoff (ms) */
+  durationMs: number;
+}
+
+/**
+ * Raised when no provider could produce a usable completion
+ */
+export class ProviderGatewayError extends Error {
+  constructor(
+    message: string,
+    public readonly category: ErrorCategory,
+    public readonly attempts: RetryAttempt[] = []
+  ) {
+    super(message);
+    this.name = 'ProviderGatewayError';
+  }
+}
+
+export type ProviderTransportFn = (
+  config: ModelConfig,
+  request: GatewayRequest
+) => Promise<ProviderCompletion>;
+
+export type UsageRecorder = (entry: LlmUsageEntry) => Promise<void>;
+
+/**
+ * Anthropic Messages API transport
+ * Retries are left to the cascade; the client only handles truncation
+ */
+export async function callAnthropic(
+  config: ModelConfig,
+  request: GatewayRequest
+): Promise<ProviderCompletion> {
+  const client = new ClaudeClient({
+    baseUrl: config.baseUrl,
+    timeout: request.timeoutMs ?? config.timeout,
+    retries: 0,
+  });
+
+  const response = await client.generate({
+    model: config.model,
+    system: request.system,
+    messages: [{ role: 'user', content: request.prompt }],
+    max_tokens: request.maxTokens ?? config.maxTokens,
+    temperature: request.temperature ?? config.temperature,
+  });
+
+  return {
+    text: ClaudeClient.extractText(response),
+    model: response.model,
+    usage: {
+      input_tokens: response.usage.input_tokens,
+      output_tokens: response.usage.output_tokens,
+    },
+  };
+}
+
+/**
+ * Ollama chat API transport (non-streaming)
+ */
+export async function callOllama(
+  config: ModelConfig,
+  request: GatewayRequest
+): Promise<ProviderCompletion> {
+  const timeout = request.timeoutMs ?? config.timeout;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(`${config.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        stream: false,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        options: {
+          temperature: request.temperature ?? config.temperature,
+          num_predict: request.maxTokens ?? config.maxTokens,
+        },
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`Ollama API error: HTTP ${response.status} ${errorText}`.trim());
+    }
+
+    const data = (await response.json()) as {
+      model?: string;
+      message?: { content?: string };
+      prompt_eval_count?: number;
+      eval_count?: number;
+    };
+
+    return {
+      text: data.message?.content ?? '',
+      model: data.model || config.model,
+      usage: {
+        input_tokens: data.prompt_eval_count ?? 0,
+        output_tokens: data.eval_count ?? 0,
+      },
+    };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Ollama request timeout after ${timeout}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+const DEFAULT_TRANSPORTS: Record<ProviderTransport, ProviderTransportFn> = {
+  anthropic: callAnthropic,
+  ollama: callOllama,
+};
+
+/**
+ * Whether a provider has the credentials or endpoint it needs
+ */
+export function isProviderAvailable(config: ModelConfig): boolean {
+  switch (config.transport) {
+    case 'anthropic':
+      return isClaudeConfigured();
+    case 'ollama':
+      return Boolean(process.env.OLLAMA_BASE_URL?.trim());
+  }
+}
+
+/**
+ * Provider Gateway
+ */
+export class ProviderGateway {
+  private transports: Record<ProviderTransport, ProviderTransportFn>;
+  private recordUsage: UsageRecorder;
+
+  constructor(
+    transports: Partial<Record<ProviderTransport, ProviderTransportFn>> = {},
+    recordUsage: UsageRecorder = recordLlmUsage
+  ) {
+    this.transports = { ...DEFAULT_TRANSPORTS, ...transports };
+    this.recordUsage = recordUsage;
+  }
+
+  /**
+   * Generate a completion through the cascade
+   *
+   * When `parse` is given it runs inside each attempt, so malformed output
+   * counts as a provider failure and moves the request down the cascade.
+   * With `request.usage` set, every completion (usable or not) is written to
+   * the usage ledger.
+   *
+   * @throws {ProviderGatewayError} If no provider is configured or all fail
+   */
+  async generate<T = string>(
+    request: GatewayRequest,
+    parse?: (text: string) => T
+  ): Promise<GatewayResponse<T>> {
+    const providers = getEnabledProviders().filter(isProviderAvailable);
+
+    if (providers.length === 0) {
+      throw new ProviderGatewayError(
+        'No AI provider configured. Set ANTHROPIC_API_KEY or OLLAMA_BASE_URL.',
+        ErrorCategory.AUTH
+      );
+    }
+
+    const result = await executeWithFallback(
+      async (provider) => {
+        const callStart = Date.now();
+        const completion = await this.transports[provider.transport](provider, request);
+        const latencyMs = Date.now() - callStart;
+
+        let data: T;
+        try {
+          data = parse ? parse(completion.text) : (completion.text as T);
+        } catch (error) {
+          await this.record(request, provider, completion, latencyMs, false);
+          throw error;
+        }
+
+        await this.record(request, provider, completion, latencyMs, true);
+        return { completion, data };
+      },
+      {
+        ...DEFAULT_FALLBACK_STRATEGY,
+        maxRetries: request.maxRetries ?? DEFAULT_FALLBACK_STRATEGY.maxRetries,
+      },
+      providers
+    );
+
+    if (!result.success || !result.data || !result.successfulProvider) {
+      const cause = result.error?.originalError?.message || result.error?.message;
+      throw new ProviderGatewayError(
+        `All AI providers failed${cause ? `: ${cause}` : ''}`,
+        result.error?.category ?? ErrorCategory.UNKNOWN,
+        result.attempts
+      );
+    }
+
+    return {
+      ...result.data.completion,
+      data: result.data.data,
+      provider: result.successfulProvider,
+      fallbackUsed: result.successfulProvider !== providers[0].id,
+      attempts: result.attempts.length,
+      durationMs: result.totalTimeMs,
+    };
+  }
+
+  private async record(
+    request: GatewayRequest,
+    provider: ModelConfig,
+    completion: ProviderCompletion,
+    latencyMs: number,
+    success: boolean
+  ): Promise<void> {
+    if (!request.usage) return;
+
+    await this.recordUsage({
+      ...request.usage,
+      provider: provider.id,
+      model: completion.model,
+      inputTokens: completion.usage.input_tokens,
+      outputTokens: completion.usage.output_tokens,
+      latencyMs,
+      success,
+    });
+  }
+}
+
+/**
+ * Provider status for the admin monitoring dashboard
+ */
+export interface ProviderDashboard {
+  providers: Array<
+    ProviderHealthMetrics & {
+      name: string;
+      model: string;
+      priority: number;
+      available: boolean;
+    }
+  >;
+  overallHealth: HealthStatus;
+  fallback: FallbackStats;
+}
+
+/**
+ * Snapshot of the cascade: per-provider health and circuit state (in
+ * priority order) plus fallback statistics for this server instance
+ */
+export function getProviderDashboard(): ProviderDashboard {
+  const health = getHealthMonitor().getDashboardData();
+
+  return {
+    providers: getEnabledProviders().map((config) => ({
+      ...getHealthMonitor().getMetrics(config.id),
+      name: config.name,
+      model: config.model,
+      priority: config.priority,
+      available: isProviderAvailable(config),
+    })),
+    overallHealth: health.summary.overallHealth,
+    fallback: getStatsTracker().getStats(),
+  };
+}
+
+/**
+ * Singleton gateway instance
+ */
+let gatewayInstance: ProviderGateway | null = null;
+
+/**
+ * Get the global provider gateway
+ */
+export function getProviderGateway(): ProviderGateway {
+  if (!gatewayInstance) {
+    gatewayInstance = new ProviderGateway();
+  }
+  return gatewayInstance;
+}
+
+/**
+ * Reset the global gateway instance (for testing)
+ */
+export function resetProviderGatewayInstance(): void {
+  gatewayInstance = null;
+}
@@ -2,16 +2,14 @@
  * Provider Configuration Module
  *
  * Centralized configuration for AI providers with triple-fallback support:
- * 1. Claude Sonnet 4 (Primary) - Cost-effective, fast
+ * 1. Claude Sonnet 4.5 (Primary) - Cost-effective, fast
  * 2. Claude Opus 4 (Fallback) - More capable, handles complex scenarios
  * 3. Ollama Qwen3 (Emergency) - Local fallback, offline support
  *
  * @module lib/ai-sdk/providerConfig
  */
 
-import { anthropic } from '@ai-sdk/anthropic';
-import { ollama } from 'ollama-ai-provider';
-import { getValidatedEnv } from '../utils/environmentValidation';
+import { getClaudeConfig } from '../claude/config';
 
 /**
  * Supported AI provider types
@@ -22,6 +20,13 @@ export enum ProviderType {
   OLLAMA_QWEN3 = 'ollama-qwen3',
 }
 
+/**
+ * Wire protocol used to reach a provider
+ * - anthropic: Anthropic Messages API
+ * - ollama: Ollama chat API (or any server that speaks it)
+ */
+export type ProviderTransport = 'anthropic' | 'ollama';
+
 /**
  * Model configuration interface
  * Defines all parameters needed to configure an AI model provider
@@ -51,8 +56,11 @@ export interface ModelConfig {
   /** Whether this provider is enabled */
   enabled: boolean;
 
-  /** Provider-specific configuration */
-  provider: ReturnType<typeof anthropic> | ReturnType<typeof ollama>;
+  /** Wire protocol for this provider */
+  transport: ProviderTransport;
+
+  /** API base URL (no trailing slash) */
+  baseUrl: string;
 }
 
 /**
@@ -97,26 +105,24 @@ export const DEFAULT_FALLBACK_STRATEGY: FallbackStrategy = {
  * @returns Array of model configurations in priority order
  */
 export function createProviderConfigs(): ModelConfig[] {
-  const env = getValidatedEnv();
-
-  // Use placeholder values if running client-side
-  const anthropicKey = env?.ANTHROPIC_API_KEY || 'placeholder';
-  const ollamaUrl = env?.OLLAMA_BASE_URL || 'http://localhost:11434';
+  const anthropicUrl = getClaudeConfig().baseUrl;
+  const ollamaUrl = (process.env.OLLAMA_BASE_URL || 'http://localhost:11434')
+    .trim()
+    .replace(/\/$/, '');
 
   return [
-    // Primary: Claude Sonnet 4 - Cost-effective, fast responses
+    // Primary: Claude Sonnet 4.5 - Cost-effective, fast responses
     {
       id: ProviderType.CLAUDE_SONNET_4,
-      name: 'Claude Sonnet 4',
-      model: 'claude-sonnet-4-20250514',
+      name: 'Claude Sonnet 4.5',
+      model: 'claude-sonnet-4-5',
       maxTokens: 12000,
       temperature: 0.2,
       timeout: 60000, // 60 seconds
       priority: 1,
       enabled: true,
-      provider: anthropic({
-        apiKey: anthropicKey,
-      }),
+      transport: 'anthropic',
+      baseUrl: anthropicUrl,
     },
 
     // Fallback: Claude Opus 4 - More capable, handles complex scenarios
@@ -129,24 +135,22 @@ export function createProviderConfigs(): ModelConfig[] {
       timeout: 90000, // 90 seconds
       priority: 2,
       enabled: true,
-      provider: anthropic({
-        apiKey: anthropicKey,
-      }),
+      transport: 'anthropic',
+      baseUrl: anthropicUrl,
     },
 
     // Emergency: Ollama Qwen3 - Local fallback, offline support
     {
       id: ProviderType.OLLAMA_QWEN3,
       name: 'Ollama Qwen3',
-      model: 'qwen3:32b',
+      model: (process.env.OLLAMA_MODEL || 'qwen3:32b').trim(),
       maxTokens: 12000,
       temperature: 0.2,
       timeout: 120000, // 120 seconds
       priority: 3,
       enabled: true,
-      provider: ollama({
-        baseURL: ollamaUrl,
-      }),
+      transport: 'ollama',
+      baseUrl: ollamaUrl,
     },
   ];
 }
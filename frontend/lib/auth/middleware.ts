@@ -11,6 +11,7 @@
 import { NextRequest } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import type { User } from '@supabase/supabase-js';
+import { getVerifiedUser } from '@/lib/auth/twoFactor';
 
 // ============================================================================
 // Types
@@ -42,7 +43,7 @@ export async function requireAuth(request: NextRequest): Promise<AuthResult> {
     const {
       data: { user },
       error,
-    } = await supabase.auth.getUser();
+    } = await getVerifiedUser(supabase);
 
     if (error) {
       return {
@@ -227,7 +228,7 @@ export async function optionalAuth(
     const {
       data: { user },
       error,
-    } = await supabase.auth.getUser();
+    } = await getVerifiedUser(supabase);
 
     if (error) {
       return {
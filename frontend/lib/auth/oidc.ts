@@ -0,0 +1,258 @@
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey } from 'crypto';
+
+/**
+ * OpenID Connect authorization code flow (with PKCE) for enterprise SSO
+ * connections. Supabase Auth has no generic OIDC provider, so the server
+ * talks to the IdP itself and verifies the ID token before signing the user in.
+ */
+
+const DISCOVERY_CACHE_TTL_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+const SIGNATURE_ALGORITHMS: Record<string, { hash: string; ecdsa?: boolean }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  ES256: { hash: 'sha256', ecdsa: true },
+  ES384: { hash: 'sha384', ecdsa: true },
+};
+
+const discoveryCache = new Map<string, { metadata: OidcProviderMetadata; fetchedAt: number }>();
+
+export function createRandomToken(bytes: number = 32): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+export function createCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Fetch the IdP's discovery document, cached for a few minutes per issuer
+ */
+export async function discoverOidcProvider(issuer: string): Promise<OidcProviderMetadata> {
+  const normalizedIssuer = issuer.replace(/\/+$/, '');
+  const cached = discoveryCache.get(normalizedIssuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const response = await fetch(`${normalizedIssuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with status ${response.status}`);
+  }
+
+  const metadata = (await response.json()) as OidcProviderMetadata;
+  if (metadata.issuer?.replace(/\/+$/, '') !== normalizedIssuer) {
+    throw new Error('OIDC discovery returned a different issuer');
+  }
+
+  discoveryCache.set(normalizedIssuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+export function buildAuthorizationUrl(
+  metadata: OidcProviderMetadata,
+  params: {
+    clientId: string;
+    redirectUri: string;
+    scopes: string;
+    state: string;
+    nonce: string;
+    codeChallenge: string;
+    loginHint?: string;
+  }
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', params.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', params.scopes);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', params.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (params.loginHint) {
+    url.searchParams.set('login_hint', params.loginHint);
+  }
+  return url.toString();
+}
+
+/**
+ * Trade the authorization code for tokens and return the ID token
+ */
+export async function exchangeAuthorizationCode(
+  metadata: OidcProviderMetadata,
+  params: {
+    clientId: string;
+    clientSecret: string | null;
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+  }
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    client_id: params.clientId,
+    code_verifier: params.codeVerifier,
+  });
+  if (params.clientSecret) {
+    body.set('client_secret', params.clientSecret);
+  }
+
+  const response = await fetch(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body,
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || typeof data.id_token !== 'string') {
+    throw new Error(
+      `OIDC token exchange failed: ${data.error_description || data.error || response.status}`
+    );
+  }
+
+  return data.id_token;
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+}
+
+/**
+ * Check the ID token's signature against the IdP's keys and return its claims
+ * (not yet validated)
+ */
+export function verifyIdTokenSignature(idToken: string, keys: Jwk[]): IdTokenClaims {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed ID token');
+  }
+
+  const [encodedHeader, encodedClaims, encodedSignature] = parts;
+  const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader);
+  const algorithm = header.alg ? SIGNATURE_ALGORITHMS[header.alg] : undefined;
+  if (!algorithm) {
+    throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+
+  const candidates = keys.filter(
+    (key) => (!header.kid || key.kid === header.kid) && (!key.use || key.use === 'sig')
+  );
+
+  const signingInput = Buffer.from(`${encodedHeader}.${encodedClaims}`);
+  const signature = Buffer.from(encodedSignature, 'base64url');
+
+  const valid = candidates.some((jwk) => {
+    try {
+      const key = createPublicKey({ key: jwk, format: 'jwk' });
+      return verify(
+        algorithm.hash,
+        signingInput,
+        algorithm.ecdsa ? { key, dsaEncoding: 'ieee-p1363' } : key,
+        signature
+      );
+    } catch {
+      return false;
+    }
+  });
+
+  if (!valid) {
+    throw new Error('ID token signature is invalid');
+  }
+
+  return decodeSegment<IdTokenClaims>(encodedClaims);
+}
+
+/**
+ * Validate issuer, audience, expiry and nonce of verified ID token claims
+ */
+export function validateIdTokenClaims(
+  claims: IdTokenClaims,
+  expected: { issuer: string; clientId: string; nonce: string },
+  now: number = Date.now()
+): void {
+  const nowSeconds = Math.floor(now / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss?.replace(/\/+$/, '') !== expected.issuer.replace(/\/+$/, '')) {
+    throw new Error('ID token issuer does not match');
+  }
+  if (!audiences.includes(expected.clientId)) {
+    throw new Error('ID token audience does not match');
+  }
+  if (audiences.length > 1 && claims.azp && claims.azp !== expected.clientId) {
+    throw new Error('ID token authorized party does not match');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < nowSeconds) {
+    throw new Error('ID token has expired');
+  }
+  if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > nowSeconds) {
+    throw new Error('ID token was issued in the future');
+  }
+  if (claims.nonce !== expected.nonce) {
+    throw new Error('ID token nonce does not match');
+  }
+  if (!claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+}
+
+export async function verifyIdToken(
+  idToken: string,
+  metadata: OidcProviderMetadata,
+  expected: { clientId: string; nonce: string }
+): Promise<IdTokenClaims> {
+  const response = await fetch(metadata.jwks_uri);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch OIDC signing keys: ${response.status}`);
+  }
+  const { keys } = (await response.json()) as { keys: Jwk[] };
+
+  const claims = verifyIdTokenSignature(idToken, keys ?? []);
+  validateIdTokenClaims(claims, { ...expected, issuer: metadata.issuer });
+  return claims;
+}
+
+/** Cookie that carries the PKCE verifier, state and nonce across the IdP redirect */
+export const OIDC_LOGIN_COOKIE = 'sso_oidc_login';
+export const OIDC_LOGIN_COOKIE_MAX_AGE = 10 * 60;
+
+export interface OidcLoginState {
+  connectionId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirect: string | null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Post-sign-in redirect targets. The ?redirect= value is user controlled and
+ * is carried through the SSO login cookie, so only same-origin paths are
+ * followed; anything else (`//evil.com`, `/\evil.com`, `@evil.com`, full
+ * URLs) falls back to the home page.
+ */
+export function safeRedirectUrl(origin: string, redirect: string | null): string {
+  let path = '/';
+  if (redirect) {
+    try {
+      path = decodeURIComponent(redirect);
+    } catch {
+      path = '/';
+    }
+  }
+
+  if (!path.startsWith('/') || path.startsWith('//') || path.startsWith('/\\')) {
+    return `${origin}/`;
+  }
+
+  // Browsers drop tabs and newlines, so `/\t/evil.com` would still leave the site
+  const url = new URL(path, origin);
+  return url.origin === origin ? url.toString() : `${origin}/`;
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import {
+  RATE_LIMIT_CONFIGS,
+  isRateLimited,
+  rateLimitMiddleware,
+  sharePasswordRateLimitKey,
+} from '@/lib/middleware/rateLimiting';
+import {
+  ShareLinkService,
+  evaluateShareAccess,
+  type ResolvedShareLink,
+  type ShareAccessDenial,
+} from '@/lib/services/shareLinkService';
+
+/**
+ * Access checks for public share links, used by the share API routes
+ */
+
+const DENIAL_RESPONSES: Record<
+  ShareAccessDenial,
+  { status: number; error: string; passwordRequired?: boolean }
+> = {
+  revoked: { status: 404, error: 'Blueprint not found or sharing is disabled' },
+  expired: { status: 410, error: 'This share link has expired' },
+  password_required: {
+    status: 401,
+    error: 'This blueprint is password protected',
+    passwordRequired: true,
+  },
+  invalid_password: { status: 401, error: 'Incorrect password', passwordRequired: true },
+};
+
+const recordWrongPassword = rateLimitMiddleware(RATE_LIMIT_CONFIGS.SHARE_PASSWORD);
+
+/**
+ * Resolve a share token and check expiry, revocation and password.
+ * The password is sent in the x-share-password header. Wrong passwords are
+ * counted per link and IP, and guessing is locked out once the limit is hit.
+ */
+export async function authorizeShareRequest(
+  req: NextRequest,
+  token: string
+): Promise<{ link: ResolvedShareLink } | { response: NextResponse }> {
+  const supabase = getSupabaseAdminClient();
+  const link = await ShareLinkService.resolveLink(supabase, token);
+
+  if (!link) {
+    return {
+      response: NextResponse.json(
+        { error: 'Blueprint not found or sharing is disabled' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  const password = req.headers.get('x-share-password');
+  if (link.passwordHash && password) {
+    const limit = isRateLimited(sharePasswordRateLimitKey(req), RATE_LIMIT_CONFIGS.SHARE_PASSWORD);
+    if (limit.remaining === 0) {
+      return {
+        response: NextResponse.json(
+          {
+            error: RATE_LIMIT_CONFIGS.SHARE_PASSWORD.message,
+            passwordRequired: true,
+          },
+          { status: 429, headers: { 'Retry-After': String(limit.resetTimeSeconds) } }
+        ),
+      };
+    }
+  }
+
+  const denial = evaluateShareAccess(link, password);
+  if (denial === 'invalid_password') {
+    await recordWrongPassword(req);
+  }
+  if (denial) {
+    const { status, ...body } = DENIAL_RESPONSES[denial];
+    return { response: NextResponse.json(body, { status }) };
+  }
+
+  return { link };
+}
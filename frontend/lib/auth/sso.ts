@@ -0,0 +1,39 @@
+/**
+ * Browser helpers for enterprise SSO sign-in. The flows themselves run on the
+ * server (/api/auth/sso and /auth/callback).
+ */
+
+export interface SsoDiscovery {
+  sso: boolean;
+  enforced: boolean;
+  name?: string;
+}
+
+/** Error codes /api/auth/sso and /auth/callback send back to /login */
+export const SSO_ERROR_MESSAGES: Record<string, string> = {
+  sso_not_configured: 'Single sign-on is not set up for this email domain.',
+  sso_failed: 'Single sign-on failed. Please try again or contact your administrator.',
+};
+
+export async function discoverSso(email: string): Promise<SsoDiscovery> {
+  try {
+    const response = await fetch(`/api/auth/sso/discover?email=${encodeURIComponent(email)}`);
+    return (await response.json()) as SsoDiscovery;
+  } catch {
+    return { sso: false, enforced: false };
+  }
+}
+
+/**
+ * Send the browser to the SSO flow for this email, keeping the ?redirect=
+ * target of the current page
+ */
+export function startSsoSignIn(email: string): void {
+  const url = new URL('/api/auth/sso', window.location.origin);
+  url.searchParams.set('email', email);
+  const redirect = new URLSearchParams(window.location.search).get('redirect');
+  if (redirect) {
+    url.searchParams.set('redirect', redirect);
+  }
+  window.location.href = url.toString();
+}
@@ -0,0 +1,64 @@
+import type {
+  AuthError,
+  AuthenticatorAssuranceLevels,
+  SupabaseClient,
+  User,
+} from '@supabase/supabase-js';
+
+/**
+ * Assurance level checks for TOTP two-factor authentication. Kept free of
+ * Node APIs so the middleware can use them on the edge runtime.
+ */
+
+export interface AssuranceLevel {
+  currentLevel: AuthenticatorAssuranceLevels | null;
+  nextLevel: AuthenticatorAssuranceLevels | null;
+}
+
+/**
+ * True when the user has a verified factor but this session only passed the
+ * password step, so they still owe a code
+ */
+export function needsSecondFactor(level: AssuranceLevel): boolean {
+  return level.nextLevel === 'aal2' && level.currentLevel !== 'aal2';
+}
+
+/**
+ * Read the session's assurance level. The level comes from the session JWT,
+ * so this makes no network request.
+ */
+export async function getAssuranceLevel(
+  supabase: Pick<SupabaseClient, 'auth'>
+): Promise<AssuranceLevel> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+  if (error || !data) {
+    return { currentLevel: null, nextLevel: null };
+  }
+
+  return { currentLevel: data.currentLevel, nextLevel: data.nextLevel };
+}
+
+/**
+ * `auth.getUser()` for server code that authenticates a request: the user
+ * is only returned once the session has passed every factor they have, so a
+ * password-only session of a user with two-factor gets no user back.
+ */
+export async function getVerifiedUser(
+  supabase: Pick<SupabaseClient, 'auth'>
+): Promise<{ data: { user: User | null }; error: AuthError | null }> {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return { data: { user: null }, error };
+  }
+
+  if (needsSecondFactor(await getAssuranceLevel(supabase))) {
+    return { data: { user: null }, error: null };
+  }
+
+  return { data: { user }, error: null };
+}
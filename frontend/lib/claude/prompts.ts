@@ -3,6 +3,12 @@
  * Strict prompt formatting according to PRD specifications
  */
 
+import { formatMaterialsForPrompt, type CourseMaterialsContext } from '@/lib/materials/context';
+import {
+  formatSectionGuidanceForPrompt,
+  type SectionGuidance,
+} from '@/lib/prompts/sectionGuidance';
+
 export interface BlueprintContext {
   blueprintId: string;
   userId: string;
@@ -12,6 +18,10 @@ export interface BlueprintContext {
   role: string;
   industry: string;
   learningObjectives: string[];
+  /** Existing course materials, set for adapt/hybrid content strategies */
+  materials?: CourseMaterialsContext | null;
+  /** Sections users have recently rated poorly, used as negative guidance */
+  sectionGuidance?: SectionGuidance[] | null;
 }
 
 /**
@@ -129,7 +139,26 @@ ${compactDynamicAnswers}
 
 OBJECTIVES:
 ${context.learningObjectives.slice(0, 5).join('; ')}
+${
+  context.materials
+    ? `
+EXISTING COURSE MATERIALS:
+${formatMaterialsForPrompt(context.materials)}
 
+In content_outline and resources, state which modules reuse or adapt these materials and which need new development, and budget the adaptation work.
+`
+    : ''
+}
+${
+  context.sectionGuidance && context.sectionGuidance.length > 0
+    ? `
+SECTIONS USERS RECENTLY RATED POORLY:
+${formatSectionGuidanceForPrompt(context.sectionGuidance)}
+
+Take extra care over the quality, specificity and realism of the listed sections. This is aggregated quality guidance from other blueprints, not information about this organization.
+`
+    : ''
+}
 ${
   isTest
     ? `
@@ -396,6 +425,62 @@ CRITICAL REQUIREMENTS:
     .replace('{{CURRENT_DATE_PLUS_45_DAYS}}', futureDate);
 }
 
+export interface SectionRegenerationContext extends BlueprintContext {
+  sectionId: string;
+  instruction: string;
+  blueprint: Record<string, unknown>;
+}
+
+/**
+ * System prompt for regenerating a single blueprint section
+ */
+export const SECTION_REGENERATION_SYSTEM_PROMPT = `You are an expert Learning Experience Designer revising one section of an existing learning blueprint.
+
+OUTPUT REQUIREMENTS:
+CRITICAL: Your response must be PURE JSON. Do NOT wrap your response in markdown code blocks.
+Return a single object of the form { "<section_id>": { ...section content... } } and nothing else.
+
+1. Rewrite ONLY the requested section; keep it consistent with the rest of the blueprint
+2. Follow the user's instruction precisely, even where it changes numbers, scope or tone
+3. Preserve the section's existing field names and data shapes so it renders in the same infographic
+4. Keep the section's "displayType" unless the instruction requires a different visualization
+5. Use specific, quantitative content (no generic advice)`;
+
+/**
+ * Build user prompt for regenerating a single section
+ * Sends the full blueprint for consistency plus the questionnaire answers
+ */
+export function buildSectionRegenerationPrompt(context: SectionRegenerationContext): string {
+  const currentSection = context.blueprint[context.sectionId];
+  const otherSections = Object.fromEntries(
+    Object.entries(context.blueprint).filter(
+      ([key]) => key !== context.sectionId && !key.startsWith('_')
+    )
+  );
+
+  return `Regenerate the "${context.sectionId}" section of this learning blueprint.
+
+CONTEXT:
+Organization: ${context.organization} | Industry: ${context.industry} | Role: ${context.role}
+
+STATIC ANSWERS (Phase 1):
+${JSON.stringify(context.staticAnswers)}
+
+DYNAMIC ANSWERS (Phase 2):
+${JSON.stringify(context.dynamicAnswers)}
+
+REST OF THE BLUEPRINT (for consistency, do not return these):
+${JSON.stringify(otherSections)}
+
+CURRENT "${context.sectionId}" SECTION:
+${JSON.stringify(currentSection)}
+
+USER INSTRUCTION:
+${context.instruction}
+
+Return ONLY { "${context.sectionId}": { ... } } as pure JSON.`;
+}
+
 /**
  * Extract learning objectives from dynamic answers
  * Handles various formats of objectives in the questionnaire
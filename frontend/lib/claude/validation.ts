@@ -313,6 +313,25 @@ export function parseAndValidateJSON<T = unknown>(text: string): T {
   }
 }
 
+/**
+ * Whether parseAndValidateJSON would have to repair this response
+ * (truncated or otherwise malformed JSON once fences and surrounding prose
+ * are removed)
+ */
+export function needsJsonRepair(text: string): boolean {
+  const cleaned = stripMarkdownCodeFences((text || '').trim());
+  const start = cleaned.search(/[{[]/);
+  const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+  if (start === -1) return true;
+
+  try {
+    JSON.parse(cleaned.substring(start, end >= start ? end + 1 : undefined));
+    return false;
+  } catch {
+    return true;
+  }
+}
+
 /**
  * Validate blueprint JSON structure
  * Ensures required fields and displayType metadata are present
@@ -505,3 +524,43 @@ export function validateAndNormalizeBlueprint(text: string): any {
 
   return normalized;
 }
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validation and normalization for a single regenerated section
+ * Accepts either `{ "<sectionId>": {...} }` or the bare section object, and
+ * runs it through the same displayType inference as full blueprints
+ */
+export function validateAndNormalizeSection(
+  text: string,
+  sectionId: string
+): Record<string, unknown> {
+  const parsed = parseAndValidateJSON<unknown>(text);
+
+  const section: unknown =
+    isPlainObject(parsed) && sectionId in parsed ? parsed[sectionId] : parsed;
+
+  if (!isPlainObject(section)) {
+    throw new ValidationError(`Section ${sectionId} is not an object`, 'INVALID_STRUCTURE', {
+      sectionId,
+    });
+  }
+
+  if (Object.keys(section).length === 0) {
+    throw new ValidationError(`Section ${sectionId} is empty`, 'NO_SECTIONS', { sectionId });
+  }
+
+  const normalized: Record<string, unknown> = normalizeBlueprintStructure({
+    [sectionId]: section,
+  })[sectionId];
+
+  logger.info('claude.validation.section_success', 'Section validation successful', {
+    sectionId,
+    displayType: normalized.displayType,
+  });
+
+  return normalized;
+}
@@ -0,0 +1,106 @@
+/**
+ * GST Configuration
+ *
+ * @description State codes, the GST rate and the seller details printed on tax
+ * invoices. Whether an invoice carries CGST + SGST or IGST depends on whether
+ * the buyer is billed in the seller's state.
+ *
+ * Seller details come from the environment:
+ * - GST_SELLER_LEGAL_NAME, GST_SELLER_GSTIN, GST_SELLER_ADDRESS
+ * - GST_SELLER_STATE_CODE: defaults to the first two digits of the GSTIN
+ * - GST_SAC_CODE: service accounting code of the subscription (default 997331)
+ * - GST_RATE: percentage (default 18)
+ */
+
+export const DEFAULT_GST_RATE = 18;
+
+/**
+ * GST state and union territory codes (first two digits of a GSTIN)
+ */
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export function getStateName(stateCode: string): string {
+  return GST_STATE_CODES[stateCode] ?? stateCode;
+}
+
+/**
+ * Check the format, state code and mod-36 check digit of a GSTIN
+ */
+export function isValidGstin(value: string): boolean {
+  const gstin = value.trim().toUpperCase();
+  if (!GSTIN_PATTERN.test(gstin) || !GST_STATE_CODES[gstin.slice(0, 2)]) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36] === gstin[14];
+}
+
+export interface GstSellerConfig {
+  legalName: string;
+  gstin: string | null;
+  address: string;
+  stateCode: string;
+  sacCode: string;
+  rate: number;
+}
+
+export function getGstSellerConfig(): GstSellerConfig {
+  const gstin = process.env.GST_SELLER_GSTIN?.trim().toUpperCase() || null;
+  const rate = Number(process.env.GST_RATE);
+
+  return {
+    legalName: process.env.GST_SELLER_LEGAL_NAME || 'SmartSlate',
+    gstin,
+    address: process.env.GST_SELLER_ADDRESS || '',
+    stateCode: process.env.GST_SELLER_STATE_CODE || gstin?.slice(0, 2) || '29',
+    sacCode: process.env.GST_SAC_CODE || '997331',
+    rate: Number.isFinite(rate) && rate >= 0 ? rate : DEFAULT_GST_RATE,
+  };
+}
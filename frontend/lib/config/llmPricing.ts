@@ -0,0 +1,106 @@
+/**
+ * LLM Price Table
+ *
+ * @description Per-model token prices used to cost every LLM call in the usage
+ * ledger. Costs are computed when the call is recorded, so a price change only
+ * affects calls made after it.
+ *
+ * Override without a deploy:
+ * - LLM_PRICE_TABLE: JSON object of model prefix → { input, output } in USD per
+ *   million tokens, merged over the defaults
+ *   (e.g. `{"claude-sonnet-4-5": {"input": 3, "output": 15}}`)
+ * - LLM_USD_TO_INR: exchange rate used for the INR cost
+ */
+
+export interface LlmModelPrice {
+  /** USD per million input tokens */
+  input: number;
+  /** USD per million output tokens */
+  output: number;
+}
+
+export interface LlmCost {
+  usd: number;
+  inr: number;
+}
+
+/**
+ * Default prices, keyed by model id prefix (the longest matching prefix wins,
+ * so dated snapshots like `claude-opus-4-20250514` use the `claude-opus-4` row
+ * and Ollama tags like `qwen3:32b` match a `qwen3` row)
+ */
+export const DEFAULT_LLM_PRICES: Record<string, LlmModelPrice> = {
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  sonar: { input: 1, output: 1 },
+  'sonar-pro': { input: 3, output: 15 },
+};
+
+export const DEFAULT_USD_TO_INR = 88;
+
+function parsePriceOverrides(raw: string | undefined): Record<string, LlmModelPrice> {
+  if (!raw?.trim()) return {};
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Partial<LlmModelPrice>>;
+    const prices: Record<string, LlmModelPrice> = {};
+    for (const [model, price] of Object.entries(parsed)) {
+      if (Number.isFinite(price?.input) && Number.isFinite(price?.output)) {
+        prices[model] = { input: Number(price.input), output: Number(price.output) };
+      }
+    }
+    return prices;
+  } catch {
+    console.warn('[LLM Pricing] Ignoring invalid LLM_PRICE_TABLE');
+    return {};
+  }
+}
+
+/**
+ * Effective price table: defaults plus LLM_PRICE_TABLE overrides
+ */
+export function getLlmPriceTable(): Record<string, LlmModelPrice> {
+  return { ...DEFAULT_LLM_PRICES, ...parsePriceOverrides(process.env.LLM_PRICE_TABLE) };
+}
+
+export function getUsdToInrRate(): number {
+  const rate = Number(process.env.LLM_USD_TO_INR);
+  return Number.isFinite(rate) && rate > 0 ? rate : DEFAULT_USD_TO_INR;
+}
+
+/**
+ * Price for a model, or null when the model is not in the table
+ * (self-hosted models such as Ollama are not priced and cost nothing)
+ */
+export function getModelPrice(
+  model: string,
+  table: Record<string, LlmModelPrice> = getLlmPriceTable()
+): LlmModelPrice | null {
+  const match = Object.keys(table)
+    .filter(
+      (prefix) =>
+        model === prefix || model.startsWith(`${prefix}-`) || model.startsWith(`${prefix}:`)
+    )
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table[match] : null;
+}
+
+/**
+ * Cost of one call in USD and INR
+ */
+export function calculateLlmCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): LlmCost {
+  const price = getModelPrice(model);
+  if (!price) return { usd: 0, inr: 0 };
+
+  const usd = (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+  return {
+    usd: Math.round(usd * 1_000_000) / 1_000_000,
+    inr: Math.round(usd * getUsdToInrRate() * 10_000) / 10_000,
+  };
+}
@@ -166,6 +166,20 @@ export const TEAM_TIERS: SubscriptionTier[] = ['crew', 'fleet', 'armada'];
  */
 export const INDIVIDUAL_TIERS: SubscriptionTier[] = ['free', 'explorer', 'navigator', 'voyager'];
 
+/**
+ * Free trial days for a user's first subscription. The first charge is
+ * scheduled for the end of the trial; coupons can grant a longer one.
+ */
+export const PLAN_TRIAL_DAYS = {
+  free: 0,
+  explorer: 7,
+  navigator: 7,
+  voyager: 7,
+  crew: 14,
+  fleet: 14,
+  armada: 14,
+} as const;
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -314,6 +328,22 @@ export function getPlanLimit(tier: SubscriptionTier): number {
   return PLAN_LIMITS[tier] || 0;
 }
 
+/**
+ * Get the free trial length of a tier for first-time subscribers
+ *
+ * @param tier - Subscription tier
+ * @returns Trial days (0 when the tier has no trial)
+ *
+ * @example
+ * ```typescript
+ * const days = getTrialDays('crew');
+ * // Returns: 14
+ * ```
+ */
+export function getTrialDays(tier: SubscriptionTier): number {
+  return PLAN_TRIAL_DAYS[tier] || 0;
+}
+
 /**
  * Validate that all required plan IDs are configured
  *
@@ -0,0 +1,201 @@
+import type { BurnUpPoint, DashboardKPIs, TimelineData } from '@/types/dashboard';
+import {
+  formatPlanDate,
+  parsePlanDate,
+  type ImplementationPlan,
+  type ImplementationTask,
+  type TimeEntry,
+} from '@/lib/services/implementationPlanService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Charts get roughly this many points however long the plan runs */
+const MAX_CHART_POINTS = 30;
+
+function round(hours: number): number {
+  return Math.round(hours * 10) / 10;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Tasks are weighted by their estimated hours. Plans without any estimates
+ * (e.g. only milestones) weigh every task equally instead.
+ */
+function taskWeights(tasks: ImplementationTask[]): Map<string, number> {
+  const useHours = tasks.some((task) => (task.estimatedHours ?? 0) > 0);
+  return new Map(
+    tasks.map((task) => [task.id, useHours ? (task.estimatedHours ?? 0) : 1] as const)
+  );
+}
+
+function completedOn(task: ImplementationTask): number | null {
+  return task.status === 'completed' ? parsePlanDate(task.completedAt) : null;
+}
+
+/**
+ * Chart dates from the plan start to the later of today and the last due
+ * date, always including today and the end
+ */
+export function planChartDates(
+  plan: ImplementationPlan,
+  tasks: ImplementationTask[],
+  entries: TimeEntry[],
+  today: string
+): string[] {
+  const todayTime = parsePlanDate(today) ?? Date.now();
+  const times = [
+    parsePlanDate(plan.startDate),
+    ...entries.map((entry) => parsePlanDate(entry.loggedOn)),
+    ...tasks.map(completedOn),
+  ].filter((time): time is number => time !== null);
+  const start = Math.min(todayTime, ...times);
+
+  const dueTimes = tasks
+    .map((task) => parsePlanDate(task.dueDate))
+    .filter((time): time is number => time !== null);
+  const end = Math.max(todayTime, ...dueTimes);
+
+  const stepDays = Math.max(1, Math.ceil((end - start) / DAY_MS / MAX_CHART_POINTS));
+  const dates = new Set<number>();
+  for (let time = start; time < end; time += stepDays * DAY_MS) {
+    dates.add(time);
+  }
+  dates.add(todayTime);
+  dates.add(end);
+
+  return [...dates].sort((a, b) => a - b).map(formatPlanDate);
+}
+
+/**
+ * Planned vs actual progress over time:
+ * - scope: estimated hours of the whole plan
+ * - planned: estimated hours due by each date (tasks without a due date are
+ *   planned for the end)
+ * - completed: estimated hours of tasks completed by each date
+ * - actual: hours logged by each date
+ * completed and actual are null after today.
+ */
+export function buildBurnUp(
+  plan: ImplementationPlan,
+  tasks: ImplementationTask[],
+  entries: TimeEntry[],
+  today: string
+): BurnUpPoint[] {
+  const dates = planChartDates(plan, tasks, entries, today);
+  const end = parsePlanDate(dates[dates.length - 1]) ?? 0;
+  const todayTime = parsePlanDate(today) ?? Date.now();
+  const scope = round(sum(tasks.map((task) => task.estimatedHours ?? 0)));
+
+  return dates.map((date) => {
+    const time = parsePlanDate(date) ?? 0;
+    const past = time <= todayTime;
+
+    return {
+      date,
+      scope,
+      planned: round(
+        sum(
+          tasks
+            .filter((task) => (parsePlanDate(task.dueDate) ?? end) <= time)
+            .map((task) => task.estimatedHours ?? 0)
+        )
+      ),
+      completed: past
+        ? round(
+            sum(
+              tasks
+                .filter((task) => (completedOn(task) ?? Infinity) <= time)
+                .map((task) => task.estimatedHours ?? 0)
+            )
+          )
+        : null,
+      actual: past
+        ? round(
+            sum(
+              entries
+                .filter((entry) => (parsePlanDate(entry.loggedOn) ?? Infinity) <= time)
+                .map((entry) => entry.hours)
+            )
+          )
+        : null,
+    };
+  });
+}
+
+/**
+ * Hours logged and completion up to today, with each milestone shown on the
+ * first chart date on or after its due date
+ */
+export function buildPlanTimeline(
+  plan: ImplementationPlan,
+  tasks: ImplementationTask[],
+  entries: TimeEntry[],
+  today: string
+): TimelineData[] {
+  const todayTime = parsePlanDate(today) ?? Date.now();
+  const dates = planChartDates(plan, tasks, entries, today).filter(
+    (date) => (parsePlanDate(date) ?? 0) <= todayTime
+  );
+  const weights = taskWeights(tasks);
+  const totalWeight = sum([...weights.values()]);
+
+  let previous = -Infinity;
+  return dates.map((date) => {
+    const time = parsePlanDate(date) ?? 0;
+    const doneWeight = sum(
+      tasks
+        .filter((task) => (completedOn(task) ?? Infinity) <= time)
+        .map((task) => weights.get(task.id) ?? 0)
+    );
+    const milestones = tasks
+      .filter((task) => task.source === 'milestone')
+      .filter((task) => {
+        const due = parsePlanDate(task.dueDate);
+        return due !== null && due > previous && due <= time;
+      })
+      .map((task) => task.title);
+    previous = time;
+
+    return {
+      date,
+      learningHours: round(
+        sum(
+          entries
+            .filter((entry) => (parsePlanDate(entry.loggedOn) ?? Infinity) <= time)
+            .map((entry) => entry.hours)
+        )
+      ),
+      progressPercentage: totalWeight > 0 ? Math.round((doneWeight / totalWeight) * 100) : 0,
+      milestones,
+    };
+  });
+}
+
+/**
+ * Dashboard KPIs from the plan's real progress. Milestones stand in for
+ * assessments, and the completion date is the last due date until every
+ * task is done.
+ */
+export function buildPlanKpis(tasks: ImplementationTask[], entries: TimeEntry[]): DashboardKPIs {
+  const modules = tasks.filter((task) => task.source === 'module');
+  const milestones = tasks.filter((task) => task.source === 'milestone');
+
+  const allDone = tasks.length > 0 && tasks.every((task) => task.status === 'completed');
+  const finishDates = tasks
+    .map((task) => parsePlanDate(allDone ? task.completedAt : task.dueDate))
+    .filter((time): time is number => time !== null);
+
+  return {
+    totalLearningHours: round(sum(modules.map((task) => task.estimatedHours ?? 0))),
+    totalModules: modules.length,
+    completedModules: modules.filter((task) => task.status === 'completed').length,
+    totalAssessments: milestones.length,
+    completedAssessments: milestones.filter((task) => task.status === 'completed').length,
+    // Plans don't track resources
+    totalResources: 0,
+    estimatedCompletionDate: finishDates.length > 0 ? formatPlanDate(Math.max(...finishDates)) : '',
+    actualHours: round(sum(entries.map((entry) => entry.hours))),
+  };
+}
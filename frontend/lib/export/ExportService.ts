@@ -17,6 +17,7 @@ import {
   ExportServiceConfig,
   ChartExportOptions,
 } from './types';
+import type { LmsExportFormat } from './lms';
 
 export class ExportService {
   private config: ExportServiceConfig;
@@ -67,6 +68,21 @@ export class ExportService {
         case 'docx':
           result = await this.exportToWord(exportData, options);
           break;
+        case 'pptx':
+          result = await this.exportToPowerPoint(exportData, options);
+          break;
+        case 'scorm':
+          result = await this.exportToLMSPackage(
+            exportData,
+            options.scormVersion === '1.2' ? 'scorm-1.2' : 'scorm-2004'
+          );
+          break;
+        case 'imscc':
+          result = await this.exportToLMSPackage(exportData, 'imscc-1.3');
+          break;
+        case 'mbz':
+          result = await this.exportToLMSPackage(exportData, 'moodle-mbz');
+          break;
         default:
           throw new Error(`Unsupported export format: ${options.format}`);
       }
@@ -279,6 +295,68 @@ export class ExportService {
     }
   }
 
+  /**
+   * Export to PowerPoint (PPTX) with native tables and charts
+   */
+  private async exportToPowerPoint(
+    data: ExportData,
+    options: ExportOptions
+  ): Promise<ExportResult> {
+    try {
+      const { PptxGenerator } = await import('./pptxGenerator');
+
+      const generator = new PptxGenerator();
+      return await generator.generatePresentation(data, options);
+    } catch (error) {
+      console.error('PowerPoint export failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'PowerPoint export failed',
+      };
+    }
+  }
+
+  /**
+   * Export to an LMS package (SCORM, Common Cartridge, Moodle backup). The
+   * package is built by the export API from the saved blueprint, so this
+   * needs metadata.blueprintId.
+   */
+  private async exportToLMSPackage(
+    data: ExportData,
+    format: LmsExportFormat
+  ): Promise<ExportResult> {
+    try {
+      const blueprintId = data.metadata.blueprintId;
+      if (!blueprintId) {
+        throw new Error('LMS export requires a saved blueprint');
+      }
+
+      const response = await fetch(
+        `/api/blueprints/${encodeURIComponent(blueprintId)}/export/${format}`
+      );
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'LMS export failed');
+      }
+
+      const blob = await response.blob();
+
+      return {
+        success: true,
+        data: blob,
+        metadata: data.metadata,
+        fileSize: blob.size,
+      };
+    } catch (error) {
+      console.error('LMS export failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'LMS export failed',
+      };
+    }
+  }
+
   /**
    * Create metadata for export
    */
@@ -352,7 +430,8 @@ export class ExportService {
   private generateFileName(title: string, format: ExportFormat): string {
     const sanitizedTitle = title.replace(/[^a-zA-Z0-9\s-_]/g, '').replace(/\s+/g, '_');
     const timestamp = new Date().toISOString().split('T')[0];
-    return `${sanitizedTitle}_${timestamp}.${format}`;
+    const extension = format === 'scorm' ? 'zip' : format;
+    return `${sanitizedTitle}_${timestamp}.${extension}`;
   }
 
   /**
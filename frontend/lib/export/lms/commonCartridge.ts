@@ -0,0 +1,302 @@
+/**
+ * IMS Common Cartridge Export
+ * Builds an IMS Common Cartridge 1.3 course shell: one folder per module with
+ * an overview page, a content page per learning activity, and placeholder
+ * assignments and QTI assessments for graded work. Completion criteria from
+ * the assessment strategy are included as a page, since Common Cartridge has
+ * no way to express them.
+ */
+
+import JSZip from 'jszip';
+import type { CourseModule, CourseOutline, ShellActivity } from './courseOutline';
+import { listShellActivities, toSlug } from './courseOutline';
+import {
+  escapeXml,
+  renderActivityPage,
+  renderCompletionPage,
+  renderModulePage,
+  PLACEHOLDER_STYLESHEET,
+} from './placeholderPages';
+
+export const CC_STYLESHEET_PATH = 'shared/style.css';
+export const CC_COMPLETION_PATH = 'course/completion-criteria.html';
+
+const STYLESHEET_RESOURCE_ID = 'RES_STYLESHEET';
+const COMPLETION_RESOURCE_ID = 'RES_COMPLETION';
+
+const RESOURCE_TYPES = {
+  page: 'webcontent',
+  quiz: 'imsqti_xmlv1p2/imscc_xmlv1p3/assessment',
+  assign: 'assignment_xmlv1p0',
+} as const;
+
+interface CartridgeResource {
+  identifier: string;
+  type: string;
+  /** Launch file; only webcontent resources have one */
+  href: string | null;
+  file: string;
+  content: string;
+  dependsOnStylesheet: boolean;
+}
+
+function moduleFolder(module: CourseModule): string {
+  return `modules/${String(module.position).padStart(2, '0')}-${toSlug(module.title)}`;
+}
+
+function renderAssignment(activity: ShellActivity): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assignment xmlns="http://www.imsglobal.org/xsd/imscc_extensions/assignment"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscc_extensions/assignment http://www.imsglobal.org/profile/cc/cc_extensions/cc_extresource_assignmentv1p0_v1p0.xsd"
+  identifier="${escapeXml(activity.identifier)}">
+  <title>${escapeXml(activity.title)}</title>
+  <text texttype="text/plain">${escapeXml(activity.summary || 'Placeholder assignment generated from the Polaris blueprint.')}</text>
+  <gradable points_possible="100">true</gradable>
+  <submission_formats>
+    <format type="text" />
+    <format type="file" />
+  </submission_formats>
+</assignment>
+`;
+}
+
+function renderAssessment(activity: ShellActivity): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<questestinterop xmlns="http://www.imsglobal.org/xsd/ims_qtiasiv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/ims_qtiasiv1p2 http://www.imsglobal.org/profile/cc/ccv1p3/ccv1p3_qtiasiv1p2p1_v1p0.xsd">
+  <assessment ident="${escapeXml(activity.identifier)}" title="${escapeXml(activity.title)}">
+    <qtimetadata>
+      <qtimetadatafield>
+        <fieldlabel>cc_profile</fieldlabel>
+        <fieldentry>cc.exam.v0p1</fieldentry>
+      </qtimetadatafield>
+      <qtimetadatafield>
+        <fieldlabel>qmd_assessmenttype</fieldlabel>
+        <fieldentry>Examination</fieldentry>
+      </qtimetadatafield>
+    </qtimetadata>
+    <presentation_material>
+      <flow_mat>
+        <material>
+          <mattext texttype="text/plain">${escapeXml(activity.summary || 'Placeholder quiz generated from the Polaris blueprint. Add questions before publishing.')}</mattext>
+        </material>
+      </flow_mat>
+    </presentation_material>
+    <section ident="${escapeXml(activity.identifier)}_SECTION" />
+  </assessment>
+</questestinterop>
+`;
+}
+
+function activityResource(
+  course: CourseOutline,
+  module: CourseModule,
+  activity: ShellActivity,
+  index: number
+): CartridgeResource {
+  const base = `${moduleFolder(module)}/activity-${String(index + 1).padStart(2, '0')}`;
+  const identifier = `RES_${activity.identifier}`;
+
+  if (activity.kind === 'assign') {
+    return {
+      identifier,
+      type: RESOURCE_TYPES.assign,
+      href: null,
+      file: `${base}/assignment.xml`,
+      content: renderAssignment(activity),
+      dependsOnStylesheet: false,
+    };
+  }
+
+  if (activity.kind === 'quiz') {
+    return {
+      identifier,
+      type: RESOURCE_TYPES.quiz,
+      href: null,
+      file: `${base}/assessment.xml`,
+      content: renderAssessment(activity),
+      dependsOnStylesheet: false,
+    };
+  }
+
+  const file = `${base}.html`;
+  return {
+    identifier,
+    type: RESOURCE_TYPES.page,
+    href: file,
+    file,
+    content: renderActivityPage(
+      course,
+      module,
+      activity.source ?? { title: activity.title, type: '', duration: '', kind: 'page' },
+      '../../shared/style.css'
+    ),
+    dependsOnStylesheet: true,
+  };
+}
+
+interface CartridgeModule {
+  module: CourseModule;
+  overview: CartridgeResource;
+  activities: Array<{ activity: ShellActivity; resource: CartridgeResource }>;
+}
+
+function planCartridge(course: CourseOutline): CartridgeModule[] {
+  return course.modules.map((module) => {
+    const overviewFile = `${moduleFolder(module)}/index.html`;
+    return {
+      module,
+      overview: {
+        identifier: `RES_${module.identifier}`,
+        type: RESOURCE_TYPES.page,
+        href: overviewFile,
+        file: overviewFile,
+        content: renderModulePage(course, module, { stylesheetHref: '../../shared/style.css' }),
+        dependsOnStylesheet: true,
+      },
+      activities: listShellActivities(module).map((activity, index) => ({
+        activity,
+        resource: activityResource(course, module, activity, index),
+      })),
+    };
+  });
+}
+
+function renderResource(resource: CartridgeResource): string {
+  const href = resource.href ? ` href="${escapeXml(resource.href)}"` : '';
+  const dependency = resource.dependsOnStylesheet
+    ? `\n      <dependency identifierref="${STYLESHEET_RESOURCE_ID}" />`
+    : '';
+  return `    <resource identifier="${escapeXml(resource.identifier)}" type="${resource.type}"${href}>
+      <file href="${escapeXml(resource.file)}" />${dependency}
+    </resource>`;
+}
+
+function renderManifest(course: CourseOutline, plan: CartridgeModule[]): string {
+  const items = plan
+    .map(({ module, overview, activities }) => {
+      const children = [
+        `          <item identifier="ITEM_${escapeXml(module.identifier)}_OVERVIEW" identifierref="${escapeXml(overview.identifier)}">
+            <title>Overview</title>
+          </item>`,
+        ...activities.map(({ activity, resource }) => {
+          const id = escapeXml(activity.identifier);
+          return `          <item identifier="ITEM_${id}" identifierref="${escapeXml(resource.identifier)}">
+            <title>${escapeXml(activity.title)}</title>
+          </item>`;
+        }),
+      ].join('\n');
+
+      return `        <item identifier="ITEM_${escapeXml(module.identifier)}">
+          <title>${escapeXml(module.title)}</title>
+${children}
+        </item>`;
+    })
+    .join('\n');
+
+  const completionItem =
+    course.completionCriteria.length > 0
+      ? `\n        <item identifier="ITEM_COMPLETION" identifierref="${COMPLETION_RESOURCE_ID}">
+          <title>Course completion criteria</title>
+        </item>`
+      : '';
+
+  const resources = plan.flatMap(({ overview, activities }) => [
+    overview,
+    ...activities.map(({ resource }) => resource),
+  ]);
+  if (course.completionCriteria.length > 0) {
+    resources.push({
+      identifier: COMPLETION_RESOURCE_ID,
+      type: RESOURCE_TYPES.page,
+      href: CC_COMPLETION_PATH,
+      file: CC_COMPLETION_PATH,
+      content: '',
+      dependsOnStylesheet: true,
+    });
+  }
+
+  const description = course.description
+    ? `
+        <lomimscc:description>
+          <lomimscc:string language="en">${escapeXml(course.description)}</lomimscc:string>
+        </lomimscc:description>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${escapeXml(course.identifier)}"
+  xmlns="http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1"
+  xmlns:lomimscc="http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1 http://www.imsglobal.org/profile/cc/ccv1p3/ccv1p3_imscp_v1p2_v1p0.xsd http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest http://www.imsglobal.org/profile/cc/ccv1p3/LOM/ccv1p3_lommanifest_v1p0.xsd">
+  <metadata>
+    <schema>IMS Common Cartridge</schema>
+    <schemaversion>1.3.0</schemaversion>
+    <lomimscc:lom>
+      <lomimscc:general>
+        <lomimscc:title>
+          <lomimscc:string language="en">${escapeXml(course.title)}</lomimscc:string>
+        </lomimscc:title>${description}
+      </lomimscc:general>
+    </lomimscc:lom>
+  </metadata>
+  <organizations>
+    <organization identifier="${escapeXml(course.identifier)}_ORG" structure="rooted-hierarchy">
+      <item identifier="ITEM_ROOT">
+${items}${completionItem}
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+${resources.map(renderResource).join('\n')}
+    <resource identifier="${STYLESHEET_RESOURCE_ID}" type="webcontent">
+      <file href="${CC_STYLESHEET_PATH}" />
+    </resource>
+  </resources>
+</manifest>
+`;
+}
+
+/**
+ * imsmanifest.xml for the cartridge
+ */
+export function buildCommonCartridgeManifest(course: CourseOutline): string {
+  return renderManifest(course, planCartridge(course));
+}
+
+/**
+ * Every file in the cartridge, keyed by path
+ */
+export function buildCommonCartridgeFiles(course: CourseOutline): Map<string, string> {
+  const plan = planCartridge(course);
+  const files = new Map<string, string>();
+
+  files.set('imsmanifest.xml', renderManifest(course, plan));
+  files.set(CC_STYLESHEET_PATH, PLACEHOLDER_STYLESHEET);
+
+  for (const { overview, activities } of plan) {
+    files.set(overview.file, overview.content);
+    for (const { resource } of activities) {
+      files.set(resource.file, resource.content);
+    }
+  }
+
+  if (course.completionCriteria.length > 0) {
+    files.set(CC_COMPLETION_PATH, renderCompletionPage(course, '../shared/style.css'));
+  }
+
+  return files;
+}
+
+/**
+ * Zip the cartridge (.imscc)
+ */
+export async function buildCommonCartridgePackage(course: CourseOutline): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [path, content] of buildCommonCartridgeFiles(course)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
@@ -0,0 +1,262 @@
+/**
+ * Course Outline for LMS Exports
+ * Normalizes a blueprint's content outline and learning objectives into the
+ * shape every LMS package format is built from. Identifiers are stable and
+ * safe to use as XML IDs, so re-exporting the same blueprint produces the
+ * same package structure.
+ */
+
+import type { BlueprintJSON, KPI, Module, Objective } from '@/components/features/blueprints/types';
+
+/** How an activity is represented in an LMS course shell */
+export type LmsActivityKind = 'page' | 'quiz' | 'assign';
+
+export interface CourseObjective {
+  /** XML-safe identifier, unique within the course */
+  identifier: string;
+  title: string;
+  description: string;
+}
+
+export interface CourseActivity {
+  title: string;
+  type: string;
+  duration: string;
+  kind: LmsActivityKind;
+}
+
+export interface CourseModule {
+  /** XML-safe identifier, unique within the course */
+  identifier: string;
+  /** 1-based position, used for file names */
+  position: number;
+  title: string;
+  description: string;
+  duration: string;
+  deliveryMethod: string;
+  topics: string[];
+  activities: CourseActivity[];
+  assessment: { type: string; description: string; kind: LmsActivityKind } | null;
+}
+
+/**
+ * A course completion criterion derived from an assessment strategy KPI
+ */
+export interface CourseCompletionCriterion {
+  /** XML-safe identifier, unique within the course */
+  identifier: string;
+  metric: string;
+  target: string;
+  measurementMethod: string;
+  frequency: string;
+  /** Percentage grade to pass, when the KPI is a score target */
+  gradePass: number | null;
+}
+
+export interface CourseOutline {
+  identifier: string;
+  title: string;
+  description: string;
+  organization: string;
+  /** Learning management system named in the questionnaire, if any */
+  targetLms: string | null;
+  objectives: CourseObjective[];
+  modules: CourseModule[];
+  completionCriteria: CourseCompletionCriterion[];
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : value == null ? '' : String(value);
+}
+
+/**
+ * Turn any string into a valid xs:ID fragment (letters, digits, - and _)
+ */
+export function toXmlId(prefix: string, value: string): string {
+  const cleaned = value.replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${prefix}_${cleaned || 'item'}`;
+}
+
+/**
+ * File-system friendly slug for package paths
+ */
+export function toSlug(value: string, maxLength = 40): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, maxLength)
+      .replace(/-+$/, '') || 'module'
+  );
+}
+
+/**
+ * Map a free-text activity or assessment type to an LMS activity.
+ * Anything that is not clearly graded becomes a content page.
+ */
+export function classifyActivity(type: string): LmsActivityKind {
+  const value = type.toLowerCase();
+  if (/quiz|test|exam|knowledge check|multiple choice/.test(value)) return 'quiz';
+  if (
+    /assign|project|submission|essay|report|case study|portfolio|lab|exercise|capstone/.test(value)
+  ) {
+    return 'assign';
+  }
+  return 'page';
+}
+
+/**
+ * Pass mark for KPIs that describe a score (e.g. "80% on the final quiz").
+ * Returns null for KPIs that cannot be checked by the gradebook.
+ */
+export function parseGradePass(
+  kpi: Pick<KPI, 'metric' | 'target' | 'measurement_method'>
+): number | null {
+  const text = `${kpi.metric} ${kpi.measurement_method}`.toLowerCase();
+  if (!/score|grade|assessment|quiz|test|exam|pass/.test(text)) return null;
+
+  const match = asText(kpi.target).match(/(\d+(?:\.\d+)?)\s*%/);
+  if (!match) return null;
+
+  const value = Number(match[1]);
+  return value > 0 && value <= 100 ? value : null;
+}
+
+function uniqueIds<T extends { identifier: string }>(items: T[]): T[] {
+  const seen = new Map<string, number>();
+  return items.map((item) => {
+    const count = seen.get(item.identifier) ?? 0;
+    seen.set(item.identifier, count + 1);
+    return count === 0 ? item : { ...item, identifier: `${item.identifier}_${count + 1}` };
+  });
+}
+
+function toModule(module: Partial<Module>, index: number): CourseModule {
+  const title = asText(module.title) || `Module ${index + 1}`;
+  return {
+    identifier: toXmlId('MOD', asText(module.module_id) || String(index + 1)),
+    position: index + 1,
+    title,
+    description: asText(module.description),
+    duration: asText(module.duration),
+    deliveryMethod: asText(module.delivery_method),
+    topics: (module.topics ?? []).map(asText).filter(Boolean),
+    activities: (module.learning_activities ?? [])
+      .map((activity) => ({
+        title: asText(activity?.activity),
+        type: asText(activity?.type),
+        duration: asText(activity?.duration),
+        kind: classifyActivity(`${asText(activity?.type)} ${asText(activity?.activity)}`),
+      }))
+      .filter((activity) => activity.title),
+    assessment:
+      module.assessment && asText(module.assessment.type)
+        ? {
+            type: asText(module.assessment.type),
+            description: asText(module.assessment.description),
+            // A module assessment is always graded, so default to an assignment
+            kind: classifyActivity(asText(module.assessment.type)) === 'quiz' ? 'quiz' : 'assign',
+          }
+        : null,
+  };
+}
+
+function toCompletionCriterion(kpi: Partial<KPI>, index: number): CourseCompletionCriterion {
+  const metric = asText(kpi.metric) || `KPI ${index + 1}`;
+  const target = asText(kpi.target);
+  const measurementMethod = asText(kpi.measurement_method);
+  return {
+    identifier: toXmlId('KPI', String(index + 1)),
+    metric,
+    target,
+    measurementMethod,
+    frequency: asText(kpi.frequency),
+    gradePass: parseGradePass({ metric, target, measurement_method: measurementMethod }),
+  };
+}
+
+function toObjective(objective: Partial<Objective>, index: number): CourseObjective {
+  return {
+    identifier: toXmlId('OBJ', asText(objective.id) || String(index + 1)),
+    title: asText(objective.title) || `Objective ${index + 1}`,
+    description: asText(objective.description),
+  };
+}
+
+/**
+ * Build the course outline for a blueprint.
+ * Throws when the blueprint has no modules, since an empty package is useless.
+ */
+export function buildCourseOutline(
+  blueprint: BlueprintJSON,
+  options: { blueprintId: string; title?: string | null; targetLms?: string | null }
+): CourseOutline {
+  const modules = blueprint.content_outline?.modules ?? [];
+  if (modules.length === 0) {
+    throw new Error('Blueprint has no content outline modules to export');
+  }
+
+  const executiveSummary = blueprint.executive_summary as unknown;
+  const description =
+    typeof executiveSummary === 'string'
+      ? executiveSummary
+      : asText((executiveSummary as { content?: unknown } | undefined)?.content);
+
+  return {
+    identifier: toXmlId('POLARIS', options.blueprintId),
+    title:
+      asText(options.title) || asText(blueprint.metadata?.title) || 'Learning Blueprint Course',
+    description,
+    organization: asText(blueprint.metadata?.organization),
+    targetLms: asText(options.targetLms) || null,
+    objectives: uniqueIds((blueprint.learning_objectives?.objectives ?? []).map(toObjective)),
+    modules: uniqueIds(modules.map(toModule)),
+    completionCriteria: (blueprint.assessment_strategy?.kpis ?? []).map(toCompletionCriterion),
+  };
+}
+
+/**
+ * LMS named in the static questionnaire (resources.technology.lms)
+ */
+export function readTargetLms(staticAnswers: unknown): string | null {
+  const resources = (staticAnswers as { resources?: { technology?: { lms?: unknown } } } | null)
+    ?.resources;
+  return asText(resources?.technology?.lms) || null;
+}
+
+/**
+ * One activity in a course shell export (Common Cartridge, Moodle backup):
+ * the module's learning activities followed by its assessment
+ */
+export interface ShellActivity {
+  /** XML-safe identifier, unique within the course */
+  identifier: string;
+  title: string;
+  kind: LmsActivityKind;
+  /** Plain-text description used as the activity intro */
+  summary: string;
+  source: CourseActivity | null;
+}
+
+export function listShellActivities(module: CourseModule): ShellActivity[] {
+  const activities: ShellActivity[] = module.activities.map((activity, index) => ({
+    identifier: `${module.identifier}_ACT_${index + 1}`,
+    title: activity.title,
+    kind: activity.kind,
+    summary: [activity.type, activity.duration].filter(Boolean).join(' · '),
+    source: activity,
+  }));
+
+  if (module.assessment) {
+    activities.push({
+      identifier: `${module.identifier}_ASSESSMENT`,
+      title: `${module.title}: ${module.assessment.type}`,
+      kind: module.assessment.kind,
+      summary: module.assessment.description,
+      source: null,
+    });
+  }
+
+  return activities;
+}
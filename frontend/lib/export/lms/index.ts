@@ -0,0 +1,54 @@
+/**
+ * LMS Package Exports
+ * Server-side package builders keyed by the format segment of
+ * /api/blueprints/[id]/export/[format].
+ */
+
+import type { CourseOutline } from './courseOutline';
+import { buildScormPackage } from './scormPackage';
+import { buildCommonCartridgePackage } from './commonCartridge';
+import { buildMoodleBackupPackage } from './moodleBackup';
+
+export type LmsExportFormat = 'scorm-1.2' | 'scorm-2004' | 'imscc-1.3' | 'moodle-mbz';
+
+export interface LmsPackageBuilder {
+  label: string;
+  /** Appended to the course slug to name the download */
+  fileSuffix: string;
+  mimeType: string;
+  build: (course: CourseOutline) => Promise<Uint8Array>;
+}
+
+export const LMS_EXPORT_FORMATS: Record<LmsExportFormat, LmsPackageBuilder> = {
+  'scorm-1.2': {
+    label: 'SCORM 1.2',
+    fileSuffix: 'scorm12.zip',
+    mimeType: 'application/zip',
+    build: (course) => buildScormPackage(course, '1.2'),
+  },
+  'scorm-2004': {
+    label: 'SCORM 2004 (4th Edition)',
+    fileSuffix: 'scorm2004.zip',
+    mimeType: 'application/zip',
+    build: (course) => buildScormPackage(course, '2004'),
+  },
+  'imscc-1.3': {
+    label: 'IMS Common Cartridge 1.3',
+    fileSuffix: 'cc13.imscc',
+    mimeType: 'application/vnd.ims.imscc+zip',
+    build: (course) => buildCommonCartridgePackage(course),
+  },
+  'moodle-mbz': {
+    label: 'Moodle course backup',
+    fileSuffix: 'moodle.mbz',
+    mimeType: 'application/vnd.moodle.backup',
+    build: (course) => buildMoodleBackupPackage(course),
+  },
+};
+
+export function isLmsExportFormat(value: string): value is LmsExportFormat {
+  return Object.prototype.hasOwnProperty.call(LMS_EXPORT_FORMATS, value);
+}
+
+export { buildCourseOutline, readTargetLms, toSlug } from './courseOutline';
+export type { CourseOutline, CourseModule, CourseObjective } from './courseOutline';
@@ -0,0 +1,700 @@
+/**
+ * Moodle Backup Export
+ * Builds a Moodle course backup (.mbz, "moodle2" format) that restores as a
+ * course shell: one section per module, page/quiz/assign placeholders for the
+ * module's activities and assessment, and course completion criteria derived
+ * from the assessment strategy KPIs.
+ *
+ * Moodle restores zip-packed .mbz files as well as tar.gz, so the archive is
+ * built with JSZip like the other LMS exports.
+ */
+
+import JSZip from 'jszip';
+import type { CourseOutline, LmsActivityKind, ShellActivity } from './courseOutline';
+import { listShellActivities, toSlug } from './courseOutline';
+import { escapeXml, escapeHtml, renderModuleContent } from './placeholderPages';
+
+/** Moodle 4.1 LTS; older sites cannot restore newer backups */
+export const MOODLE_BACKUP_VERSION = '2022112800';
+const MOODLE_RELEASE = '4.1';
+
+/** Marker Moodle backups use for NULL column values */
+const NULL = '$@NULL@$';
+
+const COURSE_ID = 1;
+const COURSE_CONTEXT_ID = 2;
+
+/** course_completion_criteria.criteriatype values */
+const CRITERIA_ACTIVITY = 4;
+const CRITERIA_GRADE = 6;
+
+/** Activity completion: 1 = manual, 2 = automatic */
+const COMPLETION_MANUAL = 1;
+const COMPLETION_AUTOMATIC = 2;
+
+type FieldValue = string | number | null;
+
+export interface MoodleActivity {
+  /** course_modules id, also used as the instance id */
+  moduleId: number;
+  sectionId: number;
+  sectionNumber: number;
+  kind: LmsActivityKind;
+  title: string;
+  intro: string;
+  /** HTML body for page activities */
+  content: string;
+  directory: string;
+}
+
+export interface MoodleSection {
+  sectionId: number;
+  number: number;
+  title: string;
+  summary: string;
+  activities: MoodleActivity[];
+  directory: string;
+}
+
+export interface MoodleCompletionCriterion {
+  criteriaType: typeof CRITERIA_ACTIVITY | typeof CRITERIA_GRADE;
+  /** Activity criteria only */
+  activity: MoodleActivity | null;
+  /** Grade criteria only */
+  gradePass: number | null;
+}
+
+function fields(values: Record<string, FieldValue>, indent: string): string {
+  return Object.entries(values)
+    .map(([name, value]) => {
+      const text = value === null ? NULL : escapeXml(String(value));
+      return `${indent}<${name}>${text}</${name}>`;
+    })
+    .join('\n');
+}
+
+function xmlDocument(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}\n`;
+}
+
+function activityIntro(course: CourseOutline, activity: ShellActivity): string {
+  return activity.summary
+    ? `<p>${escapeHtml(activity.summary)}</p>`
+    : `<p>Placeholder ${activity.kind} generated from the ${escapeHtml(course.title)} blueprint.</p>`;
+}
+
+/**
+ * Sections and activities in the order Moodle will show them. Section 0 is
+ * Moodle's general section and holds the course description.
+ */
+export function planMoodleCourse(course: CourseOutline): MoodleSection[] {
+  let nextModuleId = 1;
+
+  const sections: MoodleSection[] = [
+    {
+      sectionId: 1,
+      number: 0,
+      title: '',
+      summary: course.description ? `<p>${escapeHtml(course.description)}</p>` : '',
+      activities: [],
+      directory: 'sections/section_1',
+    },
+  ];
+
+  for (const courseModule of course.modules) {
+    const sectionId = courseModule.position + 1;
+    const shellActivities = listShellActivities(courseModule);
+
+    const overview: MoodleActivity = {
+      moduleId: nextModuleId++,
+      sectionId,
+      sectionNumber: courseModule.position,
+      kind: 'page',
+      title: `${courseModule.title}: Overview`,
+      intro: '',
+      content: renderModuleContent(course, courseModule),
+      directory: '',
+    };
+
+    const activities = [
+      overview,
+      ...shellActivities.map(
+        (activity): MoodleActivity => ({
+          moduleId: nextModuleId++,
+          sectionId,
+          sectionNumber: courseModule.position,
+          kind: activity.kind,
+          title: activity.title,
+          intro: activityIntro(course, activity),
+          content:
+            activity.kind === 'page'
+              ? `<div class="placeholder"><p>Placeholder activity generated from the Polaris blueprint. Replace this with the activity's instructions and materials.</p></div>`
+              : '',
+          directory: '',
+        })
+      ),
+    ].map((activity) => ({
+      ...activity,
+      directory: `activities/${activity.kind}_${activity.moduleId}`,
+    }));
+
+    sections.push({
+      sectionId,
+      number: courseModule.position,
+      title: courseModule.title,
+      summary: courseModule.description ? `<p>${escapeHtml(courseModule.description)}</p>` : '',
+      activities,
+      directory: `sections/section_${sectionId}`,
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Course completion: every graded activity must be complete, plus a course
+ * grade when a KPI sets a score target (the highest target wins)
+ */
+export function planMoodleCompletion(
+  course: CourseOutline,
+  sections: MoodleSection[]
+): MoodleCompletionCriterion[] {
+  const criteria: MoodleCompletionCriterion[] = sections
+    .flatMap((section) => section.activities)
+    .filter((activity) => activity.kind !== 'page')
+    .map((activity) => ({ criteriaType: CRITERIA_ACTIVITY, activity, gradePass: null }));
+
+  const gradePasses = course.completionCriteria
+    .map((criterion) => criterion.gradePass)
+    .filter((value): value is number => value !== null);
+
+  if (gradePasses.length > 0) {
+    criteria.push({
+      criteriaType: CRITERIA_GRADE,
+      activity: null,
+      gradePass: Math.max(...gradePasses),
+    });
+  }
+
+  return criteria;
+}
+
+function courseSummary(course: CourseOutline): string {
+  const parts = course.description ? [`<p>${escapeHtml(course.description)}</p>`] : [];
+
+  if (course.completionCriteria.length > 0) {
+    const items = course.completionCriteria
+      .map(
+        (c) =>
+          `<li><strong>${escapeHtml(c.metric)}</strong>${c.target ? `: ${escapeHtml(c.target)}` : ''}${
+            c.measurementMethod ? ` (${escapeHtml(c.measurementMethod)})` : ''
+          }</li>`
+      )
+      .join('');
+    parts.push(`<h4>Completion criteria</h4><ul>${items}</ul>`);
+  }
+
+  return parts.join('');
+}
+
+function renderMoodleBackup(
+  course: CourseOutline,
+  sections: MoodleSection[],
+  filename: string,
+  timestamp: number
+): string {
+  const activities = sections.flatMap((section) => section.activities);
+
+  const activityContents = activities
+    .map(
+      (activity) => `        <activity>
+${fields(
+  {
+    moduleid: activity.moduleId,
+    sectionid: activity.sectionId,
+    modulename: activity.kind,
+    title: activity.title,
+    directory: activity.directory,
+  },
+  '          '
+)}
+        </activity>`
+    )
+    .join('\n');
+
+  const sectionContents = sections
+    .map(
+      (section) => `        <section>
+${fields(
+  {
+    sectionid: section.sectionId,
+    title: section.title || String(section.number),
+    directory: section.directory,
+  },
+  '          '
+)}
+        </section>`
+    )
+    .join('\n');
+
+  const rootSettings: Record<string, FieldValue> = {
+    filename,
+    imscc11: 0,
+    users: 0,
+    anonymize: 0,
+    role_assignments: 0,
+    activities: 1,
+    blocks: 0,
+    files: 0,
+    filters: 0,
+    comments: 0,
+    badges: 0,
+    calendarevents: 0,
+    userscompletion: 0,
+    logs: 0,
+    grade_histories: 0,
+    questionbank: 1,
+    groups: 0,
+    competencies: 0,
+    customfield: 0,
+    contentbankcontent: 0,
+    legacyfiles: 0,
+  };
+
+  const setting = (level: string, scope: string, name: string, value: FieldValue) =>
+    `      <setting>
+        <level>${level}</level>${scope}
+        <name>${escapeXml(name)}</name>
+        <value>${value === null ? NULL : escapeXml(String(value))}</value>
+      </setting>`;
+
+  const settings = [
+    ...Object.entries(rootSettings).map(([name, value]) => setting('root', '', name, value)),
+    ...sections.flatMap((section) => {
+      const key = `section_${section.sectionId}`;
+      const scope = `\n        <section>${key}</section>`;
+      return [
+        setting('section', scope, `${key}_included`, 1),
+        setting('section', scope, `${key}_userinfo`, 0),
+      ];
+    }),
+    ...activities.flatMap((activity) => {
+      const key = `${activity.kind}_${activity.moduleId}`;
+      const scope = `\n        <activity>${key}</activity>`;
+      return [
+        setting('activity', scope, `${key}_included`, 1),
+        setting('activity', scope, `${key}_userinfo`, 0),
+      ];
+    }),
+  ].join('\n');
+
+  return xmlDocument(`<moodle_backup>
+  <information>
+${fields(
+  {
+    name: filename,
+    moodle_version: MOODLE_BACKUP_VERSION,
+    moodle_release: MOODLE_RELEASE,
+    backup_version: MOODLE_BACKUP_VERSION,
+    backup_release: MOODLE_RELEASE,
+    backup_date: timestamp,
+    mnet_remoteusers: 0,
+    include_files: 0,
+    include_file_references_to_external_content: 0,
+    original_wwwroot: 'https://polaris.smartslate.io',
+    original_site_identifier_hash: course.identifier,
+    original_course_id: COURSE_ID,
+    original_course_format: 'topics',
+    original_course_fullname: course.title,
+    original_course_shortname: toSlug(course.title, 20),
+    original_course_startdate: 0,
+    original_course_enddate: 0,
+    original_course_contextid: COURSE_CONTEXT_ID,
+    original_system_contextid: 1,
+  },
+  '    '
+)}
+    <details>
+      <detail backup_id="${escapeXml(course.identifier)}">
+${fields(
+  {
+    type: 'course',
+    format: 'moodle2',
+    interactive: 1,
+    mode: 10,
+    execution: 1,
+    executiontime: 0,
+  },
+  '        '
+)}
+      </detail>
+    </details>
+    <contents>
+      <activities>
+${activityContents}
+      </activities>
+      <sections>
+${sectionContents}
+      </sections>
+      <course>
+${fields({ courseid: COURSE_ID, title: course.title, directory: 'course' }, '        ')}
+      </course>
+    </contents>
+    <settings>
+${settings}
+    </settings>
+  </information>
+</moodle_backup>`);
+}
+
+function renderCourse(course: CourseOutline, timestamp: number): string {
+  return xmlDocument(`<course id="${COURSE_ID}" contextid="${COURSE_CONTEXT_ID}">
+${fields(
+  {
+    shortname: toSlug(course.title, 20),
+    fullname: course.title,
+    idnumber: '',
+    summary: courseSummary(course),
+    summaryformat: 1,
+    format: 'topics',
+    showgrades: 1,
+    newsitems: 0,
+    startdate: 0,
+    enddate: 0,
+    marker: 0,
+    maxbytes: 0,
+    legacyfiles: 0,
+    showreports: 0,
+    visible: 1,
+    groupmode: 0,
+    groupmodeforce: 0,
+    defaultgroupingid: 0,
+    lang: '',
+    theme: '',
+    timecreated: timestamp,
+    timemodified: timestamp,
+    requested: 0,
+    showactivitydates: 1,
+    showcompletionconditions: 1,
+    enablecompletion: 1,
+    completionnotify: 0,
+  },
+  '  '
+)}
+  <category id="1">
+    <name>Miscellaneous</name>
+    <description>${NULL}</description>
+  </category>
+  <tags>
+  </tags>
+  <customfields>
+  </customfields>
+  <courseformatoptions>
+  </courseformatoptions>
+</course>`);
+}
+
+function renderSection(section: MoodleSection, timestamp: number): string {
+  return xmlDocument(`<section id="${section.sectionId}">
+${fields(
+  {
+    number: section.number,
+    name: section.number === 0 ? null : section.title,
+    summary: section.summary,
+    summaryformat: 1,
+    sequence: section.activities.map((activity) => activity.moduleId).join(','),
+    visible: 1,
+    availabilityjson: NULL,
+    timemodified: timestamp,
+  },
+  '  '
+)}
+</section>`);
+}
+
+function renderModule(activity: MoodleActivity, timestamp: number): string {
+  // Pages complete when viewed and assignments on submission. Placeholder
+  // quizzes have no questions to grade, so learners mark them complete.
+  const completion = activity.kind === 'quiz' ? COMPLETION_MANUAL : COMPLETION_AUTOMATIC;
+
+  return xmlDocument(`<module id="${activity.moduleId}" version="${MOODLE_BACKUP_VERSION}">
+${fields(
+  {
+    modulename: activity.kind,
+    sectionid: activity.sectionId,
+    sectionnumber: activity.sectionNumber,
+    idnumber: '',
+    added: timestamp,
+    score: 0,
+    indent: 0,
+    visible: 1,
+    visibleoncoursepage: 1,
+    visibleold: 1,
+    groupmode: 0,
+    groupingid: 0,
+    completion,
+    completiongradeitemnumber: null,
+    completionview: activity.kind === 'page' ? 1 : 0,
+    completionexpected: 0,
+    availability: null,
+    showdescription: 0,
+  },
+  '  '
+)}
+  <tags>
+  </tags>
+</module>`);
+}
+
+function renderActivityBody(activity: MoodleActivity, timestamp: number): string {
+  const common = {
+    name: activity.title,
+    intro: activity.intro,
+    introformat: 1,
+  };
+
+  if (activity.kind === 'page') {
+    return `  <page id="${activity.moduleId}">
+${fields(
+  {
+    ...common,
+    content: activity.content,
+    contentformat: 1,
+    legacyfiles: 0,
+    legacyfileslast: null,
+    display: 5,
+    displayoptions: 'a:2:{s:12:"printheading";s:1:"1";s:10:"printintro";s:1:"0";}',
+    revision: 1,
+    timemodified: timestamp,
+  },
+  '    '
+)}
+  </page>`;
+  }
+
+  if (activity.kind === 'quiz') {
+    return `  <quiz id="${activity.moduleId}">
+${fields(
+  {
+    ...common,
+    timeopen: 0,
+    timeclose: 0,
+    timelimit: 0,
+    overduehandling: 'autosubmit',
+    graceperiod: 0,
+    preferredbehaviour: 'deferredfeedback',
+    canredoquestions: 0,
+    attempts_number: 0,
+    attemptonlast: 0,
+    grademethod: 1,
+    decimalpoints: 2,
+    questiondecimalpoints: -1,
+    questionsperpage: 1,
+    navmethod: 'free',
+    shuffleanswers: 1,
+    sumgrades: '0.00000',
+    grade: '100.00000',
+    timecreated: timestamp,
+    timemodified: timestamp,
+    password: '',
+    subnet: '',
+    browsersecurity: '-',
+    delay1: 0,
+    delay2: 0,
+    showuserpicture: 0,
+    showblocks: 0,
+    completionattemptsexhausted: 0,
+    completionminattempts: 0,
+    allowofflineattempts: 0,
+  },
+  '    '
+)}
+    <question_instances>
+    </question_instances>
+    <sections>
+      <section id="${activity.moduleId}">
+        <firstslot>1</firstslot>
+        <heading></heading>
+        <shufflequestions>0</shufflequestions>
+      </section>
+    </sections>
+    <feedbacks>
+    </feedbacks>
+    <overrides>
+    </overrides>
+    <grades>
+    </grades>
+    <attempts>
+    </attempts>
+  </quiz>`;
+  }
+
+  const pluginConfig = (id: number, plugin: string, subtype: string, value: number) =>
+    `      <plugin_config id="${id}">
+        <plugin>${plugin}</plugin>
+        <subtype>${subtype}</subtype>
+        <name>enabled</name>
+        <value>${value}</value>
+      </plugin_config>`;
+
+  return `  <assign id="${activity.moduleId}">
+${fields(
+  {
+    ...common,
+    alwaysshowdescription: 1,
+    submissiondrafts: 0,
+    sendnotifications: 0,
+    sendlatenotifications: 0,
+    sendstudentnotifications: 1,
+    duedate: 0,
+    cutoffdate: 0,
+    gradingduedate: 0,
+    allowsubmissionsfromdate: 0,
+    grade: 100,
+    timemodified: timestamp,
+    completionsubmit: 1,
+    requiresubmissionstatement: 0,
+    teamsubmission: 0,
+    requireallteammemberssubmit: 0,
+    teamsubmissiongroupingid: 0,
+    blindmarking: 0,
+    hidegrader: 0,
+    revealidentities: 0,
+    attemptreopenmethod: 'none',
+    maxattempts: -1,
+    markingworkflow: 0,
+    markingallocation: 0,
+    preventsubmissionnotingroup: 0,
+  },
+  '    '
+)}
+    <userflags>
+    </userflags>
+    <submissions>
+    </submissions>
+    <grades>
+    </grades>
+    <plugin_configs>
+${[
+  pluginConfig(1, 'onlinetext', 'assignsubmission', 1),
+  pluginConfig(2, 'file', 'assignsubmission', 1),
+  pluginConfig(3, 'comments', 'assignfeedback', 1),
+].join('\n')}
+    </plugin_configs>
+    <overrides>
+    </overrides>
+  </assign>`;
+}
+
+function renderActivity(activity: MoodleActivity, timestamp: number): string {
+  return xmlDocument(`<activity id="${activity.moduleId}" moduleid="${activity.moduleId}" modulename="${activity.kind}" contextid="${100 + activity.moduleId}">
+${renderActivityBody(activity, timestamp)}
+</activity>`);
+}
+
+function renderCompletion(criteria: MoodleCompletionCriterion[]): string {
+  const rows = criteria
+    .map(
+      (criterion, index) => `  <course_completion_criteria id="${index + 1}">
+${fields(
+  {
+    course: COURSE_ID,
+    criteriatype: criterion.criteriaType,
+    module: criterion.activity?.kind ?? null,
+    moduleinstance: criterion.activity?.moduleId ?? null,
+    courseinstanceshortname: null,
+    enrolperiod: null,
+    timeend: null,
+    gradepass: criterion.gradePass === null ? null : criterion.gradePass.toFixed(5),
+    role: null,
+    roleshortname: null,
+  },
+  '    '
+)}
+    <course_completion_crit_completions>
+    </course_completion_crit_completions>
+  </course_completion_criteria>`
+    )
+    .join('\n');
+
+  // Method 1 = all criteria must be met
+  return xmlDocument(`<course_completion>
+${rows}
+  <course_completion_aggr_methd id="1">
+${fields({ course: COURSE_ID, criteriatype: null, method: 1, value: null }, '    ')}
+  </course_completion_aggr_methd>
+  <course_completions>
+  </course_completions>
+</course_completion>`);
+}
+
+const EMPTY_ROLES = xmlDocument(`<roles>
+  <role_overrides>
+  </role_overrides>
+  <role_assignments>
+  </role_assignments>
+</roles>`);
+
+const EMPTY_INFOREF = xmlDocument('<inforef>\n</inforef>');
+
+const EMPTY_GRADEBOOK = xmlDocument(`<activity_gradebook>
+  <grade_items>
+  </grade_items>
+  <grade_letters>
+  </grade_letters>
+</activity_gradebook>`);
+
+/**
+ * Every file in the backup, keyed by path
+ */
+export function buildMoodleBackupFiles(
+  course: CourseOutline,
+  options: { now?: Date } = {}
+): Map<string, string> {
+  const timestamp = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  const filename = `${toSlug(course.title, 60)}.mbz`;
+  const sections = planMoodleCourse(course);
+  const files = new Map<string, string>();
+
+  files.set('moodle_backup.xml', renderMoodleBackup(course, sections, filename, timestamp));
+  files.set('completion.xml', renderCompletion(planMoodleCompletion(course, sections)));
+  files.set('files.xml', xmlDocument('<files>\n</files>'));
+  files.set('groups.xml', xmlDocument('<groups>\n  <groupings>\n  </groupings>\n</groups>'));
+  files.set('outcomes.xml', xmlDocument('<outcomes_definition>\n</outcomes_definition>'));
+  files.set('questions.xml', xmlDocument('<question_categories>\n</question_categories>'));
+  files.set('roles.xml', xmlDocument('<roles_definition>\n</roles_definition>'));
+  files.set('scales.xml', xmlDocument('<scales_definition>\n</scales_definition>'));
+
+  files.set('course/course.xml', renderCourse(course, timestamp));
+  files.set('course/inforef.xml', EMPTY_INFOREF);
+  files.set('course/roles.xml', EMPTY_ROLES);
+
+  for (const section of sections) {
+    files.set(`${section.directory}/section.xml`, renderSection(section, timestamp));
+    files.set(`${section.directory}/inforef.xml`, EMPTY_INFOREF);
+
+    for (const activity of section.activities) {
+      files.set(`${activity.directory}/${activity.kind}.xml`, renderActivity(activity, timestamp));
+      files.set(`${activity.directory}/module.xml`, renderModule(activity, timestamp));
+      files.set(`${activity.directory}/inforef.xml`, EMPTY_INFOREF);
+      files.set(`${activity.directory}/roles.xml`, EMPTY_ROLES);
+      files.set(`${activity.directory}/grades.xml`, EMPTY_GRADEBOOK);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Zip the backup (.mbz)
+ */
+export async function buildMoodleBackupPackage(
+  course: CourseOutline,
+  options: { now?: Date } = {}
+): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [path, content] of buildMoodleBackupFiles(course, options)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
@@ -0,0 +1,234 @@
+/**
+ * Placeholder Pages for LMS Exports
+ * Generates the HTML skeleton page for each module. Instructional designers
+ * replace the placeholder copy with real content once the package is in the
+ * LMS; the structure (objectives, topics, activities, assessment) comes from
+ * the blueprint.
+ */
+
+import type { CourseActivity, CourseModule, CourseOutline } from './courseOutline';
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** HTML uses the same five entities */
+export const escapeHtml = escapeXml;
+
+export interface ModulePageOptions {
+  stylesheetHref: string;
+  /** Runtime script for packages that report progress (SCORM) */
+  scriptHref?: string;
+  /** Written to data-* attributes for the runtime script */
+  runtimeAttributes?: Record<string, string>;
+}
+
+export const PLACEHOLDER_STYLESHEET = `body {
+  margin: 0;
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+  color: #1f2933;
+  background: #f7f9fb;
+  line-height: 1.6;
+}
+main {
+  max-width: 760px;
+  margin: 0 auto;
+  padding: 32px 24px 64px;
+}
+.course { color: #52606d; font-size: 14px; text-transform: uppercase; letter-spacing: 0.04em; }
+h1 { margin: 4px 0 8px; font-size: 28px; }
+h2 { margin-top: 32px; font-size: 18px; border-bottom: 1px solid #e4e7eb; padding-bottom: 4px; }
+.meta { color: #52606d; font-size: 14px; }
+.placeholder {
+  margin-top: 24px;
+  padding: 16px;
+  border: 2px dashed #9aa5b1;
+  border-radius: 8px;
+  background: #fff;
+  color: #52606d;
+}
+table { width: 100%; border-collapse: collapse; font-size: 14px; }
+th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e4e7eb; }
+button {
+  margin-top: 32px;
+  padding: 10px 20px;
+  border: 0;
+  border-radius: 6px;
+  background: #0f766e;
+  color: #fff;
+  font-size: 15px;
+  cursor: pointer;
+}
+button:disabled { background: #9aa5b1; cursor: default; }
+`;
+
+function list(items: string[]): string {
+  return `<ul>\n${items.map((item) => `      <li>${escapeHtml(item)}</li>`).join('\n')}\n    </ul>`;
+}
+
+/**
+ * The module's placeholder content without the page chrome, for LMSs that
+ * store page bodies (Moodle) rather than whole HTML files
+ */
+export function renderModuleContent(course: CourseOutline, module: CourseModule): string {
+  const sections: string[] = [];
+
+  const meta = [
+    module.duration && `Duration: ${module.duration}`,
+    module.deliveryMethod && `Delivery: ${module.deliveryMethod}`,
+  ].filter(Boolean) as string[];
+
+  if (course.objectives.length > 0) {
+    sections.push(
+      `    <h2>Learning objectives</h2>\n    ${list(
+        course.objectives.map((o) => (o.description ? `${o.title}: ${o.description}` : o.title))
+      )}`
+    );
+  }
+
+  if (module.topics.length > 0) {
+    sections.push(`    <h2>Topics</h2>\n    ${list(module.topics)}`);
+  }
+
+  if (module.activities.length > 0) {
+    const rows = module.activities
+      .map(
+        (a) =>
+          `        <tr><td>${escapeHtml(a.title)}</td><td>${escapeHtml(a.type)}</td><td>${escapeHtml(a.duration)}</td></tr>`
+      )
+      .join('\n');
+    sections.push(
+      `    <h2>Learning activities</h2>\n    <table>\n      <thead><tr><th>Activity</th><th>Type</th><th>Duration</th></tr></thead>\n      <tbody>\n${rows}\n      </tbody>\n    </table>`
+    );
+  }
+
+  if (module.assessment) {
+    sections.push(
+      `    <h2>Assessment: ${escapeHtml(module.assessment.type)}</h2>\n    <p>${escapeHtml(module.assessment.description)}</p>`
+    );
+  }
+
+  return `${meta.length > 0 ? `    <p class="meta">${escapeHtml(meta.join(' · '))}</p>\n` : ''}${
+    module.description ? `    <p>${escapeHtml(module.description)}</p>\n` : ''
+  }    <div class="placeholder">
+      Placeholder page generated from the Polaris blueprint. Replace this block with the
+      module's learning content before publishing.
+    </div>
+${sections.join('\n')}`;
+}
+
+/**
+ * Render one module's placeholder page
+ */
+export function renderModulePage(
+  course: CourseOutline,
+  module: CourseModule,
+  options: ModulePageOptions
+): string {
+  const dataAttributes = Object.entries(options.runtimeAttributes ?? {})
+    .map(([name, value]) => ` data-${name}="${escapeHtml(value)}"`)
+    .join('');
+
+  const runtime = options.scriptHref
+    ? `\n    <button type="button" id="complete-module">Mark module complete</button>\n    <p id="runtime-status" class="meta" role="status"></p>\n  </main>\n  <script src="${escapeHtml(options.scriptHref)}"></script>`
+    : '\n  </main>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(module.title)}</title>
+  <link rel="stylesheet" href="${escapeHtml(options.stylesheetHref)}">
+</head>
+<body${dataAttributes}>
+  <main>
+    <p class="course">${escapeHtml(course.title)} &middot; Module ${module.position} of ${course.modules.length}</p>
+    <h1>${escapeHtml(module.title)}</h1>
+${renderModuleContent(course, module)}${runtime}
+</body>
+</html>
+`;
+}
+
+function renderStandalonePage(
+  title: string,
+  eyebrow: string,
+  body: string,
+  stylesheetHref: string
+): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" href="${escapeHtml(stylesheetHref)}">
+</head>
+<body>
+  <main>
+    <p class="course">${escapeHtml(eyebrow)}</p>
+    <h1>${escapeHtml(title)}</h1>
+${body}
+  </main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Placeholder page for a single learning activity (course shell exports)
+ */
+export function renderActivityPage(
+  course: CourseOutline,
+  module: CourseModule,
+  activity: CourseActivity,
+  stylesheetHref: string
+): string {
+  const meta = [
+    activity.type && `Type: ${activity.type}`,
+    activity.duration && `Duration: ${activity.duration}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return renderStandalonePage(
+    activity.title,
+    `${course.title} · ${module.title}`,
+    `${meta ? `    <p class="meta">${escapeHtml(meta)}</p>\n` : ''}    <div class="placeholder">
+      Placeholder activity generated from the Polaris blueprint. Replace this block with the
+      activity's instructions and materials.
+    </div>`,
+    stylesheetHref
+  );
+}
+
+/**
+ * Page listing the course completion criteria taken from the assessment
+ * strategy KPIs, for formats that cannot express them natively
+ */
+export function renderCompletionPage(course: CourseOutline, stylesheetHref: string): string {
+  const rows = course.completionCriteria
+    .map(
+      (c) =>
+        `        <tr><td>${escapeHtml(c.metric)}</td><td>${escapeHtml(c.target)}</td><td>${escapeHtml(c.measurementMethod)}</td><td>${escapeHtml(c.frequency)}</td></tr>`
+    )
+    .join('\n');
+
+  return renderStandalonePage(
+    'Course completion criteria',
+    course.title,
+    `    <table>
+      <thead><tr><th>Metric</th><th>Target</th><th>Measured by</th><th>Frequency</th></tr></thead>
+      <tbody>
+${rows}
+      </tbody>
+    </table>`,
+    stylesheetHref
+  );
+}
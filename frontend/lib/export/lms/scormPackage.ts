@@ -0,0 +1,248 @@
+/**
+ * SCORM Package Export
+ * Builds a SCORM 1.2 or SCORM 2004 (4th Edition) content package from a
+ * course outline: imsmanifest.xml, one SCO per module with a placeholder
+ * page, and a small shared runtime that reports completion and registers the
+ * blueprint's learning objectives with the LMS.
+ *
+ * Runs on the server (see /api/blueprints/[id]/export/[format]); nothing here
+ * touches the DOM.
+ */
+
+import JSZip from 'jszip';
+import type { CourseOutline } from './courseOutline';
+import { toSlug } from './courseOutline';
+import { escapeXml, renderModulePage, PLACEHOLDER_STYLESHEET } from './placeholderPages';
+
+export type ScormVersion = '1.2' | '2004';
+
+export const SCORM_RUNTIME_PATH = 'shared/scorm-runtime.js';
+export const SCORM_STYLESHEET_PATH = 'shared/style.css';
+
+const SHARED_RESOURCE_ID = 'RES_SHARED';
+
+/**
+ * Minimal SCORM runtime wrapper shared by every SCO. Written in ES5 since it
+ * runs inside whatever browser the LMS supports.
+ */
+export const SCORM_RUNTIME_SCRIPT = `(function () {
+  var body = document.body;
+  var is2004 = body.getAttribute('data-scorm-version') === '2004';
+  var methods = is2004
+    ? { init: 'Initialize', get: 'GetValue', set: 'SetValue', commit: 'Commit', finish: 'Terminate' }
+    : { init: 'LMSInitialize', get: 'LMSGetValue', set: 'LMSSetValue', commit: 'LMSCommit', finish: 'LMSFinish' };
+  var statusKey = is2004 ? 'cmi.completion_status' : 'cmi.core.lesson_status';
+  var finished = false;
+
+  function findApi(win) {
+    var name = is2004 ? 'API_1484_11' : 'API';
+    for (var depth = 0; win && depth < 10; depth++) {
+      if (win[name]) return win[name];
+      if (win.parent === win) break;
+      win = win.parent;
+    }
+    return null;
+  }
+
+  var api = findApi(window) || (window.opener ? findApi(window.opener) : null);
+
+  function call(method, args) {
+    if (!api || typeof api[methods[method]] !== 'function') return '';
+    return String(api[methods[method]].apply(api, args || ['']));
+  }
+
+  function showStatus(message) {
+    var status = document.getElementById('runtime-status');
+    if (status) status.textContent = message;
+  }
+
+  function finish() {
+    if (finished) return;
+    finished = true;
+    call('commit');
+    call('finish');
+  }
+
+  if (!api) {
+    showStatus('No LMS connection found. Progress will not be recorded.');
+  } else {
+    call('init');
+
+    var objectives = (body.getAttribute('data-objectives') || '').split(' ');
+    for (var i = 0; i < objectives.length; i++) {
+      if (objectives[i]) call('set', ['cmi.objectives.' + i + '.id', objectives[i]]);
+    }
+
+    var current = call('get', [statusKey]);
+    if (current !== 'completed' && current !== 'passed') {
+      call('set', [statusKey, 'incomplete']);
+    }
+    call('commit');
+  }
+
+  var button = document.getElementById('complete-module');
+  if (button) {
+    button.onclick = function () {
+      call('set', [statusKey, 'completed']);
+      call('commit');
+      button.disabled = true;
+      showStatus('Module marked complete.');
+    };
+  }
+
+  window.addEventListener('beforeunload', finish);
+  window.addEventListener('unload', finish);
+})();
+`;
+
+function modulePath(position: number, title: string): string {
+  return `modules/${String(position).padStart(2, '0')}-${toSlug(title)}/index.html`;
+}
+
+function manifestHeader(course: CourseOutline, version: ScormVersion): string {
+  if (version === '1.2') {
+    return `<manifest identifier="${escapeXml(course.identifier)}" version="1.0"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>`;
+  }
+
+  return `<manifest identifier="${escapeXml(course.identifier)}" version="1"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+  xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>`;
+}
+
+/**
+ * Global objective ID shared by every SCO that maps a learning objective, so
+ * the LMS rolls satisfaction up per objective rather than per module
+ */
+export function globalObjectiveId(course: CourseOutline, objectiveIdentifier: string): string {
+  return `urn:polaris:${course.identifier}:${objectiveIdentifier}`;
+}
+
+function sequencing2004(course: CourseOutline, moduleIdentifier: string): string {
+  const objectives = course.objectives
+    .map(
+      (objective) => `            <imsss:objective objectiveID="${escapeXml(objective.identifier)}">
+              <imsss:mapInfo targetObjectiveID="${escapeXml(globalObjectiveId(course, objective.identifier))}" readSatisfiedStatus="true" writeSatisfiedStatus="false" />
+            </imsss:objective>`
+    )
+    .join('\n');
+
+  return `
+        <imsss:sequencing>
+          <imsss:objectives>
+            <imsss:primaryObjective objectiveID="${escapeXml(moduleIdentifier)}_COMPLETE" />
+${objectives ? `${objectives}\n` : ''}          </imsss:objectives>
+        </imsss:sequencing>`;
+}
+
+/**
+ * imsmanifest.xml for the course
+ */
+export function buildScormManifest(course: CourseOutline, version: ScormVersion): string {
+  const scormType = version === '1.2' ? 'adlcp:scormtype' : 'adlcp:scormType';
+  const organizationId = `${course.identifier}_ORG`;
+
+  const items = course.modules
+    .map((module) => {
+      const id = escapeXml(module.identifier);
+      const sequencing = version === '2004' ? sequencing2004(course, module.identifier) : '';
+      return `      <item identifier="ITEM_${id}" identifierref="RES_${id}" isvisible="true">
+        <title>${escapeXml(module.title)}</title>${sequencing}
+      </item>`;
+    })
+    .join('\n');
+
+  const resources = course.modules
+    .map((module) => {
+      const href = modulePath(module.position, module.title);
+      return `    <resource identifier="RES_${escapeXml(module.identifier)}" type="webcontent" ${scormType}="sco" href="${escapeXml(href)}">
+      <file href="${escapeXml(href)}" />
+      <dependency identifierref="${SHARED_RESOURCE_ID}" />
+    </resource>`;
+    })
+    .join('\n');
+
+  const organizationSequencing =
+    version === '2004'
+      ? `
+      <imsss:sequencing>
+        <imsss:controlMode choice="true" flow="true" />
+      </imsss:sequencing>`
+      : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+${manifestHeader(course, version)}
+  <organizations default="${escapeXml(organizationId)}">
+    <organization identifier="${escapeXml(organizationId)}">
+      <title>${escapeXml(course.title)}</title>
+${items}${organizationSequencing}
+    </organization>
+  </organizations>
+  <resources>
+${resources}
+    <resource identifier="${SHARED_RESOURCE_ID}" type="webcontent" ${scormType}="asset">
+      <file href="${SCORM_RUNTIME_PATH}" />
+      <file href="${SCORM_STYLESHEET_PATH}" />
+    </resource>
+  </resources>
+</manifest>
+`;
+}
+
+/**
+ * Every file in the package, keyed by path
+ */
+export function buildScormFiles(course: CourseOutline, version: ScormVersion): Map<string, string> {
+  const files = new Map<string, string>();
+  files.set('imsmanifest.xml', buildScormManifest(course, version));
+  files.set(SCORM_RUNTIME_PATH, SCORM_RUNTIME_SCRIPT);
+  files.set(SCORM_STYLESHEET_PATH, PLACEHOLDER_STYLESHEET);
+
+  const objectiveIds = course.objectives.map((objective) => objective.identifier).join(' ');
+
+  for (const courseModule of course.modules) {
+    files.set(
+      modulePath(courseModule.position, courseModule.title),
+      renderModulePage(course, courseModule, {
+        stylesheetHref: `../../${SCORM_STYLESHEET_PATH}`,
+        scriptHref: `../../${SCORM_RUNTIME_PATH}`,
+        runtimeAttributes: {
+          'scorm-version': version,
+          objectives: objectiveIds,
+        },
+      })
+    );
+  }
+
+  return files;
+}
+
+/**
+ * Zip the package; imsmanifest.xml sits at the root as SCORM requires
+ */
+export async function buildScormPackage(
+  course: CourseOutline,
+  version: ScormVersion
+): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [path, content] of buildScormFiles(course, version)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
@@ -5,6 +5,42 @@ import { ExportData, ExportOptions, ExportResult, ExportMetadata } from './types
 import { PDFLayoutManager } from './pdfLayout';
 import { ChartCaptureService } from './chartCapture';
 import { blueprintPDFStyles, blueprintPDFColors, defaultPageConfig } from './pdfStyles';
+import { getStateName } from '@/lib/config/gst';
+import type { Invoice, InvoiceParty } from '@/lib/services/invoiceService';
+
+/**
+ * Draw the footer line, page numbers and a note on every page
+ */
+function drawPageFooters(doc: jsPDF, note: string): void {
+  const pageCount = doc.getNumberOfPages();
+
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+
+    // Footer line
+    doc.setDrawColor(...blueprintPDFColors.border);
+    doc.setLineWidth(0.5);
+    doc.line(
+      20,
+      doc.internal.pageSize.height - 15,
+      doc.internal.pageSize.width - 20,
+      doc.internal.pageSize.height - 15
+    );
+
+    // Page number
+    doc.setFont(blueprintPDFStyles.caption.family, 'normal');
+    doc.setFontSize(blueprintPDFStyles.caption.size);
+    doc.setTextColor(...blueprintPDFStyles.caption.color);
+    doc.text(
+      `Page ${i} of ${pageCount}`,
+      doc.internal.pageSize.width - 40,
+      doc.internal.pageSize.height - 10,
+      { align: 'right' }
+    );
+
+    doc.text(note, 20, doc.internal.pageSize.height - 10);
+  }
+}
 
 export class BlueprintPDFGenerator {
   private doc: jsPDF;
@@ -202,39 +238,7 @@ export class BlueprintPDFGenerator {
    * Add footer with page numbers
    */
   private addFooter(metadata: ExportMetadata): void {
-    const pageCount = this.doc.getNumberOfPages();
-
-    for (let i = 1; i <= pageCount; i++) {
-      this.doc.setPage(i);
-
-      // Footer line
-      this.doc.setDrawColor(...blueprintPDFColors.border);
-      this.doc.setLineWidth(0.5);
-      this.doc.line(
-        20,
-        this.doc.internal.pageSize.height - 15,
-        this.doc.internal.pageSize.width - 20,
-        this.doc.internal.pageSize.height - 15
-      );
-
-      // Page number
-      this.doc.setFont(blueprintPDFStyles.caption.family, 'normal');
-      this.doc.setFontSize(blueprintPDFStyles.caption.size);
-      this.doc.setTextColor(...blueprintPDFStyles.caption.color);
-      this.doc.text(
-        `Page ${i} of ${pageCount}`,
-        this.doc.internal.pageSize.width - 40,
-        this.doc.internal.pageSize.height - 10,
-        { align: 'right' }
-      );
-
-      // Export info
-      this.doc.text(
-        `Exported on ${new Date(metadata.exportedAt).toLocaleDateString()}`,
-        20,
-        this.doc.internal.pageSize.height - 10
-      );
-    }
+    drawPageFooters(this.doc, `Exported on ${new Date(metadata.exportedAt).toLocaleDateString()}`);
   }
 
   /**
@@ -244,3 +248,97 @@ export class BlueprintPDFGenerator {
     return this.doc;
   }
 }
+
+/**
+ * Format paise as rupees. jsPDF's standard fonts have no rupee sign.
+ */
+function formatInvoiceAmount(paise: number, currency: string): string {
+  return `${currency} ${(paise / 100).toLocaleString('en-IN', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function describeParty(party: InvoiceParty): string {
+  return [
+    party.legalName,
+    party.address,
+    `State: ${getStateName(party.stateCode)} (${party.stateCode})`,
+    party.gstin ? `GSTIN: ${party.gstin}` : 'GSTIN: Unregistered',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * GST tax invoice for a single payment, laid out with the same layout manager
+ * and styles as blueprint exports
+ */
+export class InvoicePDFGenerator {
+  private doc: jsPDF;
+  private layout: PDFLayoutManager;
+
+  constructor() {
+    this.doc = new jsPDF({
+      orientation: defaultPageConfig.orientation,
+      unit: defaultPageConfig.unit,
+      format: defaultPageConfig.format,
+      compress: true,
+    });
+
+    this.layout = new PDFLayoutManager(this.doc);
+  }
+
+  /**
+   * Render the invoice and return the PDF bytes
+   */
+  generateInvoicePDF(invoice: Invoice): ArrayBuffer {
+    const amount = (paise: number) => formatInvoiceAmount(paise, invoice.currency);
+    const intraState = invoice.cgstAmount > 0 || invoice.sgstAmount > 0;
+    const halfRate = `${invoice.taxRate / 2}%`;
+
+    this.layout.addSectionHeader('Tax Invoice', 1);
+    this.layout.addTable([
+      ['Invoice number', invoice.invoiceNumber],
+      ['Invoice date', new Date(invoice.issuedAt).toLocaleDateString('en-IN')],
+      ['Place of supply', `${getStateName(invoice.placeOfSupply)} (${invoice.placeOfSupply})`],
+      ['Payment reference', invoice.razorpayPaymentId],
+    ]);
+
+    this.layout.addSectionHeader('Supplier', 3);
+    this.layout.addTextContent(describeParty(invoice.seller));
+
+    this.layout.addSectionHeader('Billed to', 3);
+    this.layout.addTextContent(
+      [describeParty(invoice.buyer), invoice.buyer.email].filter(Boolean).join('\n')
+    );
+
+    this.layout.addSectionHeader('Details', 2);
+    this.layout.addTable(
+      [[invoice.description, invoice.seller.sacCode ?? '', amount(invoice.taxableAmount)]],
+      ['Description', 'SAC', 'Taxable value']
+    );
+
+    const taxRows = intraState
+      ? [
+          [`CGST @ ${halfRate}`, amount(invoice.cgstAmount)],
+          [`SGST @ ${halfRate}`, amount(invoice.sgstAmount)],
+        ]
+      : [[`IGST @ ${invoice.taxRate}%`, amount(invoice.igstAmount)]];
+
+    this.layout.addTable([
+      ['Taxable value', amount(invoice.taxableAmount)],
+      ...taxRows,
+      ['Total', amount(invoice.totalAmount)],
+    ]);
+
+    this.layout.addTextContent(
+      'This is a computer generated invoice and does not require a signature.',
+      'caption'
+    );
+
+    drawPageFooters(this.doc, invoice.invoiceNumber);
+
+    return this.doc.output('arraybuffer');
+  }
+}
@@ -0,0 +1,36 @@
+import type { BlueprintJSON } from '@/components/features/blueprints/types';
+import { DEFAULT_REPORT_THEME } from '@/store/blueprintStore';
+import { ExportData, ExportOptions, ExportResult } from './types';
+import { buildBlueprintPresentation, PPTX_MIME_TYPE } from './presentation';
+
+/**
+ * PowerPoint (PPTX) generator for stakeholder decks
+ */
+export class PptxGenerator {
+  public async generatePresentation(
+    data: ExportData,
+    options: ExportOptions
+  ): Promise<ExportResult> {
+    try {
+      const blueprint = data.blueprint as BlueprintJSON;
+      const bytes = await buildBlueprintPresentation(blueprint, {
+        title: blueprint.metadata?.title || data.metadata.title,
+        theme: options.theme ?? DEFAULT_REPORT_THEME,
+      });
+      const blob = new Blob([new Uint8Array(bytes)], { type: PPTX_MIME_TYPE });
+
+      return {
+        success: true,
+        data: blob,
+        metadata: data.metadata,
+        fileSize: blob.size,
+      };
+    } catch (error) {
+      console.error('PowerPoint generation failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'PowerPoint generation failed',
+      };
+    }
+  }
+}
@@ -0,0 +1,711 @@
+/**
+ * Blueprint Slide Deck
+ * Turns blueprint sections into slides using the same data the dashboard
+ * infographics use: objective tables with baselines and targets, modality
+ * charts, a Gantt view of the implementation timeline and a risk table.
+ */
+
+import type { BlueprintJSON, Phase } from '@/components/features/blueprints/types';
+import type { ReportTheme } from '@/store/blueprintStore';
+import type { Deck, Slide } from './ooxml';
+import { addChart, addElement, createSlide } from './ooxml';
+import {
+  bulletParagraph,
+  EMU_PER_INCH,
+  paragraph,
+  readableTextColor,
+  resolveDeckTheme,
+  shape,
+  SLIDE_HEIGHT,
+  SLIDE_WIDTH,
+  table,
+  type Box,
+  type DeckTheme,
+  type TableCell,
+} from './drawing';
+
+const ROWS_PER_TABLE = 6;
+const PHASES_PER_GANTT = 8;
+const MAX_BULLETS = 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TITLE_HEIGHT = 0.75 * EMU_PER_INCH;
+const CONTENT_OFFSET = 1.05 * EMU_PER_INCH;
+const FOOTER_HEIGHT = 0.3 * EMU_PER_INCH;
+
+const LEVEL_FILLS: Array<[RegExp, string]> = [
+  [/high|critical|severe/i, 'F8D7DA'],
+  [/medium|moderate/i, 'FFF3CD'],
+  [/low|minor/i, 'D4EDDA'],
+];
+
+export interface BlueprintDeckOptions {
+  title: string;
+  theme: ReportTheme;
+  now?: Date;
+}
+
+export interface GanttRow {
+  label: string;
+  /** Fractions of the timeline width, 0..1 */
+  start: number;
+  end: number;
+  dates: string;
+}
+
+export interface GanttPlan {
+  rows: GanttRow[];
+  ticks: Array<{ label: string; position: number }>;
+}
+
+function asArray<T>(value: T[] | undefined | null): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const pages: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    pages.push(items.slice(i, i + size));
+  }
+  return pages;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Strip markdown emphasis, headings and links down to plain text
+ */
+export function plainText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^#+\s*/gm, '')
+    .replace(/(\*\*|__|\*|`)/g, '')
+    .trim();
+}
+
+/**
+ * Up to MAX_BULLETS bullet points from free text: list items and paragraphs
+ * are kept as-is, a single paragraph is split into sentences.
+ */
+export function toBulletPoints(content: string, max = MAX_BULLETS): string[] {
+  const lines = plainText(content)
+    .split(/\n+/)
+    .map((line) => line.replace(/^\s*(?:[-•]|\d+[.)])\s+/, '').trim())
+    .filter(Boolean);
+  const points = lines.length > 1 ? lines : (lines[0] ?? '').split(/(?<=[.!?])\s+/).filter(Boolean);
+  return points.slice(0, max).map((point) => truncate(point, 220));
+}
+
+function formatDate(value: string, options: Intl.DateTimeFormatOptions): string {
+  const time = Date.parse(value);
+  return Number.isNaN(time)
+    ? value
+    : new Date(time).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency || 'USD',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${currency} ${amount.toLocaleString('en-US')}`.trim();
+  }
+}
+
+function levelCell(level: string): TableCell {
+  const fill = LEVEL_FILLS.find(([pattern]) => pattern.test(level))?.[1];
+  return { text: level, fill };
+}
+
+/**
+ * Position phases on a shared time axis. Phases without parseable dates fall
+ * back to equal, sequential slots.
+ */
+export function planGantt(phases: Phase[]): GanttPlan {
+  const spans = phases.map((phase) => ({
+    phase,
+    start: Date.parse(phase.start_date),
+    // End dates are inclusive
+    end: Date.parse(phase.end_date) + DAY_MS,
+  }));
+  const dated = spans.every((span) => !Number.isNaN(span.start) && span.end > span.start);
+
+  if (!dated || spans.length === 0) {
+    return {
+      rows: phases.map((phase, i) => ({
+        label: phase.phase,
+        start: i / phases.length,
+        end: (i + 1) / phases.length,
+        dates: [phase.start_date, phase.end_date].filter(Boolean).join(' – '),
+      })),
+      ticks: [],
+    };
+  }
+
+  const min = Math.min(...spans.map((span) => span.start));
+  const max = Math.max(...spans.map((span) => span.end));
+  const position = (time: number) => (time - min) / (max - min);
+  const short: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
+
+  const first = new Date(min);
+  const cursor = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), 1));
+  const months =
+    (new Date(max).getUTCFullYear() - cursor.getUTCFullYear()) * 12 +
+    new Date(max).getUTCMonth() -
+    cursor.getUTCMonth() +
+    1;
+  const step = Math.max(1, Math.ceil(months / 8));
+
+  const ticks: GanttPlan['ticks'] = [];
+  for (; cursor.getTime() < max; cursor.setUTCMonth(cursor.getUTCMonth() + step)) {
+    if (cursor.getTime() < min) continue;
+    ticks.push({
+      label: cursor.toLocaleDateString('en-US', {
+        month: 'short',
+        year: 'numeric',
+        timeZone: 'UTC',
+      }),
+      position: position(cursor.getTime()),
+    });
+  }
+
+  return {
+    rows: spans.map(({ phase, start, end }) => ({
+      label: phase.phase,
+      start: position(start),
+      end: position(end),
+      dates: `${formatDate(phase.start_date, short)} – ${formatDate(phase.end_date, short)}`,
+    })),
+    ticks,
+  };
+}
+
+class DeckBuilder {
+  readonly slides: Slide[] = [];
+
+  constructor(
+    readonly theme: DeckTheme,
+    private readonly deckTitle: string
+  ) {}
+
+  get content(): Box {
+    const { margin } = this.theme;
+    const y = margin + CONTENT_OFFSET;
+    return {
+      x: margin,
+      y,
+      cx: SLIDE_WIDTH - 2 * margin,
+      cy: SLIDE_HEIGHT - y - margin - FOOTER_HEIGHT,
+    };
+  }
+
+  /**
+   * A slide with a title, an accent rule under it and a footer
+   */
+  section(title: string): Slide {
+    const { theme } = this;
+    const slide = createSlide(title);
+    const number = this.slides.length + 1;
+    const footerY = SLIDE_HEIGHT - theme.margin - FOOTER_HEIGHT;
+    const width = SLIDE_WIDTH - 2 * theme.margin;
+
+    addElement(slide, (id) =>
+      shape(
+        id,
+        'Title',
+        { x: theme.margin, y: theme.margin, cx: width, cy: TITLE_HEIGHT },
+        { paragraphs: [paragraph(theme, title, { size: 28, bold: true })], anchor: 'b', inset: 0 }
+      )
+    );
+    addElement(slide, (id) =>
+      shape(
+        id,
+        'Title Rule',
+        {
+          x: theme.margin,
+          y: theme.margin + TITLE_HEIGHT + 0.08 * EMU_PER_INCH,
+          cx: 1.2 * EMU_PER_INCH,
+          cy: 0.06 * EMU_PER_INCH,
+        },
+        { fill: theme.primary }
+      )
+    );
+    addElement(slide, (id) =>
+      shape(
+        id,
+        'Footer',
+        { x: theme.margin, y: footerY, cx: width, cy: FOOTER_HEIGHT },
+        {
+          paragraphs: [
+            paragraph(theme, `${this.deckTitle}  |  ${number}`, {
+              size: 10,
+              color: theme.muted,
+              align: 'r',
+            }),
+          ],
+          anchor: 'b',
+          inset: 0,
+        }
+      )
+    );
+
+    this.slides.push(slide);
+    return slide;
+  }
+
+  bullets(slide: Slide, box: Box, points: string[], size = 18): void {
+    addElement(slide, (id) =>
+      shape(id, 'Content', box, {
+        paragraphs: points.map((point) => bulletParagraph(this.theme, point, { size })),
+        inset: 0,
+      })
+    );
+  }
+
+  /**
+   * One or more slides holding a table, ROWS_PER_TABLE rows at a time
+   */
+  tableSlides(
+    title: string,
+    columns: number[],
+    header: string[],
+    rows: Array<Array<string | TableCell>>
+  ): void {
+    chunk(rows, ROWS_PER_TABLE).forEach((page, i) => {
+      const slide = this.section(i === 0 ? title : `${title} (cont.)`);
+      const box = this.content;
+      const height = Math.min(box.cy, (page.length + 1) * 0.55 * EMU_PER_INCH);
+      addElement(slide, (id) =>
+        table(id, title, { ...box, cy: height }, this.theme, { columns, header, rows: page })
+      );
+    });
+  }
+
+  /**
+   * Left and right halves of the content area
+   */
+  columns(): [Box, Box] {
+    const box = this.content;
+    const gap = 0.4 * EMU_PER_INCH;
+    const half = (box.cx - gap) / 2;
+    return [
+      { ...box, cx: half },
+      { ...box, x: box.x + half + gap, cx: half },
+    ];
+  }
+}
+
+function addTitleSlide(
+  builder: DeckBuilder,
+  blueprint: BlueprintJSON,
+  options: BlueprintDeckOptions
+) {
+  const { theme } = builder;
+  const slide = createSlide(options.title);
+  const textColor = readableTextColor(theme.primary);
+  const width = SLIDE_WIDTH - 2 * theme.margin - 0.4 * EMU_PER_INCH;
+  const metadata = blueprint.metadata ?? ({} as BlueprintJSON['metadata']);
+  const subtitle = [metadata.organization, metadata.role].filter(Boolean).join('  ·  ');
+  const generated = formatDate(metadata.generated_at || (options.now ?? new Date()).toISOString(), {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  addElement(slide, (id) =>
+    shape(
+      id,
+      'Background',
+      { x: 0, y: 0, cx: SLIDE_WIDTH, cy: SLIDE_HEIGHT },
+      { fill: theme.primary }
+    )
+  );
+  addElement(slide, (id) =>
+    shape(
+      id,
+      'Accent',
+      { x: 0, y: 0, cx: 0.25 * EMU_PER_INCH, cy: SLIDE_HEIGHT },
+      { fill: theme.accent }
+    )
+  );
+  addElement(slide, (id) =>
+    shape(
+      id,
+      'Title',
+      {
+        x: theme.margin + 0.4 * EMU_PER_INCH,
+        y: 2 * EMU_PER_INCH,
+        cx: width,
+        cy: 1.6 * EMU_PER_INCH,
+      },
+      {
+        paragraphs: [paragraph(theme, options.title, { size: 40, bold: true, color: textColor })],
+        anchor: 'b',
+        inset: 0,
+      }
+    )
+  );
+  addElement(slide, (id) =>
+    shape(
+      id,
+      'Subtitle',
+      {
+        x: theme.margin + 0.4 * EMU_PER_INCH,
+        y: 3.75 * EMU_PER_INCH,
+        cx: width,
+        cy: 1.2 * EMU_PER_INCH,
+      },
+      {
+        paragraphs: [
+          paragraph(theme, subtitle, { size: 20, color: textColor }),
+          paragraph(theme, `Learning blueprint  ·  ${generated}`, { size: 14, color: textColor }),
+        ],
+        inset: 0,
+      }
+    )
+  );
+
+  builder.slides.push(slide);
+}
+
+function addTextSlide(builder: DeckBuilder, title: string, content: string | undefined) {
+  const points = toBulletPoints(content ?? '');
+  if (points.length === 0) return;
+  builder.bullets(builder.section(title), builder.content, points);
+}
+
+function addObjectives(builder: DeckBuilder, blueprint: BlueprintJSON) {
+  const objectives = asArray(blueprint.learning_objectives?.objectives);
+  if (objectives.length === 0) return;
+
+  builder.tableSlides(
+    'Learning Objectives',
+    [3, 2, 1.3, 1.3, 1.3],
+    ['Objective', 'Metric', 'Baseline', 'Target', 'Due'],
+    objectives.map((objective) => [
+      { text: truncate(objective.title ?? '', 120), bold: true },
+      truncate(objective.metric ?? '', 80),
+      String(objective.baseline ?? ''),
+      String(objective.target ?? ''),
+      formatDate(objective.due_date ?? '', { month: 'short', day: 'numeric', year: 'numeric' }),
+    ])
+  );
+}
+
+function addAudience(builder: DeckBuilder, blueprint: BlueprintJSON) {
+  const audience = blueprint.target_audience;
+  if (!audience) return;
+
+  const points = [
+    asArray(audience.demographics?.roles).length
+      ? `Roles: ${asArray(audience.demographics?.roles).join(', ')}`
+      : '',
+    asArray(audience.demographics?.experience_levels).length
+      ? `Experience: ${asArray(audience.demographics?.experience_levels).join(', ')}`
+      : '',
+    ...asArray(audience.demographics?.department_distribution).map(
+      (department) => `${department.department}: ${department.percentage}%`
+    ),
+  ]
+    .filter(Boolean)
+    .slice(0, MAX_BULLETS)
+    .map((point) => truncate(point, 160));
+  const modalities = asArray(audience.learning_preferences?.modalities);
+  if (points.length === 0 && modalities.length === 0) return;
+
+  const slide = builder.section('Target Audience');
+  if (modalities.length === 0) {
+    builder.bullets(slide, builder.content, points);
+    return;
+  }
+
+  const [left, right] = points.length > 0 ? builder.columns() : [null, builder.content];
+  if (left) builder.bullets(slide, left, points, 16);
+  addChart(slide, 'Learning Preferences', right, {
+    kind: 'bar',
+    seriesName: 'Learning preference (%)',
+    categories: modalities.map((modality) => modality.type),
+    values: modalities.map((modality) => Number(modality.percentage) || 0),
+  });
+}
+
+function addStrategy(builder: DeckBuilder, blueprint: BlueprintJSON) {
+  const strategy = blueprint.instructional_strategy;
+  const modalities = asArray(strategy?.modalities);
+  if (modalities.length === 0) {
+    addTextSlide(builder, 'Instructional Strategy', strategy?.overview);
+    return;
+  }
+
+  const slide = builder.section('Instructional Strategy');
+  const [left, right] = builder.columns();
+  addChart(slide, 'Modality Allocation', left, {
+    kind: 'pie',
+    seriesName: 'Allocation (%)',
+    categories: modalities.map((modality) => modality.type),
+    values: modalities.map((modality) => Number(modality.allocation_percent) || 0),
+  });
+  builder.bullets(
+    slide,
+    right,
+    modalities
+      .slice(0, MAX_BULLETS)
+      .map((modality) =>
+        truncate(
+          `${modality.type} (${modality.allocation_percent}%): ${plainText(modality.rationale ?? '')}`,
+          150
+        )
+      ),
+    14
+  );
+}
+
+function addContentOutline(builder: DeckBuilder, blueprint: BlueprintJSON) {
+  const modules = asArray(blueprint.content_outline?.modules);
+  if (modules.length === 0) return;
+
+  builder.tableSlides(
+    'Content Outline',
+    [2.6, 1.2, 1.6, 3.6],
+    ['Module', 'Duration', 'Delivery', 'Topics'],
+    modules.map((module) => [
+      { text: truncate(module.title ?? '', 90), bold: true },
+      module.duration ?? '',
+      module.delivery_method ?? '',
+      truncate(asArray(module.topics).join(', '), 140),
+    ])
+  );
+}
+
+function addResources(builder: DeckBuilder, blueprint: BlueprintJSON) {
+  const resources = blueprint.resources;
+  if (!resources) return;
+
+  const budgetItems = asArray(resources.budget?.items);
+  const points = [
+    ...asArray(resources.human_resources).map(
+      (person) => `${person.role}: ${person.fte} FTE, ${person.duration}`
+    ),
+    ...asArray(resources.tools_and_platforms).map((tool) => `${tool.name} (${tool.category})`),
+  ]
+    .slice(0, MAX_BULLETS)
+    .map((point) => truncate(point, 140));
+  if (budgetItems.length === 0 && points.length === 0) return;
+
+  const slide = builder.section('Resources & Budget');
+  if (budgetItems.length === 0) {
+    builder.bullets(slide, builder.content, points);
+    return;
+  }
+
+  const [left, right] = points.length > 0 ? builder.columns() : [builder.content, null];
+  const currency = resources.budget?.currency ?? 'USD';
+  const rows: Array<Array<string | TableCell>> = budgetItems
+    .slice(0, ROWS_PER_TABLE + 2)
+    .map((item) => [item.item, formatAmount(Number(item.amount) || 0, currency)]);
+  const total = resources.budget?.total;
+  if (typeof total === 'number') {
+    rows.push([
+      { text: 'Total', bold: true },
+      { text: formatAmount(total, currency), bold: true },
+    ]);
+  }
+  const height = Math.min(left.cy, (rows.length + 1) * 0.45 * EMU_PER_INCH);
+  addElement(slide, (id) =>
+    table(id, 'Budget', { ...left, cy: height }, builder.theme, {
+      columns: [2, 1],
+      header: ['Budget item', 'Amount'],
+      rows,
+      fontSize: 11,
+    })
+  );
+  if (right) builder.bullets(slide, right, points, 14);
+}
+
+function addAssessment(builder: DeckBuilder, blueprint: BlueprintJSON) {
+  const kpis = asArray(blueprint.assessment_strategy?.kpis);
+  if (kpis.length === 0) {
+    addTextSlide(builder, 'Assessment Strategy', blueprint.assessment_strategy?.overview);
+    return;
+  }
+
+  builder.tableSlides(
+    'Assessment KPIs',
+    [2.5, 1.6, 2.4, 1.4],
+    ['KPI', 'Target', 'Measurement', 'Frequency'],
+    kpis.map((kpi) => [
+      { text: truncate(kpi.metric ?? '', 100), bold: true },
+      kpi.target ?? '',
+      truncate(kpi.measurement_method ?? '', 100),
+      kpi.frequency ?? '',
+    ])
+  );
+}
+
+function addTimeline(builder: DeckBuilder, blueprint: BlueprintJSON) {
+  const phases = asArray(blueprint.implementation_timeline?.phases);
+  if (phases.length === 0) return;
+
+  const { theme } = builder;
+  const plan = planGantt(phases);
+  const labelWidth = 2.6 * EMU_PER_INCH;
+  const axisHeight = 0.4 * EMU_PER_INCH;
+
+  chunk(plan.rows, PHASES_PER_GANTT).forEach((rows, page) => {
+    const slide = builder.section(
+      page === 0 ? 'Implementation Timeline' : 'Implementation Timeline (cont.)'
+    );
+    const box = builder.content;
+    const area = { x: box.x + labelWidth, cx: box.cx - labelWidth };
+    const rowHeight = Math.min(0.6 * EMU_PER_INCH, (box.cy - axisHeight) / rows.length);
+
+    for (const tick of plan.ticks) {
+      const x = area.x + tick.position * area.cx;
+      addElement(slide, (id) =>
+        shape(
+          id,
+          'Gridline',
+          { x, y: box.y + axisHeight, cx: 6350, cy: rows.length * rowHeight },
+          { fill: 'D9DEE3' }
+        )
+      );
+      addElement(slide, (id) =>
+        shape(
+          id,
+          'Axis Label',
+          { x, y: box.y, cx: 1.2 * EMU_PER_INCH, cy: axisHeight },
+          {
+            paragraphs: [paragraph(theme, tick.label, { size: 10, color: theme.muted })],
+            anchor: 'b',
+            inset: 0,
+          }
+        )
+      );
+    }
+
+    rows.forEach((row, i) => {
+      const y = box.y + axisHeight + i * rowHeight;
+      const fill = (page * PHASES_PER_GANTT + i) % 2 === 0 ? theme.primary : theme.accent;
+
+      addElement(slide, (id) =>
+        shape(
+          id,
+          'Phase',
+          { x: box.x, y, cx: labelWidth - 0.15 * EMU_PER_INCH, cy: rowHeight },
+          {
+            paragraphs: [paragraph(theme, truncate(row.label, 60), { size: 12, bold: true })],
+            anchor: 'ctr',
+            inset: 0,
+          }
+        )
+      );
+      addElement(slide, (id) =>
+        shape(
+          id,
+          'Phase Bar',
+          {
+            x: area.x + row.start * area.cx,
+            y: y + rowHeight * 0.2,
+            cx: Math.max((row.end - row.start) * area.cx, 0.1 * EMU_PER_INCH),
+            cy: rowHeight * 0.6,
+          },
+          {
+            geometry: 'roundRect',
+            fill,
+            paragraphs: [paragraph(theme, row.dates, { size: 10, color: readableTextColor(fill) })],
+            anchor: 'ctr',
+          }
+        )
+      );
+    });
+  });
+}
+
+function addRisks(builder: DeckBuilder, blueprint: BlueprintJSON) {
+  const risks = asArray(blueprint.risk_mitigation?.risks);
+  if (risks.length === 0) return;
+
+  builder.tableSlides(
+    'Risks & Mitigation',
+    [2.6, 1.1, 1.1, 3.6],
+    ['Risk', 'Probability', 'Impact', 'Mitigation'],
+    risks.map((risk) => [
+      { text: truncate(risk.risk ?? '', 110), bold: true },
+      levelCell(risk.probability ?? ''),
+      levelCell(risk.impact ?? ''),
+      truncate(risk.mitigation_strategy ?? '', 160),
+    ])
+  );
+}
+
+function addSuccessMetrics(builder: DeckBuilder, blueprint: BlueprintJSON) {
+  const metrics = asArray(blueprint.success_metrics?.metrics);
+  if (metrics.length === 0) return;
+
+  builder.tableSlides(
+    'Success Metrics',
+    [2.4, 1.4, 1.4, 2.2, 1.4],
+    ['Metric', 'Baseline', 'Target', 'Measurement', 'Timeline'],
+    metrics.map((metric) => [
+      { text: truncate(metric.metric ?? '', 100), bold: true },
+      metric.current_baseline ?? '',
+      metric.target ?? '',
+      truncate(metric.measurement_method ?? '', 100),
+      metric.timeline ?? '',
+    ])
+  );
+}
+
+function addSustainability(builder: DeckBuilder, blueprint: BlueprintJSON) {
+  const plan = blueprint.sustainability_plan;
+  if (!plan) return;
+
+  const review = plan.maintenance_schedule?.review_frequency;
+  const points = [
+    ...toBulletPoints(plan.content ?? '', 3),
+    review ? `Review ${review.toLowerCase()}` : '',
+    ...asArray(plan.scaling_considerations).map((item) => truncate(item, 160)),
+  ]
+    .filter(Boolean)
+    .slice(0, MAX_BULLETS);
+  if (points.length === 0) return;
+
+  builder.bullets(builder.section('Sustainability Plan'), builder.content, points);
+}
+
+/**
+ * Lay out the deck. Sections missing from the blueprint are skipped.
+ */
+export function buildBlueprintDeck(blueprint: BlueprintJSON, options: BlueprintDeckOptions): Deck {
+  const theme = resolveDeckTheme(options.theme);
+  const builder = new DeckBuilder(theme, options.title);
+
+  addTitleSlide(builder, blueprint, options);
+  addTextSlide(builder, 'Executive Summary', blueprint.executive_summary?.content);
+  addObjectives(builder, blueprint);
+  addAudience(builder, blueprint);
+  addStrategy(builder, blueprint);
+  addContentOutline(builder, blueprint);
+  addResources(builder, blueprint);
+  addAssessment(builder, blueprint);
+  addTimeline(builder, blueprint);
+  addRisks(builder, blueprint);
+  addSuccessMetrics(builder, blueprint);
+  addSustainability(builder, blueprint);
+
+  if (builder.slides.length === 1) {
+    throw new Error('Blueprint has no sections to present');
+  }
+
+  return {
+    title: options.title,
+    author: blueprint.metadata?.organization || 'Polaris',
+    theme,
+    slides: builder.slides,
+  };
+}
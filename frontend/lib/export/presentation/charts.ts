@@ -0,0 +1,140 @@
+/**
+ * Slide Charts
+ * Native PowerPoint charts. Each chart carries an embedded workbook holding
+ * its data so "Edit Data" works in PowerPoint, with the same values cached in
+ * the chart part for rendering.
+ */
+
+import JSZip from 'jszip';
+import { escapeXml } from '../lms/placeholderPages';
+import type { DeckTheme } from './drawing';
+import { shadeColor } from './drawing';
+
+export interface ChartSpec {
+  kind: 'bar' | 'pie';
+  /** Series name, shown as the workbook column header */
+  seriesName: string;
+  categories: string[];
+  /** Percentages */
+  values: number[];
+}
+
+/**
+ * Slice/bar colours cycling through the theme
+ */
+export function chartPalette(theme: DeckTheme, count: number): string[] {
+  const base = [
+    theme.primary,
+    theme.accent,
+    shadeColor(theme.primary, 0.7),
+    shadeColor(theme.accent, 0.7),
+  ];
+  return Array.from({ length: count }, (_, i) => {
+    const round = Math.floor(i / base.length);
+    return round === 0 ? base[i % base.length] : shadeColor(base[i % base.length], 0.85 ** round);
+  });
+}
+
+function stringCache(values: string[]): string {
+  const points = values
+    .map((value, i) => `<c:pt idx="${i}"><c:v>${escapeXml(value)}</c:v></c:pt>`)
+    .join('');
+  return `<c:strCache><c:ptCount val="${values.length}"/>${points}</c:strCache>`;
+}
+
+function numberCache(values: number[]): string {
+  const points = values.map((value, i) => `<c:pt idx="${i}"><c:v>${value}</c:v></c:pt>`).join('');
+  return `<c:numCache><c:formatCode>General</c:formatCode><c:ptCount val="${values.length}"/>${points}</c:numCache>`;
+}
+
+function fill(color: string): string {
+  return `<c:spPr><a:solidFill><a:srgbClr val="${color}"/></a:solidFill></c:spPr>`;
+}
+
+const PERCENT_LABELS =
+  '<c:dLbls><c:numFmt formatCode="0&quot;%&quot;" sourceLinked="0"/><c:showLegendKey val="0"/><c:showVal val="1"/><c:showCatName val="0"/><c:showSerName val="0"/><c:showPercent val="0"/><c:showBubbleSize val="0"/></c:dLbls>';
+
+function renderSeries(spec: ChartSpec, theme: DeckTheme): string {
+  const last = spec.categories.length + 1;
+  const points =
+    spec.kind === 'pie'
+      ? chartPalette(theme, spec.values.length)
+          .map(
+            (color, i) => `<c:dPt><c:idx val="${i}"/><c:bubble3D val="0"/>${fill(color)}</c:dPt>`
+          )
+          .join('')
+      : '';
+  const barOnly = spec.kind === 'bar' ? '<c:invertIfNegative val="0"/>' : '';
+
+  return `<c:ser><c:idx val="0"/><c:order val="0"/><c:tx><c:strRef><c:f>Sheet1!$B$1</c:f>${stringCache([spec.seriesName])}</c:strRef></c:tx>${fill(theme.primary)}${barOnly}${points}${PERCENT_LABELS}<c:cat><c:strRef><c:f>Sheet1!$A$2:$A$${last}</c:f>${stringCache(spec.categories)}</c:strRef></c:cat><c:val><c:numRef><c:f>Sheet1!$B$2:$B$${last}</c:f>${numberCache(spec.values)}</c:numRef></c:val></c:ser>`;
+}
+
+function renderPlotArea(spec: ChartSpec, theme: DeckTheme): string {
+  if (spec.kind === 'pie') {
+    return `<c:plotArea><c:layout/><c:pieChart><c:varyColors val="1"/>${renderSeries(spec, theme)}<c:firstSliceAng val="0"/></c:pieChart></c:plotArea><c:legend><c:legendPos val="r"/><c:overlay val="0"/></c:legend>`;
+  }
+
+  // Horizontal bars, first category at the top
+  return `<c:plotArea><c:layout/><c:barChart><c:barDir val="bar"/><c:grouping val="clustered"/><c:varyColors val="0"/>${renderSeries(spec, theme)}<c:gapWidth val="60"/><c:axId val="111"/><c:axId val="222"/></c:barChart><c:catAx><c:axId val="111"/><c:scaling><c:orientation val="maxMin"/></c:scaling><c:delete val="0"/><c:axPos val="l"/><c:numFmt formatCode="General" sourceLinked="0"/><c:majorTickMark val="none"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/><c:crossAx val="222"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/><c:noMultiLvlLbl val="0"/></c:catAx><c:valAx><c:axId val="222"/><c:scaling><c:orientation val="minMax"/><c:max val="100"/><c:min val="0"/></c:scaling><c:delete val="1"/><c:axPos val="b"/><c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="none"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/><c:crossAx val="111"/><c:crosses val="max"/><c:crossBetween val="between"/></c:valAx></c:plotArea>`;
+}
+
+/**
+ * Chart part XML (ppt/charts/chartN.xml). The embedded workbook is its
+ * relationship rId1.
+ */
+export function renderChart(spec: ChartSpec, theme: DeckTheme): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><c:date1904 val="0"/><c:roundedCorners val="0"/><c:chart><c:autoTitleDeleted val="1"/>${renderPlotArea(spec, theme)}<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart><c:txPr><a:bodyPr/><a:lstStyle/><a:p><a:pPr><a:defRPr sz="1200"><a:solidFill><a:srgbClr val="${theme.text}"/></a:solidFill><a:latin typeface="${escapeXml(theme.font)}"/></a:defRPr></a:pPr><a:endParaRPr lang="en-US"/></a:p></c:txPr><c:externalData r:id="rId1"><c:autoUpdate val="0"/></c:externalData></c:chartSpace>
+`;
+}
+
+function inlineString(ref: string, value: string): string {
+  return `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * The chart data as a one-sheet .xlsx: categories in column A, values in B
+ */
+export async function buildChartWorkbook(spec: ChartSpec): Promise<Uint8Array> {
+  const rows = [
+    `<row r="1">${inlineString('A1', '')}${inlineString('B1', spec.seriesName)}</row>`,
+    ...spec.categories.map(
+      (category, i) =>
+        `<row r="${i + 2}">${inlineString(`A${i + 2}`, category)}<c r="B${i + 2}"><v>${spec.values[i]}</v></c></row>`
+    ),
+  ].join('');
+
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>
+`
+  );
+  zip.file(
+    '_rels/.rels',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>
+`
+  );
+  zip.file(
+    'xl/workbook.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Sheet1" sheetId="1" r:id="rId1"/></sheets></workbook>
+`
+  );
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>
+`
+  );
+  zip.file(
+    'xl/worksheets/sheet1.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows}</sheetData></worksheet>
+`
+  );
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
@@ -0,0 +1,205 @@
+/**
+ * Slide Drawing Primitives
+ * DrawingML fragments for text boxes, shapes and tables. Positions are in
+ * EMUs (914400 per inch); every element takes a shape id that is unique
+ * within its slide.
+ */
+
+import type { ReportTheme } from '@/store/blueprintStore';
+import { escapeXml } from '../lms/placeholderPages';
+
+export const EMU_PER_INCH = 914400;
+export const SLIDE_WIDTH = 12192000;
+export const SLIDE_HEIGHT = 6858000;
+
+export interface Box {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+}
+
+export interface DeckTheme {
+  /** RRGGBB, no leading # */
+  primary: string;
+  accent: string;
+  text: string;
+  muted: string;
+  font: string;
+  /** Slide margin in EMUs, from ReportTheme.spacing */
+  margin: number;
+}
+
+const SPACING_MARGINS: Record<ReportTheme['spacing'], number> = {
+  tight: 0.4 * EMU_PER_INCH,
+  normal: 0.5 * EMU_PER_INCH,
+  relaxed: 0.7 * EMU_PER_INCH,
+};
+
+/**
+ * Normalise a CSS hex colour (#abc or #aabbcc) to RRGGBB
+ */
+export function toHexColor(value: string | undefined, fallback: string): string {
+  const hex = value?.trim().replace(/^#/, '') ?? '';
+  if (/^[0-9a-f]{6}$/i.test(hex)) return hex.toUpperCase();
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    return hex
+      .split('')
+      .map((c) => c + c)
+      .join('')
+      .toUpperCase();
+  }
+  return fallback;
+}
+
+/**
+ * Darken (factor < 1) a RRGGBB colour
+ */
+export function shadeColor(hex: string, factor: number): string {
+  return [0, 2, 4]
+    .map((i) => Math.round(parseInt(hex.slice(i, i + 2), 16) * factor))
+    .map((channel) => Math.min(255, channel).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+/**
+ * Dark or white text, whichever reads better on the given fill
+ */
+export function readableTextColor(fill: string): string {
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(fill.slice(i, i + 2), 16) / 255);
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return luminance > 0.55 ? '1F2933' : 'FFFFFF';
+}
+
+export function resolveDeckTheme(theme: ReportTheme): DeckTheme {
+  const font = theme.fontFamily.split(',')[0].replace(/["']/g, '').trim();
+  return {
+    primary: toHexColor(theme.primaryColor, 'A7DADA'),
+    accent: toHexColor(theme.accentColor, 'E6B89C'),
+    text: '1F2933',
+    muted: '5F6B7A',
+    font: font || 'Calibri',
+    margin: SPACING_MARGINS[theme.spacing] ?? SPACING_MARGINS.normal,
+  };
+}
+
+export interface TextStyle {
+  /** Points */
+  size: number;
+  bold?: boolean;
+  color?: string;
+  align?: 'l' | 'ctr' | 'r';
+}
+
+export interface ShapeOptions {
+  geometry?: 'rect' | 'roundRect';
+  fill?: string;
+  line?: string;
+  /** Paragraph XML from paragraph()/bulletParagraph() */
+  paragraphs?: string[];
+  anchor?: 't' | 'ctr' | 'b';
+  /** Left/right text inset in EMUs */
+  inset?: number;
+}
+
+function runProperties(theme: DeckTheme, style: TextStyle): string {
+  const bold = style.bold ? ' b="1"' : '';
+  return `<a:rPr lang="en-US" sz="${Math.round(style.size * 100)}"${bold} dirty="0"><a:solidFill><a:srgbClr val="${style.color ?? theme.text}"/></a:solidFill><a:latin typeface="${escapeXml(theme.font)}"/></a:rPr>`;
+}
+
+export function paragraph(theme: DeckTheme, text: string, style: TextStyle): string {
+  const align = style.align ? `<a:pPr algn="${style.align}"/>` : '';
+  if (!text) {
+    return `<a:p>${align}<a:endParaRPr lang="en-US" sz="${Math.round(style.size * 100)}"/></a:p>`;
+  }
+  return `<a:p>${align}<a:r>${runProperties(theme, style)}<a:t>${escapeXml(text)}</a:t></a:r></a:p>`;
+}
+
+export function bulletParagraph(theme: DeckTheme, text: string, style: TextStyle): string {
+  return `<a:p><a:pPr marL="285750" indent="-285750"><a:spcBef><a:spcPts val="600"/></a:spcBef><a:buClr><a:srgbClr val="${theme.primary}"/></a:buClr><a:buFont typeface="Arial"/><a:buChar char="&#8226;"/></a:pPr><a:r>${runProperties(theme, style)}<a:t>${escapeXml(text)}</a:t></a:r></a:p>`;
+}
+
+function transform(box: Box): string {
+  return `<a:xfrm><a:off x="${Math.round(box.x)}" y="${Math.round(box.y)}"/><a:ext cx="${Math.round(box.cx)}" cy="${Math.round(box.cy)}"/></a:xfrm>`;
+}
+
+function solidFill(color: string | undefined): string {
+  return color ? `<a:solidFill><a:srgbClr val="${color}"/></a:solidFill>` : '<a:noFill/>';
+}
+
+/**
+ * A rectangle, optionally filled and holding text
+ */
+export function shape(id: number, name: string, box: Box, options: ShapeOptions = {}): string {
+  const inset = options.inset ?? 91440;
+  const line = options.line
+    ? `<a:ln w="9525">${solidFill(options.line)}</a:ln>`
+    : '<a:ln><a:noFill/></a:ln>';
+  const paragraphs = options.paragraphs?.length
+    ? options.paragraphs.join('')
+    : '<a:p><a:endParaRPr lang="en-US"/></a:p>';
+
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${escapeXml(name)}"/><p:cNvSpPr${options.fill ? '' : ' txBox="1"'}/><p:nvPr/></p:nvSpPr><p:spPr>${transform(box)}<a:prstGeom prst="${options.geometry ?? 'rect'}"><a:avLst/></a:prstGeom>${solidFill(options.fill)}${line}</p:spPr><p:txBody><a:bodyPr wrap="square" lIns="${inset}" tIns="45720" rIns="${inset}" bIns="45720" anchor="${options.anchor ?? 't'}"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs}</p:txBody></p:sp>`;
+}
+
+export interface TableCell {
+  text: string;
+  fill?: string;
+  bold?: boolean;
+}
+
+export interface TableOptions {
+  /** Relative column widths */
+  columns: number[];
+  header: string[];
+  rows: Array<Array<string | TableCell>>;
+  fontSize?: number;
+}
+
+function tableCell(theme: DeckTheme, cell: TableCell, size: number, header: boolean): string {
+  const fill = cell.fill ?? (header ? theme.primary : undefined);
+  const style: TextStyle = {
+    size,
+    bold: header || cell.bold,
+    color: fill ? readableTextColor(fill) : theme.text,
+  };
+  return `<a:tc><a:txBody><a:bodyPr/><a:lstStyle/>${paragraph(theme, cell.text, style)}</a:txBody><a:tcPr marL="91440" marR="91440" marT="45720" marB="45720" anchor="ctr"><a:lnB w="6350"><a:solidFill><a:srgbClr val="D9DEE3"/></a:solidFill></a:lnB>${solidFill(fill)}</a:tcPr></a:tc>`;
+}
+
+/**
+ * A native, editable table. Row heights are a minimum; PowerPoint grows rows
+ * to fit their text.
+ */
+export function table(
+  id: number,
+  name: string,
+  box: Box,
+  theme: DeckTheme,
+  options: TableOptions
+): string {
+  const size = options.fontSize ?? 12;
+  const totalWeight = options.columns.reduce((sum, weight) => sum + weight, 0);
+  const widths = options.columns.map((weight) => Math.round((box.cx * weight) / totalWeight));
+  const rowHeight = Math.round(box.cy / (options.rows.length + 1));
+
+  const renderRow = (cells: Array<string | TableCell>, header: boolean) =>
+    `<a:tr h="${rowHeight}">${cells
+      .map((cell) =>
+        tableCell(theme, typeof cell === 'string' ? { text: cell } : cell, size, header)
+      )
+      .join('')}</a:tr>`;
+
+  return `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="${escapeXml(name)}"/><p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr><p:xfrm><a:off x="${Math.round(box.x)}" y="${Math.round(box.y)}"/><a:ext cx="${Math.round(box.cx)}" cy="${Math.round(box.cy)}"/></p:xfrm><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl><a:tblPr firstRow="1" bandRow="1"/><a:tblGrid>${widths
+    .map((width) => `<a:gridCol w="${width}"/>`)
+    .join('')}</a:tblGrid>${renderRow(options.header, true)}${options.rows
+    .map((row) => renderRow(row, false))
+    .join('')}</a:tbl></a:graphicData></a:graphic></p:graphicFrame>`;
+}
+
+/**
+ * Frame that places a chart part (referenced by relationship id) on a slide
+ */
+export function chartFrame(id: number, name: string, box: Box, relationshipId: string): string {
+  return `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="${escapeXml(name)}"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr><p:xfrm><a:off x="${Math.round(box.x)}" y="${Math.round(box.y)}"/><a:ext cx="${Math.round(box.cx)}" cy="${Math.round(box.cy)}"/></p:xfrm><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart"><c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" r:id="${relationshipId}"/></a:graphicData></a:graphic></p:graphicFrame>`;
+}
@@ -0,0 +1,34 @@
+/**
+ * Presentation Export
+ * Native, editable .pptx decks built from the blueprint JSON and styled with
+ * a report theme.
+ */
+
+import type { BlueprintJSON } from '@/components/features/blueprints/types';
+import { DEFAULT_REPORT_THEME, type CustomReport, type ReportTheme } from '@/store/blueprintStore';
+import { buildBlueprintDeck, type BlueprintDeckOptions } from './blueprintDeck';
+import { buildPptxPackage } from './ooxml';
+
+/**
+ * Theme of the most recently edited custom report, preferring presentation
+ * layouts, or the default report theme
+ */
+export function selectDeckTheme(reports: CustomReport[]): ReportTheme {
+  const latest = [...reports].sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+  const report = latest.find((r) => r.layout === 'presentation') ?? latest[0];
+  return report?.theme ?? DEFAULT_REPORT_THEME;
+}
+
+export async function buildBlueprintPresentation(
+  blueprint: BlueprintJSON,
+  options: BlueprintDeckOptions
+): Promise<Uint8Array> {
+  return buildPptxPackage(buildBlueprintDeck(blueprint, options), { now: options.now });
+}
+
+export { buildBlueprintDeck, planGantt } from './blueprintDeck';
+export type { BlueprintDeckOptions, GanttPlan } from './blueprintDeck';
+export { buildPptxFiles, buildPptxPackage, PPTX_MIME_TYPE } from './ooxml';
+export type { Deck, Slide } from './ooxml';
@@ -0,0 +1,258 @@
+/**
+ * PresentationML Package
+ * Assembles slides into a .pptx: one blank layout on one master, a theme
+ * carrying the deck colours and font, and a chart part plus embedded
+ * workbook for every chart.
+ */
+
+import JSZip from 'jszip';
+import { escapeXml } from '../lms/placeholderPages';
+import type { DeckTheme } from './drawing';
+import { chartFrame, shadeColor, SLIDE_HEIGHT, SLIDE_WIDTH, type Box } from './drawing';
+import { buildChartWorkbook, renderChart, type ChartSpec } from './charts';
+
+export const PPTX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+export interface Slide {
+  title: string;
+  /** Shape XML in z-order */
+  elements: string[];
+  charts: ChartSpec[];
+}
+
+export interface Deck {
+  title: string;
+  author: string;
+  theme: DeckTheme;
+  slides: Slide[];
+}
+
+const NS = {
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+};
+const NAMESPACES = `xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"`;
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const EMPTY_TREE =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+export function createSlide(title: string): Slide {
+  return { title, elements: [], charts: [] };
+}
+
+/**
+ * Append an element; the renderer receives the next free shape id
+ */
+export function addElement(slide: Slide, render: (id: number) => string): void {
+  slide.elements.push(render(slide.elements.length + 2));
+}
+
+export function addChart(slide: Slide, name: string, box: Box, chart: ChartSpec): void {
+  slide.charts.push(chart);
+  // rId1 is the slide layout
+  const relationshipId = `rId${slide.charts.length + 1}`;
+  addElement(slide, (id) => chartFrame(id, name, box, relationshipId));
+}
+
+function relationships(entries: Array<{ type: string; target: string }>): string {
+  const items = entries
+    .map(
+      (entry, i) =>
+        `<Relationship Id="rId${i + 1}" Type="${entry.type}" Target="${escapeXml(entry.target)}"/>`
+    )
+    .join('');
+  return `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items}</Relationships>\n`;
+}
+
+function renderContentTypes(deck: Deck, chartCount: number): string {
+  const override = (part: string, type: string) =>
+    `<Override PartName="${part}" ContentType="application/vnd.openxmlformats-officedocument.${type}"/>`;
+  const parts = [
+    override('/ppt/presentation.xml', 'presentationml.presentation.main+xml'),
+    override('/ppt/slideMasters/slideMaster1.xml', 'presentationml.slideMaster+xml'),
+    override('/ppt/slideLayouts/slideLayout1.xml', 'presentationml.slideLayout+xml'),
+    override('/ppt/theme/theme1.xml', 'theme+xml'),
+    override('/ppt/presProps.xml', 'presentationml.presProps+xml'),
+    override('/ppt/viewProps.xml', 'presentationml.viewProps+xml'),
+    override('/ppt/tableStyles.xml', 'presentationml.tableStyles+xml'),
+    override('/docProps/app.xml', 'extended-properties+xml'),
+    ...deck.slides.map((_, i) =>
+      override(`/ppt/slides/slide${i + 1}.xml`, 'presentationml.slide+xml')
+    ),
+    ...Array.from({ length: chartCount }, (_, i) =>
+      override(`/ppt/charts/chart${i + 1}.xml`, 'drawingml.chart+xml')
+    ),
+  ].join('');
+
+  return `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="xlsx" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"/>${parts}<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>\n`;
+}
+
+function renderPresentation(deck: Deck): string {
+  const slideIds = deck.slides
+    .map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 2}"/>`)
+    .join('');
+  return `${XML_DECLARATION}<p:presentation ${NAMESPACES} saveSubsetFonts="1"><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst><p:sldIdLst>${slideIds}</p:sldIdLst><p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>\n`;
+}
+
+function renderPresentationRelationships(deck: Deck): string {
+  return relationships([
+    { type: `${REL}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+    ...deck.slides.map((_, i) => ({ type: `${REL}/slide`, target: `slides/slide${i + 1}.xml` })),
+    { type: `${REL}/presProps`, target: 'presProps.xml' },
+    { type: `${REL}/viewProps`, target: 'viewProps.xml' },
+    { type: `${REL}/theme`, target: 'theme/theme1.xml' },
+    { type: `${REL}/tableStyles`, target: 'tableStyles.xml' },
+  ]);
+}
+
+function renderSlideMaster(theme: DeckTheme): string {
+  const level = (size: number) =>
+    `<a:lvl1pPr><a:defRPr sz="${size}"><a:solidFill><a:srgbClr val="${theme.text}"/></a:solidFill><a:latin typeface="+mn-lt"/></a:defRPr></a:lvl1pPr>`;
+  return `${XML_DECLARATION}<p:sldMaster ${NAMESPACES}><p:cSld><p:bg><p:bgPr><a:solidFill><a:srgbClr val="FFFFFF"/></a:solidFill><a:effectLst/></p:bgPr></p:bg><p:spTree>${EMPTY_TREE}</p:spTree></p:cSld><p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/><p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst><p:txStyles><p:titleStyle>${level(3200)}</p:titleStyle><p:bodyStyle>${level(1800)}</p:bodyStyle><p:otherStyle>${level(1800)}</p:otherStyle></p:txStyles></p:sldMaster>\n`;
+}
+
+function renderSlideLayout(): string {
+  return `${XML_DECLARATION}<p:sldLayout ${NAMESPACES} type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${EMPTY_TREE}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>\n`;
+}
+
+/**
+ * theme1.xml: accent1/accent2 are the report's primary and accent colours and
+ * both theme fonts are the report font, so restyled shapes keep the brand.
+ */
+export function renderTheme(theme: DeckTheme): string {
+  const color = (name: string, value: string) =>
+    `<a:${name}><a:srgbClr val="${value}"/></a:${name}>`;
+  const font = `<a:latin typeface="${escapeXml(theme.font)}"/><a:ea typeface=""/><a:cs typeface=""/>`;
+  const phFill = (modifier = '') =>
+    `<a:solidFill><a:schemeClr val="phClr">${modifier}</a:schemeClr></a:solidFill>`;
+  const line = (width: number) => `<a:ln w="${width}">${phFill()}</a:ln>`;
+
+  return `${XML_DECLARATION}<a:theme xmlns:a="${NS.a}" name="Polaris"><a:themeElements><a:clrScheme name="Polaris">${[
+    color('dk1', theme.text),
+    color('lt1', 'FFFFFF'),
+    color('dk2', '3E4C59'),
+    color('lt2', 'F5F7FA'),
+    color('accent1', theme.primary),
+    color('accent2', theme.accent),
+    color('accent3', shadeColor(theme.primary, 0.7)),
+    color('accent4', shadeColor(theme.accent, 0.7)),
+    color('accent5', theme.muted),
+    color('accent6', 'CBD2D9'),
+    color('hlink', shadeColor(theme.primary, 0.55)),
+    color('folHlink', shadeColor(theme.accent, 0.55)),
+  ].join(
+    ''
+  )}</a:clrScheme><a:fontScheme name="Polaris"><a:majorFont>${font}</a:majorFont><a:minorFont>${font}</a:minorFont></a:fontScheme><a:fmtScheme name="Polaris"><a:fillStyleLst>${phFill()}${phFill('<a:tint val="50000"/>')}${phFill('<a:shade val="80000"/>')}</a:fillStyleLst><a:lnStyleLst>${line(6350)}${line(12700)}${line(19050)}</a:lnStyleLst><a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst><a:bgFillStyleLst>${phFill()}${phFill('<a:tint val="95000"/>')}${phFill('<a:shade val="90000"/>')}</a:bgFillStyleLst></a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>\n`;
+}
+
+function renderSlide(slide: Slide): string {
+  return `${XML_DECLARATION}<p:sld ${NAMESPACES}><p:cSld name="${escapeXml(slide.title)}"><p:spTree>${EMPTY_TREE}${slide.elements.join('')}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>\n`;
+}
+
+function renderCoreProperties(deck: Deck, now: Date): string {
+  const timestamp = now.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(deck.title)}</dc:title><dc:creator>${escapeXml(deck.author)}</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:modified></cp:coreProperties>\n`;
+}
+
+function renderAppProperties(deck: Deck): string {
+  return `${XML_DECLARATION}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>Polaris</Application><PresentationFormat>Widescreen</PresentationFormat><Slides>${deck.slides.length}</Slides></Properties>\n`;
+}
+
+/**
+ * Every part of the package, keyed by path. Embedded workbooks are binary.
+ */
+export async function buildPptxFiles(
+  deck: Deck,
+  options: { now?: Date } = {}
+): Promise<Map<string, string | Uint8Array>> {
+  const files = new Map<string, string | Uint8Array>();
+  const chartCount = deck.slides.reduce((sum, slide) => sum + slide.charts.length, 0);
+
+  files.set('[Content_Types].xml', renderContentTypes(deck, chartCount));
+  files.set(
+    '_rels/.rels',
+    relationships([
+      { type: `${REL}/officeDocument`, target: 'ppt/presentation.xml' },
+      {
+        type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+        target: 'docProps/core.xml',
+      },
+      { type: `${REL}/extended-properties`, target: 'docProps/app.xml' },
+    ])
+  );
+  files.set('docProps/core.xml', renderCoreProperties(deck, options.now ?? new Date()));
+  files.set('docProps/app.xml', renderAppProperties(deck));
+
+  files.set('ppt/presentation.xml', renderPresentation(deck));
+  files.set('ppt/_rels/presentation.xml.rels', renderPresentationRelationships(deck));
+  files.set('ppt/presProps.xml', `${XML_DECLARATION}<p:presentationPr ${NAMESPACES}/>\n`);
+  files.set('ppt/viewProps.xml', `${XML_DECLARATION}<p:viewPr ${NAMESPACES}/>\n`);
+  files.set(
+    'ppt/tableStyles.xml',
+    `${XML_DECLARATION}<a:tblStyleLst xmlns:a="${NS.a}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>\n`
+  );
+  files.set('ppt/theme/theme1.xml', renderTheme(deck.theme));
+  files.set('ppt/slideMasters/slideMaster1.xml', renderSlideMaster(deck.theme));
+  files.set(
+    'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+    relationships([
+      { type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+      { type: `${REL}/theme`, target: '../theme/theme1.xml' },
+    ])
+  );
+  files.set('ppt/slideLayouts/slideLayout1.xml', renderSlideLayout());
+  files.set(
+    'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+    relationships([{ type: `${REL}/slideMaster`, target: '../slideMasters/slideMaster1.xml' }])
+  );
+
+  let chartNumber = 0;
+  for (const [index, slide] of deck.slides.entries()) {
+    const slideCharts: Array<{ type: string; target: string }> = [];
+
+    for (const chart of slide.charts) {
+      chartNumber += 1;
+      const workbook = `Microsoft_Excel_Worksheet${chartNumber}.xlsx`;
+      files.set(`ppt/charts/chart${chartNumber}.xml`, renderChart(chart, deck.theme));
+      files.set(
+        `ppt/charts/_rels/chart${chartNumber}.xml.rels`,
+        relationships([{ type: `${REL}/package`, target: `../embeddings/${workbook}` }])
+      );
+      files.set(`ppt/embeddings/${workbook}`, await buildChartWorkbook(chart));
+      slideCharts.push({ type: `${REL}/chart`, target: `../charts/chart${chartNumber}.xml` });
+    }
+
+    files.set(`ppt/slides/slide${index + 1}.xml`, renderSlide(slide));
+    files.set(
+      `ppt/slides/_rels/slide${index + 1}.xml.rels`,
+      relationships([
+        { type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+        ...slideCharts,
+      ])
+    );
+  }
+
+  return files;
+}
+
+/**
+ * Zip the deck (.pptx)
+ */
+export async function buildPptxPackage(
+  deck: Deck,
+  options: { now?: Date } = {}
+): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [path, content] of await buildPptxFiles(deck, options)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({
+    type: 'uint8array',
+    compression: 'DEFLATE',
+    mimeType: PPTX_MIME_TYPE,
+  });
+}
@@ -0,0 +1,266 @@
+/**
+ * Project Tool File Formats
+ * Jira and Asana CSV imports, a Trello board JSON and a generic CSV, all
+ * built from the same work breakdown.
+ */
+
+import type { ImplementationTaskStatus } from '@/lib/services/implementationPlanService';
+import type { WorkBreakdown, WorkItem, WorkItemType } from './workBreakdown';
+
+const JIRA_ISSUE_TYPES: Record<WorkItemType, string> = {
+  epic: 'Epic',
+  story: 'Story',
+  milestone: 'Task',
+  subtask: 'Sub-task',
+};
+
+const JIRA_STATUSES: Record<ImplementationTaskStatus, string> = {
+  not_started: 'To Do',
+  in_progress: 'In Progress',
+  completed: 'Done',
+};
+
+/**
+ * Quote a CSV cell. Cells that a spreadsheet would run as a formula are
+ * prefixed with an apostrophe.
+ */
+export function csvCell(value: string | number | null | undefined): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function titleOf(items: WorkItem[], id: string | null): string {
+  return items.find((item) => item.id === id)?.title ?? '';
+}
+
+/**
+ * Jira CSV import: epics are parents of their stories (Parent Id), sub-tasks
+ * of their module story, and each dependency is a "Blocks" link. Jira needs
+ * one column per link, so the link column repeats as often as the item with
+ * the most dependencies needs it. Estimates are in seconds.
+ */
+export function buildJiraCsv(breakdown: WorkBreakdown): string {
+  const linkColumns = Math.max(0, ...breakdown.items.map((item) => item.dependsOn.length));
+
+  const header = [
+    'Issue Id',
+    'Parent Id',
+    'Issue Type',
+    'Summary',
+    'Description',
+    'Status',
+    'Original Estimate',
+    'Due Date',
+    'Assignee',
+    'Labels',
+    ...Array.from({ length: linkColumns }, () => 'Inward issue link (Blocks)'),
+  ];
+
+  const rows = breakdown.items.map((item) => [
+    item.id,
+    item.parentId ?? item.epicId ?? '',
+    JIRA_ISSUE_TYPES[item.type],
+    item.title,
+    item.description,
+    JIRA_STATUSES[item.status],
+    item.estimateHours === null ? '' : Math.round(item.estimateHours * 3600),
+    item.dueDate ?? '',
+    item.assigneeEmail ?? '',
+    item.type === 'milestone' ? 'milestone' : '',
+    ...Array.from({ length: linkColumns }, (_, index) => item.dependsOn[index] ?? ''),
+  ]);
+
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Asana CSV import, using the column names of Asana's own CSV export. Epics
+ * become sections, so they have no rows. Asana links subtasks and
+ * dependencies by task name.
+ */
+export function buildAsanaCsv(breakdown: WorkBreakdown): string {
+  const { items } = breakdown;
+  const header = [
+    'Name',
+    'Section/Column',
+    'Notes',
+    'Assignee Email',
+    'Start Date',
+    'Due Date',
+    'Tags',
+    'Parent task',
+    'Blocked By (Dependencies)',
+    'Estimated Hours',
+    'Completed',
+  ];
+
+  const rows = items
+    .filter((item) => item.type !== 'epic')
+    .map((item) => [
+      item.title,
+      titleOf(items, item.epicId) || 'Unscheduled',
+      item.description,
+      item.assigneeEmail ?? '',
+      item.startDate ?? '',
+      item.dueDate ?? '',
+      item.type === 'milestone' ? 'Milestone' : '',
+      titleOf(items, item.parentId),
+      item.dependsOn.map((id) => titleOf(items, id)).join(', '),
+      item.estimateHours ?? '',
+      item.status === 'completed' ? 'Yes' : 'No',
+    ]);
+
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Every field of the work breakdown, for tools without a dedicated format.
+ * Dependencies are semicolon-separated item IDs.
+ */
+export function buildGenericCsv(breakdown: WorkBreakdown): string {
+  const header = [
+    'ID',
+    'Type',
+    'Title',
+    'Description',
+    'Epic ID',
+    'Parent ID',
+    'Estimate (hours)',
+    'Start Date',
+    'Due Date',
+    'Depends On',
+    'Assignee',
+    'Status',
+  ];
+
+  const rows = breakdown.items.map((item) => [
+    item.id,
+    item.type,
+    item.title,
+    item.description,
+    item.epicId ?? '',
+    item.parentId ?? '',
+    item.estimateHours ?? '',
+    item.startDate ?? '',
+    item.dueDate ?? '',
+    item.dependsOn.join(';'),
+    item.assigneeEmail ?? '',
+    item.status,
+  ]);
+
+  return toCsv([header, ...rows]);
+}
+
+export interface TrelloBoard {
+  name: string;
+  desc: string;
+  lists: Array<{ id: string; name: string; closed: boolean; pos: number }>;
+  labels: Array<{ id: string; name: string; color: string }>;
+  cards: Array<{
+    id: string;
+    name: string;
+    desc: string;
+    idList: string;
+    idLabels: string[];
+    idChecklists: string[];
+    due: string | null;
+    dueComplete: boolean;
+    closed: boolean;
+    pos: number;
+  }>;
+  checklists: Array<{
+    id: string;
+    idCard: string;
+    name: string;
+    checkItems: Array<{ id: string; name: string; state: 'complete' | 'incomplete'; pos: number }>;
+  }>;
+}
+
+/**
+ * Trello board in the shape of Trello's JSON board export: a list per epic
+ * (plus "Unscheduled"), a card per story with its sub-tasks as a checklist,
+ * and estimates and dependencies in the card description
+ */
+export function buildTrelloBoard(breakdown: WorkBreakdown): TrelloBoard {
+  const { items } = breakdown;
+  const position = (index: number) => (index + 1) * 16384;
+
+  const lists = items
+    .filter((item) => item.type === 'epic')
+    .map((epic, index) => ({
+      id: `list-${epic.id}`,
+      name: epic.title,
+      closed: false,
+      pos: position(index),
+    }));
+  const stories = items.filter((item) => item.type === 'story' || item.type === 'milestone');
+  if (stories.some((story) => !story.epicId)) {
+    lists.push({
+      id: 'list-unscheduled',
+      name: 'Unscheduled',
+      closed: false,
+      pos: position(lists.length),
+    });
+  }
+
+  const milestoneLabel = { id: 'label-milestone', name: 'Milestone', color: 'yellow' };
+
+  const checklists: TrelloBoard['checklists'] = [];
+  const cards = stories.map((story, index) => {
+    const subtasks = items.filter((item) => item.parentId === story.id);
+    if (subtasks.length > 0) {
+      checklists.push({
+        id: `checklist-${story.id}`,
+        idCard: `card-${story.id}`,
+        name: 'Activities',
+        checkItems: subtasks.map((subtask, subtaskIndex) => ({
+          id: `check-${subtask.id}`,
+          name:
+            subtask.estimateHours === null
+              ? subtask.title
+              : `${subtask.title} (${subtask.estimateHours}h)`,
+          state: subtask.status === 'completed' ? 'complete' : 'incomplete',
+          pos: position(subtaskIndex),
+        })),
+      });
+    }
+
+    const details = [
+      story.description,
+      story.estimateHours === null ? '' : `**Estimate:** ${story.estimateHours}h`,
+      story.assigneeEmail ? `**Owner:** ${story.assigneeEmail}` : '',
+      story.dependsOn.length > 0
+        ? `**Blocked by:** ${story.dependsOn.map((id) => titleOf(items, id)).join(', ')}`
+        : '',
+    ];
+
+    return {
+      id: `card-${story.id}`,
+      name: story.title,
+      desc: details.filter(Boolean).join('\n\n'),
+      idList: story.epicId ? `list-${story.epicId}` : 'list-unscheduled',
+      idLabels: story.type === 'milestone' ? [milestoneLabel.id] : [],
+      idChecklists: subtasks.length > 0 ? [`checklist-${story.id}`] : [],
+      due: story.dueDate ? `${story.dueDate}T12:00:00.000Z` : null,
+      dueComplete: story.status === 'completed',
+      closed: false,
+      pos: position(index),
+    };
+  });
+
+  return {
+    name: breakdown.title,
+    desc: 'Implementation tasks exported from SmartSlate Polaris',
+    lists,
+    labels: [milestoneLabel],
+    cards,
+    checklists,
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Project Tool Exports
+ * Implementation task files keyed by the format segment of
+ * /api/blueprints/[id]/task-export/[format].
+ */
+
+import type { WorkBreakdown } from './workBreakdown';
+import { buildAsanaCsv, buildGenericCsv, buildJiraCsv, buildTrelloBoard } from './formats';
+
+export type TaskExportFormat = 'jira-csv' | 'asana-csv' | 'trello-json' | 'csv';
+
+export interface TaskFileBuilder {
+  label: string;
+  /** Appended to the blueprint slug to name the download */
+  fileSuffix: string;
+  mimeType: string;
+  build: (breakdown: WorkBreakdown) => string;
+}
+
+export const TASK_EXPORT_FORMATS: Record<TaskExportFormat, TaskFileBuilder> = {
+  'jira-csv': {
+    label: 'Jira CSV',
+    fileSuffix: 'jira.csv',
+    mimeType: 'text/csv; charset=utf-8',
+    build: buildJiraCsv,
+  },
+  'asana-csv': {
+    label: 'Asana CSV',
+    fileSuffix: 'asana.csv',
+    mimeType: 'text/csv; charset=utf-8',
+    build: buildAsanaCsv,
+  },
+  'trello-json': {
+    label: 'Trello board JSON',
+    fileSuffix: 'trello.json',
+    mimeType: 'application/json',
+    build: (breakdown) => JSON.stringify(buildTrelloBoard(breakdown), null, 2),
+  },
+  csv: {
+    label: 'CSV',
+    fileSuffix: 'tasks.csv',
+    mimeType: 'text/csv; charset=utf-8',
+    build: buildGenericCsv,
+  },
+};
+
+export function isTaskExportFormat(value: string): value is TaskExportFormat {
+  return Object.prototype.hasOwnProperty.call(TASK_EXPORT_FORMATS, value);
+}
+
+export { buildWorkBreakdown } from './workBreakdown';
+export type { WorkBreakdown, WorkItem, WorkItemType } from './workBreakdown';
+export {
+  assertPublicEndpoint,
+  createPinnedLookup,
+  isPrivateAddress,
+  pushWorkBreakdown,
+} from './push';
+export type { PushEndpoint } from './push';
+export { loadWorkBreakdown } from './loadWorkBreakdown';
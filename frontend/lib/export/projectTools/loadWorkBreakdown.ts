@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BlueprintJSON } from '@/components/features/blueprints/types';
+import { ImplementationPlanService } from '@/lib/services/implementationPlanService';
+import { BlueprintCommentService } from '@/lib/services/blueprintCommentService';
+import { buildWorkBreakdown, type WorkBreakdown } from './workBreakdown';
+
+/**
+ * The work breakdown of a blueprint, from its implementation plan when it
+ * has one. Returns null when the blueprint hasn't been generated yet.
+ */
+export async function loadWorkBreakdown(
+  supabase: SupabaseClient,
+  blueprintId: string
+): Promise<WorkBreakdown | null> {
+  const { data: blueprint, error } = await supabase
+    .from('blueprint_generator')
+    .select('id, title, blueprint_json')
+    .eq('id', blueprintId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading blueprint for task export:', error);
+    throw new Error('Failed to load blueprint');
+  }
+
+  if (!blueprint?.blueprint_json) {
+    return null;
+  }
+
+  const blueprintJson = blueprint.blueprint_json as BlueprintJSON;
+  const plan = await ImplementationPlanService.getPlan(supabase, blueprintId);
+
+  let planTasks;
+  let ownerEmails: Record<string, string | null> = {};
+  if (plan) {
+    const [tasks, collaborators] = await Promise.all([
+      ImplementationPlanService.listTasks(supabase, plan.id),
+      BlueprintCommentService.listCollaborators(supabase, blueprintId),
+    ]);
+    planTasks = tasks;
+    ownerEmails = Object.fromEntries(
+      collaborators.map((collaborator) => [collaborator.userId, collaborator.email])
+    );
+  }
+
+  return buildWorkBreakdown(blueprintJson, {
+    blueprintId,
+    title: blueprint.title || blueprintJson.metadata?.title || 'Blueprint',
+    planTasks,
+    ownerEmails,
+  });
+}
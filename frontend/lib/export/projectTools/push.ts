@@ -0,0 +1,267 @@
+/**
+ * Direct Push to a Project Tool Endpoint
+ * Posts the work breakdown as JSON to a REST endpoint the user configures,
+ * e.g. an automation webhook or an in-house bridge to their project tool.
+ * The request is made from the server, so only public HTTPS endpoints are
+ * allowed. The host is checked when the connection is made, against the
+ * address the connection actually uses, so a host can't pass the check and
+ * then resolve to an internal address.
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP, type LookupFunction } from 'net';
+import { Agent, fetch as undiciFetch } from 'undici';
+import { ExportError } from '../errorHandling';
+import type { WorkBreakdown } from './workBreakdown';
+
+const PUSH_TIMEOUT_MS = 15_000;
+
+export interface PushEndpoint {
+  url: string;
+  /** Sent as the Authorization header, e.g. "Bearer <token>" */
+  authorization?: string | null;
+}
+
+export interface PushOptions {
+  /** Resolves a host name to its addresses; injectable for tests */
+  resolveHost?: (hostname: string) => Promise<string[]>;
+  fetchImpl?: typeof undiciFetch;
+}
+
+async function resolveWithDns(hostname: string): Promise<string[]> {
+  const results = await lookup(hostname, { all: true });
+  return results.map((result) => result.address);
+}
+
+function isPrivateIpv4(octets: number[]): boolean {
+  const [a, b] = octets;
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0) ||
+    (a === 198 && (b === 18 || b === 19))
+  );
+}
+
+/** The 16 bytes of an IPv6 address, including ones ending in dotted IPv4 */
+function ipv6Bytes(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) return null;
+
+  const groups = [
+    ...headGroups,
+    ...Array(tail === undefined ? 0 : missing).fill('0'),
+    ...tailGroups,
+  ];
+  const bytes: number[] = [];
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/.test(group)) return null;
+    const value = parseInt(group, 16);
+    bytes.push(value >> 8, value & 0xff);
+  }
+  return bytes;
+}
+
+/**
+ * The IPv4 address carried by an IPv6 address: IPv4-mapped (::ffff:0:0/96),
+ * NAT64 (64:ff9b::/96), 6to4 (2002::/16) and IPv4-compatible (::/96)
+ */
+function embeddedIpv4(bytes: number[]): number[] | null {
+  const zeros = (from: number, to: number) => bytes.slice(from, to).every((byte) => byte === 0);
+
+  if (zeros(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) return bytes.slice(12);
+  if (
+    bytes[0] === 0 &&
+    bytes[1] === 0x64 &&
+    bytes[2] === 0xff &&
+    bytes[3] === 0x9b &&
+    zeros(4, 12)
+  ) {
+    return bytes.slice(12);
+  }
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return bytes.slice(2, 6);
+  if (zeros(0, 12)) return bytes.slice(12);
+  return null;
+}
+
+/**
+ * Loopback, private, link-local, carrier-grade NAT, multicast and other
+ * non-public addresses (IPv4 and IPv6). IPv6 addresses that carry an IPv4
+ * address are judged by that address, whichever way they are written.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+
+  if (version === 4) {
+    return isPrivateIpv4(address.split('.').map(Number));
+  }
+
+  if (version === 6) {
+    const bytes = ipv6Bytes(address);
+    if (!bytes) return true;
+
+    const ipv4 = embeddedIpv4(bytes);
+    if (ipv4) return isPrivateIpv4(ipv4);
+
+    return (
+      (bytes[0] & 0xfe) === 0xfc || // unique local fc00::/7
+      (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) || // link-local fe80::/10
+      (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0xc0) || // site-local fec0::/10
+      bytes[0] === 0xff || // multicast
+      (bytes[0] === 0x20 && bytes[1] === 0x01 && bytes[2] === 0 && bytes[3] === 0) // Teredo
+    );
+  }
+
+  return true;
+}
+
+/**
+ * A `net` lookup that resolves the host, rejects it unless every address is
+ * public and connects to the address it checked
+ */
+export function createPinnedLookup(
+  resolveHost: (hostname: string) => Promise<string[]> = resolveWithDns
+): LookupFunction {
+  return (hostname, options, callback) => {
+    resolveHost(hostname).then(
+      (addresses) => {
+        if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+          callback(
+            new ExportError(
+              'The endpoint must be reachable on the public internet',
+              'ENDPOINT_NOT_ALLOWED',
+              { hostname }
+            ),
+            ''
+          );
+          return;
+        }
+
+        const [address] = addresses;
+        const family = isIP(address);
+        if (options.all) {
+          callback(null, [{ address, family }]);
+        } else {
+          callback(null, address, family);
+        }
+      },
+      () => {
+        callback(
+          new ExportError(`Could not resolve ${hostname}`, 'ENDPOINT_NOT_ALLOWED', { hostname }),
+          ''
+        );
+      }
+    );
+  };
+}
+
+/**
+ * Throws unless the URL is HTTPS without credentials and, when its host is
+ * an IP address, that address is public. Host names are checked when
+ * connecting (see createPinnedLookup).
+ */
+export function assertPublicEndpoint(rawUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new ExportError('Enter a valid endpoint URL', 'ENDPOINT_NOT_ALLOWED', { url: rawUrl });
+  }
+
+  if (url.protocol !== 'https:' || url.username || url.password) {
+    throw new ExportError(
+      'The endpoint must be an https:// URL without credentials',
+      'ENDPOINT_NOT_ALLOWED',
+      { url: url.origin }
+    );
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new ExportError(
+      'The endpoint must be reachable on the public internet',
+      'ENDPOINT_NOT_ALLOWED',
+      { hostname }
+    );
+  }
+
+  return url;
+}
+
+/**
+ * POST the work breakdown to the endpoint. Redirects are not followed, so a
+ * public endpoint can't bounce the request to an internal address.
+ */
+export async function pushWorkBreakdown(
+  breakdown: WorkBreakdown,
+  endpoint: PushEndpoint,
+  options: PushOptions = {}
+): Promise<{ status: number }> {
+  const url = assertPublicEndpoint(endpoint.url);
+  const fetchImpl = options.fetchImpl ?? undiciFetch;
+  const dispatcher = new Agent({ connect: { lookup: createPinnedLookup(options.resolveHost) } });
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'SmartSlate-Polaris',
+  };
+  if (endpoint.authorization) {
+    headers.Authorization = endpoint.authorization;
+  }
+
+  let status: number;
+  try {
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        source: 'smartslate-polaris',
+        exportedAt: new Date().toISOString(),
+        blueprintId: breakdown.blueprintId,
+        title: breakdown.title,
+        items: breakdown.items,
+      }),
+      redirect: 'manual',
+      signal: AbortSignal.timeout(PUSH_TIMEOUT_MS),
+      dispatcher,
+    });
+    status = response.status;
+  } catch (error) {
+    const cause = (error as Error).cause;
+    if (cause instanceof ExportError) {
+      throw cause;
+    }
+    throw new ExportError(`Could not reach ${url.hostname}`, 'PUSH_FAILED', {
+      hostname: url.hostname,
+      error: (error as Error).message,
+    });
+  } finally {
+    await dispatcher.destroy().catch(() => undefined);
+  }
+
+  if (status < 200 || status >= 300) {
+    throw new ExportError(`${url.hostname} responded with HTTP ${status}`, 'PUSH_FAILED', {
+      hostname: url.hostname,
+      status,
+    });
+  }
+
+  return { status };
+}
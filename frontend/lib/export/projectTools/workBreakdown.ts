@@ -0,0 +1,239 @@
+/**
+ * Work Breakdown for Project Tool Exports
+ * Turns a blueprint into the epics and stories every project tool format is
+ * built from: implementation timeline phases become epics, modules and
+ * milestones become stories, and learning activities become sub-tasks of
+ * their module. When the blueprint has an implementation plan its tasks are
+ * used (with owners, status, due dates and custom tasks); otherwise the
+ * tasks a new plan would start with.
+ */
+
+import type { BlueprintJSON, Module } from '@/components/features/blueprints/types';
+import {
+  buildPlanTasks,
+  formatPlanDate,
+  parseDurationHours,
+  parsePlanDate,
+  type ImplementationTask,
+  type ImplementationTaskSource,
+  type ImplementationTaskStatus,
+} from '@/lib/services/implementationPlanService';
+
+export type WorkItemType = 'epic' | 'story' | 'milestone' | 'subtask';
+
+export interface WorkItem {
+  /** Sequential number, unique within the export; used for links */
+  id: string;
+  type: WorkItemType;
+  title: string;
+  description: string;
+  epicId: string | null;
+  /** The module story of a sub-task */
+  parentId: string | null;
+  estimateHours: number | null;
+  startDate: string | null;
+  dueDate: string | null;
+  /** Items that must be done before this one */
+  dependsOn: string[];
+  assigneeEmail: string | null;
+  status: ImplementationTaskStatus;
+}
+
+export interface WorkBreakdown {
+  blueprintId: string;
+  title: string;
+  items: WorkItem[];
+}
+
+export interface WorkBreakdownOptions {
+  blueprintId: string;
+  title: string;
+  /** Tasks of the blueprint's implementation plan, if it has one */
+  planTasks?: ImplementationTask[];
+  /** Task owner emails by user id */
+  ownerEmails?: Record<string, string | null>;
+  /** Start date for the generated tasks of blueprints without a plan */
+  startDate?: string;
+}
+
+interface SourceTask {
+  source: ImplementationTaskSource;
+  sourceKey: string | null;
+  title: string;
+  description: string | null;
+  estimatedHours: number | null;
+  dueDate: string | null;
+  ownerId: string | null;
+  status: ImplementationTaskStatus;
+}
+
+function normalizeDate(value: string | null | undefined): string | null {
+  const time = parsePlanDate(value);
+  return time === null ? null : formatPlanDate(time);
+}
+
+function moduleDescription(module: Module | undefined, fallback: string | null): string {
+  const parts = [fallback ?? module?.description ?? ''];
+  if (module?.topics?.length) {
+    parts.push(`Topics: ${module.topics.join(', ')}`);
+  }
+  if (module?.delivery_method) {
+    parts.push(`Delivery: ${module.delivery_method}`);
+  }
+  return parts.filter(Boolean).join('\n\n');
+}
+
+function epicStatus(children: WorkItem[]): ImplementationTaskStatus {
+  if (children.length > 0 && children.every((child) => child.status === 'completed')) {
+    return 'completed';
+  }
+  return children.some((child) => child.status !== 'not_started') ? 'in_progress' : 'not_started';
+}
+
+/**
+ * Build the epics, stories and sub-tasks of a blueprint. Dependencies:
+ * - an epic depends on the phases listed in its phase's dependencies
+ * - a milestone depends on the other stories of its epic
+ * - stories of an epic depend on the milestones of the epics it depends on
+ */
+export function buildWorkBreakdown(
+  blueprint: BlueprintJSON,
+  options: WorkBreakdownOptions
+): WorkBreakdown {
+  const phases = blueprint.implementation_timeline?.phases ?? [];
+  const modules = blueprint.content_outline?.modules ?? [];
+  const items: WorkItem[] = [];
+  let nextId = 1;
+
+  const addItem = (item: Omit<WorkItem, 'id'>): WorkItem => {
+    const created = { ...item, id: String(nextId++) };
+    items.push(created);
+    return created;
+  };
+
+  const epics = phases.map((phase, index) =>
+    addItem({
+      type: 'epic',
+      title: phase.phase || `Phase ${index + 1}`,
+      description: '',
+      epicId: null,
+      parentId: null,
+      estimateHours: null,
+      startDate: normalizeDate(phase.start_date),
+      dueDate: normalizeDate(phase.end_date),
+      dependsOn: [],
+      assigneeEmail: null,
+      status: 'not_started',
+    })
+  );
+
+  // Phase dependencies are free text; link the ones naming another phase
+  phases.forEach((phase, index) => {
+    const unmatched: string[] = [];
+    for (const dependency of phase.dependencies ?? []) {
+      const target = epics.find(
+        (epic, epicIndex) =>
+          epicIndex !== index && epic.title.toLowerCase() === dependency.trim().toLowerCase()
+      );
+      if (target) {
+        epics[index].dependsOn.push(target.id);
+      } else if (dependency.trim()) {
+        unmatched.push(dependency.trim());
+      }
+    }
+    if (unmatched.length > 0) {
+      epics[index].description = `Depends on: ${unmatched.join(', ')}`;
+    }
+  });
+
+  const epicForDate = (dueDate: string | null): WorkItem | null => {
+    const due = parsePlanDate(dueDate);
+    if (due === null) return null;
+    const dated = epics.filter((epic) => parsePlanDate(epic.dueDate) !== null);
+    return (
+      dated.find((epic) => due <= (parsePlanDate(epic.dueDate) ?? 0)) ??
+      dated[dated.length - 1] ??
+      null
+    );
+  };
+
+  const epicForTask = (task: SourceTask): WorkItem | null => {
+    const milestone = task.sourceKey?.match(/^milestone:(\d+):/);
+    if (task.source === 'milestone' && milestone) {
+      return epics[Number(milestone[1]) - 1] ?? null;
+    }
+    return epicForDate(task.dueDate);
+  };
+
+  const moduleForTask = (task: SourceTask): Module | undefined => {
+    if (task.source !== 'module' || !task.sourceKey) return undefined;
+    return modules.find(
+      (module, index) => task.sourceKey === `module:${module.module_id || index + 1}`
+    );
+  };
+
+  const sourceTasks: SourceTask[] =
+    options.planTasks ??
+    buildPlanTasks(blueprint, options.startDate ?? formatPlanDate(Date.now())).map((draft) => ({
+      ...draft,
+      ownerId: null,
+      status: 'not_started' as const,
+    }));
+
+  for (const task of sourceTasks) {
+    const epic = epicForTask(task);
+    const outlineModule = moduleForTask(task);
+
+    const story = addItem({
+      type: task.source === 'milestone' ? 'milestone' : 'story',
+      title: task.title,
+      description:
+        task.source === 'module'
+          ? moduleDescription(outlineModule, task.description)
+          : (task.description ?? ''),
+      epicId: epic?.id ?? null,
+      parentId: null,
+      estimateHours: task.estimatedHours,
+      startDate: null,
+      dueDate: normalizeDate(task.dueDate),
+      dependsOn: [],
+      assigneeEmail: (task.ownerId && options.ownerEmails?.[task.ownerId]) || null,
+      status: task.status,
+    });
+
+    for (const activity of outlineModule?.learning_activities ?? []) {
+      if (!activity.activity?.trim()) continue;
+      addItem({
+        type: 'subtask',
+        title: activity.activity.trim(),
+        description: activity.type ? `Activity type: ${activity.type}` : '',
+        epicId: story.epicId,
+        parentId: story.id,
+        estimateHours: parseDurationHours(activity.duration),
+        startDate: null,
+        dueDate: story.dueDate,
+        dependsOn: [],
+        assigneeEmail: story.assigneeEmail,
+        status: story.status === 'completed' ? 'completed' : 'not_started',
+      });
+    }
+  }
+
+  const stories = items.filter((item) => item.type === 'story' || item.type === 'milestone');
+
+  for (const epic of epics) {
+    const epicStories = stories.filter((story) => story.epicId === epic.id);
+    const work = epicStories.filter((story) => story.type === 'story');
+    const blockers = stories
+      .filter((story) => story.type === 'milestone' && epic.dependsOn.includes(story.epicId ?? ''))
+      .map((story) => story.id);
+
+    for (const story of epicStories) {
+      story.dependsOn = story.type === 'milestone' ? work.map((item) => item.id) : [...blockers];
+    }
+
+    epic.status = epicStatus(epicStories);
+  }
+
+  return { blueprintId: options.blueprintId, title: options.title, items };
+}
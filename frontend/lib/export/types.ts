@@ -1,7 +1,16 @@
 import { AnyBlueprint } from '@/lib/ollama/schema';
+import type { ReportTheme } from '@/store/blueprintStore';
 import { DashboardData } from '@/types/dashboard';
 
-export type ExportFormat = 'pdf' | 'markdown' | 'json' | 'docx';
+export type ExportFormat =
+  | 'pdf'
+  | 'markdown'
+  | 'json'
+  | 'docx'
+  | 'scorm'
+  | 'imscc'
+  | 'mbz'
+  | 'pptx';
 
 export interface ExportOptions {
   format: ExportFormat;
@@ -11,6 +20,10 @@ export interface ExportOptions {
   pageSize?: 'A4' | 'Letter' | 'Legal';
   orientation?: 'portrait' | 'landscape';
   quality?: 'low' | 'medium' | 'high';
+  /** SCORM edition; packages are built server-side from the saved blueprint */
+  scormVersion?: '1.2' | '2004';
+  /** Deck colours and font for PPTX exports; defaults to the report theme */
+  theme?: ReportTheme;
 }
 
 export interface ExportMetadata {
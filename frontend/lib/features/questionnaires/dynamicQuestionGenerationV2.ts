@@ -157,6 +157,10 @@ export function buildUserPromptV2(staticAnswers: Record<string, unknown>): strin
     /\{budget_available\}/g,
     budgetAmount > 0 ? `${budgetCurrency} ${budgetAmount.toLocaleString()}` : 'Not specified'
   );
+  prompt = prompt.replace(
+    /\{existing_materials\}/g,
+    'None provided - the client is not building on existing materials.'
+  );
 
   return prompt;
 }
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Notification } from '@/lib/services/notificationService';
+
+interface UseNotificationsReturn {
+  notifications: Notification[];
+  unreadCount: number;
+  loading: boolean;
+  error: string | null;
+  /** Load the latest notifications (the unread count is polled on its own) */
+  loadNotifications: () => Promise<void>;
+  markRead: (ids: string[] | 'all') => Promise<void>;
+}
+
+/**
+ * Hook for the in-app notification inbox
+ *
+ * Features:
+ * - Polls /api/notifications for the unread count
+ * - Loads the inbox on demand (e.g. when the bell is opened)
+ * - Marks notifications read and updates the count optimistically
+ *
+ * Usage:
+ * ```tsx
+ * const { unreadCount, notifications, loadNotifications, markRead } = useNotifications();
+ * ```
+ */
+export function useNotifications(options?: { refreshInterval?: number }): UseNotificationsReturn {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { refreshInterval = 60000 } = options || {};
+
+  const fetchUnreadCount = useCallback(async () => {
+    if (!user?.id) {
+      setUnreadCount(0);
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/notifications?countOnly=true', {
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setUnreadCount(data.unreadCount);
+      }
+    } catch {
+      // The badge keeps its last value until the next poll
+    }
+  }, [user?.id]);
+
+  const loadNotifications = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/notifications?limit=20', { credentials: 'include' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load notifications');
+      }
+
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  const markRead = useCallback(async (ids: string[] | 'all') => {
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((notification) =>
+        ids === 'all' || ids.includes(notification.id)
+          ? { ...notification, readAt: notification.readAt ?? readAt }
+          : notification
+      )
+    );
+
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(ids === 'all' ? { all: true } : { ids }),
+      });
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (err) {
+      console.error('Failed to mark notifications read:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUnreadCount();
+  }, [fetchUnreadCount]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const interval = setInterval(fetchUnreadCount, refreshInterval);
+    return () => clearInterval(interval);
+  }, [refreshInterval, user?.id, fetchUnreadCount]);
+
+  return { notifications, unreadCount, loading, error, loadNotifications, markRead };
+}
@@ -1,4 +1,5 @@
 import { getSupabaseServerClient } from '@/lib/supabase/server';
+import { getVerifiedUser } from '@/lib/auth/twoFactor';
 
 /**
  * Admin authentication and authorization utilities
@@ -31,7 +32,7 @@ export async function checkAdminAccess(): Promise<{
     const {
       data: { user },
       error: authError,
-    } = await supabase.auth.getUser();
+    } = await getVerifiedUser(supabase);
 
     console.log('[AdminAuth] Auth result:', {
       hasUser: !!user,
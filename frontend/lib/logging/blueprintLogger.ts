@@ -180,33 +180,40 @@ export function logIntegrityCheck(dataType: string, issues: string[], context: L
 /**
  * Create a workflow tracer for the entire blueprint generation
  */
+export interface WorkflowStep {
+  step: string;
+  timestamp: string;
+  duration?: number;
+  data?: unknown;
+  error?: string;
+}
+
+export type WorkflowStepListener = (step: WorkflowStep) => void;
+
 export class WorkflowTracer {
-  private steps: Array<{
-    step: string;
-    timestamp: string;
-    duration?: number;
-    data?: any;
-    error?: string;
-  }> = [];
+  private steps: WorkflowStep[] = [];
   private startTime: number;
   private context: LogContext;
+  private onStep?: WorkflowStepListener;
 
-  constructor(context: LogContext) {
+  constructor(context: LogContext, onStep?: WorkflowStepListener) {
     this.context = context;
     this.startTime = Date.now();
+    this.onStep = onStep;
   }
 
-  addStep(step: string, data?: any, error?: string) {
+  addStep(step: string, data?: unknown, error?: string) {
     const timestamp = new Date().toISOString();
     const duration = Date.now() - this.startTime;
 
-    this.steps.push({
+    const entry: WorkflowStep = {
       step,
       timestamp,
       duration,
       data: data ? JSON.stringify(data).substring(0, 200) : undefined,
       error,
-    });
+    };
+    this.steps.push(entry);
 
     logger.info('workflow.step', `Workflow step: ${step}`, {
       ...this.context,
@@ -215,6 +222,19 @@ export class WorkflowTracer {
       duration,
       hasError: !!error,
     });
+
+    // Listener failures must never break the workflow being traced
+    if (this.onStep) {
+      try {
+        this.onStep(entry);
+      } catch (listenerError) {
+        logger.warn('workflow.listener_error', 'Workflow step listener failed', {
+          ...this.context,
+          step,
+          error: (listenerError as Error).message,
+        });
+      }
+    }
   }
 
   complete(success: boolean, result?: any) {
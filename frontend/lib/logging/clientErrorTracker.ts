@@ -20,11 +20,24 @@ interface ErrorPayload {
   };
 }
 
+/**
+ * The most recent captured error, attached to feedback reports
+ */
+export interface CapturedError {
+  message: string;
+  stack?: string;
+  code?: string;
+  type?: string;
+  url: string;
+  capturedAt: string;
+}
+
 class ClientErrorTracker {
   private endpoint = '/api/logs/client';
   private isInitialized = false;
   private queue: ErrorPayload[] = [];
   private isProcessing = false;
+  private lastError: CapturedError | null = null;
 
   /**
    * Initialize error tracking
@@ -60,6 +73,17 @@ class ClientErrorTracker {
    */
   captureError(error: Error | unknown, context: Record<string, unknown> = {}): void {
     const errorObj = error instanceof Error ? error : new Error(String(error));
+    const code =
+      'code' in errorObj && typeof errorObj.code === 'string' ? errorObj.code : undefined;
+
+    this.lastError = {
+      message: errorObj.message || 'Unknown error',
+      stack: errorObj.stack,
+      code,
+      type: typeof context.type === 'string' ? context.type : undefined,
+      url: window.location.href,
+      capturedAt: new Date().toISOString(),
+    };
 
     const payload: ErrorPayload = {
       level: 'error',
@@ -68,7 +92,7 @@ class ClientErrorTracker {
       metadata: {
         error: errorObj.message,
         errorStack: errorObj.stack,
-        errorCode: (errorObj as any).code,
+        errorCode: code,
         url: window.location.href,
         userAgent: navigator.userAgent,
         ...context,
@@ -78,6 +102,13 @@ class ClientErrorTracker {
     this.queueError(payload);
   }
 
+  /**
+   * Last error captured in this page session, if any
+   */
+  getLastError(): CapturedError | null {
+    return this.lastError;
+  }
+
   /**
    * Manually log a warning
    */
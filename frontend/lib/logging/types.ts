@@ -16,6 +16,8 @@ export type LogService =
   | 'ui'
   | 'system'
   | 'feedback'
+  | 'notifications'
+  | 'data-export'
   | 'claude'
   | 'blueprint-generation'
   | 'claude-client'
@@ -188,6 +190,8 @@ export const SERVICE_COLORS: Record<LogService, string> = {
   ui: 'bg-pink-100 text-pink-700 dark:bg-pink-900 dark:text-pink-300',
   system: 'bg-gray-100 text-gray-700 dark:bg-gray-900 dark:text-gray-300',
   feedback: 'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300',
+  notifications: 'bg-sky-100 text-sky-700 dark:bg-sky-900 dark:text-sky-300',
+  'data-export': 'bg-lime-100 text-lime-700 dark:bg-lime-900 dark:text-lime-300',
   claude: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-300',
   'blueprint-generation': 'bg-teal-100 text-teal-700 dark:bg-teal-900 dark:text-teal-300',
   'claude-client': 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
@@ -0,0 +1,168 @@
+/**
+ * Course Material Chunking and Retrieval
+ * Splits extracted text into prompt-sized chunks and picks the ones most
+ * relevant to a questionnaire by term overlap, so prompts carry excerpts
+ * rather than whole documents.
+ */
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  tokenCount: number;
+}
+
+export interface ChunkOptions {
+  /** Upper bound on characters per chunk */
+  maxChars?: number;
+  /** Characters carried over from the end of the previous chunk */
+  overlap?: number;
+}
+
+const DEFAULT_MAX_CHARS = 1500;
+const DEFAULT_OVERLAP = 150;
+
+/**
+ * Rough token estimate (about four characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function splitLong(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const sentences = text.match(/[^.!?]+(?:[.!?]+|$)\s*/g) ?? [text];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    // A single sentence longer than a chunk is cut on whitespace
+    let rest = sentence;
+    while (rest.length > maxChars) {
+      const cut = rest.lastIndexOf(' ', maxChars);
+      const at = cut > maxChars / 2 ? cut : maxChars;
+      pieces.push(rest.slice(0, at).trim());
+      rest = rest.slice(at);
+    }
+    current += rest;
+  }
+
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0 || text.length <= overlap) return '';
+  const tail = text.slice(-overlap);
+  const start = tail.indexOf(' ');
+  return start === -1 ? tail : tail.slice(start + 1);
+}
+
+/**
+ * Pack paragraphs into chunks of at most `maxChars`, keeping paragraphs whole
+ * where possible and repeating a short tail of each chunk at the start of the
+ * next so excerpts keep their context.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(maxChars / 4));
+
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => splitLong(paragraph, maxChars - overlap));
+
+  const contents: string[] = [];
+  let current = '';
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      contents.push(current);
+      const tail = overlapTail(current, overlap);
+      current = tail ? `${tail}\n\n${paragraph}` : paragraph;
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  }
+  if (current) contents.push(current);
+
+  return contents.map((content, index) => ({
+    index,
+    content,
+    tokenCount: estimateTokens(content),
+  }));
+}
+
+const STOP_WORDS = new Set(
+  (
+    'a about after all also an and any are as at be been but by can could do does for from ' +
+    'has have how if in into is it its may more most no not of on or our out over per should ' +
+    'so such than that the their them then there these they this those to up us was we were ' +
+    'what when which who will with would you your'
+  ).split(' ')
+);
+
+/**
+ * Lower-cased content words of three or more letters
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []).filter(
+    (word) => !STOP_WORDS.has(word)
+  );
+}
+
+/**
+ * Score chunks against a query with a BM25-style weighting and return the
+ * best `limit`, in descending order of relevance. Chunks sharing no terms
+ * with the query are dropped.
+ */
+export function rankChunks<T extends { content: string }>(
+  chunks: T[],
+  query: string,
+  limit: number
+): T[] {
+  const queryTerms = new Set(tokenize(query));
+  if (queryTerms.size === 0 || chunks.length === 0) return [];
+
+  const documents = chunks.map((chunk) => tokenize(chunk.content));
+  const averageLength =
+    documents.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      if (queryTerms.has(term)) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+  }
+
+  const k1 = 1.2;
+  const b = 0.75;
+  const scored = documents.map((terms, i) => {
+    const frequency = new Map<string, number>();
+    for (const term of terms) {
+      if (queryTerms.has(term)) frequency.set(term, (frequency.get(term) ?? 0) + 1);
+    }
+
+    let score = 0;
+    for (const [term, count] of frequency) {
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score +=
+        (idf * count * (k1 + 1)) / (count + k1 * (1 - b + (b * terms.length) / averageLength));
+    }
+    return { chunk: chunks[i], score, index: i };
+  });
+
+  return scored
+    .filter((entry) => entry.score > 0)
+    .sort((left, right) => right.score - left.score || left.index - right.index)
+    .slice(0, limit)
+    .map((entry) => entry.chunk);
+}
@@ -0,0 +1,165 @@
+/**
+ * Course Materials Prompt Context
+ * What the question and blueprint prompts learn about a client's existing
+ * materials: the chosen content strategy, a summary per file and the excerpts
+ * most relevant to the questionnaire. Client-safe: the wizard imports the
+ * upload limits and strategies from here.
+ */
+
+export type MaterialKind = 'pdf' | 'docx' | 'pptx' | 'markdown';
+
+export const MAX_MATERIAL_BYTES = 20 * 1024 * 1024;
+
+/** File input `accept` list for uploads */
+export const MATERIAL_ACCEPT = '.pdf,.docx,.pptx,.md,.markdown';
+
+export type ContentStrategy = 'scratch' | 'adapt' | 'license' | 'curate' | 'hybrid';
+
+export const CONTENT_STRATEGIES: ContentStrategy[] = [
+  'scratch',
+  'adapt',
+  'license',
+  'curate',
+  'hybrid',
+];
+
+export interface MaterialSummary {
+  id: string;
+  fileName: string;
+  summary: string;
+}
+
+export interface MaterialExcerpt {
+  materialId: string;
+  fileName: string;
+  chunkIndex: number;
+  content: string;
+}
+
+export interface CourseMaterialsContext {
+  strategy: ContentStrategy;
+  materials: MaterialSummary[];
+  excerpts: MaterialExcerpt[];
+}
+
+/**
+ * Only strategies that build on what the client already has pull materials
+ * into prompts
+ */
+export function usesExistingMaterials(strategy: ContentStrategy | null): boolean {
+  return strategy === 'adapt' || strategy === 'hybrid';
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function isContentStrategy(value: unknown): value is ContentStrategy {
+  return typeof value === 'string' && (CONTENT_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Content strategy from V2.0 (section_3_learning_gap.content_strategy) or
+ * legacy (resources.contentStrategy.source) static answers
+ */
+export function getContentStrategy(staticAnswers: Record<string, unknown>): ContentStrategy | null {
+  const v20 = asRecord(staticAnswers.section_3_learning_gap).content_strategy;
+  if (isContentStrategy(v20)) return v20;
+
+  const legacy = asRecord(asRecord(staticAnswers.resources).contentStrategy).source;
+  return isContentStrategy(legacy) ? legacy : null;
+}
+
+/**
+ * Material ids recorded in the static answers, or null when the answers do
+ * not list any (older drafts), in which case every material on the
+ * blueprint applies
+ */
+export function getSelectedMaterialIds(staticAnswers: Record<string, unknown>): string[] | null {
+  const v20 = asRecord(staticAnswers.section_3_learning_gap).existing_materials;
+  const legacy = asRecord(asRecord(staticAnswers.resources).contentStrategy).existingMaterials;
+  const ids = Array.isArray(v20) ? v20 : Array.isArray(legacy) ? legacy : null;
+  return ids ? ids.filter((id): id is string => typeof id === 'string') : null;
+}
+
+function collectText(value: unknown, into: string[]): void {
+  if (typeof value === 'string') {
+    into.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectText(item, into));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectText(item, into));
+  }
+}
+
+/**
+ * Retrieval query for picking excerpts: the learning gap and audience first,
+ * then role, organisation and any dynamic answers
+ */
+export function buildMaterialsQuery(
+  staticAnswers: Record<string, unknown>,
+  dynamicAnswers: Record<string, unknown> = {}
+): string {
+  const parts: string[] = [];
+  const section3 = asRecord(staticAnswers.section_3_learning_gap);
+  collectText(section3.learning_gap_description, parts);
+  collectText(section3.motivation_factors, parts);
+  collectText(asRecord(staticAnswers.section_1_role_experience).current_role, parts);
+  const section2 = asRecord(staticAnswers.section_2_organization);
+  collectText(section2.industry_sector, parts);
+  collectText(section2.compliance_requirements, parts);
+
+  // Legacy 8-section answers have no learning gap section; use everything
+  if (!staticAnswers.section_3_learning_gap) {
+    collectText(staticAnswers, parts);
+  }
+  collectText(dynamicAnswers, parts);
+
+  return parts.join(' ');
+}
+
+const STRATEGY_GUIDANCE: Record<'adapt' | 'hybrid', string> = {
+  adapt:
+    'The client will ADAPT these existing materials. Build on what they already cover, ' +
+    'focus on gaps, outdated content and conversion work, and do not redesign topics the ' +
+    'materials already handle well.',
+  hybrid:
+    'The client will combine these existing materials with new development (HYBRID). ' +
+    'Reuse what the materials cover well and plan new content only for the gaps.',
+};
+
+/**
+ * Plain-text block describing the materials for a prompt. Excerpts are added
+ * in relevance order until `maxChars` is reached.
+ */
+export function formatMaterialsForPrompt(
+  context: CourseMaterialsContext,
+  maxChars = 12000
+): string {
+  if (context.materials.length === 0) return '';
+
+  const lines = [`Content Strategy: ${context.strategy}`];
+  if (context.strategy === 'adapt' || context.strategy === 'hybrid') {
+    lines.push(STRATEGY_GUIDANCE[context.strategy]);
+  }
+  lines.push(
+    '',
+    'Files:',
+    ...context.materials.map(
+      (material) => `- ${material.fileName}: ${material.summary || 'No summary available'}`
+    )
+  );
+
+  const text = lines.join('\n');
+  const heading = '\n\nRelevant excerpts:';
+
+  let excerpts = '';
+  for (const excerpt of context.excerpts) {
+    const block = `\n\n[${excerpt.fileName}, part ${excerpt.chunkIndex + 1}]\n${excerpt.content}`;
+    if (text.length + heading.length + excerpts.length + block.length > maxChars) break;
+    excerpts += block;
+  }
+  return excerpts ? `${text}${heading}${excerpts}` : text;
+}
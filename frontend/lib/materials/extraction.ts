@@ -0,0 +1,172 @@
+/**
+ * Course Material Text Extraction
+ * Pulls plain text out of uploaded PDFs, Word documents, PowerPoint decks and
+ * Markdown files. Office files are read straight from their OOXML parts.
+ */
+
+import JSZip from 'jszip';
+import type { MaterialKind } from './context';
+
+const EXTENSION_KINDS: Record<string, MaterialKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  md: 'markdown',
+  markdown: 'markdown',
+};
+
+const MIME_KINDS: Record<string, MaterialKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+};
+
+/**
+ * Work out what kind of file was uploaded. The extension wins because
+ * browsers report Markdown inconsistently (often as text/plain or nothing).
+ */
+export function detectMaterialKind(
+  fileName: string,
+  mimeType?: string | null
+): MaterialKind | null {
+  const extension = fileName.toLowerCase().split('.').pop() ?? '';
+  return EXTENSION_KINDS[extension] ?? (mimeType ? (MIME_KINDS[mimeType] ?? null) : null);
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlText(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1));
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Text of each paragraph in a WordprocessingML or DrawingML part, joining the
+ * runs inside it. `prefix` is `w` for Word and `a` for PowerPoint.
+ */
+function xmlParagraphs(xml: string, prefix: 'w' | 'a'): string[] {
+  const paragraphPattern = new RegExp(`<${prefix}:p[ >][\\s\\S]*?</${prefix}:p>`, 'g');
+  const textPattern = new RegExp(
+    `<${prefix}:t(?:\\s[^>]*)?>([\\s\\S]*?)</${prefix}:t>|<${prefix}:tab/>|<${prefix}:br/>`,
+    'g'
+  );
+
+  return (xml.match(paragraphPattern) ?? [])
+    .map((paragraph) =>
+      Array.from(paragraph.matchAll(textPattern))
+        .map((match) => (match[1] === undefined ? ' ' : decodeXmlText(match[1])))
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+function partNumber(path: string): number {
+  return Number(path.match(/(\d+)\.xml$/)?.[1] ?? 0);
+}
+
+async function extractDocx(bytes: Uint8Array): Promise<string> {
+  const zip = await JSZip.loadAsync(bytes);
+  const document = zip.file('word/document.xml');
+  if (!document) {
+    throw new Error('Not a Word document');
+  }
+  return xmlParagraphs(await document.async('string'), 'w').join('\n\n');
+}
+
+async function extractPptx(bytes: Uint8Array): Promise<string> {
+  const zip = await JSZip.loadAsync(bytes);
+  const slides = zip
+    .file(/^ppt\/slides\/slide\d+\.xml$/)
+    .sort((a, b) => partNumber(a.name) - partNumber(b.name));
+  if (slides.length === 0) {
+    throw new Error('Not a PowerPoint presentation');
+  }
+
+  const texts = await Promise.all(
+    slides.map(async (slide) => {
+      const paragraphs = xmlParagraphs(await slide.async('string'), 'a');
+      const notes = zip.file(`ppt/notesSlides/notesSlide${partNumber(slide.name)}.xml`);
+      if (notes) {
+        // Notes repeat the slide number placeholder; keep only real sentences
+        const noteText = xmlParagraphs(await notes.async('string'), 'a').filter(
+          (line) => !/^\d+$/.test(line)
+        );
+        paragraphs.push(...noteText);
+      }
+      return paragraphs.join('\n');
+    })
+  );
+
+  return texts.filter(Boolean).join('\n\n');
+}
+
+async function extractPdf(bytes: Uint8Array): Promise<string> {
+  // Loaded lazily: pdf.js is large and only needed for PDFs
+  const { extractText, getDocumentProxy } = await import('unpdf');
+  const pdf = await getDocumentProxy(new Uint8Array(bytes));
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text.map((page) => page.trim()).join('\n\n');
+}
+
+/**
+ * Strip Markdown syntax that carries no meaning for a prompt (images, link
+ * targets, emphasis markers, HTML comments) while keeping headings and lists
+ */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^\uFEFF/, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^```.*$/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+/**
+ * Normalise whitespace: single spaces within lines, at most one blank line
+ * between paragraphs
+ */
+export function normalizeExtractedText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export async function extractMaterialText(bytes: Uint8Array, kind: MaterialKind): Promise<string> {
+  let text: string;
+  switch (kind) {
+    case 'pdf':
+      text = await extractPdf(bytes);
+      break;
+    case 'docx':
+      text = await extractDocx(bytes);
+      break;
+    case 'pptx':
+      text = await extractPptx(bytes);
+      break;
+    case 'markdown':
+      text = markdownToText(new TextDecoder('utf-8').decode(bytes));
+      break;
+  }
+  return normalizeExtractedText(text);
+}
@@ -0,0 +1,46 @@
+/**
+ * Course Materials
+ * Server-side ingestion of a client's existing course materials: text
+ * extraction, chunking and a summary per file, plus the prompt context built
+ * from them for question and blueprint generation.
+ */
+
+import { chunkText, type TextChunk } from './chunking';
+import type { MaterialKind } from './context';
+import { extractMaterialText } from './extraction';
+import type { LlmUsageContext } from '@/lib/services/llmUsageService';
+import { summarizeMaterial } from './summary';
+
+export interface ProcessedMaterial {
+  text: string;
+  chunks: TextChunk[];
+  summary: string;
+}
+
+/**
+ * Extract, chunk and summarise one uploaded file. Throws when the file has no
+ * readable text (e.g. a scanned PDF without a text layer). The summary call is
+ * billed to `usage` when given.
+ */
+export async function processMaterial(
+  bytes: Uint8Array,
+  kind: MaterialKind,
+  fileName: string,
+  usage?: LlmUsageContext
+): Promise<ProcessedMaterial> {
+  const text = await extractMaterialText(bytes, kind);
+  if (!text) {
+    throw new Error('No readable text found in file');
+  }
+
+  return {
+    text,
+    chunks: chunkText(text),
+    summary: await summarizeMaterial(text, fileName, usage),
+  };
+}
+
+export * from './chunking';
+export * from './context';
+export * from './extraction';
+export { extractiveSummary, summarizeMaterial } from './summary';
@@ -0,0 +1,59 @@
+/**
+ * Course Material Summaries
+ * A short summary per uploaded file, written through the provider gateway
+ * and otherwise taken from the document's leading sentences.
+ */
+
+import { ProviderGateway, getProviderGateway } from '@/lib/ai-sdk/gateway';
+import type { LlmUsageContext } from '@/lib/services/llmUsageService';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('claude');
+
+const MAX_SUMMARY_INPUT_CHARS = 24000;
+const MAX_SUMMARY_CHARS = 800;
+
+const SUMMARY_SYSTEM_PROMPT = `You summarise existing training materials for an instructional designer.
+Write 3-5 plain sentences (no markdown, no preamble) covering: the topics covered, the intended audience and level, the format (e.g. slide deck, handbook, SOP), and anything that looks outdated or missing.`;
+
+/**
+ * Fallback summary: the first sentences of the document up to the length limit
+ */
+export function extractiveSummary(text: string, maxChars = MAX_SUMMARY_CHARS): string {
+  const sentences = text.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]+/g) ?? [];
+  let summary = '';
+  for (const sentence of sentences) {
+    const next = `${summary} ${sentence.trim()}`.trim();
+    if (next.length > maxChars) break;
+    summary = next;
+  }
+  return summary || text.replace(/\s+/g, ' ').slice(0, maxChars).trim();
+}
+
+export async function summarizeMaterial(
+  text: string,
+  fileName: string,
+  usage?: LlmUsageContext,
+  gateway: ProviderGateway = getProviderGateway()
+): Promise<string> {
+  try {
+    const response = await gateway.generate({
+      system: SUMMARY_SYSTEM_PROMPT,
+      prompt: `File: ${fileName}\n\n${text.slice(0, MAX_SUMMARY_INPUT_CHARS)}`,
+      maxTokens: 400,
+      temperature: 0.2,
+      // A summary is optional; fall back quickly instead of backing off
+      maxRetries: 1,
+      usage,
+    });
+
+    const summary = response.text.trim();
+    return summary ? summary.slice(0, MAX_SUMMARY_CHARS * 2) : extractiveSummary(text);
+  } catch (error) {
+    logger.warn('materials.summary.failed', 'Falling back to extractive summary', {
+      fileName,
+      error: (error as Error).message,
+    });
+    return extractiveSummary(text);
+  }
+}
@@ -67,6 +67,14 @@ function getClientIP(request: Request): string {
   return 'unknown';
 }
 
+/**
+ * Rate limit key for password guesses on a share link: per link token and IP
+ */
+export function sharePasswordRateLimitKey(request: Request): string {
+  const token = new URL(request.url).pathname.match(/\/share\/([^/]+)/)?.[1] ?? 'unknown';
+  return `share-password:${token}:${getClientIP(request)}`;
+}
+
 // ============================================================================
 // Types and Interfaces
 // ============================================================================
@@ -175,6 +183,50 @@ export const RATE_LIMIT_CONFIGS = {
     message: 'Too many subscription cancellation attempts. Please contact support.',
   } as RateLimitConfig,
 
+  /** Subscription plan changes: previews count too, so allow a few more */
+  SUBSCRIPTION_PLAN_CHANGE: {
+    windowMs: 10 * 60 * 1000, // 10 minutes
+    maxRequests: 20, // 20 previews or changes per 10 minutes
+    keyGenerator: (request: Request) => {
+      const userId = request.headers.get('x-user-id');
+      const ip = getClientIP(request);
+      return `subscription-change:${userId || ip}`;
+    },
+    message: 'Too many plan change attempts. Please try again later.',
+  } as RateLimitConfig,
+
+  /** Promo code checks: keep codes from being guessed */
+  COUPON_VALIDATION: {
+    windowMs: 10 * 60 * 1000, // 10 minutes
+    maxRequests: 10, // 10 codes per 10 minutes
+    keyGenerator: (request: Request) => {
+      const userId = request.headers.get('x-user-id');
+      const ip = getClientIP(request);
+      return `coupon-validate:${userId || ip}`;
+    },
+    message: 'Too many promo code attempts. Please try again later.',
+  } as RateLimitConfig,
+
+  /** Feedback reports: each one is tagged by the AI, so cap bursts */
+  FEEDBACK_SUBMISSION: {
+    windowMs: 60 * 60 * 1000, // 1 hour
+    maxRequests: 10, // 10 reports per hour
+    keyGenerator: (request: Request) => {
+      const userId = request.headers.get('x-user-id');
+      const ip = getClientIP(request);
+      return `feedback-submit:${userId || ip}`;
+    },
+    message: 'Too many feedback reports. Please try again later.',
+  } as RateLimitConfig,
+
+  /** Share link passwords: only wrong guesses are counted */
+  SHARE_PASSWORD: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 10, // 10 wrong passwords per link and IP
+    keyGenerator: sharePasswordRateLimitKey,
+    message: 'Too many incorrect passwords. Please try again later.',
+  } as RateLimitConfig,
+
   /** Webhook endpoints: High limits for reliability */
   WEBHOOK: {
     windowMs: 60 * 1000, // 1 minute
@@ -0,0 +1,176 @@
+/**
+ * Notification Templates
+ * Renders each notification type into the in-app entry and the email
+ */
+
+import type { NotificationPayloads, NotificationType } from './types';
+
+export interface RenderedNotification {
+  title: string;
+  body: string;
+  /** App-relative path the notification opens */
+  link: string | null;
+  email: {
+    subject: string;
+    text: string;
+    html: string;
+  };
+}
+
+interface TemplateContent {
+  title: string;
+  body: string;
+  link: string | null;
+  actionLabel: string | null;
+  subject: string;
+}
+
+type TemplateMap = {
+  [T in NotificationType]: (data: NotificationPayloads[T]) => TemplateContent;
+};
+
+function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-IN', { style: 'currency', currency }).format(amount / 100);
+  } catch {
+    return `${currency} ${(amount / 100).toFixed(2)}`;
+  }
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-IN', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
+const TEMPLATES: TemplateMap = {
+  generation_completed: ({ blueprintId, blueprintTitle }) => ({
+    title: 'Your blueprint is ready',
+    body: `"${blueprintTitle}" has finished generating.`,
+    link: `/blueprint/${blueprintId}`,
+    actionLabel: 'View blueprint',
+    subject: `Your blueprint "${blueprintTitle}" is ready`,
+  }),
+
+  share_link_viewed: ({ blueprintId, blueprintTitle, linkLabel, viewCount }) => {
+    const linkName = linkLabel ? ` (${linkLabel})` : '';
+    return {
+      title: viewCount === 1 ? 'Your shared blueprint was opened' : `${viewCount} views`,
+      body:
+        viewCount === 1
+          ? `Someone opened the share link${linkName} for "${blueprintTitle}".`
+          : `The share link${linkName} for "${blueprintTitle}" has been viewed ${viewCount} times.`,
+      link: `/blueprint/${blueprintId}`,
+      actionLabel: 'See link analytics',
+      subject:
+        viewCount === 1
+          ? `"${blueprintTitle}" was opened`
+          : `"${blueprintTitle}" reached ${viewCount} views`,
+    };
+  },
+
+  payment_failed: ({ amount, currency, reason }) => ({
+    title: 'Payment failed',
+    body: `We couldn't charge ${formatAmount(amount, currency)} for your subscription${
+      reason ? `: ${reason}` : '.'
+    } Update your payment method to keep your plan.`,
+    link: '/subscription',
+    actionLabel: 'Update payment method',
+    subject: 'Your SmartSlate Polaris payment failed',
+  }),
+
+  grace_period_warning: ({ daysRemaining, gracePeriodEnd, subscriptionTier }) => {
+    const days = `${daysRemaining} day${daysRemaining === 1 ? '' : 's'}`;
+    const tier = subscriptionTier.charAt(0).toUpperCase() + subscriptionTier.slice(1);
+    return {
+      title: `${days} left to renew`,
+      body: `Your ${tier} plan will be downgraded on ${formatDate(gracePeriodEnd)} unless your renewal payment goes through.`,
+      link: '/subscription',
+      actionLabel: 'Renew now',
+      subject: `${days} left before your ${tier} plan is downgraded`,
+    };
+  },
+
+  feedback_updated: ({ feedbackId, feedbackTitle, status, message }) => {
+    const statusLabel = status ? status.replace(/_/g, ' ') : null;
+    return {
+      title: statusLabel ? `Your report is now ${statusLabel}` : 'New reply to your report',
+      body: message
+        ? `"${feedbackTitle}": ${message}`
+        : `"${feedbackTitle}" was marked ${statusLabel ?? 'updated'}.`,
+      link: `/feedback?report=${feedbackId}`,
+      actionLabel: 'View report',
+      subject: statusLabel
+        ? `Your report "${feedbackTitle}" is now ${statusLabel}`
+        : `New reply to your report "${feedbackTitle}"`,
+    };
+  },
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderEmailHtml(
+  content: TemplateContent,
+  actionUrl: string | null,
+  appUrl: string
+): string {
+  const action =
+    actionUrl && content.actionLabel
+      ? `<p style="margin:24px 0"><a href="${escapeHtml(actionUrl)}" style="background:#4f46e5;color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;font-weight:600">${escapeHtml(content.actionLabel)}</a></p>`
+      : '';
+
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f5f7;font-family:Arial,Helvetica,sans-serif;color:#1f2937">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+      <h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(content.title)}</h1>
+      <p style="margin:0;font-size:15px;line-height:1.5">${escapeHtml(content.body)}</p>
+      ${action}
+      <p style="margin:32px 0 0;font-size:12px;color:#6b7280">
+        You can change which emails you get in <a href="${escapeHtml(`${appUrl}/settings#notifications`)}" style="color:#6b7280">notification settings</a>.
+      </p>
+    </div>
+  </body>
+</html>`;
+}
+
+/**
+ * Render a notification. Email links are absolute, using appUrl.
+ */
+export function renderNotification<T extends NotificationType>(
+  type: T,
+  data: NotificationPayloads[T],
+  appUrl: string
+): RenderedNotification {
+  const content = (TEMPLATES[type] as (data: NotificationPayloads[T]) => TemplateContent)(data);
+  const baseUrl = appUrl.replace(/\/$/, '');
+  const actionUrl = content.link ? `${baseUrl}${content.link}` : null;
+
+  const text = [
+    content.body,
+    actionUrl && content.actionLabel ? `${content.actionLabel}: ${actionUrl}` : null,
+    `Notification settings: ${baseUrl}/settings#notifications`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    title: content.title,
+    body: content.body,
+    link: content.link,
+    email: {
+      subject: content.subject,
+      text,
+      html: renderEmailHtml(content, actionUrl, baseUrl),
+    },
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Email Transports
+ * SMTP for real delivery, and console / file sinks for local development.
+ * Selected with EMAIL_TRANSPORT; without it, SMTP is used when SMTP_HOST is
+ * set and the console otherwise.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('notifications');
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+const DEFAULT_FROM = 'SmartSlate Polaris <no-reply@smartslate.io>';
+
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: config.from, ...message });
+    },
+  };
+}
+
+/**
+ * Logs emails instead of sending them
+ */
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      logger.info('email.console', 'Email not sent (console transport)', {
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+      });
+    },
+  };
+}
+
+/**
+ * Writes each email as an HTML file with a header comment, for previewing
+ * templates in a browser
+ */
+export function createFileTransport(directory: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const slug = message.subject
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .slice(0, 60);
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}.html`;
+      const header = `<!--\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n-->\n`;
+
+      await writeFile(path.join(directory, fileName), header + message.html, 'utf8');
+    },
+  };
+}
+
+let cachedTransport: EmailTransport | null = null;
+
+/**
+ * Transport configured by environment variables
+ */
+export function getEmailTransport(): EmailTransport {
+  if (cachedTransport) return cachedTransport;
+
+  const from = process.env.EMAIL_FROM || DEFAULT_FROM;
+  const configured = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+
+  if (configured === 'smtp' && process.env.SMTP_HOST) {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    cachedTransport = createSmtpTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      from,
+    });
+  } else if (configured === 'file') {
+    cachedTransport = createFileTransport(path.resolve(process.env.EMAIL_FILE_DIR || '.emails'));
+  } else {
+    if (configured === 'smtp') {
+      logger.warn('email.transport_fallback', 'SMTP_HOST is not set, logging emails instead');
+    }
+    cachedTransport = createConsoleTransport();
+  }
+
+  return cachedTransport;
+}
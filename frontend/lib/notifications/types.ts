@@ -0,0 +1,101 @@
+/**
+ * Notification types, their payloads and default delivery preferences
+ */
+
+export type NotificationType =
+  | 'generation_completed'
+  | 'share_link_viewed'
+  | 'payment_failed'
+  | 'grace_period_warning'
+  | 'feedback_updated';
+
+export type NotificationChannel = 'email' | 'inApp';
+
+/**
+ * Data each notification type is rendered from
+ */
+export interface NotificationPayloads {
+  generation_completed: {
+    blueprintId: string;
+    blueprintTitle: string;
+  };
+  share_link_viewed: {
+    blueprintId: string;
+    blueprintTitle: string;
+    linkId: string;
+    linkLabel: string | null;
+    viewCount: number;
+  };
+  payment_failed: {
+    /** Paise */
+    amount: number;
+    currency: string;
+    reason: string | null;
+  };
+  grace_period_warning: {
+    daysRemaining: number;
+    gracePeriodEnd: string;
+    subscriptionTier: string;
+  };
+  feedback_updated: {
+    feedbackId: string;
+    feedbackTitle: string;
+    /** Set when the status changed */
+    status: string | null;
+    /** Reply from the support team, if any */
+    message: string | null;
+  };
+}
+
+export interface NotificationTypeDefinition {
+  label: string;
+  description: string;
+  category: 'blueprints' | 'billing' | 'support';
+  defaults: Record<NotificationChannel, boolean>;
+  /** Billing emails the user cannot turn off */
+  emailRequired?: boolean;
+}
+
+export const NOTIFICATION_TYPES: Record<NotificationType, NotificationTypeDefinition> = {
+  generation_completed: {
+    label: 'Blueprint ready',
+    description: 'When a blueprint finishes generating',
+    category: 'blueprints',
+    defaults: { email: true, inApp: true },
+  },
+  share_link_viewed: {
+    label: 'Share link views',
+    description: 'When a shared blueprint is first opened, and at view milestones',
+    category: 'blueprints',
+    defaults: { email: false, inApp: true },
+  },
+  payment_failed: {
+    label: 'Payment failures',
+    description: 'When a subscription payment could not be charged',
+    category: 'billing',
+    defaults: { email: true, inApp: true },
+    emailRequired: true,
+  },
+  grace_period_warning: {
+    label: 'Grace period reminders',
+    description: 'Before your plan is downgraded after a missed renewal',
+    category: 'billing',
+    defaults: { email: true, inApp: true },
+    emailRequired: true,
+  },
+  feedback_updated: {
+    label: 'Feedback updates',
+    description: 'When a report you sent gets a reply or changes status',
+    category: 'support',
+    defaults: { email: true, inApp: true },
+  },
+};
+
+export const NOTIFICATION_TYPE_IDS = Object.keys(NOTIFICATION_TYPES) as NotificationType[];
+
+// Share link views notify on the first view and then at these counts
+const SHARE_VIEW_MILESTONES = [10, 50, 100, 500, 1000];
+
+export function isShareViewMilestone(viewCount: number): boolean {
+  return viewCount === 1 || SHARE_VIEW_MILESTONES.includes(viewCount);
+}
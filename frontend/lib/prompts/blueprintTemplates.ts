@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { AggregatedAnswer } from '@/lib/services/answerAggregation';
+import { getPrompt } from './registry';
 
 // Define a schema for validating the prompt input data
 const promptInputSchema = z.object({
@@ -13,15 +14,10 @@ const promptInputSchema = z.object({
 
 export type PromptInput = z.infer<typeof promptInputSchema>;
 
-// Base system prompt for consistent blueprint generation
-const SYSTEM_PROMPT_BASE = `You are an AI assistant specialized in generating comprehensive learning blueprints.
-Your goal is to create a detailed, structured, and engaging learning plan based on the user's input.
-The output should be a JSON object conforming to the BlueprintSchema, followed by a Markdown representation.
-Ensure the blueprint is practical, objective-driven, and tailored to the specified audience and delivery method.`;
-
 // Function to generate the system prompt, allowing for dynamic context injection
 export function generateSystemPrompt(context?: string): string {
-  return context ? `${SYSTEM_PROMPT_BASE}\n\nAdditional Context: ${context}` : SYSTEM_PROMPT_BASE;
+  const base = getPrompt('blueprint_template.system').text;
+  return context ? `${base}\n\nAdditional Context: ${context}` : base;
 }
 
 // Function to generate the user prompt based on aggregated answers
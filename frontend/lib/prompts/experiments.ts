@@ -0,0 +1,142 @@
+/**
+ * Prompt Experiments
+ *
+ * @description A/B assignment between two registered versions of a prompt.
+ * Assignment hashes the experiment id with a unit key (the blueprint id), so
+ * retries and later stages of the same blueprint always see the same arm.
+ *
+ * Experiments are configured in PROMPT_EXPERIMENTS below or, without a
+ * deploy, with the PROMPT_EXPERIMENTS env var holding a JSON array of the same
+ * shape (it replaces the list in code). At most one active experiment applies
+ * per prompt; the first one listed wins.
+ */
+
+import { getPrompt, hasPromptVersion, isPromptId, type PromptId } from './registry';
+
+export type ExperimentArm = 'control' | 'variant';
+
+export interface PromptExperiment {
+  id: string;
+  promptId: PromptId;
+  control: string;
+  variant: string;
+  /** Share of traffic sent to the variant, 0-1 */
+  variantShare: number;
+  active: boolean;
+}
+
+/**
+ * Which version of a prompt a unit was given, and why
+ */
+export interface PromptAssignment {
+  promptId: PromptId;
+  version: string;
+  experimentId: string | null;
+  arm: ExperimentArm | null;
+}
+
+export interface ResolvedPromptAssignment extends PromptAssignment {
+  text: string;
+}
+
+export const PROMPT_EXPERIMENTS: PromptExperiment[] = [];
+
+function isValidExperiment(experiment: Partial<PromptExperiment>): experiment is PromptExperiment {
+  return (
+    typeof experiment.id === 'string' &&
+    experiment.id.length > 0 &&
+    typeof experiment.promptId === 'string' &&
+    isPromptId(experiment.promptId) &&
+    typeof experiment.control === 'string' &&
+    typeof experiment.variant === 'string' &&
+    hasPromptVersion(experiment.promptId, experiment.control) &&
+    hasPromptVersion(experiment.promptId, experiment.variant) &&
+    typeof experiment.variantShare === 'number' &&
+    experiment.variantShare >= 0 &&
+    experiment.variantShare <= 1
+  );
+}
+
+/**
+ * Configured experiments; entries naming unknown prompts or versions are
+ * dropped with a warning
+ */
+export function getPromptExperiments(): PromptExperiment[] {
+  let configured: Partial<PromptExperiment>[] = PROMPT_EXPERIMENTS;
+
+  const raw = process.env.PROMPT_EXPERIMENTS;
+  if (raw?.trim()) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) configured = parsed;
+    } catch {
+      console.warn('[Prompt Experiments] Ignoring invalid PROMPT_EXPERIMENTS');
+    }
+  }
+
+  return configured
+    .map((experiment) => ({ ...experiment, active: experiment.active ?? true }))
+    .filter((experiment): experiment is PromptExperiment => {
+      if (isValidExperiment(experiment)) return true;
+      console.warn('[Prompt Experiments] Ignoring invalid experiment:', experiment.id);
+      return false;
+    });
+}
+
+/**
+ * Stable bucket in [0, 1) for a key (FNV-1a)
+ */
+export function hashToUnitInterval(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Choose the version of a prompt for a unit (usually the blueprint id)
+ */
+export function assignPromptVersion(
+  promptId: PromptId,
+  unitKey: string,
+  experiments: PromptExperiment[] = getPromptExperiments()
+): PromptAssignment {
+  const experiment = experiments.find(
+    (candidate) => candidate.active && candidate.promptId === promptId
+  );
+
+  if (!experiment) {
+    return {
+      promptId,
+      version: getPrompt(promptId).version,
+      experimentId: null,
+      arm: null,
+    };
+  }
+
+  const arm: ExperimentArm =
+    hashToUnitInterval(`${experiment.id}:${unitKey}`) < experiment.variantShare
+      ? 'variant'
+      : 'control';
+
+  return {
+    promptId,
+    version: arm === 'variant' ? experiment.variant : experiment.control,
+    experimentId: experiment.id,
+    arm,
+  };
+}
+
+/**
+ * Assign a version and load its text
+ */
+export function resolvePrompt(
+  promptId: PromptId,
+  unitKey: string,
+  experiments?: PromptExperiment[]
+): ResolvedPromptAssignment {
+  const assignment = assignPromptVersion(promptId, unitKey, experiments);
+  return { ...assignment, text: getPrompt(promptId, assignment.version).text };
+}
@@ -0,0 +1,154 @@
+/**
+ * Prompt Registry
+ *
+ * @description Every system prompt and prompt template used for generation,
+ * with an id and version. Generation resolves prompts here (see
+ * `./experiments`) and records the versions it used, so a blueprint or
+ * question set can be traced back to the exact prompts that produced it.
+ *
+ * To change a prompt, add a new version rather than editing an existing one,
+ * then either make it the default or split traffic with an experiment.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BLUEPRINT_SYSTEM_PROMPT, SECTION_REGENERATION_SYSTEM_PROMPT } from '@/lib/claude/prompts';
+
+export type PromptId =
+  | 'blueprint.system'
+  | 'blueprint_template.system'
+  | 'dynamic_questions.system'
+  | 'dynamic_questions.user'
+  | 'section_regeneration.system';
+
+export interface PromptVersion {
+  version: string;
+  description: string;
+  /** Loaded lazily; file-based prompts are read on first use and cached */
+  load: () => string;
+}
+
+export interface PromptDefinition {
+  id: PromptId;
+  description: string;
+  defaultVersion: string;
+  versions: PromptVersion[];
+}
+
+export interface ResolvedPrompt {
+  id: PromptId;
+  version: string;
+  text: string;
+}
+
+const fileCache = new Map<string, string>();
+
+/**
+ * Read a prompt file from lib/prompts
+ */
+function loadPromptFile(fileName: string): string {
+  const cached = fileCache.get(fileName);
+  if (cached !== undefined) return cached;
+
+  try {
+    const text = readFileSync(join(process.cwd(), 'lib', 'prompts', fileName), 'utf-8');
+    fileCache.set(fileName, text);
+    return text;
+  } catch (error) {
+    console.error(`Failed to load prompt file ${fileName}:`, error);
+    throw new Error(`Failed to load prompt file ${fileName}`);
+  }
+}
+
+const BLUEPRINT_TEMPLATE_SYSTEM_PROMPT_V1 = `You are an AI assistant specialized in generating comprehensive learning blueprints.
+Your goal is to create a detailed, structured, and engaging learning plan based on the user's input.
+The output should be a JSON object conforming to the BlueprintSchema, followed by a Markdown representation.
+Ensure the blueprint is practical, objective-driven, and tailored to the specified audience and delivery method.`;
+
+export const PROMPT_REGISTRY: Record<PromptId, PromptDefinition> = {
+  'blueprint.system': {
+    id: 'blueprint.system',
+    description: 'System prompt for full blueprint generation',
+    defaultVersion: 'v1',
+    versions: [
+      {
+        version: 'v1',
+        description: 'Learning Experience Designer prompt with displayType rules',
+        load: () => BLUEPRINT_SYSTEM_PROMPT,
+      },
+    ],
+  },
+  'blueprint_template.system': {
+    id: 'blueprint_template.system',
+    description: 'System prompt for the legacy aggregated-answers blueprint template',
+    defaultVersion: 'v1',
+    versions: [
+      {
+        version: 'v1',
+        description: 'JSON plus Markdown blueprint assistant',
+        load: () => BLUEPRINT_TEMPLATE_SYSTEM_PROMPT_V1,
+      },
+    ],
+  },
+  'dynamic_questions.system': {
+    id: 'dynamic_questions.system',
+    description: 'System prompt for dynamic questionnaire generation',
+    defaultVersion: 'v2',
+    versions: [
+      {
+        version: 'v2',
+        description: 'PRD-aligned prompt for the 3-section static questionnaire',
+        load: () => loadPromptFile('dynamic-questions-system-v2.txt'),
+      },
+    ],
+  },
+  'dynamic_questions.user': {
+    id: 'dynamic_questions.user',
+    description: 'User prompt template for dynamic questionnaire generation',
+    defaultVersion: 'v2',
+    versions: [
+      {
+        version: 'v2',
+        description: '3-section static answers with course materials',
+        load: () => loadPromptFile('dynamic-questions-user-v2.txt'),
+      },
+    ],
+  },
+  'section_regeneration.system': {
+    id: 'section_regeneration.system',
+    description: 'System prompt for regenerating one blueprint section',
+    defaultVersion: 'v1',
+    versions: [
+      {
+        version: 'v1',
+        description: 'Rewrite one section, preserving field names and displayType',
+        load: () => SECTION_REGENERATION_SYSTEM_PROMPT,
+      },
+    ],
+  },
+};
+
+export function isPromptId(value: string): value is PromptId {
+  return Object.prototype.hasOwnProperty.call(PROMPT_REGISTRY, value);
+}
+
+export function hasPromptVersion(id: PromptId, version: string): boolean {
+  return PROMPT_REGISTRY[id].versions.some((entry) => entry.version === version);
+}
+
+/**
+ * Load a prompt at a specific version (the default version when omitted)
+ *
+ * @throws {Error} If the version is not registered
+ */
+export function getPrompt(id: PromptId, version?: string): ResolvedPrompt {
+  const definition = PROMPT_REGISTRY[id];
+  const wanted = version ?? definition.defaultVersion;
+  const entry = definition.versions.find((candidate) => candidate.version === wanted);
+
+  if (!entry) {
+    throw new Error(`Unknown prompt version ${id}@${wanted}`);
+  }
+
+  return { id, version: entry.version, text: entry.load() };
+}
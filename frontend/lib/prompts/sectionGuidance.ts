@@ -0,0 +1,121 @@
+/**
+ * Section Rating Guidance
+ *
+ * @description Turns recent low section ratings into negative guidance for
+ * the blueprint prompt: which sections users keep rating poorly. Ratings come
+ * from every workspace, so only section names and counts reach the prompt;
+ * comments are kept for the admin dashboard. Client-safe: the viewer and
+ * admin dashboard import the section labels from here.
+ */
+
+export const BLUEPRINT_SECTION_LABELS: Record<string, string> = {
+  executive_summary: 'Executive Summary',
+  learning_objectives: 'Learning Objectives',
+  target_audience: 'Target Audience',
+  content_outline: 'Content Outline',
+  instructional_strategy: 'Instructional Strategy',
+  resources: 'Resources & Budget',
+  assessment_strategy: 'Assessment Strategy',
+  implementation_timeline: 'Implementation Timeline',
+  risk_mitigation: 'Risk Mitigation',
+  success_metrics: 'Success Metrics',
+  sustainability_plan: 'Sustainability Plan',
+};
+
+/** Ratings at or below this count as low */
+export const LOW_SECTION_RATING = 2;
+
+export function getSectionLabel(sectionId: string): string {
+  return BLUEPRINT_SECTION_LABELS[sectionId] ?? sectionId.replace(/_/g, ' ');
+}
+
+export interface LowSectionRating {
+  sectionId: string;
+  userId: string;
+  rating: number;
+  comment: string | null;
+}
+
+export interface SectionGuidance {
+  sectionId: string;
+  lowRatingCount: number;
+  /** Distinct users behind the low ratings */
+  userCount: number;
+  /** What users said, most recent first. For admins only, never the prompt. */
+  comments: string[];
+}
+
+export interface SectionGuidanceOptions {
+  /** Sections need low ratings from at least this many users to be included */
+  minRaters?: number;
+  maxSections?: number;
+  maxCommentsPerSection?: number;
+  /** Longer comments are cut to this many characters */
+  maxCommentLength?: number;
+}
+
+/**
+ * Group low ratings (most recent first) by section. Sections rated poorly by
+ * the most users come first; repeated comments are kept once.
+ */
+export function buildSectionGuidance(
+  ratings: LowSectionRating[],
+  options: SectionGuidanceOptions = {}
+): SectionGuidance[] {
+  const {
+    minRaters = 3,
+    maxSections = 5,
+    maxCommentsPerSection = 3,
+    maxCommentLength = 300,
+  } = options;
+
+  const bySection = new Map<string, SectionGuidance>();
+  const ratersBySection = new Map<string, Set<string>>();
+
+  for (const rating of ratings) {
+    if (rating.rating > LOW_SECTION_RATING) continue;
+
+    const guidance = bySection.get(rating.sectionId) ?? {
+      sectionId: rating.sectionId,
+      lowRatingCount: 0,
+      userCount: 0,
+      comments: [],
+    };
+    guidance.lowRatingCount++;
+
+    const raters = ratersBySection.get(rating.sectionId) ?? new Set<string>();
+    raters.add(rating.userId);
+    ratersBySection.set(rating.sectionId, raters);
+    guidance.userCount = raters.size;
+
+    const comment = rating.comment?.trim().replace(/\s+/g, ' ').slice(0, maxCommentLength);
+    if (
+      comment &&
+      guidance.comments.length < maxCommentsPerSection &&
+      !guidance.comments.some((existing) => existing.toLowerCase() === comment.toLowerCase())
+    ) {
+      guidance.comments.push(comment);
+    }
+
+    bySection.set(rating.sectionId, guidance);
+  }
+
+  return [...bySection.values()]
+    .filter((guidance) => guidance.userCount >= minRaters)
+    .sort((a, b) => b.userCount - a.userCount || b.lowRatingCount - a.lowRatingCount)
+    .slice(0, maxSections);
+}
+
+/**
+ * Plain-text block for the blueprint prompt, or an empty string when there is
+ * no guidance. Only section names and counts are included: comments are
+ * free text from other workspaces.
+ */
+export function formatSectionGuidanceForPrompt(guidance: SectionGuidance[]): string {
+  return guidance
+    .map(
+      (section) =>
+        `- ${section.sectionId} (${getSectionLabel(section.sectionId)}): rated poorly by ${section.userCount} users recently`
+    )
+    .join('\n');
+}
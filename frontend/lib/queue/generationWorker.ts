@@ -0,0 +1,39 @@
+import { SimpleQueue } from './simpleQueue';
+
+/**
+ * In-process worker for blueprint generation jobs.
+ * Runs jobs in the same Node process that accepted them (a route handler's `after()`
+ * callback in production, or directly in local development and tests). Jobs already
+ * in flight on this instance are not enqueued twice.
+ */
+export class GenerationWorker {
+  private queue: SimpleQueue;
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(concurrency = 2) {
+    this.queue = new SimpleQueue(concurrency);
+  }
+
+  enqueue<T>(jobId: string, run: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(jobId);
+    if (existing) return existing as Promise<T>;
+
+    const promise = this.queue.add(run).finally(() => {
+      this.inFlight.delete(jobId);
+    });
+    this.inFlight.set(jobId, promise);
+    return promise;
+  }
+
+  isRunning(jobId: string): boolean {
+    return this.inFlight.has(jobId);
+  }
+
+  get size(): number {
+    return this.inFlight.size;
+  }
+}
+
+export const generationWorker = new GenerationWorker(
+  Number(process.env.GENERATION_WORKER_CONCURRENCY) || 2
+);
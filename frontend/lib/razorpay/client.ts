@@ -303,6 +303,73 @@ export async function fetchSubscription(subscriptionId: string) {
   }
 }
 
+/**
+ * Change the plan or quantity of a subscription
+ *
+ * @param subscriptionId - Razorpay subscription ID
+ * @param params - New plan ID and/or quantity, and when the change applies
+ * @returns Updated subscription object
+ *
+ * @example
+ * ```typescript
+ * // Move a Crew subscription from 5 to 8 seats at the next renewal
+ * await updateSubscription('sub_xxxxx', { quantity: 8, schedule_change_at: 'cycle_end' });
+ * ```
+ */
+export async function updateSubscription(
+  subscriptionId: string,
+  params: {
+    plan_id?: string;
+    quantity?: number;
+    schedule_change_at?: 'now' | 'cycle_end';
+    customer_notify?: 0 | 1;
+  }
+) {
+  try {
+    return await razorpayClient.subscriptions.update(subscriptionId, params);
+  } catch (error: unknown) {
+    console.error('[Razorpay] Subscription update failed:', error);
+    throw new Error(sanitizeError(error));
+  }
+}
+
+/**
+ * Add a one-time charge to the next invoice of a subscription
+ *
+ * @param subscriptionId - Razorpay subscription ID
+ * @param item - Charge name and amount in paise
+ * @returns Created add-on object
+ */
+export async function createSubscriptionAddon(
+  subscriptionId: string,
+  item: { name: string; amount: number; currency: string; description?: string }
+) {
+  try {
+    return await razorpayClient.subscriptions.createAddon(subscriptionId, {
+      item,
+      quantity: 1,
+    });
+  } catch (error: unknown) {
+    console.error('[Razorpay] Subscription add-on creation failed:', error);
+    throw new Error(sanitizeError(error));
+  }
+}
+
+/**
+ * Drop a plan/quantity change scheduled for the end of the cycle
+ *
+ * @param subscriptionId - Razorpay subscription ID
+ * @returns Updated subscription object
+ */
+export async function cancelScheduledSubscriptionChanges(subscriptionId: string) {
+  try {
+    return await razorpayClient.subscriptions.cancelScheduledChanges(subscriptionId);
+  } catch (error: unknown) {
+    console.error('[Razorpay] Cancelling scheduled subscription changes failed:', error);
+    throw new Error(sanitizeError(error));
+  }
+}
+
 /**
  * Cancel a subscription
  *
@@ -13,6 +13,9 @@
  */
 
 import { getSupabaseServerClient } from '../../supabase/server';
+import { getSupabaseAdminClient } from '../../supabase/admin';
+import { InvoiceService } from '../../services/invoiceService';
+import { NotificationService } from '../../services/notificationService';
 import type { Database } from '../../../types/supabase';
 import type { ParsedWebhookEvent, WebhookEventRecord } from '../webhookSecurity';
 import type { EventHandler, EventHandlerResult } from '../eventRouter';
@@ -270,6 +273,61 @@ function unixToIso(timestamp?: number): string | undefined {
   return new Date(timestamp * 1000).toISOString();
 }
 
+/**
+ * Issue the GST invoice for a captured payment. Invoices are written by the
+ * service role; a payment that already has one (e.g. from subscription.charged)
+ * keeps it.
+ */
+async function issuePaymentInvoice(
+  payment: PaymentEntity,
+  userId: string,
+  subscriptionId?: string
+): Promise<{ success: boolean; invoiceNumber?: string; error?: string }> {
+  try {
+    const invoice = await InvoiceService.issueForPayment(getSupabaseAdminClient(), {
+      userId,
+      razorpayPaymentId: payment.id,
+      razorpaySubscriptionId: subscriptionId ?? null,
+      amount: payment.amount,
+      currency: payment.currency,
+      description: payment.description || 'SmartSlate subscription',
+    });
+    return { success: true, invoiceNumber: invoice.invoiceNumber };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to issue invoice: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Tell the user a payment failed. Webhook retries are deduplicated by payment ID.
+ */
+async function notifyPaymentFailed(
+  payment: PaymentEntity,
+  userId: string
+): Promise<{ success: boolean; notificationId?: string | null; error?: string }> {
+  try {
+    const result = await NotificationService.notify(getSupabaseAdminClient(), {
+      userId,
+      type: 'payment_failed',
+      data: {
+        amount: payment.amount,
+        currency: payment.currency,
+        reason: payment.error_description ?? null,
+      },
+      dedupeKey: `payment-failed:${payment.id}`,
+    });
+    return { success: true, notificationId: result.notificationId };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to notify user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
 // ============================================================================
 // Payment Event Handlers
 // ============================================================================
@@ -443,6 +501,11 @@ export const handlePaymentCaptured: EventHandler = async (
       }
     }
 
+    const invoiceResult = await issuePaymentInvoice(payment, userId, subscriptionId);
+    if (!invoiceResult.success) {
+      console.error('Failed to issue invoice:', invoiceResult.error);
+    }
+
     return {
       success: true,
       processed: true,
@@ -453,6 +516,7 @@ export const handlePaymentCaptured: EventHandler = async (
         action: 'payment_captured',
         metadata: {
           userId,
+          invoiceNumber: invoiceResult.invoiceNumber,
           amount: paiseToRupees(payment.amount),
           currency: payment.currency,
           method: payment.method,
@@ -535,6 +599,11 @@ export const handlePaymentFailed: EventHandler = async (
       }
     }
 
+    const notifyResult = await notifyPaymentFailed(payment, userId);
+    if (!notifyResult.success) {
+      console.error('Failed to notify payment failure:', notifyResult.error);
+    }
+
     return {
       success: true,
       processed: true,
@@ -545,6 +614,7 @@ export const handlePaymentFailed: EventHandler = async (
         action: 'payment_failed',
         metadata: {
           userId,
+          notificationId: notifyResult.notificationId,
           amount: paiseToRupees(payment.amount),
           currency: payment.currency,
           method: payment.method,
@@ -13,6 +13,10 @@
  */
 
 import { getSupabaseServerClient } from '../../supabase/server';
+import { getSupabaseAdminClient } from '../../supabase/admin';
+import { WorkspaceService } from '../../services/workspaceService';
+import { PlanChangeService } from '../../services/planChangeService';
+import { InvoiceService } from '../../services/invoiceService';
 import type { Database } from '../../../types/supabase';
 import type { ParsedWebhookEvent, WebhookEventRecord } from '../webhookSecurity';
 import type { EventHandler, EventHandlerResult } from '../eventRouter';
@@ -43,6 +47,7 @@ export interface SubscriptionEntity {
   expired_at?: number;
   cancelled_at?: number;
   short_url?: string;
+  quantity?: number;
   notes?: Record<string, string>;
   [key: string]: any;
 }
@@ -222,6 +227,90 @@ async function updateUserProfile(
   }
 }
 
+/**
+ * Sync the seat limit of the workspace billed by this subscription.
+ * Workspaces are RLS-protected, so this uses the service role client.
+ */
+async function syncWorkspaceSeats(
+  subscription: SubscriptionEntity
+): Promise<{ success: boolean; error?: string }> {
+  if (typeof subscription.quantity !== 'number') {
+    return { success: true };
+  }
+
+  try {
+    await WorkspaceService.syncSeatLimit(
+      getSupabaseAdminClient(),
+      subscription.id,
+      subscription.quantity
+    );
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to sync workspace seats: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Apply a downgrade that was scheduled for the end of the billing cycle.
+ * Uses the service role client, like the workspace seat sync.
+ */
+async function applyPendingPlanChange(
+  subscription: SubscriptionEntity
+): Promise<{ success: boolean; applied?: boolean; error?: string }> {
+  try {
+    const applied = await PlanChangeService.applyDueChange(
+      getSupabaseAdminClient(),
+      subscription.id
+    );
+    return { success: true, applied };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to apply pending plan change: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Issue the GST invoice for a subscription charge. payment.captured issues it
+ * too when the charged amount is not in the subscription notes; the invoice
+ * is only created once per payment.
+ */
+async function issueChargeInvoice(
+  subscription: SubscriptionEntity,
+  userId: string,
+  amount: number,
+  currency: string
+): Promise<{ success: boolean; invoiceNumber?: string; error?: string }> {
+  if (!subscription.payment_id || amount <= 0) {
+    return { success: true };
+  }
+
+  const start = unixToIso(subscription.current_start)?.slice(0, 10);
+  const end = unixToIso(subscription.current_end)?.slice(0, 10);
+
+  try {
+    const invoice = await InvoiceService.issueForPayment(getSupabaseAdminClient(), {
+      userId,
+      razorpayPaymentId: subscription.payment_id,
+      razorpaySubscriptionId: subscription.id,
+      amount,
+      currency,
+      description:
+        start && end ? `SmartSlate subscription (${start} to ${end})` : 'SmartSlate subscription',
+    });
+    return { success: true, invoiceNumber: invoice.invoiceNumber };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to issue invoice: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
 // ============================================================================
 // Subscription Event Handlers
 // ============================================================================
@@ -286,6 +375,11 @@ export const handleSubscriptionActivated: EventHandler = async (
       console.error('Failed to update user profile:', profileUpdate.error);
     }
 
+    const seatSync = await syncWorkspaceSeats(subscription);
+    if (!seatSync.success) {
+      console.error('Failed to sync workspace seats:', seatSync.error);
+    }
+
     return {
       success: true,
       processed: true,
@@ -362,12 +456,12 @@ export const handleSubscriptionCharged: EventHandler = async (
       };
     }
 
+    // Extract payment details from subscription notes or use defaults
+    const amount = parseInt(subscription.notes?.amount || '0') || 0;
+    const currency = subscription.notes?.currency || 'INR';
+
     // Create payment record if payment ID is available
     if (subscription.payment_id) {
-      // Extract payment details from subscription notes or use defaults
-      const amount = parseInt(subscription.notes?.amount || '0') || 0;
-      const currency = subscription.notes?.currency || 'INR';
-
       const paymentResult = await createPaymentRecord(
         supabase,
         subscription.id,
@@ -384,6 +478,11 @@ export const handleSubscriptionCharged: EventHandler = async (
       }
     }
 
+    const invoiceResult = await issueChargeInvoice(subscription, userId, amount, currency);
+    if (!invoiceResult.success) {
+      console.error('Failed to issue invoice:', invoiceResult.error);
+    }
+
     // Update user profile
     const profileUpdate = await updateUserProfile(supabase, userId, {
       subscription_status: 'active',
@@ -395,6 +494,18 @@ export const handleSubscriptionCharged: EventHandler = async (
       console.error('Failed to update user profile:', profileUpdate.error);
     }
 
+    // Seat changes take effect from the next charge
+    const seatSync = await syncWorkspaceSeats(subscription);
+    if (!seatSync.success) {
+      console.error('Failed to sync workspace seats:', seatSync.error);
+    }
+
+    // Downgrades requested during the previous cycle start with this charge
+    const planChange = await applyPendingPlanChange(subscription);
+    if (!planChange.success) {
+      console.error('Failed to apply pending plan change:', planChange.error);
+    }
+
     return {
       success: true,
       processed: true,
@@ -407,6 +518,8 @@ export const handleSubscriptionCharged: EventHandler = async (
           userId,
           nextBillingDate: unixToIso(subscription.current_end),
           invoiceId: subscription.invoice_id,
+          invoiceNumber: invoiceResult.invoiceNumber,
+          planChangeApplied: planChange.applied ?? false,
         },
       },
     };
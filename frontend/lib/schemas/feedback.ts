@@ -197,6 +197,22 @@ export const createResponseRequestSchema = z.object({
   is_internal: z.boolean().optional(),
 });
 
+/**
+ * Admin triage changes. A message is sent to the reporter with a status change.
+ */
+export const triageFeedbackRequestSchema = z
+  .object({
+    status: feedbackStatusSchema.optional(),
+    priority: feedbackPrioritySchema.optional(),
+    assigned_to: z.string().uuid().nullable().optional(),
+    message: z.string().max(10000, 'Message must be less than 10000 characters').trim().optional(),
+  })
+  .refine(
+    (data) =>
+      data.status !== undefined || data.priority !== undefined || data.assigned_to !== undefined,
+    { message: 'Nothing to update' }
+  );
+
 export const createSurveyRequestSchema = z.object({
   rating: z
     .number()
@@ -468,6 +484,7 @@ export type FeedbackResponseTemplate = z.infer<typeof feedbackResponseTemplateSc
 export type CreateFeedbackRequest = z.infer<typeof createFeedbackRequestSchema>;
 export type UpdateFeedbackRequest = z.infer<typeof updateFeedbackRequestSchema>;
 export type CreateResponseRequest = z.infer<typeof createResponseRequestSchema>;
+export type TriageFeedbackRequest = z.infer<typeof triageFeedbackRequestSchema>;
 export type CreateSurveyRequest = z.infer<typeof createSurveyRequestSchema>;
 
 export type FeedbackForm = z.infer<typeof feedbackFormSchema>;
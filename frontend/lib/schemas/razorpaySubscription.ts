@@ -54,6 +54,11 @@ export const CreateSubscriptionRequestSchema = z.object({
    */
   seats: z.number().int().min(1).max(1000).optional(),
 
+  /**
+   * Optional promo code, validated again and redeemed at creation
+   */
+  couponCode: z.string().trim().min(3).max(32).optional(),
+
   /**
    * Optional customer information for pre-filling Razorpay checkout
    */
@@ -159,6 +164,130 @@ export const CancelSubscriptionResponseSchema = z.object({
 export type CancelSubscriptionRequest = z.infer<typeof CancelSubscriptionRequestSchema>;
 export type CancelSubscriptionResponse = z.infer<typeof CancelSubscriptionResponseSchema>;
 
+/**
+ * Request body schema for changing the plan or seat count of an active subscription
+ */
+export const ChangePlanRequestSchema = z.object({
+  /**
+   * Target tier. The billing cycle stays the same as the current subscription.
+   */
+  tier: SubscriptionTierSchema.refine((tier) => tier !== 'free', {
+    message: 'Cannot change to the free tier. Cancel the subscription instead.',
+  }),
+
+  /**
+   * Number of seats for team tiers (crew, fleet, armada)
+   * Required for team tiers, not allowed for individual tiers
+   */
+  seats: z.number().int().min(1).max(1000).optional(),
+
+  /**
+   * Return the proration quote without changing anything
+   */
+  preview: z.boolean().default(false),
+});
+
+export type ChangePlanRequest = z.infer<typeof ChangePlanRequestSchema>;
+
+/**
+ * Request body schema for checking a promo code against a plan
+ */
+export const ValidateCouponRequestSchema = z.object({
+  code: z.string().trim().min(3).max(32),
+
+  /**
+   * Plan to quote. Without it the coupon's own rules are returned so the
+   * pricing page can price every plan card.
+   */
+  tier: SubscriptionTierSchema.refine((tier) => tier !== 'free', {
+    message: 'Promo codes only apply to paid tiers',
+  }).optional(),
+
+  billingCycle: BillingCycleSchema,
+
+  /**
+   * Seats for team tiers; the quote is for the whole charge
+   */
+  seats: z.number().int().min(1).max(1000).optional(),
+});
+
+export type ValidateCouponRequest = z.infer<typeof ValidateCouponRequestSchema>;
+
+/**
+ * Coupon definition as created from the admin dashboard
+ */
+export const CouponInputSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .transform((code) => code.toUpperCase())
+      .pipe(z.string().regex(/^[A-Z0-9_-]{3,32}$/, 'Use 3-32 letters, digits, _ or -')),
+    description: z.string().trim().max(500).nullable().default(null),
+
+    /**
+     * percent: discountValue is 0-100; flat: discountValue is paise per charge
+     */
+    discountType: z.enum(['percent', 'flat']),
+    discountValue: z.number().int().min(0),
+    trialDays: z.number().int().min(0).max(365).default(0),
+
+    /**
+     * null applies the coupon to every paid tier / billing cycle
+     */
+    applicableTiers: z
+      .array(SubscriptionTierSchema.exclude(['free']))
+      .min(1)
+      .nullable()
+      .default(null),
+    applicableBillingCycles: z.array(BillingCycleSchema).min(1).nullable().default(null),
+
+    /**
+     * Razorpay offer that applies the discount to charges
+     */
+    razorpayOfferId: z.string().trim().min(1).nullable().default(null),
+    maxRedemptions: z.number().int().min(1).nullable().default(null),
+    expiresAt: z.string().datetime({ offset: true }).nullable().default(null),
+    isActive: z.boolean().default(true),
+  })
+  .refine((coupon) => coupon.discountType !== 'percent' || coupon.discountValue <= 100, {
+    message: 'Percent discounts cannot exceed 100',
+    path: ['discountValue'],
+  })
+  .refine((coupon) => coupon.discountValue === 0 || coupon.razorpayOfferId !== null, {
+    message: 'Discounts are applied through a Razorpay offer; add its offer ID',
+    path: ['razorpayOfferId'],
+  })
+  .refine((coupon) => coupon.discountValue > 0 || coupon.trialDays > 0, {
+    message: 'A coupon needs a discount or trial days',
+    path: ['discountValue'],
+  });
+
+export type CouponInput = z.infer<typeof CouponInputSchema>;
+
+/**
+ * Coupon fields that can change after creation. The code and discount stay
+ * fixed so existing redemptions keep describing what was given.
+ */
+export const CouponUpdateSchema = z
+  .object({
+    description: z.string().trim().max(500).nullable(),
+    applicableTiers: z
+      .array(SubscriptionTierSchema.exclude(['free']))
+      .min(1)
+      .nullable(),
+    applicableBillingCycles: z.array(BillingCycleSchema).min(1).nullable(),
+    maxRedemptions: z.number().int().min(1).nullable(),
+    expiresAt: z.string().datetime({ offset: true }).nullable(),
+    isActive: z.boolean(),
+  })
+  .partial()
+  .refine((update) => Object.keys(update).length > 0, {
+    message: 'Nothing to update',
+  });
+
+export type CouponUpdate = z.infer<typeof CouponUpdateSchema>;
+
 /**
  * Validation utility functions
  */
@@ -181,3 +310,19 @@ export const validateCancelSubscriptionRequest = (data: unknown) => {
 export const validateCancelSubscriptionResponse = (data: unknown) => {
   return CancelSubscriptionResponseSchema.safeParse(data);
 };
+
+export const validateChangePlanRequest = (data: unknown) => {
+  return ChangePlanRequestSchema.safeParse(data);
+};
+
+export const validateValidateCouponRequest = (data: unknown) => {
+  return ValidateCouponRequestSchema.safeParse(data);
+};
+
+export const validateCouponInput = (data: unknown) => {
+  return CouponInputSchema.safeParse(data);
+};
+
+export const validateCouponUpdate = (data: unknown) => {
+  return CouponUpdateSchema.safeParse(data);
+};
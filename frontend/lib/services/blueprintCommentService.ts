@@ -0,0 +1,338 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface BlueprintComment {
+  id: string;
+  blueprintId: string;
+  sectionId: string;
+  parentId: string | null;
+  authorId: string | null;
+  authorName: string;
+  body: string;
+  mentions: string[];
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BlueprintCommentThread extends BlueprintComment {
+  replies: BlueprintComment[];
+}
+
+export interface BlueprintCollaborator {
+  userId: string;
+  email: string | null;
+  fullName: string | null;
+}
+
+interface CommentRow {
+  id: string;
+  blueprint_id: string;
+  section_id: string;
+  parent_id: string | null;
+  author_id: string;
+  body: string;
+  mentions: string[] | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SharedCommentRow {
+  id: string;
+  section_id: string;
+  parent_id: string | null;
+  author_name: string;
+  body: string;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+const COMMENT_COLUMNS =
+  'id, blueprint_id, section_id, parent_id, author_id, body, mentions, resolved_at, resolved_by, created_at, updated_at';
+
+// Matches "@jane@acme.com" and "@jane" (the email's local part)
+const MENTION_PATTERN = /(?:^|[^\w@])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+export function getCollaboratorName(collaborator: BlueprintCollaborator | undefined): string {
+  return collaborator?.fullName || collaborator?.email?.split('@')[0] || 'Collaborator';
+}
+
+/**
+ * Resolve @mentions in a comment body to collaborator user IDs. A mention
+ * matches a collaborator's full email or the part before the "@".
+ * Unknown handles are ignored.
+ */
+export function resolveMentions(body: string, collaborators: BlueprintCollaborator[]): string[] {
+  const mentioned = new Set<string>();
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const handle = match[1].replace(/\.+$/, '').toLowerCase();
+    const collaborator = collaborators.find((c) => {
+      const email = c.email?.toLowerCase();
+      return email !== undefined && (email === handle || email.split('@')[0] === handle);
+    });
+
+    if (collaborator) {
+      mentioned.add(collaborator.userId);
+    }
+  }
+
+  return [...mentioned];
+}
+
+/**
+ * Group flat comments into threads (roots in creation order, replies nested
+ * under their root). Replies whose root is missing are dropped.
+ */
+export function buildCommentThreads(comments: BlueprintComment[]): BlueprintCommentThread[] {
+  const sorted = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const threads = new Map<string, BlueprintCommentThread>();
+
+  for (const comment of sorted) {
+    if (!comment.parentId) {
+      threads.set(comment.id, { ...comment, replies: [] });
+    }
+  }
+
+  for (const comment of sorted) {
+    if (comment.parentId) {
+      threads.get(comment.parentId)?.replies.push(comment);
+    }
+  }
+
+  return [...threads.values()];
+}
+
+function toComment(row: CommentRow, collaborators: BlueprintCollaborator[]): BlueprintComment {
+  return {
+    id: row.id,
+    blueprintId: row.blueprint_id,
+    sectionId: row.section_id,
+    parentId: row.parent_id,
+    authorId: row.author_id,
+    authorName: getCollaboratorName(collaborators.find((c) => c.userId === row.author_id)),
+    body: row.body,
+    mentions: row.mentions ?? [],
+    resolvedAt: row.resolved_at,
+    resolvedBy: row.resolved_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Threaded comments on blueprint sections. RLS limits reads and writes to
+ * the blueprint's creator and workspace members; resolve state and the
+ * public share view go through RPCs.
+ */
+export class BlueprintCommentService {
+  static async listCollaborators(
+    supabase: SupabaseClient,
+    blueprintId: string
+  ): Promise<BlueprintCollaborator[]> {
+    const { data, error } = await supabase.rpc('get_blueprint_collaborators', {
+      p_blueprint_id: blueprintId,
+    });
+
+    if (error) {
+      console.error('Error listing blueprint collaborators:', error);
+      throw new Error('Failed to list blueprint collaborators');
+    }
+
+    return (
+      (data ?? []) as Array<{ user_id: string; email: string | null; full_name: string | null }>
+    ).map((row) => ({ userId: row.user_id, email: row.email, fullName: row.full_name }));
+  }
+
+  /**
+   * All threads on a blueprint, with author names resolved
+   */
+  static async listThreads(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    collaborators: BlueprintCollaborator[]
+  ): Promise<BlueprintCommentThread[]> {
+    const { data, error } = await supabase
+      .from('blueprint_comments')
+      .select(COMMENT_COLUMNS)
+      .eq('blueprint_id', blueprintId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error listing blueprint comments:', error);
+      throw new Error('Failed to list blueprint comments');
+    }
+
+    return buildCommentThreads(
+      (data ?? []).map((row) => toComment(row as CommentRow, collaborators))
+    );
+  }
+
+  static async getComment(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    commentId: string
+  ): Promise<BlueprintComment | null> {
+    const { data, error } = await supabase
+      .from('blueprint_comments')
+      .select(COMMENT_COLUMNS)
+      .eq('blueprint_id', blueprintId)
+      .eq('id', commentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching blueprint comment:', error);
+      throw new Error('Failed to fetch blueprint comment');
+    }
+
+    return data ? toComment(data as CommentRow, []) : null;
+  }
+
+  /**
+   * Start a thread on a section, or reply to one when parentId is given
+   */
+  static async createComment(
+    supabase: SupabaseClient,
+    comment: {
+      blueprintId: string;
+      sectionId: string;
+      parentId?: string | null;
+      authorId: string;
+      body: string;
+      mentions: string[];
+    }
+  ): Promise<BlueprintComment> {
+    const { data, error } = await supabase
+      .from('blueprint_comments')
+      .insert({
+        blueprint_id: comment.blueprintId,
+        section_id: comment.sectionId,
+        parent_id: comment.parentId ?? null,
+        author_id: comment.authorId,
+        body: comment.body,
+        mentions: comment.mentions,
+      })
+      .select(COMMENT_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Error creating blueprint comment:', error);
+      throw new Error('Failed to create blueprint comment');
+    }
+
+    return toComment(data as CommentRow, []);
+  }
+
+  static async updateComment(
+    supabase: SupabaseClient,
+    commentId: string,
+    body: string,
+    mentions: string[]
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('blueprint_comments')
+      .update({ body, mentions, updated_at: new Date().toISOString() })
+      .eq('id', commentId);
+
+    if (error) {
+      console.error('Error updating blueprint comment:', error);
+      throw new Error('Failed to update blueprint comment');
+    }
+  }
+
+  static async setResolved(
+    supabase: SupabaseClient,
+    commentId: string,
+    resolved: boolean
+  ): Promise<void> {
+    const { error } = await supabase.rpc('set_blueprint_comment_resolved', {
+      p_comment_id: commentId,
+      p_resolved: resolved,
+    });
+
+    if (error) {
+      console.error('Error resolving blueprint comment:', error);
+      throw new Error('Failed to update comment thread');
+    }
+  }
+
+  /**
+   * Delete a comment; deleting a thread root removes its replies
+   */
+  static async deleteComment(supabase: SupabaseClient, commentId: string): Promise<void> {
+    const { error } = await supabase.from('blueprint_comments').delete().eq('id', commentId);
+
+    if (error) {
+      console.error('Error deleting blueprint comment:', error);
+      throw new Error('Failed to delete blueprint comment');
+    }
+  }
+
+  static async getShareComments(supabase: SupabaseClient, blueprintId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('blueprint_generator')
+      .select('share_comments')
+      .eq('id', blueprintId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching comment visibility:', error);
+      throw new Error('Failed to fetch comment visibility');
+    }
+
+    return Boolean(data?.share_comments);
+  }
+
+  static async setShareComments(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    shareComments: boolean
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('blueprint_generator')
+      .update({ share_comments: shareComments })
+      .eq('id', blueprintId);
+
+    if (error) {
+      console.error('Error updating comment visibility:', error);
+      throw new Error('Failed to update comment visibility');
+    }
+  }
+
+  /**
+   * Read-only threads for the public share view (empty unless the owner
+   * enabled share_comments)
+   */
+  static async listSharedThreads(
+    supabase: SupabaseClient,
+    shareToken: string
+  ): Promise<BlueprintCommentThread[]> {
+    const { data, error } = await supabase.rpc('get_shared_blueprint_comments', {
+      p_share_token: shareToken,
+    });
+
+    if (error) {
+      console.error('Error listing shared blueprint comments:', error);
+      throw new Error('Failed to list shared blueprint comments');
+    }
+
+    return buildCommentThreads(
+      ((data ?? []) as SharedCommentRow[]).map((row) => ({
+        id: row.id,
+        blueprintId: '',
+        sectionId: row.section_id,
+        parentId: row.parent_id,
+        authorId: null,
+        authorName: row.author_name,
+        body: row.body,
+        mentions: [],
+        resolvedAt: row.resolved_at,
+        resolvedBy: null,
+        createdAt: row.created_at,
+        updatedAt: row.created_at,
+      }))
+    );
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * Blueprint Generation Job Runner
+ * Executes a queued generation job: builds context, runs the generation service,
+ * streams WorkflowTracer steps and token usage into the job, and saves the result
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  blueprintGenerationService,
+  type BlueprintGenerationService,
+} from '@/lib/services/blueprintGenerationService';
+import { convertBlueprintToMarkdown } from '@/lib/services/blueprintMarkdownConverter';
+import { BlueprintUsageService } from '@/lib/services/blueprintUsageService';
+import { CourseMaterialService } from '@/lib/services/courseMaterialService';
+import { NotificationService, type NotifyParams } from '@/lib/services/notificationService';
+import { loadSectionGuidance } from '@/lib/services/sectionRatingService';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { extractLearningObjectives, type BlueprintContext } from '@/lib/claude/prompts';
+import type { SectionGuidance } from '@/lib/prompts/sectionGuidance';
+import { createServiceLogger } from '@/lib/logging';
+import type { WorkflowStep } from '@/lib/logging/blueprintLogger';
+import {
+  isStaleJob,
+  isTerminalJobStatus,
+  type BlueprintGenerationJob,
+  type GenerationJobStore,
+  type GenerationJobUpdate,
+} from './generationJobStore';
+
+const logger = createServiceLogger('blueprint-generation');
+
+// The blueprint prompt has room for more material than the question prompt
+const BLUEPRINT_EXCERPT_LIMIT = 8;
+
+export interface GenerationJobRunnerDeps {
+  supabase: SupabaseClient;
+  store: GenerationJobStore;
+  service?: Pick<BlueprintGenerationService, 'generate'>;
+  /** Sends the "blueprint ready" notification; defaults to the service role client */
+  notify?: (params: NotifyParams<'generation_completed'>) => Promise<unknown>;
+  /** Recent low section ratings for the prompt; defaults to the service role client */
+  loadGuidance?: () => Promise<SectionGuidance[]>;
+}
+
+function notifyWithServiceRole(params: NotifyParams<'generation_completed'>) {
+  return NotificationService.notify(getSupabaseAdminClient() as unknown as SupabaseClient, params);
+}
+
+interface BlueprintAnswersRow {
+  id: string;
+  user_id: string;
+  static_answers: Record<string, unknown> | null;
+  dynamic_answers: Record<string, unknown> | null;
+}
+
+function getNestedValue(obj: Record<string, unknown>, path: string[]): string {
+  let current: unknown = obj;
+  for (const key of path) {
+    if (current && typeof current === 'object' && key in current) {
+      current = (current as Record<string, unknown>)[key];
+    } else {
+      return '';
+    }
+  }
+  return typeof current === 'string' ? current : '';
+}
+
+/**
+ * Build the generation context from stored questionnaire answers.
+ * Supports both the V2.0 (3-section) and legacy V2 (8-section) static formats.
+ */
+export function buildGenerationContext(
+  blueprintId: string,
+  userId: string,
+  staticAnswers: Record<string, unknown>,
+  dynamicAnswers: Record<string, unknown>
+): BlueprintContext {
+  const isV20 =
+    staticAnswers.section_1_role_experience &&
+    staticAnswers.section_2_organization &&
+    staticAnswers.section_3_learning_gap;
+
+  let organization: string;
+  let role: string;
+  let industry: string;
+
+  if (isV20) {
+    // V2.0 (3-section) format
+    const roleData = staticAnswers.section_1_role_experience as Record<string, unknown>;
+    const orgData = staticAnswers.section_2_organization as Record<string, unknown>;
+
+    role = (roleData?.current_role as string) || (roleData?.custom_role as string) || 'Manager';
+    organization = (orgData?.organization_name as string) || 'Organization';
+    industry = (orgData?.industry_sector as string) || 'General';
+  } else {
+    // Legacy V2 (8-section) format
+    organization =
+      getNestedValue(staticAnswers, ['organization', 'name']) ||
+      (typeof staticAnswers?.organization === 'string' ? staticAnswers.organization : '') ||
+      'Organization';
+    role = (typeof staticAnswers?.role === 'string' ? staticAnswers.role : '') || 'Manager';
+    industry =
+      getNestedValue(staticAnswers, ['organization', 'industry']) ||
+      (typeof staticAnswers?.industry === 'string' ? staticAnswers.industry : '') ||
+      'General';
+  }
+
+  return {
+    blueprintId,
+    userId,
+    staticAnswers,
+    dynamicAnswers,
+    organization,
+    role,
+    industry,
+    learningObjectives: extractLearningObjectives(dynamicAnswers),
+  };
+}
+
+/**
+ * Run a single generation job to completion.
+ * Never throws: failures are recorded on the job and the blueprint is marked as errored.
+ */
+export async function runBlueprintGenerationJob(
+  jobId: string,
+  deps: GenerationJobRunnerDeps
+): Promise<BlueprintGenerationJob | null> {
+  const { supabase, store } = deps;
+  const service = deps.service ?? blueprintGenerationService;
+  const notify = deps.notify ?? notifyWithServiceRole;
+  const loadGuidance = deps.loadGuidance ?? (() => loadSectionGuidance());
+
+  let job: BlueprintGenerationJob | null;
+  try {
+    job = await store.get(jobId);
+  } catch (error) {
+    logger.error('blueprint.job.load_failed', 'Failed to load generation job', {
+      jobId,
+      error: (error as Error).message,
+    });
+    return null;
+  }
+
+  // A fresh 'running' job is owned by another worker; only stale ones are taken over
+  if (!job || isTerminalJobStatus(job.status) || (job.status === 'running' && !isStaleJob(job))) {
+    logger.warn('blueprint.job.skipped', 'Generation job missing, finished or already running', {
+      jobId,
+      status: job?.status,
+    });
+    return job;
+  }
+
+  const { blueprintId, userId } = job;
+  const steps: WorkflowStep[] = [];
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  // Progress writes are chained so they land in order and never block generation
+  let pending: Promise<unknown> = Promise.resolve();
+  const report = (update: GenerationJobUpdate) => {
+    pending = pending
+      .then(() => store.update(jobId, update))
+      .catch((error) => {
+        logger.warn('blueprint.job.progress_write_failed', 'Failed to record job progress', {
+          jobId,
+          blueprintId,
+          error: (error as Error).message,
+        });
+      });
+  };
+
+  const recordStep = (step: WorkflowStep) => {
+    steps.push(step);
+    report({ steps: [...steps], currentStep: step.step });
+  };
+
+  const fail = async (message: string): Promise<BlueprintGenerationJob | null> => {
+    await pending;
+
+    logger.error('blueprint.job.failed', 'Generation job failed', {
+      jobId,
+      blueprintId,
+      userId,
+      error: message,
+    });
+
+    try {
+      await supabase
+        .from('blueprint_generator')
+        .update({ status: 'error' })
+        .eq('id', blueprintId)
+        .eq('user_id', userId);
+
+      return await store.update(jobId, {
+        status: 'failed',
+        error: message,
+        steps,
+        completedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('blueprint.job.fail_write_failed', 'Failed to record job failure', {
+        jobId,
+        blueprintId,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  };
+
+  try {
+    const claimed = await store.claim(job, {
+      status: 'running',
+      attempts: job.attempts + 1,
+      startedAt: new Date().toISOString(),
+      completedAt: null,
+      error: null,
+      steps: [],
+      currentStep: null,
+      inputTokens: 0,
+      outputTokens: 0,
+    });
+
+    // Another worker (a retry or another instance) claimed the job first
+    if (!claimed) {
+      logger.warn('blueprint.job.claim_lost', 'Generation job was claimed by another worker', {
+        jobId,
+        blueprintId,
+      });
+      return null;
+    }
+
+    logger.info('blueprint.job.started', 'Generation job started', {
+      jobId,
+      blueprintId,
+      userId,
+      attemptNumber: job.attempts + 1,
+    });
+
+    const { data: blueprint, error: blueprintError } = await supabase
+      .from('blueprint_generator')
+      .select('id, user_id, static_answers, dynamic_answers')
+      .eq('id', blueprintId)
+      .eq('user_id', userId)
+      .single();
+
+    if (blueprintError || !blueprint) {
+      return await fail('Blueprint not found or access denied');
+    }
+
+    const row = blueprint as BlueprintAnswersRow;
+    const context = buildGenerationContext(
+      blueprintId,
+      userId,
+      row.static_answers ?? {},
+      row.dynamic_answers ?? {}
+    );
+
+    // Existing course materials are optional context; never fail the job over them
+    try {
+      const materials = await CourseMaterialService.getPromptContext(
+        supabase,
+        blueprintId,
+        { staticAnswers: context.staticAnswers, dynamicAnswers: context.dynamicAnswers },
+        BLUEPRINT_EXCERPT_LIMIT
+      );
+      if (materials) context.materials = materials;
+    } catch (error) {
+      logger.warn('blueprint.job.materials_unavailable', 'Generating without course materials', {
+        jobId,
+        blueprintId,
+        error: (error as Error).message,
+      });
+    }
+
+    // Never fails: guidance is dropped when ratings can't be read
+    const sectionGuidance = await loadGuidance();
+    if (sectionGuidance.length > 0) context.sectionGuidance = sectionGuidance;
+
+    const result = await service.generate(context, {
+      onStep: recordStep,
+      onUsage: (usage) => {
+        inputTokens += usage.input_tokens;
+        outputTokens += usage.output_tokens;
+        report({ model: usage.model, inputTokens, outputTokens });
+      },
+    });
+
+    if (!result.success) {
+      return await fail(result.error || 'Blueprint generation failed');
+    }
+
+    recordStep({ step: 'saving', timestamp: new Date().toISOString() });
+
+    const markdown = convertBlueprintToMarkdown(result.blueprint);
+    const generatedTitle =
+      result.blueprint.metadata?.title || `Blueprint ${blueprintId.slice(0, 8)}`;
+
+    const { error: saveError } = await supabase
+      .from('blueprint_generator')
+      .update({
+        blueprint_json: {
+          ...result.blueprint,
+          _generation_metadata: result.metadata,
+        },
+        blueprint_markdown: markdown,
+        status: 'completed',
+        title: generatedTitle,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', blueprintId)
+      .eq('user_id', userId);
+
+    if (saveError) {
+      return await fail('Generated blueprint but failed to save to database');
+    }
+
+    // Increment blueprint saving count after successful save
+    try {
+      await BlueprintUsageService.incrementSavingCount(supabase, userId);
+    } catch (error) {
+      logger.error('blueprint.job.saving_count_error', 'Error incrementing saving count', {
+        jobId,
+        blueprintId,
+        userId,
+        error: (error as Error).message,
+      });
+      // Don't fail the job if counting fails
+    }
+
+    try {
+      await notify({
+        userId,
+        type: 'generation_completed',
+        data: { blueprintId, blueprintTitle: generatedTitle },
+        dedupeKey: `generation-completed:${jobId}`,
+      });
+    } catch (error) {
+      logger.warn('blueprint.job.notify_failed', 'Failed to send blueprint ready notification', {
+        jobId,
+        blueprintId,
+        userId,
+        error: (error as Error).message,
+      });
+    }
+
+    await pending;
+
+    const completed = await store.update(jobId, {
+      status: 'succeeded',
+      model: result.metadata.model,
+      fallbackUsed: result.metadata.fallbackUsed,
+      steps: [...steps, { step: 'completed', timestamp: new Date().toISOString() }],
+      currentStep: 'completed',
+      inputTokens: result.usage ? Math.max(inputTokens, result.usage.input_tokens) : inputTokens,
+      outputTokens: result.usage
+        ? Math.max(outputTokens, result.usage.output_tokens)
+        : outputTokens,
+      completedAt: new Date().toISOString(),
+    });
+
+    logger.info('blueprint.job.succeeded', 'Generation job succeeded', {
+      jobId,
+      blueprintId,
+      userId,
+      model: result.metadata.model,
+      fallbackUsed: result.metadata.fallbackUsed,
+    });
+
+    return completed;
+  } catch (error) {
+    return fail((error as Error).message || 'An unexpected error occurred');
+  }
+}
@@ -1,17 +1,14 @@
 /**
  * Blueprint Generation Orchestrator Service
- * Implements dual-fallback: Claude Sonnet 4.5 → Claude Sonnet 4
+ * Generates through the provider gateway: Claude Sonnet 4.5 → Claude Opus 4 → Ollama
  */
 
-import { ClaudeClient } from '@/lib/claude/client';
 import { getClaudeConfig } from '@/lib/claude/config';
-import {
-  BLUEPRINT_SYSTEM_PROMPT,
-  buildBlueprintPrompt,
-  type BlueprintContext,
-} from '@/lib/claude/prompts';
-import { validateAndNormalizeBlueprint } from '@/lib/claude/validation';
-import { shouldFallbackToSonnet4, logFallbackDecision } from '@/lib/claude/fallback';
+import { ProviderGateway, ProviderGatewayError, getProviderGateway } from '@/lib/ai-sdk/gateway';
+import { buildBlueprintPrompt, type BlueprintContext } from '@/lib/claude/prompts';
+import { needsJsonRepair, validateAndNormalizeBlueprint } from '@/lib/claude/validation';
+import { resolvePrompt, type PromptExperiment } from '@/lib/prompts/experiments';
+import { recordPromptRun, type PromptRunRecorder } from '@/lib/services/promptRunService';
 import { createServiceLogger } from '@/lib/logging';
 import {
   getCachedBlueprint,
@@ -19,6 +16,7 @@ import {
   cacheBlueprint,
 } from '@/lib/cache/blueprintCache';
 import { performanceMonitor } from '@/lib/performance/performanceMonitor';
+import type { BlueprintJSON } from '@/components/blueprint/types';
 import {
   validateStaticAnswers,
   validateDynamicAnswers,
@@ -27,6 +25,7 @@ import {
 } from '@/lib/validation/dataIntegrity';
 import {
   WorkflowTracer,
+  type WorkflowStepListener,
   logDataFlow,
   logLLMRequest,
   logLLMResponse,
@@ -37,11 +36,16 @@ import {
 
 const logger = createServiceLogger('blueprint-generation');
 
+// Full blueprints are long; the Claude client raises this further on truncation
+const BLUEPRINT_MAX_TOKENS = 18000;
+// Each attempt can run for minutes, so retry each provider once before falling back
+const BLUEPRINT_MAX_RETRIES = 2;
+
 export interface GenerationResult {
   success: boolean;
   blueprint: any;
   metadata: {
-    model: 'claude-sonnet-4-5' | 'claude-sonnet-4';
+    model: string;
     duration: number;
     timestamp: string;
     fallbackUsed: boolean;
@@ -54,25 +58,55 @@ export interface GenerationResult {
   error?: string;
 }
 
+/**
+ * Optional progress hooks used by the generation job worker to stream
+ * WorkflowTracer steps and per-call token usage while generation runs
+ */
+export interface GenerationProgressHandlers {
+  onStep?: WorkflowStepListener;
+  onUsage?: (usage: { model: string; input_tokens: number; output_tokens: number }) => void;
+}
+
+/**
+ * Overrides used by the offline evaluation harness
+ */
+export interface BlueprintGenerationOptions {
+  /** Look up and store blueprints in the questionnaire cache (default: true) */
+  useCache?: boolean;
+  /** Experiments for prompt assignment instead of the configured ones */
+  promptExperiments?: PromptExperiment[];
+  /** Where prompt run outcomes go (default: the prompt_runs table) */
+  recordPromptRun?: PromptRunRecorder;
+}
+
 /**
  * Blueprint Generation Service
  * Orchestrates model selection, retries, validation, and normalization
  */
 export class BlueprintGenerationService {
-  private claudeClient: ClaudeClient;
+  private gateway: ProviderGateway;
   private config: ReturnType<typeof getClaudeConfig>;
+  private useCache: boolean;
+  private promptExperiments?: PromptExperiment[];
+  private recordPromptRun: PromptRunRecorder;
 
-  constructor() {
+  constructor(gateway?: ProviderGateway, options: BlueprintGenerationOptions = {}) {
     this.config = getClaudeConfig();
-    this.claudeClient = new ClaudeClient();
+    this.gateway = gateway ?? getProviderGateway();
+    this.useCache = options.useCache ?? true;
+    this.promptExperiments = options.promptExperiments;
+    this.recordPromptRun = options.recordPromptRun ?? recordPromptRun;
   }
 
   /**
-   * Generate blueprint with dual-fallback cascade
-   * 1. Try Claude Sonnet 4.5 (primary) - if API key available
-   * 2. On failure or missing key, try Claude Sonnet 4 (fallback) - if API key available
+   * Generate blueprint through the provider cascade
+   * Circuit breaker state decides which providers are tried; malformed or
+   * incomplete blueprints move the request to the next provider
    */
-  async generate(context: BlueprintContext): Promise<GenerationResult> {
+  async generate(
+    context: BlueprintContext,
+    handlers: GenerationProgressHandlers = {}
+  ): Promise<GenerationResult> {
     const endTimer = performanceMonitor.startTimer(
       'blueprint_generation',
       {
@@ -83,11 +117,14 @@ export class BlueprintGenerationService {
     );
 
     // Initialize workflow tracer
-    const tracer = new WorkflowTracer({
-      blueprintId: context.blueprintId,
-      userId: context.userId,
-      organization: context.organization,
-    });
+    const tracer = new WorkflowTracer(
+      {
+        blueprintId: context.blueprintId,
+        userId: context.userId,
+        organization: context.organization,
+      },
+      handlers.onStep
+    );
 
     tracer.addStep('start', { industry: context.industry, role: context.role });
 
@@ -185,8 +222,9 @@ export class BlueprintGenerationService {
     logTransformation('sanitize', beforeSize, afterSize, { blueprintId: context.blueprintId });
 
     // Check cache first for exact matches
+    tracer.addStep('cache-lookup');
     const staticAnswers = sanitizedContext.staticAnswers || {};
-    const cachedBlueprint = await getCachedBlueprint(staticAnswers);
+    const cachedBlueprint = this.useCache ? await getCachedBlueprint(staticAnswers) : null;
 
     if (cachedBlueprint) {
       const metric = endTimer();
@@ -211,7 +249,7 @@ export class BlueprintGenerationService {
     }
 
     // Check for similar blueprints
-    const similarBlueprint = await getSimilarBlueprint(staticAnswers);
+    const similarBlueprint = this.useCache ? await getSimilarBlueprint(staticAnswers) : null;
 
     if (similarBlueprint) {
       const metric = endTimer();
@@ -250,219 +288,137 @@ export class BlueprintGenerationService {
     });
 
     // Build prompts once, reuse for all models
-    const systemPrompt = BLUEPRINT_SYSTEM_PROMPT;
+    tracer.addStep('build-prompt');
+    const { text: systemPrompt, ...promptAssignment } = resolvePrompt(
+      'blueprint.system',
+      context.blueprintId,
+      this.promptExperiments
+    );
     const userPrompt = buildBlueprintPrompt(sanitizedContext);
 
-    // Check if Claude API key is available
-    const hasClaudeKey = this.config.apiKey && this.config.apiKey.trim().length > 0;
+    tracer.addStep('model-request', {
+      providers: 'cascade',
+      promptVersion: promptAssignment.version,
+    });
 
-    if (hasClaudeKey) {
-      // Try Claude Sonnet 4.5 (primary)
-      try {
-        const blueprint = await this.generateWithClaude(
-          context,
-          this.config.primaryModel,
-          systemPrompt,
-          userPrompt,
-          18000 // Increased max_tokens for Sonnet 4.5 to prevent truncation
-        );
+    // Outcome of the run for the prompt version comparison
+    let validationFailures = 0;
+    let truncationRepaired = false;
+    const recordRun = (success: boolean) =>
+      this.recordPromptRun({
+        blueprintId: context.blueprintId,
+        userId: context.userId,
+        purpose: 'blueprint',
+        prompts: [promptAssignment],
+        success,
+        validationFailures,
+        truncationRepaired,
+      });
 
-        const duration = Date.now() - startTime;
+    try {
+      const response = await this.gateway.generate(
+        {
+          system: systemPrompt,
+          prompt: userPrompt,
+          maxTokens: BLUEPRINT_MAX_TOKENS,
+          temperature: this.config.temperature,
+          timeoutMs: this.config.timeout,
+          maxRetries: BLUEPRINT_MAX_RETRIES,
+          usage: {
+            userId: context.userId,
+            blueprintId: context.blueprintId,
+            purpose: 'blueprint',
+          },
+        },
+        (text) => {
+          try {
+            const blueprint = this.parseBlueprint(context, text);
+            truncationRepaired = needsJsonRepair(text);
+            return blueprint;
+          } catch (parseError) {
+            validationFailures++;
+            throw parseError;
+          }
+        }
+      );
+      await recordRun(true);
+      handlers.onUsage?.({ model: response.model, ...response.usage });
+      tracer.addStep('model-response', {
+        model: response.model,
+        provider: response.provider,
+        ...response.usage,
+      });
 
-        // Cache the generated blueprint for future use
+      // Cache the generated blueprint for future use
+      if (this.useCache) {
         try {
-          await cacheBlueprint(staticAnswers, blueprint.data);
+          await cacheBlueprint(staticAnswers, response.data);
         } catch (cacheError) {
           logger.warn('blueprint.generation.cache_error', 'Failed to cache generated blueprint', {
             blueprintId: context.blueprintId,
             error: (cacheError as Error).message,
           });
         }
+      }
 
-        const metric = endTimer();
-
-        logger.info('blueprint.generation.success', 'Blueprint generation succeeded', {
-          blueprintId: context.blueprintId,
-          model: 'claude-sonnet-4-5',
-          duration,
-          attempts: 1,
-          cached: true,
-        });
-
-        return {
-          success: true,
-          blueprint: blueprint.data,
-          metadata: {
-            model: 'claude-sonnet-4-5',
-            duration: metric.duration,
-            timestamp: new Date().toISOString(),
-            fallbackUsed: false,
-            attempts: 1,
-          },
-          usage: blueprint.usage,
-        };
-      } catch (sonnetError) {
-        logger.warn('blueprint.generation.claude_primary_failed', 'Claude primary failed', {
-          blueprintId: context.blueprintId,
-          error: (sonnetError as Error).message,
-        });
-
-        // Check if we should fallback to Sonnet 4
-        const fallbackDecision = shouldFallbackToSonnet4(sonnetError as Error);
-
-        logFallbackDecision(fallbackDecision, {
-          blueprintId: context.blueprintId,
-          model: 'claude-sonnet-4-5',
-          attempt: 1,
-        });
-
-        if (!fallbackDecision.shouldFallback) {
-          // Don't fallback - return error
-          const duration = Date.now() - startTime;
-
-          logger.error(
-            'blueprint.generation.failed_no_fallback',
-            'Generation failed without fallback',
-            {
-              blueprintId: context.blueprintId,
-              duration,
-              error: (sonnetError as Error).message,
-            }
-          );
-
-          return {
-            success: false,
-            blueprint: null,
-            metadata: {
-              model: 'claude-sonnet-4-5',
-              duration,
-              timestamp: new Date().toISOString(),
-              fallbackUsed: false,
-              attempts: 1,
-            },
-            error: (sonnetError as Error).message,
-          };
-        }
-
-        // Try Claude Sonnet 4 (fallback)
-        try {
-          const blueprint = await this.generateWithClaude(
-            context,
-            this.config.fallbackModel,
-            systemPrompt,
-            userPrompt,
-            20000 // Increased max_tokens for Sonnet 4 to prevent truncation
-          );
-
-          const duration = Date.now() - startTime;
+      const metric = endTimer();
 
-          logger.info('blueprint.generation.fallback_success', 'Claude fallback succeeded', {
-            blueprintId: context.blueprintId,
-            model: 'claude-sonnet-4',
-            duration,
-            attempts: 2,
-            fallbackTrigger: fallbackDecision.trigger,
-          });
+      logger.info('blueprint.generation.success', 'Blueprint generation succeeded', {
+        blueprintId: context.blueprintId,
+        model: response.model,
+        provider: response.provider,
+        duration: Date.now() - startTime,
+        attempts: response.attempts,
+        fallbackUsed: response.fallbackUsed,
+        cached: true,
+      });
 
-          return {
-            success: true,
-            blueprint: blueprint.data,
-            metadata: {
-              model: 'claude-sonnet-4',
-              duration,
-              timestamp: new Date().toISOString(),
-              fallbackUsed: true,
-              attempts: 2,
-            },
-            usage: blueprint.usage,
-          };
-        } catch (sonnet4Error) {
-          logger.error(
-            'blueprint.generation.claude_fallback_failed',
-            'Claude Sonnet 4 fallback failed',
-            {
-              blueprintId: context.blueprintId,
-              sonnet45Error: (sonnetError as Error).message,
-              sonnet4Error: (sonnet4Error as Error).message,
-            }
-          );
-        }
-      }
-    } else {
+      return {
+        success: true,
+        blueprint: response.data,
+        metadata: {
+          model: response.model,
+          duration: metric.duration,
+          timestamp: new Date().toISOString(),
+          fallbackUsed: response.fallbackUsed,
+          attempts: response.attempts,
+        },
+        usage: response.usage,
+      };
+    } catch (error) {
       const duration = Date.now() - startTime;
+      const attempts = error instanceof ProviderGatewayError ? error.attempts.length : 0;
+      tracer.addStep('model-failed', { attempts }, (error as Error).message);
+      await recordRun(false);
 
-      logger.error('blueprint.generation.claude_unavailable', 'Claude API key not available', {
+      logger.error('blueprint.generation.all_failed', 'All generation providers failed', {
         blueprintId: context.blueprintId,
         duration,
+        attempts,
+        error: (error as Error).message,
       });
 
       return {
         success: false,
         blueprint: null,
         metadata: {
-          model: 'claude-sonnet-4-5',
+          model: this.config.primaryModel,
           duration,
           timestamp: new Date().toISOString(),
-          fallbackUsed: false,
-          attempts: 0,
+          fallbackUsed: attempts > 1,
+          attempts,
         },
-        error: 'Claude API key not available. Please configure ANTHROPIC_API_KEY.',
+        error: (error as Error).message,
       };
     }
-
-    // If we reach here, all Claude attempts failed
-    const duration = Date.now() - startTime;
-
-    logger.error('blueprint.generation.all_failed', 'All Claude generation methods failed', {
-      blueprintId: context.blueprintId,
-      duration,
-    });
-
-    return {
-      success: false,
-      blueprint: null,
-      metadata: {
-        model: 'claude-sonnet-4',
-        duration,
-        timestamp: new Date().toISOString(),
-        fallbackUsed: true,
-        attempts: hasClaudeKey ? 2 : 0,
-      },
-      error: 'All Claude generation methods failed. Please check your API configuration.',
-    };
   }
 
   /**
-   * Generate blueprint using Claude (Sonnet or Opus)
+   * Validate and normalize a raw model response
+   * Throws on incomplete blueprints so the gateway tries the next provider
    */
-  private async generateWithClaude(
-    context: BlueprintContext,
-    model: string,
-    systemPrompt: string,
-    userPrompt: string,
-    maxTokens: number
-  ): Promise<{ data: any; usage: { input_tokens: number; output_tokens: number } }> {
-    logger.info('blueprint.generation.claude_attempt', 'Attempting Claude generation', {
-      blueprintId: context.blueprintId,
-      model,
-      maxTokens,
-    });
-
-    const response = await this.claudeClient.generate({
-      model,
-      system: systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: userPrompt,
-        },
-      ],
-      max_tokens: maxTokens,
-      temperature: this.config.temperature,
-    });
-
-    const text = ClaudeClient.extractText(response);
-    const validated = validateAndNormalizeBlueprint(text);
+  private parseBlueprint(context: BlueprintContext, text: string): BlueprintJSON {
+    const validated: BlueprintJSON = validateAndNormalizeBlueprint(text);
 
     // Additional validation for blueprint completeness
     const blueprintValidation = validateBlueprintResponse(validated);
@@ -472,7 +428,6 @@ export class BlueprintGenerationService {
         'Generated blueprint failed validation',
         {
           blueprintId: context.blueprintId,
-          model,
           errors: blueprintValidation.errors,
           warnings: blueprintValidation.warnings,
         }
@@ -492,13 +447,7 @@ export class BlueprintGenerationService {
       });
     }
 
-    return {
-      data: validated,
-      usage: {
-        input_tokens: response.usage.input_tokens,
-        output_tokens: response.usage.output_tokens,
-      },
-    };
+    return validated;
   }
 }
 
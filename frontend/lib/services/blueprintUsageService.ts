@@ -34,6 +34,21 @@ export interface ComprehensiveUserLimits {
   carryoverExpiresAt: string | null;
 }
 
+/**
+ * Usage charged for one AI section regeneration, as a fraction of a full
+ * blueprint generation. Regenerations draw on the tier's creation limit, so
+ * four regenerations cost the same as one new blueprint.
+ */
+export const SECTION_REGENERATION_USAGE_RATE = 0.25;
+
+export interface SectionRegenerationAllowance {
+  canRegenerate: boolean;
+  reason?: string;
+  /** Creation usage including regenerations charged at SECTION_REGENERATION_USAGE_RATE */
+  usedWithRegenerations: number;
+  creationLimit: number;
+}
+
 export class BlueprintUsageService {
   /**
    * Get blueprint usage information for a user
@@ -346,4 +361,75 @@ export class BlueprintUsageService {
       usersReset: data[0].users_reset || 0,
     };
   }
+
+  /**
+   * Check whether the user can regenerate a blueprint section.
+   * Each regeneration is recorded at SECTION_REGENERATION_USAGE_RATE; whole
+   * creations' worth of those charges are already in creationUsed, so only
+   * the fractional remainder is added here.
+   */
+  static async canRegenerateSection(
+    supabase: SupabaseClient,
+    userId: string
+  ): Promise<SectionRegenerationAllowance> {
+    const limits = await BlueprintUsageService.getEffectiveLimits(supabase, userId);
+
+    const { data, error } = await supabase.rpc('get_section_regeneration_usage');
+
+    if (error) {
+      console.error('Error fetching section regeneration usage:', error);
+      throw new Error('Failed to check section regeneration limits');
+    }
+
+    return BlueprintUsageService.evaluateSectionRegeneration(limits, Number(data) || 0);
+  }
+
+  /**
+   * Charge a completed section regeneration to the signed-in user
+   */
+  static async recordSectionRegeneration(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    sectionId: string
+  ): Promise<void> {
+    const { error } = await supabase.rpc('record_section_regeneration', {
+      p_blueprint_id: blueprintId,
+      p_section_id: sectionId,
+      p_charge: SECTION_REGENERATION_USAGE_RATE,
+    });
+
+    if (error) {
+      console.error('Error recording section regeneration:', error);
+      throw new Error('Failed to record section regeneration');
+    }
+  }
+
+  /**
+   * Add the fractional part of the regeneration charges to effective limits.
+   * creationUsed already includes the whole creations they add up to.
+   */
+  static evaluateSectionRegeneration(
+    limits: Pick<EffectiveLimits, 'creationLimit' | 'creationUsed'>,
+    regenerationUsage: number
+  ): SectionRegenerationAllowance {
+    const usedWithRegenerations =
+      limits.creationUsed + (regenerationUsage - Math.floor(regenerationUsage));
+
+    // -1 means unlimited (developer role or exempt user)
+    if (limits.creationLimit === -1) {
+      return { canRegenerate: true, usedWithRegenerations, creationLimit: -1 };
+    }
+
+    if (usedWithRegenerations + SECTION_REGENERATION_USAGE_RATE > limits.creationLimit) {
+      return {
+        canRegenerate: false,
+        reason:
+          'You have reached your blueprint limit for this period. Upgrade your plan to regenerate more sections.',
+        usedWithRegenerations,
+        creationLimit: limits.creationLimit,
+      };
+    }
+
+    return { canRegenerate: true, usedWithRegenerations, creationLimit: limits.creationLimit };
+  }
 }
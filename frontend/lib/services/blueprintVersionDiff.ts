@@ -0,0 +1,159 @@
+/**
+ * Blueprint Version Diff
+ * Section-by-section comparison of two blueprint_json snapshots
+ */
+
+export type SectionChangeType = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface FieldChange {
+  /** Dotted path inside the section, e.g. `modules[2].title` ('' for the section root) */
+  path: string;
+  type: 'added' | 'removed' | 'modified';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface SectionDiff {
+  sectionId: string;
+  title: string;
+  change: SectionChangeType;
+  fields: FieldChange[];
+  /** True when the field list was cut off at MAX_FIELD_CHANGES */
+  truncated: boolean;
+}
+
+export interface BlueprintVersionDiff {
+  sections: SectionDiff[];
+  summary: Record<SectionChangeType, number>;
+}
+
+const MAX_FIELD_CHANGES = 200;
+
+type JsonObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+function collectFieldChanges(before: unknown, after: unknown, path: string, out: FieldChange[]) {
+  if (out.length > MAX_FIELD_CHANGES || isEqual(before, after)) return;
+
+  if (before === undefined) {
+    out.push({ path, type: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    out.push({ path, type: 'removed', before });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      collectFieldChanges(before[i], after[i], joinPath(path, i), out);
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      collectFieldChanges(before[key], after[key], joinPath(path, key), out);
+    }
+    return;
+  }
+
+  out.push({ path, type: 'modified', before, after });
+}
+
+/**
+ * Human-readable section title: the section's own `title` when present,
+ * otherwise the key in Title Case (`learning_objectives` -> `Learning Objectives`)
+ */
+export function getSectionTitle(sectionId: string, section?: unknown): string {
+  if (isPlainObject(section) && typeof section.title === 'string' && section.title.trim()) {
+    return section.title;
+  }
+  return sectionId
+    .split(/[_-]/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Compact single-line representation of a diffed value for display
+ */
+export function formatDiffValue(value: unknown, maxLength = 160): string {
+  if (value === undefined) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Compare two blueprint_json snapshots section by section.
+ * Internal keys (leading underscore) are ignored; sections keep the order of
+ * the newer snapshot, with removed sections appended.
+ */
+export function diffBlueprintVersions(
+  before: JsonObject | null | undefined,
+  after: JsonObject | null | undefined
+): BlueprintVersionDiff {
+  const prev = before ?? {};
+  const next = after ?? {};
+  const sectionIds = [...new Set([...Object.keys(next), ...Object.keys(prev)])].filter(
+    (key) => !key.startsWith('_')
+  );
+
+  const summary: Record<SectionChangeType, number> = {
+    added: 0,
+    removed: 0,
+    modified: 0,
+    unchanged: 0,
+  };
+
+  const sections = sectionIds.map((sectionId): SectionDiff => {
+    const hasBefore = sectionId in prev;
+    const hasAfter = sectionId in next;
+    const fields: FieldChange[] = [];
+
+    let change: SectionChangeType;
+    if (!hasBefore) {
+      change = 'added';
+    } else if (!hasAfter) {
+      change = 'removed';
+    } else {
+      collectFieldChanges(prev[sectionId], next[sectionId], '', fields);
+      change = fields.length > 0 ? 'modified' : 'unchanged';
+    }
+
+    summary[change]++;
+
+    return {
+      sectionId,
+      title: getSectionTitle(sectionId, hasAfter ? next[sectionId] : prev[sectionId]),
+      change,
+      fields: fields.slice(0, MAX_FIELD_CHANGES),
+      truncated: fields.length > MAX_FIELD_CHANGES,
+    };
+  });
+
+  return { sections, summary };
+}
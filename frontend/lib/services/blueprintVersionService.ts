@@ -0,0 +1,147 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type BlueprintVersionSource =
+  | 'backfill'
+  | 'generation'
+  | 'regeneration'
+  | 'edit'
+  | 'restore';
+
+export interface BlueprintVersionSummary {
+  id: string;
+  blueprintId: string;
+  versionNumber: number;
+  title: string | null;
+  changeSource: BlueprintVersionSource;
+  changedSections: string[];
+  restoredFromVersion: number | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface BlueprintVersion extends BlueprintVersionSummary {
+  blueprintJson: Record<string, unknown>;
+  blueprintMarkdown: string | null;
+  staticAnswers: Record<string, unknown>;
+  dynamicAnswers: Record<string, unknown>;
+}
+
+interface BlueprintVersionRow {
+  id: string;
+  blueprint_id: string;
+  version_number: number;
+  title: string | null;
+  change_source: BlueprintVersionSource;
+  changed_sections: string[] | null;
+  restored_from_version: number | null;
+  created_by: string | null;
+  created_at: string;
+  blueprint_json?: Record<string, unknown> | null;
+  blueprint_markdown?: string | null;
+  static_answers?: Record<string, unknown> | null;
+  dynamic_answers?: Record<string, unknown> | null;
+}
+
+const SUMMARY_COLUMNS =
+  'id, blueprint_id, version_number, title, change_source, changed_sections, restored_from_version, created_by, created_at';
+
+function toSummary(row: BlueprintVersionRow): BlueprintVersionSummary {
+  return {
+    id: row.id,
+    blueprintId: row.blueprint_id,
+    versionNumber: row.version_number,
+    title: row.title,
+    changeSource: row.change_source,
+    changedSections: row.changed_sections ?? [],
+    restoredFromVersion: row.restored_from_version,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+function toVersion(row: BlueprintVersionRow): BlueprintVersion {
+  return {
+    ...toSummary(row),
+    blueprintJson: row.blueprint_json ?? {},
+    blueprintMarkdown: row.blueprint_markdown ?? null,
+    staticAnswers: row.static_answers ?? {},
+    dynamicAnswers: row.dynamic_answers ?? {},
+  };
+}
+
+/**
+ * Read and restore the append-only blueprint version history.
+ * Versions are written by the capture trigger on blueprint_generator; RLS
+ * limits every query to the caller's own blueprints.
+ */
+export class BlueprintVersionService {
+  /**
+   * List versions of a blueprint, newest first (without content)
+   */
+  static async listVersions(
+    supabase: SupabaseClient,
+    blueprintId: string
+  ): Promise<BlueprintVersionSummary[]> {
+    const { data, error } = await supabase
+      .from('blueprint_versions')
+      .select(SUMMARY_COLUMNS)
+      .eq('blueprint_id', blueprintId)
+      .order('version_number', { ascending: false });
+
+    if (error) {
+      console.error('Error listing blueprint versions:', error);
+      throw new Error('Failed to list blueprint versions');
+    }
+
+    return ((data ?? []) as BlueprintVersionRow[]).map(toSummary);
+  }
+
+  /**
+   * Get a single version including its content snapshot
+   */
+  static async getVersion(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    versionId: string
+  ): Promise<BlueprintVersion | null> {
+    const { data, error } = await supabase
+      .from('blueprint_versions')
+      .select('*')
+      .eq('id', versionId)
+      .eq('blueprint_id', blueprintId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching blueprint version:', error);
+      throw new Error('Failed to fetch blueprint version');
+    }
+
+    return data ? toVersion(data as BlueprintVersionRow) : null;
+  }
+
+  /**
+   * Restore a version onto the live blueprint. The restore itself is
+   * recorded as a new version, so no history is lost. Returns null when the
+   * blueprint already has the version's content.
+   */
+  static async restoreVersion(
+    supabase: SupabaseClient,
+    versionId: string
+  ): Promise<BlueprintVersionSummary | null> {
+    const { data, error } = await supabase.rpc('restore_blueprint_version', {
+      p_version_id: versionId,
+    });
+
+    if (error) {
+      console.error('Error restoring blueprint version:', error);
+      throw new Error('Failed to restore blueprint version');
+    }
+
+    // A NULL row comes back as null or as a row of nulls
+    if (!data?.id) {
+      return null;
+    }
+
+    return toSummary(data as BlueprintVersionRow);
+  }
+}
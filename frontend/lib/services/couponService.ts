@@ -0,0 +1,499 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BillingCycle, SubscriptionTier } from '@/types/razorpay';
+
+export type CouponDiscountType = 'percent' | 'flat';
+
+export type CouponErrorCode =
+  | 'COUPON_NOT_FOUND'
+  | 'COUPON_INACTIVE'
+  | 'COUPON_EXPIRED'
+  | 'COUPON_EXHAUSTED'
+  | 'COUPON_ALREADY_REDEEMED'
+  | 'COUPON_TIER_NOT_ELIGIBLE'
+  | 'COUPON_BILLING_CYCLE_NOT_ELIGIBLE';
+
+const COUPON_ERROR_MESSAGES: Record<CouponErrorCode, string> = {
+  COUPON_NOT_FOUND: 'This promo code does not exist',
+  COUPON_INACTIVE: 'This promo code is no longer active',
+  COUPON_EXPIRED: 'This promo code has expired',
+  COUPON_EXHAUSTED: 'This promo code has reached its redemption limit',
+  COUPON_ALREADY_REDEEMED: 'You have already used this promo code',
+  COUPON_TIER_NOT_ELIGIBLE: 'This promo code does not apply to the selected plan',
+  COUPON_BILLING_CYCLE_NOT_ELIGIBLE: 'This promo code does not apply to the selected billing cycle',
+};
+
+/**
+ * A coupon that cannot be used, with a message safe to show the customer
+ */
+export class CouponError extends Error {
+  readonly code: CouponErrorCode;
+
+  constructor(code: CouponErrorCode) {
+    super(COUPON_ERROR_MESSAGES[code]);
+    this.name = 'CouponError';
+    this.code = code;
+  }
+}
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: CouponDiscountType;
+  /** Percent (0-100) or paise off each charge */
+  discountValue: number;
+  trialDays: number;
+  /** null when the coupon applies to every tier / billing cycle */
+  applicableTiers: SubscriptionTier[] | null;
+  applicableBillingCycles: BillingCycle[] | null;
+  razorpayOfferId: string | null;
+  maxRedemptions: number | null;
+  redemptionCount: number;
+  expiresAt: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface CouponRow {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  trial_days: number;
+  applicable_tiers: SubscriptionTier[] | null;
+  applicable_billing_cycles: BillingCycle[] | null;
+  razorpay_offer_id: string | null;
+  max_redemptions: number | null;
+  redemption_count: number;
+  expires_at: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export type CouponDefinition = Omit<Coupon, 'id' | 'redemptionCount' | 'createdAt'>;
+
+export interface CouponRedemption {
+  id: string;
+  couponId: string;
+  userId: string;
+  userEmail?: string | null;
+  razorpaySubscriptionId: string | null;
+  subscriptionTier: SubscriptionTier;
+  billingCycle: BillingCycle;
+  originalAmount: number;
+  discountAmount: number;
+  trialDays: number;
+  requestId: string | null;
+  createdAt: string;
+}
+
+interface CouponRedemptionRow {
+  id: string;
+  coupon_id: string;
+  user_id: string;
+  razorpay_subscription_id: string | null;
+  subscription_tier: SubscriptionTier;
+  billing_cycle: BillingCycle;
+  original_amount: number;
+  discount_amount: number;
+  trial_days: number;
+  request_id: string | null;
+  created_at: string;
+  user_profiles?: { email: string | null } | null;
+}
+
+/**
+ * What a coupon does to one plan
+ */
+export interface CouponQuote {
+  code: string;
+  description: string | null;
+  discountType: CouponDiscountType;
+  discountValue: number;
+  /** Paise per charge */
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+  trialDays: number;
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Reason a coupon cannot be used for a plan, or null when it can. Without a
+ * tier only the coupon itself is checked. Per-user redemption is checked
+ * separately since it needs the redemption ledger.
+ */
+export function checkCouponEligibility(
+  coupon: Pick<
+    Coupon,
+    | 'isActive'
+    | 'expiresAt'
+    | 'maxRedemptions'
+    | 'redemptionCount'
+    | 'applicableTiers'
+    | 'applicableBillingCycles'
+  >,
+  plan: { tier?: SubscriptionTier; billingCycle: BillingCycle; now?: Date }
+): CouponErrorCode | null {
+  const now = plan.now ?? new Date();
+
+  if (!coupon.isActive) return 'COUPON_INACTIVE';
+  if (coupon.expiresAt && new Date(coupon.expiresAt) <= now) return 'COUPON_EXPIRED';
+  if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+    return 'COUPON_EXHAUSTED';
+  }
+  if (plan.tier && coupon.applicableTiers && !coupon.applicableTiers.includes(plan.tier)) {
+    return 'COUPON_TIER_NOT_ELIGIBLE';
+  }
+  if (
+    coupon.applicableBillingCycles &&
+    !coupon.applicableBillingCycles.includes(plan.billingCycle)
+  ) {
+    return 'COUPON_BILLING_CYCLE_NOT_ELIGIBLE';
+  }
+
+  return null;
+}
+
+/**
+ * Price of one charge after the coupon, in paise. Flat discounts never take a
+ * charge below zero.
+ */
+export function quoteCoupon(
+  coupon: Pick<Coupon, 'code' | 'description' | 'discountType' | 'discountValue' | 'trialDays'>,
+  originalAmount: number
+): CouponQuote {
+  const discountAmount =
+    coupon.discountType === 'percent'
+      ? Math.round((originalAmount * coupon.discountValue) / 100)
+      : Math.min(coupon.discountValue, originalAmount);
+
+  return {
+    code: coupon.code,
+    description: coupon.description,
+    discountType: coupon.discountType,
+    discountValue: coupon.discountValue,
+    originalAmount,
+    discountAmount,
+    finalAmount: originalAmount - discountAmount,
+    trialDays: coupon.trialDays,
+  };
+}
+
+/**
+ * Trial length for a new subscription. The tier trial is only for a user's
+ * first subscription; a coupon trial applies to anyone and the longer wins.
+ */
+export function resolveTrialDays(params: {
+  tierTrialDays: number;
+  couponTrialDays?: number;
+  isFirstSubscription: boolean;
+}): number {
+  return Math.max(
+    params.isFirstSubscription ? params.tierTrialDays : 0,
+    params.couponTrialDays ?? 0
+  );
+}
+
+function toCoupon(row: CouponRow): Coupon {
+  return {
+    id: row.id,
+    code: row.code,
+    description: row.description,
+    discountType: row.discount_type,
+    discountValue: row.discount_value,
+    trialDays: row.trial_days,
+    applicableTiers: row.applicable_tiers,
+    applicableBillingCycles: row.applicable_billing_cycles,
+    razorpayOfferId: row.razorpay_offer_id,
+    maxRedemptions: row.max_redemptions,
+    redemptionCount: row.redemption_count,
+    expiresAt: row.expires_at,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+  };
+}
+
+function toRedemption(row: CouponRedemptionRow): CouponRedemption {
+  return {
+    id: row.id,
+    couponId: row.coupon_id,
+    userId: row.user_id,
+    userEmail: row.user_profiles?.email ?? null,
+    razorpaySubscriptionId: row.razorpay_subscription_id,
+    subscriptionTier: row.subscription_tier,
+    billingCycle: row.billing_cycle,
+    originalAmount: row.original_amount,
+    discountAmount: row.discount_amount,
+    trialDays: row.trial_days,
+    requestId: row.request_id,
+    createdAt: row.created_at,
+  };
+}
+
+function toCouponRow(input: Partial<CouponDefinition>): Partial<CouponRow> {
+  const row: Partial<CouponRow> = {};
+  if (input.code !== undefined) row.code = normalizeCouponCode(input.code);
+  if (input.description !== undefined) row.description = input.description;
+  if (input.discountType !== undefined) row.discount_type = input.discountType;
+  if (input.discountValue !== undefined) row.discount_value = input.discountValue;
+  if (input.trialDays !== undefined) row.trial_days = input.trialDays;
+  if (input.applicableTiers !== undefined) row.applicable_tiers = input.applicableTiers;
+  if (input.applicableBillingCycles !== undefined) {
+    row.applicable_billing_cycles = input.applicableBillingCycles;
+  }
+  if (input.razorpayOfferId !== undefined) row.razorpay_offer_id = input.razorpayOfferId;
+  if (input.maxRedemptions !== undefined) row.max_redemptions = input.maxRedemptions;
+  if (input.expiresAt !== undefined) row.expires_at = input.expiresAt;
+  if (input.isActive !== undefined) row.is_active = input.isActive;
+  return row;
+}
+
+/**
+ * Coupons and their redemptions. Coupons are not readable by customers, so
+ * every call here uses the service role client.
+ */
+export class CouponService {
+  static async getByCode(supabase: SupabaseClient, code: string): Promise<Coupon | null> {
+    const { data, error } = await supabase
+      .from('coupons')
+      .select('*')
+      .eq('code', normalizeCouponCode(code))
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching coupon:', error);
+      throw new Error('Failed to fetch coupon');
+    }
+
+    return data ? toCoupon(data as CouponRow) : null;
+  }
+
+  static async hasRedeemed(
+    supabase: SupabaseClient,
+    couponId: string,
+    userId: string
+  ): Promise<boolean> {
+    const { count, error } = await supabase
+      .from('coupon_redemptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('coupon_id', couponId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error checking coupon redemption:', error);
+      throw new Error('Failed to check coupon redemption');
+    }
+
+    return (count ?? 0) > 0;
+  }
+
+  /**
+   * Look up a code and check it against a plan. Throws CouponError when it
+   * cannot be used.
+   */
+  static async validate(
+    supabase: SupabaseClient,
+    code: string,
+    plan: { tier?: SubscriptionTier; billingCycle: BillingCycle; userId?: string | null }
+  ): Promise<Coupon> {
+    const coupon = await CouponService.getByCode(supabase, code);
+    if (!coupon) {
+      throw new CouponError('COUPON_NOT_FOUND');
+    }
+
+    const reason = checkCouponEligibility(coupon, plan);
+    if (reason) {
+      throw new CouponError(reason);
+    }
+
+    if (plan.userId && (await CouponService.hasRedeemed(supabase, coupon.id, plan.userId))) {
+      throw new CouponError('COUPON_ALREADY_REDEEMED');
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Reserve a redemption before the Razorpay subscription is created. The
+   * database re-checks expiry and the redemption cap under a lock.
+   */
+  static async redeem(
+    supabase: SupabaseClient,
+    params: {
+      coupon: Coupon;
+      userId: string;
+      tier: SubscriptionTier;
+      billingCycle: BillingCycle;
+      quote: CouponQuote;
+      requestId: string;
+    }
+  ): Promise<CouponRedemption> {
+    const { data, error } = await supabase.rpc('redeem_coupon', {
+      p_coupon_id: params.coupon.id,
+      p_user_id: params.userId,
+      p_subscription_tier: params.tier,
+      p_billing_cycle: params.billingCycle,
+      p_original_amount: params.quote.originalAmount,
+      p_discount_amount: params.quote.discountAmount,
+      p_trial_days: params.quote.trialDays,
+      p_request_id: params.requestId,
+    });
+
+    if (error) {
+      const code = Object.keys(COUPON_ERROR_MESSAGES).find((key) => error.message?.includes(key));
+      if (code) {
+        throw new CouponError(code as CouponErrorCode);
+      }
+
+      console.error('Error redeeming coupon:', error);
+      throw new Error('Failed to redeem coupon');
+    }
+
+    return toRedemption(data as CouponRedemptionRow);
+  }
+
+  static async attachSubscription(
+    supabase: SupabaseClient,
+    redemptionId: string,
+    razorpaySubscriptionId: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('coupon_redemptions')
+      .update({ razorpay_subscription_id: razorpaySubscriptionId })
+      .eq('id', redemptionId);
+
+    if (error) {
+      console.error('Error attaching coupon redemption:', error);
+      throw new Error('Failed to attach coupon redemption');
+    }
+  }
+
+  /**
+   * Give back a reservation whose subscription was never created
+   */
+  static async release(supabase: SupabaseClient, redemptionId: string): Promise<void> {
+    const { error } = await supabase.rpc('release_coupon_redemption', {
+      p_redemption_id: redemptionId,
+    });
+
+    if (error) {
+      console.error('Error releasing coupon redemption:', error);
+      throw new Error('Failed to release coupon redemption');
+    }
+  }
+
+  static async list(supabase: SupabaseClient): Promise<Coupon[]> {
+    const { data, error } = await supabase
+      .from('coupons')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error listing coupons:', error);
+      throw new Error('Failed to list coupons');
+    }
+
+    return ((data ?? []) as CouponRow[]).map(toCoupon);
+  }
+
+  static async create(
+    supabase: SupabaseClient,
+    input: CouponDefinition,
+    createdBy: string
+  ): Promise<Coupon> {
+    const { data, error } = await supabase
+      .from('coupons')
+      .insert({ ...toCouponRow(input), created_by: createdBy })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating coupon:', error);
+      throw new Error(
+        error.code === '23505'
+          ? 'A coupon with this code already exists'
+          : 'Failed to create coupon'
+      );
+    }
+
+    return toCoupon(data as CouponRow);
+  }
+
+  static async update(
+    supabase: SupabaseClient,
+    couponId: string,
+    input: Partial<CouponDefinition>
+  ): Promise<Coupon | null> {
+    const { data, error } = await supabase
+      .from('coupons')
+      .update({ ...toCouponRow(input), updated_at: new Date().toISOString() })
+      .eq('id', couponId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating coupon:', error);
+      throw new Error('Failed to update coupon');
+    }
+
+    return data ? toCoupon(data as CouponRow) : null;
+  }
+
+  static async listRedemptions(
+    supabase: SupabaseClient,
+    couponId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ redemptions: CouponRedemption[]; total: number }> {
+    const limit = options.limit ?? 50;
+    const offset = options.offset ?? 0;
+
+    const { data, error, count } = await supabase
+      .from('coupon_redemptions')
+      .select('*', { count: 'exact' })
+      .eq('coupon_id', couponId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Error listing coupon redemptions:', error);
+      throw new Error('Failed to list coupon redemptions');
+    }
+
+    const rows = (data ?? []) as CouponRedemptionRow[];
+    const emails = await CouponService.getUserEmails(
+      supabase,
+      rows.map((row) => row.user_id)
+    );
+
+    return {
+      redemptions: rows.map((row) =>
+        toRedemption({ ...row, user_profiles: { email: emails.get(row.user_id) ?? null } })
+      ),
+      total: count ?? 0,
+    };
+  }
+
+  private static async getUserEmails(
+    supabase: SupabaseClient,
+    userIds: string[]
+  ): Promise<Map<string, string | null>> {
+    if (userIds.length === 0) return new Map();
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('user_id, email')
+      .in('user_id', [...new Set(userIds)]);
+
+    if (error) {
+      console.error('Error fetching redemption users:', error);
+      return new Map();
+    }
+
+    return new Map((data ?? []).map((row) => [row.user_id as string, row.email as string | null]));
+  }
+}
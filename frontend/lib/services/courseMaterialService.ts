@@ -0,0 +1,234 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  buildMaterialsQuery,
+  getContentStrategy,
+  getSelectedMaterialIds,
+  rankChunks,
+  usesExistingMaterials,
+  type CourseMaterialsContext,
+  type MaterialExcerpt,
+  type MaterialKind,
+  type TextChunk,
+} from '@/lib/materials';
+
+export interface CourseMaterial {
+  id: string;
+  blueprintId: string;
+  fileName: string;
+  kind: MaterialKind;
+  fileSize: number;
+  charCount: number;
+  chunkCount: number;
+  summary: string | null;
+  uploadedBy: string | null;
+  createdAt: string;
+}
+
+interface CourseMaterialRow {
+  id: string;
+  blueprint_id: string;
+  file_name: string;
+  kind: MaterialKind;
+  file_size: number;
+  char_count: number;
+  chunk_count: number;
+  summary: string | null;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+interface MaterialChunkRow {
+  material_id: string;
+  chunk_index: number;
+  content: string;
+}
+
+const MATERIAL_COLUMNS =
+  'id, blueprint_id, file_name, kind, file_size, char_count, chunk_count, summary, uploaded_by, created_at';
+
+const DEFAULT_EXCERPT_LIMIT = 6;
+
+function toCourseMaterial(row: CourseMaterialRow): CourseMaterial {
+  return {
+    id: row.id,
+    blueprintId: row.blueprint_id,
+    fileName: row.file_name,
+    kind: row.kind,
+    fileSize: row.file_size,
+    charCount: row.char_count,
+    chunkCount: row.chunk_count,
+    summary: row.summary,
+    uploadedBy: row.uploaded_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Existing course materials attached to a blueprint. Files are processed in
+ * the upload route; this service stores the extracted chunks and summary and
+ * builds the prompt context for generation.
+ */
+export class CourseMaterialService {
+  static async listMaterials(
+    supabase: SupabaseClient,
+    blueprintId: string
+  ): Promise<CourseMaterial[]> {
+    const { data, error } = await supabase
+      .from('course_materials')
+      .select(MATERIAL_COLUMNS)
+      .eq('blueprint_id', blueprintId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error listing course materials:', error);
+      throw new Error('Failed to list course materials');
+    }
+
+    return (data ?? []).map((row) => toCourseMaterial(row as CourseMaterialRow));
+  }
+
+  static async createMaterial(
+    supabase: SupabaseClient,
+    material: {
+      blueprintId: string;
+      uploadedBy: string;
+      fileName: string;
+      kind: MaterialKind;
+      fileSize: number;
+      charCount: number;
+      summary: string;
+      chunks: TextChunk[];
+    }
+  ): Promise<CourseMaterial> {
+    const { data, error } = await supabase
+      .from('course_materials')
+      .insert({
+        blueprint_id: material.blueprintId,
+        uploaded_by: material.uploadedBy,
+        file_name: material.fileName,
+        kind: material.kind,
+        file_size: material.fileSize,
+        char_count: material.charCount,
+        chunk_count: material.chunks.length,
+        summary: material.summary,
+      })
+      .select(MATERIAL_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Error creating course material:', error);
+      throw new Error('Failed to save course material');
+    }
+
+    const created = toCourseMaterial(data as CourseMaterialRow);
+
+    const { error: chunkError } = await supabase.from('course_material_chunks').insert(
+      material.chunks.map((chunk) => ({
+        material_id: created.id,
+        blueprint_id: material.blueprintId,
+        chunk_index: chunk.index,
+        content: chunk.content,
+        token_count: chunk.tokenCount,
+      }))
+    );
+
+    if (chunkError) {
+      console.error('Error saving course material chunks:', chunkError);
+      // Don't leave a material behind without its text
+      await supabase.from('course_materials').delete().eq('id', created.id);
+      throw new Error('Failed to save course material');
+    }
+
+    return created;
+  }
+
+  /**
+   * Returns false when no material with that id exists on the blueprint
+   */
+  static async deleteMaterial(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    materialId: string
+  ): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('course_materials')
+      .delete()
+      .eq('blueprint_id', blueprintId)
+      .eq('id', materialId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting course material:', error);
+      throw new Error('Failed to delete course material');
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Summaries and the most relevant excerpts for a prompt, or null when the
+   * content strategy doesn't build on existing materials or none were
+   * uploaded
+   */
+  static async getPromptContext(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    answers: {
+      staticAnswers: Record<string, unknown>;
+      dynamicAnswers?: Record<string, unknown>;
+    },
+    excerptLimit = DEFAULT_EXCERPT_LIMIT
+  ): Promise<CourseMaterialsContext | null> {
+    const strategy = getContentStrategy(answers.staticAnswers);
+    if (!strategy || !usesExistingMaterials(strategy)) {
+      return null;
+    }
+
+    const selectedIds = getSelectedMaterialIds(answers.staticAnswers);
+    const materials = (await CourseMaterialService.listMaterials(supabase, blueprintId)).filter(
+      (material) => !selectedIds || selectedIds.includes(material.id)
+    );
+    if (materials.length === 0) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('course_material_chunks')
+      .select('material_id, chunk_index, content')
+      .in(
+        'material_id',
+        materials.map((material) => material.id)
+      )
+      .order('chunk_index', { ascending: true });
+
+    if (error) {
+      console.error('Error loading course material chunks:', error);
+      throw new Error('Failed to load course materials');
+    }
+
+    const fileNames = new Map(materials.map((material) => [material.id, material.fileName]));
+    const chunks: MaterialExcerpt[] = (data ?? []).map((row) => {
+      const chunk = row as MaterialChunkRow;
+      return {
+        materialId: chunk.material_id,
+        fileName: fileNames.get(chunk.material_id) ?? 'Untitled',
+        chunkIndex: chunk.chunk_index,
+        content: chunk.content,
+      };
+    });
+
+    return {
+      strategy,
+      materials: materials.map((material) => ({
+        id: material.id,
+        fileName: material.fileName,
+        summary: material.summary ?? '',
+      })),
+      excerpts: rankChunks(
+        chunks,
+        buildMaterialsQuery(answers.staticAnswers, answers.dynamicAnswers),
+        excerptLimit
+      ),
+    };
+  }
+}
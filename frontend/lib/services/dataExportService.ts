@@ -0,0 +1,558 @@
+/**
+ * Personal Data Export Service
+ * Builds the GDPR/DPDP data export archive: a ZIP with the user's profile,
+ * blueprints (answers, blueprint JSON and Markdown), usage counters, billing,
+ * feedback and sessions, plus a manifest. Archives live in a private bucket
+ * and are handed out through short-lived signed URLs until they expire.
+ */
+
+import JSZip from 'jszip';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { JSONGenerator } from '@/lib/export/jsonGenerator';
+import { MarkdownGenerator } from '@/lib/export/markdownGenerator';
+import type { ExportData } from '@/lib/export/types';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('data-export');
+
+export const DATA_EXPORT_BUCKET = 'data-exports';
+export const DATA_EXPORT_TTL_DAYS = 7;
+const DOWNLOAD_URL_TTL_SECONDS = 60;
+const MANIFEST_SCHEMA_VERSION = '1.0.0';
+
+export type DataExportStatus = 'queued' | 'running' | 'ready' | 'failed' | 'expired';
+export type DataExportReason = 'user_request' | 'account_deletion';
+
+export interface DataExport {
+  id: string;
+  userId: string;
+  reason: DataExportReason;
+  status: DataExportStatus;
+  fileSize: number | null;
+  manifest: DataExportManifest | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+  downloadedAt: string | null;
+}
+
+export interface DataExportManifestFile {
+  path: string;
+  description: string;
+  records?: number;
+}
+
+export interface DataExportManifest {
+  schemaVersion: string;
+  userId: string;
+  email: string | null;
+  generatedAt: string;
+  expiresAt: string;
+  files: DataExportManifestFile[];
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * Everything stored about a user, as read from the database
+ */
+export interface UserDataSnapshot {
+  userId: string;
+  account: { email: string | null; createdAt: string | null; lastSignInAt: string | null };
+  profile: Row | null;
+  blueprints: Row[];
+  usageEvents: Row[];
+  payments: Row[];
+  subscriptions: Row[];
+  invoices: Row[];
+  feedback: Row[];
+  sessions: Row[];
+}
+
+export interface ArchiveFile {
+  path: string;
+  content: string;
+}
+
+interface DataExportRow {
+  id: string;
+  user_id: string;
+  reason: DataExportReason;
+  status: Exclude<DataExportStatus, 'expired'>;
+  storage_path: string | null;
+  file_size: number | null;
+  manifest: DataExportManifest | null;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+  downloaded_at: string | null;
+}
+
+const USAGE_COUNTER_FIELDS = [
+  'subscription_tier',
+  'blueprint_creation_count',
+  'blueprint_creation_limit',
+  'blueprint_saving_count',
+  'blueprint_saving_limit',
+  'blueprint_usage_metadata',
+];
+
+/**
+ * Ready archives past their expiry are reported as 'expired'
+ */
+function toDataExport(row: DataExportRow, now: number = Date.now()): DataExport {
+  const expired =
+    row.status === 'ready' && row.expires_at !== null && new Date(row.expires_at).getTime() <= now;
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    reason: row.reason,
+    status: expired ? 'expired' : row.status,
+    fileSize: row.file_size,
+    manifest: row.manifest,
+    error: row.error,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+    expiresAt: row.expires_at,
+    downloadedAt: row.downloaded_at,
+  };
+}
+
+function toJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+function asRecord(value: unknown): Row {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Row) : {};
+}
+
+/**
+ * Markdown for one blueprint: the stored Markdown when there is one,
+ * otherwise generated from the blueprint JSON with the export generator
+ */
+function blueprintMarkdown(blueprint: Row, data: ExportData): string | null {
+  if (typeof blueprint.blueprint_markdown === 'string' && blueprint.blueprint_markdown.trim()) {
+    return blueprint.blueprint_markdown;
+  }
+
+  const blueprintJson = asRecord(blueprint.blueprint_json);
+  if (Object.keys(blueprintJson).length === 0) {
+    return null;
+  }
+
+  try {
+    return new MarkdownGenerator().generateMarkdown(
+      { ...data, blueprint: { ...blueprintJson, blueprint_json: blueprintJson } },
+      { format: 'markdown' }
+    );
+  } catch (error) {
+    logger.warn('data_export.markdown_failed', 'Could not render blueprint Markdown', {
+      blueprintId: String(blueprint.id),
+      error: (error as Error).message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Lay out the archive contents and its manifest. Pure so the layout can be
+ * tested without storage.
+ */
+export function buildDataExportFiles(
+  snapshot: UserDataSnapshot,
+  generatedAt: Date,
+  expiresAt: Date
+): { files: ArchiveFile[]; manifest: DataExportManifest } {
+  const files: ArchiveFile[] = [];
+  const manifestFiles: DataExportManifestFile[] = [];
+
+  const add = (path: string, description: string, content: string, records?: number) => {
+    files.push({ path, content });
+    manifestFiles.push(
+      records === undefined ? { path, description } : { path, description, records }
+    );
+  };
+
+  add(
+    'profile.json',
+    'Account details and profile',
+    toJson({ account: snapshot.account, profile: snapshot.profile })
+  );
+
+  const profile = snapshot.profile ?? {};
+  add(
+    'usage.json',
+    'Usage counters, limits and metered AI usage',
+    toJson({
+      counters: Object.fromEntries(
+        USAGE_COUNTER_FIELDS.filter((field) => field in profile).map((field) => [
+          field,
+          profile[field],
+        ])
+      ),
+      events: snapshot.usageEvents,
+    }),
+    snapshot.usageEvents.length
+  );
+
+  const jsonGenerator = new JSONGenerator();
+  for (const blueprint of snapshot.blueprints) {
+    const id = String(blueprint.id);
+    const data: ExportData = {
+      blueprint,
+      metadata: {
+        title: (blueprint.title as string | null) || 'Learning Blueprint',
+        createdAt: String(blueprint.created_at ?? ''),
+        exportedAt: generatedAt.toISOString(),
+        version: String(blueprint.version ?? '1'),
+        blueprintId: id,
+        userId: snapshot.userId,
+      },
+    };
+
+    add(
+      `blueprints/${id}/blueprint.json`,
+      'Questionnaire answers, generated questions and blueprint JSON',
+      jsonGenerator.generateJSON(data, { format: 'json', includeMetadata: true })
+    );
+
+    const markdown = blueprintMarkdown(blueprint, data);
+    if (markdown) {
+      add(`blueprints/${id}/blueprint.md`, 'Blueprint as Markdown', markdown);
+    }
+  }
+
+  add('payments.json', 'Payments', toJson(snapshot.payments), snapshot.payments.length);
+  add(
+    'subscriptions.json',
+    'Subscriptions',
+    toJson(snapshot.subscriptions),
+    snapshot.subscriptions.length
+  );
+  add('invoices.json', 'Invoices', toJson(snapshot.invoices), snapshot.invoices.length);
+  add(
+    'feedback.json',
+    'Feedback and bug reports you submitted',
+    toJson(snapshot.feedback),
+    snapshot.feedback.length
+  );
+  add('sessions.json', 'Sign-in sessions', toJson(snapshot.sessions), snapshot.sessions.length);
+
+  const manifest: DataExportManifest = {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    userId: snapshot.userId,
+    email: snapshot.account.email,
+    generatedAt: generatedAt.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+    files: [
+      {
+        path: 'blueprints/',
+        description: 'One folder per blueprint',
+        records: snapshot.blueprints.length,
+      },
+      ...manifestFiles,
+    ],
+  };
+
+  files.unshift({ path: 'manifest.json', content: toJson(manifest) });
+
+  return { files, manifest };
+}
+
+export async function buildArchive(files: ArchiveFile[]): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const file of files) {
+    zip.file(file.path, file.content);
+  }
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+async function selectAll(
+  supabase: SupabaseClient,
+  table: string,
+  userId: string,
+  orderBy: string = 'created_at'
+): Promise<Row[]> {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq('user_id', userId)
+    .order(orderBy, { ascending: true });
+
+  if (error) {
+    console.error(`Error reading ${table} for data export:`, error);
+    throw new Error('Failed to collect user data');
+  }
+
+  return (data ?? []) as Row[];
+}
+
+export class DataExportService {
+  /**
+   * Read everything stored about a user. Needs the service role client.
+   */
+  static async collectUserData(
+    supabase: SupabaseClient,
+    userId: string
+  ): Promise<UserDataSnapshot> {
+    const [
+      { data: authData },
+      { data: profile, error: profileError },
+      blueprints,
+      usageEvents,
+      payments,
+      subscriptions,
+      invoices,
+      feedback,
+      { data: sessions, error: sessionsError },
+    ] = await Promise.all([
+      supabase.auth.admin.getUserById(userId),
+      supabase.from('user_profiles').select('*').eq('user_id', userId).maybeSingle(),
+      selectAll(supabase, 'blueprint_generator', userId),
+      selectAll(supabase, 'llm_usage_ledger', userId),
+      selectAll(supabase, 'payments', userId),
+      selectAll(supabase, 'subscriptions', userId),
+      selectAll(supabase, 'invoices', userId, 'issued_at'),
+      selectAll(supabase, 'feedback_submissions', userId),
+      supabase.rpc('get_user_sessions_for_export', { p_user_id: userId }),
+    ]);
+
+    if (profileError || sessionsError) {
+      console.error('Error reading profile or sessions for data export:', {
+        profileError,
+        sessionsError,
+      });
+      throw new Error('Failed to collect user data');
+    }
+
+    return {
+      userId,
+      account: {
+        email: authData?.user?.email ?? null,
+        createdAt: authData?.user?.created_at ?? null,
+        lastSignInAt: authData?.user?.last_sign_in_at ?? null,
+      },
+      profile: (profile as Row | null) ?? null,
+      blueprints,
+      usageEvents,
+      payments,
+      subscriptions,
+      invoices,
+      feedback,
+      sessions: (sessions ?? []) as Row[],
+    };
+  }
+
+  /**
+   * Queue an export. When one is already in progress it is returned instead.
+   */
+  static async request(
+    supabase: SupabaseClient,
+    userId: string,
+    reason: DataExportReason
+  ): Promise<{ dataExport: DataExport; created: boolean }> {
+    const { data, error } = await supabase
+      .from('data_export_requests')
+      .insert({ user_id: userId, reason })
+      .select('*')
+      .single();
+
+    if (error?.code === '23505') {
+      const active = await this.getLatest(supabase, userId);
+      if (active) {
+        return { dataExport: active, created: false };
+      }
+    }
+
+    if (error || !data) {
+      console.error('Error requesting data export:', error);
+      throw new Error('Failed to request data export');
+    }
+
+    return { dataExport: toDataExport(data as DataExportRow), created: true };
+  }
+
+  static async getLatest(supabase: SupabaseClient, userId: string): Promise<DataExport | null> {
+    const { data, error } = await supabase
+      .from('data_export_requests')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching data export:', error);
+      throw new Error('Failed to fetch data export');
+    }
+
+    return data ? toDataExport(data as DataExportRow) : null;
+  }
+
+  /**
+   * A short-lived signed URL for a ready archive, or null when the export
+   * isn't downloadable (not the caller's, not ready, or expired). Needs the
+   * service role client.
+   */
+  static async createDownloadUrl(
+    supabase: SupabaseClient,
+    exportId: string,
+    userId: string
+  ): Promise<{ url: string | null; status: DataExportStatus | null }> {
+    const { data, error } = await supabase
+      .from('data_export_requests')
+      .select('*')
+      .eq('id', exportId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching data export:', error);
+      throw new Error('Failed to fetch data export');
+    }
+
+    if (!data) {
+      return { url: null, status: null };
+    }
+
+    const row = data as DataExportRow;
+    const dataExport = toDataExport(row);
+    if (dataExport.status !== 'ready' || !row.storage_path) {
+      return { url: null, status: dataExport.status };
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from(DATA_EXPORT_BUCKET)
+      .createSignedUrl(row.storage_path, DOWNLOAD_URL_TTL_SECONDS, {
+        download: `smartslate-data-export-${row.created_at.slice(0, 10)}.zip`,
+      });
+
+    if (signError || !signed) {
+      console.error('Error signing data export URL:', signError);
+      throw new Error('Failed to create download link');
+    }
+
+    await supabase
+      .from('data_export_requests')
+      .update({ downloaded_at: new Date().toISOString() })
+      .eq('id', exportId);
+
+    return { url: signed.signedUrl, status: 'ready' };
+  }
+
+  /**
+   * Delete the user's archives from storage. Called before a new export and
+   * when the account is deleted.
+   */
+  static async removeArchives(
+    supabase: SupabaseClient,
+    userId: string,
+    keepPath?: string
+  ): Promise<void> {
+    const { data: objects, error } = await supabase.storage.from(DATA_EXPORT_BUCKET).list(userId);
+
+    if (error) {
+      console.error('Error listing data export archives:', error);
+      throw new Error('Failed to remove data export archives');
+    }
+
+    const paths = (objects ?? [])
+      .map((object) => `${userId}/${object.name}`)
+      .filter((path) => path !== keepPath);
+
+    if (paths.length > 0) {
+      const { error: removeError } = await supabase.storage.from(DATA_EXPORT_BUCKET).remove(paths);
+      if (removeError) {
+        console.error('Error removing data export archives:', removeError);
+        throw new Error('Failed to remove data export archives');
+      }
+    }
+  }
+}
+
+/**
+ * Build and upload the archive for a queued export, recording the outcome on
+ * the request. Runs with the service role and never throws.
+ */
+export async function runDataExport(
+  exportId: string,
+  supabase: SupabaseClient = getSupabaseAdminClient() as unknown as SupabaseClient
+): Promise<void> {
+  const { data: row, error: claimError } = await supabase
+    .from('data_export_requests')
+    .update({ status: 'running', started_at: new Date().toISOString() })
+    .eq('id', exportId)
+    .eq('status', 'queued')
+    .select('*')
+    .maybeSingle();
+
+  if (claimError || !row) {
+    logger.warn('data_export.not_claimed', 'Data export was not queued', {
+      exportId,
+      error: claimError?.message,
+    });
+    return;
+  }
+
+  const userId = (row as DataExportRow).user_id;
+  const startedAt = Date.now();
+
+  try {
+    const snapshot = await DataExportService.collectUserData(supabase, userId);
+    const generatedAt = new Date();
+    const expiresAt = new Date(generatedAt.getTime() + DATA_EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const { files, manifest } = buildDataExportFiles(snapshot, generatedAt, expiresAt);
+    const archive = await buildArchive(files);
+
+    const storagePath = `${userId}/${exportId}.zip`;
+    const { error: uploadError } = await supabase.storage
+      .from(DATA_EXPORT_BUCKET)
+      .upload(storagePath, archive, { contentType: 'application/zip', upsert: true });
+
+    if (uploadError) {
+      throw new Error(`Upload failed: ${uploadError.message}`);
+    }
+
+    // Only the newest archive is kept
+    await DataExportService.removeArchives(supabase, userId, storagePath);
+
+    await supabase
+      .from('data_export_requests')
+      .update({
+        status: 'ready',
+        storage_path: storagePath,
+        file_size: archive.byteLength,
+        manifest,
+        completed_at: generatedAt.toISOString(),
+        expires_at: expiresAt.toISOString(),
+      })
+      .eq('id', exportId);
+
+    logger.info('data_export.ready', 'Data export archive ready', {
+      exportId,
+      userId,
+      files: files.length,
+      bytes: archive.byteLength,
+      duration: Date.now() - startedAt,
+    });
+  } catch (error) {
+    logger.error('data_export.failed', 'Data export failed', {
+      exportId,
+      userId,
+      error: (error as Error).message,
+    });
+
+    await supabase
+      .from('data_export_requests')
+      .update({
+        status: 'failed',
+        error: 'The export could not be built. Please try again.',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', exportId);
+  }
+}
@@ -0,0 +1,397 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NotificationService } from '@/lib/services/notificationService';
+import type { CreateFeedbackRequest, TriageFeedbackRequest } from '@/lib/schemas/feedback';
+import type {
+  FeedbackResponse,
+  FeedbackStatus,
+  FeedbackStatusHistory,
+  FeedbackSubmission,
+  FeedbackType,
+  ResponseType,
+  UserInfo,
+} from '@/lib/types/feedback';
+
+const SUBMISSION_COLUMNS = `
+  *,
+  feedback_type:feedback_types(id, name, description, category, icon, color, is_active, sort_order, created_at, updated_at)
+`;
+
+// Roles allowed to triage, matching the 0032 RLS policies
+const TRIAGE_ROLES = ['admin', 'developer', 'support'];
+
+export interface FeedbackTriageFilters {
+  status?: FeedbackStatus;
+  assignedTo?: string | 'unassigned';
+  feedbackTypeId?: string;
+  search?: string;
+  limit?: number;
+}
+
+export interface FeedbackTriageUpdate {
+  submission: FeedbackSubmission;
+  previousStatus: FeedbackStatus;
+  statusChanged: boolean;
+}
+
+/**
+ * What the reporter sees on their "my reports" page: no internal notes, triage
+ * assignment or AI tags
+ */
+export function toReporterView(
+  submission: FeedbackSubmission & { responses?: FeedbackResponse[] }
+): FeedbackSubmission {
+  return {
+    ...submission,
+    assigned_to: null,
+    ai_tags: null,
+    sentiment_score: null,
+    responses: (submission.responses ?? [])
+      .filter((response) => !response.is_internal)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  };
+}
+
+/**
+ * Tell the reporter about a status change or a reply. Failures are logged so
+ * they never fail the triage action.
+ */
+export async function notifyFeedbackReporter(
+  supabase: SupabaseClient,
+  submission: Pick<FeedbackSubmission, 'id' | 'user_id' | 'title'>,
+  update: { status: FeedbackStatus | null; message: string | null }
+): Promise<void> {
+  try {
+    await NotificationService.notify(supabase, {
+      userId: submission.user_id,
+      type: 'feedback_updated',
+      data: {
+        feedbackId: submission.id,
+        feedbackTitle: submission.title,
+        status: update.status,
+        message: update.message,
+      },
+    });
+  } catch (error) {
+    console.error('Error notifying feedback reporter:', error);
+  }
+}
+
+/**
+ * User feedback and the admin triage workflow on top of the 0032 feedback
+ * tables. Reporter-facing methods work with the user's client; triage methods
+ * expect the service role client.
+ */
+export class FeedbackService {
+  static async listTypes(supabase: SupabaseClient): Promise<FeedbackType[]> {
+    const { data, error } = await supabase
+      .from('feedback_types')
+      .select('*')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching feedback types:', error);
+      throw new Error('Failed to fetch feedback types');
+    }
+
+    return (data ?? []) as FeedbackType[];
+  }
+
+  static async submit(
+    supabase: SupabaseClient,
+    userId: string,
+    input: CreateFeedbackRequest,
+    context: { userAgent: string | null }
+  ): Promise<FeedbackSubmission> {
+    const { data, error } = await supabase
+      .from('feedback_submissions')
+      .insert({
+        user_id: userId,
+        feedback_type_id: input.feedback_type_id,
+        title: input.title,
+        description: input.description ?? null,
+        priority: input.priority ?? 3,
+        metadata: input.metadata ?? {},
+        user_agent: context.userAgent,
+        browser_info: input.browser_info ?? null,
+        page_url: input.page_url || null,
+        error_details: input.error_details ?? null,
+      })
+      .select(SUBMISSION_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error submitting feedback:', error);
+      throw new Error('Failed to submit feedback');
+    }
+
+    return data as FeedbackSubmission;
+  }
+
+  /**
+   * The user's own reports with replies and status changes, newest first
+   */
+  static async listForReporter(
+    supabase: SupabaseClient,
+    userId: string
+  ): Promise<FeedbackSubmission[]> {
+    const { data, error } = await supabase
+      .from('feedback_submissions')
+      .select(
+        `${SUBMISSION_COLUMNS}, responses:feedback_responses(id, feedback_id, responder_id, response, response_type, is_internal, created_at, updated_at)`
+      )
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Error listing feedback:', error);
+      throw new Error('Failed to list feedback');
+    }
+
+    return ((data ?? []) as FeedbackSubmission[]).map(toReporterView);
+  }
+
+  /**
+   * Submissions for the triage board, with reporter and assignee details
+   */
+  static async listForTriage(
+    supabase: SupabaseClient,
+    filters: FeedbackTriageFilters = {}
+  ): Promise<FeedbackSubmission[]> {
+    let query = supabase.from('feedback_submissions').select(SUBMISSION_COLUMNS);
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.assignedTo === 'unassigned') {
+      query = query.is('assigned_to', null);
+    } else if (filters.assignedTo) {
+      query = query.eq('assigned_to', filters.assignedTo);
+    }
+    if (filters.feedbackTypeId) {
+      query = query.eq('feedback_type_id', filters.feedbackTypeId);
+    }
+    if (filters.search) {
+      // Commas and parentheses would break the or() filter syntax
+      const term = filters.search.replace(/[,()]/g, ' ').trim();
+      if (term) {
+        query = query.or(`title.ilike.%${term}%,description.ilike.%${term}%`);
+      }
+    }
+
+    const { data, error } = await query
+      .order('priority', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(filters.limit ?? 200);
+
+    if (error) {
+      console.error('Error listing feedback for triage:', error);
+      throw new Error('Failed to list feedback');
+    }
+
+    return FeedbackService.attachUsers(supabase, (data ?? []) as FeedbackSubmission[]);
+  }
+
+  /**
+   * One submission with every response, internal notes included, and its
+   * status history
+   */
+  static async getForTriage(
+    supabase: SupabaseClient,
+    feedbackId: string
+  ): Promise<FeedbackSubmission | null> {
+    const { data, error } = await supabase
+      .from('feedback_submissions')
+      .select(
+        `${SUBMISSION_COLUMNS},
+        responses:feedback_responses(id, feedback_id, responder_id, response, response_type, is_internal, created_at, updated_at),
+        status_history:feedback_status_history(id, feedback_id, old_status, new_status, changed_by, change_reason, created_at)`
+      )
+      .eq('id', feedbackId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching feedback:', error);
+      throw new Error('Failed to fetch feedback');
+    }
+
+    if (!data) return null;
+
+    const submission = data as FeedbackSubmission;
+    const responses = [...(submission.responses ?? [])].sort((a, b) =>
+      a.created_at.localeCompare(b.created_at)
+    );
+    const statusHistory = [...(submission.status_history ?? [])].sort((a, b) =>
+      a.created_at.localeCompare(b.created_at)
+    );
+
+    const users = await FeedbackService.getUsers(supabase, [
+      submission.user_id,
+      submission.assigned_to,
+      ...responses.map((response) => response.responder_id),
+    ]);
+
+    return {
+      ...submission,
+      user: users.get(submission.user_id),
+      assignee: submission.assigned_to ? users.get(submission.assigned_to) : undefined,
+      responses: responses.map((response) => ({
+        ...response,
+        responder: users.get(response.responder_id),
+      })),
+      status_history: statusHistory as FeedbackStatusHistory[],
+    };
+  }
+
+  /**
+   * Change status, priority or assignee. A status change is also recorded as a
+   * status_change response the reporter can see, using the message if given.
+   */
+  static async triage(
+    supabase: SupabaseClient,
+    feedbackId: string,
+    actorId: string,
+    update: TriageFeedbackRequest
+  ): Promise<FeedbackTriageUpdate | null> {
+    const { data: current, error: fetchError } = await supabase
+      .from('feedback_submissions')
+      .select('id, status')
+      .eq('id', feedbackId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching feedback:', fetchError);
+      throw new Error('Failed to fetch feedback');
+    }
+
+    if (!current) return null;
+
+    const previousStatus = (current as { status: FeedbackStatus }).status;
+    const changes: Record<string, unknown> = {};
+    if (update.status !== undefined) changes.status = update.status;
+    if (update.priority !== undefined) changes.priority = update.priority;
+    if (update.assigned_to !== undefined) changes.assigned_to = update.assigned_to;
+
+    const { data, error } = await supabase
+      .from('feedback_submissions')
+      .update(changes)
+      .eq('id', feedbackId)
+      .select(SUBMISSION_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error updating feedback:', error);
+      throw new Error('Failed to update feedback');
+    }
+
+    const statusChanged = update.status !== undefined && update.status !== previousStatus;
+
+    if (statusChanged) {
+      await FeedbackService.addResponse(supabase, feedbackId, actorId, {
+        response: update.message || `Status changed to ${update.status!.replace(/_/g, ' ')}`,
+        response_type: 'status_change',
+      });
+    }
+
+    return { submission: data as FeedbackSubmission, previousStatus, statusChanged };
+  }
+
+  /**
+   * Reply to the reporter or leave an internal note. Internal notes are always
+   * hidden from the reporter.
+   */
+  static async addResponse(
+    supabase: SupabaseClient,
+    feedbackId: string,
+    responderId: string,
+    input: { response: string; response_type?: ResponseType; is_internal?: boolean }
+  ): Promise<FeedbackResponse> {
+    const responseType = input.response_type ?? 'comment';
+    const isInternal = responseType === 'internal_note' ? true : (input.is_internal ?? false);
+
+    const { data, error } = await supabase
+      .from('feedback_responses')
+      .insert({
+        feedback_id: feedbackId,
+        responder_id: responderId,
+        response: input.response,
+        response_type: responseType,
+        is_internal: isInternal,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error adding feedback response:', error);
+      throw new Error('Failed to add feedback response');
+    }
+
+    return data as FeedbackResponse;
+  }
+
+  /**
+   * Staff who can be assigned feedback
+   */
+  static async listAssignees(supabase: SupabaseClient): Promise<UserInfo[]> {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('user_id, email, full_name, avatar_url, user_role')
+      .in('user_role', TRIAGE_ROLES)
+      .order('full_name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching feedback assignees:', error);
+      throw new Error('Failed to fetch assignees');
+    }
+
+    return (data ?? []).map(toUserInfo);
+  }
+
+  private static async attachUsers(
+    supabase: SupabaseClient,
+    submissions: FeedbackSubmission[]
+  ): Promise<FeedbackSubmission[]> {
+    const users = await FeedbackService.getUsers(
+      supabase,
+      submissions.flatMap((submission) => [submission.user_id, submission.assigned_to])
+    );
+
+    return submissions.map((submission) => ({
+      ...submission,
+      user: users.get(submission.user_id),
+      assignee: submission.assigned_to ? users.get(submission.assigned_to) : undefined,
+    }));
+  }
+
+  // feedback_submissions references auth.users, so profiles cannot be embedded
+  private static async getUsers(
+    supabase: SupabaseClient,
+    userIds: Array<string | null>
+  ): Promise<Map<string, UserInfo>> {
+    const ids = [...new Set(userIds.filter((id): id is string => Boolean(id)))];
+    if (ids.length === 0) return new Map();
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('user_id, email, full_name, avatar_url, user_role')
+      .in('user_id', ids);
+
+    if (error) {
+      console.error('Error fetching feedback users:', error);
+      return new Map();
+    }
+
+    return new Map((data ?? []).map((row) => [row.user_id as string, toUserInfo(row)]));
+  }
+}
+
+function toUserInfo(row: Record<string, unknown>): UserInfo {
+  return {
+    id: row.user_id as string,
+    email: (row.email as string | null) ?? '',
+    full_name: (row.full_name as string | null) ?? null,
+    avatar_url: (row.avatar_url as string | null) ?? null,
+    user_role: (row.user_role as string | null) ?? undefined,
+  };
+}
@@ -0,0 +1,173 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { ClaudeClient, getClaudeConfig } from '@/lib/claude';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { createServiceLogger } from '@/lib/logging';
+import type { FeedbackSubmission, SentimentScore } from '@/lib/types/feedback';
+
+const logger = createServiceLogger('feedback');
+
+const MAX_TAGS = 5;
+
+const TAGGING_SYSTEM_PROMPT = `You triage user feedback for SmartSlate Polaris, an app that generates learning blueprints from questionnaires.
+Return JSON only, no markdown: {"tags": string[], "sentiment": -1 | 0 | 1}
+- tags: 1-${MAX_TAGS} short lowercase kebab-case tags naming the product area and kind of issue (e.g. "blueprint-generation", "billing", "export", "performance", "ui-bug", "feature-request")
+- sentiment: -1 frustrated or negative, 0 neutral, 1 positive`;
+
+const TaggingResponseSchema = z.object({
+  tags: z.array(z.string()).min(1),
+  sentiment: z.union([z.literal(-1), z.literal(0), z.literal(1)]),
+});
+
+export interface FeedbackTagging {
+  tags: string[];
+  sentiment: SentimentScore;
+}
+
+type TaggableFeedback = Pick<
+  FeedbackSubmission,
+  'title' | 'description' | 'page_url' | 'error_details' | 'feedback_type'
+>;
+
+export function buildFeedbackTaggingPrompt(feedback: TaggableFeedback): string {
+  const lines = [
+    `Type: ${feedback.feedback_type?.name ?? 'Unknown'}`,
+    `Title: ${feedback.title}`,
+    `Description: ${feedback.description?.slice(0, 4000) || '(none)'}`,
+  ];
+
+  if (feedback.page_url) {
+    lines.push(`Page: ${feedback.page_url}`);
+  }
+  const errorMessage = feedback.error_details?.message;
+  if (typeof errorMessage === 'string') {
+    lines.push(`Last client error: ${errorMessage.slice(0, 500)}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse the model's reply into normalized tags and a sentiment score, or null
+ * when it isn't usable
+ */
+export function parseFeedbackTagging(text: string): FeedbackTagging | null {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/```$/, '')
+    .trim();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  const result = TaggingResponseSchema.safeParse(parsed);
+  if (!result.success) return null;
+
+  const tags = [
+    ...new Set(
+      result.data.tags
+        .map((tag) =>
+          tag
+            .toLowerCase()
+            .trim()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+        )
+        .filter((tag) => tag.length > 0 && tag.length <= 40)
+    ),
+  ].slice(0, MAX_TAGS);
+
+  if (tags.length === 0) return null;
+
+  return { tags, sentiment: result.data.sentiment };
+}
+
+interface TaggingDeps {
+  supabase?: SupabaseClient;
+  client?: Pick<ClaudeClient, 'generate'>;
+}
+
+/**
+ * Tag a new submission with the Claude client and store the tags and sentiment.
+ * Runs after the submission response is sent; failures are logged, never thrown.
+ */
+export async function tagFeedbackSubmission(
+  feedbackId: string,
+  deps: TaggingDeps = {}
+): Promise<FeedbackTagging | null> {
+  if (!deps.client && !getClaudeConfig().apiKey) {
+    logger.info('feedback.tagging.skipped', 'Claude API key not configured', { feedbackId });
+    return null;
+  }
+
+  const supabase = deps.supabase ?? (getSupabaseAdminClient() as unknown as SupabaseClient);
+
+  try {
+    const { data, error } = await supabase
+      .from('feedback_submissions')
+      .select(
+        'id, title, description, page_url, error_details, metadata, feedback_type:feedback_types(name)'
+      )
+      .eq('id', feedbackId)
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message ?? 'Feedback not found');
+    }
+
+    const feedback = data as unknown as TaggableFeedback & {
+      metadata: Record<string, unknown> | null;
+    };
+    const client = deps.client ?? new ClaudeClient();
+
+    const response = await client.generate({
+      system: TAGGING_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: buildFeedbackTaggingPrompt(feedback) }],
+      max_tokens: 300,
+      temperature: 0,
+    });
+
+    const tagging = parseFeedbackTagging(ClaudeClient.extractText(response));
+    if (!tagging) {
+      logger.warn('feedback.tagging.unparseable', 'Could not parse feedback tags', {
+        feedbackId,
+      });
+      return null;
+    }
+
+    const { error: updateError } = await supabase
+      .from('feedback_submissions')
+      .update({
+        ai_tags: tagging.tags,
+        sentiment_score: tagging.sentiment,
+        metadata: {
+          ...(feedback.metadata ?? {}),
+          ai_tagging: { model: response.model, tagged_at: new Date().toISOString() },
+        },
+      })
+      .eq('id', feedbackId);
+
+    if (updateError) {
+      throw new Error(updateError.message);
+    }
+
+    logger.info('feedback.tagging.complete', 'Tagged feedback submission', {
+      feedbackId,
+      tags: tagging.tags,
+      sentiment: tagging.sentiment,
+    });
+
+    return tagging;
+  } catch (error) {
+    logger.error('feedback.tagging.error', 'Failed to tag feedback submission', {
+      feedbackId,
+      error: (error as Error).message,
+    });
+    return null;
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * Blueprint Generation Job Store
+ * Persistence for asynchronous blueprint generation jobs (queued → running → succeeded/failed)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WorkflowStep } from '@/lib/logging/blueprintLogger';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface BlueprintGenerationJob {
+  id: string;
+  blueprintId: string;
+  userId: string;
+  status: GenerationJobStatus;
+  attempts: number;
+  model: string | null;
+  fallbackUsed: boolean;
+  steps: WorkflowStep[];
+  currentStep: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  updatedAt: string;
+}
+
+export type GenerationJobUpdate = Partial<
+  Pick<
+    BlueprintGenerationJob,
+    | 'status'
+    | 'attempts'
+    | 'model'
+    | 'fallbackUsed'
+    | 'steps'
+    | 'currentStep'
+    | 'inputTokens'
+    | 'outputTokens'
+    | 'error'
+    | 'startedAt'
+    | 'completedAt'
+  >
+>;
+
+/**
+ * Another request already has a queued or running job for the blueprint
+ * (the one-active-job-per-blueprint unique index)
+ */
+export class ActiveGenerationJobError extends Error {
+  constructor() {
+    super('The blueprint already has an active generation job');
+    this.name = 'ActiveGenerationJobError';
+  }
+}
+
+/**
+ * A running job that has not reported progress for this long is considered
+ * abandoned (e.g. the serverless function was killed at maxDuration)
+ */
+export const STALE_JOB_MS = 15 * 60 * 1000;
+
+export function isTerminalJobStatus(status: GenerationJobStatus): boolean {
+  return status === 'succeeded' || status === 'failed';
+}
+
+export function isStaleJob(job: BlueprintGenerationJob, now: number = Date.now()): boolean {
+  return !isTerminalJobStatus(job.status) && now - new Date(job.updatedAt).getTime() > STALE_JOB_MS;
+}
+
+export interface GenerationJobStore {
+  create(blueprintId: string, userId: string): Promise<BlueprintGenerationJob>;
+  get(jobId: string): Promise<BlueprintGenerationJob | null>;
+  findLatestForBlueprint(blueprintId: string): Promise<BlueprintGenerationJob | null>;
+  update(jobId: string, update: GenerationJobUpdate): Promise<BlueprintGenerationJob>;
+  /**
+   * Update the job only if it is still as the caller read it (same status and
+   * updated_at), so a queued or stale job is taken by one worker. Returns null
+   * when another worker got there first.
+   */
+  claim(
+    claimed: BlueprintGenerationJob,
+    update: GenerationJobUpdate
+  ): Promise<BlueprintGenerationJob | null>;
+}
+
+interface GenerationJobRow {
+  id: string;
+  blueprint_id: string;
+  user_id: string;
+  status: GenerationJobStatus;
+  attempts: number;
+  model: string | null;
+  fallback_used: boolean;
+  steps: WorkflowStep[] | null;
+  current_step: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+function fromRow(row: GenerationJobRow): BlueprintGenerationJob {
+  return {
+    id: row.id,
+    blueprintId: row.blueprint_id,
+    userId: row.user_id,
+    status: row.status,
+    attempts: row.attempts,
+    model: row.model,
+    fallbackUsed: row.fallback_used,
+    steps: row.steps ?? [],
+    currentStep: row.current_step,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    error: row.error,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toRow(update: GenerationJobUpdate): Partial<GenerationJobRow> {
+  const row: Partial<GenerationJobRow> = {};
+  if (update.status !== undefined) row.status = update.status;
+  if (update.attempts !== undefined) row.attempts = update.attempts;
+  if (update.model !== undefined) row.model = update.model;
+  if (update.fallbackUsed !== undefined) row.fallback_used = update.fallbackUsed;
+  if (update.steps !== undefined) row.steps = update.steps;
+  if (update.currentStep !== undefined) row.current_step = update.currentStep;
+  if (update.inputTokens !== undefined) row.input_tokens = update.inputTokens;
+  if (update.outputTokens !== undefined) row.output_tokens = update.outputTokens;
+  if (update.error !== undefined) row.error = update.error;
+  if (update.startedAt !== undefined) row.started_at = update.startedAt;
+  if (update.completedAt !== undefined) row.completed_at = update.completedAt;
+  return row;
+}
+
+/**
+ * Supabase-backed store (blueprint_generation_jobs table)
+ */
+export class SupabaseGenerationJobStore implements GenerationJobStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async create(blueprintId: string, userId: string): Promise<BlueprintGenerationJob> {
+    const { data, error } = await this.supabase
+      .from('blueprint_generation_jobs')
+      .insert({ blueprint_id: blueprintId, user_id: userId, status: 'queued' })
+      .select('*')
+      .single();
+
+    if (error?.code === '23505') {
+      throw new ActiveGenerationJobError();
+    }
+
+    if (error || !data) {
+      throw new Error(`Failed to create generation job: ${error?.message ?? 'no data returned'}`);
+    }
+
+    return fromRow(data as GenerationJobRow);
+  }
+
+  async get(jobId: string): Promise<BlueprintGenerationJob | null> {
+    const { data, error } = await this.supabase
+      .from('blueprint_generation_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch generation job: ${error.message}`);
+    }
+
+    return data ? fromRow(data as GenerationJobRow) : null;
+  }
+
+  async findLatestForBlueprint(blueprintId: string): Promise<BlueprintGenerationJob | null> {
+    const { data, error } = await this.supabase
+      .from('blueprint_generation_jobs')
+      .select('*')
+      .eq('blueprint_id', blueprintId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch generation job: ${error.message}`);
+    }
+
+    return data ? fromRow(data as GenerationJobRow) : null;
+  }
+
+  async update(jobId: string, update: GenerationJobUpdate): Promise<BlueprintGenerationJob> {
+    const { data, error } = await this.supabase
+      .from('blueprint_generation_jobs')
+      .update(toRow(update))
+      .eq('id', jobId)
+      .select('*')
+      .single();
+
+    if (error?.code === '23505') {
+      throw new ActiveGenerationJobError();
+    }
+
+    if (error || !data) {
+      throw new Error(`Failed to update generation job: ${error?.message ?? 'job not found'}`);
+    }
+
+    return fromRow(data as GenerationJobRow);
+  }
+
+  async claim(
+    claimed: BlueprintGenerationJob,
+    update: GenerationJobUpdate
+  ): Promise<BlueprintGenerationJob | null> {
+    const { data, error } = await this.supabase
+      .from('blueprint_generation_jobs')
+      .update(toRow(update))
+      .eq('id', claimed.id)
+      .eq('status', claimed.status)
+      .eq('updated_at', claimed.updatedAt)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to claim generation job: ${error.message}`);
+    }
+
+    return data ? fromRow(data as GenerationJobRow) : null;
+  }
+}
+
+/**
+ * In-memory store for local development and tests (no database required)
+ */
+export class InMemoryGenerationJobStore implements GenerationJobStore {
+  private jobs = new Map<string, BlueprintGenerationJob>();
+  private sequence = 0;
+
+  async create(blueprintId: string, userId: string): Promise<BlueprintGenerationJob> {
+    const now = new Date().toISOString();
+    const job: BlueprintGenerationJob = {
+      id: `job-${++this.sequence}`,
+      blueprintId,
+      userId,
+      status: 'queued',
+      attempts: 0,
+      model: null,
+      fallbackUsed: false,
+      steps: [],
+      currentStep: null,
+      inputTokens: 0,
+      outputTokens: 0,
+      error: null,
+      createdAt: now,
+      startedAt: null,
+      completedAt: null,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async get(jobId: string): Promise<BlueprintGenerationJob | null> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  async findLatestForBlueprint(blueprintId: string): Promise<BlueprintGenerationJob | null> {
+    const matches = [...this.jobs.values()].filter((job) => job.blueprintId === blueprintId);
+    const latest = matches[matches.length - 1];
+    return latest ? { ...latest } : null;
+  }
+
+  async update(jobId: string, update: GenerationJobUpdate): Promise<BlueprintGenerationJob> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error('Failed to update generation job: job not found');
+    }
+
+    const updated = { ...job, ...update, updatedAt: new Date().toISOString() };
+    this.jobs.set(jobId, updated);
+    return { ...updated };
+  }
+
+  async claim(
+    claimed: BlueprintGenerationJob,
+    update: GenerationJobUpdate
+  ): Promise<BlueprintGenerationJob | null> {
+    const job = this.jobs.get(claimed.id);
+    if (!job || job.status !== claimed.status || job.updatedAt !== claimed.updatedAt) {
+      return null;
+    }
+
+    return this.update(claimed.id, update);
+  }
+}
@@ -0,0 +1,551 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BlueprintJSON, Module } from '@/components/features/blueprints/types';
+import type { ModuleData } from '@/types/dashboard';
+
+export const TASK_STATUSES = ['not_started', 'in_progress', 'completed'] as const;
+
+export type ImplementationTaskStatus = ModuleData['status'];
+export type ImplementationTaskSource = 'module' | 'milestone' | 'custom';
+
+/** Category of tasks created from content outline modules */
+export const MODULE_TASK_CATEGORY = 'Content development';
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use a YYYY-MM-DD date');
+
+export const taskInputSchema = z.object({
+  title: z.string().trim().min(1).max(300),
+  description: z.string().trim().max(2000).nullable().optional(),
+  category: z.string().trim().min(1).max(100).optional(),
+  ownerId: z.string().uuid().nullable().optional(),
+  dueDate: isoDateSchema.nullable().optional(),
+  estimatedHours: z.number().min(0).max(10000).nullable().optional(),
+});
+
+export const taskUpdateSchema = taskInputSchema.partial().extend({
+  status: z.enum(TASK_STATUSES).optional(),
+  progressPercentage: z.number().int().min(0).max(100).optional(),
+});
+
+export const timeEntryInputSchema = z.object({
+  hours: z.number().positive().max(24),
+  loggedOn: isoDateSchema.optional(),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+export type TaskInput = z.infer<typeof taskInputSchema>;
+export type TaskUpdate = z.infer<typeof taskUpdateSchema>;
+export type TimeEntryInput = z.infer<typeof timeEntryInputSchema>;
+
+export interface ImplementationPlan {
+  id: string;
+  blueprintId: string;
+  createdBy: string | null;
+  startDate: string;
+  createdAt: string;
+}
+
+export interface ImplementationTask {
+  id: string;
+  planId: string;
+  source: ImplementationTaskSource;
+  sourceKey: string | null;
+  title: string;
+  description: string | null;
+  category: string;
+  ownerId: string | null;
+  status: ImplementationTaskStatus;
+  progressPercentage: number;
+  estimatedHours: number | null;
+  actualHours: number;
+  dueDate: string | null;
+  completedAt: string | null;
+  sortOrder: number;
+}
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  userId: string | null;
+  hours: number;
+  loggedOn: string;
+  note: string | null;
+  createdAt: string;
+}
+
+/**
+ * A task generated from the blueprint, before it is stored
+ */
+export interface PlanTaskDraft {
+  source: Exclude<ImplementationTaskSource, 'custom'>;
+  sourceKey: string;
+  title: string;
+  description: string | null;
+  category: string;
+  estimatedHours: number | null;
+  dueDate: string | null;
+  sortOrder: number;
+}
+
+interface PlanRow {
+  id: string;
+  blueprint_id: string;
+  created_by: string | null;
+  start_date: string;
+  created_at: string;
+}
+
+interface TaskRow {
+  id: string;
+  plan_id: string;
+  source: ImplementationTaskSource;
+  source_key: string | null;
+  title: string;
+  description: string | null;
+  category: string;
+  owner_id: string | null;
+  status: ImplementationTaskStatus;
+  progress_percentage: number;
+  // NUMERIC columns come back as strings
+  estimated_hours: number | string | null;
+  actual_hours: number | string;
+  due_date: string | null;
+  completed_at: string | null;
+  sort_order: number;
+}
+
+interface TimeEntryRow {
+  id: string;
+  task_id: string;
+  user_id: string | null;
+  hours: number | string;
+  logged_on: string;
+  note: string | null;
+  created_at: string;
+}
+
+const PLAN_COLUMNS = 'id, blueprint_id, created_by, start_date, created_at';
+const TASK_COLUMNS =
+  'id, plan_id, source, source_key, title, description, category, owner_id, status, progress_percentage, estimated_hours, actual_hours, due_date, completed_at, sort_order';
+const TIME_ENTRY_COLUMNS = 'id, task_id, user_id, hours, logged_on, note, created_at';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toPlan(row: PlanRow): ImplementationPlan {
+  return {
+    id: row.id,
+    blueprintId: row.blueprint_id,
+    createdBy: row.created_by,
+    startDate: row.start_date,
+    createdAt: row.created_at,
+  };
+}
+
+function toTask(row: TaskRow): ImplementationTask {
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    source: row.source,
+    sourceKey: row.source_key,
+    title: row.title,
+    description: row.description,
+    category: row.category,
+    ownerId: row.owner_id,
+    status: row.status,
+    progressPercentage: row.progress_percentage,
+    estimatedHours: row.estimated_hours === null ? null : Number(row.estimated_hours),
+    actualHours: Number(row.actual_hours),
+    dueDate: row.due_date,
+    completedAt: row.completed_at,
+    sortOrder: row.sort_order,
+  };
+}
+
+function toTimeEntry(row: TimeEntryRow): TimeEntry {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    userId: row.user_id,
+    hours: Number(row.hours),
+    loggedOn: row.logged_on,
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
+
+function toTaskRow(input: TaskUpdate): Partial<TaskRow> {
+  const row: Partial<TaskRow> = {};
+  if (input.title !== undefined) row.title = input.title;
+  if (input.description !== undefined) row.description = input.description;
+  if (input.category !== undefined) row.category = input.category;
+  if (input.ownerId !== undefined) row.owner_id = input.ownerId;
+  if (input.dueDate !== undefined) row.due_date = input.dueDate;
+  if (input.estimatedHours !== undefined) row.estimated_hours = input.estimatedHours;
+  if (input.status !== undefined) row.status = input.status;
+  if (input.progressPercentage !== undefined) row.progress_percentage = input.progressPercentage;
+  return row;
+}
+
+/**
+ * Parse a YYYY-MM-DD date (optionally followed by a time) as UTC midnight,
+ * or null if it isn't one
+ */
+export function parsePlanDate(value: string | null | undefined): number | null {
+  const match = value?.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+  if (!match) return null;
+  const time = Date.parse(`${match[1]}T00:00:00Z`);
+  return Number.isNaN(time) ? null : time;
+}
+
+export function formatPlanDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Hours of effort in a duration such as "2 hours", "90 minutes" or
+ * "1-2 hrs" (ranges use the upper bound). Calendar durations like "2 weeks"
+ * say nothing about effort and return null.
+ */
+export function parseDurationHours(duration: string | null | undefined): number | null {
+  const match = duration
+    ?.toLowerCase()
+    .match(
+      /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(minutes?|mins?|hours?|hrs?|h)\b/
+    );
+  if (!match) return null;
+
+  const amount = Number(match[2] ?? match[1]);
+  const hours = match[3].startsWith('m') ? amount / 60 : amount;
+  return Math.round(hours * 100) / 100;
+}
+
+function moduleHours(module: Module): number | null {
+  const own = parseDurationHours(module.duration);
+  if (own !== null) return own;
+
+  // Modules measured in weeks: add up the activities that have an effort
+  const activityHours = (module.learning_activities ?? [])
+    .map((activity) => parseDurationHours(activity.duration))
+    .filter((hours): hours is number => hours !== null);
+  if (activityHours.length === 0) return null;
+
+  return Math.round(activityHours.reduce((sum, hours) => sum + hours, 0) * 100) / 100;
+}
+
+/**
+ * Tasks for a new implementation plan: one per content outline module and
+ * one per implementation timeline milestone. Milestones are due when their
+ * phase ends; modules are spread evenly between the plan start and the end
+ * of the timeline, or left without a due date when the timeline has no dates.
+ */
+export function buildPlanTasks(blueprint: BlueprintJSON, startDate: string): PlanTaskDraft[] {
+  const modules = blueprint.content_outline?.modules ?? [];
+  const phases = blueprint.implementation_timeline?.phases ?? [];
+
+  const start = parsePlanDate(startDate);
+  const phaseEnds = phases
+    .map((phase) => parsePlanDate(phase.end_date))
+    .filter((time): time is number => time !== null);
+  const end = phaseEnds.length > 0 ? Math.max(...phaseEnds) : null;
+
+  const moduleTasks: PlanTaskDraft[] = modules.map((module, index) => {
+    let dueDate: string | null = null;
+    if (start !== null && end !== null && end >= start) {
+      const days = Math.round((end - start) / DAY_MS);
+      dueDate = formatPlanDate(start + Math.round((days * (index + 1)) / modules.length) * DAY_MS);
+    }
+
+    return {
+      source: 'module',
+      sourceKey: `module:${module.module_id || index + 1}`,
+      title: module.title || `Module ${index + 1}`,
+      description: module.description || null,
+      category: MODULE_TASK_CATEGORY,
+      estimatedHours: moduleHours(module),
+      dueDate,
+      sortOrder: 0,
+    };
+  });
+
+  const milestoneTasks: PlanTaskDraft[] = phases.flatMap((phase, phaseIndex) => {
+    const phaseEnd = parsePlanDate(phase.end_date);
+    return (phase.milestones ?? [])
+      .filter((milestone) => milestone?.trim())
+      .map((milestone, milestoneIndex) => ({
+        source: 'milestone' as const,
+        sourceKey: `milestone:${phaseIndex + 1}:${milestoneIndex + 1}`,
+        title: milestone.trim(),
+        description: null,
+        category: phase.phase || `Phase ${phaseIndex + 1}`,
+        estimatedHours: null,
+        dueDate: phaseEnd === null ? null : formatPlanDate(phaseEnd),
+        sortOrder: 0,
+      }));
+  });
+
+  return [...moduleTasks, ...milestoneTasks].map((task, index) => ({
+    ...task,
+    sortOrder: index,
+  }));
+}
+
+/**
+ * Implementation plans of blueprints: tasks, owners, due dates, status and
+ * the hours logged against them. Access follows the blueprint (viewers read,
+ * editors write) and is enforced by RLS as well as in the routes.
+ */
+export class ImplementationPlanService {
+  static async getPlan(
+    supabase: SupabaseClient,
+    blueprintId: string
+  ): Promise<ImplementationPlan | null> {
+    const { data, error } = await supabase
+      .from('implementation_plans')
+      .select(PLAN_COLUMNS)
+      .eq('blueprint_id', blueprintId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading implementation plan:', error);
+      throw new Error('Failed to load implementation plan');
+    }
+
+    return data ? toPlan(data as PlanRow) : null;
+  }
+
+  static async createPlan(
+    supabase: SupabaseClient,
+    plan: { blueprintId: string; createdBy: string; startDate: string; tasks: PlanTaskDraft[] }
+  ): Promise<ImplementationPlan> {
+    const { data, error } = await supabase
+      .from('implementation_plans')
+      .insert({
+        blueprint_id: plan.blueprintId,
+        created_by: plan.createdBy,
+        start_date: plan.startDate,
+      })
+      .select(PLAN_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Error creating implementation plan:', error);
+      throw new Error(
+        error?.code === '23505'
+          ? 'This blueprint already has an implementation plan'
+          : 'Failed to create implementation plan'
+      );
+    }
+
+    const created = toPlan(data as PlanRow);
+
+    try {
+      await ImplementationPlanService.addDraftTasks(supabase, created, plan.tasks);
+    } catch (taskError) {
+      // Don't leave an empty plan behind that blocks a retry
+      await supabase.from('implementation_plans').delete().eq('id', created.id);
+      throw taskError;
+    }
+
+    return created;
+  }
+
+  /**
+   * Add generated tasks the plan doesn't have yet, e.g. after the blueprint
+   * was regenerated. Existing tasks keep their owner, status and hours.
+   * Returns the number of tasks added.
+   */
+  static async addDraftTasks(
+    supabase: SupabaseClient,
+    plan: ImplementationPlan,
+    drafts: PlanTaskDraft[]
+  ): Promise<number> {
+    if (drafts.length === 0) return 0;
+
+    const { data, error } = await supabase
+      .from('implementation_tasks')
+      .upsert(
+        drafts.map((draft) => ({
+          plan_id: plan.id,
+          blueprint_id: plan.blueprintId,
+          source: draft.source,
+          source_key: draft.sourceKey,
+          title: draft.title,
+          description: draft.description,
+          category: draft.category,
+          estimated_hours: draft.estimatedHours,
+          due_date: draft.dueDate,
+          sort_order: draft.sortOrder,
+        })),
+        { onConflict: 'plan_id,source_key', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (error) {
+      console.error('Error adding implementation tasks:', error);
+      throw new Error('Failed to add implementation tasks');
+    }
+
+    return (data ?? []).length;
+  }
+
+  static async listTasks(supabase: SupabaseClient, planId: string): Promise<ImplementationTask[]> {
+    const { data, error } = await supabase
+      .from('implementation_tasks')
+      .select(TASK_COLUMNS)
+      .eq('plan_id', planId)
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error listing implementation tasks:', error);
+      throw new Error('Failed to list implementation tasks');
+    }
+
+    return (data ?? []).map((row) => toTask(row as TaskRow));
+  }
+
+  static async getTask(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    taskId: string
+  ): Promise<ImplementationTask | null> {
+    const { data, error } = await supabase
+      .from('implementation_tasks')
+      .select(TASK_COLUMNS)
+      .eq('id', taskId)
+      .eq('blueprint_id', blueprintId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading implementation task:', error);
+      throw new Error('Failed to load implementation task');
+    }
+
+    return data ? toTask(data as TaskRow) : null;
+  }
+
+  static async createTask(
+    supabase: SupabaseClient,
+    plan: ImplementationPlan,
+    input: TaskInput
+  ): Promise<ImplementationTask> {
+    const { data: last } = await supabase
+      .from('implementation_tasks')
+      .select('sort_order')
+      .eq('plan_id', plan.id)
+      .order('sort_order', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('implementation_tasks')
+      .insert({
+        ...toTaskRow(input),
+        plan_id: plan.id,
+        blueprint_id: plan.blueprintId,
+        source: 'custom',
+        sort_order: ((last as { sort_order: number } | null)?.sort_order ?? -1) + 1,
+      })
+      .select(TASK_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Error creating implementation task:', error);
+      throw new Error('Failed to create implementation task');
+    }
+
+    return toTask(data as TaskRow);
+  }
+
+  static async updateTask(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    taskId: string,
+    changes: TaskUpdate
+  ): Promise<ImplementationTask | null> {
+    const { data, error } = await supabase
+      .from('implementation_tasks')
+      .update(toTaskRow(changes))
+      .eq('id', taskId)
+      .eq('blueprint_id', blueprintId)
+      .select(TASK_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating implementation task:', error);
+      throw new Error('Failed to update implementation task');
+    }
+
+    return data ? toTask(data as TaskRow) : null;
+  }
+
+  /**
+   * Returns false when no task with that id exists on the blueprint
+   */
+  static async deleteTask(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    taskId: string
+  ): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('implementation_tasks')
+      .delete()
+      .eq('id', taskId)
+      .eq('blueprint_id', blueprintId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting implementation task:', error);
+      throw new Error('Failed to delete implementation task');
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  static async listTimeEntries(
+    supabase: SupabaseClient,
+    blueprintId: string
+  ): Promise<TimeEntry[]> {
+    const { data, error } = await supabase
+      .from('implementation_time_entries')
+      .select(TIME_ENTRY_COLUMNS)
+      .eq('blueprint_id', blueprintId)
+      .order('logged_on', { ascending: true });
+
+    if (error) {
+      console.error('Error listing time entries:', error);
+      throw new Error('Failed to list time entries');
+    }
+
+    return (data ?? []).map((row) => toTimeEntry(row as TimeEntryRow));
+  }
+
+  /**
+   * Log hours against a task. The task's actual_hours is recalculated by a
+   * database trigger.
+   */
+  static async logTime(
+    supabase: SupabaseClient,
+    entry: { blueprintId: string; taskId: string; userId: string } & TimeEntryInput
+  ): Promise<TimeEntry> {
+    const { data, error } = await supabase
+      .from('implementation_time_entries')
+      .insert({
+        task_id: entry.taskId,
+        blueprint_id: entry.blueprintId,
+        user_id: entry.userId,
+        hours: entry.hours,
+        logged_on: entry.loggedOn ?? formatPlanDate(Date.now()),
+        note: entry.note ?? null,
+      })
+      .select(TIME_ENTRY_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Error logging time:', error);
+      throw new Error('Failed to log time');
+    }
+
+    return toTimeEntry(data as TimeEntryRow);
+  }
+}
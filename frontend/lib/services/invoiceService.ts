@@ -0,0 +1,382 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getGstSellerConfig, type GstSellerConfig } from '@/lib/config/gst';
+
+export interface BillingAddress {
+  line1: string;
+  line2?: string | null;
+  city: string;
+  postalCode: string;
+}
+
+/**
+ * Customer billing details printed on tax invoices
+ */
+export interface BillingProfile {
+  legalName: string | null;
+  gstin: string | null;
+  address: BillingAddress | null;
+  /** Two-digit GST state code of the billing address */
+  stateCode: string | null;
+}
+
+export interface GstSplit {
+  /** Amounts in paise */
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalAmount: number;
+  rate: number;
+  placeOfSupply: string;
+  intraState: boolean;
+}
+
+export interface InvoiceParty {
+  legalName: string;
+  gstin: string | null;
+  address: string;
+  stateCode: string;
+  email?: string | null;
+}
+
+export interface Invoice {
+  id: string;
+  invoiceNumber: string;
+  financialYear: string;
+  razorpayPaymentId: string;
+  razorpaySubscriptionId: string | null;
+  description: string;
+  currency: string;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalAmount: number;
+  taxRate: number;
+  placeOfSupply: string;
+  buyer: InvoiceParty;
+  seller: InvoiceParty & { sacCode?: string };
+  issuedAt: string;
+}
+
+export interface InvoiceRow {
+  id: string;
+  invoice_number: string;
+  financial_year: string;
+  razorpay_payment_id: string;
+  razorpay_subscription_id: string | null;
+  description: string;
+  currency: string;
+  taxable_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number;
+  tax_rate: number | string;
+  place_of_supply: string;
+  buyer: PartyRow;
+  seller: PartyRow & { sac_code?: string };
+  issued_at: string;
+}
+
+interface PartyRow {
+  legal_name: string;
+  gstin: string | null;
+  address: string;
+  state_code: string;
+  email?: string | null;
+}
+
+interface BillingProfileRow {
+  billing_legal_name: string | null;
+  gstin: string | null;
+  billing_address: {
+    line1: string;
+    line2?: string | null;
+    city: string;
+    postal_code: string;
+  } | null;
+  billing_state_code: string | null;
+  full_name?: string | null;
+  email?: string | null;
+}
+
+const BILLING_PROFILE_COLUMNS =
+  'billing_legal_name, gstin, billing_address, billing_state_code, full_name, email';
+
+/**
+ * Split a charged amount into taxable value and GST. Prices are GST inclusive,
+ * so the tax is backed out of the total. A buyer billed in the seller's state
+ * pays CGST and SGST at half the rate each; anyone else pays IGST. Charges in
+ * other currencies are exports and zero-rated.
+ */
+export function calculateGstSplit(params: {
+  totalAmount: number;
+  buyerStateCode: string;
+  sellerStateCode: string;
+  rate: number;
+  currency?: string;
+}): GstSplit {
+  const { totalAmount, buyerStateCode, sellerStateCode } = params;
+  const rate = (params.currency ?? 'INR') === 'INR' ? params.rate : 0;
+  const intraState = buyerStateCode === sellerStateCode;
+
+  const taxableAmount = Math.round((totalAmount * 100) / (100 + rate));
+  const tax = totalAmount - taxableAmount;
+  const cgstAmount = intraState ? Math.round(tax / 2) : 0;
+
+  return {
+    taxableAmount,
+    cgstAmount,
+    sgstAmount: intraState ? tax - cgstAmount : 0,
+    igstAmount: intraState ? 0 : tax,
+    totalAmount,
+    rate,
+    placeOfSupply: buyerStateCode,
+    intraState,
+  };
+}
+
+/**
+ * Place of supply of a buyer: the GSTIN state for registered buyers, then the
+ * billing address state, then the seller's state when nothing is on file.
+ */
+export function resolveBuyerStateCode(profile: BillingProfile, sellerStateCode: string): string {
+  return profile.gstin?.slice(0, 2) || profile.stateCode || sellerStateCode;
+}
+
+export function formatBillingAddress(address: BillingAddress | null): string {
+  if (!address) return '';
+  return [address.line1, address.line2, `${address.city} ${address.postalCode}`.trim()]
+    .filter(Boolean)
+    .join(', ');
+}
+
+function toBillingProfile(row: BillingProfileRow | null): BillingProfile {
+  return {
+    legalName: row?.billing_legal_name ?? null,
+    gstin: row?.gstin ?? null,
+    address: row?.billing_address
+      ? {
+          line1: row.billing_address.line1,
+          line2: row.billing_address.line2 ?? null,
+          city: row.billing_address.city,
+          postalCode: row.billing_address.postal_code,
+        }
+      : null,
+    stateCode: row?.billing_state_code ?? null,
+  };
+}
+
+function toParty(row: PartyRow): InvoiceParty {
+  return {
+    legalName: row.legal_name,
+    gstin: row.gstin,
+    address: row.address,
+    stateCode: row.state_code,
+    email: row.email ?? null,
+  };
+}
+
+export function toInvoice(row: InvoiceRow): Invoice {
+  return {
+    id: row.id,
+    invoiceNumber: row.invoice_number,
+    financialYear: row.financial_year,
+    razorpayPaymentId: row.razorpay_payment_id,
+    razorpaySubscriptionId: row.razorpay_subscription_id,
+    description: row.description,
+    currency: row.currency,
+    taxableAmount: row.taxable_amount,
+    cgstAmount: row.cgst_amount,
+    sgstAmount: row.sgst_amount,
+    igstAmount: row.igst_amount,
+    totalAmount: row.total_amount,
+    taxRate: Number(row.tax_rate),
+    placeOfSupply: row.place_of_supply,
+    buyer: toParty(row.buyer),
+    seller: { ...toParty(row.seller), sacCode: row.seller.sac_code },
+    issuedAt: row.issued_at,
+  };
+}
+
+/**
+ * Billing details and tax invoices. Invoices are issued from the payment
+ * webhooks with the service role client; customers read their own through RLS.
+ */
+export class InvoiceService {
+  static async getBillingProfile(
+    supabase: SupabaseClient,
+    userId: string
+  ): Promise<BillingProfile> {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select(BILLING_PROFILE_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching billing profile:', error);
+      throw new Error('Failed to fetch billing profile');
+    }
+
+    return toBillingProfile(data as BillingProfileRow | null);
+  }
+
+  static async updateBillingProfile(
+    supabase: SupabaseClient,
+    userId: string,
+    profile: BillingProfile
+  ): Promise<BillingProfile> {
+    const gstin = profile.gstin ? profile.gstin.trim().toUpperCase() : null;
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .update({
+        billing_legal_name: profile.legalName,
+        gstin,
+        billing_address: profile.address
+          ? {
+              line1: profile.address.line1,
+              line2: profile.address.line2 ?? null,
+              city: profile.address.city,
+              postal_code: profile.address.postalCode,
+            }
+          : null,
+        // A GSTIN fixes the state the buyer is registered in
+        billing_state_code: gstin?.slice(0, 2) ?? profile.stateCode,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId)
+      .select(BILLING_PROFILE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error updating billing profile:', error);
+      throw new Error('Failed to update billing profile');
+    }
+
+    return toBillingProfile(data as BillingProfileRow);
+  }
+
+  /**
+   * Issue the tax invoice of a successful payment. Safe to call more than once
+   * for the same payment: the existing invoice is returned.
+   */
+  static async issueForPayment(
+    supabase: SupabaseClient,
+    params: {
+      userId: string;
+      razorpayPaymentId: string;
+      razorpaySubscriptionId?: string | null;
+      amount: number;
+      currency: string;
+      description: string;
+      seller?: GstSellerConfig;
+    }
+  ): Promise<Invoice> {
+    const seller = params.seller ?? getGstSellerConfig();
+
+    const { data: profileRow, error: profileError } = await supabase
+      .from('user_profiles')
+      .select(BILLING_PROFILE_COLUMNS)
+      .eq('user_id', params.userId)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('Error fetching billing profile:', profileError);
+      throw new Error('Failed to issue invoice');
+    }
+
+    const row = profileRow as BillingProfileRow | null;
+    const profile = toBillingProfile(row);
+    const buyerStateCode = resolveBuyerStateCode(profile, seller.stateCode);
+    const split = calculateGstSplit({
+      totalAmount: params.amount,
+      buyerStateCode,
+      sellerStateCode: seller.stateCode,
+      rate: seller.rate,
+      currency: params.currency,
+    });
+
+    const buyer: PartyRow = {
+      legal_name: profile.legalName || row?.full_name || row?.email || 'Customer',
+      gstin: profile.gstin,
+      address: formatBillingAddress(profile.address),
+      state_code: buyerStateCode,
+      email: row?.email ?? null,
+    };
+
+    const { data, error } = await supabase.rpc('issue_invoice', {
+      p_user_id: params.userId,
+      p_razorpay_payment_id: params.razorpayPaymentId,
+      p_razorpay_subscription_id: params.razorpaySubscriptionId ?? null,
+      p_description: params.description,
+      p_currency: params.currency,
+      p_taxable_amount: split.taxableAmount,
+      p_cgst_amount: split.cgstAmount,
+      p_sgst_amount: split.sgstAmount,
+      p_igst_amount: split.igstAmount,
+      p_tax_rate: split.rate,
+      p_place_of_supply: split.placeOfSupply,
+      p_buyer: buyer,
+      p_seller: {
+        legal_name: seller.legalName,
+        gstin: seller.gstin,
+        address: seller.address,
+        state_code: seller.stateCode,
+        sac_code: seller.sacCode,
+      },
+    });
+
+    if (error || !data) {
+      console.error('Error issuing invoice:', error);
+      throw new Error('Failed to issue invoice');
+    }
+
+    return toInvoice(data as InvoiceRow);
+  }
+
+  static async listForUser(
+    supabase: SupabaseClient,
+    userId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ invoices: Invoice[]; total: number }> {
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+
+    const { data, error, count } = await supabase
+      .from('invoices')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('issued_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Error fetching invoices:', error);
+      throw new Error('Failed to fetch invoices');
+    }
+
+    return { invoices: ((data ?? []) as InvoiceRow[]).map(toInvoice), total: count ?? 0 };
+  }
+
+  static async getForUser(
+    supabase: SupabaseClient,
+    userId: string,
+    invoiceId: string
+  ): Promise<Invoice | null> {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching invoice:', error);
+      throw new Error('Failed to fetch invoice');
+    }
+
+    return data ? toInvoice(data as InvoiceRow) : null;
+  }
+}
@@ -0,0 +1,197 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { calculateLlmCost } from '@/lib/config/llmPricing';
+import { getPlanPrice } from '@/lib/config/razorpayPlans';
+import type { SubscriptionTier } from '@/types/razorpay';
+
+export type LlmUsagePurpose =
+  | 'blueprint'
+  | 'dynamic_questions'
+  | 'section_regeneration'
+  | 'material_summary';
+
+/**
+ * Who an LLM call is billed to; passed with each gateway request
+ */
+export interface LlmUsageContext {
+  userId: string;
+  blueprintId?: string | null;
+  purpose: LlmUsagePurpose;
+}
+
+export interface LlmUsageEntry extends LlmUsageContext {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  /** False when the completion was unusable and the gateway moved on */
+  success: boolean;
+}
+
+export interface UserLlmUsage {
+  userId: string;
+  tier: string;
+  callCount: number;
+  blueprintCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  costInr: number;
+  /** LLM cost per blueprint that incurred any cost (INR) */
+  costPerBlueprintInr: number;
+}
+
+export interface TierLlmUsage {
+  tier: string;
+  userCount: number;
+  callCount: number;
+  blueprintCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  costInr: number;
+  costPerUserInr: number;
+  costPerBlueprintInr: number;
+  /** Monthly plan price per user or seat (INR), 0 for free */
+  monthlyPriceInr: number;
+  /** Monthly price minus the average LLM cost per user scaled to 30 days */
+  marginPerUserInr: number;
+}
+
+interface UserLlmUsageRow {
+  user_id: string;
+  subscription_tier: string;
+  call_count: number;
+  blueprint_count: number;
+  input_tokens: number | string;
+  output_tokens: number | string;
+  cost_usd: number | string;
+  cost_inr: number | string;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function toUserLlmUsage(row: UserLlmUsageRow): UserLlmUsage {
+  const costInr = Number(row.cost_inr);
+  return {
+    userId: row.user_id,
+    tier: row.subscription_tier,
+    callCount: row.call_count,
+    blueprintCount: row.blueprint_count,
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    costUsd: round(Number(row.cost_usd), 4),
+    costInr: round(costInr, 2),
+    costPerBlueprintInr: row.blueprint_count > 0 ? round(costInr / row.blueprint_count, 2) : 0,
+  };
+}
+
+/**
+ * Per-generation LLM token and cost ledger. Rows are written with the service
+ * role from the provider gateway; reads are admin aggregates.
+ */
+export class LlmUsageService {
+  static async recordUsage(supabase: SupabaseClient, entry: LlmUsageEntry): Promise<void> {
+    const cost = calculateLlmCost(entry.model, entry.inputTokens, entry.outputTokens);
+
+    const { error } = await supabase.from('llm_usage_ledger').insert({
+      user_id: entry.userId,
+      blueprint_id: entry.blueprintId ?? null,
+      purpose: entry.purpose,
+      provider: entry.provider,
+      model: entry.model,
+      input_tokens: entry.inputTokens,
+      output_tokens: entry.outputTokens,
+      latency_ms: Math.max(0, Math.round(entry.latencyMs)),
+      cost_usd: cost.usd,
+      cost_inr: cost.inr,
+      success: entry.success,
+    });
+
+    if (error) {
+      console.error('Error recording LLM usage:', error);
+      throw new Error('Failed to record LLM usage');
+    }
+  }
+
+  /**
+   * Per-user totals since `since` (all time when null), optionally for
+   * specific users only
+   */
+  static async getUsageByUser(
+    supabase: SupabaseClient,
+    options: { since?: Date | null; userIds?: string[] } = {}
+  ): Promise<UserLlmUsage[]> {
+    const { data, error } = await supabase.rpc('get_llm_usage_by_user', {
+      p_since: options.since?.toISOString() ?? null,
+      p_user_ids: options.userIds ?? null,
+    });
+
+    if (error) {
+      console.error('Error fetching LLM usage:', error);
+      throw new Error('Failed to fetch LLM usage');
+    }
+
+    return ((data ?? []) as UserLlmUsageRow[]).map(toUserLlmUsage);
+  }
+
+  /**
+   * Roll per-user totals up by subscription tier, with the tier's monthly
+   * price for a profitability check
+   */
+  static summarizeByTier(users: UserLlmUsage[], windowDays: number): TierLlmUsage[] {
+    const byTier = new Map<string, UserLlmUsage[]>();
+    for (const user of users) {
+      byTier.set(user.tier, [...(byTier.get(user.tier) ?? []), user]);
+    }
+
+    return Array.from(byTier, ([tier, members]) => {
+      const sum = (pick: (user: UserLlmUsage) => number) =>
+        members.reduce((total, user) => total + pick(user), 0);
+
+      const costInr = sum((user) => user.costInr);
+      const blueprintCount = sum((user) => user.blueprintCount);
+      const costPerUserInr = costInr / members.length;
+      const monthlyPriceInr = getPlanPrice(tier as SubscriptionTier, 'monthly') / 100;
+      // Scale the window's cost to 30 days so it compares with the monthly price
+      const monthlyCostPerUser = costPerUserInr * (30 / Math.max(windowDays, 1));
+
+      return {
+        tier,
+        userCount: members.length,
+        callCount: sum((user) => user.callCount),
+        blueprintCount,
+        inputTokens: sum((user) => user.inputTokens),
+        outputTokens: sum((user) => user.outputTokens),
+        costUsd: round(
+          sum((user) => user.costUsd),
+          4
+        ),
+        costInr: round(costInr, 2),
+        costPerUserInr: round(costPerUserInr, 2),
+        costPerBlueprintInr: blueprintCount > 0 ? round(costInr / blueprintCount, 2) : 0,
+        monthlyPriceInr,
+        marginPerUserInr: round(monthlyPriceInr - monthlyCostPerUser, 2),
+      };
+    }).sort((a, b) => b.costInr - a.costInr);
+  }
+}
+
+let ledgerClient: SupabaseClient | null = null;
+
+/**
+ * Record a call with the service-role client. Bookkeeping must never fail a
+ * generation, so errors are logged and swallowed.
+ */
+export async function recordLlmUsage(entry: LlmUsageEntry): Promise<void> {
+  try {
+    ledgerClient ??= getSupabaseAdminClient() as unknown as SupabaseClient;
+    await LlmUsageService.recordUsage(ledgerClient, entry);
+  } catch (error) {
+    console.warn('[LLM Usage] Failed to record usage:', (error as Error).message);
+  }
+}
@@ -0,0 +1,348 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceLogger } from '@/lib/logging';
+import { renderNotification } from '@/lib/notifications/templates';
+import { getEmailTransport, type EmailTransport } from '@/lib/notifications/transports';
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_IDS,
+  type NotificationChannel,
+  type NotificationPayloads,
+  type NotificationType,
+} from '@/lib/notifications/types';
+
+const logger = createServiceLogger('notifications');
+
+export type EmailDeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link: string | null;
+  data: Record<string, unknown>;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationRow {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link: string | null;
+  data: Record<string, unknown> | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationPreference {
+  type: NotificationType;
+  email: boolean;
+  inApp: boolean;
+}
+
+interface NotificationPreferenceRow {
+  type: string;
+  email_enabled: boolean;
+  in_app_enabled: boolean;
+}
+
+export interface NotifyParams<T extends NotificationType> {
+  userId: string;
+  type: T;
+  data: NotificationPayloads[T];
+  /** Makes repeated deliveries of the same event a no-op */
+  dedupeKey?: string;
+}
+
+export interface NotifyResult {
+  notificationId: string | null;
+  inApp: boolean;
+  emailStatus: EmailDeliveryStatus;
+  duplicate?: boolean;
+}
+
+const NOTIFICATION_COLUMNS = 'id, type, title, body, link, data, read_at, created_at';
+
+function toNotification(row: NotificationRow): Notification {
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    body: row.body,
+    link: row.link,
+    data: row.data ?? {},
+    readAt: row.read_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Merge stored preferences over the per-type defaults. Required billing
+ * emails are always on.
+ */
+export function resolvePreferences(
+  rows: Array<{ type: string; email_enabled: boolean; in_app_enabled: boolean }>
+): NotificationPreference[] {
+  const stored = new Map(rows.map((row) => [row.type, row]));
+
+  return NOTIFICATION_TYPE_IDS.map((type) => {
+    const definition = NOTIFICATION_TYPES[type];
+    const row = stored.get(type);
+
+    return {
+      type,
+      email: definition.emailRequired ? true : (row?.email_enabled ?? definition.defaults.email),
+      inApp: row?.in_app_enabled ?? definition.defaults.inApp,
+    };
+  });
+}
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+/**
+ * In-app notifications and their emails. notify() needs the service role
+ * client since users cannot insert notifications; the inbox methods work with
+ * the user's own client.
+ */
+export class NotificationService {
+  /**
+   * Record a notification and email it, following the user's preferences.
+   * Email failures are recorded on the notification rather than thrown.
+   */
+  static async notify<T extends NotificationType>(
+    supabase: SupabaseClient,
+    params: NotifyParams<T>,
+    options: { transport?: EmailTransport } = {}
+  ): Promise<NotifyResult> {
+    const preferences = await NotificationService.getPreferences(supabase, params.userId);
+    const preference = preferences.find((pref) => pref.type === params.type)!;
+
+    if (!preference.email && !preference.inApp) {
+      return { notificationId: null, inApp: false, emailStatus: 'skipped' };
+    }
+
+    const rendered = renderNotification(params.type, params.data, getAppUrl());
+    const recipient = preference.email
+      ? await NotificationService.getUserEmail(supabase, params.userId)
+      : null;
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('notifications')
+      .insert({
+        user_id: params.userId,
+        type: params.type,
+        title: rendered.title,
+        body: rendered.body,
+        link: rendered.link,
+        data: params.data,
+        in_app: preference.inApp,
+        email_status: recipient ? 'pending' : 'skipped',
+        dedupe_key: params.dedupeKey ?? null,
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return {
+          notificationId: null,
+          inApp: preference.inApp,
+          emailStatus: 'skipped',
+          duplicate: true,
+        };
+      }
+
+      console.error('Error creating notification:', insertError);
+      throw new Error('Failed to create notification');
+    }
+
+    const notificationId = (inserted as { id: string }).id;
+
+    if (!recipient) {
+      return { notificationId, inApp: preference.inApp, emailStatus: 'skipped' };
+    }
+
+    const transport = options.transport ?? getEmailTransport();
+    let emailStatus: EmailDeliveryStatus = 'sent';
+    let emailError: string | null = null;
+
+    try {
+      await transport.send({ to: recipient, ...rendered.email });
+    } catch (error) {
+      emailStatus = 'failed';
+      emailError = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('notifications.email_failed', 'Failed to send notification email', {
+        userId: params.userId,
+        type: params.type,
+        transport: transport.name,
+        error: emailError,
+      });
+    }
+
+    const { error: updateError } = await supabase
+      .from('notifications')
+      .update({
+        email_status: emailStatus,
+        email_error: emailError,
+        emailed_at: emailStatus === 'sent' ? new Date().toISOString() : null,
+      })
+      .eq('id', notificationId);
+
+    if (updateError) {
+      console.error('Error recording notification email status:', updateError);
+    }
+
+    return { notificationId, inApp: preference.inApp, emailStatus };
+  }
+
+  static async list(
+    supabase: SupabaseClient,
+    userId: string,
+    options: { limit?: number; offset?: number; unreadOnly?: boolean } = {}
+  ): Promise<{ notifications: Notification[]; unreadCount: number }> {
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+
+    let query = supabase
+      .from('notifications')
+      .select(NOTIFICATION_COLUMNS)
+      .eq('user_id', userId)
+      .eq('in_app', true);
+
+    if (options.unreadOnly) {
+      query = query.is('read_at', null);
+    }
+
+    const [{ data, error }, unreadCount] = await Promise.all([
+      query.order('created_at', { ascending: false }).range(offset, offset + limit - 1),
+      NotificationService.getUnreadCount(supabase, userId),
+    ]);
+
+    if (error) {
+      console.error('Error listing notifications:', error);
+      throw new Error('Failed to list notifications');
+    }
+
+    return {
+      notifications: ((data ?? []) as NotificationRow[]).map(toNotification),
+      unreadCount,
+    };
+  }
+
+  static async getUnreadCount(supabase: SupabaseClient, userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('in_app', true)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error counting unread notifications:', error);
+      throw new Error('Failed to count unread notifications');
+    }
+
+    return count ?? 0;
+  }
+
+  /**
+   * Mark the given notifications, or all of them, as read
+   */
+  static async markRead(
+    supabase: SupabaseClient,
+    userId: string,
+    ids: string[] | 'all'
+  ): Promise<void> {
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (ids !== 'all') {
+      if (ids.length === 0) return;
+      query = query.in('id', ids);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      throw new Error('Failed to mark notifications as read');
+    }
+  }
+
+  static async getPreferences(
+    supabase: SupabaseClient,
+    userId: string
+  ): Promise<NotificationPreference[]> {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('type, email_enabled, in_app_enabled')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching notification preferences:', error);
+      throw new Error('Failed to fetch notification preferences');
+    }
+
+    return resolvePreferences((data ?? []) as NotificationPreferenceRow[]);
+  }
+
+  static async updatePreferences(
+    supabase: SupabaseClient,
+    userId: string,
+    updates: Array<{ type: NotificationType } & Partial<Record<NotificationChannel, boolean>>>
+  ): Promise<NotificationPreference[]> {
+    const current = await NotificationService.getPreferences(supabase, userId);
+    const now = new Date().toISOString();
+
+    const rows = updates.map((update) => {
+      const existing = current.find((pref) => pref.type === update.type)!;
+      return {
+        user_id: userId,
+        type: update.type,
+        email_enabled: NOTIFICATION_TYPES[update.type].emailRequired
+          ? true
+          : (update.email ?? existing.email),
+        in_app_enabled: update.inApp ?? existing.inApp,
+        updated_at: now,
+      };
+    });
+
+    if (rows.length > 0) {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert(rows, { onConflict: 'user_id,type' });
+
+      if (error) {
+        console.error('Error updating notification preferences:', error);
+        throw new Error('Failed to update notification preferences');
+      }
+    }
+
+    return NotificationService.getPreferences(supabase, userId);
+  }
+
+  private static async getUserEmail(
+    supabase: SupabaseClient,
+    userId: string
+  ): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('email')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching notification recipient:', error);
+      return null;
+    }
+
+    return (data as { email: string | null } | null)?.email ?? null;
+  }
+}
@@ -0,0 +1,279 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getPlanPrice, isTeamTier } from '@/lib/config/razorpayPlans';
+import type { BillingCycle, SubscriptionTier } from '@/types/razorpay';
+
+export interface PlanSelection {
+  tier: SubscriptionTier;
+  /** Billed quantity; always 1 for individual tiers */
+  seats: number;
+}
+
+export type PlanChangeDirection = 'upgrade' | 'downgrade' | 'none';
+
+export interface PlanChangeQuote {
+  current: PlanSelection;
+  target: PlanSelection;
+  billingCycle: BillingCycle;
+  direction: PlanChangeDirection;
+  /** Price per billing cycle in paise, before and after the change */
+  currentCycleAmount: number;
+  newCycleAmount: number;
+  /** Share of the current billing cycle still to run (0-1) */
+  remainingFraction: number;
+  /** Charged for the rest of the current cycle in paise; downgrades are not refunded */
+  proratedAmount: number;
+  effective: 'now' | 'cycle_end';
+  effectiveAt: string;
+  periodEnd: string;
+}
+
+/**
+ * A downgrade waiting for the end of the billing cycle
+ */
+export interface PendingPlanChange {
+  tier: SubscriptionTier;
+  seats: number;
+  planId: string;
+  planAmount: number;
+  effectiveAt: string;
+  requestedAt: string;
+  requestId: string;
+}
+
+interface PendingPlanChangeRow {
+  tier: SubscriptionTier;
+  seats: number;
+  plan_id: string;
+  plan_amount: number;
+  effective_at: string;
+  requested_at: string;
+  request_id: string;
+}
+
+export interface PlanChangeAuditEntry {
+  userId: string;
+  subscriptionId: string;
+  razorpaySubscriptionId: string;
+  quote: PlanChangeQuote;
+  requestId: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  addonId?: string | null;
+  error?: { code: string; message: string };
+}
+
+/**
+ * Normalize a selection so individual tiers always bill a single seat
+ */
+export function normalizePlanSelection(
+  tier: SubscriptionTier,
+  seats?: number | null
+): PlanSelection {
+  return { tier, seats: isTeamTier(tier) ? Math.max(seats ?? 1, 1) : 1 };
+}
+
+/**
+ * Price of a plan for one billing cycle in paise; team tiers are priced per seat
+ */
+export function getCycleAmount(selection: PlanSelection, billingCycle: BillingCycle): number {
+  return getPlanPrice(selection.tier, billingCycle) * selection.seats;
+}
+
+/**
+ * Seats recorded on a subscription row. Older rows stored metadata as a
+ * JSON-encoded string, so both shapes are accepted.
+ */
+export function readSubscriptionSeats(metadata: unknown): number | null {
+  let value = metadata;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  const seats = Number((value as { seats?: unknown } | null)?.seats);
+  return Number.isInteger(seats) && seats > 0 ? seats : null;
+}
+
+/**
+ * Quote a plan change. An upgrade (higher price per cycle) takes effect now and
+ * the difference is charged for the share of the cycle that is left; a
+ * downgrade takes effect at the end of the cycle with nothing to prorate.
+ */
+export function quotePlanChange(params: {
+  current: PlanSelection;
+  target: PlanSelection;
+  billingCycle: BillingCycle;
+  currentStart: Date;
+  currentEnd: Date;
+  now?: Date;
+}): PlanChangeQuote {
+  const { current, target, billingCycle, currentStart, currentEnd } = params;
+  const now = params.now ?? new Date();
+
+  const currentCycleAmount = getCycleAmount(current, billingCycle);
+  const newCycleAmount = getCycleAmount(target, billingCycle);
+
+  const cycleLength = currentEnd.getTime() - currentStart.getTime();
+  const remaining = cycleLength > 0 ? (currentEnd.getTime() - now.getTime()) / cycleLength : 0;
+  const remainingFraction = Math.round(Math.min(Math.max(remaining, 0), 1) * 10_000) / 10_000;
+
+  const unchanged = current.tier === target.tier && current.seats === target.seats;
+  const direction: PlanChangeDirection = unchanged
+    ? 'none'
+    : newCycleAmount >= currentCycleAmount
+      ? 'upgrade'
+      : 'downgrade';
+
+  const proratedAmount =
+    direction === 'upgrade'
+      ? Math.round((newCycleAmount - currentCycleAmount) * remainingFraction)
+      : 0;
+
+  return {
+    current,
+    target,
+    billingCycle,
+    direction,
+    currentCycleAmount,
+    newCycleAmount,
+    remainingFraction,
+    proratedAmount,
+    effective: direction === 'upgrade' ? 'now' : 'cycle_end',
+    effectiveAt: (direction === 'upgrade' ? now : currentEnd).toISOString(),
+    periodEnd: currentEnd.toISOString(),
+  };
+}
+
+export function toPendingPlanChange(row: PendingPlanChangeRow | null): PendingPlanChange | null {
+  if (!row) return null;
+  return {
+    tier: row.tier,
+    seats: row.seats,
+    planId: row.plan_id,
+    planAmount: row.plan_amount,
+    effectiveAt: row.effective_at,
+    requestedAt: row.requested_at,
+    requestId: row.request_id,
+  };
+}
+
+/**
+ * Applies tier and seat changes to the subscriptions row. The row's profile
+ * sync trigger picks up the new tier limits, and the billed workspace gets the
+ * new seat limit in the same call. These RPCs are service role only.
+ */
+export class PlanChangeService {
+  /**
+   * Move the subscription to a new plan now (upgrades)
+   */
+  static async applyChange(
+    supabase: SupabaseClient,
+    subscriptionId: string,
+    target: PlanSelection & { planId: string; planAmount: number }
+  ): Promise<void> {
+    const { error } = await supabase.rpc('apply_subscription_plan_change', {
+      p_subscription_id: subscriptionId,
+      p_tier: target.tier,
+      p_plan_id: target.planId,
+      p_plan_amount: target.planAmount,
+      p_seats: target.seats,
+    });
+
+    if (error) {
+      console.error('Error applying plan change:', error);
+      throw new Error('Failed to apply plan change');
+    }
+  }
+
+  /**
+   * Store a downgrade to apply at the end of the billing cycle. Replaces any
+   * change already pending.
+   */
+  static async scheduleChange(
+    supabase: SupabaseClient,
+    subscriptionId: string,
+    change: PendingPlanChange
+  ): Promise<void> {
+    const row: PendingPlanChangeRow = {
+      tier: change.tier,
+      seats: change.seats,
+      plan_id: change.planId,
+      plan_amount: change.planAmount,
+      effective_at: change.effectiveAt,
+      requested_at: change.requestedAt,
+      request_id: change.requestId,
+    };
+
+    const { error } = await supabase
+      .from('subscriptions')
+      .update({ pending_plan_change: row, updated_at: new Date().toISOString() })
+      .eq('subscription_id', subscriptionId);
+
+    if (error) {
+      console.error('Error scheduling plan change:', error);
+      throw new Error('Failed to schedule plan change');
+    }
+  }
+
+  /**
+   * Apply the pending change of a subscription if its cycle has ended.
+   * Returns whether a change was applied.
+   */
+  static async applyDueChange(
+    supabase: SupabaseClient,
+    razorpaySubscriptionId: string
+  ): Promise<boolean> {
+    const { data, error } = await supabase.rpc('apply_due_plan_change', {
+      p_razorpay_subscription_id: razorpaySubscriptionId,
+    });
+
+    if (error) {
+      console.error('Error applying pending plan change:', error);
+      throw new Error('Failed to apply pending plan change');
+    }
+
+    return data === true;
+  }
+
+  /**
+   * Write the change to the subscription audit log (migration 0027)
+   */
+  static async logChange(supabase: SupabaseClient, entry: PlanChangeAuditEntry): Promise<void> {
+    const { quote } = entry;
+    const { error } = await supabase.rpc('log_subscription_operation', {
+      p_user_id: entry.userId,
+      p_action: quote.direction === 'downgrade' ? 'downgrade_subscription' : 'upgrade_subscription',
+      p_subscription_id: entry.subscriptionId,
+      p_razorpay_subscription_id: entry.razorpaySubscriptionId,
+      p_previous_tier: quote.current.tier,
+      p_new_tier: quote.target.tier,
+      p_amount_cents: quote.proratedAmount,
+      p_currency: 'INR',
+      p_ip_address: entry.ipAddress ?? null,
+      p_user_agent: entry.userAgent ?? null,
+      p_request_id: entry.requestId,
+      p_details: {
+        previous_seats: quote.current.seats,
+        new_seats: quote.target.seats,
+        billing_cycle: quote.billingCycle,
+        current_cycle_amount: quote.currentCycleAmount,
+        new_cycle_amount: quote.newCycleAmount,
+        remaining_fraction: quote.remainingFraction,
+        effective: quote.effective,
+        effective_at: quote.effectiveAt,
+        addon_id: entry.addonId ?? null,
+      },
+      p_source: 'api',
+      p_error_code: entry.error?.code ?? null,
+      p_error_message: entry.error?.message ?? null,
+    });
+
+    if (error) {
+      console.error('Error logging plan change:', error);
+      throw new Error('Failed to log plan change');
+    }
+  }
+}
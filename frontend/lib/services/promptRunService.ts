@@ -0,0 +1,138 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import type { PromptAssignment } from '@/lib/prompts/experiments';
+
+export type PromptRunPurpose = 'blueprint' | 'dynamic_questions' | 'section_regeneration';
+
+/**
+ * One generation run and the prompt versions it used
+ */
+export interface PromptRunEntry {
+  blueprintId: string | null;
+  userId: string | null;
+  purpose: PromptRunPurpose;
+  prompts: PromptAssignment[];
+  success: boolean;
+  /** Responses rejected by validation during the run */
+  validationFailures: number;
+  /** The accepted response was truncated or malformed JSON that had to be repaired */
+  truncationRepaired: boolean;
+}
+
+export type PromptRunRecorder = (entry: PromptRunEntry) => Promise<void>;
+
+export interface PromptRunStats {
+  promptId: string;
+  version: string;
+  experimentId: string | null;
+  arm: string | null;
+  runCount: number;
+  successCount: number;
+  /** Runs where at least one response failed validation */
+  validationFailureRuns: number;
+  validationFailureRate: number;
+  truncationRepairs: number;
+  truncationRepairRate: number;
+  ratingCount: number;
+  /** Average satisfaction rating (1-5) on blueprints from these runs */
+  avgRating: number | null;
+}
+
+interface PromptRunStatsRow {
+  prompt_id: string;
+  prompt_version: string;
+  experiment_id: string | null;
+  arm: string | null;
+  run_count: number;
+  success_count: number;
+  validation_failure_runs: number;
+  truncation_repairs: number;
+  rating_count: number;
+  avg_rating: number | string | null;
+}
+
+function rate(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 10_000) / 10_000 : 0;
+}
+
+function toPromptRunStats(row: PromptRunStatsRow): PromptRunStats {
+  return {
+    promptId: row.prompt_id,
+    version: row.prompt_version,
+    experimentId: row.experiment_id,
+    arm: row.arm,
+    runCount: row.run_count,
+    successCount: row.success_count,
+    validationFailureRuns: row.validation_failure_runs,
+    validationFailureRate: rate(row.validation_failure_runs, row.run_count),
+    truncationRepairs: row.truncation_repairs,
+    truncationRepairRate: rate(row.truncation_repairs, row.run_count),
+    ratingCount: row.rating_count,
+    avgRating: row.avg_rating === null ? null : Number(row.avg_rating),
+  };
+}
+
+/**
+ * Prompt version outcomes. Runs are written with the service role from the
+ * generation services; the blueprint's prompt_versions is updated in the same
+ * call.
+ */
+export class PromptRunService {
+  static async recordRun(supabase: SupabaseClient, entry: PromptRunEntry): Promise<void> {
+    const { error } = await supabase.rpc('record_prompt_run', {
+      p_blueprint_id: entry.blueprintId,
+      p_user_id: entry.userId,
+      p_purpose: entry.purpose,
+      p_prompts: entry.prompts.map((prompt) => ({
+        prompt_id: prompt.promptId,
+        version: prompt.version,
+        experiment_id: prompt.experimentId,
+        arm: prompt.arm,
+      })),
+      p_success: entry.success,
+      p_validation_failures: entry.validationFailures,
+      p_truncation_repaired: entry.truncationRepaired,
+    });
+
+    if (error) {
+      console.error('Error recording prompt run:', error);
+      throw new Error('Failed to record prompt run');
+    }
+  }
+
+  /**
+   * Outcomes per prompt version and experiment arm
+   */
+  static async getRunStats(
+    supabase: SupabaseClient,
+    options: { promptId?: string; experimentId?: string; since?: Date | null } = {}
+  ): Promise<PromptRunStats[]> {
+    const { data, error } = await supabase.rpc('get_prompt_run_stats', {
+      p_prompt_id: options.promptId ?? null,
+      p_experiment_id: options.experimentId ?? null,
+      p_since: options.since?.toISOString() ?? null,
+    });
+
+    if (error) {
+      console.error('Error fetching prompt run stats:', error);
+      throw new Error('Failed to fetch prompt run stats');
+    }
+
+    return ((data ?? []) as PromptRunStatsRow[]).map(toPromptRunStats);
+  }
+}
+
+let runClient: SupabaseClient | null = null;
+
+/**
+ * Record a run with the service-role client. Like the usage ledger, this must
+ * never fail a generation, so errors are logged and swallowed.
+ */
+export async function recordPromptRun(entry: PromptRunEntry): Promise<void> {
+  try {
+    runClient ??= getSupabaseAdminClient() as unknown as SupabaseClient;
+    await PromptRunService.recordRun(runClient, entry);
+  } catch (error) {
+    console.warn('[Prompt Runs] Failed to record prompt run:', (error as Error).message);
+  }
+}
@@ -0,0 +1,270 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import {
+  buildSectionGuidance,
+  LOW_SECTION_RATING,
+  type LowSectionRating,
+  type SectionGuidance,
+  type SectionGuidanceOptions,
+} from '@/lib/prompts/sectionGuidance';
+
+export interface SectionRating {
+  id: string;
+  blueprintId: string;
+  sectionId: string;
+  rating: number;
+  comment: string | null;
+  blueprintVersion: number;
+  /** Prompt id -> version that generated the rated blueprint */
+  promptVersions: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SectionRatingInput {
+  blueprintId: string;
+  userId: string;
+  sectionId: string;
+  rating: number;
+  comment?: string | null;
+}
+
+export interface PromptVersionRatingStats {
+  /** blueprint.system version, or null for blueprints generated before versions were recorded */
+  promptVersion: string | null;
+  ratingCount: number;
+  avgRating: number | null;
+  lowRatingCount: number;
+}
+
+export interface SectionRatingStats {
+  sectionId: string;
+  ratingCount: number;
+  avgRating: number | null;
+  lowRatingCount: number;
+  lowRatingRate: number;
+  commentCount: number;
+  byPromptVersion: PromptVersionRatingStats[];
+}
+
+export interface SectionRatingStatsRow {
+  section_id: string;
+  prompt_version: string | null;
+  rating_count: number;
+  avg_rating: number | string | null;
+  low_rating_count: number;
+  comment_count: number;
+}
+
+interface SectionRatingRow {
+  id: string;
+  blueprint_id: string;
+  section_id: string;
+  rating: number;
+  comment: string | null;
+  blueprint_version: number;
+  prompt_versions: Record<string, string> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const RATING_COLUMNS =
+  'id, blueprint_id, section_id, rating, comment, blueprint_version, prompt_versions, created_at, updated_at';
+
+function toSectionRating(row: SectionRatingRow): SectionRating {
+  return {
+    id: row.id,
+    blueprintId: row.blueprint_id,
+    sectionId: row.section_id,
+    rating: row.rating,
+    comment: row.comment,
+    blueprintVersion: row.blueprint_version,
+    promptVersions: row.prompt_versions ?? {},
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Combine per prompt version rows into one entry per section, worst average
+ * first
+ */
+export function summarizeSectionRatings(rows: SectionRatingStatsRow[]): SectionRatingStats[] {
+  const sections = new Map<string, SectionRatingStats & { ratingSum: number }>();
+
+  for (const row of rows) {
+    const avg = row.avg_rating === null ? null : Number(row.avg_rating);
+    const section = sections.get(row.section_id) ?? {
+      sectionId: row.section_id,
+      ratingCount: 0,
+      avgRating: null,
+      lowRatingCount: 0,
+      lowRatingRate: 0,
+      commentCount: 0,
+      byPromptVersion: [],
+      ratingSum: 0,
+    };
+
+    section.ratingCount += row.rating_count;
+    section.ratingSum += (avg ?? 0) * row.rating_count;
+    section.lowRatingCount += row.low_rating_count;
+    section.commentCount += row.comment_count;
+    section.byPromptVersion.push({
+      promptVersion: row.prompt_version,
+      ratingCount: row.rating_count,
+      avgRating: avg,
+      lowRatingCount: row.low_rating_count,
+    });
+
+    sections.set(row.section_id, section);
+  }
+
+  return [...sections.values()]
+    .map(({ ratingSum, ...section }) => ({
+      ...section,
+      avgRating:
+        section.ratingCount > 0 ? Math.round((ratingSum / section.ratingCount) * 100) / 100 : null,
+      lowRatingRate:
+        section.ratingCount > 0
+          ? Math.round((section.lowRatingCount / section.ratingCount) * 10_000) / 10_000
+          : 0,
+    }))
+    .sort((a, b) => (a.avgRating ?? 6) - (b.avgRating ?? 6));
+}
+
+/**
+ * Ratings on individual blueprint sections. Users rate through their own
+ * client (RLS limits them to blueprints they can view); stats and generation
+ * guidance read every user's ratings with the service role client.
+ */
+export class SectionRatingService {
+  /**
+   * The user's latest rating for each section of a blueprint
+   */
+  static async listForUser(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    userId: string
+  ): Promise<SectionRating[]> {
+    const { data, error } = await supabase
+      .from('blueprint_section_ratings')
+      .select(RATING_COLUMNS)
+      .eq('blueprint_id', blueprintId)
+      .eq('user_id', userId)
+      .order('blueprint_version', { ascending: false });
+
+    if (error) {
+      console.error('Error listing section ratings:', error);
+      throw new Error('Failed to list section ratings');
+    }
+
+    const latest = new Map<string, SectionRating>();
+    for (const row of (data ?? []) as SectionRatingRow[]) {
+      if (!latest.has(row.section_id)) {
+        latest.set(row.section_id, toSectionRating(row));
+      }
+    }
+    return [...latest.values()];
+  }
+
+  /**
+   * Rate a section of the blueprint's current version. The database stamps
+   * the version and prompt versions; rating the same version again replaces
+   * the earlier rating.
+   */
+  static async rate(supabase: SupabaseClient, input: SectionRatingInput): Promise<SectionRating> {
+    const { data, error } = await supabase
+      .from('blueprint_section_ratings')
+      .upsert(
+        {
+          blueprint_id: input.blueprintId,
+          user_id: input.userId,
+          section_id: input.sectionId,
+          rating: input.rating,
+          comment: input.comment?.trim() || null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'blueprint_id,user_id,section_id,blueprint_version' }
+      )
+      .select(RATING_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error saving section rating:', error);
+      throw new Error('Failed to save section rating');
+    }
+
+    return toSectionRating(data as SectionRatingRow);
+  }
+
+  /**
+   * Ratings per section type, with a breakdown by blueprint prompt version
+   */
+  static async getStats(
+    supabase: SupabaseClient,
+    since: Date | null = null
+  ): Promise<SectionRatingStats[]> {
+    const { data, error } = await supabase.rpc('get_section_rating_stats', {
+      p_since: since?.toISOString() ?? null,
+    });
+
+    if (error) {
+      console.error('Error fetching section rating stats:', error);
+      throw new Error('Failed to fetch section rating stats');
+    }
+
+    return summarizeSectionRatings((data ?? []) as SectionRatingStatsRow[]);
+  }
+
+  /**
+   * Low ratings since a date, most recent first
+   */
+  static async listRecentLowRatings(
+    supabase: SupabaseClient,
+    since: Date,
+    limit = 200
+  ): Promise<LowSectionRating[]> {
+    const { data, error } = await supabase
+      .from('blueprint_section_ratings')
+      .select('section_id, user_id, rating, comment')
+      .lte('rating', LOW_SECTION_RATING)
+      .gte('updated_at', since.toISOString())
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error listing low section ratings:', error);
+      throw new Error('Failed to list low section ratings');
+    }
+
+    return (data ?? []).map((row) => ({
+      sectionId: row.section_id as string,
+      userId: row.user_id as string,
+      rating: row.rating as number,
+      comment: (row.comment as string | null) ?? null,
+    }));
+  }
+}
+
+// Guidance only reflects recent blueprints so fixed problems drop out
+const GUIDANCE_WINDOW_DAYS = 30;
+
+/**
+ * Negative guidance for the blueprint prompt from recent low ratings, read
+ * with the service role client. Guidance is optional, so errors are logged
+ * and an empty list returned.
+ */
+export async function loadSectionGuidance(
+  options: SectionGuidanceOptions = {},
+  supabase?: SupabaseClient
+): Promise<SectionGuidance[]> {
+  try {
+    const client = supabase ?? (getSupabaseAdminClient() as unknown as SupabaseClient);
+    const since = new Date(Date.now() - GUIDANCE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const ratings = await SectionRatingService.listRecentLowRatings(client, since);
+    return buildSectionGuidance(ratings, options);
+  } catch (error) {
+    console.warn('[Section Ratings] Failed to load guidance:', (error as Error).message);
+    return [];
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Section Regeneration Service
+ * Rewrites a single blueprint section from a user instruction
+ * Uses the same provider gateway cascade as full generation
+ */
+
+import { ProviderGateway, ProviderGatewayError, getProviderGateway } from '@/lib/ai-sdk/gateway';
+import { getClaudeConfig } from '@/lib/claude/config';
+import {
+  buildSectionRegenerationPrompt,
+  type SectionRegenerationContext,
+} from '@/lib/claude/prompts';
+import { needsJsonRepair, validateAndNormalizeSection } from '@/lib/claude/validation';
+import { resolvePrompt } from '@/lib/prompts/experiments';
+import { recordPromptRun } from '@/lib/services/promptRunService';
+import { sanitizeForLLM } from '@/lib/validation/dataIntegrity';
+import { createServiceLogger } from '@/lib/logging';
+
+const logger = createServiceLogger('blueprint-generation');
+
+// A single section is far smaller than a full blueprint
+const SECTION_MAX_TOKENS = 6000;
+
+export interface SectionRegenerationResult {
+  success: boolean;
+  section: Record<string, unknown> | null;
+  metadata: {
+    model: string;
+    duration: number;
+    fallbackUsed: boolean;
+    attempts: number;
+  };
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+  error?: string;
+}
+
+export class SectionRegenerationService {
+  private gateway: ProviderGateway;
+  private config: ReturnType<typeof getClaudeConfig>;
+
+  constructor(gateway?: ProviderGateway) {
+    this.config = getClaudeConfig();
+    this.gateway = gateway ?? getProviderGateway();
+  }
+
+  /**
+   * Regenerate one section; a response that is not a valid section moves the
+   * request to the next provider in the cascade
+   */
+  async regenerate(context: SectionRegenerationContext): Promise<SectionRegenerationResult> {
+    const startTime = Date.now();
+    const baseMeta = {
+      blueprintId: context.blueprintId,
+      userId: context.userId,
+      sectionId: context.sectionId,
+    };
+
+    const userPrompt = buildSectionRegenerationPrompt({
+      ...context,
+      staticAnswers: sanitizeForLLM(context.staticAnswers || {}),
+      dynamicAnswers: sanitizeForLLM(context.dynamicAnswers || {}),
+    });
+
+    const { text: systemPrompt, ...promptAssignment } = resolvePrompt(
+      'section_regeneration.system',
+      context.blueprintId
+    );
+    let validationFailures = 0;
+    let truncationRepaired = false;
+    const recordRun = (success: boolean) =>
+      recordPromptRun({
+        blueprintId: context.blueprintId,
+        userId: context.userId,
+        purpose: 'section_regeneration',
+        prompts: [promptAssignment],
+        success,
+        validationFailures,
+        truncationRepaired,
+      });
+
+    logger.info('blueprint.section_regeneration.started', 'Section regeneration started', {
+      ...baseMeta,
+      instructionLength: context.instruction.length,
+      promptVersion: promptAssignment.version,
+    });
+
+    try {
+      const response = await this.gateway.generate(
+        {
+          system: systemPrompt,
+          prompt: userPrompt,
+          maxTokens: SECTION_MAX_TOKENS,
+          temperature: this.config.temperature,
+          timeoutMs: this.config.timeout,
+          usage: {
+            userId: context.userId,
+            blueprintId: context.blueprintId,
+            purpose: 'section_regeneration',
+          },
+        },
+        (text) => {
+          try {
+            const section = validateAndNormalizeSection(text, context.sectionId);
+            truncationRepaired = needsJsonRepair(text);
+            return section;
+          } catch (parseError) {
+            validationFailures++;
+            throw parseError;
+          }
+        }
+      );
+      const duration = Date.now() - startTime;
+      await recordRun(true);
+
+      logger.info('blueprint.section_regeneration.success', 'Section regenerated', {
+        ...baseMeta,
+        model: response.model,
+        provider: response.provider,
+        duration,
+        attempts: response.attempts,
+      });
+
+      return {
+        success: true,
+        section: response.data,
+        metadata: {
+          model: response.model,
+          duration,
+          fallbackUsed: response.fallbackUsed,
+          attempts: response.attempts,
+        },
+        usage: response.usage,
+      };
+    } catch (error) {
+      const attempts = error instanceof ProviderGatewayError ? error.attempts.length : 0;
+      await recordRun(false);
+
+      logger.warn('blueprint.section_regeneration.failed', 'Section regeneration failed', {
+        ...baseMeta,
+        attempts,
+        error: (error as Error).message,
+      });
+
+      return this.failure(startTime, this.config.primaryModel, attempts, (error as Error).message);
+    }
+  }
+
+  private failure(
+    startTime: number,
+    model: string,
+    attempts: number,
+    error: string
+  ): SectionRegenerationResult {
+    return {
+      success: false,
+      section: null,
+      metadata: {
+        model,
+        duration: Date.now() - startTime,
+        fallbackUsed: attempts > 1,
+        attempts,
+      },
+      error,
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const sectionRegenerationService = new SectionRegenerationService();
@@ -0,0 +1,331 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export type ShareAccessDenial = 'revoked' | 'expired' | 'password_required' | 'invalid_password';
+
+export interface ShareLink {
+  id: string;
+  blueprintId: string;
+  token: string;
+  label: string | null;
+  hasPassword: boolean;
+  allowedSections: string[] | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  status: ShareLinkStatus;
+}
+
+export interface ShareLinkView {
+  id: string;
+  referrer: string | null;
+  viewedAt: string;
+}
+
+/**
+ * A link as seen by the public share API, including the password hash.
+ * Never returned to clients.
+ */
+export interface ResolvedShareLink {
+  id: string;
+  blueprintId: string;
+  label: string | null;
+  /** Views before the current request */
+  viewCount: number;
+  passwordHash: string | null;
+  allowedSections: string[] | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+}
+
+interface ShareLinkRow {
+  id: string;
+  blueprint_id: string;
+  token: string;
+  label: string | null;
+  password_hash: string | null;
+  allowed_sections: string[] | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const SHARE_LINK_COLUMNS =
+  'id, blueprint_id, token, label, password_hash, allowed_sections, expires_at, revoked_at, view_count, last_viewed_at, created_by, created_at';
+
+const SCRYPT_KEY_LENGTH = 32;
+const MAX_LOGGED_LENGTH = 500;
+
+export function getShareLinkStatus(
+  link: Pick<ShareLinkRow, 'revoked_at' | 'expires_at'>,
+  now: Date = new Date()
+): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  if (link.expires_at && new Date(link.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+export function hashSharePassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifySharePassword(password: string, passwordHash: string): boolean {
+  const [scheme, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Decide whether a visitor may open a link. Returns null when access is
+ * granted, otherwise the reason it was refused.
+ */
+export function evaluateShareAccess(
+  link: ResolvedShareLink,
+  password: string | null,
+  now: Date = new Date()
+): ShareAccessDenial | null {
+  const status = getShareLinkStatus(
+    { revoked_at: link.revokedAt, expires_at: link.expiresAt },
+    now
+  );
+  if (status !== 'active') return status;
+
+  if (link.passwordHash) {
+    if (!password) return 'password_required';
+    if (!verifySharePassword(password, link.passwordHash)) return 'invalid_password';
+  }
+
+  return null;
+}
+
+/**
+ * Keep only the allowed sections of a blueprint. Metadata is always kept so
+ * the shared page can render its header.
+ */
+export function filterSharedBlueprint<T extends Record<string, unknown>>(
+  blueprintJson: T,
+  allowedSections: string[] | null
+): T {
+  if (!allowedSections) return blueprintJson;
+
+  const allowed = new Set(allowedSections);
+  return Object.fromEntries(
+    Object.entries(blueprintJson).filter(([key]) => key === 'metadata' || allowed.has(key))
+  ) as T;
+}
+
+/**
+ * Reduce a referrer to origin and path so query strings (which may carry
+ * tokens or personal data) are never stored
+ */
+export function normalizeReferrer(referrer: string | null | undefined): string | null {
+  if (!referrer) return null;
+
+  try {
+    const url = new URL(referrer);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return `${url.origin}${url.pathname}`.slice(0, MAX_LOGGED_LENGTH);
+  } catch {
+    return null;
+  }
+}
+
+function toShareLink(row: ShareLinkRow): ShareLink {
+  return {
+    id: row.id,
+    blueprintId: row.blueprint_id,
+    token: row.token,
+    label: row.label,
+    hasPassword: Boolean(row.password_hash),
+    allowedSections: row.allowed_sections,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    viewCount: row.view_count,
+    lastViewedAt: row.last_viewed_at,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    status: getShareLinkStatus(row),
+  };
+}
+
+/**
+ * Share links for blueprints. Management goes through RLS (editors and
+ * owners); the public share API resolves links and records views with the
+ * service role client.
+ */
+export class ShareLinkService {
+  static async listLinks(supabase: SupabaseClient, blueprintId: string): Promise<ShareLink[]> {
+    const { data, error } = await supabase
+      .from('blueprint_share_links')
+      .select(SHARE_LINK_COLUMNS)
+      .eq('blueprint_id', blueprintId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error listing share links:', error);
+      throw new Error('Failed to list share links');
+    }
+
+    return (data ?? []).map((row) => toShareLink(row as ShareLinkRow));
+  }
+
+  static async createLink(
+    supabase: SupabaseClient,
+    link: {
+      blueprintId: string;
+      createdBy: string;
+      label?: string | null;
+      password?: string | null;
+      allowedSections?: string[] | null;
+      expiresAt?: string | null;
+    }
+  ): Promise<ShareLink> {
+    const { data, error } = await supabase
+      .from('blueprint_share_links')
+      .insert({
+        blueprint_id: link.blueprintId,
+        created_by: link.createdBy,
+        label: link.label || null,
+        password_hash: link.password ? hashSharePassword(link.password) : null,
+        allowed_sections: link.allowedSections?.length ? link.allowedSections : null,
+        expires_at: link.expiresAt ?? null,
+      })
+      .select(SHARE_LINK_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Error creating share link:', error);
+      throw new Error('Failed to create share link');
+    }
+
+    return toShareLink(data as ShareLinkRow);
+  }
+
+  /**
+   * Most recent active link with no password, expiry or section limits
+   */
+  static async findOpenLink(
+    supabase: SupabaseClient,
+    blueprintId: string
+  ): Promise<ShareLink | null> {
+    const links = await ShareLinkService.listLinks(supabase, blueprintId);
+    return (
+      links.find(
+        (link) =>
+          link.status === 'active' && !link.hasPassword && !link.allowedSections && !link.expiresAt
+      ) ?? null
+    );
+  }
+
+  /**
+   * Returns false when no active link with that id exists on the blueprint
+   */
+  static async revokeLink(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    linkId: string
+  ): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('blueprint_share_links')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('blueprint_id', blueprintId)
+      .eq('id', linkId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      console.error('Error revoking share link:', error);
+      throw new Error('Failed to revoke share link');
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  static async listViews(
+    supabase: SupabaseClient,
+    linkId: string,
+    limit = 50
+  ): Promise<ShareLinkView[]> {
+    const { data, error } = await supabase
+      .from('blueprint_share_link_views')
+      .select('id, referrer, viewed_at')
+      .eq('share_link_id', linkId)
+      .order('viewed_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error listing share link views:', error);
+      throw new Error('Failed to list share link views');
+    }
+
+    return ((data ?? []) as Array<{ id: string; referrer: string | null; viewed_at: string }>).map(
+      (row) => ({ id: row.id, referrer: row.referrer, viewedAt: row.viewed_at })
+    );
+  }
+
+  /**
+   * Look up a link by token for the public share API (service role)
+   */
+  static async resolveLink(
+    supabase: SupabaseClient,
+    token: string
+  ): Promise<ResolvedShareLink | null> {
+    const { data, error } = await supabase
+      .from('blueprint_share_links')
+      .select(SHARE_LINK_COLUMNS)
+      .eq('token', token)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error resolving share link:', error);
+      throw new Error('Failed to resolve share link');
+    }
+
+    if (!data) return null;
+
+    const row = data as ShareLinkRow;
+    return {
+      id: row.id,
+      blueprintId: row.blueprint_id,
+      label: row.label,
+      viewCount: row.view_count,
+      passwordHash: row.password_hash,
+      allowedSections: row.allowed_sections,
+      expiresAt: row.expires_at,
+      revokedAt: row.revoked_at,
+    };
+  }
+
+  /**
+   * Log a successful view; the link's counters are updated by a trigger
+   */
+  static async recordView(
+    supabase: SupabaseClient,
+    linkId: string,
+    view: { referrer?: string | null; userAgent?: string | null }
+  ): Promise<void> {
+    const { error } = await supabase.from('blueprint_share_link_views').insert({
+      share_link_id: linkId,
+      referrer: normalizeReferrer(view.referrer),
+      user_agent: view.userAgent ? view.userAgent.slice(0, MAX_LOGGED_LENGTH) : null,
+    });
+
+    if (error) {
+      console.error('Error recording share link view:', error);
+      throw new Error('Failed to record share link view');
+    }
+  }
+}
@@ -0,0 +1,356 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BlueprintUsageService } from '@/lib/services/blueprintUsageService';
+
+export type SsoProtocol = 'saml' | 'oidc';
+
+export const SSO_TIERS = [
+  'free',
+  'explorer',
+  'navigator',
+  'voyager',
+  'crew',
+  'fleet',
+  'armada',
+] as const;
+export const SSO_ROLES = ['user', 'developer'] as const;
+
+/** Supabase Auth sets app_metadata.provider to this prefix plus the provider id */
+const SAML_PROVIDER_PREFIX = 'sso:';
+
+const ssoConnectionFieldsSchema = z.object({
+  domain: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9.-]+\.[a-z]{2,}$/, 'Enter a domain such as acme.com'),
+  displayName: z.string().trim().min(1).max(100),
+  protocol: z.enum(['saml', 'oidc']),
+  samlProviderId: z.string().uuid().nullable().optional(),
+  oidcIssuer: z.string().url().nullable().optional(),
+  oidcClientId: z.string().trim().min(1).nullable().optional(),
+  /** Omitted on update to keep the stored secret */
+  oidcClientSecret: z.string().min(1).nullable().optional(),
+  oidcScopes: z.string().trim().min(1).optional(),
+  defaultTier: z.enum(SSO_TIERS).default('fleet'),
+  defaultRole: z.enum(SSO_ROLES).default('user'),
+  enforceSso: z.boolean().default(true),
+  enabled: z.boolean().default(true),
+});
+
+export const ssoConnectionInputSchema = ssoConnectionFieldsSchema
+  .refine((input) => input.protocol !== 'saml' || !!input.samlProviderId, {
+    message: 'SAML connections need the Supabase SSO provider ID',
+    path: ['samlProviderId'],
+  })
+  .refine((input) => input.protocol !== 'oidc' || (!!input.oidcIssuer && !!input.oidcClientId), {
+    message: 'OIDC connections need an issuer and client ID',
+    path: ['oidcIssuer'],
+  });
+
+/** Updates leave out fields that do not change; defaults are not applied */
+export const ssoConnectionUpdateSchema = ssoConnectionFieldsSchema.partial();
+
+export type SsoConnectionInput = z.infer<typeof ssoConnectionInputSchema>;
+
+/**
+ * An SSO connection as shown to admins. The OIDC client secret never leaves
+ * the server; see SsoService.getClientSecret.
+ */
+export interface SsoConnection {
+  id: string;
+  domain: string;
+  displayName: string;
+  protocol: SsoProtocol;
+  samlProviderId: string | null;
+  oidcIssuer: string | null;
+  oidcClientId: string | null;
+  hasClientSecret: boolean;
+  oidcScopes: string;
+  defaultTier: (typeof SSO_TIERS)[number];
+  defaultRole: (typeof SSO_ROLES)[number];
+  enforceSso: boolean;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SsoConnectionRow {
+  id: string;
+  domain: string;
+  display_name: string;
+  protocol: SsoProtocol;
+  saml_provider_id: string | null;
+  oidc_issuer: string | null;
+  oidc_client_id: string | null;
+  oidc_client_secret: string | null;
+  oidc_scopes: string;
+  default_tier: SsoConnection['defaultTier'];
+  default_role: SsoConnection['defaultRole'];
+  enforce_sso: boolean;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+function toSsoConnection(row: SsoConnectionRow): SsoConnection {
+  return {
+    id: row.id,
+    domain: row.domain,
+    displayName: row.display_name,
+    protocol: row.protocol,
+    samlProviderId: row.saml_provider_id,
+    oidcIssuer: row.oidc_issuer,
+    oidcClientId: row.oidc_client_id,
+    hasClientSecret: !!row.oidc_client_secret,
+    oidcScopes: row.oidc_scopes,
+    defaultTier: row.default_tier,
+    defaultRole: row.default_role,
+    enforceSso: row.enforce_sso,
+    enabled: row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toSsoConnectionRow(input: Partial<SsoConnectionInput>): Partial<SsoConnectionRow> {
+  const row: Partial<SsoConnectionRow> = {};
+  if (input.domain !== undefined) row.domain = input.domain;
+  if (input.displayName !== undefined) row.display_name = input.displayName;
+  if (input.protocol !== undefined) row.protocol = input.protocol;
+  if (input.samlProviderId !== undefined) row.saml_provider_id = input.samlProviderId;
+  if (input.oidcIssuer !== undefined) row.oidc_issuer = input.oidcIssuer;
+  if (input.oidcClientId !== undefined) row.oidc_client_id = input.oidcClientId;
+  if (input.oidcClientSecret !== undefined) row.oidc_client_secret = input.oidcClientSecret;
+  if (input.oidcScopes !== undefined) row.oidc_scopes = input.oidcScopes;
+  if (input.defaultTier !== undefined) row.default_tier = input.defaultTier;
+  if (input.defaultRole !== undefined) row.default_role = input.defaultRole;
+  if (input.enforceSso !== undefined) row.enforce_sso = input.enforceSso;
+  if (input.enabled !== undefined) row.enabled = input.enabled;
+  return row;
+}
+
+/**
+ * The lower-cased domain of an email address, or null if it has none
+ */
+export function emailDomain(email: string): string | null {
+  const at = email.lastIndexOf('@');
+  if (at < 1 || at === email.length - 1) return null;
+  return email
+    .slice(at + 1)
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * The SAML provider a Supabase SSO user signed in through, from their
+ * app_metadata.provider
+ */
+export function samlProviderIdFromUser(user: {
+  app_metadata?: Record<string, unknown>;
+}): string | null {
+  const provider = user.app_metadata?.provider;
+  return typeof provider === 'string' && provider.startsWith(SAML_PROVIDER_PREFIX)
+    ? provider.slice(SAML_PROVIDER_PREFIX.length)
+    : null;
+}
+
+export class SsoService {
+  /**
+   * The enabled connection for an email's domain, if any
+   */
+  static async findByEmail(supabase: SupabaseClient, email: string): Promise<SsoConnection | null> {
+    const domain = emailDomain(email);
+    if (!domain) return null;
+
+    const { data, error } = await supabase
+      .from('sso_connections')
+      .select('*')
+      .eq('domain', domain)
+      .eq('enabled', true)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching SSO connection:', error);
+      throw new Error('Failed to fetch SSO connection');
+    }
+
+    return data ? toSsoConnection(data as SsoConnectionRow) : null;
+  }
+
+  static async getById(
+    supabase: SupabaseClient,
+    connectionId: string
+  ): Promise<SsoConnection | null> {
+    const { data, error } = await supabase
+      .from('sso_connections')
+      .select('*')
+      .eq('id', connectionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching SSO connection:', error);
+      throw new Error('Failed to fetch SSO connection');
+    }
+
+    return data ? toSsoConnection(data as SsoConnectionRow) : null;
+  }
+
+  static async getBySamlProvider(
+    supabase: SupabaseClient,
+    samlProviderId: string
+  ): Promise<SsoConnection | null> {
+    const { data, error } = await supabase
+      .from('sso_connections')
+      .select('*')
+      .eq('saml_provider_id', samlProviderId)
+      .eq('enabled', true)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching SSO connection:', error);
+      throw new Error('Failed to fetch SSO connection');
+    }
+
+    return data ? toSsoConnection(data as SsoConnectionRow) : null;
+  }
+
+  static async getClientSecret(
+    supabase: SupabaseClient,
+    connectionId: string
+  ): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('sso_connections')
+      .select('oidc_client_secret')
+      .eq('id', connectionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching SSO client secret:', error);
+      throw new Error('Failed to fetch SSO client secret');
+    }
+
+    return (data?.oidc_client_secret as string | null) ?? null;
+  }
+
+  static async list(supabase: SupabaseClient): Promise<SsoConnection[]> {
+    const { data, error } = await supabase
+      .from('sso_connections')
+      .select('*')
+      .order('domain', { ascending: true });
+
+    if (error) {
+      console.error('Error listing SSO connections:', error);
+      throw new Error('Failed to list SSO connections');
+    }
+
+    return ((data ?? []) as SsoConnectionRow[]).map(toSsoConnection);
+  }
+
+  static async create(
+    supabase: SupabaseClient,
+    input: SsoConnectionInput,
+    createdBy: string
+  ): Promise<SsoConnection> {
+    const { data, error } = await supabase
+      .from('sso_connections')
+      .insert({ ...toSsoConnectionRow(input), created_by: createdBy })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating SSO connection:', error);
+      throw new Error(
+        error.code === '23505'
+          ? 'This domain already has an SSO connection'
+          : 'Failed to create SSO connection'
+      );
+    }
+
+    return toSsoConnection(data as SsoConnectionRow);
+  }
+
+  static async update(
+    supabase: SupabaseClient,
+    connectionId: string,
+    input: Partial<SsoConnectionInput>
+  ): Promise<SsoConnection | null> {
+    const { data, error } = await supabase
+      .from('sso_connections')
+      .update({ ...toSsoConnectionRow(input), updated_at: new Date().toISOString() })
+      .eq('id', connectionId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating SSO connection:', error);
+      throw new Error(
+        error.code === '23505'
+          ? 'This domain already has an SSO connection'
+          : 'Failed to update SSO connection'
+      );
+    }
+
+    return data ? toSsoConnection(data as SsoConnectionRow) : null;
+  }
+
+  static async remove(supabase: SupabaseClient, connectionId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('sso_connections')
+      .delete()
+      .eq('id', connectionId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting SSO connection:', error);
+      throw new Error('Failed to delete SSO connection');
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Just-in-time provisioning after an SSO sign-in. The profile row itself
+   * comes from the handle_new_user trigger; users seen for the first time
+   * through this connection get its default tier and role. Existing users
+   * are only linked, so SSO never downgrades a paid plan or a role.
+   */
+  static async provisionUser(
+    supabase: SupabaseClient,
+    userId: string,
+    connection: SsoConnection,
+    details: { fullName?: string | null; isNewUser: boolean }
+  ): Promise<void> {
+    const { data: profile, error } = await supabase
+      .from('user_profiles')
+      .select('sso_connection_id, subscription_tier, full_name')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error || !profile) {
+      console.error('Error fetching profile for SSO provisioning:', error);
+      throw new Error('Failed to provision SSO user');
+    }
+
+    const firstSsoSignIn = details.isNewUser && !profile.sso_connection_id;
+
+    const { error: updateError } = await supabase
+      .from('user_profiles')
+      .update({
+        sso_connection_id: connection.id,
+        ...(firstSsoSignIn && { user_role: connection.defaultRole }),
+        ...(!profile.full_name && details.fullName && { full_name: details.fullName }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId);
+
+    if (updateError) {
+      console.error('Error provisioning SSO user:', updateError);
+      throw new Error('Failed to provision SSO user');
+    }
+
+    if (firstSsoSignIn && profile.subscription_tier !== connection.defaultTier) {
+      await BlueprintUsageService.handleTierUpgrade(supabase, userId, connection.defaultTier);
+    }
+  }
+}
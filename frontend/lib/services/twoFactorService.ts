@@ -0,0 +1,305 @@
+import { createHash, randomInt } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// No 0/o, 1/l/i so codes can be read back from paper
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const RECOVERY_CODE_GROUP_LENGTH = 5;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  factorId: string | null;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  requiredBy: Array<{ id: string; name: string }>;
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+  uri: string;
+}
+
+function randomGroup(): string {
+  let group = '';
+  for (let i = 0; i < RECOVERY_CODE_GROUP_LENGTH; i++) {
+    group += RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)];
+  }
+  return group;
+}
+
+/**
+ * Fresh recovery codes formatted as "xxxxx-xxxxx"
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    codes.add(`${randomGroup()}-${randomGroup()}`);
+  }
+  return [...codes];
+}
+
+/**
+ * Users may type codes in any case, with or without the dash or spaces
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * TOTP two-factor authentication. Factors live in Supabase Auth MFA and are
+ * managed with the user's own client; recovery codes are stored hashed and
+ * need the service role client.
+ */
+export class TwoFactorService {
+  /**
+   * Current state for the settings page. `supabase` is the user's client,
+   * `admin` the service role client.
+   */
+  static async getStatus(
+    supabase: SupabaseClient,
+    admin: SupabaseClient,
+    userId: string
+  ): Promise<TwoFactorStatus> {
+    const [{ data: factors, error: factorsError }, requiredBy, recoveryCodesRemaining] =
+      await Promise.all([
+        supabase.auth.mfa.listFactors(),
+        this.listRequiringWorkspaces(supabase),
+        this.countRecoveryCodes(admin, userId),
+      ]);
+
+    if (factorsError) {
+      console.error('Error listing two-factor factors:', factorsError);
+      throw new Error('Failed to load two-factor status');
+    }
+
+    const factor = factors?.totp[0] ?? null;
+
+    return {
+      enabled: Boolean(factor),
+      factorId: factor?.id ?? null,
+      enabledAt: factor?.created_at ?? null,
+      recoveryCodesRemaining,
+      requiredBy,
+    };
+  }
+
+  /**
+   * Start TOTP enrollment. Abandoned enrollments are removed first so the
+   * user never piles up unverified factors.
+   */
+  static async enroll(supabase: SupabaseClient, issuer: string): Promise<TotpEnrollment> {
+    const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+    if (listError) {
+      console.error('Error listing two-factor factors:', listError);
+      throw new Error('Failed to start two-factor enrollment');
+    }
+
+    if (factors.totp.length > 0) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    for (const factor of factors.all.filter((f) => f.status === 'unverified')) {
+      await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({
+      factorType: 'totp',
+      issuer,
+      friendlyName: 'Authenticator app',
+    });
+
+    if (error || !data) {
+      console.error('Error enrolling TOTP factor:', error);
+      throw new Error('Failed to start two-factor enrollment');
+    }
+
+    return {
+      factorId: data.id,
+      qrCode: data.totp.qr_code,
+      secret: data.totp.secret,
+      uri: data.totp.uri,
+    };
+  }
+
+  /**
+   * Check a code from the authenticator app. On success the session is
+   * upgraded to aal2. Returns false for a wrong code.
+   */
+  static async verifyCode(
+    supabase: SupabaseClient,
+    factorId: string,
+    code: string
+  ): Promise<boolean> {
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+
+    if (error) {
+      if (error.status === 422 || error.status === 400) {
+        return false;
+      }
+      console.error('Error verifying two-factor code:', error);
+      throw new Error('Failed to verify two-factor code');
+    }
+
+    return true;
+  }
+
+  /**
+   * Remove every factor through the user's own client (needs an aal2
+   * session) and drop their recovery codes
+   */
+  static async disable(
+    supabase: SupabaseClient,
+    admin: SupabaseClient,
+    userId: string
+  ): Promise<void> {
+    const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+    if (listError) {
+      console.error('Error listing two-factor factors:', listError);
+      throw new Error('Failed to disable two-factor authentication');
+    }
+
+    for (const factor of factors.all) {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      if (error) {
+        console.error('Error removing two-factor factor:', error);
+        throw new Error('Failed to disable two-factor authentication');
+      }
+    }
+
+    await this.clearRecoveryCodes(admin, userId);
+  }
+
+  /**
+   * Remove a user's factors and recovery codes with the service role, for
+   * admin resets and recovery code sign-ins. Returns how many were removed.
+   */
+  static async resetFactors(admin: SupabaseClient, userId: string): Promise<number> {
+    const { data, error: listError } = await admin.auth.admin.mfa.listFactors({ userId });
+    if (listError) {
+      console.error('Error listing two-factor factors:', listError);
+      throw new Error('Failed to reset two-factor authentication');
+    }
+
+    for (const factor of data.factors) {
+      const { error } = await admin.auth.admin.mfa.deleteFactor({ id: factor.id, userId });
+      if (error) {
+        console.error('Error deleting two-factor factor:', error);
+        throw new Error('Failed to reset two-factor authentication');
+      }
+    }
+
+    await this.clearRecoveryCodes(admin, userId);
+
+    return data.factors.length;
+  }
+
+  /**
+   * Whether the user has a verified factor, looked up with the service role
+   */
+  static async isEnabledForUser(admin: SupabaseClient, userId: string): Promise<boolean> {
+    const { data, error } = await admin.auth.admin.mfa.listFactors({ userId });
+
+    if (error) {
+      console.error('Error listing two-factor factors:', error);
+      throw new Error('Failed to load two-factor status');
+    }
+
+    return data.factors.some((factor) => factor.status === 'verified');
+  }
+
+  /**
+   * Replace the user's recovery codes and return the new plain codes, which
+   * are never stored and can only be shown once
+   */
+  static async replaceRecoveryCodes(admin: SupabaseClient, userId: string): Promise<string[]> {
+    await this.clearRecoveryCodes(admin, userId);
+
+    const codes = generateRecoveryCodes();
+    const { error } = await admin.from('two_factor_recovery_codes').insert(
+      codes.map((code) => ({
+        user_id: userId,
+        code_hash: hashRecoveryCode(code),
+      }))
+    );
+
+    if (error) {
+      console.error('Error saving recovery codes:', error);
+      throw new Error('Failed to create recovery codes');
+    }
+
+    return codes;
+  }
+
+  /**
+   * Mark a recovery code used. Returns false when it doesn't match an unused
+   * code.
+   */
+  static async consumeRecoveryCode(
+    admin: SupabaseClient,
+    userId: string,
+    code: string
+  ): Promise<boolean> {
+    const { data, error } = await admin
+      .from('two_factor_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('code_hash', hashRecoveryCode(code))
+      .is('used_at', null)
+      .select('id');
+
+    if (error) {
+      console.error('Error using recovery code:', error);
+      throw new Error('Failed to check recovery code');
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  static async countRecoveryCodes(admin: SupabaseClient, userId: string): Promise<number> {
+    const { count, error } = await admin
+      .from('two_factor_recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('used_at', null);
+
+    if (error) {
+      console.error('Error counting recovery codes:', error);
+      throw new Error('Failed to count recovery codes');
+    }
+
+    return count ?? 0;
+  }
+
+  static async clearRecoveryCodes(admin: SupabaseClient, userId: string): Promise<void> {
+    const { error } = await admin.from('two_factor_recovery_codes').delete().eq('user_id', userId);
+
+    if (error) {
+      console.error('Error clearing recovery codes:', error);
+      throw new Error('Failed to clear recovery codes');
+    }
+  }
+
+  /**
+   * Workspaces the caller belongs to that require two-factor, including ones
+   * the current session can't open yet
+   */
+  static async listRequiringWorkspaces(
+    supabase: SupabaseClient
+  ): Promise<Array<{ id: string; name: string }>> {
+    const { data, error } = await supabase.rpc('get_two_factor_required_workspaces');
+
+    if (error) {
+      console.error('Error listing workspaces requiring two-factor:', error);
+      throw new Error('Failed to load workspace two-factor requirements');
+    }
+
+    return (data ?? []) as Array<{ id: string; name: string }>;
+  }
+}
@@ -0,0 +1,604 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+export type InvitationRole = Exclude<WorkspaceRole, 'owner'>;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  subscriptionTier: 'crew' | 'fleet' | 'armada';
+  razorpaySubscriptionId: string | null;
+  seatLimit: number;
+  requireTwoFactor: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  role: WorkspaceRole;
+  email: string | null;
+  fullName: string | null;
+  joinedAt: string;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspaceId: string;
+  email: string;
+  role: InvitationRole;
+  token: string;
+  invitedBy: string | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface SeatUsage {
+  seatLimit: number;
+  members: number;
+  pendingInvitations: number;
+  used: number;
+  available: number;
+  canInvite: boolean;
+}
+
+interface WorkspaceRow {
+  id: string;
+  name: string;
+  owner_id: string;
+  subscription_tier: Workspace['subscriptionTier'];
+  razorpay_subscription_id: string | null;
+  seat_limit: number;
+  require_two_factor?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface InvitationRow {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: InvitationRole;
+  token: string;
+  invited_by: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+const INVITATION_COLUMNS =
+  'id, workspace_id, email, role, token, invited_by, expires_at, created_at';
+
+function toWorkspace(row: WorkspaceRow): Workspace {
+  return {
+    id: row.id,
+    name: row.name,
+    ownerId: row.owner_id,
+    subscriptionTier: row.subscription_tier,
+    razorpaySubscriptionId: row.razorpay_subscription_id,
+    seatLimit: row.seat_limit,
+    requireTwoFactor: row.require_two_factor ?? false,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toInvitation(row: InvitationRow): WorkspaceInvitation {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    email: row.email,
+    role: row.role,
+    token: row.token,
+    invitedBy: row.invited_by,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Editors and owners may change workspace blueprints; viewers are read-only
+ */
+export function canEditWithRole(role: WorkspaceRole | null): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+/**
+ * Seats are taken by members and by pending invitations, so an owner cannot
+ * hand out more invitations than the subscription pays for
+ */
+export function evaluateSeatUsage(
+  seatLimit: number,
+  members: number,
+  pendingInvitations: number
+): SeatUsage {
+  const used = members + pendingInvitations;
+  const available = Math.max(seatLimit - used, 0);
+
+  return {
+    seatLimit,
+    members,
+    pendingInvitations,
+    used,
+    available,
+    canInvite: available > 0,
+  };
+}
+
+/**
+ * Workspaces for the seat-based team tiers. RLS restricts every query to
+ * workspaces the caller belongs to; writes that need cross-user access
+ * (creation, invitation acceptance, the member roster) go through RPCs.
+ */
+export class WorkspaceService {
+  /**
+   * List the caller's workspaces with their role in each
+   */
+  static async listWorkspaces(
+    supabase: SupabaseClient,
+    userId: string
+  ): Promise<Array<Workspace & { role: WorkspaceRole }>> {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspaces(*)')
+      .eq('user_id', userId)
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      console.error('Error listing workspaces:', error);
+      throw new Error('Failed to list workspaces');
+    }
+
+    return (data ?? [])
+      .filter((row) => row.workspaces)
+      .map((row) => ({
+        ...toWorkspace(row.workspaces as unknown as WorkspaceRow),
+        role: row.role as WorkspaceRole,
+      }));
+  }
+
+  /**
+   * Get a workspace, or null when it doesn't exist or the caller isn't a member
+   */
+  static async getWorkspace(
+    supabase: SupabaseClient,
+    workspaceId: string
+  ): Promise<Workspace | null> {
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('*')
+      .eq('id', workspaceId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching workspace:', error);
+      throw new Error('Failed to fetch workspace');
+    }
+
+    return data ? toWorkspace(data as WorkspaceRow) : null;
+  }
+
+  /**
+   * Create a workspace bound to the caller's active team subscription
+   */
+  static async createWorkspace(supabase: SupabaseClient, name: string): Promise<Workspace> {
+    const { data, error } = await supabase.rpc('create_workspace', { p_name: name });
+
+    if (error || !data) {
+      console.error('Error creating workspace:', error);
+      throw new Error(error?.message || 'Failed to create workspace');
+    }
+
+    return toWorkspace(data as WorkspaceRow);
+  }
+
+  static async renameWorkspace(
+    supabase: SupabaseClient,
+    workspaceId: string,
+    name: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ name, updated_at: new Date().toISOString() })
+      .eq('id', workspaceId);
+
+    if (error) {
+      console.error('Error renaming workspace:', error);
+      throw new Error('Failed to rename workspace');
+    }
+  }
+
+  /**
+   * Require members to sign in with a second factor. Members without one
+   * lose access to the workspace until they enable it.
+   */
+  static async setRequireTwoFactor(
+    supabase: SupabaseClient,
+    workspaceId: string,
+    requireTwoFactor: boolean
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ require_two_factor: requireTwoFactor, updated_at: new Date().toISOString() })
+      .eq('id', workspaceId);
+
+    if (error) {
+      console.error('Error updating workspace two-factor requirement:', error);
+      throw new Error('Failed to update workspace two-factor requirement');
+    }
+  }
+
+  /**
+   * The caller's role in a workspace, or null when not a member (or when the
+   * workspace requires two-factor and the session hasn't passed it)
+   */
+  static async getRole(
+    supabase: SupabaseClient,
+    workspaceId: string,
+    userId: string
+  ): Promise<WorkspaceRole | null> {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching workspace role:', error);
+      throw new Error('Failed to fetch workspace role');
+    }
+
+    return (data?.role as WorkspaceRole) ?? null;
+  }
+
+  /**
+   * Effective role on a blueprint: personal blueprints belong to their
+   * creator ('owner'); workspace blueprints use the workspace role.
+   * Returns null when the caller cannot see the blueprint.
+   */
+  static async getBlueprintRole(
+    supabase: SupabaseClient,
+    blueprintId: string,
+    userId: string
+  ): Promise<WorkspaceRole | null> {
+    const { data: blueprint, error } = await supabase
+      .from('blueprint_generator')
+      .select('id, user_id, workspace_id')
+      .eq('id', blueprintId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching blueprint access:', error);
+      throw new Error('Failed to fetch blueprint access');
+    }
+
+    if (!blueprint) {
+      return null;
+    }
+
+    if (!blueprint.workspace_id) {
+      return blueprint.user_id === userId ? 'owner' : null;
+    }
+
+    return this.getRole(supabase, blueprint.workspace_id, userId);
+  }
+
+  static async listMembers(
+    supabase: SupabaseClient,
+    workspaceId: string
+  ): Promise<WorkspaceMember[]> {
+    const { data, error } = await supabase.rpc('get_workspace_members', {
+      p_workspace_id: workspaceId,
+    });
+
+    if (error) {
+      console.error('Error listing workspace members:', error);
+      throw new Error('Failed to list workspace members');
+    }
+
+    return (
+      (data ?? []) as Array<{
+        user_id: string;
+        role: WorkspaceRole;
+        email: string | null;
+        full_name: string | null;
+        joined_at: string;
+      }>
+    ).map((row) => ({
+      userId: row.user_id,
+      role: row.role,
+      email: row.email,
+      fullName: row.full_name,
+      joinedAt: row.joined_at,
+    }));
+  }
+
+  static async updateMemberRole(
+    supabase: SupabaseClient,
+    workspaceId: string,
+    userId: string,
+    role: InvitationRole
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .neq('role', 'owner');
+
+    if (error) {
+      console.error('Error updating member role:', error);
+      throw new Error('Failed to update member role');
+    }
+  }
+
+  /**
+   * Remove a member (or leave). The owner cannot be removed.
+   */
+  static async removeMember(
+    supabase: SupabaseClient,
+    workspaceId: string,
+    userId: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .neq('role', 'owner');
+
+    if (error) {
+      console.error('Error removing workspace member:', error);
+      throw new Error('Failed to remove workspace member');
+    }
+  }
+
+  /**
+   * Pending, unexpired invitations (visible to the owner only)
+   */
+  static async listInvitations(
+    supabase: SupabaseClient,
+    workspaceId: string
+  ): Promise<WorkspaceInvitation[]> {
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('workspace_id', workspaceId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error listing workspace invitations:', error);
+      throw new Error('Failed to list workspace invitations');
+    }
+
+    return (data ?? []).map((row) => toInvitation(row as InvitationRow));
+  }
+
+  /**
+   * Seat usage for a workspace; the database enforces the same rule when
+   * members or invitations are inserted
+   */
+  static async getSeatUsage(supabase: SupabaseClient, workspace: Workspace): Promise<SeatUsage> {
+    const [members, invitations] = await Promise.all([
+      supabase
+        .from('workspace_members')
+        .select('user_id', { count: 'exact', head: true })
+        .eq('workspace_id', workspace.id),
+      supabase
+        .from('workspace_invitations')
+        .select('id', { count: 'exact', head: true })
+        .eq('workspace_id', workspace.id)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString()),
+    ]);
+
+    if (members.error || invitations.error) {
+      console.error('Error counting workspace seats:', members.error || invitations.error);
+      throw new Error('Failed to count workspace seats');
+    }
+
+    return evaluateSeatUsage(workspace.seatLimit, members.count ?? 0, invitations.count ?? 0);
+  }
+
+  /**
+   * Invite an email address. Any earlier pending invitation for the same
+   * address is revoked so it doesn't hold a second seat.
+   */
+  static async createInvitation(
+    supabase: SupabaseClient,
+    workspaceId: string,
+    invitation: { email: string; role: InvitationRole },
+    invitedBy: string
+  ): Promise<WorkspaceInvitation> {
+    const email = invitation.email.trim().toLowerCase();
+
+    await this.revokePendingInvitations(supabase, workspaceId, email);
+
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .insert({ workspace_id: workspaceId, email, role: invitation.role, invited_by: invitedBy })
+      .select(INVITATION_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Error creating workspace invitation:', error);
+      throw new Error('Failed to create workspace invitation');
+    }
+
+    return toInvitation(data as InvitationRow);
+  }
+
+  static async revokeInvitation(
+    supabase: SupabaseClient,
+    workspaceId: string,
+    invitationId: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('workspace_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .eq('id', invitationId)
+      .is('accepted_at', null)
+      .is('revoked_at', null);
+
+    if (error) {
+      console.error('Error revoking workspace invitation:', error);
+      throw new Error('Failed to revoke workspace invitation');
+    }
+  }
+
+  /**
+   * Accept an invitation addressed to the caller's email
+   */
+  static async acceptInvitation(
+    supabase: SupabaseClient,
+    token: string
+  ): Promise<{ workspaceId: string; role: WorkspaceRole }> {
+    const { data, error } = await supabase.rpc('accept_workspace_invitation', { p_token: token });
+
+    if (error || !data) {
+      console.error('Error accepting workspace invitation:', error);
+      throw new Error(error?.message || 'Failed to accept workspace invitation');
+    }
+
+    return { workspaceId: data.workspace_id, role: data.role };
+  }
+
+  /**
+   * Move one of the caller's personal blueprints into a workspace.
+   * RLS rejects the update unless the caller is an editor or owner there.
+   */
+  static async assignBlueprint(
+    supabase: SupabaseClient,
+    workspaceId: string,
+    blueprintId: string,
+    userId: string
+  ): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('blueprint_generator')
+      .update({ workspace_id: workspaceId })
+      .eq('id', blueprintId)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      console.error('Error assigning blueprint to workspace:', error);
+      throw new Error('Failed to assign blueprint to workspace');
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  static async listBlueprints(
+    supabase: SupabaseClient,
+    workspaceId: string
+  ): Promise<
+    Array<{ id: string; title: string | null; status: string; userId: string; updatedAt: string }>
+  > {
+    const { data, error } = await supabase
+      .from('blueprint_generator')
+      .select('id, title, status, user_id, updated_at')
+      .eq('workspace_id', workspaceId)
+      .is('deleted_at', null)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error listing workspace blueprints:', error);
+      throw new Error('Failed to list workspace blueprints');
+    }
+
+    return (data ?? []).map((row) => ({
+      id: row.id,
+      title: row.title,
+      status: row.status,
+      userId: row.user_id,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  /**
+   * Sync the seat limit from the Razorpay subscription quantity.
+   * Called from the subscription webhooks with a service-role client.
+   */
+  static async syncSeatLimit(
+    supabase: SupabaseClient,
+    razorpaySubscriptionId: string,
+    quantity: number
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ seat_limit: Math.max(quantity, 1), updated_at: new Date().toISOString() })
+      .eq('razorpay_subscription_id', razorpaySubscriptionId);
+
+    if (error) {
+      console.error('Error syncing workspace seat limit:', error);
+      throw new Error('Failed to sync workspace seat limit');
+    }
+  }
+
+  /**
+   * Members of the workspace billed to this subscription; a seat change
+   * can't go below it
+   */
+  static async countSubscriptionMembers(
+    supabase: SupabaseClient,
+    razorpaySubscriptionId: string
+  ): Promise<number> {
+    const { data: workspaces, error } = await supabase
+      .from('workspaces')
+      .select('id')
+      .eq('razorpay_subscription_id', razorpaySubscriptionId);
+
+    if (error) {
+      console.error('Error fetching subscription workspaces:', error);
+      throw new Error('Failed to count workspace members');
+    }
+
+    const counts = await Promise.all(
+      (workspaces ?? []).map(async (workspace: { id: string }) => {
+        const { count, error: countError } = await supabase
+          .from('workspace_members')
+          .select('user_id', { count: 'exact', head: true })
+          .eq('workspace_id', workspace.id);
+
+        if (countError) {
+          console.error('Error counting workspace members:', countError);
+          throw new Error('Failed to count workspace members');
+        }
+
+        return count ?? 0;
+      })
+    );
+
+    return Math.max(0, ...counts);
+  }
+
+  /**
+   * Revoke any pending invitation to this email so a re-invite replaces it
+   * instead of holding a second seat
+   */
+  static async revokePendingInvitations(
+    supabase: SupabaseClient,
+    workspaceId: string,
+    email: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('workspace_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .eq('email', email)
+      .is('accepted_at', null)
+      .is('revoked_at', null);
+
+    if (error) {
+      console.error('Error revoking pending invitations:', error);
+      throw new Error('Failed to revoke pending invitations');
+    }
+  }
+}
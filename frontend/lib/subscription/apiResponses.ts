@@ -0,0 +1,71 @@
+/**
+ * Subscription API Responses
+ *
+ * @description Response envelope shared by the subscription routes:
+ * `{ success, data | error, requestId }`, with a request ID for tracing a
+ * call through the logs
+ *
+ * @version 1.0.0
+ * @date 2025-11-13
+ */
+
+import { NextResponse } from 'next/server';
+
+export type ApiErrorDetails = Record<string, unknown>;
+
+export interface ApiErrorBody {
+  success: false;
+  error: {
+    code: string;
+    message: string;
+    details?: ApiErrorDetails;
+  };
+  requestId: string;
+}
+
+export interface ApiSuccessBody<T> {
+  success: true;
+  data: T;
+  requestId: string;
+}
+
+/**
+ * Generate unique request ID for tracking
+ */
+export function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Structured error response
+ */
+export function createErrorResponse(
+  code: string,
+  message: string,
+  status: number,
+  requestId: string,
+  details?: ApiErrorDetails
+): NextResponse<ApiErrorBody> {
+  return NextResponse.json(
+    {
+      success: false,
+      error: { code, message, details },
+      requestId,
+    },
+    { status }
+  );
+}
+
+/**
+ * Structured success response
+ */
+export function createSuccessResponse<T>(
+  data: T,
+  requestId: string
+): NextResponse<ApiSuccessBody<T>> {
+  return NextResponse.json({
+    success: true,
+    data,
+    requestId,
+  });
+}
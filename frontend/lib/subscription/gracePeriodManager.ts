@@ -8,7 +8,10 @@
  * @date 2025-10-30
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/server';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { NotificationService } from '@/lib/services/notificationService';
 import { logEvent } from '@/lib/monitoring/subscriptionMonitoring';
 import { getSubscriptionStatusMapping } from '@/lib/razorpay/subscriptionStatusMapping';
 
@@ -545,6 +548,21 @@ export async function sendGracePeriodWarning(userId: string, warningDay: number)
       return;
     }
 
+    // Email and in-app notice; the dedupe key keeps a retried run from sending twice
+    const notification = await NotificationService.notify(
+      getSupabaseAdminClient() as unknown as SupabaseClient,
+      {
+        userId,
+        type: 'grace_period_warning',
+        data: {
+          daysRemaining: warningDay,
+          gracePeriodEnd: profile.grace_period_end,
+          subscriptionTier: profile.subscription_tier,
+        },
+        dedupeKey: `grace-warning:${profile.grace_period_end}:${warningDay}`,
+      }
+    );
+
     // Add warning to sent list
     const updatedWarnings = [...warningsSent, warningDay];
     await supabase
@@ -569,6 +587,8 @@ export async function sendGracePeriodWarning(userId: string, warningDay: number)
         warningDay,
         daysRemaining: warningDay,
         gracePeriodEnd: profile.grace_period_end,
+        notificationId: notification.notificationId,
+        emailStatus: notification.emailStatus,
       },
       tags: ['grace-period', 'warning', `day-${warningDay}`, profile.subscription_tier],
       timestamp: new Date(),
@@ -1,6 +1,7 @@
 import { cookies } from 'next/headers';
 import { createServerClient, CookieOptions } from '@supabase/ssr';
 import type { Database } from '@/types/supabase';
+import { getAssuranceLevel, needsSecondFactor } from '@/lib/auth/twoFactor';
 
 /**
  * Returns a Supabase server client configured for SSR using Next.js cookies().
@@ -47,13 +48,23 @@ export async function getSupabaseServerClient() {
   );
 }
 
-export async function getServerSession() {
+/**
+ * The signed-in session. A session that still owes its second factor counts
+ * as signed out unless `allowPendingTwoFactor` is set (used by the routes that
+ * complete the second factor).
+ */
+export async function getServerSession(options: { allowPendingTwoFactor?: boolean } = {}) {
   const supabase = await getSupabaseServerClient();
   const {
     data: { session },
     error,
   } = await supabase.auth.getSession();
   if (error) return { session: null, error } as const;
+  if (session && !options.allowPendingTwoFactor) {
+    if (needsSecondFactor(await getAssuranceLevel(supabase))) {
+      return { session: null, error: null as null } as const;
+    }
+  }
   return { session, error: null as null } as const;
 }
 
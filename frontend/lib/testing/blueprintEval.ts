@@ -0,0 +1,600 @@
+/**
+ * Blueprint Evaluation Harness
+ *
+ * Replays golden questionnaires (static + dynamic answers) through blueprint
+ * generation and scores each blueprint with deterministic checks, so two
+ * prompt versions can be compared without reading blueprints by hand.
+ *
+ * Generation runs either against recorded model responses (one file per
+ * fixture, replayed as-is) or against the live provider cascade, which with
+ * only OLLAMA_BASE_URL set means a local model. Live runs can save their
+ * responses as new recordings.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  ProviderGateway,
+  type GatewayRequest,
+  type GatewayResponse,
+  type ProviderCompletion,
+} from '@/lib/ai-sdk/gateway';
+import { ProviderType } from '@/lib/ai-sdk/providerConfig';
+import { BlueprintGenerationService } from '@/lib/services/blueprintGenerationService';
+import { buildGenerationContext } from '@/lib/services/blueprintGenerationJobRunner';
+import type { BlueprintJSON } from '@/components/features/blueprints/types';
+import type { PromptExperiment } from '@/lib/prompts/experiments';
+import type { PromptId } from '@/lib/prompts/registry';
+import type { PromptRunEntry } from '@/lib/services/promptRunService';
+
+export const EVAL_REPORT_VERSION = 1;
+
+/**
+ * The sections every blueprint must contain (besides metadata)
+ */
+export const EVAL_REQUIRED_SECTIONS = [
+  'executive_summary',
+  'learning_objectives',
+  'target_audience',
+  'instructional_strategy',
+  'content_outline',
+  'resources',
+  'assessment_strategy',
+  'implementation_timeline',
+  'risk_mitigation',
+  'success_metrics',
+  'sustainability_plan',
+] as const;
+
+/**
+ * A golden questionnaire
+ */
+export interface EvalFixture {
+  id: string;
+  description: string;
+  staticAnswers: Record<string, unknown>;
+  dynamicAnswers: Record<string, unknown>;
+}
+
+/**
+ * A model response captured for a fixture
+ */
+export interface EvalRecording {
+  fixtureId: string;
+  /** When the response was generated; timeline checks are relative to this */
+  recordedAt: string;
+  provider: ProviderType;
+  model: string;
+  usage: ProviderCompletion['usage'];
+  promptVersions: Record<string, string>;
+  text: string;
+}
+
+export type EvalCheckStatus = 'passed' | 'failed' | 'skipped';
+
+export interface EvalCheckResult {
+  id: string;
+  status: EvalCheckStatus;
+  message: string;
+}
+
+export interface EvalFixtureResult {
+  fixtureId: string;
+  description: string;
+  /** error: generation failed; skipped: no recording for a recorded run */
+  status: 'passed' | 'failed' | 'error' | 'skipped';
+  error?: string;
+  model: string | null;
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Responses rejected by validation before one was accepted */
+  validationFailures: number;
+  truncationRepaired: boolean;
+  checks: EvalCheckResult[];
+}
+
+export interface EvalCheckSummary {
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface BlueprintEvalReport {
+  version: typeof EVAL_REPORT_VERSION;
+  label: string;
+  provider: 'recorded' | 'live';
+  generatedAt: string;
+  promptVersions: Record<string, string>;
+  summary: {
+    fixtureCount: number;
+    passed: number;
+    failed: number;
+    errors: number;
+    skipped: number;
+    /** Passed checks over passed + failed checks */
+    checkPassRate: number;
+    byCheck: Record<string, EvalCheckSummary>;
+  };
+  fixtures: EvalFixtureResult[];
+}
+
+export interface EvalCheckContext {
+  staticAnswers: Record<string, unknown>;
+  /** Dates in the timeline must not fall before this day */
+  referenceDate: Date;
+}
+
+type EvalCheck = (blueprint: BlueprintJSON, context: EvalCheckContext) => EvalCheckResult;
+
+function result(id: string, status: EvalCheckStatus, message: string): EvalCheckResult {
+  return { id, status, message };
+}
+
+function asArray<T>(value: T[] | null | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/** The value at a nested key path of parsed JSON, if every step is an object */
+function readPath(value: unknown, path: string[]): unknown {
+  return path.reduce<unknown>(
+    (current, key) =>
+      current && typeof current === 'object'
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    value
+  );
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Number(value.replace(/[^0-9.-]/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function isFilled(value: unknown): boolean {
+  return value !== null && value !== undefined && String(value).trim() !== '';
+}
+
+/**
+ * Budget the questionnaire allows: `resources.budget.amount` in the wizard
+ * format, `section_3_learning_gap.budget_available.amount` in the V2.0 format
+ */
+export function getQuestionnaireBudget(staticAnswers: Record<string, unknown>): number | null {
+  const amount =
+    toNumber(readPath(staticAnswers, ['resources', 'budget', 'amount'])) ??
+    toNumber(readPath(staticAnswers, ['section_3_learning_gap', 'budget_available', 'amount']));
+  return amount && amount > 0 ? amount : null;
+}
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+const checkSections: EvalCheck = (blueprint) => {
+  const missing = EVAL_REQUIRED_SECTIONS.filter(
+    (section) => !blueprint[section] || typeof blueprint[section] !== 'object'
+  );
+  return missing.length === 0
+    ? result('sections_present', 'passed', `All ${EVAL_REQUIRED_SECTIONS.length} sections present`)
+    : result('sections_present', 'failed', `Missing sections: ${missing.join(', ')}`);
+};
+
+const checkModalityAllocation: EvalCheck = (blueprint) => {
+  const modalities = asArray(blueprint.instructional_strategy?.modalities);
+  if (modalities.length === 0) {
+    return result('modality_allocation', 'failed', 'No instructional modalities');
+  }
+
+  const allocations = modalities.map((modality) => toNumber(modality?.allocation_percent));
+  if (allocations.some((allocation) => allocation === null)) {
+    return result('modality_allocation', 'failed', 'A modality has no allocation_percent');
+  }
+
+  const total = allocations.reduce<number>((sum, allocation) => sum + (allocation ?? 0), 0);
+  return Math.abs(total - 100) <= 0.5
+    ? result('modality_allocation', 'passed', 'Modality allocations sum to 100%')
+    : result('modality_allocation', 'failed', `Modality allocations sum to ${total}%`);
+};
+
+const checkObjectives: EvalCheck = (blueprint) => {
+  const objectives = asArray(blueprint.learning_objectives?.objectives);
+  if (objectives.length === 0) {
+    return result('objectives_baseline_target', 'failed', 'No learning objectives');
+  }
+
+  const incomplete = objectives
+    .filter((objective) => !isFilled(objective?.baseline) || !isFilled(objective?.target))
+    .map((objective, index) => objective?.id || objective?.title || `#${index + 1}`);
+  return incomplete.length === 0
+    ? result(
+        'objectives_baseline_target',
+        'passed',
+        `${objectives.length} objectives have a baseline and target`
+      )
+    : result(
+        'objectives_baseline_target',
+        'failed',
+        `Missing baseline or target: ${incomplete.join(', ')}`
+      );
+};
+
+const checkTimeline: EvalCheck = (blueprint, { referenceDate }) => {
+  const phases = asArray(blueprint.implementation_timeline?.phases);
+  if (phases.length === 0) {
+    return result('timeline_future', 'failed', 'No timeline phases');
+  }
+
+  const floor = startOfDay(referenceDate);
+  const problems: string[] = [];
+  phases.forEach((phase, index) => {
+    const name = phase?.phase || `#${index + 1}`;
+    const start = Date.parse(phase?.start_date);
+    const end = Date.parse(phase?.end_date);
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      problems.push(`${name} has an invalid date`);
+    } else if (start < floor || end < floor) {
+      problems.push(`${name} starts or ends in the past`);
+    } else if (end < start) {
+      problems.push(`${name} ends before it starts`);
+    }
+  });
+
+  return problems.length === 0
+    ? result(
+        'timeline_future',
+        'passed',
+        `${phases.length} phases on or after ${referenceDate.toISOString().slice(0, 10)}`
+      )
+    : result('timeline_future', 'failed', problems.join('; '));
+};
+
+const checkBudget: EvalCheck = (blueprint, { staticAnswers }) => {
+  const limit = getQuestionnaireBudget(staticAnswers);
+  if (limit === null) {
+    return result('budget_within_limit', 'skipped', 'Questionnaire has no budget');
+  }
+
+  const budget = blueprint.resources?.budget;
+  const itemsTotal = asArray(budget?.items).reduce(
+    (sum: number, item) => sum + (toNumber(item?.amount) ?? 0),
+    0
+  );
+  const total = toNumber(budget?.total) ?? itemsTotal;
+  if (!total) {
+    return result('budget_within_limit', 'failed', 'Blueprint has no budget total');
+  }
+
+  return total <= limit
+    ? result('budget_within_limit', 'passed', `Budget ${total} within ${limit}`)
+    : result('budget_within_limit', 'failed', `Budget ${total} exceeds ${limit}`);
+};
+
+export const EVAL_CHECKS: EvalCheck[] = [
+  checkSections,
+  checkModalityAllocation,
+  checkObjectives,
+  checkTimeline,
+  checkBudget,
+];
+
+/**
+ * Run every check against a blueprint
+ */
+export function scoreBlueprint(
+  blueprint: Record<string, unknown>,
+  context: EvalCheckContext
+): EvalCheckResult[] {
+  return EVAL_CHECKS.map((check) => check(blueprint as BlueprintJSON, context));
+}
+
+/**
+ * Replays a recorded response; the parser runs exactly as it would on a live
+ * completion, so validation failures still surface
+ */
+export class RecordedResponseGateway extends ProviderGateway {
+  constructor(private recording: EvalRecording) {
+    super({}, async () => undefined);
+  }
+
+  async generate<T = string>(
+    _request: GatewayRequest,
+    parse?: (text: string) => T
+  ): Promise<GatewayResponse<T>> {
+    const { text, model, usage, provider } = this.recording;
+    return {
+      text,
+      model,
+      usage,
+      data: parse ? parse(text) : (text as T),
+      provider,
+      fallbackUsed: false,
+      attempts: 1,
+      durationMs: 0,
+    };
+  }
+}
+
+/**
+ * Live gateway that keeps the last completion so it can be saved as a
+ * recording. Usage is not written to the ledger.
+ */
+export class CapturingGateway extends ProviderGateway {
+  last: GatewayResponse<unknown> | null = null;
+
+  constructor() {
+    super({}, async () => undefined);
+  }
+
+  async generate<T = string>(
+    request: GatewayRequest,
+    parse?: (text: string) => T
+  ): Promise<GatewayResponse<T>> {
+    this.last = null;
+    const response = await super.generate(request, parse);
+    this.last = response;
+    return response;
+  }
+}
+
+/**
+ * Experiments that pin prompts to fixed versions for a run
+ */
+export function pinPromptVersions(pins: Partial<Record<PromptId, string>>): PromptExperiment[] {
+  return Object.entries(pins).map(([promptId, version]) => ({
+    id: `eval-pin-${promptId}`,
+    promptId: promptId as PromptId,
+    control: version as string,
+    variant: version as string,
+    variantShare: 0,
+    active: true,
+  }));
+}
+
+function readJsonFiles<T>(dir: string): T[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => JSON.parse(readFileSync(join(dir, file), 'utf-8')) as T);
+}
+
+export function loadEvalFixtures(dir: string): EvalFixture[] {
+  return readJsonFiles<EvalFixture>(dir);
+}
+
+export function loadEvalRecordings(dir: string): Map<string, EvalRecording> {
+  return new Map(
+    readJsonFiles<EvalRecording>(dir).map((recording) => [recording.fixtureId, recording])
+  );
+}
+
+export function saveEvalRecording(dir: string, recording: EvalRecording): void {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(
+    join(dir, `${recording.fixtureId}.json`),
+    JSON.stringify(recording, null, 2) + '\n'
+  );
+}
+
+export interface BlueprintEvalOptions {
+  fixtures: EvalFixture[];
+  /** Replay these responses; live generation when omitted */
+  recordings?: Map<string, EvalRecording>;
+  /** Save live responses here */
+  recordTo?: string;
+  promptExperiments?: PromptExperiment[];
+  label?: string;
+  /** Timeline reference for live runs (default: now) */
+  now?: Date;
+}
+
+/**
+ * Generate and score a blueprint for every fixture
+ */
+export async function runBlueprintEval(
+  options: BlueprintEvalOptions
+): Promise<BlueprintEvalReport> {
+  const provider = options.recordings ? 'recorded' : 'live';
+  const promptVersions: Record<string, string> = {};
+  const results: EvalFixtureResult[] = [];
+
+  for (const fixture of options.fixtures) {
+    const recording = options.recordings?.get(fixture.id);
+    const base = {
+      fixtureId: fixture.id,
+      description: fixture.description,
+      model: null,
+      durationMs: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      validationFailures: 0,
+      truncationRepaired: false,
+      checks: [],
+    };
+
+    if (options.recordings && !recording) {
+      results.push({ ...base, status: 'skipped', error: 'No recorded response' });
+      continue;
+    }
+
+    const gateway = recording ? new RecordedResponseGateway(recording) : new CapturingGateway();
+    let run: PromptRunEntry | null = null;
+    const service = new BlueprintGenerationService(gateway, {
+      useCache: false,
+      promptExperiments: options.promptExperiments,
+      recordPromptRun: async (entry) => {
+        run = entry;
+      },
+    });
+
+    const context = buildGenerationContext(
+      `eval-${fixture.id}`,
+      'eval',
+      fixture.staticAnswers,
+      fixture.dynamicAnswers
+    );
+    const generation = await service.generate(context);
+    const runEntry = run as PromptRunEntry | null;
+    for (const prompt of runEntry?.prompts ?? []) {
+      promptVersions[prompt.promptId] = prompt.version;
+    }
+
+    const fixtureResult = {
+      ...base,
+      model: generation.metadata.model,
+      durationMs: generation.metadata.duration,
+      inputTokens: generation.usage?.input_tokens ?? 0,
+      outputTokens: generation.usage?.output_tokens ?? 0,
+      validationFailures: runEntry?.validationFailures ?? 0,
+      truncationRepaired: runEntry?.truncationRepaired ?? false,
+    };
+
+    if (!generation.success || !generation.blueprint) {
+      results.push({ ...fixtureResult, status: 'error', error: generation.error });
+      continue;
+    }
+
+    if (gateway instanceof CapturingGateway && gateway.last && options.recordTo) {
+      saveEvalRecording(options.recordTo, {
+        fixtureId: fixture.id,
+        recordedAt: new Date().toISOString(),
+        provider: gateway.last.provider,
+        model: gateway.last.model,
+        usage: gateway.last.usage,
+        promptVersions: Object.fromEntries(
+          (runEntry?.prompts ?? []).map((prompt) => [prompt.promptId, prompt.version])
+        ),
+        text: gateway.last.text,
+      });
+    }
+
+    const checks = scoreBlueprint(generation.blueprint, {
+      staticAnswers: fixture.staticAnswers,
+      referenceDate: recording ? new Date(recording.recordedAt) : (options.now ?? new Date()),
+    });
+    results.push({
+      ...fixtureResult,
+      status: checks.some((check) => check.status === 'failed') ? 'failed' : 'passed',
+      checks,
+    });
+  }
+
+  return {
+    version: EVAL_REPORT_VERSION,
+    label: options.label ?? provider,
+    provider,
+    generatedAt: new Date().toISOString(),
+    promptVersions,
+    summary: summarizeResults(results),
+    fixtures: results,
+  };
+}
+
+function summarizeResults(results: EvalFixtureResult[]): BlueprintEvalReport['summary'] {
+  const byCheck: Record<string, EvalCheckSummary> = {};
+  for (const check of results.flatMap((fixture) => fixture.checks)) {
+    byCheck[check.id] ??= { passed: 0, failed: 0, skipped: 0 };
+    byCheck[check.id][check.status]++;
+  }
+
+  const checked = Object.values(byCheck).reduce(
+    (totals, counts) => ({
+      passed: totals.passed + counts.passed,
+      scored: totals.scored + counts.passed + counts.failed,
+    }),
+    { passed: 0, scored: 0 }
+  );
+
+  const count = (status: EvalFixtureResult['status']) =>
+    results.filter((fixture) => fixture.status === status).length;
+
+  return {
+    fixtureCount: results.length,
+    passed: count('passed'),
+    failed: count('failed'),
+    errors: count('error'),
+    skipped: count('skipped'),
+    checkPassRate:
+      checked.scored > 0 ? Math.round((checked.passed / checked.scored) * 10_000) / 10_000 : 0,
+    byCheck,
+  };
+}
+
+export interface EvalCheckChange {
+  fixtureId: string;
+  checkId: string;
+  base: EvalCheckStatus | 'missing';
+  candidate: EvalCheckStatus | 'missing';
+}
+
+export interface BlueprintEvalDiff {
+  base: { label: string; generatedAt: string; promptVersions: Record<string, string> };
+  candidate: { label: string; generatedAt: string; promptVersions: Record<string, string> };
+  checkPassRateDelta: number;
+  byCheck: Array<{ checkId: string; base: EvalCheckSummary; candidate: EvalCheckSummary }>;
+  /** Checks that changed status on the same fixture */
+  regressions: EvalCheckChange[];
+  improvements: EvalCheckChange[];
+}
+
+/**
+ * Compare two reports check by check and fixture by fixture
+ */
+export function diffEvalReports(
+  base: BlueprintEvalReport,
+  candidate: BlueprintEvalReport
+): BlueprintEvalDiff {
+  const empty: EvalCheckSummary = { passed: 0, failed: 0, skipped: 0 };
+  const checkIds = Array.from(
+    new Set([...Object.keys(base.summary.byCheck), ...Object.keys(candidate.summary.byCheck)])
+  ).sort();
+
+  const statuses = (report: BlueprintEvalReport) =>
+    new Map(
+      report.fixtures.flatMap((fixture) =>
+        fixture.checks.map((check) => [`${fixture.fixtureId}:${check.id}`, check.status] as const)
+      )
+    );
+  const baseStatuses = statuses(base);
+  const candidateStatuses = statuses(candidate);
+
+  const regressions: EvalCheckChange[] = [];
+  const improvements: EvalCheckChange[] = [];
+  for (const key of new Set([...baseStatuses.keys(), ...candidateStatuses.keys()])) {
+    const separator = key.lastIndexOf(':');
+    const fixtureId = key.slice(0, separator);
+    const checkId = key.slice(separator + 1);
+    const change: EvalCheckChange = {
+      fixtureId,
+      checkId,
+      base: baseStatuses.get(key) ?? 'missing',
+      candidate: candidateStatuses.get(key) ?? 'missing',
+    };
+    if (change.base === 'passed' && change.candidate !== 'passed') regressions.push(change);
+    if (change.base !== 'passed' && change.candidate === 'passed') improvements.push(change);
+  }
+
+  const side = (report: BlueprintEvalReport) => ({
+    label: report.label,
+    generatedAt: report.generatedAt,
+    promptVersions: report.promptVersions,
+  });
+
+  return {
+    base: side(base),
+    candidate: side(candidate),
+    checkPassRateDelta:
+      Math.round((candidate.summary.checkPassRate - base.summary.checkPassRate) * 10_000) / 10_000,
+    byCheck: checkIds.map((checkId) => ({
+      checkId,
+      base: base.summary.byCheck[checkId] ?? empty,
+      candidate: candidate.summary.byCheck[checkId] ?? empty,
+    })),
+    regressions,
+    improvements,
+  };
+}
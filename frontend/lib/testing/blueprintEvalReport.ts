@@ -0,0 +1,146 @@
+/**
+ * HTML rendering for blueprint evaluation reports and report diffs
+ * Self-contained pages (inline styles) so they can be attached to a PR or
+ * opened straight from disk.
+ */
+
+import type {
+  BlueprintEvalDiff,
+  BlueprintEvalReport,
+  EvalCheckStatus,
+  EvalCheckSummary,
+} from './blueprintEval';
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatVersions(versions: Record<string, string>): string {
+  const entries = Object.entries(versions);
+  return entries.length > 0
+    ? entries.map(([id, version]) => `${escapeHtml(id)}@${escapeHtml(version)}`).join(', ')
+    : 'n/a';
+}
+
+function formatSummary(counts: EvalCheckSummary): string {
+  return `${counts.passed} passed / ${counts.failed} failed / ${counts.skipped} skipped`;
+}
+
+const STATUS_COLORS: Record<EvalCheckStatus | 'error' | 'missing', string> = {
+  passed: '#15803d',
+  failed: '#b91c1c',
+  skipped: '#6b7280',
+  error: '#b45309',
+  missing: '#6b7280',
+};
+
+function status(value: keyof typeof STATUS_COLORS): string {
+  return `<span style="color:${STATUS_COLORS[value]};font-weight:600">${value}</span>`;
+}
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111827; }
+  table { border-collapse: collapse; margin: 1rem 0 2rem; width: 100%; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  code { font-size: 0.85em; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+export function renderEvalReportHtml(report: BlueprintEvalReport): string {
+  const { summary } = report;
+  const checkRows = Object.entries(summary.byCheck)
+    .map(
+      ([checkId, counts]) =>
+        `<tr><td><code>${escapeHtml(checkId)}</code></td><td>${counts.passed}</td><td>${counts.failed}</td><td>${counts.skipped}</td></tr>`
+    )
+    .join('\n');
+
+  const fixtureRows = report.fixtures
+    .map((fixture) => {
+      const checks =
+        fixture.checks
+          .map(
+            (check) =>
+              `${status(check.status)} <code>${escapeHtml(check.id)}</code>: ${escapeHtml(check.message)}`
+          )
+          .join('<br>') || escapeHtml(fixture.error);
+      return `<tr><td><code>${escapeHtml(fixture.fixtureId)}</code><br>${escapeHtml(fixture.description)}</td><td>${status(fixture.status)}</td><td>${escapeHtml(fixture.model ?? 'n/a')}</td><td>${fixture.validationFailures}</td><td>${fixture.truncationRepaired ? 'yes' : 'no'}</td><td>${checks}</td></tr>`;
+    })
+    .join('\n');
+
+  return page(
+    `Blueprint eval: ${report.label}`,
+    `<h1>Blueprint eval: ${escapeHtml(report.label)}</h1>
+<p>Provider: ${escapeHtml(report.provider)} &middot; Generated: ${escapeHtml(report.generatedAt)} &middot; Prompts: ${formatVersions(report.promptVersions)}</p>
+<p>${summary.passed} passed, ${summary.failed} failed, ${summary.errors} errors, ${summary.skipped} skipped of ${summary.fixtureCount} fixtures &middot; Check pass rate: <strong>${percent(summary.checkPassRate)}</strong></p>
+<h2>Checks</h2>
+<table><tr><th>Check</th><th>Passed</th><th>Failed</th><th>Skipped</th></tr>
+${checkRows}
+</table>
+<h2>Fixtures</h2>
+<table><tr><th>Fixture</th><th>Status</th><th>Model</th><th>Rejected responses</th><th>Repaired JSON</th><th>Checks</th></tr>
+${fixtureRows}
+</table>`
+  );
+}
+
+export function renderEvalDiffHtml(diff: BlueprintEvalDiff): string {
+  const checkRows = diff.byCheck
+    .map(
+      (row) =>
+        `<tr><td><code>${escapeHtml(row.checkId)}</code></td><td>${formatSummary(row.base)}</td><td>${formatSummary(row.candidate)}</td></tr>`
+    )
+    .join('\n');
+
+  const changeRows = (changes: BlueprintEvalDiff['regressions']) =>
+    changes.length > 0
+      ? changes
+          .map(
+            (change) =>
+              `<tr><td><code>${escapeHtml(change.fixtureId)}</code></td><td><code>${escapeHtml(change.checkId)}</code></td><td>${status(change.base)}</td><td>${status(change.candidate)}</td></tr>`
+          )
+          .join('\n')
+      : '<tr><td colspan="4">None</td></tr>';
+
+  const delta = `${diff.checkPassRateDelta >= 0 ? '+' : ''}${percent(diff.checkPassRateDelta)}`;
+
+  return page(
+    `Blueprint eval diff: ${diff.base.label} vs ${diff.candidate.label}`,
+    `<h1>${escapeHtml(diff.base.label)} vs ${escapeHtml(diff.candidate.label)}</h1>
+<p>Base prompts: ${formatVersions(diff.base.promptVersions)}<br>Candidate prompts: ${formatVersions(diff.candidate.promptVersions)}</p>
+<p>Check pass rate change: <strong>${delta}</strong></p>
+<h2>Checks</h2>
+<table><tr><th>Check</th><th>${escapeHtml(diff.base.label)}</th><th>${escapeHtml(diff.candidate.label)}</th></tr>
+${checkRows}
+</table>
+<h2>Regressions</h2>
+<table><tr><th>Fixture</th><th>Check</th><th>Base</th><th>Candidate</th></tr>
+${changeRows(diff.regressions)}
+</table>
+<h2>Improvements</h2>
+<table><tr><th>Fixture</th><th>Check</th><th>Base</th><th>Candidate</th></tr>
+${changeRows(diff.improvements)}
+</table>`
+  );
+}
@@ -1,5 +1,6 @@
 import { NextResponse, type NextRequest } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
+import { getAssuranceLevel, needsSecondFactor } from '@/lib/auth/twoFactor';
 
 // Public routes do not require authentication
 const PUBLIC_PATHS = new Set([
@@ -49,6 +50,17 @@ export async function middleware(req: NextRequest) {
     data: { session },
   } = await supabase.auth.getSession();
 
+  // A session that still owes its TOTP code only gets the auth pages; the
+  // login page shows the code step
+  if (session && needsSecondFactor(await getAssuranceLevel(supabase))) {
+    if (AUTH_PATHS.has(url.pathname) || url.pathname === '/auth/callback') {
+      return res;
+    }
+    const redirectUrl = new URL('/login', url.origin);
+    redirectUrl.searchParams.set('redirect', url.pathname);
+    return NextResponse.redirect(redirectUrl);
+  }
+
   // If user is logged in and trying to access auth pages, redirect to home
   if (session && AUTH_PATHS.has(url.pathname)) {
     return NextResponse.redirect(new URL('/', url.origin));
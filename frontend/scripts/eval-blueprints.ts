@@ -0,0 +1,157 @@
+#!/usr/bin/env tsx
+
+/**
+ * Blueprint Evaluation Script
+ *
+ * Replays the golden questionnaires in tests/evals/golden through blueprint
+ * generation and scores the results (see lib/testing/blueprintEval.ts).
+ *
+ * - Recorded (default): replays tests/evals/recordings, no API calls
+ * - Live: uses the provider cascade; set only OLLAMA_BASE_URL to evaluate
+ *   against a local model, and --record to save responses as recordings
+ *
+ * To compare prompt versions, run once per version (--prompt id@version,
+ * with a recordings directory per version for recorded runs) and diff the
+ * two JSON reports.
+ */
+
+import { program } from 'commander';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  diffEvalReports,
+  loadEvalFixtures,
+  loadEvalRecordings,
+  pinPromptVersions,
+  runBlueprintEval,
+  type BlueprintEvalReport,
+} from '../lib/testing/blueprintEval';
+import { renderEvalDiffHtml, renderEvalReportHtml } from '../lib/testing/blueprintEvalReport';
+import { hasPromptVersion, isPromptId, type PromptId } from '../lib/prompts/registry';
+
+const DEFAULT_FIXTURES_DIR = 'tests/evals/golden';
+const DEFAULT_RECORDINGS_DIR = 'tests/evals/recordings';
+
+interface RunOptions {
+  fixtures: string;
+  live?: boolean;
+  recordings: string;
+  record?: boolean;
+  prompt: string[];
+  label?: string;
+  output?: string;
+  html?: string;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parsePins(values: string[]): Partial<Record<PromptId, string>> {
+  const pins: Partial<Record<PromptId, string>> = {};
+  for (const value of values) {
+    const [promptId, version] = value.split('@');
+    if (!isPromptId(promptId) || !version || !hasPromptVersion(promptId, version)) {
+      console.error(`❌ Unknown prompt version: ${value}`);
+      process.exit(1);
+    }
+    pins[promptId] = version;
+  }
+  return pins;
+}
+
+function writeOutput(path: string, content: string) {
+  const outputPath = resolve(path);
+  writeFileSync(outputPath, content);
+  console.log(`📄 Written to: ${outputPath}`);
+}
+
+function printReport(report: BlueprintEvalReport) {
+  const { summary } = report;
+  console.log('');
+  console.log(`📊 ${report.label} (${report.provider})`);
+  for (const fixture of report.fixtures) {
+    const icon = { passed: '✅', failed: '❌', error: '💥', skipped: '⏭️ ' }[fixture.status];
+    console.log(`${icon} ${fixture.fixtureId}${fixture.error ? `: ${fixture.error}` : ''}`);
+    for (const check of fixture.checks.filter((check) => check.status === 'failed')) {
+      console.log(`     ${check.id}: ${check.message}`);
+    }
+  }
+  console.log('');
+  console.log(
+    `Fixtures: ${summary.passed} passed, ${summary.failed} failed, ${summary.errors} errors, ${summary.skipped} skipped`
+  );
+  console.log(`Check pass rate: ${(summary.checkPassRate * 100).toFixed(1)}%`);
+}
+
+async function runEval(options: RunOptions) {
+  const fixtures = loadEvalFixtures(resolve(options.fixtures));
+  if (fixtures.length === 0) {
+    console.error(`❌ No fixtures found in ${options.fixtures}`);
+    process.exit(1);
+  }
+
+  const pins = parsePins(options.prompt);
+  const recordTo = options.live && options.record ? resolve(options.recordings) : undefined;
+
+  console.log(`🧪 Evaluating ${fixtures.length} fixtures`);
+
+  const report = await runBlueprintEval({
+    fixtures,
+    recordings: options.live ? undefined : loadEvalRecordings(resolve(options.recordings)),
+    recordTo,
+    promptExperiments: Object.keys(pins).length > 0 ? pinPromptVersions(pins) : undefined,
+    label: options.label,
+  });
+
+  printReport(report);
+  if (options.output) writeOutput(options.output, JSON.stringify(report, null, 2) + '\n');
+  if (options.html) writeOutput(options.html, renderEvalReportHtml(report));
+
+  process.exit(report.summary.errors > 0 ? 1 : 0);
+}
+
+function diffReports(basePath: string, candidatePath: string, options: { html?: string }) {
+  const read = (path: string) => JSON.parse(readFileSync(path, 'utf-8')) as BlueprintEvalReport;
+  const diff = diffEvalReports(read(basePath), read(candidatePath));
+
+  console.log(`📊 ${diff.base.label} → ${diff.candidate.label}`);
+  console.log(`Check pass rate change: ${(diff.checkPassRateDelta * 100).toFixed(1)}%`);
+  for (const change of diff.regressions) {
+    console.log(`  ❌ ${change.fixtureId} ${change.checkId}: ${change.base} → ${change.candidate}`);
+  }
+  for (const change of diff.improvements) {
+    console.log(`  ✅ ${change.fixtureId} ${change.checkId}: ${change.base} → ${change.candidate}`);
+  }
+
+  if (options.html) writeOutput(options.html, renderEvalDiffHtml(diff));
+  process.exit(diff.regressions.length > 0 ? 1 : 0);
+}
+
+program
+  .name('eval-blueprints')
+  .description('Offline blueprint quality evaluation against golden questionnaires')
+  .version('1.0.0');
+
+program
+  .command('run')
+  .description('Generate and score a blueprint for every golden questionnaire')
+  .option('-f, --fixtures <dir>', 'Golden questionnaire directory', DEFAULT_FIXTURES_DIR)
+  .option('--live', 'Generate through the configured providers instead of recordings')
+  .option('-r, --recordings <dir>', 'Recorded response directory', DEFAULT_RECORDINGS_DIR)
+  .option('--record', 'Save live responses to the recordings directory')
+  .option('-p, --prompt <id@version>', 'Pin a prompt version (repeatable)', collect, [])
+  .option('-l, --label <label>', 'Report label')
+  .option('-o, --output <file>', 'Save the JSON report')
+  .option('--html <file>', 'Save an HTML report')
+  .action(runEval);
+
+program
+  .command('diff')
+  .description('Compare two JSON reports')
+  .argument('<base>', 'Base report')
+  .argument('<candidate>', 'Candidate report')
+  .option('--html <file>', 'Save an HTML diff')
+  .action(diffReports);
+
+program.parse();
@@ -4,68 +4,31 @@
  */
 
 import { createServiceLogger } from '@/lib/logging';
-import { readFileSync } from 'fs';
-import { join } from 'path';
-import { ClaudeClient } from '@/lib/claude/client';
+import { getProviderGateway } from '@/lib/ai-sdk/gateway';
+import { formatMaterialsForPrompt, type CourseMaterialsContext } from '@/lib/materials/context';
+import { getPrompt } from '@/lib/prompts/registry';
+import { resolvePrompt } from '@/lib/prompts/experiments';
+import { recordPromptRun } from '@/lib/services/promptRunService';
 
 const logger = createServiceLogger('dynamic-questions');
 
-// LLM Configuration - Claude primary, Perplexity fallback
+// Generation parameters; providers and fallback come from the provider gateway
 const LLM_CONFIG = {
-  claude: {
-    apiKey: process.env.ANTHROPIC_API_KEY || '',
-    model: 'claude-sonnet-4-5',
-    maxTokens: 16000,
-    temperature: 0.7,
-  },
-  perplexity: {
-    apiKey: process.env.PERPLEXITY_API_KEY || '',
-    model: 'sonar-pro',
-    baseUrl: 'https://api.perplexity.ai',
-    maxTokens: 16000,
-    temperature: 0.7,
-  },
+  maxTokens: 16000,
+  temperature: 0.7,
   timeout: 840000, // 14 minutes - avg generation time is ~13 minutes (779.7s)
   retries: 2,
 } as const;
 
-// Load system prompt from file
-function loadSystemPrompt(): string {
-  try {
-    const systemPromptPath = join(
-      process.cwd(),
-      'lib',
-      'prompts',
-      'dynamic-questions-system-v2.txt'
-    );
-    return readFileSync(systemPromptPath, 'utf-8');
-  } catch (error) {
-    logger.error('system_prompt.load.failure', 'Failed to load dynamic-questions-system-v2.txt', {
-      error: error instanceof Error ? error.message : String(error),
-    });
-    throw new Error('Failed to load system prompt file');
-  }
-}
-
-// Load user prompt template from file
-function loadUserPromptTemplate(): string {
-  try {
-    const userPromptPath = join(process.cwd(), 'lib', 'prompts', 'dynamic-questions-user-v2.txt');
-    return readFileSync(userPromptPath, 'utf-8');
-  } catch (error) {
-    logger.error('user_prompt.load.failure', 'Failed to load dynamic-questions-user-v2.txt', {
-      error: error instanceof Error ? error.message : String(error),
-    });
-    throw new Error('Failed to load user prompt template file');
-  }
-}
-
 /**
  * Build user prompt using the new V2 template with 3-section static data
+ * and, for adapt/hybrid content strategies, excerpts of existing materials
  */
-export function buildUserPromptV2(staticAnswers: Record<string, unknown>): string {
-  const template = loadUserPromptTemplate();
-
+export function buildUserPromptV2(
+  staticAnswers: Record<string, unknown>,
+  materials: CourseMaterialsContext | null = null,
+  template: string = getPrompt('dynamic_questions.user').text
+): string {
   // Extract 3-section data
   const section1 = (staticAnswers.section_1_role_experience as Record<string, unknown>) || {};
   const section2 = (staticAnswers.section_2_organization as Record<string, unknown>) || {};
@@ -158,90 +121,13 @@ export function buildUserPromptV2(staticAnswers: Record<string, unknown>): strin
     budgetAmount > 0 ? `${budgetCurrency} ${budgetAmount.toLocaleString()}` : 'Not specified'
   );
 
-  return prompt;
-}
-
-/**
- * Call LLM provider (Claude)
- */
-async function callClaude(systemPrompt: string, userPrompt: string): Promise<string> {
-  const config = LLM_CONFIG.claude;
+  // Existing course materials (replacer function: excerpts may contain `$` patterns)
+  const materialsText =
+    (materials && formatMaterialsForPrompt(materials)) ||
+    'None provided - the client is not building on existing materials.';
+  prompt = prompt.replace(/\{existing_materials\}/g, () => materialsText);
 
-  if (!config.apiKey) {
-    throw new Error('Claude API key not configured');
-  }
-
-  const claudeClient = new ClaudeClient();
-
-  try {
-    const response = await claudeClient.generate({
-      system: systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: userPrompt,
-        },
-      ],
-      max_tokens: config.maxTokens,
-      temperature: config.temperature,
-    });
-
-    return ClaudeClient.extractText(response);
-  } catch (error) {
-    throw error;
-  }
-}
-
-/**
- * Call LLM provider (Perplexity)
- */
-async function callPerplexity(systemPrompt: string, userPrompt: string): Promise<string> {
-  const config = LLM_CONFIG.perplexity;
-
-  if (!config.apiKey) {
-    throw new Error('Perplexity API key not configured');
-  }
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), LLM_CONFIG.timeout);
-
-  try {
-    // Perplexity doesn't support system prompts, so combine them
-    const combinedPrompt = `${systemPrompt}\n\n${userPrompt}`;
-
-    const response = await fetch(`${config.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: config.model,
-        max_tokens: config.maxTokens,
-        temperature: config.temperature,
-        messages: [
-          {
-            role: 'user',
-            content: combinedPrompt,
-          },
-        ],
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Perplexity API error: ${response.status} - ${JSON.stringify(errorData)}`);
-    }
-
-    const data = await response.json();
-    return data.choices[0].message.content;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    throw error;
-  }
+  return prompt;
 }
 
 /**
@@ -647,11 +533,14 @@ function extractAndValidateJSON(
 }
 
 /**
- * Generate dynamic questions using the new V2 system with Perplexity → OpenAI fallback
+ * Generate dynamic questions using the new V2 system through the provider gateway
+ * Token usage is billed to `userId` in the usage ledger when given
  */
 export async function generateDynamicQuestionsV2(
   blueprintId: string,
-  staticAnswers: Record<string, unknown>
+  staticAnswers: Record<string, unknown>,
+  materials: CourseMaterialsContext | null = null,
+  userId: string | null = null
 ): Promise<{ sections: unknown[]; metadata: unknown }> {
   const startTime = Date.now();
 
@@ -663,16 +552,35 @@ export async function generateDynamicQuestionsV2(
 
   logger.info(
     'dynamic_questions.generation.start',
-    'Starting V2 question generation with Claude → Perplexity fallback',
+    'Starting V2 question generation through the provider gateway',
     {
       blueprintId,
     }
   );
 
+  // Prompt versions come from the registry, split by any active experiment
+  const { text: systemPrompt, ...systemAssignment } = resolvePrompt(
+    'dynamic_questions.system',
+    blueprintId
+  );
+  const { text: userTemplate, ...userAssignment } = resolvePrompt(
+    'dynamic_questions.user',
+    blueprintId
+  );
+  let validationFailures = 0;
+  const recordRun = (success: boolean, truncationRepaired = false) =>
+    recordPromptRun({
+      blueprintId,
+      userId,
+      purpose: 'dynamic_questions',
+      prompts: [systemAssignment, userAssignment],
+      success,
+      validationFailures,
+      truncationRepaired,
+    });
+
   try {
-    // Load prompts
-    const systemPrompt = loadSystemPrompt();
-    const userPrompt = buildUserPromptV2(staticAnswers);
+    const userPrompt = buildUserPromptV2(staticAnswers, materials, userTemplate);
 
     console.log('\n📄 Prompts loaded:');
     console.log('- System prompt:', systemPrompt.length, 'characters');
@@ -684,149 +592,43 @@ export async function generateDynamicQuestionsV2(
 
     logger.debug('dynamic_questions.prompts.loaded', 'Loaded prompts successfully', {
       blueprintId,
+      systemPromptVersion: systemAssignment.version,
+      userPromptVersion: userAssignment.version,
       systemPromptLength: systemPrompt.length,
       userPromptLength: userPrompt.length,
+      materialCount: materials?.materials.length ?? 0,
+      excerptCount: materials?.excerpts.length ?? 0,
     });
 
-    let responseContent: string | null = null;
-    let usedProvider: 'claude' | 'perplexity' | null = null;
-
-    // Try Claude first (primary provider)
-    if (LLM_CONFIG.claude.apiKey) {
-      console.log('\n🤖 PRIMARY PROVIDER: Claude');
-      console.log('→ Model:', LLM_CONFIG.claude.model);
-      console.log('→ Max Tokens:', LLM_CONFIG.claude.maxTokens);
-      console.log('→ Temperature:', LLM_CONFIG.claude.temperature);
-
-      for (let attempt = 1; attempt <= LLM_CONFIG.retries + 1; attempt++) {
-        try {
-          console.log(`\n⏳ Attempt ${attempt}/${LLM_CONFIG.retries + 1}: Calling Claude...`);
-
-          logger.info('dynamic_questions.claude.request', `Calling Claude (attempt ${attempt})`, {
-            blueprintId,
-            attemptNumber: attempt,
-            model: LLM_CONFIG.claude.model,
-          });
-
-          responseContent = await callClaude(systemPrompt, userPrompt);
-          usedProvider = 'claude';
-
-          console.log('✅ Claude succeeded on attempt', attempt);
-
-          logger.info('dynamic_questions.claude.success', 'Claude generation successful', {
-            blueprintId,
-            attemptNumber: attempt,
-          });
-
-          break; // Success, exit retry loop
-        } catch (error) {
-          console.error(
-            `❌ Attempt ${attempt} failed:`,
-            error instanceof Error ? error.message : String(error)
-          );
-
-          logger.warn('dynamic_questions.claude.error', `Claude attempt ${attempt} failed`, {
-            blueprintId,
-            error: error instanceof Error ? error.message : String(error),
-            attemptNumber: attempt,
-          });
-
-          if (attempt < LLM_CONFIG.retries + 1) {
-            const delay = Math.pow(2, attempt - 1) * 1000; // Exponential backoff
-            console.log(`⏳ Retrying in ${delay}ms...`);
-            logger.debug('dynamic_questions.claude.retry', `Retrying Claude after delay`, {
-              blueprintId,
-              delay,
-            });
-            await new Promise((resolve) => setTimeout(resolve, delay));
-          }
-        }
-      }
-    } else {
-      console.log('\n⚠️  Claude API key not configured, skipping to fallback');
-      logger.warn(
-        'dynamic_questions.claude.skipped',
-        'Claude API key not configured, skipping to Perplexity',
-        {
-          blueprintId,
-        }
-      );
-    }
-
-    // Fallback to Perplexity if Claude failed or unavailable
-    if (!responseContent && LLM_CONFIG.perplexity.apiKey) {
-      console.log('\n🔄 FALLBACK PROVIDER: Perplexity');
-      console.log('→ Model:', LLM_CONFIG.perplexity.model);
-      console.log('→ Max Tokens:', LLM_CONFIG.perplexity.maxTokens);
-      console.log('→ Temperature:', LLM_CONFIG.perplexity.temperature);
-
-      logger.info('dynamic_questions.perplexity.fallback', 'Falling back to Perplexity', {
-        blueprintId,
-      });
+    console.log('\n🤖 Generating through provider gateway');
 
-      for (let attempt = 1; attempt <= LLM_CONFIG.retries + 1; attempt++) {
+    const response = await getProviderGateway().generate(
+      {
+        system: systemPrompt,
+        prompt: userPrompt,
+        maxTokens: LLM_CONFIG.maxTokens,
+        temperature: LLM_CONFIG.temperature,
+        timeoutMs: LLM_CONFIG.timeout,
+        maxRetries: LLM_CONFIG.retries + 1,
+        usage: userId ? { userId, blueprintId, purpose: 'dynamic_questions' } : undefined,
+      },
+      // Parsing inside the gateway sends malformed output down the cascade
+      (text) => {
         try {
-          console.log(`\n⏳ Attempt ${attempt}/${LLM_CONFIG.retries + 1}: Calling Perplexity...`);
-
-          logger.info(
-            'dynamic_questions.perplexity.request',
-            `Calling Perplexity (attempt ${attempt})`,
-            {
-              blueprintId,
-              attemptNumber: attempt,
-              model: LLM_CONFIG.perplexity.model,
-            }
-          );
-
-          responseContent = await callPerplexity(systemPrompt, userPrompt);
-          usedProvider = 'perplexity';
-
-          console.log('✅ Perplexity succeeded on attempt', attempt);
-
-          logger.info('dynamic_questions.perplexity.success', 'Perplexity generation successful', {
-            blueprintId,
-            attemptNumber: attempt,
-          });
-
-          break; // Success, exit retry loop
-        } catch (error) {
-          logger.error(
-            'dynamic_questions.perplexity.error',
-            `Perplexity attempt ${attempt} failed`,
-            {
-              blueprintId,
-              error: error instanceof Error ? error.message : String(error),
-              attemptNumber: attempt,
-            }
-          );
-
-          if (attempt < LLM_CONFIG.retries + 1) {
-            const delay = Math.pow(2, attempt - 1) * 1000;
-            logger.debug('dynamic_questions.perplexity.retry', `Retrying Perplexity after delay`, {
-              blueprintId,
-              delay,
-            });
-            await new Promise((resolve) => setTimeout(resolve, delay));
-          }
+          return extractAndValidateJSON(text);
+        } catch (parseError) {
+          validationFailures++;
+          throw parseError;
         }
       }
-    } else if (!responseContent) {
-      logger.error('dynamic_questions.perplexity.skipped', 'Perplexity API key not configured', {
-        blueprintId,
-      });
-    }
-
-    if (!responseContent) {
-      console.error('\n❌ ALL PROVIDERS FAILED');
-      console.error('- Claude: Failed or not configured');
-      console.error('- Perplexity: Failed or not configured');
-      console.log('========================================\n');
-      throw new Error('All generation providers failed. Please check API keys and try again.');
-    }
+    );
+    const result = response.data;
+    await recordRun(
+      true,
+      (result.metadata as { truncationRepaired?: boolean } | undefined)?.truncationRepaired === true
+    );
+    const usedProvider = response.provider;
 
-    // Extract and validate JSON
-    console.log('\n🔍 Parsing and validating response...');
-    const result = extractAndValidateJSON(responseContent);
     console.log('✓ Response validated successfully');
 
     const duration = Date.now() - startTime;
@@ -837,7 +639,7 @@ export async function generateDynamicQuestionsV2(
     }, 0);
 
     console.log('\n✨ GENERATION COMPLETE');
-    console.log('→ Provider Used:', usedProvider?.toUpperCase() || 'UNKNOWN');
+    console.log('→ Provider Used:', usedProvider.toUpperCase());
     console.log('→ Sections Generated:', resultTyped.sections.length);
     console.log('→ Total Questions:', questionCount);
     console.log('→ Duration:', duration + 'ms (' + (duration / 1000).toFixed(2) + 's)');
@@ -846,6 +648,9 @@ export async function generateDynamicQuestionsV2(
     logger.info('dynamic_questions.generation.complete', 'Successfully generated questions', {
       blueprintId,
       provider: usedProvider,
+      model: response.model,
+      attempts: response.attempts,
+      fallbackUsed: response.fallbackUsed,
       sectionCount: resultTyped.sections.length,
       questionCount,
       duration,
@@ -854,6 +659,7 @@ export async function generateDynamicQuestionsV2(
     return result;
   } catch (error) {
     const duration = Date.now() - startTime;
+    await recordRun(false);
 
     console.error('\n❌ GENERATION SERVICE ERROR');
     console.error('Error:', error instanceof Error ? error.message : String(error));
@@ -72,7 +72,7 @@ export interface ResourcesData {
   };
   contentStrategy: {
     source: 'scratch' | 'adapt' | 'license' | 'curate' | 'hybrid';
-    existingMaterials?: string[]; // File paths or URLs
+    existingMaterials?: string[]; // Ids of uploaded course_materials rows
   };
 }
 
@@ -27,6 +27,17 @@ export interface ReportTheme {
   spacing: 'tight' | 'normal' | 'relaxed';
 }
 
+export const DEFAULT_REPORT_THEME: ReportTheme = {
+  primaryColor: '#a7dada',
+  accentColor: '#e6b89c',
+  fontFamily: 'Inter',
+  spacing: 'normal',
+};
+
+/**
+ * Sidebar annotation shape. Section comments are persisted server-side
+ * (see blueprintCommentService); this store no longer keeps local notes.
+ */
 export interface Annotation {
   id: string;
   sectionId: string;
@@ -59,9 +70,6 @@ export interface BlueprintState {
   customReports: CustomReport[];
   activeReportId: string | null;
 
-  // Annotations
-  annotations: Record<string, Annotation[]>;
-
   // AI features
   aiRecommendations: string[];
   aiInsights: Record<string, string>;
@@ -87,13 +95,6 @@ export interface BlueprintState {
   deleteCustomReport: (reportId: string) => void;
   setActiveReport: (reportId: string | null) => void;
 
-  addAnnotation: (
-    sectionId: string,
-    annotation: Omit<Annotation, 'id' | 'createdAt' | 'updatedAt'>
-  ) => void;
-  updateAnnotation: (sectionId: string, annotationId: string, content: string) => void;
-  deleteAnnotation: (sectionId: string, annotationId: string) => void;
-
   setAiRecommendations: (recommendations: string[]) => void;
   setAiInsight: (sectionId: string, insight: string) => void;
 
@@ -119,8 +120,6 @@ const initialState = {
   customReports: [],
   activeReportId: null,
 
-  annotations: {},
-
   aiRecommendations: [],
   aiInsights: {},
 };
@@ -211,53 +210,6 @@ export const useBlueprintStore = create<BlueprintState>()(
 
       setActiveReport: (reportId) => set({ activeReportId: reportId }),
 
-      // Annotation actions
-      addAnnotation: (sectionId, annotation) =>
-        set((state) => {
-          const newAnnotation: Annotation = {
-            ...annotation,
-            id: `annotation-${Date.now()}`,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          };
-
-          const currentAnnotations = state.annotations[sectionId] || [];
-          return {
-            annotations: {
-              ...state.annotations,
-              [sectionId]: [...currentAnnotations, newAnnotation],
-            },
-          };
-        }),
-
-      updateAnnotation: (sectionId, annotationId, content) =>
-        set((state) => {
-          const annotations = state.annotations[sectionId];
-          if (!annotations) return {};
-
-          return {
-            annotations: {
-              ...state.annotations,
-              [sectionId]: annotations.map((a) =>
-                a.id === annotationId ? { ...a, content, updatedAt: new Date() } : a
-              ),
-            },
-          };
-        }),
-
-      deleteAnnotation: (sectionId, annotationId) =>
-        set((state) => {
-          const annotations = state.annotations[sectionId];
-          if (!annotations) return {};
-
-          return {
-            annotations: {
-              ...state.annotations,
-              [sectionId]: annotations.filter((a) => a.id !== annotationId),
-            },
-          };
-        }),
-
       // AI actions
       setAiRecommendations: (recommendations) => set({ aiRecommendations: recommendations }),
 
@@ -284,7 +236,6 @@ export const useBlueprintStore = create<BlueprintState>()(
         pinnedSections: state.pinnedSections,
         hiddenSections: state.hiddenSections,
         customReports: state.customReports,
-        annotations: state.annotations,
       }),
     }
   )
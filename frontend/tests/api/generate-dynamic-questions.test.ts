@@ -126,7 +126,12 @@ describe('/api/generate-dynamic-questions', () => {
       expect(Array.isArray(section.questions)).toBe(true);
       expect(section.questions.length).toBeGreaterThan(0);
     }
-    expect(mockGenerate).toHaveBeenCalledWith(blueprintId, mockBlueprint.static_answers);
+    expect(mockGenerate).toHaveBeenCalledWith(
+      blueprintId,
+      mockBlueprint.static_answers,
+      null,
+      'test-user-id'
+    );
   });
 
   it('should return 404 if blueprint not found', async () => {
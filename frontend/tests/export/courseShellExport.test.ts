@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  buildCourseOutline,
+  classifyActivity,
+  listShellActivities,
+  parseGradePass,
+  type CourseOutline,
+} from '@/lib/export/lms/courseOutline';
+import {
+  buildCommonCartridgeFiles,
+  buildCommonCartridgePackage,
+  CC_COMPLETION_PATH,
+} from '@/lib/export/lms/commonCartridge';
+import {
+  buildMoodleBackupFiles,
+  planMoodleCompletion,
+  planMoodleCourse,
+} from '@/lib/export/lms/moodleBackup';
+import type { BlueprintJSON } from '@/components/features/blueprints/types';
+
+const blueprint = {
+  metadata: { title: 'Sales Onboarding' },
+  executive_summary: { content: 'Get new sellers productive in 30 days.' },
+  learning_objectives: { objectives: [{ id: '1', title: 'Qualify leads', description: '' }] },
+  content_outline: {
+    modules: [
+      {
+        module_id: 'm1',
+        title: 'Product Basics',
+        description: 'What we sell',
+        duration: '2 hours',
+        delivery_method: 'Self-paced',
+        topics: ['Catalog'],
+        learning_activities: [
+          { activity: 'Catalog walkthrough', type: 'Video', duration: '20 min' },
+          { activity: 'Pricing case study', type: 'Case Study', duration: '45 min' },
+        ],
+        assessment: { type: 'Knowledge check quiz', description: 'Ten questions' },
+      },
+      {
+        module_id: 'm2',
+        title: 'Discovery Calls & Demos',
+        description: '',
+        duration: '',
+        delivery_method: '',
+        topics: [],
+        learning_activities: [],
+        assessment: { type: 'Role-play', description: 'Recorded mock call' },
+      },
+    ],
+  },
+  assessment_strategy: {
+    overview: '',
+    kpis: [
+      {
+        metric: 'Final assessment score',
+        target: '80% or higher',
+        measurement_method: 'Quiz',
+        frequency: 'Once',
+      },
+      {
+        metric: 'Time to first deal',
+        target: '30 days',
+        measurement_method: 'CRM',
+        frequency: 'Monthly',
+      },
+    ],
+  },
+} as unknown as BlueprintJSON;
+
+function outline(): CourseOutline {
+  return buildCourseOutline(blueprint, { blueprintId: 'bp-1', title: 'Sales Onboarding' });
+}
+
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+}
+
+function text(doc: Document | Element, tag: string): string | null {
+  return doc.getElementsByTagName(tag)[0]?.textContent ?? null;
+}
+
+describe('course shell mapping', () => {
+  it('classifies activities into pages, quizzes and assignments', () => {
+    expect(classifyActivity('Video')).toBe('page');
+    expect(classifyActivity('Knowledge check')).toBe('quiz');
+    expect(classifyActivity('Case Study')).toBe('assign');
+  });
+
+  it('turns score KPIs into a pass mark', () => {
+    expect(
+      parseGradePass({ metric: 'Final assessment score', target: '80%', measurement_method: '' })
+    ).toBe(80);
+    expect(
+      parseGradePass({ metric: 'Time to first deal', target: '30 days', measurement_method: 'CRM' })
+    ).toBeNull();
+    expect(
+      parseGradePass({ metric: 'Satisfaction', target: '90%', measurement_method: 'Survey' })
+    ).toBeNull();
+  });
+
+  it('lists activities followed by the module assessment', () => {
+    const [first, second] = outline().modules;
+
+    expect(listShellActivities(first).map((a) => [a.identifier, a.kind])).toEqual([
+      ['MOD_m1_ACT_1', 'page'],
+      ['MOD_m1_ACT_2', 'assign'],
+      ['MOD_m1_ASSESSMENT', 'quiz'],
+    ]);
+    // Assessments that are not quizzes become assignments
+    expect(listShellActivities(second).map((a) => a.kind)).toEqual(['assign']);
+  });
+});
+
+describe('IMS Common Cartridge export', () => {
+  it('builds a CC 1.3 manifest with a folder per module', () => {
+    const files = buildCommonCartridgeFiles(outline());
+    const doc = parseXml(files.get('imsmanifest.xml')!);
+
+    expect(doc.documentElement.namespaceURI).toBe(
+      'http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1'
+    );
+    expect(text(doc, 'schemaversion')).toBe('1.3.0');
+
+    const root = doc.getElementsByTagName('organization')[0].getElementsByTagName('item')[0];
+    const folders = Array.from(root.children).filter((el) => el.tagName === 'item');
+    expect(folders.map((f) => f.getAttribute('identifier'))).toEqual([
+      'ITEM_MOD_m1',
+      'ITEM_MOD_m2',
+      'ITEM_COMPLETION',
+    ]);
+    // Overview + 2 activities + assessment
+    expect(folders[0].getElementsByTagName('item')).toHaveLength(4);
+  });
+
+  it('uses the CC resource type for each activity kind', () => {
+    const doc = parseXml(buildCommonCartridgeFiles(outline()).get('imsmanifest.xml')!);
+    const typeOf = (id: string) =>
+      doc.querySelector(`resource[identifier="${id}"]`)?.getAttribute('type');
+
+    expect(typeOf('RES_MOD_m1_ACT_1')).toBe('webcontent');
+    expect(typeOf('RES_MOD_m1_ACT_2')).toBe('assignment_xmlv1p0');
+    expect(typeOf('RES_MOD_m1_ASSESSMENT')).toBe('imsqti_xmlv1p2/imscc_xmlv1p3/assessment');
+  });
+
+  it('packages every referenced file as well-formed content', async () => {
+    const zip = await JSZip.loadAsync(await buildCommonCartridgePackage(outline()));
+    const manifest = parseXml(await zip.file('imsmanifest.xml')!.async('string'));
+    const hrefs = Array.from(manifest.getElementsByTagName('file')).map(
+      (file) => file.getAttribute('href')!
+    );
+
+    expect(hrefs).toContain(CC_COMPLETION_PATH);
+    for (const href of hrefs) {
+      const file = zip.file(href);
+      expect(file, href).not.toBeNull();
+      if (href.endsWith('.xml')) parseXml(await file!.async('string'));
+    }
+  });
+});
+
+describe('Moodle backup export', () => {
+  const now = new Date('2025-01-15T00:00:00Z');
+
+  it('maps modules to sections after the general section', () => {
+    const sections = planMoodleCourse(outline());
+
+    expect(sections.map((s) => [s.number, s.title])).toEqual([
+      [0, ''],
+      [1, 'Product Basics'],
+      [2, 'Discovery Calls & Demos'],
+    ]);
+    expect(sections[1].activities.map((a) => a.kind)).toEqual(['page', 'page', 'assign', 'quiz']);
+  });
+
+  it('lists every section and activity in moodle_backup.xml', () => {
+    const files = buildMoodleBackupFiles(outline(), { now });
+    const doc = parseXml(files.get('moodle_backup.xml')!);
+
+    expect(text(doc, 'backup_date')).toBe(String(now.getTime() / 1000));
+    expect(text(doc, 'original_course_fullname')).toBe('Sales Onboarding');
+
+    for (const tag of ['activity', 'section']) {
+      const directories = Array.from(
+        doc.getElementsByTagName('contents')[0].getElementsByTagName(tag)
+      ).map((el) => text(el, 'directory')!);
+      expect(directories.length).toBeGreaterThan(0);
+      for (const directory of directories) {
+        const expected = tag === 'section' ? 'section.xml' : 'module.xml';
+        expect(files.has(`${directory}/${expected}`), directory).toBe(true);
+      }
+    }
+  });
+
+  it('keeps section sequences in step with the activities', () => {
+    const files = buildMoodleBackupFiles(outline(), { now });
+    const section = parseXml(files.get('sections/section_2/section.xml')!);
+    const ids = text(section, 'sequence')!.split(',');
+
+    expect(ids).toHaveLength(4);
+    for (const id of ids) {
+      const modulePath = Array.from(files.keys()).find((path) =>
+        new RegExp(`^activities/\\w+_${id}/module\\.xml$`).test(path)
+      );
+      expect(modulePath, id).toBeDefined();
+    }
+  });
+
+  it('derives course completion criteria from graded activities and KPIs', () => {
+    const course = outline();
+    const criteria = planMoodleCompletion(course, planMoodleCourse(course));
+
+    expect(criteria.filter((c) => c.criteriaType === 4)).toHaveLength(3);
+    expect(criteria.find((c) => c.criteriaType === 6)?.gradePass).toBe(80);
+
+    const completion = parseXml(buildMoodleBackupFiles(course, { now }).get('completion.xml')!);
+    const gradeCriterion = Array.from(
+      completion.getElementsByTagName('course_completion_criteria')
+    ).find((el) => text(el, 'criteriatype') === '6')!;
+    expect(text(gradeCriterion, 'gradepass')).toBe('80.00000');
+    expect(text(completion, 'method')).toBe('1');
+  });
+
+  it('produces well-formed XML throughout and escapes titles', () => {
+    const files = buildMoodleBackupFiles(outline(), { now });
+
+    for (const [path, content] of files) {
+      if (path.endsWith('.xml')) parseXml(content);
+    }
+    expect(files.get('sections/section_3/section.xml')).toContain(
+      '<name>Discovery Calls &amp; Demos</name>'
+    );
+    expect(files.get('course/course.xml')).toContain('<enablecompletion>1</enablecompletion>');
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  buildBlueprintDeck,
+  buildBlueprintPresentation,
+  buildPptxFiles,
+  planGantt,
+  selectDeckTheme,
+} from '@/lib/export/presentation';
+import { DEFAULT_REPORT_THEME, type CustomReport } from '@/store/blueprintStore';
+import type { BlueprintJSON } from '@/components/features/blueprints/types';
+
+const theme = {
+  primaryColor: '#1E3A8A',
+  accentColor: '#f59e0b',
+  fontFamily: '"Source Sans Pro", sans-serif',
+  spacing: 'tight' as const,
+};
+
+const blueprint = {
+  metadata: {
+    title: 'Sales Onboarding',
+    organization: 'Acme & Co',
+    role: 'L&D Lead',
+    generated_at: '2025-01-10T00:00:00Z',
+    version: '1',
+    model: 'test',
+  },
+  executive_summary: {
+    content: 'Get new sellers productive in 30 days. Cut ramp time by half.',
+  },
+  learning_objectives: {
+    objectives: Array.from({ length: 7 }, (_, i) => ({
+      id: String(i + 1),
+      title: `Objective ${i + 1}`,
+      description: '',
+      metric: 'Win rate',
+      baseline: '12%',
+      target: '20%',
+      due_date: '2025-06-30',
+    })),
+  },
+  instructional_strategy: {
+    overview: '',
+    modalities: [
+      { type: 'Self-paced', rationale: 'Flexible', allocation_percent: 60 },
+      { type: 'Live workshops', rationale: 'Practice', allocation_percent: 40 },
+    ],
+  },
+  implementation_timeline: {
+    phases: [
+      { phase: 'Design', start_date: '2025-01-01', end_date: '2025-01-31', milestones: [] },
+      { phase: 'Pilot', start_date: '2025-02-01', end_date: '2025-03-31', milestones: [] },
+    ],
+  },
+  risk_mitigation: {
+    risks: [
+      {
+        risk: 'Low manager buy-in',
+        probability: 'High',
+        impact: 'Medium',
+        mitigation_strategy: 'Brief managers early',
+      },
+    ],
+  },
+} as unknown as BlueprintJSON;
+
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+}
+
+function resolveTarget(source: string, target: string): string {
+  const parts = source.split('/').slice(0, -2);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+describe('Gantt planning', () => {
+  it('places dated phases on a shared axis with month ticks', () => {
+    const plan = planGantt(blueprint.implementation_timeline!.phases);
+
+    expect(plan.rows[0].start).toBe(0);
+    expect(plan.rows[1].end).toBe(1);
+    expect(plan.rows[0].end).toBeCloseTo(plan.rows[1].start, 5);
+    expect(plan.rows[0].dates).toBe('Jan 1 – Jan 31');
+    expect(plan.ticks.map((tick) => tick.label)).toEqual(['Jan 2025', 'Feb 2025', 'Mar 2025']);
+  });
+
+  it('falls back to sequential slots when dates are missing', () => {
+    const plan = planGantt([
+      { phase: 'Discover', start_date: 'Week 1', end_date: 'Week 2', milestones: [] },
+      { phase: 'Build', start_date: '', end_date: '', milestones: [] },
+    ]);
+
+    expect(plan.rows.map((row) => [row.start, row.end])).toEqual([
+      [0, 0.5],
+      [0.5, 1],
+    ]);
+    expect(plan.ticks).toEqual([]);
+  });
+});
+
+describe('blueprint deck', () => {
+  it('lays out a slide per section and paginates long tables', () => {
+    const deck = buildBlueprintDeck(blueprint, { title: 'Sales Onboarding', theme });
+
+    expect(deck.slides.map((slide) => slide.title)).toEqual([
+      'Sales Onboarding',
+      'Executive Summary',
+      'Learning Objectives',
+      'Learning Objectives (cont.)',
+      'Instructional Strategy',
+      'Implementation Timeline',
+      'Risks & Mitigation',
+    ]);
+    expect(deck.slides[4].charts[0]).toMatchObject({
+      kind: 'pie',
+      categories: ['Self-paced', 'Live workshops'],
+      values: [60, 40],
+    });
+  });
+
+  it('refuses a blueprint with nothing to present', () => {
+    expect(() =>
+      buildBlueprintDeck({ metadata: blueprint.metadata } as BlueprintJSON, {
+        title: 'Empty',
+        theme,
+      })
+    ).toThrow('Blueprint has no sections to present');
+  });
+
+  it('prefers the latest presentation report theme', () => {
+    const report = (id: string, layout: CustomReport['layout'], updatedAt: string) =>
+      ({ id, layout, updatedAt, theme: { ...theme, primaryColor: id } }) as unknown as CustomReport;
+
+    expect(selectDeckTheme([])).toBe(DEFAULT_REPORT_THEME);
+    expect(
+      selectDeckTheme([
+        report('#111111', 'presentation', '2025-01-01'),
+        report('#222222', 'document', '2025-02-01'),
+        report('#333333', 'presentation', '2025-01-15'),
+      ]).primaryColor
+    ).toBe('#333333');
+  });
+});
+
+describe('PPTX package', () => {
+  const now = new Date('2025-01-15T00:00:00Z');
+
+  it('declares every part and resolves every relationship', async () => {
+    const deck = buildBlueprintDeck(blueprint, { title: 'Sales Onboarding', theme });
+    const files = await buildPptxFiles(deck, { now });
+    const contentTypes = parseXml(files.get('[Content_Types].xml') as string);
+    const overrides = Array.from(contentTypes.getElementsByTagName('Override')).map((el) =>
+      el.getAttribute('PartName')
+    );
+
+    for (const [path, content] of files) {
+      if (typeof content !== 'string') continue;
+      const doc = parseXml(content);
+      if (path.endsWith('.xml') && !path.startsWith('[')) {
+        expect(overrides, path).toContain(`/${path}`);
+      }
+      if (path.endsWith('.rels')) {
+        for (const rel of Array.from(doc.getElementsByTagName('Relationship'))) {
+          const target = resolveTarget(path, rel.getAttribute('Target')!);
+          expect(files.has(target), `${path} -> ${target}`).toBe(true);
+        }
+      }
+    }
+
+    const presentation = parseXml(files.get('ppt/presentation.xml') as string);
+    expect(presentation.getElementsByTagName('p:sldId')).toHaveLength(deck.slides.length);
+  });
+
+  it('applies the report theme colours and font', async () => {
+    const files = await buildPptxFiles(
+      buildBlueprintDeck(blueprint, { title: 'Sales Onboarding', theme }),
+      { now }
+    );
+    const themeXml = parseXml(files.get('ppt/theme/theme1.xml') as string);
+    const accent = (name: string) =>
+      themeXml
+        .getElementsByTagName(name)[0]
+        .getElementsByTagName('a:srgbClr')[0]
+        .getAttribute('val');
+
+    expect(accent('a:accent1')).toBe('1E3A8A');
+    expect(accent('a:accent2')).toBe('F59E0B');
+    expect(
+      themeXml.getElementsByTagName('a:majorFont')[0].firstElementChild?.getAttribute('typeface')
+    ).toBe('Source Sans Pro');
+  });
+
+  it('renders objectives, risks and charts as native, editable objects', async () => {
+    const zip = await JSZip.loadAsync(
+      await buildBlueprintPresentation(blueprint, { title: 'Sales Onboarding', theme, now })
+    );
+    const objectives = parseXml(await zip.file('ppt/slides/slide3.xml')!.async('string'));
+    const cells = Array.from(objectives.getElementsByTagName('a:tc')).map((tc) => tc.textContent);
+    expect(cells.slice(0, 5)).toEqual(['Objective', 'Metric', 'Baseline', 'Target', 'Due']);
+    expect(cells.slice(5, 10)).toEqual(['Objective 1', 'Win rate', '12%', '20%', 'Jun 30, 2025']);
+
+    const risks = parseXml(await zip.file('ppt/slides/slide7.xml')!.async('string'));
+    const probability = Array.from(risks.getElementsByTagName('a:tc')).find(
+      (tc) => tc.textContent === 'High'
+    )!;
+    expect(
+      probability
+        .getElementsByTagName('a:tcPr')[0]
+        .getElementsByTagName('a:srgbClr')[1]
+        .getAttribute('val')
+    ).toBe('F8D7DA');
+
+    const chart = parseXml(await zip.file('ppt/charts/chart1.xml')!.async('string'));
+    expect(chart.getElementsByTagName('c:pieChart')).toHaveLength(1);
+    const values = chart.getElementsByTagName('c:numCache')[0].getElementsByTagName('c:v');
+    expect(Array.from(values).map((v) => v.textContent)).toEqual(['60', '40']);
+
+    const workbook = await JSZip.loadAsync(
+      await zip.file('ppt/embeddings/Microsoft_Excel_Worksheet1.xlsx')!.async('uint8array')
+    );
+    const sheet = await workbook.file('xl/worksheets/sheet1.xml')!.async('string');
+    expect(sheet).toContain('<t>Live workshops</t>');
+  });
+
+  it('escapes text from the blueprint', async () => {
+    const files = await buildPptxFiles(
+      buildBlueprintDeck(blueprint, { title: 'Sales Onboarding', theme }),
+      { now }
+    );
+    expect(files.get('ppt/slides/slide1.xml')).toContain('Acme &amp; Co');
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  buildCourseOutline,
+  readTargetLms,
+  type CourseOutline,
+} from '@/lib/export/lms/courseOutline';
+import {
+  buildScormFiles,
+  buildScormManifest,
+  buildScormPackage,
+  globalObjectiveId,
+  SCORM_RUNTIME_PATH,
+} from '@/lib/export/lms/scormPackage';
+import type { BlueprintJSON } from '@/components/features/blueprints/types';
+
+const blueprint = {
+  metadata: { title: 'Sales Onboarding', organization: 'Acme & Co' },
+  executive_summary: { content: 'Get new sellers productive in 30 days.' },
+  learning_objectives: {
+    objectives: [
+      { id: 'obj-1', title: 'Qualify leads', description: 'Use BANT to qualify' },
+      { id: 'obj-1', title: 'Handle objections', description: '' },
+    ],
+  },
+  content_outline: {
+    modules: [
+      {
+        module_id: 'm1',
+        title: 'Product <Basics>',
+        description: 'What we sell',
+        duration: '2 hours',
+        delivery_method: 'Self-paced',
+        topics: ['Catalog', 'Pricing'],
+        learning_activities: [{ activity: 'Product quiz', type: 'Quiz', duration: '15 min' }],
+        assessment: { type: 'Quiz', description: 'Ten questions' },
+      },
+      {
+        module_id: 'm2',
+        title: 'Discovery Calls',
+        description: '',
+        duration: '',
+        delivery_method: '',
+        topics: [],
+        learning_activities: [],
+        assessment: { type: '', description: '' },
+      },
+    ],
+  },
+} as unknown as BlueprintJSON;
+
+function outline(): CourseOutline {
+  return buildCourseOutline(blueprint, {
+    blueprintId: '5b1c-42',
+    title: 'Sales Onboarding',
+    targetLms: 'Moodle',
+  });
+}
+
+function parseManifest(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+}
+
+describe('buildCourseOutline', () => {
+  it('maps modules and objectives with unique XML ids', () => {
+    const course = outline();
+
+    expect(course.identifier).toBe('POLARIS_5b1c-42');
+    expect(course.description).toBe('Get new sellers productive in 30 days.');
+    expect(course.modules.map((m) => m.identifier)).toEqual(['MOD_m1', 'MOD_m2']);
+    expect(course.objectives.map((o) => o.identifier)).toEqual(['OBJ_obj-1', 'OBJ_obj-1_2']);
+    expect(course.modules[0].activities).toEqual([
+      { title: 'Product quiz', type: 'Quiz', duration: '15 min', kind: 'quiz' },
+    ]);
+    expect(course.modules[1].assessment).toBeNull();
+  });
+
+  it('throws when there are no modules', () => {
+    expect(() =>
+      buildCourseOutline({ content_outline: { modules: [] } } as unknown as BlueprintJSON, {
+        blueprintId: 'x',
+      })
+    ).toThrow('no content outline modules');
+  });
+
+  it('reads the target LMS from the static questionnaire', () => {
+    expect(readTargetLms({ resources: { technology: { lms: ' Cornerstone ' } } })).toBe(
+      'Cornerstone'
+    );
+    expect(readTargetLms({ resources: {} })).toBeNull();
+    expect(readTargetLms(null)).toBeNull();
+  });
+});
+
+describe('buildScormManifest', () => {
+  it('builds a SCORM 1.2 manifest with one SCO per module', () => {
+    const doc = parseManifest(buildScormManifest(outline(), '1.2'));
+    const manifest = doc.documentElement;
+
+    expect(manifest.namespaceURI).toBe('http://www.imsproject.org/xsd/imscp_rootv1p1p2');
+    expect(doc.getElementsByTagName('schemaversion')[0].textContent).toBe('1.2');
+
+    const items = Array.from(doc.getElementsByTagName('item'));
+    expect(items.map((i) => i.getAttribute('identifierref'))).toEqual(['RES_MOD_m1', 'RES_MOD_m2']);
+    expect(items[0].getElementsByTagName('title')[0].textContent).toBe('Product <Basics>');
+
+    const scos = Array.from(doc.getElementsByTagName('resource')).filter(
+      (r) => r.getAttribute('adlcp:scormtype') === 'sco'
+    );
+    expect(scos).toHaveLength(2);
+    expect(doc.getElementsByTagName('imsss:sequencing')).toHaveLength(0);
+  });
+
+  it('maps learning objectives to global objectives in SCORM 2004', () => {
+    const course = outline();
+    const doc = parseManifest(buildScormManifest(course, '2004'));
+
+    expect(doc.getElementsByTagName('schemaversion')[0].textContent).toBe('2004 4th Edition');
+
+    const item = doc.getElementsByTagName('item')[0];
+    const primary = item.getElementsByTagName('imsss:primaryObjective')[0];
+    expect(primary.getAttribute('objectiveID')).toBe('MOD_m1_COMPLETE');
+
+    const mapInfo = Array.from(item.getElementsByTagName('imsss:mapInfo'));
+    expect(mapInfo.map((m) => m.getAttribute('targetObjectiveID'))).toEqual([
+      globalObjectiveId(course, 'OBJ_obj-1'),
+      globalObjectiveId(course, 'OBJ_obj-1_2'),
+    ]);
+    expect(mapInfo[0].getAttribute('writeSatisfiedStatus')).toBe('false');
+
+    const scos = Array.from(doc.getElementsByTagName('resource')).filter(
+      (r) => r.getAttribute('adlcp:scormType') === 'sco'
+    );
+    expect(scos).toHaveLength(2);
+  });
+
+  it('uses identifiers that are unique across the manifest', () => {
+    const doc = parseManifest(buildScormManifest(outline(), '2004'));
+    const ids = Array.from(doc.querySelectorAll('[identifier]')).map((el) =>
+      el.getAttribute('identifier')
+    );
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('buildScormPackage', () => {
+  it('includes every file the manifest references', async () => {
+    const course = outline();
+    const zip = await JSZip.loadAsync(await buildScormPackage(course, '2004'));
+
+    const manifestXml = await zip.file('imsmanifest.xml')!.async('string');
+    const hrefs = Array.from(parseManifest(manifestXml).getElementsByTagName('file')).map(
+      (file) => file.getAttribute('href')!
+    );
+
+    expect(hrefs).toContain(SCORM_RUNTIME_PATH);
+    for (const href of hrefs) {
+      expect(zip.file(href), href).not.toBeNull();
+    }
+  });
+
+  it('renders module pages wired to the runtime', () => {
+    const files = buildScormFiles(outline(), '1.2');
+    const page = files.get('modules/01-product-basics/index.html')!;
+
+    expect(page).toContain('<h1>Product &lt;Basics&gt;</h1>');
+    expect(page).toContain('data-scorm-version="1.2"');
+    expect(page).toContain('data-objectives="OBJ_obj-1 OBJ_obj-1_2"');
+    expect(page).toContain(`src="../../${SCORM_RUNTIME_PATH}"`);
+    expect(page).toContain('id="complete-module"');
+  });
+});
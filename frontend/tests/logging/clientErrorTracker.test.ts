@@ -139,6 +139,19 @@ describe('Client Error Tracker', () => {
       expect(callBody.metadata.action).toBe('button-click');
       expect(callBody.metadata.data).toEqual({ foo: 'bar' });
     });
+
+    it('should remember the last captured error', async () => {
+      clientErrorTracker.captureError(new Error('First error'));
+      clientErrorTracker.captureError(new Error('Latest error'), { type: 'unhandledrejection' });
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(clientErrorTracker.getLastError()).toMatchObject({
+        message: 'Latest error',
+        type: 'unhandledrejection',
+        url: window.location.href,
+      });
+    });
   });
 
   describe('Error Queueing', () => {
@@ -0,0 +1,80 @@
+/**
+ * Tests for blueprint comment threading and @mention resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCommentThreads,
+  getCollaboratorName,
+  resolveMentions,
+  type BlueprintCollaborator,
+  type BlueprintComment,
+} from '@/lib/services/blueprintCommentService';
+
+const collaborators: BlueprintCollaborator[] = [
+  { userId: 'user-1', email: 'ana@example.com', fullName: 'Ana Silva' },
+  { userId: 'user-2', email: 'raj.k@example.com', fullName: null },
+];
+
+function comment(overrides: Partial<BlueprintComment>): BlueprintComment {
+  return {
+    id: 'c1',
+    blueprintId: 'bp-1',
+    sectionId: 'learning_objectives',
+    parentId: null,
+    authorId: 'user-1',
+    authorName: 'Ana Silva',
+    body: 'Looks good',
+    mentions: [],
+    resolvedAt: null,
+    resolvedBy: null,
+    createdAt: '2025-11-06T10:00:00.000Z',
+    updatedAt: '2025-11-06T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('resolveMentions', () => {
+  it('matches full emails and local parts case-insensitively', () => {
+    expect(resolveMentions('cc @ANA@example.com and @raj.k', collaborators)).toEqual([
+      'user-1',
+      'user-2',
+    ]);
+  });
+
+  it('ignores trailing punctuation and duplicate mentions', () => {
+    expect(resolveMentions('@ana, can you check? Thanks @ana.', collaborators)).toEqual(['user-1']);
+  });
+
+  it('skips handles that are not collaborators', () => {
+    expect(resolveMentions('@someone@else.com please review', collaborators)).toEqual([]);
+  });
+});
+
+describe('getCollaboratorName', () => {
+  it('falls back from full name to email local part to a generic label', () => {
+    expect(getCollaboratorName(collaborators[0])).toBe('Ana Silva');
+    expect(getCollaboratorName(collaborators[1])).toBe('raj.k');
+    expect(getCollaboratorName(undefined)).toBe('Collaborator');
+  });
+});
+
+describe('buildCommentThreads', () => {
+  it('nests replies under their thread in chronological order', () => {
+    const threads = buildCommentThreads([
+      comment({ id: 'r2', parentId: 't1', createdAt: '2025-11-06T12:00:00.000Z' }),
+      comment({ id: 't2', createdAt: '2025-11-06T11:00:00.000Z' }),
+      comment({ id: 'r1', parentId: 't1', createdAt: '2025-11-06T10:30:00.000Z' }),
+      comment({ id: 't1' }),
+    ]);
+
+    expect(threads.map((t) => t.id)).toEqual(['t1', 't2']);
+    expect(threads[0].replies.map((r) => r.id)).toEqual(['r1', 'r2']);
+    expect(threads[1].replies).toEqual([]);
+  });
+
+  it('drops replies whose thread is missing', () => {
+    const threads = buildCommentThreads([comment({ id: 'r1', parentId: 'gone' })]);
+    expect(threads).toEqual([]);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Tests for the asynchronous blueprint generation job runner and in-process worker
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  runBlueprintGenerationJob,
+  buildGenerationContext,
+} from '@/lib/services/blueprintGenerationJobRunner';
+import {
+  InMemoryGenerationJobStore,
+  isStaleJob,
+  STALE_JOB_MS,
+  type BlueprintGenerationJob,
+  type GenerationJobUpdate,
+} from '@/lib/services/generationJobStore';
+import { GenerationWorker } from '@/lib/queue/generationWorker';
+import type { GenerationResult } from '@/lib/services/blueprintGenerationService';
+
+vi.mock('@/lib/services/blueprintGenerationService', () => ({
+  blueprintGenerationService: { generate: vi.fn() },
+}));
+
+vi.mock('@/lib/services/blueprintMarkdownConverter', () => ({
+  convertBlueprintToMarkdown: vi.fn(() => '# Test Blueprint'),
+}));
+
+vi.mock('@/lib/services/blueprintUsageService', () => ({
+  BlueprintUsageService: { incrementSavingCount: vi.fn(async () => ({ success: true })) },
+}));
+
+vi.mock('@/lib/logging', () => ({
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+const staticAnswers = {
+  section_1_role_experience: { current_role: 'L&D Manager' },
+  section_2_organization: { organization_name: 'Test Corp', industry_sector: 'Finance' },
+  section_3_learning_gap: { learning_gap_description: 'Test gap' },
+};
+
+function createSupabaseMock() {
+  const updates: Array<Record<string, unknown>> = [];
+
+  const supabase = {
+    from: vi.fn(() => ({
+      select: vi.fn(() => ({
+        eq: vi.fn(() => ({
+          eq: vi.fn(() => ({
+            single: vi.fn(async () => ({
+              data: {
+                id: 'bp-1',
+                user_id: 'user-1',
+                static_answers: staticAnswers,
+                dynamic_answers: { s1_q1: 'answer' },
+              },
+              error: null,
+            })),
+          })),
+        })),
+      })),
+      update: vi.fn((values: Record<string, unknown>) => {
+        updates.push(values);
+        return {
+          eq: vi.fn(() => ({
+            eq: vi.fn(async () => ({ error: null })),
+          })),
+        };
+      }),
+    })),
+  };
+
+  return { supabase: supabase as any, updates };
+}
+
+function successResult(): GenerationResult {
+  return {
+    success: true,
+    blueprint: { metadata: { title: 'Generated Blueprint' } },
+    metadata: {
+      model: 'claude-sonnet-4-5',
+      duration: 1000,
+      timestamp: new Date().toISOString(),
+      fallbackUsed: false,
+      attempts: 1,
+    },
+    usage: { input_tokens: 1200, output_tokens: 9000 },
+  };
+}
+
+describe('runBlueprintGenerationJob', () => {
+  let store: InMemoryGenerationJobStore;
+
+  beforeEach(() => {
+    store = new InMemoryGenerationJobStore();
+  });
+
+  it('streams tracer steps and token usage into the job and marks it succeeded', async () => {
+    const { supabase, updates } = createSupabaseMock();
+    const job = await store.create('bp-1', 'user-1');
+
+    const service = {
+      generate: vi.fn(async (_context, handlers) => {
+        handlers.onStep?.({ step: 'start', timestamp: new Date().toISOString() });
+        handlers.onStep?.({ step: 'model-request', timestamp: new Date().toISOString() });
+        handlers.onUsage?.({ model: 'claude-sonnet-4-5', input_tokens: 1200, output_tokens: 9000 });
+        return successResult();
+      }),
+    };
+
+    const notify = vi.fn(async () => ({}));
+
+    const result = await runBlueprintGenerationJob(job.id, { supabase, store, service, notify });
+
+    expect(result?.status).toBe('succeeded');
+    expect(result?.attempts).toBe(1);
+    expect(result?.model).toBe('claude-sonnet-4-5');
+    expect(result?.inputTokens).toBe(1200);
+    expect(result?.outputTokens).toBe(9000);
+    expect(result?.steps.map((s) => s.step)).toEqual([
+      'start',
+      'model-request',
+      'saving',
+      'completed',
+    ]);
+    expect(updates.some((u) => u.status === 'completed' && u.title === 'Generated Blueprint')).toBe(
+      true
+    );
+    expect(notify).toHaveBeenCalledWith({
+      userId: 'user-1',
+      type: 'generation_completed',
+      data: { blueprintId: 'bp-1', blueprintTitle: 'Generated Blueprint' },
+      dedupeKey: `generation-completed:${job.id}`,
+    });
+  });
+
+  it('records failures on the job and marks the blueprint as errored', async () => {
+    const { supabase, updates } = createSupabaseMock();
+    const job = await store.create('bp-1', 'user-1');
+
+    const service = {
+      generate: vi.fn(async () => ({
+        ...successResult(),
+        success: false,
+        blueprint: null,
+        error: 'All Claude generation methods failed',
+      })),
+    };
+
+    const result = await runBlueprintGenerationJob(job.id, { supabase, store, service });
+
+    expect(result?.status).toBe('failed');
+    expect(result?.error).toBe('All Claude generation methods failed');
+    expect(result?.completedAt).not.toBeNull();
+    expect(updates).toContainEqual({ status: 'error' });
+  });
+
+  it('passes recent low section ratings to generation as guidance', async () => {
+    const { supabase } = createSupabaseMock();
+    const job = await store.create('bp-1', 'user-1');
+    const guidance = [
+      {
+        sectionId: 'resources',
+        lowRatingCount: 4,
+        userCount: 3,
+        comments: ['Budget figures are unrealistic'],
+      },
+    ];
+
+    const service = { generate: vi.fn(async () => successResult()) };
+
+    await runBlueprintGenerationJob(job.id, {
+      supabase,
+      store,
+      service,
+      notify: vi.fn(async () => ({})),
+      loadGuidance: vi.fn(async () => guidance),
+    });
+
+    expect(service.generate).toHaveBeenCalledWith(
+      expect.objectContaining({ sectionGuidance: guidance }),
+      expect.anything()
+    );
+  });
+
+  it('increments the attempt count when a failed job is retried', async () => {
+    const { supabase } = createSupabaseMock();
+    const job = await store.create('bp-1', 'user-1');
+    const service = {
+      generate: vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Request timeout'))
+        .mockResolvedValueOnce(successResult()),
+    };
+
+    const first = await runBlueprintGenerationJob(job.id, { supabase, store, service });
+    expect(first?.status).toBe('failed');
+
+    await store.update(job.id, { status: 'queued' });
+    const second = await runBlueprintGenerationJob(job.id, { supabase, store, service });
+
+    expect(second?.status).toBe('succeeded');
+    expect(second?.attempts).toBe(2);
+    expect(second?.error).toBeNull();
+  });
+
+  it('skips jobs that are already finished', async () => {
+    const { supabase } = createSupabaseMock();
+    const job = await store.create('bp-1', 'user-1');
+    await store.update(job.id, { status: 'succeeded' });
+    const service = { generate: vi.fn() };
+
+    const result = await runBlueprintGenerationJob(job.id, { supabase, store, service });
+
+    expect(result?.status).toBe('succeeded');
+    expect(service.generate).not.toHaveBeenCalled();
+  });
+
+  it('resolves instead of throwing when the job store is unavailable', async () => {
+    const { supabase } = createSupabaseMock();
+    const service = { generate: vi.fn() };
+    const brokenStore = {
+      create: store.create.bind(store),
+      findLatestForBlueprint: store.findLatestForBlueprint.bind(store),
+      update: store.update.bind(store),
+      claim: store.claim.bind(store),
+      get: vi.fn(async () => {
+        throw new Error('connection refused');
+      }),
+    };
+
+    await expect(
+      runBlueprintGenerationJob('job-1', { supabase, store: brokenStore, service })
+    ).resolves.toBeNull();
+    expect(service.generate).not.toHaveBeenCalled();
+  });
+
+  it('fails the job when it cannot be marked as running', async () => {
+    const { supabase, updates } = createSupabaseMock();
+    const job = await store.create('bp-1', 'user-1');
+    const service = { generate: vi.fn() };
+    const flakyStore = {
+      get: store.get.bind(store),
+      create: store.create.bind(store),
+      findLatestForBlueprint: store.findLatestForBlueprint.bind(store),
+      update: store.update.bind(store),
+      claim: vi.fn(async () => {
+        throw new Error('write failed');
+      }),
+    };
+
+    const result = await runBlueprintGenerationJob(job.id, {
+      supabase,
+      store: flakyStore,
+      service,
+    });
+
+    expect(result?.status).toBe('failed');
+    expect(result?.error).toBe('write failed');
+    expect(updates).toContainEqual({ status: 'error' });
+    expect(service.generate).not.toHaveBeenCalled();
+  });
+
+  it('leaves a job alone when another worker claims it first', async () => {
+    const { supabase, updates } = createSupabaseMock();
+    const job = await store.create('bp-1', 'user-1');
+    const service = { generate: vi.fn() };
+    const racingStore = {
+      get: store.get.bind(store),
+      create: store.create.bind(store),
+      findLatestForBlueprint: store.findLatestForBlueprint.bind(store),
+      update: store.update.bind(store),
+      claim: vi.fn(async (claimed: BlueprintGenerationJob, change: GenerationJobUpdate) => {
+        // The other worker's claim lands between our read and our claim
+        await store.update(claimed.id, { status: 'running' });
+        return store.claim(claimed, change);
+      }),
+    };
+
+    const result = await runBlueprintGenerationJob(job.id, {
+      supabase,
+      store: racingStore,
+      service,
+    });
+
+    expect(result).toBeNull();
+    expect(service.generate).not.toHaveBeenCalled();
+    expect(updates).toEqual([]);
+  });
+});
+
+describe('GenerationWorker', () => {
+  it('runs a job once even when enqueued repeatedly while in flight', async () => {
+    const { supabase } = createSupabaseMock();
+    const store = new InMemoryGenerationJobStore();
+    const job = await store.create('bp-1', 'user-1');
+    const service = { generate: vi.fn(async () => successResult()) };
+    const worker = new GenerationWorker(1);
+
+    const run = () => runBlueprintGenerationJob(job.id, { supabase, store, service });
+    const [a, b] = await Promise.all([worker.enqueue(job.id, run), worker.enqueue(job.id, run)]);
+
+    expect(a).toBe(b);
+    expect(service.generate).toHaveBeenCalledTimes(1);
+    expect(worker.isRunning(job.id)).toBe(false);
+    expect((await store.get(job.id))?.status).toBe('succeeded');
+  });
+});
+
+describe('job helpers', () => {
+  it('builds V2.0 generation context from stored answers', () => {
+    const context = buildGenerationContext('bp-1', 'user-1', staticAnswers, {});
+
+    expect(context.organization).toBe('Test Corp');
+    expect(context.role).toBe('L&D Manager');
+    expect(context.industry).toBe('Finance');
+  });
+
+  it('flags running jobs that stopped reporting progress as stale', async () => {
+    const store = new InMemoryGenerationJobStore();
+    const job = await store.update((await store.create('bp-1', 'user-1')).id, {
+      status: 'running',
+    });
+    const later = new Date(job.updatedAt).getTime() + STALE_JOB_MS + 1;
+
+    expect(isStaleJob(job)).toBe(false);
+    expect(isStaleJob(job, later)).toBe(true);
+    expect(isStaleJob({ ...job, status: 'failed' }, later)).toBe(false);
+  });
+});
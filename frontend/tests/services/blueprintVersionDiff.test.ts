@@ -0,0 +1,90 @@
+/**
+ * Tests for section-by-section blueprint version diffs
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffBlueprintVersions,
+  formatDiffValue,
+  getSectionTitle,
+} from '@/lib/services/blueprintVersionDiff';
+
+const v1 = {
+  metadata: { title: 'Sales Onboarding', version: '1' },
+  executive_summary: { content: 'Original summary', displayType: 'markdown' },
+  learning_objectives: {
+    title: 'Objectives',
+    objectives: [{ title: 'Know the product' }, { title: 'Run a demo' }],
+  },
+  risk_mitigation: { risks: [] },
+  _generation_metadata: { model: 'claude-sonnet-4-5' },
+};
+
+describe('diffBlueprintVersions', () => {
+  it('reports modified, added, removed and unchanged sections', () => {
+    const v2 = {
+      metadata: v1.metadata,
+      executive_summary: { content: 'Rewritten summary', displayType: 'markdown' },
+      learning_objectives: {
+        title: 'Objectives',
+        objectives: [{ title: 'Know the product' }, { title: 'Run a demo' }, { title: 'Close' }],
+      },
+      assessment_strategy: { overview: 'Quizzes' },
+      _generation_metadata: { model: 'claude-sonnet-4' },
+    };
+
+    const diff = diffBlueprintVersions(v1, v2);
+    const byId = Object.fromEntries(diff.sections.map((s) => [s.sectionId, s]));
+
+    expect(diff.summary).toEqual({ added: 1, removed: 1, modified: 2, unchanged: 1 });
+    expect(byId.metadata.change).toBe('unchanged');
+    expect(byId.assessment_strategy.change).toBe('added');
+    expect(byId.risk_mitigation.change).toBe('removed');
+    expect(byId.executive_summary.fields).toEqual([
+      { path: 'content', type: 'modified', before: 'Original summary', after: 'Rewritten summary' },
+    ]);
+    expect(byId.learning_objectives.fields).toEqual([
+      { path: 'objectives[2]', type: 'added', after: { title: 'Close' } },
+    ]);
+  });
+
+  it('ignores internal keys and keeps the newer section order', () => {
+    const diff = diffBlueprintVersions(v1, { ...v1, _generation_metadata: { model: 'other' } });
+
+    expect(diff.sections.map((s) => s.sectionId)).toEqual([
+      'metadata',
+      'executive_summary',
+      'learning_objectives',
+      'risk_mitigation',
+    ]);
+    expect(diff.summary.modified).toBe(0);
+  });
+
+  it('treats every section as added when there is no base version', () => {
+    const diff = diffBlueprintVersions(null, v1);
+
+    expect(diff.summary.added).toBe(4);
+    expect(diff.sections.every((s) => s.change === 'added')).toBe(true);
+  });
+
+  it('reports a type change at the section root', () => {
+    const diff = diffBlueprintVersions({ notes: 'text' }, { notes: { content: 'text' } });
+
+    expect(diff.sections[0].fields).toEqual([
+      { path: '', type: 'modified', before: 'text', after: { content: 'text' } },
+    ]);
+  });
+});
+
+describe('version diff helpers', () => {
+  it('uses the section title or a humanised key', () => {
+    expect(getSectionTitle('learning_objectives', { title: 'Objectives' })).toBe('Objectives');
+    expect(getSectionTitle('risk_mitigation', {})).toBe('Risk Mitigation');
+  });
+
+  it('truncates long values for display', () => {
+    expect(formatDiffValue('short')).toBe('short');
+    expect(formatDiffValue({ a: 1 })).toBe('{"a":1}');
+    expect(formatDiffValue('x'.repeat(200), 10)).toHaveLength(10);
+  });
+});
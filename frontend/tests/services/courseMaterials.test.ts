@@ -0,0 +1,221 @@
+/**
+ * Tests for course material extraction, chunking, retrieval and prompt context
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Document, Packer, Paragraph, TextRun } from 'docx';
+import {
+  buildMaterialsQuery,
+  chunkText,
+  detectMaterialKind,
+  extractMaterialText,
+  extractiveSummary,
+  formatMaterialsForPrompt,
+  getContentStrategy,
+  getSelectedMaterialIds,
+  rankChunks,
+  type CourseMaterialsContext,
+} from '@/lib/materials';
+import { buildBlueprintPresentation } from '@/lib/export/presentation';
+import { DEFAULT_REPORT_THEME } from '@/store/blueprintStore';
+import { buildUserPromptV2 } from '@/src/lib/services/dynamicQuestionGenerationV2';
+import { buildBlueprintPrompt } from '@/lib/claude/prompts';
+import type { BlueprintJSON } from '@/components/features/blueprints/types';
+
+const staticAnswers = {
+  section_1_role_experience: { current_role: 'Sales Enablement Lead' },
+  section_2_organization: {
+    organization_name: 'Acme',
+    industry_sector: 'Technology',
+    compliance_requirements: ['GDPR'],
+  },
+  section_3_learning_gap: {
+    learning_gap_description: 'New sellers struggle with discovery calls and objection handling',
+    content_strategy: 'adapt',
+    existing_materials: ['mat-1'],
+  },
+};
+
+const materialsContext: CourseMaterialsContext = {
+  strategy: 'adapt',
+  materials: [{ id: 'mat-1', fileName: 'playbook.pdf', summary: 'A 2019 sales playbook.' }],
+  excerpts: [
+    {
+      materialId: 'mat-1',
+      fileName: 'playbook.pdf',
+      chunkIndex: 2,
+      content: 'Discovery calls open with three $& questions.',
+    },
+  ],
+};
+
+describe('detectMaterialKind', () => {
+  it('prefers the extension and falls back to the MIME type', () => {
+    expect(detectMaterialKind('Notes.MD', 'text/plain')).toBe('markdown');
+    expect(detectMaterialKind('deck.pptx', '')).toBe('pptx');
+    expect(detectMaterialKind('upload', 'application/pdf')).toBe('pdf');
+    expect(detectMaterialKind('sheet.xlsx', 'application/octet-stream')).toBeNull();
+  });
+});
+
+describe('extractMaterialText', () => {
+  it('reads paragraphs from a Word document', async () => {
+    const doc = new Document({
+      sections: [
+        {
+          children: [
+            new Paragraph({ children: [new TextRun('Module 1: '), new TextRun('Discovery')] }),
+            new Paragraph('Ask open questions & listen.'),
+          ],
+        },
+      ],
+    });
+    const bytes = new Uint8Array(await Packer.toArrayBuffer(doc));
+
+    expect(await extractMaterialText(bytes, 'docx')).toBe(
+      'Module 1: Discovery\n\nAsk open questions & listen.'
+    );
+  });
+
+  it('reads slides of a PowerPoint deck in order', async () => {
+    const bytes = await buildBlueprintPresentation(
+      {
+        metadata: { title: 'Onboarding', organization: 'Acme' },
+        executive_summary: { content: 'Ramp new sellers in 30 days.' },
+      } as unknown as BlueprintJSON,
+      { title: 'Onboarding', theme: DEFAULT_REPORT_THEME }
+    );
+
+    const text = await extractMaterialText(bytes, 'pptx');
+    expect(text.indexOf('Onboarding')).toBeLessThan(text.indexOf('Executive Summary'));
+    expect(text).toContain('Ramp new sellers in 30 days.');
+  });
+
+  it('strips Markdown link targets and emphasis', async () => {
+    const bytes = new TextEncoder().encode(
+      '# Objection handling\n\nSee the **playbook** [here](https://example.com/x).\n\n\n\n- Step 1'
+    );
+
+    expect(await extractMaterialText(bytes, 'markdown')).toBe(
+      '# Objection handling\n\nSee the playbook here.\n\n- Step 1'
+    );
+  });
+
+  it('rejects files that are not what they claim to be', async () => {
+    await expect(extractMaterialText(new TextEncoder().encode('hi'), 'docx')).rejects.toThrow();
+  });
+});
+
+describe('chunkText', () => {
+  const paragraph = (n: number) => `Paragraph ${n}. ${'Sales discovery practice. '.repeat(12)}`;
+  const text = Array.from({ length: 12 }, (_, i) => paragraph(i + 1)).join('\n\n');
+
+  it('keeps chunks within the size limit and indexes them in order', () => {
+    const chunks = chunkText(text, { maxChars: 800, overlap: 100 });
+
+    expect(chunks.length).toBeGreaterThan(3);
+    expect(chunks.map((chunk) => chunk.index)).toEqual(chunks.map((_, i) => i));
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(800);
+      expect(chunk.tokenCount).toBe(Math.ceil(chunk.content.length / 4));
+    }
+  });
+
+  it('carries the tail of each chunk into the next', () => {
+    const [first, second] = chunkText(text, { maxChars: 800, overlap: 100 });
+    const tail = second.content.split('\n\n')[0];
+
+    expect(tail.length).toBeLessThanOrEqual(100);
+    expect(first.content.endsWith(tail)).toBe(true);
+  });
+
+  it('splits a single oversized paragraph', () => {
+    const chunks = chunkText('word '.repeat(1000).trim(), { maxChars: 500, overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(8);
+    expect(chunks.every((chunk) => chunk.content.length <= 500)).toBe(true);
+  });
+});
+
+describe('rankChunks', () => {
+  const chunks = [
+    { content: 'Company holiday calendar and office locations.' },
+    { content: 'Objection handling: acknowledge, clarify, respond. Practise objection drills.' },
+    { content: 'Discovery calls: prepare questions before each discovery call.' },
+  ];
+
+  it('orders chunks by relevance and drops unrelated ones', () => {
+    const ranked = rankChunks(chunks, 'sellers struggle with objection handling', 5);
+
+    expect(ranked).toEqual([chunks[1]]);
+    expect(rankChunks(chunks, 'discovery and objection handling', 1)).toHaveLength(1);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(rankChunks(chunks, 'the and of', 5)).toEqual([]);
+  });
+});
+
+describe('prompt context', () => {
+  it('reads the content strategy and material ids from V2.0 and legacy answers', () => {
+    expect(getContentStrategy(staticAnswers)).toBe('adapt');
+    expect(getSelectedMaterialIds(staticAnswers)).toEqual(['mat-1']);
+
+    const legacy = { resources: { contentStrategy: { source: 'hybrid', existingMaterials: [] } } };
+    expect(getContentStrategy(legacy)).toBe('hybrid');
+    expect(getSelectedMaterialIds(legacy)).toEqual([]);
+    expect(getContentStrategy({})).toBeNull();
+    expect(getSelectedMaterialIds({})).toBeNull();
+  });
+
+  it('builds the retrieval query from the learning gap and dynamic answers', () => {
+    const query = buildMaterialsQuery(staticAnswers, { q1: 'Kirkpatrick level 3' });
+
+    expect(query).toContain('objection handling');
+    expect(query).toContain('GDPR');
+    expect(query).toContain('Kirkpatrick');
+  });
+
+  it('formats summaries and excerpts within the character budget', () => {
+    const text = formatMaterialsForPrompt(materialsContext);
+    expect(text).toContain('Content Strategy: adapt');
+    expect(text).toContain('- playbook.pdf: A 2019 sales playbook.');
+    expect(text).toContain('[playbook.pdf, part 3]');
+
+    expect(formatMaterialsForPrompt(materialsContext, 200)).not.toContain('Relevant excerpts');
+  });
+
+  it('falls back to the leading sentences for a summary', () => {
+    expect(extractiveSummary('One. Two is longer. Three.', 20)).toBe('One. Two is longer.');
+  });
+});
+
+describe('prompt wiring', () => {
+  it('adds materials to the dynamic question prompt', () => {
+    const withMaterials = buildUserPromptV2(staticAnswers, materialsContext);
+    expect(withMaterials).toContain('- playbook.pdf: A 2019 sales playbook.');
+    // Replacement patterns in excerpts are kept literally
+    expect(withMaterials).toContain('three $& questions');
+    expect(withMaterials).not.toContain('{existing_materials}');
+
+    expect(buildUserPromptV2(staticAnswers)).toContain('None provided');
+  });
+
+  it('adds materials to the blueprint prompt only when present', () => {
+    const context = {
+      blueprintId: 'bp-1',
+      userId: 'user-1',
+      staticAnswers,
+      dynamicAnswers: {},
+      organization: 'Acme',
+      role: 'Sales Enablement Lead',
+      industry: 'Technology',
+      learningObjectives: [],
+    };
+
+    expect(buildBlueprintPrompt({ ...context, materials: materialsContext })).toContain(
+      'EXISTING COURSE MATERIALS'
+    );
+    expect(buildBlueprintPrompt(context)).not.toContain('EXISTING COURSE MATERIALS');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for LLM call costing and the per-tier usage roll-up
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { calculateLlmCost, getModelPrice } from '@/lib/config/llmPricing';
+import { LlmUsageService, type UserLlmUsage } from '@/lib/services/llmUsageService';
+
+function userUsage(overrides: Partial<UserLlmUsage>): UserLlmUsage {
+  return {
+    userId: 'user-1',
+    tier: 'navigator',
+    callCount: 10,
+    blueprintCount: 2,
+    inputTokens: 100000,
+    outputTokens: 40000,
+    costUsd: 1,
+    costInr: 88,
+    costPerBlueprintInr: 44,
+    ...overrides,
+  };
+}
+
+describe('llmPricing', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('matches dated model snapshots by the longest prefix', () => {
+    expect(getModelPrice('claude-opus-4-20250514')).toEqual({ input: 15, output: 75 });
+    expect(getModelPrice('claude-sonnet-4-5-20250929')).toEqual({ input: 3, output: 15 });
+    expect(getModelPrice('qwen3:32b')).toBeNull();
+  });
+
+  it('costs a call in USD and INR', () => {
+    // 10k input at $3/M + 2k output at $15/M = $0.06
+    expect(calculateLlmCost('claude-sonnet-4-5', 10000, 2000)).toEqual({ usd: 0.06, inr: 5.28 });
+    expect(calculateLlmCost('qwen3:32b', 10000, 2000)).toEqual({ usd: 0, inr: 0 });
+  });
+
+  it('applies price table and exchange rate overrides from the environment', () => {
+    vi.stubEnv('LLM_PRICE_TABLE', '{"qwen3": {"input": 0.5, "output": 0.5}, "bad": {}}');
+    vi.stubEnv('LLM_USD_TO_INR', '80');
+
+    expect(calculateLlmCost('qwen3:32b', 1_000_000, 1_000_000)).toEqual({ usd: 1, inr: 80 });
+    expect(getModelPrice('bad')).toBeNull();
+  });
+});
+
+describe('LlmUsageService.summarizeByTier', () => {
+  it('aggregates users per tier and compares the monthly cost with the plan price', () => {
+    const tiers = LlmUsageService.summarizeByTier(
+      [
+        userUsage({ userId: 'a', costInr: 300, blueprintCount: 3 }),
+        userUsage({ userId: 'b', costInr: 100, blueprintCount: 1 }),
+        userUsage({ userId: 'c', tier: 'free', costInr: 20, blueprintCount: 1 }),
+      ],
+      30
+    );
+
+    expect(tiers.map((tier) => tier.tier)).toEqual(['navigator', 'free']);
+    expect(tiers[0]).toMatchObject({
+      userCount: 2,
+      blueprintCount: 4,
+      costInr: 400,
+      costPerUserInr: 200,
+      costPerBlueprintInr: 100,
+      monthlyPriceInr: 3499,
+      marginPerUserInr: 3299,
+    });
+    expect(tiers[1]).toMatchObject({ monthlyPriceInr: 0, marginPerUserInr: -20 });
+  });
+
+  it('scales shorter windows to a month before computing the margin', () => {
+    const [navigator] = LlmUsageService.summarizeByTier([userUsage({ costInr: 100 })], 7);
+
+    expect(navigator.marginPerUserInr).toBeCloseTo(3499 - (100 * 30) / 7, 2);
+  });
+});
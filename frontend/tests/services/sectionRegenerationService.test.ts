@@ -0,0 +1,252 @@
+/**
+ * Tests for single-section regeneration: section validation, the provider
+ * gateway hand-off and the fractional usage allowance
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SectionRegenerationService } from '@/lib/services/sectionRegenerationService';
+import {
+  BlueprintUsageService,
+  SECTION_REGENERATION_USAGE_RATE,
+} from '@/lib/services/blueprintUsageService';
+import { validateAndNormalizeSection, ValidationError } from '@/lib/claude/validation';
+import {
+  ProviderGatewayError,
+  type GatewayRequest,
+  type GatewayResponse,
+  type ProviderGateway,
+} from '@/lib/ai-sdk/gateway';
+import { ErrorCategory } from '@/lib/ai-sdk/fallbackStrategy';
+import { ProviderType } from '@/lib/ai-sdk/providerConfig';
+import type { SectionRegenerationContext } from '@/lib/claude/prompts';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+vi.mock('@/lib/logging', () => ({
+  createServiceLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+vi.mock('@/lib/services/promptRunService', () => ({
+  recordPromptRun: vi.fn(async () => undefined),
+}));
+
+const context: SectionRegenerationContext = {
+  blueprintId: 'bp-1',
+  userId: 'user-1',
+  staticAnswers: { section_2_organization: { organization_name: 'Test Corp' } },
+  dynamicAnswers: { s1_q1: 'answer' },
+  organization: 'Test Corp',
+  role: 'L&D Manager',
+  industry: 'Finance',
+  learningObjectives: [],
+  sectionId: 'risk_mitigation',
+  instruction: 'Make the budget fit ₹5L',
+  blueprint: {
+    metadata: { title: 'Blueprint' },
+    risk_mitigation: { risks: [{ risk: 'Low adoption' }], displayType: 'table' },
+  },
+};
+
+describe('validateAndNormalizeSection', () => {
+  it('unwraps the section key and infers a displayType', () => {
+    const section = validateAndNormalizeSection(
+      JSON.stringify({ risk_mitigation: { risks: [{ risk: 'Budget overrun' }] } }),
+      'risk_mitigation'
+    );
+
+    expect(section).toEqual({ risks: [{ risk: 'Budget overrun' }], displayType: 'table' });
+  });
+
+  it('accepts a bare section object and keeps a valid displayType', () => {
+    const section = validateAndNormalizeSection(
+      '```json\n{"content": "Summary", "displayType": "markdown"}\n```',
+      'executive_summary'
+    );
+
+    expect(section.displayType).toBe('markdown');
+  });
+
+  it('rejects non-object sections', () => {
+    expect(() => validateAndNormalizeSection('{"timeline": []}', 'timeline')).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('SectionRegenerationService', () => {
+  function gatewayResponse(
+    text: string,
+    parse?: (text: string) => unknown,
+    overrides: Partial<GatewayResponse<unknown>> = {}
+  ): GatewayResponse<unknown> {
+    return {
+      text,
+      data: parse ? parse(text) : text,
+      model: 'claude-sonnet-4-5',
+      usage: { input_tokens: 3000, output_tokens: 800 },
+      provider: ProviderType.CLAUDE_SONNET_4,
+      fallbackUsed: false,
+      attempts: 1,
+      durationMs: 10,
+      ...overrides,
+    };
+  }
+
+  it('returns the normalized section and token usage', async () => {
+    const gateway = {
+      generate: vi.fn(async (_request: GatewayRequest, parse?: (text: string) => unknown) =>
+        gatewayResponse(
+          JSON.stringify({ risk_mitigation: { risks: [{ risk: 'Scope creep' }] } }),
+          parse
+        )
+      ),
+    };
+    const service = new SectionRegenerationService(gateway as unknown as ProviderGateway);
+
+    const result = await service.regenerate(context);
+
+    expect(result.success).toBe(true);
+    expect(result.section).toEqual({ risks: [{ risk: 'Scope creep' }], displayType: 'table' });
+    expect(result.usage).toEqual({ input_tokens: 3000, output_tokens: 800 });
+    expect(result.metadata.fallbackUsed).toBe(false);
+
+    const request = gateway.generate.mock.calls[0][0];
+    expect(request.prompt).toContain('Make the budget fit ₹5L');
+  });
+
+  it('reports the provider that answered after a fallback', async () => {
+    const gateway = {
+      generate: vi.fn(async (_request: GatewayRequest, parse?: (text: string) => unknown) =>
+        gatewayResponse('{"risk_mitigation": {"risks": []}}', parse, {
+          model: 'claude-opus-4-20250514',
+          provider: ProviderType.CLAUDE_OPUS_4,
+          fallbackUsed: true,
+          attempts: 4,
+        })
+      ),
+    };
+    const service = new SectionRegenerationService(gateway as unknown as ProviderGateway);
+
+    const result = await service.regenerate(context);
+
+    expect(result.success).toBe(true);
+    expect(result.metadata).toMatchObject({
+      model: 'claude-opus-4-20250514',
+      fallbackUsed: true,
+      attempts: 4,
+    });
+  });
+
+  it('validates the section inside the cascade', async () => {
+    const gateway = {
+      generate: vi.fn(async (_request: GatewayRequest, parse?: (text: string) => unknown) =>
+        gatewayResponse('{"risk_mitigation": "text"}', parse)
+      ),
+    };
+    const service = new SectionRegenerationService(gateway as unknown as ProviderGateway);
+
+    const result = await service.regenerate(context);
+
+    expect(result.success).toBe(false);
+    expect(gateway.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails with the gateway error when every provider fails', async () => {
+    const gateway = {
+      generate: vi.fn(async () => {
+        throw new ProviderGatewayError(
+          'All AI providers failed: Overloaded',
+          ErrorCategory.TRANSIENT
+        );
+      }),
+    };
+    const service = new SectionRegenerationService(gateway as unknown as ProviderGateway);
+
+    const result = await service.regenerate(context);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('All AI providers failed: Overloaded');
+  });
+});
+
+describe('BlueprintUsageService.evaluateSectionRegeneration', () => {
+  it('adds the uncharged fraction of regenerations to creation usage', () => {
+    const allowed = BlueprintUsageService.evaluateSectionRegeneration(
+      { creationLimit: 2, creationUsed: 1 },
+      3 * SECTION_REGENERATION_USAGE_RATE
+    );
+
+    expect(allowed.canRegenerate).toBe(true);
+    expect(allowed.usedWithRegenerations).toBe(1 + 3 * SECTION_REGENERATION_USAGE_RATE);
+  });
+
+  it('does not count whole creations twice once they are in creationUsed', () => {
+    // Five regenerations: one whole creation is already part of creationUsed
+    const result = BlueprintUsageService.evaluateSectionRegeneration(
+      { creationLimit: 3, creationUsed: 2 },
+      5 * SECTION_REGENERATION_USAGE_RATE
+    );
+
+    expect(result.usedWithRegenerations).toBe(2 + SECTION_REGENERATION_USAGE_RATE);
+    expect(result.canRegenerate).toBe(true);
+  });
+
+  it('blocks regeneration once the allowance is used up', () => {
+    // One blueprint plus four regenerations charged as a second creation
+    const blocked = BlueprintUsageService.evaluateSectionRegeneration(
+      { creationLimit: 2, creationUsed: 2 },
+      4 * SECTION_REGENERATION_USAGE_RATE
+    );
+
+    expect(blocked.canRegenerate).toBe(false);
+    expect(blocked.reason).toBeDefined();
+  });
+
+  it('never blocks unlimited users', () => {
+    const result = BlueprintUsageService.evaluateSectionRegeneration(
+      { creationLimit: -1, creationUsed: 500 },
+      1000
+    );
+
+    expect(result.canRegenerate).toBe(true);
+  });
+});
+
+describe('BlueprintUsageService section regeneration charges', () => {
+  it('records each regeneration at the fractional rate', async () => {
+    const rpc = vi.fn(async () => ({ data: null, error: null }));
+
+    await BlueprintUsageService.recordSectionRegeneration(
+      { rpc } as unknown as SupabaseClient,
+      'bp-1',
+      'risk_mitigation'
+    );
+
+    expect(rpc).toHaveBeenCalledWith('record_section_regeneration', {
+      p_blueprint_id: 'bp-1',
+      p_section_id: 'risk_mitigation',
+      p_charge: SECTION_REGENERATION_USAGE_RATE,
+    });
+  });
+
+  it("checks the caller's own recorded charges against the creation limit", async () => {
+    const rpc = vi.fn(async (fn: string) =>
+      fn === 'get_effective_limits'
+        ? { data: [{ creation_limit: 2, creation_used: 1 }], error: null }
+        : { data: 0.5, error: null }
+    );
+
+    const allowance = await BlueprintUsageService.canRegenerateSection(
+      { rpc } as unknown as SupabaseClient,
+      'user-1'
+    );
+
+    expect(rpc).toHaveBeenCalledWith('get_section_regeneration_usage');
+    expect(allowance.usedWithRegenerations).toBe(1.5);
+    expect(allowance.canRegenerate).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for share link access checks, password hashing and section filtering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateShareAccess,
+  filterSharedBlueprint,
+  getShareLinkStatus,
+  hashSharePassword,
+  normalizeReferrer,
+  verifySharePassword,
+  type ResolvedShareLink,
+} from '@/lib/services/shareLinkService';
+
+const NOW = new Date('2025-11-07T12:00:00.000Z');
+
+function link(overrides: Partial<ResolvedShareLink> = {}): ResolvedShareLink {
+  return {
+    id: 'link-1',
+    blueprintId: 'bp-1',
+    label: null,
+    viewCount: 0,
+    passwordHash: null,
+    allowedSections: null,
+    expiresAt: null,
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+describe('getShareLinkStatus', () => {
+  it('treats revocation as taking precedence over expiry', () => {
+    expect(
+      getShareLinkStatus(
+        { revoked_at: '2025-11-01T00:00:00.000Z', expires_at: '2025-11-02T00:00:00.000Z' },
+        NOW
+      )
+    ).toBe('revoked');
+  });
+
+  it('expires a link at its expiry time', () => {
+    expect(getShareLinkStatus({ revoked_at: null, expires_at: NOW.toISOString() }, NOW)).toBe(
+      'expired'
+    );
+    expect(
+      getShareLinkStatus({ revoked_at: null, expires_at: '2025-11-08T00:00:00.000Z' }, NOW)
+    ).toBe('active');
+  });
+});
+
+describe('share link passwords', () => {
+  it('verifies the original password and rejects others', () => {
+    const hash = hashSharePassword('stakeholders');
+
+    expect(hash).not.toContain('stakeholders');
+    expect(verifySharePassword('stakeholders', hash)).toBe(true);
+    expect(verifySharePassword('Stakeholders', hash)).toBe(false);
+  });
+
+  it('salts each hash', () => {
+    expect(hashSharePassword('same')).not.toBe(hashSharePassword('same'));
+  });
+
+  it('rejects malformed hashes', () => {
+    expect(verifySharePassword('anything', 'not-a-hash')).toBe(false);
+  });
+});
+
+describe('evaluateShareAccess', () => {
+  it('allows an open, active link', () => {
+    expect(evaluateShareAccess(link(), null, NOW)).toBeNull();
+  });
+
+  it('refuses revoked and expired links before checking the password', () => {
+    const passwordHash = hashSharePassword('secret');
+
+    expect(
+      evaluateShareAccess(link({ passwordHash, revokedAt: NOW.toISOString() }), 'secret', NOW)
+    ).toBe('revoked');
+    expect(
+      evaluateShareAccess(
+        link({ passwordHash, expiresAt: '2025-11-01T00:00:00.000Z' }),
+        'secret',
+        NOW
+      )
+    ).toBe('expired');
+  });
+
+  it('requires the correct password on protected links', () => {
+    const protectedLink = link({ passwordHash: hashSharePassword('secret') });
+
+    expect(evaluateShareAccess(protectedLink, null, NOW)).toBe('password_required');
+    expect(evaluateShareAccess(protectedLink, 'wrong', NOW)).toBe('invalid_password');
+    expect(evaluateShareAccess(protectedLink, 'secret', NOW)).toBeNull();
+  });
+});
+
+describe('filterSharedBlueprint', () => {
+  const blueprint = {
+    metadata: { title: 'Onboarding' },
+    learning_objectives: { objectives: [] },
+    resources: { budget: { total: 1000 } },
+  };
+
+  it('returns the blueprint unchanged when every section is shared', () => {
+    expect(filterSharedBlueprint(blueprint, null)).toBe(blueprint);
+  });
+
+  it('keeps metadata and the allowed sections only', () => {
+    expect(filterSharedBlueprint(blueprint, ['learning_objectives'])).toEqual({
+      metadata: { title: 'Onboarding' },
+      learning_objectives: { objectives: [] },
+    });
+  });
+});
+
+describe('normalizeReferrer', () => {
+  it('drops query strings and fragments', () => {
+    expect(normalizeReferrer('https://mail.example.com/inbox/123?token=abc#read')).toBe(
+      'https://mail.example.com/inbox/123'
+    );
+  });
+
+  it('ignores empty and non-web referrers', () => {
+    expect(normalizeReferrer(null)).toBeNull();
+    expect(normalizeReferrer('android-app://com.slack')).toBeNull();
+    expect(normalizeReferrer('not a url')).toBeNull();
+  });
+});
@@ -44,13 +44,13 @@ describe('AI SDK Provider Configuration', () => {
       ]);
     });
 
-    it('should configure Claude Sonnet 4 as primary', () => {
+    it('should configure Claude Sonnet 4.5 as primary', () => {
       const configs = createProviderConfigs();
       const sonnet = configs.find((c) => c.id === ProviderType.CLAUDE_SONNET_4);
 
       expect(sonnet).toBeDefined();
-      expect(sonnet?.name).toBe('Claude Sonnet 4');
-      expect(sonnet?.model).toBe('claude-sonnet-4-20250514');
+      expect(sonnet?.name).toBe('Claude Sonnet 4.5');
+      expect(sonnet?.model).toBe('claude-sonnet-4-5');
       expect(sonnet?.maxTokens).toBe(12000);
       expect(sonnet?.temperature).toBe(0.2);
       expect(sonnet?.timeout).toBe(60000);
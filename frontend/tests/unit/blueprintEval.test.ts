@@ -0,0 +1,137 @@
+/**
+ * Tests for the offline blueprint evaluation harness: deterministic checks,
+ * recorded-response replay and report diffs
+ */
+
+import { join } from 'path';
+import { describe, it, expect } from 'vitest';
+import {
+  diffEvalReports,
+  getQuestionnaireBudget,
+  loadEvalFixtures,
+  loadEvalRecordings,
+  runBlueprintEval,
+  scoreBlueprint,
+  type BlueprintEvalReport,
+} from '@/lib/testing/blueprintEval';
+import { renderEvalDiffHtml, renderEvalReportHtml } from '@/lib/testing/blueprintEvalReport';
+
+const EVALS_DIR = join(__dirname, '..', 'evals');
+
+const fixtures = loadEvalFixtures(join(EVALS_DIR, 'golden'));
+const recordings = loadEvalRecordings(join(EVALS_DIR, 'recordings'));
+const recorded = recordings.get('consultative-selling')!;
+const fixture = fixtures.find((entry) => entry.id === 'consultative-selling')!;
+
+function recordedBlueprint(): Record<string, any> {
+  return JSON.parse(recorded.text);
+}
+
+function statusOf(blueprint: Record<string, unknown>, checkId: string, referenceDate?: Date) {
+  return scoreBlueprint(blueprint, {
+    staticAnswers: fixture.staticAnswers,
+    referenceDate: referenceDate ?? new Date(recorded.recordedAt),
+  }).find((check) => check.id === checkId)?.status;
+}
+
+describe('blueprint eval checks', () => {
+  it('passes every check on the recorded golden blueprint', () => {
+    const checks = scoreBlueprint(recordedBlueprint(), {
+      staticAnswers: fixture.staticAnswers,
+      referenceDate: new Date(recorded.recordedAt),
+    });
+
+    expect(checks.map((check) => [check.id, check.status])).toEqual([
+      ['sections_present', 'passed'],
+      ['modality_allocation', 'passed'],
+      ['objectives_baseline_target', 'passed'],
+      ['timeline_future', 'passed'],
+      ['budget_within_limit', 'passed'],
+    ]);
+  });
+
+  it('fails when a section is missing', () => {
+    const blueprint = recordedBlueprint();
+    delete blueprint.sustainability_plan;
+
+    expect(statusOf(blueprint, 'sections_present')).toBe('failed');
+  });
+
+  it('fails when modality allocations do not sum to 100%', () => {
+    const blueprint = recordedBlueprint();
+    blueprint.instructional_strategy.modalities[0].allocation_percent = 55;
+
+    expect(statusOf(blueprint, 'modality_allocation')).toBe('failed');
+  });
+
+  it('fails when an objective has no baseline', () => {
+    const blueprint = recordedBlueprint();
+    blueprint.learning_objectives.objectives[1].baseline = '';
+
+    expect(statusOf(blueprint, 'objectives_baseline_target')).toBe('failed');
+  });
+
+  it('fails timeline dates before the reference date', () => {
+    expect(statusOf(recordedBlueprint(), 'timeline_future', new Date('2030-01-01'))).toBe('failed');
+  });
+
+  it('fails a budget above the questionnaire amount', () => {
+    const blueprint = recordedBlueprint();
+    blueprint.resources.budget.total = 90000;
+
+    expect(statusOf(blueprint, 'budget_within_limit')).toBe('failed');
+  });
+
+  it('reads the budget from either static answer format', () => {
+    expect(getQuestionnaireBudget({ resources: { budget: { amount: 500000 } } })).toBe(500000);
+    expect(getQuestionnaireBudget(fixture.staticAnswers)).toBe(75000);
+    expect(getQuestionnaireBudget({})).toBeNull();
+  });
+});
+
+describe('runBlueprintEval', () => {
+  it('replays recordings through generation and skips fixtures without one', async () => {
+    const report = await runBlueprintEval({ fixtures, recordings, label: 'baseline' });
+
+    expect(report.provider).toBe('recorded');
+    expect(report.promptVersions).toEqual({ 'blueprint.system': 'v1' });
+    expect(report.summary).toMatchObject({ fixtureCount: 3, passed: 2, skipped: 1, errors: 0 });
+    expect(renderEvalReportHtml(report)).toContain('consultative-selling');
+  });
+
+  it('reports an error when the recorded response is not a valid blueprint', async () => {
+    const broken = new Map([
+      ['consultative-selling', { ...recorded, text: '{"metadata": {"title": "Partial"}}' }],
+    ]);
+
+    const report = await runBlueprintEval({ fixtures: [fixture], recordings: broken });
+
+    expect(report.fixtures[0].status).toBe('error');
+    expect(report.fixtures[0].error).toContain('metadata');
+    expect(report.fixtures[0].validationFailures).toBe(1);
+  });
+});
+
+describe('diffEvalReports', () => {
+  it('lists checks that regressed or improved per fixture', async () => {
+    const base = await runBlueprintEval({ fixtures, recordings, label: 'v1' });
+    const candidate: BlueprintEvalReport = JSON.parse(JSON.stringify(base));
+    candidate.label = 'v2';
+    candidate.fixtures[0].checks[1].status = 'failed';
+    candidate.summary.checkPassRate = 0.9;
+
+    const diff = diffEvalReports(base, candidate);
+
+    expect(diff.checkPassRateDelta).toBe(-0.1);
+    expect(diff.regressions).toEqual([
+      {
+        fixtureId: base.fixtures[0].fixtureId,
+        checkId: 'modality_allocation',
+        base: 'passed',
+        candidate: 'failed',
+      },
+    ]);
+    expect(diff.improvements).toEqual([]);
+    expect(renderEvalDiffHtml(diff)).toContain('modality_allocation');
+  });
+});
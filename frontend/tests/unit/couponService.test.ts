@@ -0,0 +1,107 @@
+/**
+ * Tests for coupon eligibility, discount quotes and trial length
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkCouponEligibility,
+  normalizeCouponCode,
+  quoteCoupon,
+  resolveTrialDays,
+} from '@/lib/services/couponService';
+
+const baseCoupon = {
+  code: 'LAUNCH20',
+  description: null,
+  discountType: 'percent' as const,
+  discountValue: 20,
+  trialDays: 0,
+  isActive: true,
+  expiresAt: null,
+  maxRedemptions: null,
+  redemptionCount: 0,
+  applicableTiers: null,
+  applicableBillingCycles: null,
+};
+
+describe('checkCouponEligibility', () => {
+  const plan = { tier: 'navigator' as const, billingCycle: 'monthly' as const };
+
+  it('accepts an unrestricted active coupon', () => {
+    expect(checkCouponEligibility(baseCoupon, plan)).toBeNull();
+  });
+
+  it('rejects inactive, expired and exhausted coupons', () => {
+    expect(checkCouponEligibility({ ...baseCoupon, isActive: false }, plan)).toBe(
+      'COUPON_INACTIVE'
+    );
+    expect(
+      checkCouponEligibility(
+        { ...baseCoupon, expiresAt: '2025-01-01T00:00:00Z' },
+        { ...plan, now: new Date('2025-06-01T00:00:00Z') }
+      )
+    ).toBe('COUPON_EXPIRED');
+    expect(
+      checkCouponEligibility({ ...baseCoupon, maxRedemptions: 10, redemptionCount: 10 }, plan)
+    ).toBe('COUPON_EXHAUSTED');
+  });
+
+  it('enforces tier and billing cycle restrictions', () => {
+    expect(
+      checkCouponEligibility({ ...baseCoupon, applicableTiers: ['explorer', 'voyager'] }, plan)
+    ).toBe('COUPON_TIER_NOT_ELIGIBLE');
+    expect(
+      checkCouponEligibility({ ...baseCoupon, applicableBillingCycles: ['yearly'] }, plan)
+    ).toBe('COUPON_BILLING_CYCLE_NOT_ELIGIBLE');
+  });
+
+  it('skips the tier check when no tier is given', () => {
+    expect(
+      checkCouponEligibility(
+        { ...baseCoupon, applicableTiers: ['explorer'] },
+        { billingCycle: 'monthly' }
+      )
+    ).toBeNull();
+  });
+});
+
+describe('quoteCoupon', () => {
+  it('applies percent discounts', () => {
+    const quote = quoteCoupon(baseCoupon, 349900);
+
+    expect(quote.discountAmount).toBe(69980);
+    expect(quote.finalAmount).toBe(279920);
+  });
+
+  it('never takes a flat discount below zero', () => {
+    const quote = quoteCoupon(
+      { ...baseCoupon, discountType: 'flat', discountValue: 500000 },
+      159900
+    );
+
+    expect(quote.discountAmount).toBe(159900);
+    expect(quote.finalAmount).toBe(0);
+  });
+});
+
+describe('resolveTrialDays', () => {
+  it('gives the tier trial only to first subscriptions', () => {
+    expect(resolveTrialDays({ tierTrialDays: 7, isFirstSubscription: true })).toBe(7);
+    expect(resolveTrialDays({ tierTrialDays: 7, isFirstSubscription: false })).toBe(0);
+  });
+
+  it('uses the longer of the tier and coupon trials', () => {
+    expect(
+      resolveTrialDays({ tierTrialDays: 7, couponTrialDays: 30, isFirstSubscription: true })
+    ).toBe(30);
+    expect(
+      resolveTrialDays({ tierTrialDays: 14, couponTrialDays: 30, isFirstSubscription: false })
+    ).toBe(30);
+  });
+});
+
+describe('normalizeCouponCode', () => {
+  it('trims and upper-cases codes', () => {
+    expect(normalizeCouponCode('  launch20 ')).toBe('LAUNCH20');
+  });
+});
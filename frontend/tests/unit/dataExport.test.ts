@@ -0,0 +1,114 @@
+/**
+ * Tests for the personal data export archive layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  buildArchive,
+  buildDataExportFiles,
+  type UserDataSnapshot,
+} from '@/lib/services/dataExportService';
+
+const generatedAt = new Date('2025-11-18T10:00:00.000Z');
+const expiresAt = new Date('2025-11-25T10:00:00.000Z');
+
+function snapshot(overrides: Partial<UserDataSnapshot> = {}): UserDataSnapshot {
+  return {
+    userId: 'user-1',
+    account: { email: 'ada@example.com', createdAt: '2025-01-01T00:00:00Z', lastSignInAt: null },
+    profile: {
+      user_id: 'user-1',
+      full_name: 'Ada',
+      subscription_tier: 'navigator',
+      blueprint_creation_count: 3,
+      blueprint_creation_limit: 25,
+    },
+    blueprints: [
+      {
+        id: 'bp-1',
+        title: 'Onboarding',
+        version: 2,
+        created_at: '2025-02-01T00:00:00Z',
+        static_answers: { role: 'Manager' },
+        dynamic_answers: { q1: 'Yes' },
+        blueprint_json: { executive_summary: { content: 'Summary' } },
+        blueprint_markdown: '# Onboarding\n',
+      },
+      {
+        id: 'bp-2',
+        title: null,
+        created_at: '2025-03-01T00:00:00Z',
+        blueprint_json: {},
+        blueprint_markdown: null,
+      },
+    ],
+    usageEvents: [{ id: 'u-1', total_tokens: 100 }],
+    payments: [{ id: 'pay-1', amount: 1900 }],
+    subscriptions: [],
+    invoices: [],
+    feedback: [{ id: 'fb-1', title: 'Bug' }],
+    sessions: [{ id: 's-1', user_agent: 'Firefox' }],
+    ...overrides,
+  };
+}
+
+describe('buildDataExportFiles', () => {
+  it('writes a manifest listing every file with record counts', () => {
+    const { files, manifest } = buildDataExportFiles(snapshot(), generatedAt, expiresAt);
+
+    expect(files[0].path).toBe('manifest.json');
+    expect(JSON.parse(files[0].content)).toEqual(manifest);
+    expect(manifest).toMatchObject({
+      userId: 'user-1',
+      email: 'ada@example.com',
+      generatedAt: '2025-11-18T10:00:00.000Z',
+      expiresAt: '2025-11-25T10:00:00.000Z',
+    });
+
+    const listed = manifest.files.map((file) => file.path);
+    expect(files.slice(1).map((file) => file.path)).toEqual(
+      listed.filter((path) => path !== 'blueprints/')
+    );
+    expect(manifest.files.find((file) => file.path === 'blueprints/')?.records).toBe(2);
+    expect(manifest.files.find((file) => file.path === 'sessions.json')?.records).toBe(1);
+  });
+
+  it('includes answers and blueprint JSON, and Markdown only when there is content', () => {
+    const { files } = buildDataExportFiles(snapshot(), generatedAt, expiresAt);
+    const byPath = new Map(files.map((file) => [file.path, file.content]));
+
+    const blueprint = JSON.parse(byPath.get('blueprints/bp-1/blueprint.json')!);
+    expect(blueprint.blueprint.static_answers).toEqual({ role: 'Manager' });
+    expect(blueprint.blueprint.dynamic_answers).toEqual({ q1: 'Yes' });
+    expect(blueprint.export.blueprintId).toBe('bp-1');
+
+    expect(byPath.get('blueprints/bp-1/blueprint.md')).toBe('# Onboarding\n');
+    expect(byPath.has('blueprints/bp-2/blueprint.json')).toBe(true);
+    expect(byPath.has('blueprints/bp-2/blueprint.md')).toBe(false);
+  });
+
+  it('pulls usage counters out of the profile', () => {
+    const { files } = buildDataExportFiles(snapshot(), generatedAt, expiresAt);
+    const usage = JSON.parse(files.find((file) => file.path === 'usage.json')!.content);
+
+    expect(usage.counters).toEqual({
+      subscription_tier: 'navigator',
+      blueprint_creation_count: 3,
+      blueprint_creation_limit: 25,
+    });
+    expect(usage.events).toHaveLength(1);
+  });
+});
+
+describe('buildArchive', () => {
+  it('zips every file at its path', async () => {
+    const { files } = buildDataExportFiles(snapshot(), generatedAt, expiresAt);
+    const zip = await JSZip.loadAsync(await buildArchive(files));
+
+    expect(await zip.file('blueprints/bp-1/blueprint.md')?.async('string')).toBe('# Onboarding\n');
+    expect(Object.keys(zip.files)).toEqual(
+      expect.arrayContaining(['manifest.json', 'profile.json', 'payments.json'])
+    );
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for feedback reporter views and AI tagging
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toReporterView } from '@/lib/services/feedbackService';
+import {
+  buildFeedbackTaggingPrompt,
+  parseFeedbackTagging,
+  tagFeedbackSubmission,
+} from '@/lib/services/feedbackTaggingService';
+import type { FeedbackResponse, FeedbackSubmission } from '@/lib/types/feedback';
+
+function createSubmission(overrides: Partial<FeedbackSubmission> = {}): FeedbackSubmission {
+  return {
+    id: 'feedback-1',
+    user_id: 'user-1',
+    feedback_type_id: 'type-1',
+    title: 'Export fails',
+    description: 'PDF export spins forever',
+    status: 'open',
+    priority: 3,
+    metadata: {},
+    user_agent: null,
+    browser_info: null,
+    page_url: 'https://app.example.com/blueprint/bp-1',
+    error_details: null,
+    sentiment_score: -1,
+    ai_tags: ['export'],
+    assigned_to: 'staff-1',
+    created_at: '2025-11-15T10:00:00Z',
+    updated_at: '2025-11-15T10:00:00Z',
+    ...overrides,
+  };
+}
+
+function createResponse(overrides: Partial<FeedbackResponse>): FeedbackResponse {
+  return {
+    id: 'response-1',
+    feedback_id: 'feedback-1',
+    responder_id: 'staff-1',
+    response: 'Looking into it',
+    response_type: 'comment',
+    is_internal: false,
+    created_at: '2025-11-15T11:00:00Z',
+    updated_at: '2025-11-15T11:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('toReporterView', () => {
+  it('hides internal notes and triage fields', () => {
+    const view = toReporterView({
+      ...createSubmission(),
+      responses: [
+        createResponse({ id: 'later', created_at: '2025-11-15T12:00:00Z' }),
+        createResponse({ id: 'note', response_type: 'internal_note', is_internal: true }),
+        createResponse({ id: 'earlier', created_at: '2025-11-15T10:30:00Z' }),
+      ],
+    });
+
+    expect(view.assigned_to).toBeNull();
+    expect(view.ai_tags).toBeNull();
+    expect(view.sentiment_score).toBeNull();
+    expect(view.responses?.map((response) => response.id)).toEqual(['earlier', 'later']);
+  });
+});
+
+describe('buildFeedbackTaggingPrompt', () => {
+  it('includes the page and last client error', () => {
+    const prompt = buildFeedbackTaggingPrompt(
+      createSubmission({ error_details: { message: 'TypeError: x is undefined' } })
+    );
+
+    expect(prompt).toContain('Title: Export fails');
+    expect(prompt).toContain('Page: https://app.example.com/blueprint/bp-1');
+    expect(prompt).toContain('Last client error: TypeError: x is undefined');
+  });
+});
+
+describe('parseFeedbackTagging', () => {
+  it('normalizes tags from fenced JSON', () => {
+    const tagging = parseFeedbackTagging(
+      '```json\n{"tags": ["PDF Export", "ui_bug", "pdf-export"], "sentiment": -1}\n```'
+    );
+
+    expect(tagging).toEqual({ tags: ['pdf-export', 'ui-bug'], sentiment: -1 });
+  });
+
+  it('returns null for unusable replies', () => {
+    expect(parseFeedbackTagging('not json')).toBeNull();
+    expect(parseFeedbackTagging('{"tags": [], "sentiment": 0}')).toBeNull();
+    expect(parseFeedbackTagging('{"tags": ["billing"], "sentiment": 2}')).toBeNull();
+  });
+});
+
+describe('tagFeedbackSubmission', () => {
+  function createSupabaseMock() {
+    const updates: Record<string, unknown>[] = [];
+    const from = vi.fn(() => ({
+      select: () => ({
+        eq: () => ({
+          single: async () => ({
+            data: { ...createSubmission(), metadata: { source: 'widget' } },
+            error: null,
+          }),
+        }),
+      }),
+      update: (values: Record<string, unknown>) => {
+        updates.push(values);
+        return { eq: async () => ({ error: null }) };
+      },
+    }));
+
+    return { client: { from } as unknown as SupabaseClient, updates };
+  }
+
+  function createClaudeMock(text: string) {
+    return {
+      generate: vi.fn(async () => ({
+        id: 'msg-1',
+        type: 'message' as const,
+        role: 'assistant' as const,
+        model: 'claude-test',
+        content: [{ type: 'text' as const, text }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 10 },
+      })),
+    };
+  }
+
+  it('stores tags and sentiment on the submission', async () => {
+    const { client, updates } = createSupabaseMock();
+    const claude = createClaudeMock('{"tags": ["export"], "sentiment": -1}');
+
+    const tagging = await tagFeedbackSubmission('feedback-1', { supabase: client, client: claude });
+
+    expect(tagging).toEqual({ tags: ['export'], sentiment: -1 });
+    expect(updates[0]).toMatchObject({
+      ai_tags: ['export'],
+      sentiment_score: -1,
+      metadata: { source: 'widget', ai_tagging: { model: 'claude-test' } },
+    });
+  });
+
+  it('leaves the submission alone when the reply cannot be parsed', async () => {
+    const { client, updates } = createSupabaseMock();
+    const claude = createClaudeMock('Sorry, I cannot help with that.');
+
+    const tagging = await tagFeedbackSubmission('feedback-1', { supabase: client, client: claude });
+
+    expect(tagging).toBeNull();
+    expect(updates).toHaveLength(0);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Tests for implementation plans: task generation from a blueprint and the
+ * KPIs, timeline and burn-up computed from real progress
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildPlanTasks,
+  parseDurationHours,
+  type ImplementationPlan,
+  type ImplementationTask,
+  type TimeEntry,
+} from '@/lib/services/implementationPlanService';
+import {
+  buildBurnUp,
+  buildPlanKpis,
+  buildPlanTimeline,
+} from '@/lib/dashboard/implementationProgress';
+import type { BlueprintJSON } from '@/components/features/blueprints/types';
+
+const blueprint = {
+  metadata: { title: 'Onboarding' },
+  content_outline: {
+    displayType: 'timeline',
+    modules: [
+      {
+        module_id: 'm1',
+        title: 'Foundations',
+        description: 'Basics',
+        topics: [],
+        duration: '4 hours',
+        delivery_method: 'Online',
+      },
+      {
+        module_id: 'm2',
+        title: 'Practice',
+        description: 'Hands-on',
+        topics: [],
+        duration: '2 weeks',
+        delivery_method: 'Live',
+        learning_activities: [
+          { activity: 'Lab', type: 'Exercise', duration: '90 minutes' },
+          { activity: 'Reading', type: 'Self-study', duration: '1 week' },
+        ],
+      },
+    ],
+  },
+  implementation_timeline: {
+    displayType: 'timeline',
+    phases: [
+      {
+        phase: 'Pilot',
+        start_date: '2025-01-01',
+        end_date: '2025-01-10',
+        milestones: ['Pilot cohort enrolled', ''],
+      },
+      {
+        phase: 'Rollout',
+        start_date: '2025-01-11',
+        end_date: '2025-01-20',
+        milestones: ['All staff trained'],
+      },
+    ],
+  },
+} as unknown as BlueprintJSON;
+
+const plan: ImplementationPlan = {
+  id: 'plan-1',
+  blueprintId: 'bp-1',
+  createdBy: 'user-1',
+  startDate: '2025-01-01',
+  createdAt: '2025-01-01T09:00:00Z',
+};
+
+function task(overrides: Partial<ImplementationTask>): ImplementationTask {
+  return {
+    id: 'task',
+    planId: plan.id,
+    source: 'module',
+    sourceKey: null,
+    title: 'Task',
+    description: null,
+    category: 'Content development',
+    ownerId: null,
+    status: 'not_started',
+    progressPercentage: 0,
+    estimatedHours: null,
+    actualHours: 0,
+    dueDate: null,
+    completedAt: null,
+    sortOrder: 0,
+    ...overrides,
+  };
+}
+
+function entry(taskId: string, hours: number, loggedOn: string): TimeEntry {
+  return {
+    id: `${taskId}-${loggedOn}`,
+    taskId,
+    userId: 'user-1',
+    hours,
+    loggedOn,
+    note: null,
+    createdAt: `${loggedOn}T12:00:00Z`,
+  };
+}
+
+const tasks = [
+  task({
+    id: 'a',
+    estimatedHours: 10,
+    dueDate: '2025-01-05',
+    status: 'completed',
+    completedAt: '2025-01-04T15:00:00Z',
+  }),
+  task({ id: 'b', estimatedHours: 30, dueDate: '2025-01-20', status: 'in_progress' }),
+  task({ id: 'm', source: 'milestone', title: 'Pilot done', dueDate: '2025-01-10' }),
+];
+const entries = [
+  entry('a', 6, '2025-01-02'),
+  entry('a', 5, '2025-01-04'),
+  entry('b', 3, '2025-01-06'),
+];
+
+describe('parseDurationHours', () => {
+  it.each([
+    ['2 hours', 2],
+    ['90 minutes', 1.5],
+    ['1-2 hrs', 2],
+    ['45 min', 0.75],
+  ])('parses %s', (duration, hours) => {
+    expect(parseDurationHours(duration)).toBe(hours);
+  });
+
+  it('ignores calendar durations', () => {
+    expect(parseDurationHours('2 weeks')).toBeNull();
+    expect(parseDurationHours(undefined)).toBeNull();
+  });
+});
+
+describe('buildPlanTasks', () => {
+  const drafts = buildPlanTasks(blueprint, '2025-01-01');
+
+  it('creates a task per module and non-empty milestone', () => {
+    expect(drafts.map((draft) => draft.sourceKey)).toEqual([
+      'module:m1',
+      'module:m2',
+      'milestone:1:1',
+      'milestone:2:1',
+    ]);
+    expect(drafts.map((draft) => draft.sortOrder)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('estimates module hours from the duration or its activities', () => {
+    expect(drafts[0].estimatedHours).toBe(4);
+    expect(drafts[1].estimatedHours).toBe(1.5);
+  });
+
+  it('spreads modules over the timeline and dues milestones at phase end', () => {
+    expect(drafts[0].dueDate).toBe('2025-01-11');
+    expect(drafts[1].dueDate).toBe('2025-01-20');
+    expect(drafts[2]).toMatchObject({ category: 'Pilot', dueDate: '2025-01-10' });
+  });
+
+  it('leaves modules undated without timeline dates', () => {
+    const undated = buildPlanTasks(
+      { ...blueprint, implementation_timeline: undefined },
+      '2025-01-01'
+    );
+    expect(undated).toHaveLength(2);
+    expect(undated.every((draft) => draft.dueDate === null)).toBe(true);
+  });
+});
+
+describe('buildPlanKpis', () => {
+  it('reports real progress', () => {
+    expect(buildPlanKpis(tasks, entries)).toEqual({
+      totalLearningHours: 40,
+      totalModules: 2,
+      completedModules: 1,
+      totalAssessments: 1,
+      completedAssessments: 0,
+      totalResources: 0,
+      estimatedCompletionDate: '2025-01-20',
+      actualHours: 14,
+    });
+  });
+});
+
+describe('buildBurnUp', () => {
+  const burnUp = buildBurnUp(plan, tasks, entries, '2025-01-08');
+  const at = (date: string) => burnUp.find((point) => point.date === date);
+
+  it('runs from the plan start to the last due date', () => {
+    expect(burnUp[0].date).toBe('2025-01-01');
+    expect(burnUp[burnUp.length - 1].date).toBe('2025-01-20');
+  });
+
+  it('compares planned, completed and logged hours', () => {
+    expect(at('2025-01-05')).toEqual({
+      date: '2025-01-05',
+      scope: 40,
+      planned: 10,
+      completed: 10,
+      actual: 11,
+    });
+    expect(at('2025-01-08')).toMatchObject({ completed: 10, actual: 14 });
+  });
+
+  it('stops actual progress at today', () => {
+    expect(at('2025-01-20')).toMatchObject({ planned: 40, completed: null, actual: null });
+  });
+});
+
+describe('buildPlanTimeline', () => {
+  it('charts hours and completion up to today with milestones', () => {
+    const timeline = buildPlanTimeline(plan, tasks, entries, '2025-01-12');
+    const last = timeline[timeline.length - 1];
+
+    expect(last.date).toBe('2025-01-12');
+    expect(last).toMatchObject({ learningHours: 14, progressPercentage: 25 });
+    expect(timeline.find((point) => point.date === '2025-01-10')?.milestones).toEqual([
+      'Pilot done',
+    ]);
+  });
+});
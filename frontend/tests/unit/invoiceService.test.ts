@@ -0,0 +1,91 @@
+/**
+ * Tests for GST invoice tax splits and GSTIN validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateGstSplit, resolveBuyerStateCode } from '@/lib/services/invoiceService';
+import { isValidGstin } from '@/lib/config/gst';
+
+describe('calculateGstSplit', () => {
+  it('splits tax into CGST and SGST within the seller state', () => {
+    const split = calculateGstSplit({
+      totalAmount: 159900,
+      buyerStateCode: '29',
+      sellerStateCode: '29',
+      rate: 18,
+    });
+
+    expect(split.intraState).toBe(true);
+    expect(split.taxableAmount).toBe(135508);
+    expect(split.cgstAmount).toBe(12196);
+    expect(split.sgstAmount).toBe(12196);
+    expect(split.igstAmount).toBe(0);
+    expect(split.placeOfSupply).toBe('29');
+  });
+
+  it('charges IGST across states', () => {
+    const split = calculateGstSplit({
+      totalAmount: 349900,
+      buyerStateCode: '27',
+      sellerStateCode: '29',
+      rate: 18,
+    });
+
+    expect(split.intraState).toBe(false);
+    expect(split.cgstAmount + split.sgstAmount).toBe(0);
+    expect(split.igstAmount).toBe(349900 - split.taxableAmount);
+  });
+
+  it('always adds up to the charged amount', () => {
+    for (const totalAmount of [1, 99, 100001, 199900 * 7]) {
+      const split = calculateGstSplit({
+        totalAmount,
+        buyerStateCode: '29',
+        sellerStateCode: '29',
+        rate: 18,
+      });
+
+      expect(split.taxableAmount + split.cgstAmount + split.sgstAmount + split.igstAmount).toBe(
+        totalAmount
+      );
+    }
+  });
+
+  it('zero-rates charges in other currencies', () => {
+    const split = calculateGstSplit({
+      totalAmount: 5000,
+      buyerStateCode: '29',
+      sellerStateCode: '29',
+      rate: 18,
+      currency: 'USD',
+    });
+
+    expect(split.rate).toBe(0);
+    expect(split.taxableAmount).toBe(5000);
+  });
+});
+
+describe('resolveBuyerStateCode', () => {
+  const profile = { legalName: 'Acme', gstin: null, address: null, stateCode: null };
+
+  it('prefers the GSTIN state, then the billing state, then the seller state', () => {
+    expect(
+      resolveBuyerStateCode({ ...profile, gstin: '27AAPFU0939F1ZV', stateCode: '07' }, '29')
+    ).toBe('27');
+    expect(resolveBuyerStateCode({ ...profile, stateCode: '07' }, '29')).toBe('07');
+    expect(resolveBuyerStateCode(profile, '29')).toBe('29');
+  });
+});
+
+describe('isValidGstin', () => {
+  it('accepts GSTINs with a valid check digit', () => {
+    expect(isValidGstin('27AAPFU0939F1ZV')).toBe(true);
+    expect(isValidGstin(' 29aagcb7383j1z4 ')).toBe(true);
+  });
+
+  it('rejects bad formats, state codes and check digits', () => {
+    expect(isValidGstin('27AAPFU0939F1ZX')).toBe(false);
+    expect(isValidGstin('99AAPFU0939F1ZV')).toBe(false);
+    expect(isValidGstin('27AAPFU0939F1Z')).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Tests for notification preferences, templates and delivery
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NotificationService, resolvePreferences } from '@/lib/services/notificationService';
+import { escapeHtml, renderNotification } from '@/lib/notifications/templates';
+import { isShareViewMilestone } from '@/lib/notifications/types';
+import type { EmailTransport } from '@/lib/notifications/transports';
+
+interface MockOptions {
+  preferences?: Array<{ type: string; email_enabled: boolean; in_app_enabled: boolean }>;
+  email?: string | null;
+  insertError?: { code: string; message: string } | null;
+}
+
+function createSupabaseMock(options: MockOptions = {}) {
+  const inserts: Record<string, unknown>[] = [];
+  const updates: Record<string, unknown>[] = [];
+
+  const from = vi.fn((table: string) => {
+    if (table === 'notification_preferences') {
+      return {
+        select: () => ({
+          eq: async () => ({ data: options.preferences ?? [], error: null }),
+        }),
+      };
+    }
+
+    if (table === 'user_profiles') {
+      return {
+        select: () => ({
+          eq: () => ({
+            maybeSingle: async () => ({
+              data: options.email === null ? null : { email: options.email ?? 'ada@example.com' },
+              error: null,
+            }),
+          }),
+        }),
+      };
+    }
+
+    return {
+      insert: (row: Record<string, unknown>) => {
+        inserts.push(row);
+        return {
+          select: () => ({
+            single: async () =>
+              options.insertError
+                ? { data: null, error: options.insertError }
+                : { data: { id: 'notification-1' }, error: null },
+          }),
+        };
+      },
+      update: (values: Record<string, unknown>) => {
+        updates.push(values);
+        return { eq: async () => ({ error: null }) };
+      },
+    };
+  });
+
+  return { client: { from } as unknown as SupabaseClient, inserts, updates };
+}
+
+function createTransport(send: EmailTransport['send'] = vi.fn(async () => {})) {
+  return { name: 'test', send: vi.fn(send) };
+}
+
+const generationData = { blueprintId: 'bp-1', blueprintTitle: 'Onboarding <Program>' };
+
+describe('resolvePreferences', () => {
+  it('falls back to the defaults for each type', () => {
+    const prefs = resolvePreferences([]);
+    expect(prefs.find((p) => p.type === 'generation_completed')).toEqual({
+      type: 'generation_completed',
+      email: true,
+      inApp: true,
+    });
+    expect(prefs.find((p) => p.type === 'share_link_viewed')?.email).toBe(false);
+  });
+
+  it('applies stored rows but keeps required billing emails on', () => {
+    const prefs = resolvePreferences([
+      { type: 'generation_completed', email_enabled: false, in_app_enabled: true },
+      { type: 'payment_failed', email_enabled: false, in_app_enabled: false },
+    ]);
+    expect(prefs.find((p) => p.type === 'generation_completed')?.email).toBe(false);
+    expect(prefs.find((p) => p.type === 'payment_failed')).toEqual({
+      type: 'payment_failed',
+      email: true,
+      inApp: false,
+    });
+  });
+});
+
+describe('renderNotification', () => {
+  it('builds absolute email links and escapes HTML', () => {
+    const rendered = renderNotification(
+      'generation_completed',
+      generationData,
+      'https://app.example.com/'
+    );
+
+    expect(rendered.link).toBe('/blueprint/bp-1');
+    expect(rendered.email.text).toContain('https://app.example.com/blueprint/bp-1');
+    expect(rendered.email.html).toContain('Onboarding &lt;Program&gt;');
+    expect(rendered.email.html).not.toContain('<Program>');
+  });
+
+  it('formats payment amounts from paise', () => {
+    const rendered = renderNotification(
+      'payment_failed',
+      { amount: 199900, currency: 'INR', reason: null },
+      'http://localhost:3000'
+    );
+    expect(rendered.body).toContain('1,999.00');
+  });
+
+  it('escapes quotes and ampersands', () => {
+    expect(escapeHtml(`"A" & 'B'`)).toBe('&quot;A&quot; &amp; &#39;B&#39;');
+  });
+});
+
+describe('isShareViewMilestone', () => {
+  it('notifies on the first view and at milestones only', () => {
+    expect([1, 2, 10, 11, 50, 100].map(isShareViewMilestone)).toEqual([
+      true,
+      false,
+      true,
+      false,
+      true,
+      true,
+    ]);
+  });
+});
+
+describe('NotificationService.notify', () => {
+  it('records the notification and emails it', async () => {
+    const { client, inserts, updates } = createSupabaseMock();
+    const transport = createTransport();
+
+    const result = await NotificationService.notify(
+      client,
+      { userId: 'user-1', type: 'generation_completed', data: generationData },
+      { transport }
+    );
+
+    expect(result).toEqual({ notificationId: 'notification-1', inApp: true, emailStatus: 'sent' });
+    expect(inserts[0]).toMatchObject({ user_id: 'user-1', in_app: true, email_status: 'pending' });
+    expect(transport.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'ada@example.com' }));
+    expect(updates[0]).toMatchObject({ email_status: 'sent', email_error: null });
+  });
+
+  it('records email failures instead of throwing', async () => {
+    const { client, updates } = createSupabaseMock();
+    const transport = createTransport(async () => {
+      throw new Error('SMTP down');
+    });
+
+    const result = await NotificationService.notify(
+      client,
+      { userId: 'user-1', type: 'generation_completed', data: generationData },
+      { transport }
+    );
+
+    expect(result.emailStatus).toBe('failed');
+    expect(updates[0]).toMatchObject({ email_status: 'failed', email_error: 'SMTP down' });
+  });
+
+  it('skips email when the user turned it off', async () => {
+    const { client, inserts } = createSupabaseMock({
+      preferences: [{ type: 'generation_completed', email_enabled: false, in_app_enabled: true }],
+    });
+    const transport = createTransport();
+
+    const result = await NotificationService.notify(
+      client,
+      { userId: 'user-1', type: 'generation_completed', data: generationData },
+      { transport }
+    );
+
+    expect(result.emailStatus).toBe('skipped');
+    expect(inserts[0]).toMatchObject({ email_status: 'skipped' });
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it('treats a repeated dedupe key as a duplicate', async () => {
+    const { client } = createSupabaseMock({
+      insertError: { code: '23505', message: 'duplicate key value' },
+    });
+    const transport = createTransport();
+
+    const result = await NotificationService.notify(
+      client,
+      {
+        userId: 'user-1',
+        type: 'generation_completed',
+        data: generationData,
+        dedupeKey: 'generation-completed:job-1',
+      },
+      { transport }
+    );
+
+    expect(result.duplicate).toBe(true);
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+});
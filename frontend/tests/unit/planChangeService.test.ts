@@ -0,0 +1,110 @@
+/**
+ * Tests for plan change proration quotes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizePlanSelection,
+  quotePlanChange,
+  readSubscriptionSeats,
+} from '@/lib/services/planChangeService';
+
+// 30-day cycle, 12 days used
+const currentStart = new Date('2025-11-01T00:00:00Z');
+const currentEnd = new Date('2025-12-01T00:00:00Z');
+const now = new Date('2025-11-13T00:00:00Z');
+
+describe('quotePlanChange', () => {
+  it('prorates an upgrade over the rest of the cycle and applies it now', () => {
+    const quote = quotePlanChange({
+      current: normalizePlanSelection('explorer'),
+      target: normalizePlanSelection('navigator'),
+      billingCycle: 'monthly',
+      currentStart,
+      currentEnd,
+      now,
+    });
+
+    expect(quote.direction).toBe('upgrade');
+    expect(quote.currentCycleAmount).toBe(159900);
+    expect(quote.newCycleAmount).toBe(349900);
+    expect(quote.remainingFraction).toBe(0.6);
+    expect(quote.proratedAmount).toBe(114000);
+    expect(quote.effective).toBe('now');
+    expect(quote.effectiveAt).toBe(now.toISOString());
+  });
+
+  it('prices team seat changes per seat', () => {
+    const quote = quotePlanChange({
+      current: normalizePlanSelection('crew', 5),
+      target: normalizePlanSelection('crew', 8),
+      billingCycle: 'monthly',
+      currentStart,
+      currentEnd,
+      now,
+    });
+
+    expect(quote.direction).toBe('upgrade');
+    expect(quote.currentCycleAmount).toBe(199900 * 5);
+    expect(quote.newCycleAmount).toBe(199900 * 8);
+    expect(quote.proratedAmount).toBe(Math.round(199900 * 3 * 0.6));
+  });
+
+  it('schedules a downgrade for the end of the cycle without proration', () => {
+    const quote = quotePlanChange({
+      current: normalizePlanSelection('fleet', 10),
+      target: normalizePlanSelection('crew', 10),
+      billingCycle: 'yearly',
+      currentStart,
+      currentEnd,
+      now,
+    });
+
+    expect(quote.direction).toBe('downgrade');
+    expect(quote.proratedAmount).toBe(0);
+    expect(quote.effective).toBe('cycle_end');
+    expect(quote.effectiveAt).toBe(currentEnd.toISOString());
+  });
+
+  it('reports no change for the same tier and seats', () => {
+    const quote = quotePlanChange({
+      current: normalizePlanSelection('navigator'),
+      target: normalizePlanSelection('navigator', 4),
+      billingCycle: 'monthly',
+      currentStart,
+      currentEnd,
+      now,
+    });
+
+    expect(quote.direction).toBe('none');
+    expect(quote.proratedAmount).toBe(0);
+  });
+
+  it('charges nothing once the cycle has ended', () => {
+    const quote = quotePlanChange({
+      current: normalizePlanSelection('explorer'),
+      target: normalizePlanSelection('voyager'),
+      billingCycle: 'monthly',
+      currentStart,
+      currentEnd,
+      now: new Date('2025-12-02T00:00:00Z'),
+    });
+
+    expect(quote.remainingFraction).toBe(0);
+    expect(quote.proratedAmount).toBe(0);
+  });
+});
+
+describe('readSubscriptionSeats', () => {
+  it('reads seats from object and JSON-encoded metadata', () => {
+    expect(readSubscriptionSeats({ seats: 8 })).toBe(8);
+    expect(readSubscriptionSeats(JSON.stringify({ seats: 5, billing_cycle: 'monthly' }))).toBe(5);
+  });
+
+  it('returns null when seats are missing or invalid', () => {
+    expect(readSubscriptionSeats(null)).toBeNull();
+    expect(readSubscriptionSeats({})).toBeNull();
+    expect(readSubscriptionSeats('not json')).toBeNull();
+    expect(readSubscriptionSeats({ seats: 0 })).toBeNull();
+  });
+});
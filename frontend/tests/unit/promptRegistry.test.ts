@@ -0,0 +1,120 @@
+/**
+ * Tests for the prompt registry and deterministic A/B version assignment
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PROMPT_REGISTRY, getPrompt, hasPromptVersion } from '@/lib/prompts/registry';
+import {
+  assignPromptVersion,
+  getPromptExperiments,
+  resolvePrompt,
+  type PromptExperiment,
+} from '@/lib/prompts/experiments';
+
+describe('prompt registry', () => {
+  beforeEach(() => {
+    // Register a second version so experiments have something to split
+    PROMPT_REGISTRY['blueprint.system'].versions.push({
+      version: 'v2-test',
+      description: 'Test variant',
+      load: () => 'variant prompt',
+    });
+  });
+
+  afterEach(() => {
+    PROMPT_REGISTRY['blueprint.system'].versions = PROMPT_REGISTRY[
+      'blueprint.system'
+    ].versions.filter((entry) => entry.version !== 'v2-test');
+    delete process.env.PROMPT_EXPERIMENTS;
+    vi.restoreAllMocks();
+  });
+
+  const experiment: PromptExperiment = {
+    id: 'blueprint-test',
+    promptId: 'blueprint.system',
+    control: 'v1',
+    variant: 'v2-test',
+    variantShare: 0.5,
+    active: true,
+  };
+
+  it('loads the default version when none is given', () => {
+    const prompt = getPrompt('blueprint.system');
+
+    expect(prompt.version).toBe('v1');
+    expect(prompt.text).toContain('Learning Experience Designer');
+  });
+
+  it('loads file-based prompts', () => {
+    expect(getPrompt('dynamic_questions.user').text).toContain('{current_role}');
+  });
+
+  it('throws for an unknown version', () => {
+    expect(() => getPrompt('blueprint.system', 'v99')).toThrow(
+      'Unknown prompt version blueprint.system@v99'
+    );
+    expect(hasPromptVersion('blueprint.system', 'v99')).toBe(false);
+  });
+
+  it('uses the default version outside an experiment', () => {
+    expect(assignPromptVersion('blueprint.system', 'bp-1', [])).toEqual({
+      promptId: 'blueprint.system',
+      version: 'v1',
+      experimentId: null,
+      arm: null,
+    });
+  });
+
+  it('assigns the same arm to the same blueprint every time', () => {
+    const first = assignPromptVersion('blueprint.system', 'bp-42', [experiment]);
+
+    for (let i = 0; i < 5; i++) {
+      expect(assignPromptVersion('blueprint.system', 'bp-42', [experiment])).toEqual(first);
+    }
+    expect(first.experimentId).toBe('blueprint-test');
+    expect(first.version).toBe(first.arm === 'variant' ? 'v2-test' : 'v1');
+  });
+
+  it('splits traffic close to the variant share', () => {
+    const split = { ...experiment, variantShare: 0.2 };
+    const variants = Array.from({ length: 2000 }, (_, i) =>
+      assignPromptVersion('blueprint.system', `bp-${i}`, [split])
+    ).filter((assignment) => assignment.arm === 'variant').length;
+
+    expect(variants / 2000).toBeGreaterThan(0.16);
+    expect(variants / 2000).toBeLessThan(0.24);
+  });
+
+  it('ignores inactive experiments and other prompts', () => {
+    const assignment = assignPromptVersion('section_regeneration.system', 'bp-1', [
+      { ...experiment, active: false },
+      experiment,
+    ]);
+
+    expect(assignment.experimentId).toBeNull();
+  });
+
+  it('resolves the text of the assigned version', () => {
+    const allVariant = { ...experiment, variantShare: 1 };
+
+    expect(resolvePrompt('blueprint.system', 'bp-1', [allVariant])).toMatchObject({
+      version: 'v2-test',
+      arm: 'variant',
+      text: 'variant prompt',
+    });
+  });
+
+  it('reads experiments from PROMPT_EXPERIMENTS and drops invalid ones', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    process.env.PROMPT_EXPERIMENTS = JSON.stringify([
+      { ...experiment, active: undefined },
+      { ...experiment, id: 'unknown-version', variant: 'v99' },
+      { ...experiment, id: 'bad-share', variantShare: 2 },
+    ]);
+
+    const experiments = getPromptExperiments();
+
+    expect(experiments.map((entry) => entry.id)).toEqual(['blueprint-test']);
+    expect(experiments[0].active).toBe(true);
+  });
+});
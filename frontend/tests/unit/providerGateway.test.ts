@@ -0,0 +1,231 @@
+/**
+ * Tests for the provider gateway: the cascade over configured providers,
+ * circuit breaker and health bookkeeping, and the Ollama transport against a
+ * local Ollama-compatible stub
+ */
+
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ProviderGateway,
+  ProviderGatewayError,
+  getProviderDashboard,
+  type ProviderTransportFn,
+} from '@/lib/ai-sdk/gateway';
+import { ProviderType } from '@/lib/ai-sdk/providerConfig';
+import {
+  CircuitState,
+  getCircuitBreaker,
+  resetCircuitBreakerInstance,
+} from '@/lib/ai-sdk/circuitBreaker';
+import { getHealthMonitor, resetHealthMonitorInstance } from '@/lib/ai-sdk/healthMonitor';
+import { ErrorCategory, getStatsTracker, resetStatsTracker } from '@/lib/ai-sdk/fallbackStrategy';
+import { ClaudeApiError } from '@/lib/claude/client';
+
+interface OllamaChatBody {
+  model: string;
+  stream: boolean;
+  messages: Array<{ role: string; content: string }>;
+  options: { temperature: number; num_predict: number };
+}
+
+let server: Server;
+let ollamaUrl: string;
+let ollamaRequests: OllamaChatBody[] = [];
+let ollamaReply = '{"ok": true}';
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      if (req.method !== 'POST' || req.url !== '/api/chat') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const parsed = JSON.parse(body) as OllamaChatBody;
+      ollamaRequests.push(parsed);
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(
+        JSON.stringify({
+          model: parsed.model,
+          message: { role: 'assistant', content: ollamaReply },
+          done: true,
+          prompt_eval_count: 120,
+          eval_count: 45,
+        })
+      );
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  ollamaUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const request = { system: 'You are terse.', prompt: 'Say ok', maxTokens: 256, maxRetries: 1 };
+
+function completion(text: string, model = 'claude-sonnet-4-5') {
+  return { text, model, usage: { input_tokens: 10, output_tokens: 5 } };
+}
+
+describe('ProviderGateway', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    vi.stubEnv('NEXT_PUBLIC_ANTHROPIC_API_KEY', '');
+    vi.stubEnv('OLLAMA_BASE_URL', ollamaUrl);
+    resetCircuitBreakerInstance();
+    resetHealthMonitorInstance();
+    resetStatsTracker();
+    ollamaRequests = [];
+    ollamaReply = '{"ok": true}';
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('generates offline through an Ollama-compatible server', async () => {
+    const response = await new ProviderGateway().generate(request, (text) => JSON.parse(text));
+
+    expect(response).toMatchObject({
+      data: { ok: true },
+      provider: ProviderType.OLLAMA_QWEN3,
+      model: 'qwen3:32b',
+      usage: { input_tokens: 120, output_tokens: 45 },
+      fallbackUsed: false,
+      attempts: 1,
+    });
+    expect(ollamaRequests[0]).toMatchObject({
+      stream: false,
+      messages: [
+        { role: 'system', content: 'You are terse.' },
+        { role: 'user', content: 'Say ok' },
+      ],
+      options: { num_predict: 256 },
+    });
+
+    const health = getHealthMonitor().getMetrics(ProviderType.OLLAMA_QWEN3);
+    expect(health.successfulRequests).toBe(1);
+  });
+
+  it('falls back down the cascade and records each failure', async () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant-test');
+    const anthropic = vi.fn<ProviderTransportFn>(async () => {
+      throw new ClaudeApiError('invalid x-api-key', 401, 'authentication_error');
+    });
+
+    const response = await new ProviderGateway({ anthropic }).generate(request);
+
+    expect(anthropic.mock.calls.map(([config]) => config.id)).toEqual([
+      ProviderType.CLAUDE_SONNET_4,
+      ProviderType.CLAUDE_OPUS_4,
+    ]);
+    expect(response).toMatchObject({
+      provider: ProviderType.OLLAMA_QWEN3,
+      fallbackUsed: true,
+      attempts: 3,
+    });
+
+    expect(getCircuitBreaker().getMetricsSnapshot(ProviderType.CLAUDE_SONNET_4).failures).toBe(1);
+    expect(getHealthMonitor().getMetrics(ProviderType.CLAUDE_OPUS_4).failedRequests).toBe(1);
+    expect(getStatsTracker().getStats().providerUsage[ProviderType.OLLAMA_QWEN3]).toBe(1);
+  });
+
+  it('skips providers whose circuit is open', async () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant-test');
+    for (let i = 0; i < 5; i++) {
+      getCircuitBreaker().recordFailure(ProviderType.CLAUDE_SONNET_4);
+    }
+    const anthropic = vi.fn<ProviderTransportFn>(async (config) =>
+      completion('opus answer', config.model)
+    );
+
+    const response = await new ProviderGateway({ anthropic }).generate(request);
+
+    expect(getCircuitBreaker().getState(ProviderType.CLAUDE_SONNET_4)).toBe(CircuitState.OPEN);
+    expect(anthropic).toHaveBeenCalledTimes(1);
+    expect(response.provider).toBe(ProviderType.CLAUDE_OPUS_4);
+    expect(response.fallbackUsed).toBe(true);
+  });
+
+  it('treats unparseable output as a provider failure', async () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant-test');
+    const anthropic = vi.fn<ProviderTransportFn>(async () => completion('not json'));
+
+    const response = await new ProviderGateway({ anthropic }).generate(request, (text) =>
+      JSON.parse(text)
+    );
+
+    expect(response.provider).toBe(ProviderType.OLLAMA_QWEN3);
+    expect(response.data).toEqual({ ok: true });
+  });
+
+  it('records every completion in the usage ledger, including unusable ones', async () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant-test');
+    const anthropic = vi.fn<ProviderTransportFn>(async () => completion('not json'));
+    const recordUsage = vi.fn(async () => {});
+
+    await new ProviderGateway({ anthropic }, recordUsage).generate(
+      { ...request, usage: { userId: 'user-1', blueprintId: 'bp-1', purpose: 'blueprint' } },
+      (text) => JSON.parse(text)
+    );
+
+    expect(recordUsage.mock.calls.map(([entry]) => [entry.provider, entry.success])).toEqual([
+      [ProviderType.CLAUDE_SONNET_4, false],
+      [ProviderType.CLAUDE_OPUS_4, false],
+      [ProviderType.OLLAMA_QWEN3, true],
+    ]);
+    expect(recordUsage).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        blueprintId: 'bp-1',
+        purpose: 'blueprint',
+        model: 'qwen3:32b',
+        inputTokens: 120,
+        outputTokens: 45,
+      })
+    );
+  });
+
+  it('raises a gateway error when every provider fails', async () => {
+    ollamaReply = 'still not json';
+
+    const error = await new ProviderGateway()
+      .generate(request, (text) => JSON.parse(text))
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ProviderGatewayError);
+    expect(error.attempts).toHaveLength(1);
+    expect(getStatsTracker().getStats().failedOperations).toBe(1);
+  });
+
+  it('raises a gateway error when no provider is configured', async () => {
+    vi.stubEnv('OLLAMA_BASE_URL', '');
+
+    await expect(new ProviderGateway().generate(request)).rejects.toMatchObject({
+      name: 'ProviderGatewayError',
+      category: ErrorCategory.AUTH,
+    });
+  });
+
+  it('reports availability and health for the monitoring dashboard', async () => {
+    await new ProviderGateway().generate(request);
+
+    const dashboard = getProviderDashboard();
+
+    expect(dashboard.providers.map((provider) => [provider.provider, provider.available])).toEqual([
+      [ProviderType.CLAUDE_SONNET_4, false],
+      [ProviderType.CLAUDE_OPUS_4, false],
+      [ProviderType.OLLAMA_QWEN3, true],
+    ]);
+    expect(dashboard.fallback.successfulOperations).toBe(1);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for enterprise SSO: connection validation, domain matching and OIDC
+ * ID token verification
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync, sign } from 'crypto';
+import {
+  createCodeChallenge,
+  validateIdTokenClaims,
+  verifyIdTokenSignature,
+  type IdTokenClaims,
+} from '@/lib/auth/oidc';
+import { safeRedirectUrl } from '@/lib/auth/redirect';
+import {
+  emailDomain,
+  samlProviderIdFromUser,
+  ssoConnectionInputSchema,
+} from '@/lib/services/ssoService';
+
+const issuer = 'http://localhost:8080/realms/acme';
+const now = Date.parse('2025-11-19T10:00:00Z');
+const nowSeconds = Math.floor(now / 1000);
+
+function claims(overrides: Partial<IdTokenClaims> = {}): IdTokenClaims {
+  return {
+    iss: issuer,
+    sub: 'idp-user-1',
+    aud: 'polaris',
+    exp: nowSeconds + 300,
+    iat: nowSeconds,
+    nonce: 'nonce-1',
+    email: 'jane@acme.test',
+    ...overrides,
+  };
+}
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' };
+
+function signToken(payload: object, kid: string = 'key-1'): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', kid })).toString('base64url');
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = sign('sha256', Buffer.from(`${header}.${body}`), privateKey);
+  return `${header}.${body}.${signature.toString('base64url')}`;
+}
+
+describe('emailDomain', () => {
+  it('returns the lower-cased domain', () => {
+    expect(emailDomain('Jane.Doe@ACME.com')).toBe('acme.com');
+  });
+
+  it('returns null without a domain', () => {
+    expect(emailDomain('jane')).toBeNull();
+    expect(emailDomain('jane@')).toBeNull();
+    expect(emailDomain('@acme.com')).toBeNull();
+  });
+});
+
+describe('samlProviderIdFromUser', () => {
+  it('reads the provider id of Supabase SSO users', () => {
+    expect(samlProviderIdFromUser({ app_metadata: { provider: 'sso:abc-123' } })).toBe('abc-123');
+    expect(samlProviderIdFromUser({ app_metadata: { provider: 'email' } })).toBeNull();
+  });
+});
+
+describe('ssoConnectionInputSchema', () => {
+  it('requires the fields of the chosen protocol', () => {
+    const base = { domain: 'Acme.com', displayName: 'Acme' };
+
+    expect(ssoConnectionInputSchema.safeParse({ ...base, protocol: 'saml' }).success).toBe(false);
+    expect(
+      ssoConnectionInputSchema.safeParse({ ...base, protocol: 'oidc', oidcIssuer: issuer }).success
+    ).toBe(false);
+
+    const result = ssoConnectionInputSchema.safeParse({
+      ...base,
+      protocol: 'oidc',
+      oidcIssuer: issuer,
+      oidcClientId: 'polaris',
+    });
+    expect(result.success && result.data).toMatchObject({
+      domain: 'acme.com',
+      defaultTier: 'fleet',
+      defaultRole: 'user',
+      enforceSso: true,
+    });
+  });
+});
+
+describe('verifyIdTokenSignature', () => {
+  it('accepts a token signed by a published key', () => {
+    expect(verifyIdTokenSignature(signToken(claims()), [jwk]).email).toBe('jane@acme.test');
+  });
+
+  it('rejects tampered tokens and unknown keys', () => {
+    const [header, , signature] = signToken(claims()).split('.');
+    const forged = Buffer.from(JSON.stringify(claims({ email: 'ceo@acme.test' }))).toString(
+      'base64url'
+    );
+
+    expect(() => verifyIdTokenSignature(`${header}.${forged}.${signature}`, [jwk])).toThrow(
+      'signature is invalid'
+    );
+    expect(() => verifyIdTokenSignature(signToken(claims(), 'key-2'), [jwk])).toThrow(
+      'signature is invalid'
+    );
+  });
+
+  it('rejects unsigned tokens', () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+    const body = Buffer.from(JSON.stringify(claims())).toString('base64url');
+
+    expect(() => verifyIdTokenSignature(`${header}.${body}.`, [jwk])).toThrow('Unsupported');
+  });
+});
+
+describe('validateIdTokenClaims', () => {
+  const expected = { issuer: `${issuer}/`, clientId: 'polaris', nonce: 'nonce-1' };
+
+  it('accepts matching claims', () => {
+    expect(() => validateIdTokenClaims(claims(), expected, now)).not.toThrow();
+  });
+
+  it.each([
+    ['issuer', { iss: 'https://evil.test' }],
+    ['audience', { aud: 'other-client' }],
+    ['expired', { exp: nowSeconds - 120 }],
+    ['nonce', { nonce: 'nonce-2' }],
+  ])('rejects a wrong %s', (_name, overrides) => {
+    expect(() => validateIdTokenClaims(claims(overrides), expected, now)).toThrow();
+  });
+});
+
+describe('createCodeChallenge', () => {
+  it('matches the RFC 7636 example', () => {
+    expect(createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe(
+      'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+    );
+  });
+});
+
+describe('safeRedirectUrl', () => {
+  const origin = 'https://polaris.example.com';
+
+  it('follows same-origin paths', () => {
+    expect(safeRedirectUrl(origin, '/blueprint/1?tab=share')).toBe(
+      `${origin}/blueprint/1?tab=share`
+    );
+    expect(safeRedirectUrl(origin, encodeURIComponent('/settings#security'))).toBe(
+      `${origin}/settings#security`
+    );
+  });
+
+  it.each([
+    null,
+    '//evil.com',
+    '/\\evil.com',
+    '@evil.com',
+    'https://evil.com/',
+    '%2F%2Fevil.com',
+    '/\t/evil.com',
+    '%E0%A4%A',
+  ])('falls back to the home page for %s', (redirect) => {
+    expect(safeRedirectUrl(origin, redirect)).toBe(`${origin}/`);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for two-factor recovery codes and assurance level checks
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  TwoFactorService,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  normalizeRecoveryCode,
+  RECOVERY_CODE_COUNT,
+} from '@/lib/services/twoFactorService';
+import { getVerifiedUser, needsSecondFactor } from '@/lib/auth/twoFactor';
+
+describe('generateRecoveryCodes', () => {
+  it('creates distinct codes without ambiguous characters', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-hjkmnp-z2-9]{5}-[a-hjkmnp-z2-9]{5}$/);
+    }
+  });
+});
+
+describe('hashRecoveryCode', () => {
+  it('ignores case, dashes and spaces', () => {
+    expect(normalizeRecoveryCode(' AbCde-fGh23 ')).toBe('abcdefgh23');
+    expect(hashRecoveryCode('ABCDE FGH23')).toBe(hashRecoveryCode('abcde-fgh23'));
+    expect(hashRecoveryCode('abcde-fgh23')).not.toBe(hashRecoveryCode('abcde-fgh24'));
+  });
+});
+
+describe('needsSecondFactor', () => {
+  it('is true only for password-only sessions of users with a factor', () => {
+    expect(needsSecondFactor({ currentLevel: 'aal1', nextLevel: 'aal2' })).toBe(true);
+    expect(needsSecondFactor({ currentLevel: 'aal2', nextLevel: 'aal2' })).toBe(false);
+    expect(needsSecondFactor({ currentLevel: 'aal1', nextLevel: 'aal1' })).toBe(false);
+    expect(needsSecondFactor({ currentLevel: null, nextLevel: null })).toBe(false);
+  });
+});
+
+describe('getVerifiedUser', () => {
+  function mockAuth(currentLevel: string, nextLevel: string) {
+    return {
+      auth: {
+        getUser: vi.fn(async () => ({ data: { user: { id: 'user-1' } }, error: null })),
+        mfa: {
+          getAuthenticatorAssuranceLevel: vi.fn(async () => ({
+            data: { currentLevel, nextLevel },
+            error: null,
+          })),
+        },
+      },
+    } as unknown as Pick<SupabaseClient, 'auth'>;
+  }
+
+  it('withholds the user until a session with a factor passes it', async () => {
+    const pending = await getVerifiedUser(mockAuth('aal1', 'aal2'));
+    expect(pending).toEqual({ data: { user: null }, error: null });
+
+    const verified = await getVerifiedUser(mockAuth('aal2', 'aal2'));
+    expect(verified.data.user?.id).toBe('user-1');
+
+    const withoutFactor = await getVerifiedUser(mockAuth('aal1', 'aal1'));
+    expect(withoutFactor.data.user?.id).toBe('user-1');
+  });
+});
+
+describe('TwoFactorService.consumeRecoveryCode', () => {
+  function mockSupabase(updated: unknown[]) {
+    const builder: Record<string, ReturnType<typeof vi.fn>> = {};
+    for (const method of ['update', 'eq', 'is']) {
+      builder[method] = vi.fn(() => builder);
+    }
+    builder.select = vi.fn(async () => ({ data: updated, error: null }));
+    const from = vi.fn(() => builder);
+
+    return { supabase: { from } as unknown as SupabaseClient, builder };
+  }
+
+  it('matches the hash of an unused code', async () => {
+    const { supabase, builder } = mockSupabase([{ id: 'code-1' }]);
+
+    await expect(
+      TwoFactorService.consumeRecoveryCode(supabase, 'user-1', 'ABCDE-FGH23')
+    ).resolves.toBe(true);
+    expect(builder.eq).toHaveBeenCalledWith('code_hash', hashRecoveryCode('abcde-fgh23'));
+    expect(builder.is).toHaveBeenCalledWith('used_at', null);
+  });
+
+  it('rejects codes that are wrong or already used', async () => {
+    const { supabase } = mockSupabase([]);
+
+    await expect(
+      TwoFactorService.consumeRecoveryCode(supabase, 'user-1', 'abcde-fgh23')
+    ).resolves.toBe(false);
+  });
+});
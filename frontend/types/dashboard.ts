@@ -19,6 +19,8 @@ export interface DashboardKPIs {
   completedAssessments: number;
   totalResources: number;
   estimatedCompletionDate: string;
+  /** Hours logged against the blueprint's implementation plan, if it has one */
+  actualHours?: number;
 }
 
 export interface TimelineData {
@@ -28,6 +30,15 @@ export interface TimelineData {
   milestones: string[];
 }
 
+export interface BurnUpPoint {
+  date: string;
+  scope: number;
+  planned: number;
+  /** Null for dates after today */
+  completed: number | null;
+  actual: number | null;
+}
+
 export interface ModuleData {
   id: string;
   title: string;
@@ -128,6 +128,34 @@ export interface SubscriptionInfo {
   renewalAmount?: number;
   billingCycle: BillingCycle;
   remainingCount?: number;
+  seats?: number;
+  pendingPlanChange?: PendingPlanChangeInfo | null;
+}
+
+export interface PendingPlanChangeInfo {
+  tier: SubscriptionTier;
+  seats: number;
+  effectiveAt: string;
+}
+
+export interface PlanChangeOptions {
+  tier: Exclude<SubscriptionTier, 'free'>;
+  seats?: number;
+  preview: boolean;
+}
+
+export interface PlanChangeQuote {
+  current: { tier: SubscriptionTier; seats: number };
+  target: { tier: SubscriptionTier; seats: number };
+  billingCycle: BillingCycle;
+  direction: 'upgrade' | 'downgrade' | 'none';
+  currentCycleAmount: number;
+  newCycleAmount: number;
+  remainingFraction: number;
+  proratedAmount: number;
+  effective: 'now' | 'cycle_end';
+  effectiveAt: string;
+  periodEnd: string;
 }
 
 // Component Props
@@ -144,6 +172,11 @@ export interface PaymentHistoryProps {
   error?: string | null;
 }
 
+export interface ChangePlanButtonProps {
+  subscription: SubscriptionInfo | null;
+  isLoading?: boolean;
+}
+
 export interface CancelSubscriptionButtonProps {
   subscription: Subscription | null;
   isLoading?: boolean;
@@ -0,0 +1,124 @@
+-- ============================================================================
+-- Migration: Create Blueprint Generation Jobs Table
+-- Description: Persists asynchronous blueprint generation jobs so progress
+--              survives closed tabs and serverless request timeouts
+-- Version: 1.0.0
+-- Date: 2025-11-02
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: blueprint_generation_jobs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.blueprint_generation_jobs (
+  -- Primary Key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign Keys
+  blueprint_id UUID NOT NULL REFERENCES public.blueprint_generator(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Job Status
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  CONSTRAINT valid_generation_job_status CHECK (
+    status IN ('queued', 'running', 'succeeded', 'failed')
+  ),
+
+  -- Execution Details
+  attempts INTEGER NOT NULL DEFAULT 0,
+  model VARCHAR(100),
+  fallback_used BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- Progress (WorkflowTracer steps, appended as the worker advances)
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  current_step VARCHAR(100),
+
+  -- Token usage reported by each model call
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+
+  -- Failure Details
+  error TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_blueprint_id
+  ON public.blueprint_generation_jobs(blueprint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_id
+  ON public.blueprint_generation_jobs(user_id);
+
+-- Only one queued or running job per blueprint
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_jobs_one_active_per_blueprint
+  ON public.blueprint_generation_jobs(blueprint_id)
+  WHERE status IN ('queued', 'running');
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.blueprint_generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own generation jobs
+CREATE POLICY "Users can view own generation jobs"
+  ON public.blueprint_generation_jobs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policy: Users can enqueue generation jobs for their own blueprints
+CREATE POLICY "Users can insert own generation jobs"
+  ON public.blueprint_generation_jobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.blueprint_generator b
+      WHERE b.id = blueprint_id AND b.user_id = auth.uid()
+    )
+  );
+
+-- Policy: The worker runs with the requesting user's session and reports progress
+CREATE POLICY "Users can update own generation jobs"
+  ON public.blueprint_generation_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Service role has full access (external workers, admin tooling)
+CREATE POLICY "Service role has full access to generation jobs"
+  ON public.blueprint_generation_jobs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================================
+-- TRIGGER: Update updated_at timestamp
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_blueprint_generation_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_blueprint_generation_jobs_updated_at
+  BEFORE UPDATE ON public.blueprint_generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_blueprint_generation_jobs_updated_at();
+
+COMMENT ON TABLE public.blueprint_generation_jobs IS
+'Asynchronous blueprint generation jobs with attempt tracking and streamed WorkflowTracer progress';
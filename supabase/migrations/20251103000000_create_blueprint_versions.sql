@@ -0,0 +1,325 @@
+-- ============================================================================
+-- Migration: Create Blueprint Version History
+-- Description: Append-only snapshots of blueprint content so regenerations and
+--              section edits no longer destroy previous versions
+-- Version: 1.0.0
+-- Date: 2025-11-03
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: blueprint_versions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.blueprint_versions (
+  -- Primary Key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign Keys
+  blueprint_id UUID NOT NULL REFERENCES public.blueprint_generator(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Sequential per blueprint, starting at 1
+  version_number INTEGER NOT NULL,
+
+  -- Snapshot of the blueprint content at this version
+  title TEXT,
+  blueprint_json JSONB NOT NULL DEFAULT '{}'::jsonb,
+  blueprint_markdown TEXT,
+  static_answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  dynamic_answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- What produced this version
+  change_source VARCHAR(20) NOT NULL DEFAULT 'edit',
+  CONSTRAINT valid_version_change_source CHECK (
+    change_source IN ('backfill', 'generation', 'regeneration', 'edit', 'restore')
+  ),
+  changed_sections TEXT[] NOT NULL DEFAULT '{}',
+  restored_from_version INTEGER,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_blueprint_version_number UNIQUE (blueprint_id, version_number)
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_blueprint_versions_blueprint
+  ON public.blueprint_versions(blueprint_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_blueprint_versions_user_id
+  ON public.blueprint_versions(user_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.blueprint_versions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view versions of their own blueprints
+-- (No insert/update/delete policies: rows are written only by the capture trigger)
+CREATE POLICY "Users can view own blueprint versions"
+  ON public.blueprint_versions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policy: Service role can read versions (exports, admin tooling)
+CREATE POLICY "Service role can view blueprint versions"
+  ON public.blueprint_versions
+  FOR SELECT
+  TO service_role
+  USING (true);
+
+-- ============================================================================
+-- APPEND-ONLY GUARD
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.prevent_blueprint_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'blueprint_versions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_prevent_blueprint_version_update
+  BEFORE UPDATE ON public.blueprint_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_blueprint_version_update();
+
+-- ============================================================================
+-- FUNCTION: Capture a version whenever blueprint content changes
+-- The source can be set for the current transaction with
+--   set_config('polaris.version_source', '<source>', true)
+-- otherwise it is inferred from the status transition.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.capture_blueprint_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source TEXT;
+  v_restored_from INTEGER;
+  v_changed TEXT[];
+  v_previous JSONB;
+  v_next_version INTEGER;
+BEGIN
+  -- Nothing generated yet
+  IF NEW.blueprint_json IS NULL OR NEW.blueprint_json = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.blueprint_json IS NOT DISTINCT FROM OLD.blueprint_json
+     AND NEW.blueprint_markdown IS NOT DISTINCT FROM OLD.blueprint_markdown THEN
+    RETURN NEW;
+  END IF;
+
+  v_previous := CASE WHEN TG_OP = 'UPDATE' THEN COALESCE(OLD.blueprint_json, '{}'::jsonb) ELSE '{}'::jsonb END;
+
+  v_source := NULLIF(current_setting('polaris.version_source', true), '');
+  IF v_source IS NULL THEN
+    v_source := CASE
+      WHEN TG_OP = 'INSERT' THEN 'generation'
+      WHEN NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN 'generation'
+      ELSE 'edit'
+    END;
+  END IF;
+
+  v_restored_from := NULLIF(current_setting('polaris.restored_from_version', true), '')::INTEGER;
+
+  -- Top-level sections whose content differs from the previous state (internal keys excluded)
+  SELECT COALESCE(array_agg(k ORDER BY k), '{}')
+  INTO v_changed
+  FROM (
+    SELECT key AS k FROM jsonb_each(NEW.blueprint_json)
+    UNION
+    SELECT key AS k FROM jsonb_each(v_previous)
+  ) keys
+  WHERE k NOT LIKE '\_%'
+    AND NEW.blueprint_json -> k IS DISTINCT FROM v_previous -> k;
+
+  -- Serialize concurrent saves of the same blueprint so they cannot both read
+  -- the same MAX(version_number); held until the transaction ends
+  PERFORM pg_advisory_xact_lock(hashtextextended('blueprint_versions:' || NEW.id::text, 0));
+
+  SELECT COALESCE(MAX(version_number), 0) + 1
+  INTO v_next_version
+  FROM public.blueprint_versions
+  WHERE blueprint_id = NEW.id;
+
+  INSERT INTO public.blueprint_versions (
+    blueprint_id,
+    user_id,
+    version_number,
+    title,
+    blueprint_json,
+    blueprint_markdown,
+    static_answers,
+    dynamic_answers,
+    change_source,
+    changed_sections,
+    restored_from_version,
+    created_by
+  ) VALUES (
+    NEW.id,
+    NEW.user_id,
+    v_next_version,
+    NEW.title,
+    NEW.blueprint_json,
+    NEW.blueprint_markdown,
+    COALESCE(NEW.static_answers, '{}'::jsonb),
+    COALESCE(NEW.dynamic_answers, '{}'::jsonb),
+    v_source,
+    v_changed,
+    CASE WHEN v_source = 'restore' THEN v_restored_from ELSE NULL END,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_capture_blueprint_version
+  AFTER INSERT OR UPDATE OF blueprint_json, blueprint_markdown ON public.blueprint_generator
+  FOR EACH ROW
+  EXECUTE FUNCTION public.capture_blueprint_version();
+
+-- ============================================================================
+-- FUNCTION: Atomically replace one top-level section
+-- Replaces the read-modify-write in /api/blueprints/update-section and records
+-- the change source ('edit' for manual edits, 'regeneration' for AI rewrites).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.update_blueprint_section(
+  p_blueprint_id UUID,
+  p_section_id TEXT,
+  p_section_data JSONB,
+  p_source TEXT DEFAULT 'edit'
+)
+RETURNS public.blueprint_generator
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result public.blueprint_generator;
+BEGIN
+  IF p_source NOT IN ('edit', 'regeneration') THEN
+    RAISE EXCEPTION 'Invalid change source: %', p_source;
+  END IF;
+
+  PERFORM set_config('polaris.version_source', p_source, true);
+
+  UPDATE public.blueprint_generator
+  SET
+    blueprint_json = jsonb_set(COALESCE(blueprint_json, '{}'::jsonb), ARRAY[p_section_id], p_section_data, true),
+    updated_at = NOW()
+  WHERE id = p_blueprint_id
+    AND user_id = auth.uid()
+  RETURNING * INTO result;
+
+  IF result.id IS NULL THEN
+    RAISE EXCEPTION 'Blueprint % not found or access denied', p_blueprint_id;
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_blueprint_section(UUID, TEXT, JSONB, TEXT) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION: Restore a previous version (recorded as a new 'restore' version)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.restore_blueprint_version(p_version_id UUID)
+RETURNS public.blueprint_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.blueprint_versions;
+  result public.blueprint_versions;
+BEGIN
+  SELECT * INTO v_version
+  FROM public.blueprint_versions
+  WHERE id = p_version_id
+    AND user_id = auth.uid();
+
+  IF v_version.id IS NULL THEN
+    RAISE EXCEPTION 'Blueprint version % not found or access denied', p_version_id;
+  END IF;
+
+  PERFORM set_config('polaris.version_source', 'restore', true);
+  PERFORM set_config('polaris.restored_from_version', v_version.version_number::TEXT, true);
+
+  UPDATE public.blueprint_generator
+  SET
+    blueprint_json = v_version.blueprint_json,
+    blueprint_markdown = v_version.blueprint_markdown,
+    static_answers = v_version.static_answers,
+    dynamic_answers = v_version.dynamic_answers,
+    title = COALESCE(v_version.title, title),
+    status = 'completed',
+    updated_at = NOW()
+  WHERE id = v_version.blueprint_id
+    AND user_id = auth.uid();
+
+  SELECT * INTO result
+  FROM public.blueprint_versions
+  WHERE blueprint_id = v_version.blueprint_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_blueprint_version(UUID) TO authenticated;
+
+-- ============================================================================
+-- BACKFILL: Snapshot existing blueprint content as version 1
+-- ============================================================================
+
+INSERT INTO public.blueprint_versions (
+  blueprint_id,
+  user_id,
+  version_number,
+  title,
+  blueprint_json,
+  blueprint_markdown,
+  static_answers,
+  dynamic_answers,
+  change_source,
+  changed_sections,
+  created_at
+)
+SELECT
+  b.id,
+  b.user_id,
+  1,
+  b.title,
+  b.blueprint_json,
+  b.blueprint_markdown,
+  COALESCE(b.static_answers, '{}'::jsonb),
+  COALESCE(b.dynamic_answers, '{}'::jsonb),
+  'backfill',
+  COALESCE(
+    (SELECT array_agg(key ORDER BY key) FROM jsonb_object_keys(b.blueprint_json) AS key WHERE key NOT LIKE '\_%'),
+    '{}'
+  ),
+  b.updated_at
+FROM public.blueprint_generator b
+WHERE b.blueprint_json IS NOT NULL
+  AND b.blueprint_json <> '{}'::jsonb
+ON CONFLICT (blueprint_id, version_number) DO NOTHING;
+
+COMMENT ON TABLE public.blueprint_versions IS
+'Append-only history of blueprint content; one row per generation, section edit, regeneration or restore';
@@ -0,0 +1,60 @@
+-- ============================================================================
+-- Migration: Section Regeneration Usage
+-- Description: Count AI section regenerations (blueprint_versions rows with
+--              change_source = 'regeneration') over the same period as the
+--              blueprint creation limits. The fractional rate applied to this
+--              count lives in BlueprintUsageService.
+-- Version: 1.0.0
+-- Date: 2025-11-04
+-- ============================================================================
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_blueprint_versions_user_regenerations
+  ON public.blueprint_versions(user_id, created_at)
+  WHERE change_source = 'regeneration';
+
+-- ============================================================================
+-- FUNCTION: Section regenerations in the current limit period
+-- Free/explorer tiers count lifetime usage; paid tiers count the current
+-- billing cycle (matches get_effective_limits)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_section_regeneration_count(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_subscription_tier TEXT;
+  v_billing_cycle_start TIMESTAMPTZ;
+  v_count INTEGER;
+BEGIN
+  SELECT subscription_tier, billing_cycle_start_date
+  INTO v_subscription_tier, v_billing_cycle_start
+  FROM public.user_profiles
+  WHERE user_id = p_user_id;
+
+  SELECT COUNT(*)::INTEGER
+  INTO v_count
+  FROM public.blueprint_versions
+  WHERE user_id = p_user_id
+    AND change_source = 'regeneration'
+    AND (
+      v_subscription_tier IN ('free', 'explorer')
+      OR v_billing_cycle_start IS NULL
+      OR created_at >= v_billing_cycle_start
+    );
+
+  RETURN COALESCE(v_count, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_section_regeneration_count(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_section_regeneration_count IS
+'Number of AI section regenerations in the current limit period (lifetime for free/explorer, billing cycle for paid tiers).';
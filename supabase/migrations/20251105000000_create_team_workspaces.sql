@@ -0,0 +1,565 @@
+-- ============================================================================
+-- Migration: Team Workspaces
+-- Description: Workspaces for the seat-based team tiers (crew, fleet, armada).
+--              A workspace is tied to one Razorpay subscription; its seat
+--              limit follows the subscription quantity. Members hold an
+--              owner/editor/viewer role, and blueprints assigned to a
+--              workspace are visible to members and editable by editors.
+-- Version: 1.0.0
+-- Date: 2025-11-05
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: workspaces
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Billing link: seats come from the Razorpay subscription quantity
+  subscription_tier VARCHAR(50) NOT NULL,
+  CONSTRAINT valid_workspace_tier CHECK (subscription_tier IN ('crew', 'fleet', 'armada')),
+  razorpay_subscription_id VARCHAR(255) UNIQUE,
+  seat_limit INTEGER NOT NULL DEFAULT 1 CHECK (seat_limit >= 1),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.workspaces IS
+'Team workspaces for seat-based tiers. seat_limit is synced from the Razorpay subscription quantity by the subscription webhooks.';
+
+-- ============================================================================
+-- TABLE: workspace_members
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'editor',
+  CONSTRAINT valid_workspace_role CHECK (role IN ('owner', 'editor', 'viewer')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+-- ============================================================================
+-- TABLE: workspace_invitations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.workspace_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'editor',
+  CONSTRAINT valid_invitation_role CHECK (role IN ('editor', 'viewer')),
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '7 days',
+  accepted_at TIMESTAMPTZ,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================================================
+-- BLUEPRINT OWNERSHIP
+-- ============================================================================
+
+ALTER TABLE public.blueprint_generator
+ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.blueprint_generator.workspace_id IS
+'Workspace that owns the blueprint. NULL for personal blueprints, which remain visible only to user_id.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_workspaces_owner_id
+  ON public.workspaces(owner_id);
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id
+  ON public.workspace_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_workspace
+  ON public.workspace_invitations(workspace_id)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspace_invitations_pending_email
+  ON public.workspace_invitations(workspace_id, lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_blueprint_generator_workspace_id
+  ON public.blueprint_generator(workspace_id)
+  WHERE workspace_id IS NOT NULL;
+
+-- ============================================================================
+-- FUNCTION: Role helpers
+-- SECURITY DEFINER so policies on workspace_members can call them without
+-- recursing into their own RLS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.workspace_role(p_workspace_id UUID, p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT role
+  FROM public.workspace_members
+  WHERE workspace_id = p_workspace_id
+    AND user_id = p_user_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.workspace_role(UUID, UUID) TO authenticated;
+
+-- Editors and owners of the workspace may edit; personal blueprints stay
+-- editable by their creator only
+CREATE OR REPLACE FUNCTION public.can_edit_blueprint(p_blueprint_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.blueprint_generator b
+    WHERE b.id = p_blueprint_id
+      AND (
+        (b.workspace_id IS NULL AND b.user_id = p_user_id)
+        OR public.workspace_role(b.workspace_id, p_user_id) IN ('owner', 'editor')
+      )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_edit_blueprint(UUID, UUID) TO authenticated;
+
+-- Members plus pending (unexpired) invitations
+CREATE OR REPLACE FUNCTION public.workspace_seats_used(p_workspace_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT COUNT(*) FROM public.workspace_members WHERE workspace_id = p_workspace_id)::INTEGER
+    + (
+      SELECT COUNT(*)
+      FROM public.workspace_invitations
+      WHERE workspace_id = p_workspace_id
+        AND accepted_at IS NULL
+        AND revoked_at IS NULL
+        AND expires_at > NOW()
+    )::INTEGER;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.workspace_seats_used(UUID) TO authenticated;
+
+-- ============================================================================
+-- SEAT ENFORCEMENT
+-- New members and invitations may not push usage past seat_limit. Lowering
+-- the subscription quantity never evicts existing members; it only blocks
+-- further invites until usage is back under the limit.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_workspace_seat_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_seat_limit INTEGER;
+  v_used INTEGER;
+BEGIN
+  SELECT seat_limit INTO v_seat_limit
+  FROM public.workspaces
+  WHERE id = NEW.workspace_id
+  FOR UPDATE;
+
+  v_used := public.workspace_seats_used(NEW.workspace_id);
+
+  -- An accepted invitation turns a pending seat into a member in the same
+  -- transaction; accept_workspace_invitation marks it accepted first
+  IF v_used >= v_seat_limit THEN
+    RAISE EXCEPTION 'Workspace seat limit reached (% of % seats used)', v_used, v_seat_limit
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_workspace_member_seats ON public.workspace_members;
+CREATE TRIGGER enforce_workspace_member_seats
+  BEFORE INSERT ON public.workspace_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_workspace_seat_limit();
+
+DROP TRIGGER IF EXISTS enforce_workspace_invitation_seats ON public.workspace_invitations;
+CREATE TRIGGER enforce_workspace_invitation_seats
+  BEFORE INSERT ON public.workspace_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_workspace_seat_limit();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Workspaces: members can view, the owner can rename
+-- (Inserts go through create_workspace, which checks the subscription)
+CREATE POLICY "Members can view their workspaces"
+  ON public.workspaces
+  FOR SELECT
+  TO authenticated
+  USING (public.workspace_role(id, auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Owners can update their workspaces"
+  ON public.workspaces
+  FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+-- Members: everyone in a workspace sees the roster; owners manage it and
+-- any member may leave
+CREATE POLICY "Members can view workspace members"
+  ON public.workspace_members
+  FOR SELECT
+  TO authenticated
+  USING (public.workspace_role(workspace_id, auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Owners can change member roles"
+  ON public.workspace_members
+  FOR UPDATE
+  TO authenticated
+  USING (public.workspace_role(workspace_id, auth.uid()) = 'owner')
+  WITH CHECK (
+    role IN ('editor', 'viewer')
+    AND public.workspace_role(workspace_id, auth.uid()) = 'owner'
+  );
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON public.workspace_members
+  FOR DELETE
+  TO authenticated
+  USING (
+    role <> 'owner'
+    AND (
+      user_id = auth.uid()
+      OR public.workspace_role(workspace_id, auth.uid()) = 'owner'
+    )
+  );
+
+-- Invitations: owners manage them (invitees accept via RPC)
+CREATE POLICY "Owners can view workspace invitations"
+  ON public.workspace_invitations
+  FOR SELECT
+  TO authenticated
+  USING (public.workspace_role(workspace_id, auth.uid()) = 'owner');
+
+CREATE POLICY "Owners can create workspace invitations"
+  ON public.workspace_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.workspace_role(workspace_id, auth.uid()) = 'owner'
+    AND invited_by = auth.uid()
+  );
+
+CREATE POLICY "Owners can revoke workspace invitations"
+  ON public.workspace_invitations
+  FOR UPDATE
+  TO authenticated
+  USING (public.workspace_role(workspace_id, auth.uid()) = 'owner')
+  WITH CHECK (
+    revoked_at IS NOT NULL
+    AND public.workspace_role(workspace_id, auth.uid()) = 'owner'
+  );
+
+-- Blueprints: workspace members can view, editors and owners can update.
+-- The restrictive policies stop viewers (and former members) from editing a
+-- workspace blueprint through the creator's own-row policies.
+CREATE POLICY "Workspace members can view workspace blueprints"
+  ON public.blueprint_generator
+  FOR SELECT
+  TO authenticated
+  USING (
+    workspace_id IS NOT NULL
+    AND public.workspace_role(workspace_id, auth.uid()) IS NOT NULL
+  );
+
+CREATE POLICY "Workspace editors can update workspace blueprints"
+  ON public.blueprint_generator
+  FOR UPDATE
+  TO authenticated
+  USING (
+    workspace_id IS NOT NULL
+    AND public.workspace_role(workspace_id, auth.uid()) IN ('owner', 'editor')
+  );
+
+CREATE POLICY "Workspace blueprints require an editor role to insert"
+  ON public.blueprint_generator
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    workspace_id IS NULL
+    OR public.workspace_role(workspace_id, auth.uid()) IN ('owner', 'editor')
+  );
+
+CREATE POLICY "Workspace blueprints require an editor role to update"
+  ON public.blueprint_generator
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (
+    workspace_id IS NULL
+    OR public.workspace_role(workspace_id, auth.uid()) IN ('owner', 'editor')
+  )
+  WITH CHECK (
+    workspace_id IS NULL
+    OR public.workspace_role(workspace_id, auth.uid()) IN ('owner', 'editor')
+  );
+
+-- Versions follow the blueprint's visibility
+CREATE POLICY "Workspace members can view workspace blueprint versions"
+  ON public.blueprint_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.blueprint_generator b
+      WHERE b.id = blueprint_versions.blueprint_id
+        AND b.workspace_id IS NOT NULL
+        AND public.workspace_role(b.workspace_id, auth.uid()) IS NOT NULL
+    )
+  );
+
+-- ============================================================================
+-- FUNCTION: Member roster with profile details
+-- user_profiles RLS only exposes the caller's own row, so the roster is read
+-- through this function, which checks membership first
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_workspace_members(p_workspace_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  role TEXT,
+  email TEXT,
+  full_name TEXT,
+  joined_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF public.workspace_role(p_workspace_id, auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Workspace % not found or access denied', p_workspace_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT m.user_id, m.role, p.email, p.full_name, m.joined_at
+  FROM public.workspace_members m
+  LEFT JOIN public.user_profiles p ON p.user_id = m.user_id
+  WHERE m.workspace_id = p_workspace_id
+  ORDER BY m.joined_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_workspace_members(UUID) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION: Create a workspace for the caller's team subscription
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_workspace(p_name TEXT)
+RETURNS public.workspaces
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subscription public.subscriptions;
+  result public.workspaces;
+BEGIN
+  SELECT * INTO v_subscription
+  FROM public.subscriptions
+  WHERE user_id = auth.uid()
+    AND subscription_tier IN ('crew', 'fleet', 'armada')
+    AND status IN ('authenticated', 'active')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_subscription.subscription_id IS NULL THEN
+    RAISE EXCEPTION 'An active Crew, Fleet or Armada subscription is required to create a workspace'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.workspaces (name, owner_id, subscription_tier, razorpay_subscription_id, seat_limit)
+  VALUES (
+    p_name,
+    auth.uid(),
+    v_subscription.subscription_tier,
+    v_subscription.razorpay_subscription_id,
+    GREATEST(COALESCE((v_subscription.metadata->>'seats')::INTEGER, 1), 1)
+  )
+  RETURNING * INTO result;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (result.id, auth.uid(), 'owner');
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_workspace(TEXT) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION: Accept an invitation addressed to the caller's email
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(p_token TEXT)
+RETURNS public.workspace_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.workspace_invitations;
+  v_email TEXT;
+  result public.workspace_members;
+BEGIN
+  SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+
+  SELECT * INTO v_invitation
+  FROM public.workspace_invitations
+  WHERE token = p_token
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+  FOR UPDATE;
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found or no longer valid';
+  END IF;
+
+  IF lower(v_invitation.email) <> lower(COALESCE(v_email, '')) THEN
+    RAISE EXCEPTION 'Invitation was sent to a different email address'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Release the pending seat before the member insert is checked against it
+  UPDATE public.workspace_invitations
+  SET accepted_at = NOW(), accepted_by = auth.uid()
+  WHERE id = v_invitation.id;
+
+  SELECT * INTO result
+  FROM public.workspace_members
+  WHERE workspace_id = v_invitation.workspace_id
+    AND user_id = auth.uid();
+
+  IF result.user_id IS NOT NULL THEN
+    RETURN result;
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role, invited_by)
+  VALUES (v_invitation.workspace_id, auth.uid(), v_invitation.role, v_invitation.invited_by)
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_workspace_invitation(TEXT) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION: Section edits and restores honour workspace roles
+-- Replaces the creator-only checks from 20251103000000
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.update_blueprint_section(
+  p_blueprint_id UUID,
+  p_section_id TEXT,
+  p_section_data JSONB,
+  p_source TEXT DEFAULT 'edit'
+)
+RETURNS public.blueprint_generator
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result public.blueprint_generator;
+BEGIN
+  IF p_source NOT IN ('edit', 'regeneration') THEN
+    RAISE EXCEPTION 'Invalid change source: %', p_source;
+  END IF;
+
+  IF NOT public.can_edit_blueprint(p_blueprint_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Blueprint % not found or access denied', p_blueprint_id;
+  END IF;
+
+  PERFORM set_config('polaris.version_source', p_source, true);
+
+  UPDATE public.blueprint_generator
+  SET
+    blueprint_json = jsonb_set(COALESCE(blueprint_json, '{}'::jsonb), ARRAY[p_section_id], p_section_data, true),
+    updated_at = NOW()
+  WHERE id = p_blueprint_id
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_blueprint_version(p_version_id UUID)
+RETURNS public.blueprint_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.blueprint_versions;
+  result public.blueprint_versions;
+BEGIN
+  SELECT * INTO v_version
+  FROM public.blueprint_versions
+  WHERE id = p_version_id;
+
+  IF v_version.id IS NULL OR NOT public.can_edit_blueprint(v_version.blueprint_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Blueprint version % not found or access denied', p_version_id;
+  END IF;
+
+  PERFORM set_config('polaris.version_source', 'restore', true);
+  PERFORM set_config('polaris.restored_from_version', v_version.version_number::TEXT, true);
+
+  UPDATE public.blueprint_generator
+  SET
+    blueprint_json = v_version.blueprint_json,
+    blueprint_markdown = v_version.blueprint_markdown,
+    static_answers = v_version.static_answers,
+    dynamic_answers = v_version.dynamic_answers,
+    title = COALESCE(v_version.title, title),
+    status = 'completed',
+    updated_at = NOW()
+  WHERE id = v_version.blueprint_id;
+
+  SELECT * INTO result
+  FROM public.blueprint_versions
+  WHERE blueprint_id = v_version.blueprint_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  RETURN result;
+END;
+$$;
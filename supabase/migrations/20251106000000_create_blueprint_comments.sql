@@ -0,0 +1,263 @@
+-- ============================================================================
+-- Migration: Blueprint Comments
+-- Description: Threaded comments on blueprint sections, replacing the
+--              browser-local annotations in the viewer store. Anyone who can
+--              see the blueprint (creator or workspace member) can comment,
+--              mention collaborators and resolve threads. The owner decides
+--              whether comments are shown on the public share view.
+-- Version: 1.0.0
+-- Date: 2025-11-06
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: blueprint_comments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.blueprint_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blueprint_id UUID NOT NULL REFERENCES public.blueprint_generator(id) ON DELETE CASCADE,
+  section_id TEXT NOT NULL,
+
+  -- Thread structure: NULL for the first comment of a thread, otherwise the
+  -- thread root (replies are one level deep)
+  parent_id UUID REFERENCES public.blueprint_comments(id) ON DELETE CASCADE,
+
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+
+  -- Resolve state lives on the thread root
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.blueprint_generator
+ADD COLUMN IF NOT EXISTS share_comments BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.blueprint_generator.share_comments IS
+'When true, comment threads are shown read-only on the public share view.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_blueprint_comments_blueprint_section
+  ON public.blueprint_comments(blueprint_id, section_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_blueprint_comments_parent_id
+  ON public.blueprint_comments(parent_id)
+  WHERE parent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_blueprint_comments_mentions
+  ON public.blueprint_comments USING GIN (mentions);
+
+-- ============================================================================
+-- FUNCTION: Visibility helper
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.can_view_blueprint(p_blueprint_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.blueprint_generator b
+    WHERE b.id = p_blueprint_id
+      AND b.deleted_at IS NULL
+      AND (
+        b.user_id = p_user_id
+        OR (b.workspace_id IS NOT NULL AND public.workspace_role(b.workspace_id, p_user_id) IS NOT NULL)
+      )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_view_blueprint(UUID, UUID) TO authenticated;
+
+-- ============================================================================
+-- TRIGGER: Keep replies one level deep and on the parent's section
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.validate_blueprint_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_parent public.blueprint_comments;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM public.blueprint_comments WHERE id = NEW.parent_id;
+
+  IF v_parent.id IS NULL
+    OR v_parent.parent_id IS NOT NULL
+    OR v_parent.blueprint_id <> NEW.blueprint_id THEN
+    RAISE EXCEPTION 'Replies must target a thread on the same blueprint';
+  END IF;
+
+  NEW.section_id := v_parent.section_id;
+  NEW.resolved_at := NULL;
+  NEW.resolved_by := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_blueprint_comment_parent ON public.blueprint_comments;
+CREATE TRIGGER validate_blueprint_comment_parent
+  BEFORE INSERT ON public.blueprint_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_blueprint_comment_parent();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.blueprint_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Collaborators can view blueprint comments"
+  ON public.blueprint_comments
+  FOR SELECT
+  TO authenticated
+  USING (public.can_view_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Collaborators can add blueprint comments"
+  ON public.blueprint_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND public.can_view_blueprint(blueprint_id, auth.uid())
+  );
+
+-- Body edits are limited to the author; resolve/reopen goes through
+-- set_blueprint_comment_resolved so any collaborator can do it
+CREATE POLICY "Authors can edit their comments"
+  ON public.blueprint_comments
+  FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Authors and editors can delete comments"
+  ON public.blueprint_comments
+  FOR DELETE
+  TO authenticated
+  USING (
+    author_id = auth.uid()
+    OR public.can_edit_blueprint(blueprint_id, auth.uid())
+  );
+
+-- ============================================================================
+-- FUNCTION: Resolve or reopen a thread
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_blueprint_comment_resolved(
+  p_comment_id UUID,
+  p_resolved BOOLEAN
+)
+RETURNS public.blueprint_comments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result public.blueprint_comments;
+BEGIN
+  UPDATE public.blueprint_comments
+  SET
+    resolved_at = CASE WHEN p_resolved THEN NOW() ELSE NULL END,
+    resolved_by = CASE WHEN p_resolved THEN auth.uid() ELSE NULL END,
+    updated_at = NOW()
+  WHERE id = p_comment_id
+    AND parent_id IS NULL
+    AND public.can_view_blueprint(blueprint_id, auth.uid())
+  RETURNING * INTO result;
+
+  IF result.id IS NULL THEN
+    RAISE EXCEPTION 'Comment thread % not found or access denied', p_comment_id;
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_blueprint_comment_resolved(UUID, BOOLEAN) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION: People who can be @mentioned on a blueprint
+-- The creator plus workspace members, with profile details the caller could
+-- not read through user_profiles RLS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_blueprint_collaborators(p_blueprint_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  full_name TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_view_blueprint(p_blueprint_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Blueprint % not found or access denied', p_blueprint_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT p.user_id, p.email, p.full_name
+  FROM public.blueprint_generator b
+  LEFT JOIN public.workspace_members m ON m.workspace_id = b.workspace_id
+  JOIN public.user_profiles p ON p.user_id = b.user_id OR p.user_id = m.user_id
+  WHERE b.id = p_blueprint_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_blueprint_collaborators(UUID) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION: Comments for the public share view
+-- Returns nothing unless the owner enabled share_comments. Author emails are
+-- not exposed, only display names.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_shared_blueprint_comments(p_share_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  section_id TEXT,
+  parent_id UUID,
+  author_name TEXT,
+  body TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.section_id,
+    c.parent_id,
+    COALESCE(p.full_name, 'Collaborator') AS author_name,
+    c.body,
+    c.resolved_at,
+    c.created_at
+  FROM public.blueprint_generator b
+  JOIN public.blueprint_comments c ON c.blueprint_id = b.id
+  LEFT JOIN public.user_profiles p ON p.user_id = c.author_id
+  WHERE b.share_token = p_share_token
+    AND b.share_comments = true
+    AND b.deleted_at IS NULL
+  ORDER BY c.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_blueprint_comments(TEXT) TO anon, authenticated;
@@ -0,0 +1,198 @@
+-- ============================================================================
+-- Migration: Blueprint Share Links
+-- Description: Replaces the single permanent blueprint_generator.share_token
+--              with any number of share links per blueprint. Each link can
+--              expire, require a password, expose only selected sections and
+--              be revoked. Every successful view is logged with its referrer.
+--              Public access now goes through the share API (service role),
+--              which checks the link before returning any blueprint data.
+-- Version: 1.0.0
+-- Date: 2025-11-07
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: blueprint_share_links
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.blueprint_share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blueprint_id UUID NOT NULL REFERENCES public.blueprint_generator(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  label TEXT CHECK (label IS NULL OR char_length(label) BETWEEN 1 AND 100),
+
+  -- scrypt hash produced by the app; NULL means no password
+  password_hash TEXT,
+
+  -- Section keys of blueprint_json that are visible; NULL means all sections
+  allowed_sections TEXT[],
+
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+
+  -- Maintained by the view log trigger
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.blueprint_share_links IS
+'Public share links for a blueprint with optional expiry, password and section allow-list.';
+
+-- ============================================================================
+-- TABLE: blueprint_share_link_views
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.blueprint_share_link_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  share_link_id UUID NOT NULL REFERENCES public.blueprint_share_links(id) ON DELETE CASCADE,
+  referrer TEXT CHECK (referrer IS NULL OR char_length(referrer) <= 500),
+  user_agent TEXT CHECK (user_agent IS NULL OR char_length(user_agent) <= 500),
+  viewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_blueprint_share_links_blueprint_id
+  ON public.blueprint_share_links(blueprint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_blueprint_share_link_views_link_viewed_at
+  ON public.blueprint_share_link_views(share_link_id, viewed_at DESC);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- Keep the per-link counters in step with the view log
+CREATE OR REPLACE FUNCTION public.record_blueprint_share_link_view()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.blueprint_share_links
+  SET view_count = view_count + 1,
+      last_viewed_at = NEW.viewed_at
+  WHERE id = NEW.share_link_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_blueprint_share_link_view
+  AFTER INSERT ON public.blueprint_share_link_views
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_blueprint_share_link_view();
+
+-- ============================================================================
+-- BACKFILL: existing share tokens become unrestricted links
+-- ============================================================================
+
+INSERT INTO public.blueprint_share_links (blueprint_id, created_by, token, created_at)
+SELECT b.id, b.user_id, b.share_token, COALESCE(b.updated_at, b.created_at)
+FROM public.blueprint_generator b
+WHERE b.share_token IS NOT NULL
+ON CONFLICT (token) DO NOTHING;
+
+COMMENT ON COLUMN public.blueprint_generator.share_token IS
+'Deprecated: share links live in blueprint_share_links. Kept for rollback only.';
+
+-- The anon policy exposed every blueprint with a token, bypassing expiry,
+-- passwords and revocation. Shared blueprints are served by the share API.
+DROP POLICY IF EXISTS "Public can view shared blueprints" ON public.blueprint_generator;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- Links are managed by anyone who can edit the blueprint. Views are written
+-- by the share API with the service role only.
+-- ============================================================================
+
+ALTER TABLE public.blueprint_share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.blueprint_share_link_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Editors can view share links"
+  ON public.blueprint_share_links
+  FOR SELECT
+  TO authenticated
+  USING (public.can_edit_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Editors can create share links"
+  ON public.blueprint_share_links
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND public.can_edit_blueprint(blueprint_id, auth.uid())
+  );
+
+CREATE POLICY "Editors can update share links"
+  ON public.blueprint_share_links
+  FOR UPDATE
+  TO authenticated
+  USING (public.can_edit_blueprint(blueprint_id, auth.uid()))
+  WITH CHECK (public.can_edit_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Editors can view share link views"
+  ON public.blueprint_share_link_views
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.blueprint_share_links l
+      WHERE l.id = blueprint_share_link_views.share_link_id
+        AND public.can_edit_blueprint(l.blueprint_id, auth.uid())
+    )
+  );
+
+-- ============================================================================
+-- FUNCTION: Comments for the public share view
+-- Now resolved through share links: revoked and expired links return nothing
+-- and threads on hidden sections are left out. Password checks happen in the
+-- share API, so this is no longer callable by anon.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_shared_blueprint_comments(p_share_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  section_id TEXT,
+  parent_id UUID,
+  author_name TEXT,
+  body TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.section_id,
+    c.parent_id,
+    COALESCE(p.full_name, 'Collaborator') AS author_name,
+    c.body,
+    c.resolved_at,
+    c.created_at
+  FROM public.blueprint_share_links l
+  JOIN public.blueprint_generator b ON b.id = l.blueprint_id
+  JOIN public.blueprint_comments c ON c.blueprint_id = b.id
+  LEFT JOIN public.user_profiles p ON p.user_id = c.author_id
+  WHERE l.token = p_share_token
+    AND l.revoked_at IS NULL
+    AND (l.expires_at IS NULL OR l.expires_at > NOW())
+    AND (l.allowed_sections IS NULL OR c.section_id = ANY(l.allowed_sections))
+    AND b.share_comments = true
+    AND b.deleted_at IS NULL
+  ORDER BY c.created_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_shared_blueprint_comments(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_shared_blueprint_comments(TEXT) TO service_role;
+
+GRANT SELECT, INSERT, UPDATE ON public.blueprint_share_links TO authenticated;
+GRANT SELECT ON public.blueprint_share_link_views TO authenticated;
@@ -0,0 +1,106 @@
+-- ============================================================================
+-- Migration: Course Materials
+-- Description: Existing course materials (PDF, DOCX, PPTX, Markdown) uploaded
+--              during the static questionnaire. The original file is not
+--              kept: the server extracts its text, stores it as chunks for
+--              retrieval and keeps a short summary per file. Question and
+--              blueprint generation pull relevant chunks into their prompts
+--              when the content strategy is "adapt" or "hybrid".
+-- Version: 1.0.0
+-- Date: 2025-11-08
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: course_materials
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.course_materials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blueprint_id UUID NOT NULL REFERENCES public.blueprint_generator(id) ON DELETE CASCADE,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  file_name TEXT NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 255),
+  kind TEXT NOT NULL CHECK (kind IN ('pdf', 'docx', 'pptx', 'markdown')),
+  file_size INTEGER NOT NULL CHECK (file_size > 0),
+  char_count INTEGER NOT NULL DEFAULT 0,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  summary TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.course_materials IS
+'Existing course materials attached to a blueprint, with an extracted-text summary.';
+
+-- ============================================================================
+-- TABLE: course_material_chunks
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.course_material_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  material_id UUID NOT NULL REFERENCES public.course_materials(id) ON DELETE CASCADE,
+  -- Denormalised so a blueprint's chunks are read in one query
+  blueprint_id UUID NOT NULL REFERENCES public.blueprint_generator(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL CHECK (chunk_index >= 0),
+  content TEXT NOT NULL,
+  token_count INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (material_id, chunk_index)
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_course_materials_blueprint_id
+  ON public.course_materials(blueprint_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_course_material_chunks_blueprint_id
+  ON public.course_material_chunks(blueprint_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- Anyone who can view the blueprint can read its materials; editors and
+-- owners upload and remove them.
+-- ============================================================================
+
+ALTER TABLE public.course_materials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.course_material_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Viewers can view course materials"
+  ON public.course_materials
+  FOR SELECT
+  TO authenticated
+  USING (public.can_view_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Editors can add course materials"
+  ON public.course_materials
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND public.can_edit_blueprint(blueprint_id, auth.uid())
+  );
+
+CREATE POLICY "Editors can delete course materials"
+  ON public.course_materials
+  FOR DELETE
+  TO authenticated
+  USING (public.can_edit_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Viewers can view course material chunks"
+  ON public.course_material_chunks
+  FOR SELECT
+  TO authenticated
+  USING (public.can_view_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Editors can add course material chunks"
+  ON public.course_material_chunks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.can_edit_blueprint(blueprint_id, auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.course_materials m
+      WHERE m.id = material_id AND m.blueprint_id = course_material_chunks.blueprint_id
+    )
+  );
+
+GRANT SELECT, INSERT, DELETE ON public.course_materials TO authenticated;
+GRANT SELECT, INSERT ON public.course_material_chunks TO authenticated;
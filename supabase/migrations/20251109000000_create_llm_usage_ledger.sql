@@ -0,0 +1,118 @@
+-- ============================================================================
+-- Migration: LLM Usage Ledger
+-- Description: One row per completed LLM call (blueprint generation, dynamic
+--              questions, section regeneration, material summaries) with the
+--              provider, model, token counts, latency and the cost computed
+--              from the price table at the time of the call. Rows are written
+--              by the server with the service role; users can read their own
+--              rows and admins read aggregates through get_llm_usage_by_user.
+-- Version: 1.0.0
+-- Date: 2025-11-09
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: llm_usage_ledger
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.llm_usage_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Kept when the blueprint is deleted so historical cost stays attributable
+  blueprint_id UUID REFERENCES public.blueprint_generator(id) ON DELETE SET NULL,
+  purpose TEXT NOT NULL CHECK (
+    purpose IN ('blueprint', 'dynamic_questions', 'section_regeneration', 'material_summary')
+  ),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+  output_tokens INTEGER NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+  latency_ms INTEGER NOT NULL DEFAULT 0 CHECK (latency_ms >= 0),
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  cost_inr NUMERIC(12, 4) NOT NULL DEFAULT 0,
+  -- FALSE when the completion was unusable and the gateway moved on
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.llm_usage_ledger IS
+'Token usage and cost of every completed LLM call, for per-user and per-tier profitability.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_ledger_user_created
+  ON public.llm_usage_ledger(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_ledger_created
+  ON public.llm_usage_ledger(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_ledger_blueprint
+  ON public.llm_usage_ledger(blueprint_id)
+  WHERE blueprint_id IS NOT NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.llm_usage_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own LLM usage"
+  ON public.llm_usage_ledger
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all LLM usage"
+  ON public.llm_usage_ledger
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_or_developer(auth.uid()));
+
+GRANT SELECT ON public.llm_usage_ledger TO authenticated;
+GRANT ALL ON public.llm_usage_ledger TO service_role;
+
+-- ============================================================================
+-- FUNCTION: get_llm_usage_by_user
+-- Per-user totals since p_since (all time when NULL), optionally limited to a
+-- set of users. The tier is the user's current subscription tier.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_llm_usage_by_user(
+  p_since TIMESTAMPTZ DEFAULT NULL,
+  p_user_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id UUID,
+  subscription_tier TEXT,
+  call_count INTEGER,
+  blueprint_count INTEGER,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  cost_usd NUMERIC,
+  cost_inr NUMERIC
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.user_id,
+    COALESCE(p.subscription_tier, 'free') AS subscription_tier,
+    COUNT(*)::INTEGER AS call_count,
+    COUNT(DISTINCT l.blueprint_id)::INTEGER AS blueprint_count,
+    SUM(l.input_tokens)::BIGINT AS input_tokens,
+    SUM(l.output_tokens)::BIGINT AS output_tokens,
+    SUM(l.cost_usd) AS cost_usd,
+    SUM(l.cost_inr) AS cost_inr
+  FROM public.llm_usage_ledger l
+  LEFT JOIN public.user_profiles p ON p.user_id = l.user_id
+  WHERE (p_since IS NULL OR l.created_at >= p_since)
+    AND (p_user_ids IS NULL OR l.user_id = ANY(p_user_ids))
+  GROUP BY l.user_id, p.subscription_tier;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_llm_usage_by_user(TIMESTAMPTZ, UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_llm_usage_by_user(TIMESTAMPTZ, UUID[]) TO service_role;
+
+COMMENT ON FUNCTION public.get_llm_usage_by_user IS
+'Per-user LLM call counts, tokens and cost for the admin metrics and user table (service role only).';
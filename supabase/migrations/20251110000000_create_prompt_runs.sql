@@ -0,0 +1,225 @@
+-- ============================================================================
+-- Migration: Prompt Runs
+-- Description: Records which registered prompt versions produced each
+--              blueprint and question set, and one row per prompt used in each
+--              generation run with its outcome (validation failures, truncated
+--              JSON that had to be repaired). Runs feed per-version and
+--              per-experiment-arm comparisons in the admin dashboard, joined
+--              with satisfaction survey ratings for the same blueprints.
+-- Version: 1.0.0
+-- Date: 2025-11-10
+-- ============================================================================
+
+-- ============================================================================
+-- COLUMN: blueprint_generator.prompt_versions
+-- Prompt id -> version, e.g. {"blueprint.system": "v1"}
+-- ============================================================================
+
+ALTER TABLE public.blueprint_generator
+  ADD COLUMN IF NOT EXISTS prompt_versions JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+COMMENT ON COLUMN public.blueprint_generator.prompt_versions IS
+'Registered prompt versions used for the latest generation of each stage (prompt id -> version).';
+
+-- ============================================================================
+-- TABLE: prompt_runs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.prompt_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blueprint_id UUID REFERENCES public.blueprint_generator(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  purpose TEXT NOT NULL CHECK (
+    purpose IN ('blueprint', 'dynamic_questions', 'section_regeneration')
+  ),
+  prompt_id TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  -- NULL when the default version was used outside any experiment
+  experiment_id TEXT,
+  arm TEXT CHECK (arm IS NULL OR arm IN ('control', 'variant')),
+  success BOOLEAN NOT NULL,
+  -- Responses rejected by validation before one was accepted (or all failed)
+  validation_failures INTEGER NOT NULL DEFAULT 0 CHECK (validation_failures >= 0),
+  -- The accepted response was truncated or malformed JSON that had to be repaired
+  truncation_repaired BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.prompt_runs IS
+'Outcome of each generation run per prompt version, for comparing prompt versions and experiment arms.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_prompt_runs_prompt_version
+  ON public.prompt_runs(prompt_id, prompt_version, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_prompt_runs_experiment
+  ON public.prompt_runs(experiment_id, arm)
+  WHERE experiment_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_prompt_runs_blueprint
+  ON public.prompt_runs(blueprint_id)
+  WHERE blueprint_id IS NOT NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.prompt_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view prompt runs"
+  ON public.prompt_runs
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_or_developer(auth.uid()));
+
+GRANT SELECT ON public.prompt_runs TO authenticated;
+GRANT ALL ON public.prompt_runs TO service_role;
+
+-- ============================================================================
+-- FUNCTION: record_prompt_run
+-- Inserts one row per prompt in p_prompts (array of
+-- {prompt_id, version, experiment_id, arm}) and merges the versions into the
+-- blueprint's prompt_versions.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_prompt_run(
+  p_blueprint_id UUID,
+  p_user_id UUID,
+  p_purpose TEXT,
+  p_prompts JSONB,
+  p_success BOOLEAN,
+  p_validation_failures INTEGER DEFAULT 0,
+  p_truncation_repaired BOOLEAN DEFAULT FALSE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.prompt_runs (
+    blueprint_id, user_id, purpose, prompt_id, prompt_version, experiment_id, arm,
+    success, validation_failures, truncation_repaired
+  )
+  SELECT
+    p_blueprint_id,
+    p_user_id,
+    p_purpose,
+    prompt->>'prompt_id',
+    prompt->>'version',
+    prompt->>'experiment_id',
+    prompt->>'arm',
+    p_success,
+    p_validation_failures,
+    p_truncation_repaired
+  FROM jsonb_array_elements(p_prompts) AS prompt;
+
+  IF p_blueprint_id IS NOT NULL AND p_success THEN
+    UPDATE public.blueprint_generator
+    SET prompt_versions = prompt_versions || (
+      SELECT COALESCE(jsonb_object_agg(prompt->>'prompt_id', prompt->>'version'), '{}'::JSONB)
+      FROM jsonb_array_elements(p_prompts) AS prompt
+    )
+    WHERE id = p_blueprint_id;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_prompt_run(UUID, UUID, TEXT, JSONB, BOOLEAN, INTEGER, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_prompt_run(UUID, UUID, TEXT, JSONB, BOOLEAN, INTEGER, BOOLEAN) TO service_role;
+
+COMMENT ON FUNCTION public.record_prompt_run IS
+'Record a generation run against the prompt versions it used (service role only).';
+
+-- ============================================================================
+-- FUNCTION: get_prompt_run_stats
+-- Per prompt version and experiment arm: run counts, validation failure and
+-- truncation repair counts, and satisfaction ratings left on the blueprints
+-- those runs produced.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_prompt_run_stats(
+  p_prompt_id TEXT DEFAULT NULL,
+  p_experiment_id TEXT DEFAULT NULL,
+  p_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  prompt_id TEXT,
+  prompt_version TEXT,
+  experiment_id TEXT,
+  arm TEXT,
+  run_count INTEGER,
+  success_count INTEGER,
+  validation_failure_runs INTEGER,
+  truncation_repairs INTEGER,
+  rating_count INTEGER,
+  avg_rating NUMERIC
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  WITH runs AS (
+    SELECT *
+    FROM public.prompt_runs r
+    WHERE (p_prompt_id IS NULL OR r.prompt_id = p_prompt_id)
+      AND (p_experiment_id IS NULL OR r.experiment_id = p_experiment_id)
+      AND (p_since IS NULL OR r.created_at >= p_since)
+  ),
+  run_stats AS (
+    SELECT
+      r.prompt_id,
+      r.prompt_version,
+      r.experiment_id,
+      r.arm,
+      COUNT(*)::INTEGER AS run_count,
+      COUNT(*) FILTER (WHERE r.success)::INTEGER AS success_count,
+      COUNT(*) FILTER (WHERE r.validation_failures > 0)::INTEGER AS validation_failure_runs,
+      COUNT(*) FILTER (WHERE r.truncation_repaired)::INTEGER AS truncation_repairs
+    FROM runs r
+    GROUP BY r.prompt_id, r.prompt_version, r.experiment_id, r.arm
+  ),
+  rated_blueprints AS (
+    SELECT DISTINCT r.prompt_id, r.prompt_version, r.experiment_id, r.arm, r.blueprint_id
+    FROM runs r
+    WHERE r.blueprint_id IS NOT NULL AND r.success
+  ),
+  rating_stats AS (
+    SELECT
+      b.prompt_id,
+      b.prompt_version,
+      b.experiment_id,
+      b.arm,
+      COUNT(s.id)::INTEGER AS rating_count,
+      AVG(s.rating) AS avg_rating
+    FROM rated_blueprints b
+    JOIN public.user_satisfaction_surveys s ON s.blueprint_id = b.blueprint_id
+    GROUP BY b.prompt_id, b.prompt_version, b.experiment_id, b.arm
+  )
+  SELECT
+    rs.prompt_id,
+    rs.prompt_version,
+    rs.experiment_id,
+    rs.arm,
+    rs.run_count,
+    rs.success_count,
+    rs.validation_failure_runs,
+    rs.truncation_repairs,
+    COALESCE(rt.rating_count, 0) AS rating_count,
+    ROUND(rt.avg_rating, 2) AS avg_rating
+  FROM run_stats rs
+  LEFT JOIN rating_stats rt
+    ON rt.prompt_id = rs.prompt_id
+    AND rt.prompt_version = rs.prompt_version
+    AND rt.experiment_id IS NOT DISTINCT FROM rs.experiment_id
+    AND rt.arm IS NOT DISTINCT FROM rs.arm
+  ORDER BY rs.prompt_id, rs.experiment_id NULLS FIRST, rs.prompt_version;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_prompt_run_stats(TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_prompt_run_stats(TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+
+COMMENT ON FUNCTION public.get_prompt_run_stats IS
+'Per prompt version and experiment arm outcomes and ratings for the admin dashboard (service role only).';
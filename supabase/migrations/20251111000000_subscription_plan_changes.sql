@@ -0,0 +1,180 @@
+-- ============================================================================
+-- Migration: Subscription Plan Changes
+-- Description: Self-service tier and seat changes. Upgrades are applied to the
+--              subscription immediately; downgrades are stored as a pending
+--              change and applied by the subscription.charged webhook once the
+--              current billing cycle has ended. The user_profiles sync trigger
+--              now also fires when the tier of an active subscription changes,
+--              so new limits follow the subscription row in both cases.
+-- Version: 1.0.0
+-- Date: 2025-11-11
+-- ============================================================================
+
+-- ============================================================================
+-- COLUMN: subscriptions.pending_plan_change
+-- {"tier", "seats", "plan_id", "plan_amount", "effective_at", "requested_at",
+--  "request_id"}
+-- ============================================================================
+
+ALTER TABLE public.subscriptions
+  ADD COLUMN IF NOT EXISTS pending_plan_change JSONB;
+
+COMMENT ON COLUMN public.subscriptions.pending_plan_change IS
+'Downgrade scheduled for the end of the current billing cycle. Applied by apply_due_plan_change.';
+
+-- ============================================================================
+-- FUNCTION: sync_subscription_to_user_profile
+-- Same as 20251029060000, plus a resync when an active subscription changes tier
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_subscription_to_user_profile()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_blueprint_limit INTEGER;
+BEGIN
+  -- Determine blueprint limit based on subscription tier
+  v_blueprint_limit := CASE NEW.subscription_tier
+    WHEN 'free' THEN 2
+    WHEN 'explorer' THEN 5
+    WHEN 'navigator' THEN 25
+    WHEN 'voyager' THEN 50
+    WHEN 'crew' THEN 10
+    WHEN 'fleet' THEN 30
+    WHEN 'armada' THEN 60
+    ELSE 2
+  END;
+
+  -- Update user_profiles when subscription becomes active or changes plan
+  IF NEW.status = 'active' AND (
+    OLD IS NULL
+    OR OLD.status != 'active'
+    OR OLD.subscription_tier IS DISTINCT FROM NEW.subscription_tier
+  ) THEN
+    UPDATE public.user_profiles
+    SET
+      subscription_tier = NEW.subscription_tier,
+      user_role = NEW.subscription_tier,
+      blueprint_creation_limit = v_blueprint_limit,
+      blueprint_saving_limit = v_blueprint_limit,
+      updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  -- Downgrade to free tier when subscription is cancelled/expired/completed
+  IF NEW.status IN ('cancelled', 'expired', 'completed')
+     AND (OLD IS NULL OR OLD.status NOT IN ('cancelled', 'expired', 'completed')) THEN
+    UPDATE public.user_profiles
+    SET
+      subscription_tier = 'explorer',
+      user_role = 'explorer',
+      blueprint_creation_limit = 2,
+      blueprint_saving_limit = 2,
+      updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- FUNCTION: apply_subscription_plan_change
+-- Moves a subscription to a new plan and syncs the seat limit of the workspace
+-- it bills. Clears any pending change, since the latest request wins.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_subscription_plan_change(
+  p_subscription_id UUID,
+  p_tier VARCHAR,
+  p_plan_id VARCHAR,
+  p_plan_amount INTEGER,
+  p_seats INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_razorpay_subscription_id VARCHAR;
+BEGIN
+  UPDATE public.subscriptions
+  SET
+    subscription_tier = p_tier,
+    razorpay_plan_id = p_plan_id,
+    plan_amount = p_plan_amount,
+    plan_name = INITCAP(p_tier) || ' (' || plan_period || ')',
+    -- Older rows stored metadata as a JSON-encoded string; unwrap those
+    metadata = CASE
+      WHEN jsonb_typeof(metadata) = 'string' THEN (metadata #>> '{}')::JSONB
+      ELSE COALESCE(metadata, '{}'::JSONB)
+    END || jsonb_build_object('seats', p_seats),
+    pending_plan_change = NULL,
+    updated_at = NOW()
+  WHERE subscription_id = p_subscription_id
+  RETURNING razorpay_subscription_id INTO v_razorpay_subscription_id;
+
+  IF v_razorpay_subscription_id IS NULL THEN
+    RAISE EXCEPTION 'Subscription % not found', p_subscription_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.workspaces
+  SET
+    seat_limit = GREATEST(p_seats, 1),
+    subscription_tier = CASE
+      WHEN p_tier IN ('crew', 'fleet', 'armada') THEN p_tier
+      ELSE subscription_tier
+    END,
+    updated_at = NOW()
+  WHERE razorpay_subscription_id = v_razorpay_subscription_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_subscription_plan_change(UUID, VARCHAR, VARCHAR, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_subscription_plan_change(UUID, VARCHAR, VARCHAR, INTEGER, INTEGER) TO service_role;
+
+-- ============================================================================
+-- FUNCTION: apply_due_plan_change
+-- Applies the pending downgrade of a subscription once its effective date has
+-- passed. Returns whether a change was applied.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_due_plan_change(
+  p_razorpay_subscription_id VARCHAR
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subscription_id UUID;
+  v_change JSONB;
+BEGIN
+  SELECT subscription_id, pending_plan_change
+  INTO v_subscription_id, v_change
+  FROM public.subscriptions
+  WHERE razorpay_subscription_id = p_razorpay_subscription_id
+    AND pending_plan_change IS NOT NULL
+    AND (pending_plan_change->>'effective_at')::TIMESTAMPTZ <= NOW()
+  FOR UPDATE;
+
+  IF v_subscription_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  PERFORM public.apply_subscription_plan_change(
+    v_subscription_id,
+    v_change->>'tier',
+    v_change->>'plan_id',
+    (v_change->>'plan_amount')::INTEGER,
+    (v_change->>'seats')::INTEGER
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_due_plan_change(VARCHAR) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_due_plan_change(VARCHAR) TO service_role;
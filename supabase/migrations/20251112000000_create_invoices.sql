@@ -0,0 +1,240 @@
+-- ============================================================================
+-- Migration: GST Invoices
+-- Description: Tax invoices for every successful charge. The customer's
+--              billing details (legal name, GSTIN, address, state) live on
+--              user_profiles; each invoice keeps a snapshot of them together
+--              with the CGST/SGST or IGST split worked out by the server.
+--              Invoice numbers are sequential within an Indian financial year
+--              (April to March) and are allocated by issue_invoice, which is
+--              idempotent per Razorpay payment so subscription.charged and
+--              payment.captured can both call it.
+-- Version: 1.0.0
+-- Date: 2025-11-12
+-- ============================================================================
+
+-- ============================================================================
+-- COLUMNS: user_profiles billing details
+-- billing_address: {"line1", "line2", "city", "postal_code"}
+-- ============================================================================
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS billing_legal_name TEXT,
+  ADD COLUMN IF NOT EXISTS gstin VARCHAR(15),
+  ADD COLUMN IF NOT EXISTS billing_address JSONB,
+  ADD COLUMN IF NOT EXISTS billing_state_code VARCHAR(2);
+
+ALTER TABLE public.user_profiles
+  ADD CONSTRAINT user_profiles_gstin_format CHECK (
+    gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$'
+  ),
+  ADD CONSTRAINT user_profiles_billing_state_code_format CHECK (
+    billing_state_code IS NULL OR billing_state_code ~ '^[0-9]{2}$'
+  );
+
+COMMENT ON COLUMN public.user_profiles.gstin IS
+'Customer GSTIN printed on tax invoices. Its first two digits are the GST state code.';
+COMMENT ON COLUMN public.user_profiles.billing_state_code IS
+'Two-digit GST state code of the billing address; decides CGST/SGST vs IGST.';
+
+-- ============================================================================
+-- TABLE: invoice_sequences
+-- Last number issued per financial year, e.g. '2025-26'
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.invoice_sequences (
+  financial_year TEXT PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0 CHECK (last_number >= 0)
+);
+
+ALTER TABLE public.invoice_sequences ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON public.invoice_sequences TO service_role;
+
+-- ============================================================================
+-- TABLE: invoices
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number TEXT NOT NULL UNIQUE,
+  financial_year TEXT NOT NULL,
+  sequence_number INTEGER NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subscription_id UUID REFERENCES public.subscriptions(subscription_id) ON DELETE SET NULL,
+  razorpay_payment_id VARCHAR(255) NOT NULL UNIQUE,
+  razorpay_subscription_id VARCHAR(255),
+  description TEXT NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'INR',
+  -- Amounts in paise; total_amount is what the customer was charged
+  taxable_amount INTEGER NOT NULL CHECK (taxable_amount >= 0),
+  cgst_amount INTEGER NOT NULL DEFAULT 0 CHECK (cgst_amount >= 0),
+  sgst_amount INTEGER NOT NULL DEFAULT 0 CHECK (sgst_amount >= 0),
+  igst_amount INTEGER NOT NULL DEFAULT 0 CHECK (igst_amount >= 0),
+  total_amount INTEGER NOT NULL CHECK (total_amount >= 0),
+  tax_rate NUMERIC(5, 2) NOT NULL,
+  place_of_supply VARCHAR(2) NOT NULL,
+  -- Snapshots as printed: {"legal_name", "gstin", "address", "state_code", "email"}
+  buyer JSONB NOT NULL,
+  seller JSONB NOT NULL,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (financial_year, sequence_number),
+  CONSTRAINT invoices_totals_match CHECK (
+    total_amount = taxable_amount + cgst_amount + sgst_amount + igst_amount
+  )
+);
+
+COMMENT ON TABLE public.invoices IS
+'GST tax invoices, one per successful Razorpay payment, numbered sequentially per financial year.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_invoices_user_issued
+  ON public.invoices(user_id, issued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_subscription
+  ON public.invoices(subscription_id)
+  WHERE subscription_id IS NOT NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- Invoices are immutable once issued; only the service role writes them
+-- ============================================================================
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own invoices"
+  ON public.invoices
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all invoices"
+  ON public.invoices
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_or_developer(auth.uid()));
+
+GRANT SELECT ON public.invoices TO authenticated;
+GRANT ALL ON public.invoices TO service_role;
+
+-- ============================================================================
+-- FUNCTION: issue_invoice
+-- Allocates the next number of the financial year of p_issued_at (IST) and
+-- inserts the invoice in the same transaction, so numbers have no gaps. A
+-- payment that already has an invoice gets the existing row back.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.issue_invoice(
+  p_user_id UUID,
+  p_razorpay_payment_id VARCHAR(255),
+  p_razorpay_subscription_id VARCHAR(255),
+  p_description TEXT,
+  p_currency VARCHAR(3),
+  p_taxable_amount INTEGER,
+  p_cgst_amount INTEGER,
+  p_sgst_amount INTEGER,
+  p_igst_amount INTEGER,
+  p_tax_rate NUMERIC,
+  p_place_of_supply VARCHAR(2),
+  p_buyer JSONB,
+  p_seller JSONB,
+  p_issued_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_local_date DATE;
+  v_start_year INTEGER;
+  v_financial_year TEXT;
+  v_number INTEGER;
+  v_subscription_id UUID;
+BEGIN
+  SELECT * INTO v_invoice
+  FROM public.invoices
+  WHERE razorpay_payment_id = p_razorpay_payment_id;
+
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  v_local_date := (p_issued_at AT TIME ZONE 'Asia/Kolkata')::DATE;
+  v_start_year := EXTRACT(YEAR FROM v_local_date)::INTEGER
+    - CASE WHEN EXTRACT(MONTH FROM v_local_date) < 4 THEN 1 ELSE 0 END;
+  v_financial_year := v_start_year || '-' || LPAD(((v_start_year + 1) % 100)::TEXT, 2, '0');
+
+  INSERT INTO public.invoice_sequences AS s (financial_year, last_number)
+  VALUES (v_financial_year, 1)
+  ON CONFLICT (financial_year)
+  DO UPDATE SET last_number = s.last_number + 1
+  RETURNING s.last_number INTO v_number;
+
+  IF p_razorpay_subscription_id IS NOT NULL THEN
+    SELECT subscription_id INTO v_subscription_id
+    FROM public.subscriptions
+    WHERE razorpay_subscription_id = p_razorpay_subscription_id;
+  END IF;
+
+  INSERT INTO public.invoices (
+    invoice_number,
+    financial_year,
+    sequence_number,
+    user_id,
+    subscription_id,
+    razorpay_payment_id,
+    razorpay_subscription_id,
+    description,
+    currency,
+    taxable_amount,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    total_amount,
+    tax_rate,
+    place_of_supply,
+    buyer,
+    seller,
+    issued_at
+  ) VALUES (
+    'INV/' || v_financial_year || '/' || LPAD(v_number::TEXT, 6, '0'),
+    v_financial_year,
+    v_number,
+    p_user_id,
+    v_subscription_id,
+    p_razorpay_payment_id,
+    p_razorpay_subscription_id,
+    p_description,
+    COALESCE(p_currency, 'INR'),
+    p_taxable_amount,
+    p_cgst_amount,
+    p_sgst_amount,
+    p_igst_amount,
+    p_taxable_amount + p_cgst_amount + p_sgst_amount + p_igst_amount,
+    p_tax_rate,
+    p_place_of_supply,
+    p_buyer,
+    p_seller,
+    p_issued_at
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.issue_invoice(
+  UUID, VARCHAR, VARCHAR, TEXT, VARCHAR, INTEGER, INTEGER, INTEGER, INTEGER, NUMERIC, VARCHAR,
+  JSONB, JSONB, TIMESTAMPTZ
+) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.issue_invoice(
+  UUID, VARCHAR, VARCHAR, TEXT, VARCHAR, INTEGER, INTEGER, INTEGER, INTEGER, NUMERIC, VARCHAR,
+  JSONB, JSONB, TIMESTAMPTZ
+) TO service_role;
+
+COMMENT ON FUNCTION public.issue_invoice IS
+'Issue the tax invoice of a Razorpay payment with the next sequential number (service role only).';
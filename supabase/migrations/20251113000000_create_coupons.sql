@@ -0,0 +1,308 @@
+-- ============================================================================
+-- Migration: Coupons, Promo Codes and Trials
+-- Description: Admin-defined coupons (percent or flat discount, optional extra
+--              trial days, tier and billing cycle restrictions, redemption cap
+--              and expiry) and a redemption ledger for auditing. Discounts are
+--              charged through a Razorpay offer linked to the coupon, so a
+--              discount coupon must name one. A redemption is reserved before
+--              the Razorpay subscription is created and released if creation
+--              fails. Subscriptions gain trial_end; while a trial runs, an
+--              authenticated subscription grants its tier like an active one.
+-- Version: 1.0.0
+-- Date: 2025-11-13
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: coupons
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.coupons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description TEXT,
+  discount_type TEXT NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'flat')),
+  -- Percent (0-100) or paise off each charge
+  discount_value INTEGER NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  trial_days INTEGER NOT NULL DEFAULT 0 CHECK (trial_days BETWEEN 0 AND 365),
+  -- NULL means every tier / billing cycle
+  applicable_tiers TEXT[],
+  applicable_billing_cycles TEXT[],
+  razorpay_offer_id TEXT,
+  max_redemptions INTEGER CHECK (max_redemptions IS NULL OR max_redemptions > 0),
+  redemption_count INTEGER NOT NULL DEFAULT 0 CHECK (redemption_count >= 0),
+  expires_at TIMESTAMPTZ,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT coupons_percent_range CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  CONSTRAINT coupons_discount_needs_offer CHECK (
+    discount_value = 0 OR razorpay_offer_id IS NOT NULL
+  ),
+  CONSTRAINT coupons_has_benefit CHECK (discount_value > 0 OR trial_days > 0)
+);
+
+COMMENT ON TABLE public.coupons IS
+'Promo codes redeemable at subscription creation. Discounts are applied through razorpay_offer_id.';
+
+-- ============================================================================
+-- TABLE: coupon_redemptions
+-- One per coupon and user
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.coupon_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id UUID NOT NULL REFERENCES public.coupons(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Set once the Razorpay subscription exists
+  razorpay_subscription_id VARCHAR(255),
+  subscription_tier TEXT NOT NULL,
+  billing_cycle TEXT NOT NULL,
+  -- Paise per charge
+  original_amount INTEGER NOT NULL CHECK (original_amount >= 0),
+  discount_amount INTEGER NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  trial_days INTEGER NOT NULL DEFAULT 0,
+  request_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (coupon_id, user_id)
+);
+
+COMMENT ON TABLE public.coupon_redemptions IS
+'Audit trail of coupon redemptions with the discount and trial granted.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_created
+  ON public.coupon_redemptions(coupon_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_user
+  ON public.coupon_redemptions(user_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- Coupons are looked up by the server with the service role, so codes cannot
+-- be enumerated by users
+-- ============================================================================
+
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view coupons"
+  ON public.coupons
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_or_developer(auth.uid()));
+
+CREATE POLICY "Users can view their own coupon redemptions"
+  ON public.coupon_redemptions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all coupon redemptions"
+  ON public.coupon_redemptions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_or_developer(auth.uid()));
+
+GRANT SELECT ON public.coupons TO authenticated;
+GRANT SELECT ON public.coupon_redemptions TO authenticated;
+GRANT ALL ON public.coupons TO service_role;
+GRANT ALL ON public.coupon_redemptions TO service_role;
+
+-- ============================================================================
+-- FUNCTION: redeem_coupon
+-- Re-checks the coupon under a row lock, so concurrent checkouts cannot go
+-- over max_redemptions, then records the redemption. Raises
+-- COUPON_NOT_FOUND, COUPON_INACTIVE, COUPON_EXPIRED, COUPON_EXHAUSTED or
+-- COUPON_ALREADY_REDEEMED.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+  p_coupon_id UUID,
+  p_user_id UUID,
+  p_subscription_tier TEXT,
+  p_billing_cycle TEXT,
+  p_original_amount INTEGER,
+  p_discount_amount INTEGER,
+  p_trial_days INTEGER,
+  p_request_id TEXT DEFAULT NULL
+)
+RETURNS public.coupon_redemptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_coupon public.coupons;
+  v_redemption public.coupon_redemptions;
+BEGIN
+  SELECT * INTO v_coupon
+  FROM public.coupons
+  WHERE id = p_coupon_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'COUPON_NOT_FOUND';
+  END IF;
+
+  IF NOT v_coupon.is_active THEN
+    RAISE EXCEPTION 'COUPON_INACTIVE';
+  END IF;
+
+  IF v_coupon.expires_at IS NOT NULL AND v_coupon.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'COUPON_EXPIRED';
+  END IF;
+
+  IF v_coupon.max_redemptions IS NOT NULL
+     AND v_coupon.redemption_count >= v_coupon.max_redemptions THEN
+    RAISE EXCEPTION 'COUPON_EXHAUSTED';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.coupon_redemptions (
+      coupon_id,
+      user_id,
+      subscription_tier,
+      billing_cycle,
+      original_amount,
+      discount_amount,
+      trial_days,
+      request_id
+    ) VALUES (
+      p_coupon_id,
+      p_user_id,
+      p_subscription_tier,
+      p_billing_cycle,
+      p_original_amount,
+      p_discount_amount,
+      p_trial_days,
+      p_request_id
+    )
+    RETURNING * INTO v_redemption;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'COUPON_ALREADY_REDEEMED';
+  END;
+
+  UPDATE public.coupons
+  SET redemption_count = redemption_count + 1, updated_at = NOW()
+  WHERE id = p_coupon_id;
+
+  RETURN v_redemption;
+END;
+$$;
+
+-- ============================================================================
+-- FUNCTION: release_coupon_redemption
+-- Undo a reservation whose Razorpay subscription was never created
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.release_coupon_redemption(p_redemption_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_coupon_id UUID;
+BEGIN
+  DELETE FROM public.coupon_redemptions
+  WHERE id = p_redemption_id
+    AND razorpay_subscription_id IS NULL
+  RETURNING coupon_id INTO v_coupon_id;
+
+  IF v_coupon_id IS NOT NULL THEN
+    UPDATE public.coupons
+    SET redemption_count = GREATEST(redemption_count - 1, 0), updated_at = NOW()
+    WHERE id = v_coupon_id;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_coupon(UUID, UUID, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT)
+  FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.redeem_coupon(UUID, UUID, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT)
+  TO service_role;
+REVOKE ALL ON FUNCTION public.release_coupon_redemption(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.release_coupon_redemption(UUID) TO service_role;
+
+COMMENT ON FUNCTION public.redeem_coupon IS
+'Reserve a coupon redemption for a checkout, enforcing expiry and max_redemptions (service role only).';
+COMMENT ON FUNCTION public.release_coupon_redemption IS
+'Release a reserved redemption that never got a Razorpay subscription (service role only).';
+
+-- ============================================================================
+-- COLUMN: subscriptions.trial_end
+-- ============================================================================
+
+ALTER TABLE public.subscriptions
+  ADD COLUMN IF NOT EXISTS trial_end TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.subscriptions.trial_end IS
+'End of the free trial; the first charge happens at start_at, which equals this.';
+
+-- ============================================================================
+-- FUNCTION: sync_subscription_to_user_profile
+-- Same as 20251111000000, plus trial access: an authenticated subscription
+-- whose trial has not ended grants its tier
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_subscription_to_user_profile()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_blueprint_limit INTEGER;
+  v_entitled BOOLEAN;
+  v_was_entitled BOOLEAN;
+BEGIN
+  -- Determine blueprint limit based on subscription tier
+  v_blueprint_limit := CASE NEW.subscription_tier
+    WHEN 'free' THEN 2
+    WHEN 'explorer' THEN 5
+    WHEN 'navigator' THEN 25
+    WHEN 'voyager' THEN 50
+    WHEN 'crew' THEN 10
+    WHEN 'fleet' THEN 30
+    WHEN 'armada' THEN 60
+    ELSE 2
+  END;
+
+  v_entitled := NEW.status = 'active'
+    OR (NEW.status = 'authenticated' AND NEW.trial_end > NOW());
+  v_was_entitled := OLD IS NOT NULL AND (
+    OLD.status = 'active'
+    OR (OLD.status = 'authenticated' AND OLD.trial_end > NOW())
+  );
+
+  -- Update user_profiles when subscription becomes active (or starts a trial)
+  -- or changes plan
+  IF v_entitled AND (
+    NOT v_was_entitled
+    OR OLD.subscription_tier IS DISTINCT FROM NEW.subscription_tier
+  ) THEN
+    UPDATE public.user_profiles
+    SET
+      subscription_tier = NEW.subscription_tier,
+      user_role = NEW.subscription_tier,
+      blueprint_creation_limit = v_blueprint_limit,
+      blueprint_saving_limit = v_blueprint_limit,
+      updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  -- Downgrade to free tier when subscription is cancelled/expired/completed
+  IF NEW.status IN ('cancelled', 'expired', 'completed')
+     AND (OLD IS NULL OR OLD.status NOT IN ('cancelled', 'expired', 'completed')) THEN
+    UPDATE public.user_profiles
+    SET
+      subscription_tier = 'explorer',
+      user_role = 'explorer',
+      blueprint_creation_limit = 2,
+      blueprint_saving_limit = 2,
+      updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
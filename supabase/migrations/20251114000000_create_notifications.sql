@@ -0,0 +1,122 @@
+-- ============================================================================
+-- Migration: Notifications
+-- Description: In-app notification inbox with email delivery status, and
+--              per-user preferences for each notification type and channel.
+--              Notifications are written by the server with the service role;
+--              users can read their own inbox and only mark items as read.
+--              A notification is kept even when its in-app channel is off, so
+--              the email delivery is still recorded.
+-- Version: 1.0.0
+-- Date: 2025-11-14
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: notifications
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'generation_completed',
+    'share_link_viewed',
+    'payment_failed',
+    'grace_period_warning'
+  )),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  link TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- FALSE when the user turned the in-app channel off for this type
+  in_app BOOLEAN NOT NULL DEFAULT TRUE,
+  read_at TIMESTAMPTZ,
+  email_status TEXT NOT NULL DEFAULT 'skipped' CHECK (
+    email_status IN ('pending', 'sent', 'failed', 'skipped')
+  ),
+  email_error TEXT,
+  emailed_at TIMESTAMPTZ,
+  -- Callers pass a key for events that can be delivered more than once
+  -- (webhook retries, scheduled jobs)
+  dedupe_key TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.notifications IS
+'User notifications shown in the in-app inbox, with the status of the matching email.';
+
+-- ============================================================================
+-- TABLE: notification_preferences
+-- One row per user and type; missing rows use the defaults in code
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  email_enabled BOOLEAN NOT NULL,
+  in_app_enabled BOOLEAN NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, type)
+);
+
+COMMENT ON TABLE public.notification_preferences IS
+'Per-user email and in-app switches for each notification type.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON public.notifications(user_id, created_at DESC)
+  WHERE in_app;
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON public.notifications(user_id)
+  WHERE in_app AND read_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_user_dedupe
+  ON public.notifications(user_id, dedupe_key)
+  WHERE dedupe_key IS NOT NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() AND in_app);
+
+CREATE POLICY "Users can mark their own notifications as read"
+  ON public.notifications
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can view their own notification preferences"
+  ON public.notification_preferences
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own notification preferences"
+  ON public.notification_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own notification preferences"
+  ON public.notification_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Only read_at is writable by users
+GRANT SELECT ON public.notifications TO authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.notification_preferences TO authenticated;
+GRANT ALL ON public.notifications TO service_role;
+GRANT ALL ON public.notification_preferences TO service_role;
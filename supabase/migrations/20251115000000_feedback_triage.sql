@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Migration: Feedback triage
+-- Description: Builds on 0032_create_feedback_system. Reporters are told about
+--              status changes and replies through the notification inbox, so
+--              the notifications type check gains 'feedback_updated'.
+--              Submissions are now only changed by the triage API, which uses
+--              the service role, so the policy letting reporters update their
+--              own rows (including status and assignee) is dropped.
+-- Version: 1.0.0
+-- Date: 2025-11-15
+-- ============================================================================
+
+-- ============================================================================
+-- NOTIFICATION TYPE
+-- ============================================================================
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'generation_completed',
+  'share_link_viewed',
+  'payment_failed',
+  'grace_period_warning',
+  'feedback_updated'
+));
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can update own feedback" ON feedback_submissions;
+
+-- Triage boards filter by status and assignee together
+CREATE INDEX IF NOT EXISTS idx_feedback_submissions_status_assigned
+  ON feedback_submissions(status, assigned_to);
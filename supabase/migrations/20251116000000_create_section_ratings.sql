@@ -0,0 +1,155 @@
+-- ============================================================================
+-- Migration: Blueprint Section Ratings
+-- Description: 1-5 ratings with optional comments on individual blueprint
+--              sections. Each rating is stamped with the blueprint version and
+--              the prompt versions that produced it, so ratings can be compared
+--              per section type and prompt version in the admin dashboard, and
+--              recent low ratings can be fed back into generation as guidance.
+-- Version: 1.0.0
+-- Date: 2025-11-16
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: blueprint_section_ratings
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.blueprint_section_ratings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blueprint_id UUID NOT NULL REFERENCES public.blueprint_generator(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  section_id TEXT NOT NULL CHECK (char_length(section_id) BETWEEN 1 AND 100),
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (comment IS NULL OR char_length(comment) <= 2000),
+
+  -- Set by stamp_section_rating_context: the blueprint version that was rated
+  -- and the prompt versions that generated it (prompt id -> version)
+  blueprint_version INTEGER NOT NULL DEFAULT 1,
+  prompt_versions JSONB NOT NULL DEFAULT '{}'::JSONB,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- One rating per user, section and blueprint version; re-rating updates it
+  CONSTRAINT unique_section_rating_per_version
+    UNIQUE (blueprint_id, user_id, section_id, blueprint_version)
+);
+
+COMMENT ON TABLE public.blueprint_section_ratings IS
+'Per-section ratings of generated blueprints, stamped with the blueprint version and prompt versions rated.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_section_ratings_blueprint
+  ON public.blueprint_section_ratings(blueprint_id, section_id);
+CREATE INDEX IF NOT EXISTS idx_section_ratings_section_created
+  ON public.blueprint_section_ratings(section_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_section_ratings_low
+  ON public.blueprint_section_ratings(created_at DESC)
+  WHERE rating <= 2;
+
+-- ============================================================================
+-- TRIGGER: Stamp the rated blueprint version and prompt versions
+-- Runs before the unique check, so upserts land on the current version's row
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.stamp_section_rating_context()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT
+    COALESCE(
+      (SELECT MAX(v.version_number) FROM public.blueprint_versions v WHERE v.blueprint_id = b.id),
+      b.version,
+      1
+    ),
+    b.prompt_versions
+  INTO NEW.blueprint_version, NEW.prompt_versions
+  FROM public.blueprint_generator b
+  WHERE b.id = NEW.blueprint_id;
+
+  NEW.prompt_versions := COALESCE(NEW.prompt_versions, '{}'::JSONB);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_section_rating_context ON public.blueprint_section_ratings;
+CREATE TRIGGER stamp_section_rating_context
+  BEFORE INSERT ON public.blueprint_section_ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_section_rating_context();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.blueprint_section_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own section ratings"
+  ON public.blueprint_section_ratings
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Collaborators can rate blueprint sections"
+  ON public.blueprint_section_ratings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND public.can_view_blueprint(blueprint_id, auth.uid())
+  );
+
+CREATE POLICY "Users can update own section ratings"
+  ON public.blueprint_section_ratings
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE ON public.blueprint_section_ratings TO authenticated;
+GRANT ALL ON public.blueprint_section_ratings TO service_role;
+
+-- ============================================================================
+-- FUNCTION: get_section_rating_stats
+-- Per section type and blueprint system prompt version: rating counts, average,
+-- low ratings (1-2) and how many came with a comment.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_section_rating_stats(p_since TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE (
+  section_id TEXT,
+  prompt_version TEXT,
+  rating_count INTEGER,
+  avg_rating NUMERIC,
+  low_rating_count INTEGER,
+  comment_count INTEGER
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.section_id,
+    r.prompt_versions->>'blueprint.system' AS prompt_version,
+    COUNT(*)::INTEGER AS rating_count,
+    ROUND(AVG(r.rating), 2) AS avg_rating,
+    COUNT(*) FILTER (WHERE r.rating <= 2)::INTEGER AS low_rating_count,
+    COUNT(*) FILTER (WHERE r.comment IS NOT NULL AND r.comment <> '')::INTEGER AS comment_count
+  FROM public.blueprint_section_ratings r
+  WHERE p_since IS NULL OR r.updated_at >= p_since
+  GROUP BY r.section_id, r.prompt_versions->>'blueprint.system'
+  ORDER BY r.section_id, prompt_version NULLS FIRST;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_section_rating_stats(TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_section_rating_stats(TIMESTAMPTZ) TO service_role;
+
+COMMENT ON FUNCTION public.get_section_rating_stats IS
+'Section rating outcomes per section type and blueprint prompt version for the admin dashboard (service role only).';
@@ -0,0 +1,93 @@
+-- ============================================================================
+-- Migration: Two-Factor Authentication
+-- Description: TOTP factors are enrolled and verified through Supabase Auth
+--              MFA; this adds the one-time recovery codes that go with them
+--              and lets workspace owners require two-factor authentication.
+--              Members of a workspace that requires it only get their role
+--              (and so see the workspace and its blueprints) from an aal2
+--              session.
+-- Version: 1.0.0
+-- Date: 2025-11-17
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: two_factor_recovery_codes
+-- Only SHA-256 hashes are stored; codes are shown to the user once
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.two_factor_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, code_hash)
+);
+
+COMMENT ON TABLE public.two_factor_recovery_codes IS
+'Hashed one-time recovery codes for users with a TOTP factor. Managed by the server with the service role.';
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user
+  ON public.two_factor_recovery_codes(user_id)
+  WHERE used_at IS NULL;
+
+-- No policies: codes are only read and written with the service role
+ALTER TABLE public.two_factor_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- COLUMN: workspaces.require_two_factor
+-- ============================================================================
+
+ALTER TABLE public.workspaces
+  ADD COLUMN IF NOT EXISTS require_two_factor BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN public.workspaces.require_two_factor IS
+'When TRUE, members only have access from a session verified with a second factor (aal2).';
+
+-- ============================================================================
+-- FUNCTION: workspace_role honours require_two_factor
+-- Only the caller's own role is gated, so service role and definer functions
+-- looking up other members are unaffected
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.workspace_role(p_workspace_id UUID, p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.role
+  FROM public.workspace_members m
+  JOIN public.workspaces w ON w.id = m.workspace_id
+  WHERE m.workspace_id = p_workspace_id
+    AND m.user_id = p_user_id
+    AND (
+      NOT w.require_two_factor
+      OR p_user_id IS DISTINCT FROM auth.uid()
+      OR COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    );
+$$;
+
+-- ============================================================================
+-- FUNCTION: Workspaces requiring two-factor for the caller
+-- Lists them even when the caller's session can't see them yet, so the app
+-- can explain why and block turning two-factor off
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_two_factor_required_workspaces()
+RETURNS TABLE (id UUID, name TEXT)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT w.id, w.name
+  FROM public.workspaces w
+  JOIN public.workspace_members m ON m.workspace_id = w.id
+  WHERE m.user_id = auth.uid()
+    AND w.require_two_factor
+  ORDER BY w.name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_two_factor_required_workspaces() TO authenticated;
@@ -0,0 +1,117 @@
+-- ============================================================================
+-- Migration: Personal Data Exports
+-- Description: GDPR/DPDP data export requests. Each request builds a ZIP of
+--              the user's profile, blueprints, usage, billing, feedback and
+--              sessions in a private storage bucket; the archive can be
+--              downloaded through a short-lived signed URL until it expires.
+--              Archives are written and read with the service role only.
+-- Version: 1.0.0
+-- Date: 2025-11-18
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: data_export_requests
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.data_export_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- 'account_deletion' when requested from the delete account flow
+  reason TEXT NOT NULL DEFAULT 'user_request' CHECK (
+    reason IN ('user_request', 'account_deletion')
+  ),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (
+    status IN ('queued', 'running', 'ready', 'failed')
+  ),
+  storage_path TEXT,
+  file_size BIGINT,
+  -- Copy of manifest.json: the files in the archive and their record counts
+  manifest JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  downloaded_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE public.data_export_requests IS
+'Personal data export archives (GDPR/DPDP). Built and served by the server with the service role.';
+
+CREATE INDEX IF NOT EXISTS idx_data_export_requests_user
+  ON public.data_export_requests(user_id, created_at DESC);
+
+-- Only one export in progress per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_data_export_requests_one_active
+  ON public.data_export_requests(user_id)
+  WHERE status IN ('queued', 'running');
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.data_export_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own data exports"
+  ON public.data_export_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can request own data exports"
+  ON public.data_export_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND status = 'queued');
+
+CREATE POLICY "Service role has full access to data exports"
+  ON public.data_export_requests
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================================
+-- FUNCTION: Sessions for the export
+-- auth.sessions isn't exposed through the API
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_user_sessions_for_export(p_user_id UUID)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  refreshed_at TIMESTAMP,
+  aal TEXT,
+  not_after TIMESTAMPTZ,
+  user_agent TEXT,
+  ip TEXT
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public, auth
+AS $$
+  SELECT s.id, s.created_at, s.updated_at, s.refreshed_at, s.aal::TEXT, s.not_after,
+         s.user_agent, host(s.ip)
+  FROM auth.sessions s
+  WHERE s.user_id = p_user_id
+  ORDER BY s.created_at DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_user_sessions_for_export(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_user_sessions_for_export(UUID) TO service_role;
+
+-- ============================================================================
+-- STORAGE: private bucket for archives
+-- No storage policies: uploads and signed URLs use the service role
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'data-exports',
+  'data-exports',
+  false,
+  524288000, -- 500MB limit
+  ARRAY['application/zip']
+) ON CONFLICT (id) DO NOTHING;
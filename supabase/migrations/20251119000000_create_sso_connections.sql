@@ -0,0 +1,139 @@
+-- ============================================================================
+-- Migration: Enterprise Single Sign-On
+-- Description: Per-domain SSO connections. SAML connections point at an SSO
+--              provider registered with Supabase Auth; OIDC connections hold
+--              the IdP client the server runs the authorization code flow
+--              with. Users are provisioned just in time with the connection's
+--              default tier and role, and domains that enforce SSO cannot
+--              sign in with a password (custom access token hook).
+-- Version: 1.0.0
+-- Date: 2025-11-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: sso_connections
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.sso_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain TEXT NOT NULL UNIQUE,
+  display_name TEXT NOT NULL,
+  protocol TEXT NOT NULL,
+
+  -- SAML: provider registered with `supabase sso add --type saml`
+  saml_provider_id UUID,
+
+  -- OIDC: authorization code flow run by the app server
+  oidc_issuer TEXT,
+  oidc_client_id TEXT,
+  oidc_client_secret TEXT,
+  oidc_scopes TEXT NOT NULL DEFAULT 'openid email profile',
+
+  -- Just-in-time provisioning
+  default_tier TEXT NOT NULL DEFAULT 'fleet',
+  default_role TEXT NOT NULL DEFAULT 'user',
+
+  enforce_sso BOOLEAN NOT NULL DEFAULT TRUE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_sso_domain CHECK (domain = lower(domain) AND domain ~ '^[a-z0-9.-]+\.[a-z]{2,}$'),
+  CONSTRAINT valid_sso_protocol CHECK (protocol IN ('saml', 'oidc')),
+  CONSTRAINT saml_requires_provider CHECK (protocol <> 'saml' OR saml_provider_id IS NOT NULL),
+  CONSTRAINT oidc_requires_client CHECK (
+    protocol <> 'oidc' OR (oidc_issuer IS NOT NULL AND oidc_client_id IS NOT NULL)
+  ),
+  CONSTRAINT valid_sso_default_tier CHECK (
+    default_tier IN ('free', 'explorer', 'navigator', 'voyager', 'crew', 'fleet', 'armada')
+  ),
+  CONSTRAINT valid_sso_default_role CHECK (default_role IN ('user', 'developer'))
+);
+
+COMMENT ON TABLE public.sso_connections IS
+'Enterprise SSO configuration per email domain. Holds OIDC client secrets, so it is only read with the service role.';
+
+CREATE INDEX IF NOT EXISTS idx_sso_connections_saml_provider
+  ON public.sso_connections(saml_provider_id)
+  WHERE saml_provider_id IS NOT NULL;
+
+-- No policies: connections are only read and written with the service role
+ALTER TABLE public.sso_connections ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- COLUMN: user_profiles.sso_connection_id
+-- ============================================================================
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS sso_connection_id UUID REFERENCES public.sso_connections(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.user_profiles.sso_connection_id IS
+'The SSO connection the user last signed in through; set when they are provisioned.';
+
+-- ============================================================================
+-- FUNCTION: sso_enforced_for_email
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.sso_enforced_for_email(p_email TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.sso_connections
+    WHERE domain = lower(split_part(p_email, '@', 2))
+      AND enabled
+      AND enforce_sso
+  );
+$$;
+
+COMMENT ON FUNCTION public.sso_enforced_for_email IS
+'TRUE when the email''s domain has an enabled SSO connection that blocks password sign-in.';
+
+REVOKE ALL ON FUNCTION public.sso_enforced_for_email(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.sso_enforced_for_email(TEXT) TO service_role, supabase_auth_admin;
+
+-- ============================================================================
+-- HOOK: enforce_sso_access_token_hook
+-- Custom access token hook (enabled in config.toml and the dashboard). Refuses
+-- tokens for password sessions of SSO-enforced domains, including refreshes
+-- of sessions that were opened with a password before enforcement.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_sso_access_token_hook(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_password_session BOOLEAN;
+BEGIN
+  v_password_session := event->>'authentication_method' = 'password'
+    OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(event->'claims'->'amr', '[]'::jsonb)) AS amr
+      WHERE amr->>'method' = 'password'
+    );
+
+  IF v_password_session AND public.sso_enforced_for_email(event->'claims'->>'email') THEN
+    RETURN jsonb_build_object(
+      'error', jsonb_build_object(
+        'http_code', 403,
+        'message', 'Your organization requires single sign-on. Sign in with SSO instead.'
+      )
+    );
+  END IF;
+
+  RETURN event;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enforce_sso_access_token_hook(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enforce_sso_access_token_hook(JSONB) TO supabase_auth_admin;
@@ -0,0 +1,263 @@
+-- ============================================================================
+-- Migration: Implementation Plans
+-- Description: Tracks how a blueprint is being rolled out. Each blueprint can
+--              spawn one plan whose tasks come from the content outline
+--              modules and the implementation timeline milestones (plus any
+--              custom tasks). Tasks have an owner, due date, status and
+--              progress; time entries logged against a task keep its
+--              actual_hours up to date. The dashboard KPIs, timeline and
+--              burn-up chart are computed from these rows.
+-- Version: 1.0.0
+-- Date: 2025-11-20
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: implementation_plans
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.implementation_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blueprint_id UUID NOT NULL UNIQUE REFERENCES public.blueprint_generator(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.implementation_plans IS
+'Implementation plan of a blueprint; one per blueprint.';
+
+-- ============================================================================
+-- TABLE: implementation_tasks
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.implementation_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id UUID NOT NULL REFERENCES public.implementation_plans(id) ON DELETE CASCADE,
+  -- Denormalised so RLS can check blueprint access without a join
+  blueprint_id UUID NOT NULL REFERENCES public.blueprint_generator(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('module', 'milestone', 'custom')),
+  -- Stable key of the blueprint item a task was created from (e.g. "module:m1"),
+  -- so syncing a regenerated blueprint only adds what is new
+  source_key TEXT,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 300),
+  description TEXT,
+  category TEXT NOT NULL DEFAULT 'General',
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'not_started'
+    CHECK (status IN ('not_started', 'in_progress', 'completed')),
+  progress_percentage INTEGER NOT NULL DEFAULT 0
+    CHECK (progress_percentage BETWEEN 0 AND 100),
+  estimated_hours NUMERIC(8, 2) CHECK (estimated_hours >= 0),
+  actual_hours NUMERIC(8, 2) NOT NULL DEFAULT 0,
+  due_date DATE,
+  completed_at TIMESTAMPTZ,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (plan_id, source_key)
+);
+
+COMMENT ON TABLE public.implementation_tasks IS
+'Tasks of an implementation plan, created from blueprint modules and milestones or added by hand.';
+
+-- ============================================================================
+-- TABLE: implementation_time_entries
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.implementation_time_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.implementation_tasks(id) ON DELETE CASCADE,
+  blueprint_id UUID NOT NULL REFERENCES public.blueprint_generator(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  hours NUMERIC(6, 2) NOT NULL CHECK (hours > 0 AND hours <= 24),
+  logged_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.implementation_time_entries IS
+'Hours logged against implementation tasks; summed into implementation_tasks.actual_hours.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_implementation_tasks_plan_id
+  ON public.implementation_tasks(plan_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_implementation_tasks_owner_id
+  ON public.implementation_tasks(owner_id)
+  WHERE owner_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_implementation_time_entries_task_id
+  ON public.implementation_time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_implementation_time_entries_blueprint_id
+  ON public.implementation_time_entries(blueprint_id, logged_on);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.update_implementation_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_implementation_plans_updated_at
+  BEFORE UPDATE ON public.implementation_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_implementation_updated_at();
+
+CREATE TRIGGER trigger_update_implementation_tasks_updated_at
+  BEFORE UPDATE ON public.implementation_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_implementation_updated_at();
+
+-- Completing a task stamps completed_at and fills its progress; reopening it
+-- clears the stamp so the burn-up chart only counts work that is still done
+CREATE OR REPLACE FUNCTION public.stamp_implementation_task_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    NEW.progress_percentage := 100;
+    IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed' THEN
+      NEW.completed_at := NOW();
+    END IF;
+  ELSE
+    NEW.completed_at := NULL;
+    IF NEW.status = 'not_started' AND TG_OP = 'UPDATE' AND OLD.status = 'completed' THEN
+      NEW.progress_percentage := 0;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_implementation_task_completion
+  BEFORE INSERT OR UPDATE OF status ON public.implementation_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_implementation_task_completion();
+
+-- Keep actual_hours equal to the sum of the task's time entries. SECURITY
+-- DEFINER because collaborators may only write their own entries, not the task.
+CREATE OR REPLACE FUNCTION public.sync_implementation_task_hours()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task_id UUID := COALESCE(NEW.task_id, OLD.task_id);
+BEGIN
+  UPDATE public.implementation_tasks
+  SET actual_hours = COALESCE(
+    (SELECT SUM(e.hours) FROM public.implementation_time_entries e WHERE e.task_id = v_task_id),
+    0
+  )
+  WHERE id = v_task_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_implementation_task_hours
+  AFTER INSERT OR DELETE ON public.implementation_time_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_implementation_task_hours();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- Anyone who can view the blueprint can follow its plan; editors and owners
+-- create the plan, manage tasks and log hours.
+-- ============================================================================
+
+ALTER TABLE public.implementation_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.implementation_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.implementation_time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Viewers can view implementation plans"
+  ON public.implementation_plans
+  FOR SELECT
+  TO authenticated
+  USING (public.can_view_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Editors can create implementation plans"
+  ON public.implementation_plans
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND public.can_edit_blueprint(blueprint_id, auth.uid())
+  );
+
+CREATE POLICY "Editors can update implementation plans"
+  ON public.implementation_plans
+  FOR UPDATE
+  TO authenticated
+  USING (public.can_edit_blueprint(blueprint_id, auth.uid()))
+  WITH CHECK (public.can_edit_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Viewers can view implementation tasks"
+  ON public.implementation_tasks
+  FOR SELECT
+  TO authenticated
+  USING (public.can_view_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Editors can add implementation tasks"
+  ON public.implementation_tasks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.can_edit_blueprint(blueprint_id, auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.implementation_plans p
+      WHERE p.id = plan_id AND p.blueprint_id = implementation_tasks.blueprint_id
+    )
+  );
+
+CREATE POLICY "Editors can update implementation tasks"
+  ON public.implementation_tasks
+  FOR UPDATE
+  TO authenticated
+  USING (public.can_edit_blueprint(blueprint_id, auth.uid()))
+  WITH CHECK (public.can_edit_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Editors can delete implementation tasks"
+  ON public.implementation_tasks
+  FOR DELETE
+  TO authenticated
+  USING (public.can_edit_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Viewers can view implementation time entries"
+  ON public.implementation_time_entries
+  FOR SELECT
+  TO authenticated
+  USING (public.can_view_blueprint(blueprint_id, auth.uid()));
+
+CREATE POLICY "Editors can log their own hours"
+  ON public.implementation_time_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND public.can_edit_blueprint(blueprint_id, auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.implementation_tasks t
+      WHERE t.id = task_id AND t.blueprint_id = implementation_time_entries.blueprint_id
+    )
+  );
+
+CREATE POLICY "Users can delete their own time entries"
+  ON public.implementation_time_entries
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE ON public.implementation_plans TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.implementation_tasks TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.implementation_time_entries TO authenticated;
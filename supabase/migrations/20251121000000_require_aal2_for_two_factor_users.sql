@@ -0,0 +1,67 @@
+-- ============================================================================
+-- Migration: Require aal2 for Users With Two-Factor Authentication
+-- Description: The app only treats a session as signed in once a user with
+--              a verified TOTP factor has entered their code, but the
+--              database still honoured their password-only (aal1) JWT. Adds a
+--              RESTRICTIVE policy to every table with row level security so
+--              such a session can't read or write anything through
+--              PostgREST until it is upgraded to aal2. Users without a
+--              verified factor and the service role are unaffected.
+-- Version: 1.0.0
+-- Date: 2025-11-21
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION: Does the caller's session meet their assurance level?
+-- SECURITY DEFINER to read auth.mfa_factors
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.session_meets_assurance_level()
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1
+      FROM auth.mfa_factors f
+      WHERE f.user_id = auth.uid()
+        AND f.status = 'verified'
+    );
+$$;
+
+COMMENT ON FUNCTION public.session_meets_assurance_level() IS
+'FALSE for a password-only session of a user with a verified second factor.';
+
+GRANT EXECUTE ON FUNCTION public.session_meets_assurance_level() TO authenticated;
+
+-- ============================================================================
+-- POLICIES: One restrictive policy per table with row level security
+-- ============================================================================
+
+DO $$
+DECLARE
+  t RECORD;
+BEGIN
+  FOR t IN
+    SELECT c.relname
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public'
+      AND c.relkind = 'r'
+      AND c.relrowsecurity
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Require aal2 for two-factor users" ON public.%I', t.relname);
+    EXECUTE format(
+      'CREATE POLICY "Require aal2 for two-factor users" ON public.%I
+         AS RESTRICTIVE
+         FOR ALL
+         TO authenticated
+         USING (public.session_meets_assurance_level())
+         WITH CHECK (public.session_meets_assurance_level())',
+      t.relname
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,200 @@
+-- ============================================================================
+-- Migration: Workspace Membership Guards
+-- Description: Keeps every workspace with an owner and ties access to a
+--              workspace blueprint to current membership. The owner can no
+--              longer demote or remove themselves, and a member who leaves
+--              or is removed loses access to the blueprints they created in
+--              the workspace, which the creator policies from
+--              0003_blueprint_generator still granted.
+--              Member rows can only change role and invitations can only be
+--              revoked, so neither can be edited around the seat limit.
+-- Version: 1.0.0
+-- Date: 2025-11-22
+-- ============================================================================
+
+-- ============================================================================
+-- TRIGGER: A workspace always keeps an owner
+-- Cascades from deleting the workspace or the owner's account are allowed
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.protect_last_workspace_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role <> 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.workspaces WHERE id = OLD.workspace_id)
+    OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.workspace_members
+    WHERE workspace_id = OLD.workspace_id
+      AND role = 'owner'
+      AND user_id <> OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'A workspace must keep its owner'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER protect_last_workspace_owner
+  BEFORE UPDATE OF role OR DELETE ON public.workspace_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_last_workspace_owner();
+
+-- ============================================================================
+-- TRIGGER: A membership can't be moved to another workspace or user
+-- Otherwise an owner could edit a member row into a workspace they don't
+-- own, skipping invitations and the seat limit (checked on INSERT only)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.lock_workspace_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A workspace membership can only change its role'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_workspace_membership
+  BEFORE UPDATE ON public.workspace_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.lock_workspace_membership();
+
+-- ============================================================================
+-- TRIGGER: Owners can only revoke invitations
+-- Direct updates (the authenticated role) may only set revoked_at, so an
+-- invitation can't be un-revoked or extended past the seat check. Acceptance
+-- goes through accept_workspace_invitation, which runs as the definer.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.restrict_workspace_invitation_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.revoked_at IS NOT NULL
+    OR NEW.revoked_at IS NULL
+    OR (to_jsonb(NEW) - 'revoked_at') <> (to_jsonb(OLD) - 'revoked_at') THEN
+    RAISE EXCEPTION 'Workspace invitations can only be revoked'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_workspace_invitation_update
+  BEFORE UPDATE ON public.workspace_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_workspace_invitation_update();
+
+-- ============================================================================
+-- RLS: Workspace blueprints are only reachable by current members
+-- RESTRICTIVE, so the creator policies no longer apply once a member leaves
+-- ============================================================================
+
+CREATE POLICY "Workspace blueprints require membership to view"
+  ON public.blueprint_generator
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (
+    workspace_id IS NULL
+    OR public.workspace_role(workspace_id, auth.uid()) IS NOT NULL
+  );
+
+CREATE POLICY "Workspace blueprints require an editor role to delete"
+  ON public.blueprint_generator
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (
+    workspace_id IS NULL
+    OR public.workspace_role(workspace_id, auth.uid()) IN ('owner', 'editor')
+  );
+
+-- ============================================================================
+-- FUNCTION: Creators only see their own blueprints outside a workspace
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.can_view_blueprint(p_blueprint_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.blueprint_generator b
+    WHERE b.id = p_blueprint_id
+      AND b.deleted_at IS NULL
+      AND (
+        (b.workspace_id IS NULL AND b.user_id = p_user_id)
+        OR (b.workspace_id IS NOT NULL AND public.workspace_role(b.workspace_id, p_user_id) IS NOT NULL)
+      )
+  );
+$$;
+
+-- ============================================================================
+-- FUNCTIONS: Soft delete and restore check membership too
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION soft_delete_blueprint(p_blueprint_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.blueprint_generator
+  SET deleted_at = NOW()
+  WHERE id = p_blueprint_id
+    AND user_id = p_user_id
+    AND (workspace_id IS NULL OR public.workspace_role(workspace_id, p_user_id) IN ('owner', 'editor'))
+    AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION restore_blueprint(p_blueprint_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.blueprint_generator
+  SET deleted_at = NULL
+  WHERE id = p_blueprint_id
+    AND user_id = p_user_id
+    AND (workspace_id IS NULL OR public.workspace_role(workspace_id, p_user_id) IN ('owner', 'editor'))
+    AND deleted_at IS NOT NULL;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
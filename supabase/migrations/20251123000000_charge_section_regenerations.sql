@@ -0,0 +1,184 @@
+-- ============================================================================
+-- Migration: Charge Section Regenerations Against the Creation Limit
+-- Description: Section regenerations were only counted to gate further
+--              regenerations and never reduced the blueprint creation
+--              allowance. Each regeneration now records the fraction of a
+--              creation it costs, and whole creations' worth of those
+--              charges count towards creation usage in get_effective_limits.
+--              Replaces get_section_regeneration_count(p_user_id), which let
+--              any signed-in user read another user's usage, with a function
+--              scoped to auth.uid().
+-- Version: 1.0.0
+-- Date: 2025-11-23
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: section_regeneration_charges
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.section_regeneration_charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  blueprint_id UUID REFERENCES public.blueprint_generator(id) ON DELETE SET NULL,
+  section_id TEXT NOT NULL,
+
+  -- Fraction of one blueprint creation charged for this regeneration
+  charge NUMERIC(4, 2) NOT NULL,
+  CONSTRAINT valid_regeneration_charge CHECK (charge > 0 AND charge <= 1),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_section_regeneration_charges_user
+  ON public.section_regeneration_charges(user_id, created_at);
+
+ALTER TABLE public.section_regeneration_charges ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by record_section_regeneration only
+CREATE POLICY "Users can view own regeneration charges"
+  ON public.section_regeneration_charges
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Tables created after 20251121000000 need the two-factor policy themselves
+CREATE POLICY "Require aal2 for two-factor users"
+  ON public.section_regeneration_charges
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (public.session_meets_assurance_level())
+  WITH CHECK (public.session_meets_assurance_level());
+
+-- ============================================================================
+-- FUNCTION: Regeneration charges in the current limit period
+-- Free/explorer tiers count lifetime usage; paid tiers count the current
+-- billing cycle (matches get_effective_limits)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_section_regeneration_charges(
+  p_user_id UUID,
+  p_since TIMESTAMPTZ
+)
+RETURNS NUMERIC
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(charge), 0)
+  FROM public.section_regeneration_charges
+  WHERE user_id = p_user_id
+    AND (p_since IS NULL OR created_at >= p_since);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_section_regeneration_charges(UUID, TIMESTAMPTZ) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.get_section_regeneration_usage()
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_subscription_tier TEXT;
+  v_billing_cycle_start TIMESTAMPTZ;
+BEGIN
+  SELECT subscription_tier, billing_cycle_start_date
+  INTO v_subscription_tier, v_billing_cycle_start
+  FROM public.user_profiles
+  WHERE user_id = auth.uid();
+
+  RETURN public.get_section_regeneration_charges(
+    auth.uid(),
+    CASE WHEN v_subscription_tier IN ('free', 'explorer') THEN NULL ELSE v_billing_cycle_start END
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_section_regeneration_usage() TO authenticated;
+
+COMMENT ON FUNCTION public.get_section_regeneration_usage IS
+'Fraction of blueprint creations the caller has spent on section regenerations in the current limit period.';
+
+DROP FUNCTION IF EXISTS public.get_section_regeneration_count(UUID);
+DROP INDEX IF EXISTS public.idx_blueprint_versions_user_regenerations;
+
+-- ============================================================================
+-- FUNCTION: Record a regeneration's charge for the caller
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_section_regeneration(
+  p_blueprint_id UUID,
+  p_section_id TEXT,
+  p_charge NUMERIC
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.section_regeneration_charges (user_id, blueprint_id, section_id, charge)
+  VALUES (auth.uid(), p_blueprint_id, p_section_id, p_charge);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_section_regeneration(UUID, TEXT, NUMERIC) TO authenticated;
+
+-- ============================================================================
+-- FUNCTIONS: Creation counts include whole creations' worth of charges
+-- get_effective_limits and the creation checks read these helpers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_actual_blueprint_creation_count(p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  SELECT COUNT(*)::INTEGER
+  INTO v_count
+  FROM public.blueprint_generator
+  WHERE user_id = p_user_id;
+
+  RETURN COALESCE(v_count, 0)
+    + FLOOR(public.get_section_regeneration_charges(p_user_id, NULL))::INTEGER;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+COMMENT ON FUNCTION get_actual_blueprint_creation_count IS
+'Returns the number of blueprints created plus whole creations spent on section regenerations.';
+
+CREATE OR REPLACE FUNCTION get_actual_current_month_counts(
+  p_user_id UUID,
+  p_billing_cycle_start TIMESTAMPTZ
+)
+RETURNS TABLE(
+  creation_count INTEGER,
+  saving_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*)::INTEGER
+      + FLOOR(public.get_section_regeneration_charges(p_user_id, p_billing_cycle_start))::INTEGER
+      AS creation_count,
+    COUNT(*) FILTER (
+      WHERE blueprint_json IS NOT NULL
+        AND deleted_at IS NULL
+    )::INTEGER as saving_count
+  FROM public.blueprint_generator
+  WHERE user_id = p_user_id
+    AND created_at >= p_billing_cycle_start;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+COMMENT ON FUNCTION get_actual_current_month_counts IS
+'Returns blueprint counts for the current billing cycle.
+Creation count includes deleted blueprints and whole creations spent on section regenerations.
+Saving count excludes deleted blueprints (current saved).';
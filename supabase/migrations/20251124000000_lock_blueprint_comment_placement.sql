@@ -0,0 +1,56 @@
+-- ============================================================================
+-- Migration: Lock Blueprint Comment Placement
+-- Description: The author edit policy only checked authorship and the
+--              parent/section trigger only ran on INSERT, so an author could
+--              move a comment onto a blueprint they can't see or re-parent
+--              it into another thread. Edits now require access to the
+--              blueprint, and a comment's blueprint, thread, section and
+--              author are fixed once it is posted.
+-- Version: 1.0.0
+-- Date: 2025-11-24
+-- ============================================================================
+
+-- ============================================================================
+-- TRIGGER: Comments stay where they were posted
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.lock_blueprint_comment_placement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.blueprint_id IS DISTINCT FROM OLD.blueprint_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.section_id IS DISTINCT FROM OLD.section_id
+    OR NEW.author_id IS DISTINCT FROM OLD.author_id THEN
+    RAISE EXCEPTION 'A comment cannot be moved to another blueprint, thread or section';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lock_blueprint_comment_placement ON public.blueprint_comments;
+CREATE TRIGGER lock_blueprint_comment_placement
+  BEFORE UPDATE ON public.blueprint_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.lock_blueprint_comment_placement();
+
+-- ============================================================================
+-- RLS: Authors must still be able to see the blueprint to edit
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Authors can edit their comments" ON public.blueprint_comments;
+
+CREATE POLICY "Authors can edit their comments"
+  ON public.blueprint_comments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    author_id = auth.uid()
+    AND public.can_view_blueprint(blueprint_id, auth.uid())
+  )
+  WITH CHECK (
+    author_id = auth.uid()
+    AND public.can_view_blueprint(blueprint_id, auth.uid())
+  );
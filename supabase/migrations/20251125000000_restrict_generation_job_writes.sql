@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Migration: Restrict Generation Job Writes to the Service Role
+-- Description: Job rows were insertable and updatable with the user's own
+--              session, so a client could mark its job as succeeded with
+--              arbitrary progress. The generate route now queues and runs
+--              jobs with the service role; users keep read access to their
+--              own jobs for progress polling and streaming.
+-- Version: 1.0.0
+-- Date: 2025-11-25
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can insert own generation jobs" ON public.blueprint_generation_jobs;
+DROP POLICY IF EXISTS "Users can update own generation jobs" ON public.blueprint_generation_jobs;
@@ -0,0 +1,88 @@
+-- ============================================================================
+-- Migration: Blueprint Version Guards
+-- Description: Let author deletion clear blueprint_versions.created_by despite
+--              the append-only trigger, and make restoring the current content
+--              a no-op instead of reporting the previous version as restored
+-- Version: 1.0.0
+-- Date: 2025-11-26
+-- ============================================================================
+
+-- ============================================================================
+-- APPEND-ONLY GUARD
+-- created_by is ON DELETE SET NULL, so deleting a user who authored versions
+-- updates those rows; that is the only update allowed
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.prevent_blueprint_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.created_by IS NOT NULL
+     AND NEW.created_by IS NULL
+     AND (to_jsonb(NEW) - 'created_by') = (to_jsonb(OLD) - 'created_by') THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'blueprint_versions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FUNCTION: Restore a previous version (recorded as a new 'restore' version)
+-- Returns NULL without touching the blueprint when its content already
+-- matches the version, since no new version would be captured
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.restore_blueprint_version(p_version_id UUID)
+RETURNS public.blueprint_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.blueprint_versions;
+  result public.blueprint_versions;
+BEGIN
+  SELECT * INTO v_version
+  FROM public.blueprint_versions
+  WHERE id = p_version_id;
+
+  IF v_version.id IS NULL OR NOT public.can_edit_blueprint(v_version.blueprint_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Blueprint version % not found or access denied', p_version_id;
+  END IF;
+
+  -- Same check as capture_blueprint_version: nothing to restore
+  IF EXISTS (
+    SELECT 1
+    FROM public.blueprint_generator
+    WHERE id = v_version.blueprint_id
+      AND blueprint_json IS NOT DISTINCT FROM v_version.blueprint_json
+      AND blueprint_markdown IS NOT DISTINCT FROM v_version.blueprint_markdown
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('polaris.version_source', 'restore', true);
+  PERFORM set_config('polaris.restored_from_version', v_version.version_number::TEXT, true);
+
+  UPDATE public.blueprint_generator
+  SET
+    blueprint_json = v_version.blueprint_json,
+    blueprint_markdown = v_version.blueprint_markdown,
+    static_answers = v_version.static_answers,
+    dynamic_answers = v_version.dynamic_answers,
+    title = COALESCE(v_version.title, title),
+    status = 'completed',
+    updated_at = NOW()
+  WHERE id = v_version.blueprint_id;
+
+  SELECT * INTO result
+  FROM public.blueprint_versions
+  WHERE blueprint_id = v_version.blueprint_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_blueprint_version(UUID) TO authenticated;
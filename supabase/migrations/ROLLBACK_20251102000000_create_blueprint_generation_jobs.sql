@@ -0,0 +1,4 @@
+-- Rollback: Remove blueprint_generation_jobs table
+DROP TRIGGER IF EXISTS trigger_update_blueprint_generation_jobs_updated_at ON public.blueprint_generation_jobs;
+DROP FUNCTION IF EXISTS update_blueprint_generation_jobs_updated_at();
+DROP TABLE IF EXISTS public.blueprint_generation_jobs;
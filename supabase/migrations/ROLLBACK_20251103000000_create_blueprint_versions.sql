@@ -0,0 +1,8 @@
+-- Rollback: Remove blueprint version history
+DROP TRIGGER IF EXISTS trigger_capture_blueprint_version ON public.blueprint_generator;
+DROP FUNCTION IF EXISTS public.capture_blueprint_version();
+DROP FUNCTION IF EXISTS public.restore_blueprint_version(UUID);
+DROP FUNCTION IF EXISTS public.update_blueprint_section(UUID, TEXT, JSONB, TEXT);
+DROP TRIGGER IF EXISTS trigger_prevent_blueprint_version_update ON public.blueprint_versions;
+DROP FUNCTION IF EXISTS public.prevent_blueprint_version_update();
+DROP TABLE IF EXISTS public.blueprint_versions;
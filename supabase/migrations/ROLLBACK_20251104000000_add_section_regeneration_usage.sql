@@ -0,0 +1,3 @@
+-- Rollback: Remove section regeneration usage counting
+DROP FUNCTION IF EXISTS public.get_section_regeneration_count(UUID);
+DROP INDEX IF EXISTS public.idx_blueprint_versions_user_regenerations;
@@ -0,0 +1,101 @@
+-- Rollback: Remove team workspaces and restore creator-only section edits
+DROP POLICY IF EXISTS "Workspace members can view workspace blueprint versions" ON public.blueprint_versions;
+DROP POLICY IF EXISTS "Workspace blueprints require an editor role to update" ON public.blueprint_generator;
+DROP POLICY IF EXISTS "Workspace blueprints require an editor role to insert" ON public.blueprint_generator;
+DROP POLICY IF EXISTS "Workspace editors can update workspace blueprints" ON public.blueprint_generator;
+DROP POLICY IF EXISTS "Workspace members can view workspace blueprints" ON public.blueprint_generator;
+DROP FUNCTION IF EXISTS public.accept_workspace_invitation(TEXT);
+DROP FUNCTION IF EXISTS public.create_workspace(TEXT);
+DROP FUNCTION IF EXISTS public.get_workspace_members(UUID);
+DROP TRIGGER IF EXISTS enforce_workspace_invitation_seats ON public.workspace_invitations;
+DROP TRIGGER IF EXISTS enforce_workspace_member_seats ON public.workspace_members;
+DROP FUNCTION IF EXISTS public.enforce_workspace_seat_limit();
+DROP INDEX IF EXISTS public.idx_blueprint_generator_workspace_id;
+ALTER TABLE public.blueprint_generator DROP COLUMN IF EXISTS workspace_id;
+DROP TABLE IF EXISTS public.workspace_invitations;
+DROP TABLE IF EXISTS public.workspace_members;
+DROP TABLE IF EXISTS public.workspaces;
+
+CREATE OR REPLACE FUNCTION public.update_blueprint_section(
+  p_blueprint_id UUID,
+  p_section_id TEXT,
+  p_section_data JSONB,
+  p_source TEXT DEFAULT 'edit'
+)
+RETURNS public.blueprint_generator
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result public.blueprint_generator;
+BEGIN
+  IF p_source NOT IN ('edit', 'regeneration') THEN
+    RAISE EXCEPTION 'Invalid change source: %', p_source;
+  END IF;
+
+  PERFORM set_config('polaris.version_source', p_source, true);
+
+  UPDATE public.blueprint_generator
+  SET
+    blueprint_json = jsonb_set(COALESCE(blueprint_json, '{}'::jsonb), ARRAY[p_section_id], p_section_data, true),
+    updated_at = NOW()
+  WHERE id = p_blueprint_id
+    AND user_id = auth.uid()
+  RETURNING * INTO result;
+
+  IF result.id IS NULL THEN
+    RAISE EXCEPTION 'Blueprint % not found or access denied', p_blueprint_id;
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_blueprint_version(p_version_id UUID)
+RETURNS public.blueprint_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.blueprint_versions;
+  result public.blueprint_versions;
+BEGIN
+  SELECT * INTO v_version
+  FROM public.blueprint_versions
+  WHERE id = p_version_id
+    AND user_id = auth.uid();
+
+  IF v_version.id IS NULL THEN
+    RAISE EXCEPTION 'Blueprint version % not found or access denied', p_version_id;
+  END IF;
+
+  PERFORM set_config('polaris.version_source', 'restore', true);
+  PERFORM set_config('polaris.restored_from_version', v_version.version_number::TEXT, true);
+
+  UPDATE public.blueprint_generator
+  SET
+    blueprint_json = v_version.blueprint_json,
+    blueprint_markdown = v_version.blueprint_markdown,
+    static_answers = v_version.static_answers,
+    dynamic_answers = v_version.dynamic_answers,
+    title = COALESCE(v_version.title, title),
+    status = 'completed',
+    updated_at = NOW()
+  WHERE id = v_version.blueprint_id
+    AND user_id = auth.uid();
+
+  SELECT * INTO result
+  FROM public.blueprint_versions
+  WHERE blueprint_id = v_version.blueprint_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  RETURN result;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.workspace_seats_used(UUID);
+DROP FUNCTION IF EXISTS public.can_edit_blueprint(UUID, UUID);
+DROP FUNCTION IF EXISTS public.workspace_role(UUID, UUID);
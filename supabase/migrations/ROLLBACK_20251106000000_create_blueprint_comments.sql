@@ -0,0 +1,9 @@
+-- Rollback: Remove blueprint comments
+DROP FUNCTION IF EXISTS public.get_shared_blueprint_comments(TEXT);
+DROP FUNCTION IF EXISTS public.get_blueprint_collaborators(UUID);
+DROP FUNCTION IF EXISTS public.set_blueprint_comment_resolved(UUID, BOOLEAN);
+DROP TRIGGER IF EXISTS validate_blueprint_comment_parent ON public.blueprint_comments;
+DROP FUNCTION IF EXISTS public.validate_blueprint_comment_parent();
+DROP TABLE IF EXISTS public.blueprint_comments;
+DROP FUNCTION IF EXISTS public.can_view_blueprint(UUID, UUID);
+ALTER TABLE public.blueprint_generator DROP COLUMN IF EXISTS share_comments;
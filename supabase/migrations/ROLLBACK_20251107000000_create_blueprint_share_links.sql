@@ -0,0 +1,49 @@
+-- Rollback: Remove blueprint share links
+-- Restores the token-based public policy and the original shared comments function.
+
+CREATE OR REPLACE FUNCTION public.get_shared_blueprint_comments(p_share_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  section_id TEXT,
+  parent_id UUID,
+  author_name TEXT,
+  body TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.section_id,
+    c.parent_id,
+    COALESCE(p.full_name, 'Collaborator') AS author_name,
+    c.body,
+    c.resolved_at,
+    c.created_at
+  FROM public.blueprint_generator b
+  JOIN public.blueprint_comments c ON c.blueprint_id = b.id
+  LEFT JOIN public.user_profiles p ON p.user_id = c.author_id
+  WHERE b.share_token = p_share_token
+    AND b.share_comments = true
+    AND b.deleted_at IS NULL
+  ORDER BY c.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_blueprint_comments(TEXT) TO anon, authenticated;
+
+CREATE POLICY "Public can view shared blueprints"
+  ON public.blueprint_generator
+  FOR SELECT
+  TO anon
+  USING (share_token IS NOT NULL);
+
+COMMENT ON COLUMN public.blueprint_generator.share_token IS NULL;
+
+DROP TRIGGER IF EXISTS record_blueprint_share_link_view ON public.blueprint_share_link_views;
+DROP FUNCTION IF EXISTS public.record_blueprint_share_link_view();
+DROP TABLE IF EXISTS public.blueprint_share_link_views;
+DROP TABLE IF EXISTS public.blueprint_share_links;
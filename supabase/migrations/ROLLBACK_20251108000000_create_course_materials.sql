@@ -0,0 +1,3 @@
+-- Rollback: Remove course materials
+DROP TABLE IF EXISTS public.course_material_chunks;
+DROP TABLE IF EXISTS public.course_materials;
@@ -0,0 +1,3 @@
+-- Rollback: Remove the LLM usage ledger
+DROP FUNCTION IF EXISTS public.get_llm_usage_by_user(TIMESTAMPTZ, UUID[]);
+DROP TABLE IF EXISTS public.llm_usage_ledger;
@@ -0,0 +1,5 @@
+-- Rollback: Remove prompt runs and blueprint prompt versions
+DROP FUNCTION IF EXISTS public.get_prompt_run_stats(TEXT, TEXT, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS public.record_prompt_run(UUID, UUID, TEXT, JSONB, BOOLEAN, INTEGER, BOOLEAN);
+DROP TABLE IF EXISTS public.prompt_runs;
+ALTER TABLE public.blueprint_generator DROP COLUMN IF EXISTS prompt_versions;
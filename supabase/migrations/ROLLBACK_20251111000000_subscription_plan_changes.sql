@@ -0,0 +1,48 @@
+-- Rollback: Remove subscription plan changes
+DROP FUNCTION IF EXISTS public.apply_due_plan_change(VARCHAR);
+DROP FUNCTION IF EXISTS public.apply_subscription_plan_change(UUID, VARCHAR, VARCHAR, INTEGER, INTEGER);
+ALTER TABLE public.subscriptions DROP COLUMN IF EXISTS pending_plan_change;
+
+-- Restore the profile sync from 20251029060000 (status changes only)
+CREATE OR REPLACE FUNCTION sync_subscription_to_user_profile()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_blueprint_limit INTEGER;
+BEGIN
+  v_blueprint_limit := CASE NEW.subscription_tier
+    WHEN 'free' THEN 2
+    WHEN 'explorer' THEN 5
+    WHEN 'navigator' THEN 25
+    WHEN 'voyager' THEN 50
+    WHEN 'crew' THEN 10
+    WHEN 'fleet' THEN 30
+    WHEN 'armada' THEN 60
+    ELSE 2
+  END;
+
+  IF NEW.status = 'active' AND (OLD IS NULL OR OLD.status != 'active') THEN
+    UPDATE public.user_profiles
+    SET
+      subscription_tier = NEW.subscription_tier,
+      user_role = NEW.subscription_tier,
+      blueprint_creation_limit = v_blueprint_limit,
+      blueprint_saving_limit = v_blueprint_limit,
+      updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  IF NEW.status IN ('cancelled', 'expired', 'completed')
+     AND (OLD IS NULL OR OLD.status NOT IN ('cancelled', 'expired', 'completed')) THEN
+    UPDATE public.user_profiles
+    SET
+      subscription_tier = 'explorer',
+      user_role = 'explorer',
+      blueprint_creation_limit = 2,
+      blueprint_saving_limit = 2,
+      updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,15 @@
+-- Rollback: Remove GST invoices and customer billing details
+DROP FUNCTION IF EXISTS public.issue_invoice(
+  UUID, VARCHAR, VARCHAR, TEXT, VARCHAR, INTEGER, INTEGER, INTEGER, INTEGER, NUMERIC, VARCHAR,
+  JSONB, JSONB, TIMESTAMPTZ
+);
+DROP TABLE IF EXISTS public.invoices;
+DROP TABLE IF EXISTS public.invoice_sequences;
+
+ALTER TABLE public.user_profiles
+  DROP CONSTRAINT IF EXISTS user_profiles_billing_state_code_format,
+  DROP CONSTRAINT IF EXISTS user_profiles_gstin_format,
+  DROP COLUMN IF EXISTS billing_state_code,
+  DROP COLUMN IF EXISTS billing_address,
+  DROP COLUMN IF EXISTS gstin,
+  DROP COLUMN IF EXISTS billing_legal_name;
@@ -0,0 +1,58 @@
+-- Rollback: Remove coupons and trials
+DROP FUNCTION IF EXISTS public.release_coupon_redemption(UUID);
+DROP FUNCTION IF EXISTS public.redeem_coupon(UUID, UUID, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT);
+DROP TABLE IF EXISTS public.coupon_redemptions;
+DROP TABLE IF EXISTS public.coupons;
+
+-- Restore the profile sync from 20251111000000 (no trial access)
+CREATE OR REPLACE FUNCTION sync_subscription_to_user_profile()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_blueprint_limit INTEGER;
+BEGIN
+  -- Determine blueprint limit based on subscription tier
+  v_blueprint_limit := CASE NEW.subscription_tier
+    WHEN 'free' THEN 2
+    WHEN 'explorer' THEN 5
+    WHEN 'navigator' THEN 25
+    WHEN 'voyager' THEN 50
+    WHEN 'crew' THEN 10
+    WHEN 'fleet' THEN 30
+    WHEN 'armada' THEN 60
+    ELSE 2
+  END;
+
+  -- Update user_profiles when subscription becomes active or changes plan
+  IF NEW.status = 'active' AND (
+    OLD IS NULL
+    OR OLD.status != 'active'
+    OR OLD.subscription_tier IS DISTINCT FROM NEW.subscription_tier
+  ) THEN
+    UPDATE public.user_profiles
+    SET
+      subscription_tier = NEW.subscription_tier,
+      user_role = NEW.subscription_tier,
+      blueprint_creation_limit = v_blueprint_limit,
+      blueprint_saving_limit = v_blueprint_limit,
+      updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  -- Downgrade to free tier when subscription is cancelled/expired/completed
+  IF NEW.status IN ('cancelled', 'expired', 'completed')
+     AND (OLD IS NULL OR OLD.status NOT IN ('cancelled', 'expired', 'completed')) THEN
+    UPDATE public.user_profiles
+    SET
+      subscription_tier = 'explorer',
+      user_role = 'explorer',
+      blueprint_creation_limit = 2,
+      blueprint_saving_limit = 2,
+      updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE public.subscriptions DROP COLUMN IF EXISTS trial_end;
@@ -0,0 +1,3 @@
+-- Rollback: Remove notifications
+DROP TABLE IF EXISTS public.notification_preferences;
+DROP TABLE IF EXISTS public.notifications;
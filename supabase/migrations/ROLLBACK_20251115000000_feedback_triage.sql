@@ -0,0 +1,15 @@
+-- Rollback: Remove feedback triage changes
+DROP INDEX IF EXISTS idx_feedback_submissions_status_assigned;
+
+CREATE POLICY "Users can update own feedback" ON feedback_submissions
+    FOR UPDATE USING (auth.uid() = user_id);
+
+DELETE FROM public.notifications WHERE type = 'feedback_updated';
+DELETE FROM public.notification_preferences WHERE type = 'feedback_updated';
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'generation_completed',
+  'share_link_viewed',
+  'payment_failed',
+  'grace_period_warning'
+));
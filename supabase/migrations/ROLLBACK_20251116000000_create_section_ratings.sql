@@ -0,0 +1,5 @@
+-- Rollback: Remove blueprint section ratings
+DROP FUNCTION IF EXISTS public.get_section_rating_stats(TIMESTAMPTZ);
+DROP TRIGGER IF EXISTS stamp_section_rating_context ON public.blueprint_section_ratings;
+DROP FUNCTION IF EXISTS public.stamp_section_rating_context();
+DROP TABLE IF EXISTS public.blueprint_section_ratings;
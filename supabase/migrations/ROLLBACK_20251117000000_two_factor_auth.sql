@@ -0,0 +1,18 @@
+-- Rollback: Remove recovery codes and the workspace two-factor requirement
+DROP FUNCTION IF EXISTS public.get_two_factor_required_workspaces();
+
+CREATE OR REPLACE FUNCTION public.workspace_role(p_workspace_id UUID, p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT role
+  FROM public.workspace_members
+  WHERE workspace_id = p_workspace_id
+    AND user_id = p_user_id;
+$$;
+
+ALTER TABLE public.workspaces DROP COLUMN IF EXISTS require_two_factor;
+DROP TABLE IF EXISTS public.two_factor_recovery_codes;
@@ -0,0 +1,5 @@
+-- Rollback: Remove personal data exports
+-- Archives left in the bucket must be removed through the storage API first
+DELETE FROM storage.buckets WHERE id = 'data-exports';
+DROP FUNCTION IF EXISTS public.get_user_sessions_for_export(UUID);
+DROP TABLE IF EXISTS public.data_export_requests;
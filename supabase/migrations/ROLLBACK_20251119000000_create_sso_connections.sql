@@ -0,0 +1,6 @@
+-- Rollback: Remove enterprise single sign-on
+-- Disable the custom access token hook in config.toml and the dashboard first
+DROP FUNCTION IF EXISTS public.enforce_sso_access_token_hook(JSONB);
+DROP FUNCTION IF EXISTS public.sso_enforced_for_email(TEXT);
+ALTER TABLE public.user_profiles DROP COLUMN IF EXISTS sso_connection_id;
+DROP TABLE IF EXISTS public.sso_connections;
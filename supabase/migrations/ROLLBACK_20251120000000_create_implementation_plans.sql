@@ -0,0 +1,7 @@
+-- Rollback: Remove implementation plans
+DROP TABLE IF EXISTS public.implementation_time_entries;
+DROP TABLE IF EXISTS public.implementation_tasks;
+DROP TABLE IF EXISTS public.implementation_plans;
+DROP FUNCTION IF EXISTS public.sync_implementation_task_hours();
+DROP FUNCTION IF EXISTS public.stamp_implementation_task_completion();
+DROP FUNCTION IF EXISTS public.update_implementation_updated_at();
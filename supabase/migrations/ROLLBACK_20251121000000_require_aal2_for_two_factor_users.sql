@@ -0,0 +1,16 @@
+-- Rollback: Remove the aal2 requirement for users with two-factor authentication
+DO $$
+DECLARE
+  t RECORD;
+BEGIN
+  FOR t IN
+    SELECT tablename
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND policyname = 'Require aal2 for two-factor users'
+  LOOP
+    EXECUTE format('DROP POLICY "Require aal2 for two-factor users" ON public.%I', t.tablename);
+  END LOOP;
+END $$;
+
+DROP FUNCTION IF EXISTS public.session_meets_assurance_level();
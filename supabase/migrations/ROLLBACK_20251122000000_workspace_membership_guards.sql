@@ -0,0 +1,63 @@
+-- Rollback: Remove the workspace membership guards
+DROP TRIGGER IF EXISTS protect_last_workspace_owner ON public.workspace_members;
+DROP FUNCTION IF EXISTS public.protect_last_workspace_owner();
+DROP TRIGGER IF EXISTS lock_workspace_membership ON public.workspace_members;
+DROP FUNCTION IF EXISTS public.lock_workspace_membership();
+DROP TRIGGER IF EXISTS restrict_workspace_invitation_update ON public.workspace_invitations;
+DROP FUNCTION IF EXISTS public.restrict_workspace_invitation_update();
+
+DROP POLICY IF EXISTS "Workspace blueprints require membership to view" ON public.blueprint_generator;
+DROP POLICY IF EXISTS "Workspace blueprints require an editor role to delete" ON public.blueprint_generator;
+
+CREATE OR REPLACE FUNCTION public.can_view_blueprint(p_blueprint_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.blueprint_generator b
+    WHERE b.id = p_blueprint_id
+      AND b.deleted_at IS NULL
+      AND (
+        b.user_id = p_user_id
+        OR (b.workspace_id IS NOT NULL AND public.workspace_role(b.workspace_id, p_user_id) IS NOT NULL)
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION soft_delete_blueprint(p_blueprint_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.blueprint_generator
+  SET deleted_at = NOW()
+  WHERE id = p_blueprint_id
+    AND user_id = p_user_id
+    AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION restore_blueprint(p_blueprint_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.blueprint_generator
+  SET deleted_at = NULL
+  WHERE id = p_blueprint_id
+    AND user_id = p_user_id
+    AND deleted_at IS NOT NULL;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
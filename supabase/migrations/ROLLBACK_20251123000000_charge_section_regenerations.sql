@@ -0,0 +1,83 @@
+-- Rollback: Stop charging section regenerations against the creation limit
+CREATE OR REPLACE FUNCTION get_actual_blueprint_creation_count(p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  SELECT COUNT(*)::INTEGER
+  INTO v_count
+  FROM public.blueprint_generator
+  WHERE user_id = p_user_id;
+
+  RETURN COALESCE(v_count, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+CREATE OR REPLACE FUNCTION get_actual_current_month_counts(
+  p_user_id UUID,
+  p_billing_cycle_start TIMESTAMPTZ
+)
+RETURNS TABLE(
+  creation_count INTEGER,
+  saving_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*)::INTEGER as creation_count,
+    COUNT(*) FILTER (
+      WHERE blueprint_json IS NOT NULL
+        AND deleted_at IS NULL
+    )::INTEGER as saving_count
+  FROM public.blueprint_generator
+  WHERE user_id = p_user_id
+    AND created_at >= p_billing_cycle_start;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+DROP FUNCTION IF EXISTS public.record_section_regeneration(UUID, TEXT, NUMERIC);
+DROP FUNCTION IF EXISTS public.get_section_regeneration_usage();
+DROP FUNCTION IF EXISTS public.get_section_regeneration_charges(UUID, TIMESTAMPTZ);
+DROP TABLE IF EXISTS public.section_regeneration_charges;
+
+-- Restore the version-based count from 20251104000000
+CREATE INDEX IF NOT EXISTS idx_blueprint_versions_user_regenerations
+  ON public.blueprint_versions(user_id, created_at)
+  WHERE change_source = 'regeneration';
+
+CREATE OR REPLACE FUNCTION public.get_section_regeneration_count(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_subscription_tier TEXT;
+  v_billing_cycle_start TIMESTAMPTZ;
+  v_count INTEGER;
+BEGIN
+  SELECT subscription_tier, billing_cycle_start_date
+  INTO v_subscription_tier, v_billing_cycle_start
+  FROM public.user_profiles
+  WHERE user_id = p_user_id;
+
+  SELECT COUNT(*)::INTEGER
+  INTO v_count
+  FROM public.blueprint_versions
+  WHERE user_id = p_user_id
+    AND change_source = 'regeneration'
+    AND (
+      v_subscription_tier IN ('free', 'explorer')
+      OR v_billing_cycle_start IS NULL
+      OR created_at >= v_billing_cycle_start
+    );
+
+  RETURN COALESCE(v_count, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_section_regeneration_count(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_section_regeneration_count IS
+'Number of AI section regenerations in the current limit period (lifetime for free/explorer, billing cycle for paid tiers).';
@@ -0,0 +1,12 @@
+-- Rollback: Allow comment placement changes again
+DROP TRIGGER IF EXISTS lock_blueprint_comment_placement ON public.blueprint_comments;
+DROP FUNCTION IF EXISTS public.lock_blueprint_comment_placement();
+
+DROP POLICY IF EXISTS "Authors can edit their comments" ON public.blueprint_comments;
+
+CREATE POLICY "Authors can edit their comments"
+  ON public.blueprint_comments
+  FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid());
@@ -0,0 +1,19 @@
+-- Rollback: Let users write their own generation jobs again
+CREATE POLICY "Users can insert own generation jobs"
+  ON public.blueprint_generation_jobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.blueprint_generator b
+      WHERE b.id = blueprint_id AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own generation jobs"
+  ON public.blueprint_generation_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
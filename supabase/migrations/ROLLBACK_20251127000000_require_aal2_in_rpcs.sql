@@ -0,0 +1,269 @@
+-- Rollback: Stop checking the assurance level inside RPCs
+
+CREATE OR REPLACE FUNCTION public.update_blueprint_section(
+  p_blueprint_id UUID,
+  p_section_id TEXT,
+  p_section_data JSONB,
+  p_source TEXT DEFAULT 'edit'
+)
+RETURNS public.blueprint_generator
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result public.blueprint_generator;
+BEGIN
+  IF p_source NOT IN ('edit', 'regeneration') THEN
+    RAISE EXCEPTION 'Invalid change source: %', p_source;
+  END IF;
+
+  IF NOT public.can_edit_blueprint(p_blueprint_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Blueprint % not found or access denied', p_blueprint_id;
+  END IF;
+
+  PERFORM set_config('polaris.version_source', p_source, true);
+
+  UPDATE public.blueprint_generator
+  SET
+    blueprint_json = jsonb_set(COALESCE(blueprint_json, '{}'::jsonb), ARRAY[p_section_id], p_section_data, true),
+    updated_at = NOW()
+  WHERE id = p_blueprint_id
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_blueprint_version(p_version_id UUID)
+RETURNS public.blueprint_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.blueprint_versions;
+  result public.blueprint_versions;
+BEGIN
+  SELECT * INTO v_version
+  FROM public.blueprint_versions
+  WHERE id = p_version_id;
+
+  IF v_version.id IS NULL OR NOT public.can_edit_blueprint(v_version.blueprint_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Blueprint version % not found or access denied', p_version_id;
+  END IF;
+
+  -- Same check as capture_blueprint_version: nothing to restore
+  IF EXISTS (
+    SELECT 1
+    FROM public.blueprint_generator
+    WHERE id = v_version.blueprint_id
+      AND blueprint_json IS NOT DISTINCT FROM v_version.blueprint_json
+      AND blueprint_markdown IS NOT DISTINCT FROM v_version.blueprint_markdown
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('polaris.version_source', 'restore', true);
+  PERFORM set_config('polaris.restored_from_version', v_version.version_number::TEXT, true);
+
+  UPDATE public.blueprint_generator
+  SET
+    blueprint_json = v_version.blueprint_json,
+    blueprint_markdown = v_version.blueprint_markdown,
+    static_answers = v_version.static_answers,
+    dynamic_answers = v_version.dynamic_answers,
+    title = COALESCE(v_version.title, title),
+    status = 'completed',
+    updated_at = NOW()
+  WHERE id = v_version.blueprint_id;
+
+  SELECT * INTO result
+  FROM public.blueprint_versions
+  WHERE blueprint_id = v_version.blueprint_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_workspace(p_name TEXT)
+RETURNS public.workspaces
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subscription public.subscriptions;
+  result public.workspaces;
+BEGIN
+  SELECT * INTO v_subscription
+  FROM public.subscriptions
+  WHERE user_id = auth.uid()
+    AND subscription_tier IN ('crew', 'fleet', 'armada')
+    AND status IN ('authenticated', 'active')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_subscription.subscription_id IS NULL THEN
+    RAISE EXCEPTION 'An active Crew, Fleet or Armada subscription is required to create a workspace'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.workspaces (name, owner_id, subscription_tier, razorpay_subscription_id, seat_limit)
+  VALUES (
+    p_name,
+    auth.uid(),
+    v_subscription.subscription_tier,
+    v_subscription.razorpay_subscription_id,
+    GREATEST(COALESCE((v_subscription.metadata->>'seats')::INTEGER, 1), 1)
+  )
+  RETURNING * INTO result;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (result.id, auth.uid(), 'owner');
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(p_token TEXT)
+RETURNS public.workspace_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.workspace_invitations;
+  v_email TEXT;
+  result public.workspace_members;
+BEGIN
+  SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+
+  SELECT * INTO v_invitation
+  FROM public.workspace_invitations
+  WHERE token = p_token
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+  FOR UPDATE;
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found or no longer valid';
+  END IF;
+
+  IF lower(v_invitation.email) <> lower(COALESCE(v_email, '')) THEN
+    RAISE EXCEPTION 'Invitation was sent to a different email address'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Release the pending seat before the member insert is checked against it
+  UPDATE public.workspace_invitations
+  SET accepted_at = NOW(), accepted_by = auth.uid()
+  WHERE id = v_invitation.id;
+
+  SELECT * INTO result
+  FROM public.workspace_members
+  WHERE workspace_id = v_invitation.workspace_id
+    AND user_id = auth.uid();
+
+  IF result.user_id IS NOT NULL THEN
+    RETURN result;
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role, invited_by)
+  VALUES (v_invitation.workspace_id, auth.uid(), v_invitation.role, v_invitation.invited_by)
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_blueprint_comment_resolved(
+  p_comment_id UUID,
+  p_resolved BOOLEAN
+)
+RETURNS public.blueprint_comments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result public.blueprint_comments;
+BEGIN
+  UPDATE public.blueprint_comments
+  SET
+    resolved_at = CASE WHEN p_resolved THEN NOW() ELSE NULL END,
+    resolved_by = CASE WHEN p_resolved THEN auth.uid() ELSE NULL END,
+    updated_at = NOW()
+  WHERE id = p_comment_id
+    AND parent_id IS NULL
+    AND public.can_view_blueprint(blueprint_id, auth.uid())
+  RETURNING * INTO result;
+
+  IF result.id IS NULL THEN
+    RAISE EXCEPTION 'Comment thread % not found or access denied', p_comment_id;
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_section_regeneration(
+  p_blueprint_id UUID,
+  p_section_id TEXT,
+  p_charge NUMERIC
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.section_regeneration_charges (user_id, blueprint_id, section_id, charge)
+  VALUES (auth.uid(), p_blueprint_id, p_section_id, p_charge);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION soft_delete_blueprint(p_blueprint_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.blueprint_generator
+  SET deleted_at = NOW()
+  WHERE id = p_blueprint_id
+    AND user_id = p_user_id
+    AND (workspace_id IS NULL OR public.workspace_role(workspace_id, p_user_id) IN ('owner', 'editor'))
+    AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION restore_blueprint(p_blueprint_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.blueprint_generator
+  SET deleted_at = NULL
+  WHERE id = p_blueprint_id
+    AND user_id = p_user_id
+    AND (workspace_id IS NULL OR public.workspace_role(workspace_id, p_user_id) IN ('owner', 'editor'))
+    AND deleted_at IS NOT NULL;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS public.require_session_assurance_level();